@@ -0,0 +1,101 @@
+import { CertificationType, Prisma, PrismaClient } from '@prisma/client';
+
+/**
+ * One-off backfill: moves the old employees.certifications JSON
+ * ([{name, number, expiryDate, issuer, documentUrl}]) into EmployeeCertification
+ * rows and clears the JSON, so the column can be dropped once every employee is done.
+ * Safe to re-run; employees already backfilled have no JSON left.
+ *
+ * Usage: npm run prisma:backfill-certifications [-- <actor user id>]
+ * Rows are created by the given user, or the first super admin.
+ */
+
+const prisma = new PrismaClient();
+
+interface LegacyCertification {
+  name?: string;
+  number?: string;
+  expiryDate?: string;
+  issuer?: string;
+  documentUrl?: string;
+}
+
+// Free-text names from the old JSON mapped onto the tracked certification types
+const TYPE_PATTERNS: Array<[RegExp, CertificationType]> = [
+  [/journeyman/i, 'JOURNEYMAN_LICENSE'],
+  [/master/i, 'MASTER_LICENSE'],
+  [/osha[\s-]*30/i, 'OSHA_30'],
+  [/osha[\s-]*10/i, 'OSHA_10'],
+  [/70e/i, 'NFPA_70E'],
+  [/aerial|lift/i, 'AERIAL_LIFT'],
+];
+
+const toCertificationType = (name: string): CertificationType =>
+  TYPE_PATTERNS.find(([pattern]) => pattern.test(name))?.[1] ?? 'OTHER';
+
+const toDate = (value?: string): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+async function main() {
+  const actor = process.argv[2]
+    ? await prisma.user.findUnique({ where: { id: process.argv[2] } })
+    : await prisma.user.findFirst({ where: { role: 'SUPER_ADMIN' }, orderBy: { created_at: 'asc' } });
+
+  if (!actor) {
+    throw new Error('No user to record as creator; pass a user id');
+  }
+
+  const employees = await prisma.employee.findMany({
+    where: { legacy_certifications: { not: Prisma.DbNull } },
+    select: { id: true, first_name: true, last_name: true, legacy_certifications: true },
+  });
+
+  console.log(`Backfilling certifications for ${employees.length} employees...`);
+
+  for (const employee of employees) {
+    const legacy = Array.isArray(employee.legacy_certifications)
+      ? (employee.legacy_certifications as unknown as LegacyCertification[])
+      : [];
+    const certifications = legacy.filter((certification) => certification && certification.name);
+
+    await prisma.$transaction([
+      prisma.employeeCertification.createMany({
+        data: certifications.map((certification) => {
+          const type = toCertificationType(certification.name!);
+
+          return {
+            employee_id: employee.id,
+            type,
+            name: type === 'OTHER' ? certification.name! : null,
+            number: certification.number || null,
+            issuer: certification.issuer || null,
+            expiry_date: toDate(certification.expiryDate),
+            notes: certification.documentUrl ? `Document: ${certification.documentUrl}` : null,
+            created_by: actor.id,
+            updated_by: actor.id,
+          };
+        }),
+      }),
+      prisma.employee.update({
+        where: { id: employee.id },
+        data: { legacy_certifications: Prisma.DbNull },
+      }),
+    ]);
+
+    console.log(`${employee.first_name} ${employee.last_name}: ${certifications.length} certifications`);
+  }
+
+  console.log('Certification backfill completed successfully!');
+}
+
+main()
+  .catch(e => {
+    console.error('Error backfilling certifications:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -10,9 +10,13 @@ import {
   UpdateUserData,
   ResetPasswordData
 } from '../services/admin.service';
+import { getAuditLogs, AuditLogFilters } from '../services/audit.service';
 import { logger } from '../utils/logger';
 import { successResponse, errorResponse } from '../utils/response';
 
+// Audit log actor and entity ids are Postgres UUID columns
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
  * Create a new user (SUPER_ADMIN only)
  */
@@ -340,3 +344,60 @@ export const resetUserPasswordController = async (req: Request, res: Response):
     return res.status(500).json(errorResponse('Internal server error', 'INTERNAL_ERROR'));
   }
 };
+
+/**
+ * Get audit log entries with filters (SUPER_ADMIN only)
+ */
+export const getAuditLogsController = async (req: Request, res: Response): Promise<Response | undefined> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    // Validate pagination parameters
+    if (page < 1 || limit < 1 || limit > 100) {
+      return res.status(400).json(errorResponse('Invalid pagination parameters', 'INVALID_PAGINATION'));
+    }
+
+    const { actorId, action, entityType, entityId, startDate, endDate } = req.query;
+
+    if ((actorId !== undefined && !UUID_PATTERN.test(String(actorId))) ||
+        (entityId !== undefined && !UUID_PATTERN.test(String(entityId)))) {
+      return res.status(400).json(errorResponse('Actor ID and entity ID must be valid UUIDs', 'VALIDATION_ERROR'));
+    }
+
+    const filters: AuditLogFilters = {
+      actorId: actorId as string | undefined,
+      action: action as string | undefined,
+      entityType: entityType as string | undefined,
+      entityId: entityId as string | undefined,
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined
+    };
+
+    if ((filters.startDate && isNaN(filters.startDate.getTime())) ||
+        (filters.endDate && isNaN(filters.endDate.getTime()))) {
+      return res.status(400).json(errorResponse('Invalid date format', 'INVALID_DATE'));
+    }
+
+    const result = await getAuditLogs(filters, page, limit);
+
+    return res.json(successResponse({
+      logs: result.logs,
+      pagination: {
+        page,
+        limit,
+        total: result.total,
+        totalPages: Math.ceil(result.total / limit)
+      }
+    }, 'Audit logs retrieved successfully'));
+  } catch (error) {
+    logger.error('Get audit logs controller error', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      adminUserId: req.user?.id,
+      service: 'electrical-pm-api',
+      timestamp: new Date().toISOString()
+    });
+
+    return res.status(500).json(errorResponse('Internal server error', 'INTERNAL_ERROR'));
+  }
+};
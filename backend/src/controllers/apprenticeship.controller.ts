@@ -0,0 +1,210 @@
+import { Request, Response } from 'express';
+import * as apprenticeshipService from '../services/apprenticeship.service';
+import { sendSuccess, sendError, sendCreated } from '../utils/response';
+import { logger } from '../utils/logger';
+
+/**
+ * Apprenticeship Controller
+ * Handles HTTP requests for OJT work categories, apprentice progress and ratio checks
+ */
+
+/**
+ * Parse an optional number from the request body
+ */
+const parseOptionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+/**
+ * Get OJT work categories
+ * GET /api/v1/apprenticeship/categories?includeInactive=true
+ */
+export const getWorkCategories = async (req: Request, res: Response) => {
+  try {
+    const categories = await apprenticeshipService.getWorkCategories(req.query.includeInactive === 'true');
+    return sendSuccess(res, categories, 'Work categories retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in getWorkCategories controller', { error });
+    return sendError(res, 'FETCH_ERROR', message || 'Failed to fetch work categories');
+  }
+};
+
+/**
+ * Create an OJT work category
+ * POST /api/v1/apprenticeship/categories
+ * Body: { name, requiredHours, description?, sortOrder?, isActive? }
+ */
+export const createWorkCategory = async (req: Request, res: Response) => {
+  try {
+    const { name, description, isActive } = req.body;
+    const userId = req.user?.id;
+    const requiredHours = parseOptionalNumber(req.body.requiredHours);
+
+    if (!name || requiredHours === undefined) {
+      return sendError(res, 'VALIDATION_ERROR', 'name and requiredHours are required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const category = await apprenticeshipService.createWorkCategory(
+      {
+        name,
+        description,
+        requiredHours,
+        sortOrder: parseOptionalNumber(req.body.sortOrder),
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+      },
+      userId,
+      req.ip
+    );
+    return sendCreated(res, category, 'Work category created successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in createWorkCategory controller', { error });
+
+    if (message.includes('already exists')) {
+      return sendError(res, 'DUPLICATE_ERROR', message, 409);
+    }
+
+    if (message.includes('required') || message.includes('must be')) {
+      return sendError(res, 'VALIDATION_ERROR', message, 400);
+    }
+
+    return sendError(res, 'CREATE_ERROR', message || 'Failed to create work category');
+  }
+};
+
+/**
+ * Update an OJT work category
+ * PUT /api/v1/apprenticeship/categories/:id
+ */
+export const updateWorkCategory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, description, isActive } = req.body;
+    const userId = req.user?.id;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Work category ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const category = await apprenticeshipService.updateWorkCategory(
+      id,
+      {
+        name,
+        description,
+        requiredHours: parseOptionalNumber(req.body.requiredHours),
+        sortOrder: parseOptionalNumber(req.body.sortOrder),
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+      },
+      userId,
+      req.ip
+    );
+    return sendSuccess(res, category, 'Work category updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in updateWorkCategory controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    if (message.includes('already exists')) {
+      return sendError(res, 'DUPLICATE_ERROR', message, 409);
+    }
+
+    if (message.includes('required') || message.includes('must be')) {
+      return sendError(res, 'VALIDATION_ERROR', message, 400);
+    }
+
+    return sendError(res, 'UPDATE_ERROR', message || 'Failed to update work category');
+  }
+};
+
+/**
+ * Delete an OJT work category
+ * DELETE /api/v1/apprenticeship/categories/:id
+ */
+export const deleteWorkCategory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Work category ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    await apprenticeshipService.deleteWorkCategory(id, userId, req.ip);
+    return sendSuccess(res, { id }, 'Work category deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in deleteWorkCategory controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    if (message.includes('cannot be deleted')) {
+      return sendError(res, 'IN_USE', message, 409);
+    }
+
+    return sendError(res, 'DELETE_ERROR', message || 'Failed to delete work category');
+  }
+};
+
+/**
+ * Get OJT hour progress for active apprentices
+ * GET /api/v1/apprenticeship/progress?employeeId=xxx
+ */
+export const getApprenticeProgress = async (req: Request, res: Response) => {
+  try {
+    const progress = await apprenticeshipService.getApprenticeProgress(
+      req.query.employeeId as string | undefined
+    );
+    return sendSuccess(res, progress, 'Apprentice progress retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in getApprenticeProgress controller', { error });
+    return sendError(res, 'REPORT_ERROR', message || 'Failed to generate apprentice progress');
+  }
+};
+
+/**
+ * Check journeyman-to-apprentice ratios on project sign-ins
+ * GET /api/v1/apprenticeship/ratio-check?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD&projectId=xxx
+ * (or ?date=YYYY-MM-DD for a single day)
+ */
+export const getRatioCheck = async (req: Request, res: Response) => {
+  try {
+    const { date, startDate, endDate, projectId } = req.query;
+
+    const start = new Date(((startDate || date) as string) || '');
+    const end = new Date(((endDate || startDate || date) as string) || '');
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return sendError(res, 'VALIDATION_ERROR', 'date or startDate/endDate (YYYY-MM-DD) is required', 400);
+    }
+
+    const checks = await apprenticeshipService.getRatioCheck(start, end, projectId as string | undefined);
+    return sendSuccess(res, checks, 'Apprentice ratio check completed successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in getRatioCheck controller', { error });
+
+    if (message.includes('must be')) {
+      return sendError(res, 'VALIDATION_ERROR', message, 400);
+    }
+
+    return sendError(res, 'REPORT_ERROR', message || 'Failed to check apprentice ratios');
+  }
+};
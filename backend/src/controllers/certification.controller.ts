@@ -0,0 +1,247 @@
+/**
+ * Certification Controller
+ *
+ * API route handlers for employee certifications including:
+ * - CRUD operations for an employee's licenses and safety cards
+ * - Expiring-soon report
+ * - Sign-in warnings for missing or expired required certifications
+ */
+
+import { Response } from 'express';
+import {
+  getEmployeeCertifications,
+  createCertification,
+  updateCertification,
+  deleteCertification,
+  getExpiringCertifications,
+  getSignInCertificationAlerts,
+  UpdateCertificationData
+} from '../services/certification.service';
+import { sendSuccess, sendError } from '../utils/response';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+/**
+ * Parse an optional YYYY-MM-DD (or ISO) value as a calendar date.
+ * Empty values clear the date; unparseable values become an invalid Date for validation.
+ */
+const parseOptionalDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  return new Date(String(value).slice(0, 10));
+};
+
+/**
+ * Build certification data from the request body, only including fields that are provided
+ */
+const parseCertificationBody = (body: AuthRequest['body']): UpdateCertificationData => {
+  const data: UpdateCertificationData = {};
+
+  if (body.type !== undefined) data.type = body.type;
+  if (body.name !== undefined) data.name = body.name;
+  if (body.number !== undefined) data.number = body.number;
+  if (body.issuer !== undefined) data.issuer = body.issuer;
+  if (body.issue_date !== undefined) data.issue_date = parseOptionalDate(body.issue_date);
+  if (body.expiry_date !== undefined) data.expiry_date = parseOptionalDate(body.expiry_date);
+  if (body.file_id !== undefined) data.file_id = body.file_id || null;
+  if (body.notes !== undefined) data.notes = body.notes;
+
+  return data;
+};
+
+/**
+ * Send an error response for a failed certification request based on the error message
+ */
+const handleCertificationError = (res: Response, error: unknown, code: string, fallbackMessage: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message.includes('not found')) {
+    sendError(res, 'NOT_FOUND', message, 404);
+  } else if (message.includes('Missing required fields') || message.includes('must be')) {
+    sendError(res, 'VALIDATION_ERROR', message, 400);
+  } else {
+    sendError(res, code, fallbackMessage, 500);
+  }
+};
+
+/**
+ * Get certifications expiring soon (or already expired) across active employees
+ * GET /api/v1/employees/certifications/expiring?days=60
+ */
+export const getExpiringCertificationsController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const days = req.query.days !== undefined ? parseInt(req.query.days as string, 10) : 60;
+
+    if (isNaN(days) || days < 0 || days > 365) {
+      sendError(res, 'VALIDATION_ERROR', 'days must be between 0 and 365', 400);
+      return;
+    }
+
+    const certifications = await getExpiringCertifications(days);
+
+    sendSuccess(res, certifications, 'Expiring certifications retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving expiring certifications', {
+      error: message,
+      userId: req.user?.id,
+      query: req.query
+    });
+    handleCertificationError(res, error, 'EXPIRING_CERTIFICATIONS_FAILED', 'Failed to retrieve expiring certifications');
+  }
+};
+
+/**
+ * Get workers signed in on jobs whose required certifications are missing or expired
+ * GET /api/v1/employees/certifications/sign-in-alerts
+ */
+export const getSignInCertificationAlertsController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const alerts = await getSignInCertificationAlerts();
+
+    sendSuccess(res, alerts, 'Sign-in certification alerts retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving sign-in certification alerts', {
+      error: message,
+      userId: req.user?.id
+    });
+    handleCertificationError(res, error, 'CERTIFICATION_ALERTS_FAILED', 'Failed to retrieve certification alerts');
+  }
+};
+
+/**
+ * Get an employee's certifications
+ * GET /api/v1/employees/:employeeId/certifications
+ */
+export const getEmployeeCertificationsController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { employeeId } = req.params;
+
+    if (!employeeId) {
+      sendError(res, 'VALIDATION_ERROR', 'Employee ID is required', 400);
+      return;
+    }
+
+    const certifications = await getEmployeeCertifications(employeeId);
+
+    sendSuccess(res, certifications, 'Employee certifications retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving employee certifications', {
+      error: message,
+      userId: req.user?.id,
+      employeeId: req.params.employeeId
+    });
+    handleCertificationError(res, error, 'CERTIFICATIONS_RETRIEVAL_FAILED', 'Failed to retrieve certifications');
+  }
+};
+
+/**
+ * Add a certification to an employee
+ * POST /api/v1/employees/:employeeId/certifications
+ * Body: { type, name?, number?, issuer?, issue_date?, expiry_date?, file_id?, notes? }
+ */
+export const createCertificationController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { employeeId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!employeeId) {
+      sendError(res, 'VALIDATION_ERROR', 'Employee ID is required', 400);
+      return;
+    }
+
+    const data = parseCertificationBody(req.body);
+
+    const certification = await createCertification(employeeId, { ...data, type: data.type! }, userId, req.ip);
+
+    sendSuccess(res, certification, 'Certification created successfully', 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error creating certification', {
+      error: message,
+      userId: req.user?.id,
+      employeeId: req.params.employeeId,
+      body: req.body
+    });
+    handleCertificationError(res, error, 'CERTIFICATION_CREATION_FAILED', 'Failed to create certification');
+  }
+};
+
+/**
+ * Update or renew a certification
+ * PUT /api/v1/employees/:employeeId/certifications/:certificationId
+ */
+export const updateCertificationController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { employeeId, certificationId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!employeeId || !certificationId) {
+      sendError(res, 'VALIDATION_ERROR', 'Employee ID and certification ID are required', 400);
+      return;
+    }
+
+    const certification = await updateCertification(
+      employeeId,
+      certificationId,
+      parseCertificationBody(req.body),
+      userId,
+      req.ip
+    );
+
+    sendSuccess(res, certification, 'Certification updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating certification', {
+      error: message,
+      userId: req.user?.id,
+      certificationId: req.params.certificationId,
+      body: req.body
+    });
+    handleCertificationError(res, error, 'CERTIFICATION_UPDATE_FAILED', 'Failed to update certification');
+  }
+};
+
+/**
+ * Delete a certification
+ * DELETE /api/v1/employees/:employeeId/certifications/:certificationId
+ */
+export const deleteCertificationController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { employeeId, certificationId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!employeeId || !certificationId) {
+      sendError(res, 'VALIDATION_ERROR', 'Employee ID and certification ID are required', 400);
+      return;
+    }
+
+    await deleteCertification(employeeId, certificationId, userId, req.ip);
+
+    sendSuccess(res, null, 'Certification deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error deleting certification', {
+      error: message,
+      userId: req.user?.id,
+      certificationId: req.params.certificationId
+    });
+    handleCertificationError(res, error, 'CERTIFICATION_DELETION_FAILED', 'Failed to delete certification');
+  }
+};
@@ -0,0 +1,265 @@
+import { Request, Response } from 'express';
+import * as certifiedPayrollService from '../services/certified-payroll.service';
+import { sendSuccess, sendError, sendCreated } from '../utils/response';
+import { logger } from '../utils/logger';
+import { generateCertifiedPayrollPDF } from '../utils/pdf-generator';
+
+/**
+ * Certified Payroll Controller
+ * Handles HTTP requests for prevailing wage rates and WH-347 certified payroll
+ */
+
+/**
+ * Parse the weekEnding query parameter
+ * Returns null when missing or invalid
+ */
+const parseWeekEnding = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Get certified payroll report
+ * GET /api/v1/payroll/certified/:projectId?weekEnding=YYYY-MM-DD
+ */
+export const getCertifiedPayroll = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const weekEnding = parseWeekEnding(req.query.weekEnding);
+
+    if (!projectId) {
+      return sendError(res, 'VALIDATION_ERROR', 'Project ID is required', 400);
+    }
+
+    if (!weekEnding) {
+      return sendError(res, 'VALIDATION_ERROR', 'A valid weekEnding parameter is required', 400);
+    }
+
+    const report = await certifiedPayrollService.generateCertifiedPayroll(projectId, weekEnding);
+    return sendSuccess(res, report, 'Certified payroll generated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in getCertifiedPayroll controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    return sendError(res, 'REPORT_ERROR', message || 'Failed to generate certified payroll');
+  }
+};
+
+/**
+ * Download certified payroll as PDF
+ * GET /api/v1/payroll/export/certified/:projectId/pdf?weekEnding=YYYY-MM-DD
+ */
+export const downloadCertifiedPayrollPDF = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const weekEnding = parseWeekEnding(req.query.weekEnding);
+
+    if (!projectId) {
+      return sendError(res, 'VALIDATION_ERROR', 'Project ID is required', 400);
+    }
+
+    if (!weekEnding) {
+      return sendError(res, 'VALIDATION_ERROR', 'A valid weekEnding parameter is required', 400);
+    }
+
+    const report = await certifiedPayrollService.generateCertifiedPayroll(projectId, weekEnding);
+
+    // Generate and stream PDF
+    return generateCertifiedPayrollPDF(report, res);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in downloadCertifiedPayrollPDF controller', { error });
+
+    // Check if headers were already sent (PDF generation started)
+    if (!res.headersSent) {
+      if (message.includes('not found')) {
+        return sendError(res, 'NOT_FOUND', message, 404);
+      }
+
+      return sendError(res, 'PDF_GENERATION_FAILED', message || 'Failed to generate PDF');
+    }
+  }
+};
+
+/**
+ * Download certified payroll as CSV
+ * GET /api/v1/payroll/export/certified/:projectId/csv?weekEnding=YYYY-MM-DD
+ */
+export const downloadCertifiedPayrollCSV = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+    const weekEnding = parseWeekEnding(req.query.weekEnding);
+
+    if (!projectId) {
+      return sendError(res, 'VALIDATION_ERROR', 'Project ID is required', 400);
+    }
+
+    if (!weekEnding) {
+      return sendError(res, 'VALIDATION_ERROR', 'A valid weekEnding parameter is required', 400);
+    }
+
+    const csv = await certifiedPayrollService.exportCertifiedPayrollCSV(projectId, weekEnding);
+
+    const filename = `certified-payroll-${projectId}-${req.query.weekEnding}.csv`;
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    return res.send(csv);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in downloadCertifiedPayrollCSV controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    return sendError(res, 'EXPORT_ERROR', message || 'Failed to export certified payroll');
+  }
+};
+
+/**
+ * Get wage determination rates for a project
+ * GET /api/v1/payroll/wage-rates?projectId=xxx
+ */
+export const getProjectWageRates = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.query;
+
+    if (!projectId) {
+      return sendError(res, 'VALIDATION_ERROR', 'projectId parameter is required', 400);
+    }
+
+    const rates = await certifiedPayrollService.getProjectWageRates(projectId as string);
+    return sendSuccess(res, rates, 'Wage rates retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in getProjectWageRates controller', { error });
+    return sendError(res, 'FETCH_ERROR', message || 'Failed to fetch wage rates');
+  }
+};
+
+/**
+ * Create a wage determination rate
+ * POST /api/v1/payroll/wage-rates
+ * Body: { projectId, classification, baseRate, fringeRate?, wageDecision? }
+ */
+export const createProjectWageRate = async (req: Request, res: Response) => {
+  try {
+    const { projectId, classification, baseRate, fringeRate, wageDecision } = req.body;
+    const userId = req.user?.id;
+
+    if (!projectId || !classification || baseRate === undefined || baseRate === '') {
+      return sendError(
+        res,
+        'VALIDATION_ERROR',
+        'projectId, classification and baseRate are required',
+        400
+      );
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const rate = await certifiedPayrollService.createProjectWageRate(
+      {
+        projectId,
+        classification,
+        wageDecision,
+        baseRate: parseFloat(baseRate),
+        fringeRate: fringeRate !== undefined && fringeRate !== '' ? parseFloat(fringeRate) : 0,
+      },
+      userId
+    );
+    return sendCreated(res, rate, 'Wage rate created successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in createProjectWageRate controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    if (message.includes('already exists')) {
+      return sendError(res, 'DUPLICATE_ERROR', message, 409);
+    }
+
+    return sendError(res, 'CREATE_ERROR', message || 'Failed to create wage rate');
+  }
+};
+
+/**
+ * Update a wage determination rate
+ * PUT /api/v1/payroll/wage-rates/:id
+ */
+export const updateProjectWageRate = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { classification, baseRate, fringeRate, wageDecision } = req.body;
+    const userId = req.user?.id;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Wage rate ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const rate = await certifiedPayrollService.updateProjectWageRate(
+      id,
+      {
+        classification,
+        wageDecision,
+        baseRate: baseRate !== undefined ? parseFloat(baseRate) : undefined,
+        fringeRate: fringeRate !== undefined ? parseFloat(fringeRate) : undefined,
+      },
+      userId
+    );
+    return sendSuccess(res, rate, 'Wage rate updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in updateProjectWageRate controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    if (message.includes('already exists')) {
+      return sendError(res, 'DUPLICATE_ERROR', message, 409);
+    }
+
+    return sendError(res, 'UPDATE_ERROR', message || 'Failed to update wage rate');
+  }
+};
+
+/**
+ * Delete a wage determination rate
+ * DELETE /api/v1/payroll/wage-rates/:id
+ */
+export const deleteProjectWageRate = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Wage rate ID is required', 400);
+    }
+
+    await certifiedPayrollService.deleteProjectWageRate(id);
+    return sendSuccess(res, { id }, 'Wage rate deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in deleteProjectWageRate controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    return sendError(res, 'DELETE_ERROR', message || 'Failed to delete wage rate');
+  }
+};
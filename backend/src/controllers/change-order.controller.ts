@@ -0,0 +1,327 @@
+/**
+ * Change Order Controller
+ *
+ * API route handlers for project change orders including:
+ * - CRUD operations for change orders on a project
+ * - Status workflow (submit, approve, reject, recall)
+ * - Change order log PDF
+ */
+
+import { Response } from 'express';
+import { ChangeOrderStatus } from '@prisma/client';
+import {
+  getProjectChangeOrders,
+  getChangeOrderById,
+  createChangeOrder,
+  updateChangeOrder,
+  updateChangeOrderStatus,
+  deleteChangeOrder,
+  getChangeOrderLog,
+  UpdateChangeOrderData
+} from '../services/change-order.service';
+import { generateChangeOrderLogPDF } from '../utils/pdf-generator';
+import { sendSuccess, sendError } from '../utils/response';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+/**
+ * Parse schedule impact days from the request body, keeping invalid values for validation
+ */
+const parseScheduleImpactDays = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  return Number(value);
+};
+
+/**
+ * Send an error response for a failed change order request based on the error message
+ */
+const handleChangeOrderError = (res: Response, error: unknown, code: string, fallbackMessage: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message.includes('not found')) {
+    sendError(res, 'NOT_FOUND', message, 404);
+  } else if (message.includes('cannot be')) {
+    sendError(res, 'CHANGE_ORDER_LOCKED', message, 409);
+  } else if (
+    message.includes('Missing required fields') ||
+    message.includes('must be') ||
+    message.includes('line item is required')
+  ) {
+    sendError(res, 'VALIDATION_ERROR', message, 400);
+  } else {
+    sendError(res, code, fallbackMessage, 500);
+  }
+};
+
+/**
+ * Get change orders for a project
+ * GET /api/v1/projects/:projectId/change-orders
+ */
+export const getProjectChangeOrdersController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+    const { status } = req.query;
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    if (status && !Object.values(ChangeOrderStatus).includes(status as ChangeOrderStatus)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid change order status', 400);
+      return;
+    }
+
+    const changeOrders = await getProjectChangeOrders(projectId, {
+      status: status ? (status as ChangeOrderStatus) : undefined
+    });
+
+    sendSuccess(res, changeOrders, 'Change orders retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving change orders', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.projectId
+    });
+    handleChangeOrderError(res, error, 'CHANGE_ORDERS_RETRIEVAL_FAILED', 'Failed to retrieve change orders');
+  }
+};
+
+/**
+ * Download the change order log as a PDF
+ * GET /api/v1/projects/:projectId/change-orders/log/pdf
+ */
+export const getChangeOrderLogPDFController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    const log = await getChangeOrderLog(projectId);
+
+    generateChangeOrderLogPDF(log, res);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error generating change order log PDF', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.projectId
+    });
+    handleChangeOrderError(res, error, 'PDF_GENERATION_FAILED', 'Failed to generate change order log PDF');
+  }
+};
+
+/**
+ * Get single change order
+ * GET /api/v1/projects/:projectId/change-orders/:changeOrderId
+ */
+export const getChangeOrderController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, changeOrderId } = req.params;
+
+    if (!projectId || !changeOrderId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and change order ID are required', 400);
+      return;
+    }
+
+    const changeOrder = await getChangeOrderById(projectId, changeOrderId);
+
+    sendSuccess(res, changeOrder, 'Change order retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving change order', {
+      error: message,
+      userId: req.user?.id,
+      changeOrderId: req.params.changeOrderId
+    });
+    handleChangeOrderError(res, error, 'CHANGE_ORDER_RETRIEVAL_FAILED', 'Failed to retrieve change order');
+  }
+};
+
+/**
+ * Create change order
+ * POST /api/v1/projects/:projectId/change-orders
+ */
+export const createChangeOrderController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    const { title, description, reason, line_items, schedule_impact_days, notes } = req.body;
+
+    const changeOrder = await createChangeOrder(
+      projectId,
+      {
+        title,
+        description,
+        reason,
+        line_items,
+        schedule_impact_days: parseScheduleImpactDays(schedule_impact_days),
+        notes
+      },
+      userId,
+      req.ip
+    );
+
+    sendSuccess(res, changeOrder, 'Change order created successfully', 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error creating change order', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.projectId,
+      body: req.body
+    });
+    handleChangeOrderError(res, error, 'CHANGE_ORDER_CREATION_FAILED', 'Failed to create change order');
+  }
+};
+
+/**
+ * Update change order
+ * PUT /api/v1/projects/:projectId/change-orders/:changeOrderId
+ */
+export const updateChangeOrderController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, changeOrderId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId || !changeOrderId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and change order ID are required', 400);
+      return;
+    }
+
+    const { title, description, reason, line_items, schedule_impact_days, notes } = req.body;
+
+    // Only include fields that are provided
+    const changeOrderData: UpdateChangeOrderData = {};
+    if (title !== undefined) changeOrderData.title = title;
+    if (description !== undefined) changeOrderData.description = description;
+    if (reason !== undefined) changeOrderData.reason = reason;
+    if (line_items !== undefined) changeOrderData.line_items = line_items;
+    if (schedule_impact_days !== undefined) {
+      changeOrderData.schedule_impact_days = parseScheduleImpactDays(schedule_impact_days) ?? 0;
+    }
+    if (notes !== undefined) changeOrderData.notes = notes;
+
+    const changeOrder = await updateChangeOrder(projectId, changeOrderId, changeOrderData, userId, req.ip);
+
+    sendSuccess(res, changeOrder, 'Change order updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating change order', {
+      error: message,
+      userId: req.user?.id,
+      changeOrderId: req.params.changeOrderId,
+      body: req.body
+    });
+    handleChangeOrderError(res, error, 'CHANGE_ORDER_UPDATE_FAILED', 'Failed to update change order');
+  }
+};
+
+/**
+ * Submit, approve, reject or recall change order
+ * PATCH /api/v1/projects/:projectId/change-orders/:changeOrderId/status
+ * Body: { status, client_approval_date?, rejection_reason? }
+ */
+export const updateChangeOrderStatusController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, changeOrderId } = req.params;
+    const userId = req.user?.id;
+    const { status, client_approval_date, rejection_reason } = req.body;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId || !changeOrderId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and change order ID are required', 400);
+      return;
+    }
+
+    if (!status || !Object.values(ChangeOrderStatus).includes(status)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid change order status', 400);
+      return;
+    }
+
+    const changeOrder = await updateChangeOrderStatus(
+      projectId,
+      changeOrderId,
+      {
+        status,
+        client_approval_date: client_approval_date ? new Date(client_approval_date) : undefined,
+        rejection_reason
+      },
+      userId,
+      req.ip
+    );
+
+    sendSuccess(res, changeOrder, 'Change order status updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating change order status', {
+      error: message,
+      userId: req.user?.id,
+      changeOrderId: req.params.changeOrderId,
+      body: req.body
+    });
+    handleChangeOrderError(
+      res,
+      error,
+      'CHANGE_ORDER_STATUS_UPDATE_FAILED',
+      'Failed to update change order status'
+    );
+  }
+};
+
+/**
+ * Delete change order
+ * DELETE /api/v1/projects/:projectId/change-orders/:changeOrderId
+ */
+export const deleteChangeOrderController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, changeOrderId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId || !changeOrderId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and change order ID are required', 400);
+      return;
+    }
+
+    await deleteChangeOrder(projectId, changeOrderId, userId, req.ip);
+
+    sendSuccess(res, null, 'Change order deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error deleting change order', {
+      error: message,
+      userId: req.user?.id,
+      changeOrderId: req.params.changeOrderId
+    });
+    handleChangeOrderError(res, error, 'CHANGE_ORDER_DELETION_FAILED', 'Failed to delete change order');
+  }
+};
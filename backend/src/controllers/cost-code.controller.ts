@@ -0,0 +1,240 @@
+import { Request, Response } from 'express';
+import * as costCodeService from '../services/cost-code.service';
+import { sendSuccess, sendError, sendCreated } from '../utils/response';
+import { logger } from '../utils/logger';
+
+/**
+ * Cost Code Controller
+ * Handles HTTP requests for the cost code catalog and per-project cost code budgets
+ */
+
+/**
+ * Parse an optional number from the request body
+ */
+const parseOptionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+/**
+ * Parse an optional budget from the request body; an empty value clears the budget
+ */
+const parseOptionalBudget = (value: unknown): number | null | undefined => {
+  if (value === undefined) return undefined;
+  return value === null || value === '' ? null : Number(value);
+};
+
+/**
+ * Map cost code errors to HTTP responses
+ */
+const handleCostCodeError = (res: Response, error: unknown, code: string, fallback: string) => {
+  const message = (error instanceof Error && error.message) || fallback;
+
+  if (message.includes('not found')) {
+    return sendError(res, 'NOT_FOUND', message, 404);
+  }
+
+  if (message.includes('already exists')) {
+    return sendError(res, 'DUPLICATE_ERROR', message, 409);
+  }
+
+  if (message.includes('cannot be deleted') || message.includes('cannot be removed')) {
+    return sendError(res, 'IN_USE', message, 409);
+  }
+
+  if (message.includes('required') || message.includes('must be')) {
+    return sendError(res, 'VALIDATION_ERROR', message, 400);
+  }
+
+  return sendError(res, code, message);
+};
+
+/**
+ * Get cost codes
+ * GET /api/v1/cost-codes?includeInactive=true
+ */
+export const getCostCodes = async (req: Request, res: Response) => {
+  try {
+    const costCodes = await costCodeService.getCostCodes(req.query.includeInactive === 'true');
+    return sendSuccess(res, costCodes, 'Cost codes retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getCostCodes controller', { error });
+    return handleCostCodeError(res, error, 'FETCH_ERROR', 'Failed to fetch cost codes');
+  }
+};
+
+/**
+ * Create a cost code
+ * POST /api/v1/cost-codes
+ * Body: { code, name, description?, sortOrder?, isActive? }
+ */
+export const createCostCode = async (req: Request, res: Response) => {
+  try {
+    const { code, name, description, isActive } = req.body;
+    const userId = req.user?.id;
+
+    if (!code || !name) {
+      return sendError(res, 'VALIDATION_ERROR', 'code and name are required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const costCode = await costCodeService.createCostCode(
+      {
+        code,
+        name,
+        description,
+        sortOrder: parseOptionalNumber(req.body.sortOrder),
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+      },
+      userId,
+      req.ip
+    );
+    return sendCreated(res, costCode, 'Cost code created successfully');
+  } catch (error) {
+    logger.error('Error in createCostCode controller', { error });
+    return handleCostCodeError(res, error, 'CREATE_ERROR', 'Failed to create cost code');
+  }
+};
+
+/**
+ * Update a cost code
+ * PUT /api/v1/cost-codes/:id
+ */
+export const updateCostCode = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { code, name, description, isActive } = req.body;
+    const userId = req.user?.id;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Cost code ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const costCode = await costCodeService.updateCostCode(
+      id,
+      {
+        code,
+        name,
+        description,
+        sortOrder: parseOptionalNumber(req.body.sortOrder),
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+      },
+      userId,
+      req.ip
+    );
+    return sendSuccess(res, costCode, 'Cost code updated successfully');
+  } catch (error) {
+    logger.error('Error in updateCostCode controller', { error });
+    return handleCostCodeError(res, error, 'UPDATE_ERROR', 'Failed to update cost code');
+  }
+};
+
+/**
+ * Delete a cost code
+ * DELETE /api/v1/cost-codes/:id
+ */
+export const deleteCostCode = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Cost code ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    await costCodeService.deleteCostCode(id, userId, req.ip);
+    return sendSuccess(res, { id }, 'Cost code deleted successfully');
+  } catch (error) {
+    logger.error('Error in deleteCostCode controller', { error });
+    return handleCostCodeError(res, error, 'DELETE_ERROR', 'Failed to delete cost code');
+  }
+};
+
+/**
+ * Get the cost codes enabled on a project
+ * GET /api/v1/cost-codes/projects/:projectId?includeInactive=true
+ */
+export const getProjectCostCodes = async (req: Request, res: Response) => {
+  try {
+    const { projectId } = req.params;
+
+    if (!projectId) {
+      return sendError(res, 'VALIDATION_ERROR', 'Project ID is required', 400);
+    }
+
+    const costCodes = await costCodeService.getProjectCostCodes(projectId, req.query.includeInactive === 'true');
+    return sendSuccess(res, costCodes, 'Project cost codes retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getProjectCostCodes controller', { error });
+    return handleCostCodeError(res, error, 'FETCH_ERROR', 'Failed to fetch project cost codes');
+  }
+};
+
+/**
+ * Enable a cost code on a project or update its budget
+ * PUT /api/v1/cost-codes/projects/:projectId/:costCodeId
+ * Body: { budgetHours?, budgetAmount? }
+ */
+export const setProjectCostCode = async (req: Request, res: Response) => {
+  try {
+    const { projectId, costCodeId } = req.params;
+    const userId = req.user?.id;
+
+    if (!projectId || !costCodeId) {
+      return sendError(res, 'VALIDATION_ERROR', 'Project ID and cost code ID are required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const projectCostCode = await costCodeService.setProjectCostCode(
+      projectId,
+      costCodeId,
+      {
+        budgetHours: parseOptionalBudget(req.body.budgetHours),
+        budgetAmount: parseOptionalBudget(req.body.budgetAmount),
+      },
+      userId,
+      req.ip
+    );
+    return sendSuccess(res, projectCostCode, 'Project cost code saved successfully');
+  } catch (error) {
+    logger.error('Error in setProjectCostCode controller', { error });
+    return handleCostCodeError(res, error, 'UPDATE_ERROR', 'Failed to save project cost code');
+  }
+};
+
+/**
+ * Disable a cost code on a project
+ * DELETE /api/v1/cost-codes/projects/:projectId/:costCodeId
+ */
+export const removeProjectCostCode = async (req: Request, res: Response) => {
+  try {
+    const { projectId, costCodeId } = req.params;
+    const userId = req.user?.id;
+
+    if (!projectId || !costCodeId) {
+      return sendError(res, 'VALIDATION_ERROR', 'Project ID and cost code ID are required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    await costCodeService.removeProjectCostCode(projectId, costCodeId, userId, req.ip);
+    return sendSuccess(res, { projectId, costCodeId }, 'Project cost code removed successfully');
+  } catch (error) {
+    logger.error('Error in removeProjectCostCode controller', { error });
+    return handleCostCodeError(res, error, 'DELETE_ERROR', 'Failed to remove project cost code');
+  }
+};
@@ -0,0 +1,237 @@
+/**
+ * Crew Schedule Controller
+ *
+ * API route handlers for crew scheduling including:
+ * - Week calendar of crew assignments with conflicts
+ * - Assign, move and remove crew members
+ * - Sign-in sheet prefill from the day's schedule
+ */
+
+import { Response } from 'express';
+import {
+  getCrewSchedule,
+  createCrewAssignment,
+  updateCrewAssignment,
+  deleteCrewAssignment,
+  getSignInPrefill,
+  UpdateCrewAssignmentData
+} from '../services/crew-schedule.service';
+import { sendSuccess, sendError } from '../utils/response';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+/**
+ * Parse a YYYY-MM-DD (or ISO) value as a calendar date, or null if invalid
+ */
+const parseDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = new Date(String(value).slice(0, 10));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Build assignment data from the request body, only including fields that are provided
+ */
+const parseAssignmentBody = (body: AuthRequest['body']): UpdateCrewAssignmentData => {
+  const data: UpdateCrewAssignmentData = {};
+
+  if (body.employee_id !== undefined) data.employee_id = body.employee_id;
+  if (body.project_id !== undefined) data.project_id = body.project_id;
+  if (body.date !== undefined) data.date = parseDate(body.date) ?? new Date(NaN);
+  if (body.start_time !== undefined) data.start_time = body.start_time || null;
+  if (body.notes !== undefined) data.notes = body.notes;
+
+  return data;
+};
+
+/**
+ * Send an error response for a failed crew schedule request based on the error message
+ */
+const handleCrewScheduleError = (res: Response, error: unknown, code: string, fallbackMessage: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message.includes('not found')) {
+    sendError(res, 'NOT_FOUND', message, 404);
+  } else if (message.includes('already scheduled') || message.includes('cannot be')) {
+    sendError(res, 'SCHEDULE_CONFLICT', message, 409);
+  } else if (message.includes('Missing required fields') || message.includes('must be')) {
+    sendError(res, 'VALIDATION_ERROR', message, 400);
+  } else {
+    sendError(res, code, fallbackMessage, 500);
+  }
+};
+
+/**
+ * Get crew assignments for a date range (typically one week)
+ * GET /api/v1/crew-schedule?start=YYYY-MM-DD&end=YYYY-MM-DD&project_id=&employee_id=
+ */
+export const getCrewScheduleController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const startDate = parseDate(req.query.start);
+    const endDate = parseDate(req.query.end);
+
+    if (!startDate || !endDate) {
+      sendError(res, 'VALIDATION_ERROR', 'start and end dates are required (YYYY-MM-DD)', 400);
+      return;
+    }
+
+    if (endDate < startDate) {
+      sendError(res, 'VALIDATION_ERROR', 'end must be on or after start', 400);
+      return;
+    }
+
+    const assignments = await getCrewSchedule(startDate, endDate, {
+      project_id: req.query.project_id as string | undefined,
+      employee_id: req.query.employee_id as string | undefined
+    });
+
+    sendSuccess(res, assignments, 'Crew schedule retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving crew schedule', {
+      error: message,
+      userId: req.user?.id,
+      query: req.query
+    });
+    handleCrewScheduleError(res, error, 'CREW_SCHEDULE_RETRIEVAL_FAILED', 'Failed to retrieve crew schedule');
+  }
+};
+
+/**
+ * Get the day's crews grouped by project for the sign-in sheet
+ * GET /api/v1/crew-schedule/sign-in-prefill?date=YYYY-MM-DD
+ */
+export const getSignInPrefillController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const date = parseDate(req.query.date);
+
+    if (!date) {
+      sendError(res, 'VALIDATION_ERROR', 'date is required (YYYY-MM-DD)', 400);
+      return;
+    }
+
+    const groups = await getSignInPrefill(date);
+
+    sendSuccess(res, groups, 'Sign-in prefill retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving sign-in prefill', {
+      error: message,
+      userId: req.user?.id,
+      date: req.query.date
+    });
+    handleCrewScheduleError(res, error, 'SIGN_IN_PREFILL_FAILED', 'Failed to build sign-in prefill');
+  }
+};
+
+/**
+ * Assign an employee to a project for a day
+ * POST /api/v1/crew-schedule
+ * Body: { employee_id, project_id, date, start_time?, notes? }
+ */
+export const createCrewAssignmentController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    const data = parseAssignmentBody(req.body);
+
+    const missing = ['employee_id', 'project_id', 'date'].filter((field) => !req.body[field]);
+    if (missing.length > 0) {
+      sendError(res, 'MISSING_REQUIRED_FIELDS', `Missing required fields: ${missing.join(', ')}`, 400);
+      return;
+    }
+
+    const assignment = await createCrewAssignment(
+      {
+        ...data,
+        employee_id: data.employee_id!,
+        project_id: data.project_id!,
+        date: data.date!
+      },
+      userId,
+      req.ip
+    );
+
+    sendSuccess(res, assignment, 'Crew assignment created successfully', 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error creating crew assignment', {
+      error: message,
+      userId: req.user?.id,
+      body: req.body
+    });
+    handleCrewScheduleError(res, error, 'CREW_ASSIGNMENT_CREATION_FAILED', 'Failed to create crew assignment');
+  }
+};
+
+/**
+ * Update or move a crew assignment
+ * PUT /api/v1/crew-schedule/:id
+ */
+export const updateCrewAssignmentController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!id) {
+      sendError(res, 'VALIDATION_ERROR', 'Assignment ID is required', 400);
+      return;
+    }
+
+    const assignment = await updateCrewAssignment(id, parseAssignmentBody(req.body), userId, req.ip);
+
+    sendSuccess(res, assignment, 'Crew assignment updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating crew assignment', {
+      error: message,
+      userId: req.user?.id,
+      assignmentId: req.params.id,
+      body: req.body
+    });
+    handleCrewScheduleError(res, error, 'CREW_ASSIGNMENT_UPDATE_FAILED', 'Failed to update crew assignment');
+  }
+};
+
+/**
+ * Remove a crew assignment
+ * DELETE /api/v1/crew-schedule/:id
+ */
+export const deleteCrewAssignmentController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!id) {
+      sendError(res, 'VALIDATION_ERROR', 'Assignment ID is required', 400);
+      return;
+    }
+
+    await deleteCrewAssignment(id, userId, req.ip);
+
+    sendSuccess(res, null, 'Crew assignment deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error deleting crew assignment', {
+      error: message,
+      userId: req.user?.id,
+      assignmentId: req.params.id
+    });
+    handleCrewScheduleError(res, error, 'CREW_ASSIGNMENT_DELETION_FAILED', 'Failed to delete crew assignment');
+  }
+};
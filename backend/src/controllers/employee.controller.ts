@@ -136,6 +136,8 @@ export const createEmployeeController = async (req: AuthRequest, res: Response):
       hire_date,
       employment_status,
       employee_number,
+      payroll_id,
+      union_local_id,
       department,
       notes
     } = req.body;
@@ -157,11 +159,13 @@ export const createEmployeeController = async (req: AuthRequest, res: Response):
       hire_date: hire_date ? new Date(hire_date) : undefined,
       employment_status,
       employee_number,
+      payroll_id: payroll_id || null,
+      union_local_id: union_local_id || null,
       department,
       notes
     };
 
-    const employee = await createEmployee(employeeData, userId);
+    const employee = await createEmployee(employeeData, userId, req.ip);
 
     logger.info('Employee created successfully', {
       userId,
@@ -178,7 +182,9 @@ export const createEmployeeController = async (req: AuthRequest, res: Response):
     });
 
     // Handle specific error cases
-    if (error.message.includes('already exists')) {
+    if (error.message.includes('Union local')) {
+      sendError(res, 'INVALID_UNION_LOCAL', error.message, 400);
+    } else if (error.message.includes('already exists')) {
       sendError(res, 'EMPLOYEE_NUMBER_EXISTS', error.message, 409);
     } else if (error.message.includes('already linked')) {
       sendError(res, 'USER_ALREADY_LINKED', error.message, 409);
@@ -218,6 +224,8 @@ export const updateEmployeeController = async (req: AuthRequest, res: Response):
       hire_date,
       employment_status,
       employee_number,
+      payroll_id,
+      union_local_id,
       department,
       notes,
       is_active
@@ -235,11 +243,13 @@ export const updateEmployeeController = async (req: AuthRequest, res: Response):
     if (hire_date !== undefined) employeeData.hire_date = new Date(hire_date);
     if (employment_status !== undefined) employeeData.employment_status = employment_status;
     if (employee_number !== undefined) employeeData.employee_number = employee_number;
+    if (payroll_id !== undefined) employeeData.payroll_id = payroll_id || null;
+    if (union_local_id !== undefined) employeeData.union_local_id = union_local_id || null;
     if (department !== undefined) employeeData.department = department;
     if (notes !== undefined) employeeData.notes = notes;
     if (is_active !== undefined) employeeData.is_active = is_active;
 
-    const employee = await updateEmployee(id, employeeData, userId);
+    const employee = await updateEmployee(id, employeeData, userId, req.ip);
 
     logger.info('Employee updated successfully', {
       userId,
@@ -257,7 +267,9 @@ export const updateEmployeeController = async (req: AuthRequest, res: Response):
     });
 
     // Handle specific error cases
-    if (error.message.includes('not found')) {
+    if (error.message.includes('Union local')) {
+      sendError(res, 'INVALID_UNION_LOCAL', error.message, 400);
+    } else if (error.message.includes('not found')) {
       sendError(res, 'EMPLOYEE_NOT_FOUND', error.message, 404);
     } else if (error.message.includes('already exists')) {
       sendError(res, 'EMPLOYEE_NUMBER_EXISTS', error.message, 409);
@@ -288,7 +300,7 @@ export const deleteEmployeeController = async (req: AuthRequest, res: Response):
       return;
     }
 
-    await deleteEmployee(id, userId);
+    await deleteEmployee(id, userId, req.ip);
 
     logger.info('Employee deleted successfully', {
       userId,
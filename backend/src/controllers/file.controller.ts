@@ -47,7 +47,8 @@ export const uploadFileHandler = async (req: AuthRequest, res: Response): Promis
       dailyLogId,
       description,
       tags,
-      folderPath
+      folderPath,
+      receiptAmount
     } = req.body;
 
     // Validate category
@@ -65,7 +66,8 @@ export const uploadFileHandler = async (req: AuthRequest, res: Response): Promis
       dailyLogId: dailyLogId || undefined,
       description: description || undefined,
       tags: tags ? JSON.parse(tags) : undefined,
-      folderPath: folderPath || undefined
+      folderPath: folderPath || undefined,
+      receiptAmount: receiptAmount ? parseFloat(receiptAmount) : undefined
     };
 
     const file = await uploadFile(uploadData, userId);
@@ -175,13 +177,15 @@ export const updateFileHandler = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    const { description, tags, folderPath, isFavorite } = req.body;
+    const { description, tags, folderPath, isFavorite, receiptAmount } = req.body;
 
     const file = await updateFile(id, {
       description,
       tags,
       folderPath,
-      isFavorite
+      isFavorite,
+      receiptAmount:
+        receiptAmount === undefined ? undefined : receiptAmount === null ? null : parseFloat(receiptAmount)
     });
 
     res.json(successResponse(file, 'File updated successfully'));
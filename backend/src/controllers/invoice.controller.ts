@@ -0,0 +1,349 @@
+/**
+ * Invoice Controller
+ *
+ * API route handlers for project invoices including:
+ * - Progress pay applications and T&M invoices
+ * - Status workflow (draft, sent, paid)
+ * - Invoice PDF
+ */
+
+import { Response } from 'express';
+import { InvoiceStatus, InvoiceType } from '@prisma/client';
+import {
+  getProjectInvoices,
+  getInvoiceById,
+  createInvoice,
+  updateInvoice,
+  updateInvoiceStatus,
+  deleteInvoice,
+  getInvoiceForPDF,
+  UpdateInvoiceData
+} from '../services/invoice.service';
+import { generateInvoicePDF } from '../utils/pdf-generator';
+import { sendSuccess, sendError } from '../utils/response';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+/**
+ * Parse an optional number from the request body (null clears the value)
+ */
+const parseOptionalNumber = (value: unknown): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return parseFloat(String(value));
+};
+
+/**
+ * Parse an optional date from the request body (null clears the value)
+ */
+const parseOptionalDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return new Date(String(value));
+};
+
+/**
+ * Build invoice data from the request body, only including fields that are provided
+ */
+const parseInvoiceBody = (body: AuthRequest['body']): UpdateInvoiceData => {
+  const data: UpdateInvoiceData = {};
+
+  const invoiceDate = parseOptionalDate(body.invoice_date);
+  if (invoiceDate) data.invoice_date = invoiceDate;
+
+  const dueDate = parseOptionalDate(body.due_date);
+  if (dueDate !== undefined) data.due_date = dueDate;
+
+  const periodStart = parseOptionalDate(body.period_start);
+  if (periodStart !== undefined) data.period_start = periodStart;
+
+  if (body.period_end !== undefined) data.period_end = new Date(body.period_end);
+
+  const retainage = parseOptionalNumber(body.retainage_percent);
+  if (retainage !== undefined) data.retainage_percent = retainage ?? 0;
+
+  const laborRate = parseOptionalNumber(body.labor_rate);
+  if (laborRate !== undefined) data.labor_rate = laborRate;
+
+  const laborMarkup = parseOptionalNumber(body.labor_markup_percent);
+  if (laborMarkup !== undefined) data.labor_markup_percent = laborMarkup;
+
+  const expenseMarkup = parseOptionalNumber(body.expense_markup_percent);
+  if (expenseMarkup !== undefined) data.expense_markup_percent = expenseMarkup;
+
+  if (body.stored_materials && typeof body.stored_materials === 'object') {
+    data.stored_materials = Object.fromEntries(
+      Object.entries(body.stored_materials).map(([budgetItemId, amount]) => [budgetItemId, parseFloat(amount as string)])
+    );
+  }
+
+  if (body.notes !== undefined) data.notes = body.notes;
+
+  return data;
+};
+
+/**
+ * Send an error response for a failed invoice request based on the error message
+ */
+const handleInvoiceError = (res: Response, error: unknown, code: string, fallbackMessage: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message.includes('not found')) {
+    sendError(res, 'NOT_FOUND', message, 404);
+  } else if (message.includes('cannot be') || message.includes('before starting another')) {
+    sendError(res, 'INVOICE_LOCKED', message, 409);
+  } else if (
+    message.includes('Missing required fields') ||
+    message.includes('must be') ||
+    message.includes('requires') ||
+    message.includes('No approved')
+  ) {
+    sendError(res, 'VALIDATION_ERROR', message, 400);
+  } else {
+    sendError(res, code, fallbackMessage, 500);
+  }
+};
+
+/**
+ * Get invoices for a project
+ * GET /api/v1/projects/:projectId/invoices
+ */
+export const getProjectInvoicesController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+    const { status, type } = req.query;
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    if (status && !Object.values(InvoiceStatus).includes(status as InvoiceStatus)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid invoice status', 400);
+      return;
+    }
+
+    if (type && !Object.values(InvoiceType).includes(type as InvoiceType)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid invoice type', 400);
+      return;
+    }
+
+    const invoices = await getProjectInvoices(projectId, {
+      status: status ? (status as InvoiceStatus) : undefined,
+      type: type ? (type as InvoiceType) : undefined
+    });
+
+    sendSuccess(res, invoices, 'Invoices retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving invoices', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.projectId
+    });
+    handleInvoiceError(res, error, 'INVOICES_RETRIEVAL_FAILED', 'Failed to retrieve invoices');
+  }
+};
+
+/**
+ * Get single invoice
+ * GET /api/v1/projects/:projectId/invoices/:invoiceId
+ */
+export const getInvoiceController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, invoiceId } = req.params;
+
+    if (!projectId || !invoiceId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and invoice ID are required', 400);
+      return;
+    }
+
+    const invoice = await getInvoiceById(projectId, invoiceId);
+
+    sendSuccess(res, invoice, 'Invoice retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving invoice', {
+      error: message,
+      userId: req.user?.id,
+      invoiceId: req.params.invoiceId
+    });
+    handleInvoiceError(res, error, 'INVOICE_RETRIEVAL_FAILED', 'Failed to retrieve invoice');
+  }
+};
+
+/**
+ * Download invoice as a PDF
+ * GET /api/v1/projects/:projectId/invoices/:invoiceId/pdf
+ */
+export const getInvoicePDFController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, invoiceId } = req.params;
+
+    if (!projectId || !invoiceId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and invoice ID are required', 400);
+      return;
+    }
+
+    const pdfData = await getInvoiceForPDF(projectId, invoiceId);
+
+    generateInvoicePDF(pdfData, res);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error generating invoice PDF', {
+      error: message,
+      userId: req.user?.id,
+      invoiceId: req.params.invoiceId
+    });
+    handleInvoiceError(res, error, 'PDF_GENERATION_FAILED', 'Failed to generate invoice PDF');
+  }
+};
+
+/**
+ * Create draft invoice (pay application for lump sum projects, T&M otherwise)
+ * POST /api/v1/projects/:projectId/invoices
+ */
+export const createInvoiceController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    const data = parseInvoiceBody(req.body);
+
+    if (!data.period_end) {
+      sendError(res, 'MISSING_REQUIRED_FIELDS', 'Missing required fields: period_end', 400);
+      return;
+    }
+
+    const invoice = await createInvoice(projectId, { ...data, period_end: data.period_end }, userId, req.ip);
+
+    sendSuccess(res, invoice, 'Invoice created successfully', 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error creating invoice', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.projectId,
+      body: req.body
+    });
+    handleInvoiceError(res, error, 'INVOICE_CREATION_FAILED', 'Failed to create invoice');
+  }
+};
+
+/**
+ * Update draft invoice and rebuild its lines
+ * PUT /api/v1/projects/:projectId/invoices/:invoiceId
+ */
+export const updateInvoiceController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, invoiceId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId || !invoiceId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and invoice ID are required', 400);
+      return;
+    }
+
+    const invoice = await updateInvoice(projectId, invoiceId, parseInvoiceBody(req.body), userId, req.ip);
+
+    sendSuccess(res, invoice, 'Invoice updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating invoice', {
+      error: message,
+      userId: req.user?.id,
+      invoiceId: req.params.invoiceId,
+      body: req.body
+    });
+    handleInvoiceError(res, error, 'INVOICE_UPDATE_FAILED', 'Failed to update invoice');
+  }
+};
+
+/**
+ * Mark invoice sent or paid, or return it to draft / sent
+ * PATCH /api/v1/projects/:projectId/invoices/:invoiceId/status
+ * Body: { status: 'DRAFT' | 'SENT' | 'PAID' }
+ */
+export const updateInvoiceStatusController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, invoiceId } = req.params;
+    const userId = req.user?.id;
+    const { status } = req.body;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId || !invoiceId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and invoice ID are required', 400);
+      return;
+    }
+
+    if (!status || !Object.values(InvoiceStatus).includes(status)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid invoice status', 400);
+      return;
+    }
+
+    const invoice = await updateInvoiceStatus(projectId, invoiceId, status, userId, req.ip);
+
+    sendSuccess(res, invoice, 'Invoice status updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating invoice status', {
+      error: message,
+      userId: req.user?.id,
+      invoiceId: req.params.invoiceId,
+      body: req.body
+    });
+    handleInvoiceError(res, error, 'INVOICE_STATUS_UPDATE_FAILED', 'Failed to update invoice status');
+  }
+};
+
+/**
+ * Delete draft invoice
+ * DELETE /api/v1/projects/:projectId/invoices/:invoiceId
+ */
+export const deleteInvoiceController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, invoiceId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId || !invoiceId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and invoice ID are required', 400);
+      return;
+    }
+
+    await deleteInvoice(projectId, invoiceId, userId, req.ip);
+
+    sendSuccess(res, null, 'Invoice deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error deleting invoice', {
+      error: message,
+      userId: req.user?.id,
+      invoiceId: req.params.invoiceId
+    });
+    handleInvoiceError(res, error, 'INVOICE_DELETION_FAILED', 'Failed to delete invoice');
+  }
+};
@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import * as overtimeService from '../services/overtime.service';
+import { sendSuccess, sendError, sendCreated } from '../utils/response';
+import { logger } from '../utils/logger';
+
+/**
+ * Overtime Policy Controller
+ * Handles HTTP requests for configuring payroll overtime rules
+ */
+
+/**
+ * Parse an optional hour threshold from the request body
+ * Returns undefined when absent, null when cleared
+ */
+const parseThreshold = (value: unknown): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return parseFloat(String(value));
+};
+
+/**
+ * Get all overtime policies
+ * GET /api/v1/payroll/overtime-policies
+ */
+export const getOvertimePolicies = async (_req: Request, res: Response) => {
+  try {
+    const policies = await overtimeService.getOvertimePolicies();
+    return sendSuccess(res, policies, 'Overtime policies retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in getOvertimePolicies controller', { error });
+    return sendError(res, 'FETCH_ERROR', message || 'Failed to fetch overtime policies');
+  }
+};
+
+/**
+ * Create an overtime policy
+ * POST /api/v1/payroll/overtime-policies
+ * Body: { name, classification?, isDefault?, dailyOvertimeAfter?, dailyDoubleTimeAfter?, weeklyOvertimeAfter?, seventhDayRule? }
+ */
+export const createOvertimePolicy = async (req: Request, res: Response) => {
+  try {
+    const { name, classification, isDefault, seventhDayRule, isActive } = req.body;
+    const userId = req.user?.id;
+
+    if (!name) {
+      return sendError(res, 'VALIDATION_ERROR', 'Policy name is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const policy = await overtimeService.createOvertimePolicy(
+      {
+        name,
+        classification: classification || null,
+        isDefault: Boolean(isDefault),
+        dailyOvertimeAfter: parseThreshold(req.body.dailyOvertimeAfter),
+        dailyDoubleTimeAfter: parseThreshold(req.body.dailyDoubleTimeAfter),
+        weeklyOvertimeAfter: parseThreshold(req.body.weeklyOvertimeAfter),
+        seventhDayRule: Boolean(seventhDayRule),
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+      },
+      userId
+    );
+    return sendCreated(res, policy, 'Overtime policy created successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in createOvertimePolicy controller', { error });
+
+    if (message.includes('already exists')) {
+      return sendError(res, 'DUPLICATE_ERROR', message, 409);
+    }
+
+    return sendError(res, 'CREATE_ERROR', message || 'Failed to create overtime policy');
+  }
+};
+
+/**
+ * Update an overtime policy
+ * PUT /api/v1/payroll/overtime-policies/:id
+ */
+export const updateOvertimePolicy = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, classification, isDefault, seventhDayRule, isActive } = req.body;
+    const userId = req.user?.id;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Overtime policy ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const policy = await overtimeService.updateOvertimePolicy(
+      id,
+      {
+        name,
+        classification,
+        isDefault: isDefault !== undefined ? Boolean(isDefault) : undefined,
+        dailyOvertimeAfter: parseThreshold(req.body.dailyOvertimeAfter),
+        dailyDoubleTimeAfter: parseThreshold(req.body.dailyDoubleTimeAfter),
+        weeklyOvertimeAfter: parseThreshold(req.body.weeklyOvertimeAfter),
+        seventhDayRule: seventhDayRule !== undefined ? Boolean(seventhDayRule) : undefined,
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+      },
+      userId
+    );
+    return sendSuccess(res, policy, 'Overtime policy updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in updateOvertimePolicy controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    if (message.includes('already exists')) {
+      return sendError(res, 'DUPLICATE_ERROR', message, 409);
+    }
+
+    return sendError(res, 'UPDATE_ERROR', message || 'Failed to update overtime policy');
+  }
+};
+
+/**
+ * Delete an overtime policy
+ * DELETE /api/v1/payroll/overtime-policies/:id
+ */
+export const deleteOvertimePolicy = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Overtime policy ID is required', 400);
+    }
+
+    await overtimeService.deleteOvertimePolicy(id);
+    return sendSuccess(res, { id }, 'Overtime policy deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in deleteOvertimePolicy controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    return sendError(res, 'DELETE_ERROR', message || 'Failed to delete overtime policy');
+  }
+};
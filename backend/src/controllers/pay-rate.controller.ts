@@ -0,0 +1,196 @@
+/**
+ * Pay Rate Controller
+ *
+ * API route handlers for employee pay rate history including:
+ * - CRUD operations for an employee's effective-dated wage and labor burden
+ */
+
+import { Response } from 'express';
+import {
+  getEmployeePayRates,
+  createPayRate,
+  updatePayRate,
+  deletePayRate,
+  UpdatePayRateData
+} from '../services/pay-rate.service';
+import { sendSuccess, sendError } from '../utils/response';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+/**
+ * Parse an optional number; empty values clear the field
+ */
+const parseOptionalNumber = (value: unknown): number | null => {
+  if (value === null || value === '') return null;
+  return Number(value);
+};
+
+/**
+ * Build pay rate data from the request body, only including fields that are provided
+ */
+const parsePayRateBody = (body: AuthRequest['body']): UpdatePayRateData => {
+  const data: UpdatePayRateData = {};
+
+  if (body.effective_date !== undefined) data.effective_date = new Date(String(body.effective_date).slice(0, 10));
+  if (body.hourly_rate !== undefined) data.hourly_rate = Number(body.hourly_rate);
+  if (body.payroll_tax_percent !== undefined) data.payroll_tax_percent = parseOptionalNumber(body.payroll_tax_percent);
+  if (body.workers_comp_percent !== undefined) data.workers_comp_percent = parseOptionalNumber(body.workers_comp_percent);
+  if (body.benefits_per_hour !== undefined) data.benefits_per_hour = parseOptionalNumber(body.benefits_per_hour);
+  if (body.union_fringe_per_hour !== undefined) data.union_fringe_per_hour = parseOptionalNumber(body.union_fringe_per_hour);
+  if (body.classification !== undefined) data.classification = body.classification;
+  if (body.notes !== undefined) data.notes = body.notes;
+
+  return data;
+};
+
+/**
+ * Send an error response for a failed pay rate request based on the error message
+ */
+const handlePayRateError = (res: Response, error: unknown, code: string, fallbackMessage: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message.includes('not found')) {
+    sendError(res, 'NOT_FOUND', message, 404);
+  } else if (message.includes('already exists')) {
+    sendError(res, 'DUPLICATE_ERROR', message, 409);
+  } else if (message.includes('Missing required fields') || message.includes('must be')) {
+    sendError(res, 'VALIDATION_ERROR', message, 400);
+  } else {
+    sendError(res, code, fallbackMessage, 500);
+  }
+};
+
+/**
+ * Get an employee's pay rate history
+ * GET /api/v1/employees/:employeeId/pay-rates
+ */
+export const getEmployeePayRatesController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { employeeId } = req.params;
+
+    if (!employeeId) {
+      sendError(res, 'VALIDATION_ERROR', 'Employee ID is required', 400);
+      return;
+    }
+
+    const payRates = await getEmployeePayRates(employeeId);
+
+    sendSuccess(res, payRates, 'Employee pay rates retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving employee pay rates', {
+      error: message,
+      userId: req.user?.id,
+      employeeId: req.params.employeeId
+    });
+    handlePayRateError(res, error, 'PAY_RATES_RETRIEVAL_FAILED', 'Failed to retrieve pay rates');
+  }
+};
+
+/**
+ * Add a pay rate to an employee's history
+ * POST /api/v1/employees/:employeeId/pay-rates
+ * Body: { effective_date, hourly_rate, payroll_tax_percent?, workers_comp_percent?,
+ *         benefits_per_hour?, union_fringe_per_hour?, classification?, notes? }
+ */
+export const createPayRateController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { employeeId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!employeeId) {
+      sendError(res, 'VALIDATION_ERROR', 'Employee ID is required', 400);
+      return;
+    }
+
+    const data = parsePayRateBody(req.body);
+
+    const payRate = await createPayRate(
+      employeeId,
+      { ...data, effective_date: data.effective_date!, hourly_rate: data.hourly_rate! },
+      userId,
+      req.ip
+    );
+
+    sendSuccess(res, payRate, 'Pay rate created successfully', 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error creating pay rate', {
+      error: message,
+      userId: req.user?.id,
+      employeeId: req.params.employeeId
+    });
+    handlePayRateError(res, error, 'PAY_RATE_CREATION_FAILED', 'Failed to create pay rate');
+  }
+};
+
+/**
+ * Update a pay rate
+ * PUT /api/v1/employees/:employeeId/pay-rates/:payRateId
+ */
+export const updatePayRateController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { employeeId, payRateId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!employeeId || !payRateId) {
+      sendError(res, 'VALIDATION_ERROR', 'Employee ID and pay rate ID are required', 400);
+      return;
+    }
+
+    const payRate = await updatePayRate(employeeId, payRateId, parsePayRateBody(req.body), userId, req.ip);
+
+    sendSuccess(res, payRate, 'Pay rate updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating pay rate', {
+      error: message,
+      userId: req.user?.id,
+      payRateId: req.params.payRateId
+    });
+    handlePayRateError(res, error, 'PAY_RATE_UPDATE_FAILED', 'Failed to update pay rate');
+  }
+};
+
+/**
+ * Delete a pay rate
+ * DELETE /api/v1/employees/:employeeId/pay-rates/:payRateId
+ */
+export const deletePayRateController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { employeeId, payRateId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!employeeId || !payRateId) {
+      sendError(res, 'VALIDATION_ERROR', 'Employee ID and pay rate ID are required', 400);
+      return;
+    }
+
+    await deletePayRate(employeeId, payRateId, userId, req.ip);
+
+    sendSuccess(res, null, 'Pay rate deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error deleting pay rate', {
+      error: message,
+      userId: req.user?.id,
+      payRateId: req.params.payRateId
+    });
+    handlePayRateError(res, error, 'PAY_RATE_DELETION_FAILED', 'Failed to delete pay rate');
+  }
+};
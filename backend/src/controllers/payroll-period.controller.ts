@@ -0,0 +1,224 @@
+import { Request, Response } from 'express';
+import * as payrollPeriodService from '../services/payroll-period.service';
+import { PayrollPeriodType, PAYROLL_PERIOD_TYPES } from '../services/payroll-period.service';
+import { sendSuccess, sendError, sendCreated } from '../utils/response';
+import { logger } from '../utils/logger';
+
+/**
+ * Payroll Period Controller
+ * Handles HTTP requests for closing and reopening payroll periods
+ */
+
+const PAYROLL_PERIOD_STATUSES = ['OPEN', 'CLOSED'];
+
+/**
+ * Map payroll period errors to HTTP responses
+ */
+const handlePayrollPeriodError = (res: Response, error: unknown, code: string, fallback: string) => {
+  const message = (error instanceof Error && error.message) || fallback;
+
+  if (message.includes('not found')) {
+    return sendError(res, 'NOT_FOUND', message, 404);
+  }
+
+  if (
+    message.includes('already') ||
+    message.includes('not closed') ||
+    message.includes('overlaps') ||
+    message.includes('cannot be deleted') ||
+    message.includes('has not been closed')
+  ) {
+    return sendError(res, 'CONFLICT', message, 409);
+  }
+
+  if (message.includes('required') || message.includes('must')) {
+    return sendError(res, 'VALIDATION_ERROR', message, 400);
+  }
+
+  return sendError(res, code, message);
+};
+
+/**
+ * Get payroll periods
+ * GET /api/v1/payroll/periods
+ * Query: status?, startDate?, endDate?
+ */
+export const getPayrollPeriods = async (req: Request, res: Response) => {
+  try {
+    const { status, startDate, endDate } = req.query;
+
+    if (status && !PAYROLL_PERIOD_STATUSES.includes(status as string)) {
+      return sendError(res, 'VALIDATION_ERROR', `status must be one of ${PAYROLL_PERIOD_STATUSES.join(', ')}`, 400);
+    }
+
+    const startDateObj = startDate ? new Date(startDate as string) : undefined;
+    const endDateObj = endDate ? new Date(endDate as string) : undefined;
+    if ((startDateObj && isNaN(startDateObj.getTime())) || (endDateObj && isNaN(endDateObj.getTime()))) {
+      return sendError(res, 'VALIDATION_ERROR', 'Invalid date format', 400);
+    }
+
+    const periods = await payrollPeriodService.getPayrollPeriods({
+      status: status as string | undefined,
+      startDate: startDateObj,
+      endDate: endDateObj,
+    });
+    return sendSuccess(res, periods, 'Payroll periods retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getPayrollPeriods controller', { error });
+    return handlePayrollPeriodError(res, error, 'FETCH_ERROR', 'Failed to fetch payroll periods');
+  }
+};
+
+/**
+ * Get a payroll period with its close snapshots
+ * GET /api/v1/payroll/periods/:id
+ */
+export const getPayrollPeriodById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Payroll period ID is required', 400);
+    }
+
+    const period = await payrollPeriodService.getPayrollPeriodById(id);
+    return sendSuccess(res, period, 'Payroll period retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getPayrollPeriodById controller', { error });
+    return handlePayrollPeriodError(res, error, 'FETCH_ERROR', 'Failed to fetch payroll period');
+  }
+};
+
+/**
+ * Create a payroll period
+ * POST /api/v1/payroll/periods
+ * Body: { periodType, startDate?, notes? }
+ */
+export const createPayrollPeriod = async (req: Request, res: Response) => {
+  try {
+    const { periodType, startDate, notes } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    if (!PAYROLL_PERIOD_TYPES.includes(periodType)) {
+      return sendError(res, 'VALIDATION_ERROR', `periodType must be one of ${PAYROLL_PERIOD_TYPES.join(', ')}`, 400);
+    }
+
+    let startDateObj: Date | undefined;
+    if (startDate) {
+      startDateObj = new Date(startDate);
+      if (isNaN(startDateObj.getTime())) {
+        return sendError(res, 'VALIDATION_ERROR', 'Invalid start date', 400);
+      }
+    }
+
+    const period = await payrollPeriodService.createPayrollPeriod(
+      { periodType: periodType as PayrollPeriodType, startDate: startDateObj, notes },
+      userId,
+      req.ip
+    );
+    return sendCreated(res, period, 'Payroll period created successfully');
+  } catch (error) {
+    logger.error('Error in createPayrollPeriod controller', { error });
+    return handlePayrollPeriodError(res, error, 'CREATE_ERROR', 'Failed to create payroll period');
+  }
+};
+
+/**
+ * Delete a payroll period that has never been closed
+ * DELETE /api/v1/payroll/periods/:id
+ */
+export const deletePayrollPeriod = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Payroll period ID is required', 400);
+    }
+
+    await payrollPeriodService.deletePayrollPeriod(id, userId, req.ip);
+    return sendSuccess(res, { id }, 'Payroll period deleted successfully');
+  } catch (error) {
+    logger.error('Error in deletePayrollPeriod controller', { error });
+    return handlePayrollPeriodError(res, error, 'DELETE_ERROR', 'Failed to delete payroll period');
+  }
+};
+
+/**
+ * Close a payroll period (snapshots totals and locks its time)
+ * PUT /api/v1/payroll/periods/:id/close
+ */
+export const closePayrollPeriod = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Payroll period ID is required', 400);
+    }
+
+    const period = await payrollPeriodService.closePayrollPeriod(id, userId, req.ip);
+    return sendSuccess(res, period, 'Payroll period closed successfully');
+  } catch (error) {
+    logger.error('Error in closePayrollPeriod controller', { error });
+    return handlePayrollPeriodError(res, error, 'CLOSE_ERROR', 'Failed to close payroll period');
+  }
+};
+
+/**
+ * Reopen a closed payroll period for corrections
+ * PUT /api/v1/payroll/periods/:id/reopen
+ * Body: { reason }
+ */
+export const reopenPayrollPeriod = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Payroll period ID is required', 400);
+    }
+
+    const period = await payrollPeriodService.reopenPayrollPeriod(id, req.body.reason, userId, req.ip);
+    return sendSuccess(res, period, 'Payroll period reopened successfully');
+  } catch (error) {
+    logger.error('Error in reopenPayrollPeriod controller', { error });
+    return handlePayrollPeriodError(res, error, 'REOPEN_ERROR', 'Failed to reopen payroll period');
+  }
+};
+
+/**
+ * Compare the last close snapshot with current payroll totals
+ * GET /api/v1/payroll/periods/:id/comparison
+ */
+export const comparePayrollPeriod = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Payroll period ID is required', 400);
+    }
+
+    const comparison = await payrollPeriodService.comparePayrollPeriod(id);
+    return sendSuccess(res, comparison, 'Payroll period comparison generated successfully');
+  } catch (error) {
+    logger.error('Error in comparePayrollPeriod controller', { error });
+    return handlePayrollPeriodError(res, error, 'COMPARISON_ERROR', 'Failed to compare payroll period');
+  }
+};
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import * as payrollService from '../services/payroll.service';
+import * as payrollExportService from '../services/payroll-export.service';
+import { PayrollExportFormat, PAYROLL_EXPORT_FORMATS } from '../services/payroll-export.service';
 import { sendSuccess, sendError } from '../utils/response';
 import { logger } from '../utils/logger';
 
@@ -154,6 +156,68 @@ export const downloadWeeklyCSV = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * List payroll system export formats
+ * GET /api/v1/payroll/export/formats
+ */
+export const getPayrollExportFormats = async (_req: Request, res: Response) => {
+  try {
+    const formats = payrollExportService.getPayrollExportFormats();
+    return sendSuccess(res, formats, 'Payroll export formats retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in getPayrollExportFormats controller', { error });
+    return sendError(res, 'FETCH_ERROR', message || 'Failed to fetch payroll export formats');
+  }
+};
+
+/**
+ * Download approved payroll hours in a payroll system's import format
+ * GET /api/v1/payroll/export/system/:format?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+ */
+export const downloadPayrollExport = async (req: Request, res: Response) => {
+  try {
+    const format = (req.params.format || '').toUpperCase() as PayrollExportFormat;
+    const { startDate, endDate } = req.query;
+
+    if (!PAYROLL_EXPORT_FORMATS.includes(format)) {
+      return sendError(res, 'VALIDATION_ERROR', `format must be one of ${PAYROLL_EXPORT_FORMATS.join(', ')}`, 400);
+    }
+
+    if (!startDate || !endDate) {
+      return sendError(res, 'VALIDATION_ERROR', 'startDate and endDate parameters are required', 400);
+    }
+
+    const startDateObj = new Date(startDate as string);
+    const endDateObj = new Date(endDate as string);
+
+    if (isNaN(startDateObj.getTime()) || isNaN(endDateObj.getTime())) {
+      return sendError(res, 'VALIDATION_ERROR', 'Invalid date format', 400);
+    }
+
+    const { content, filename, contentType } = await payrollExportService.exportPayroll(
+      format,
+      startDateObj,
+      endDateObj
+    );
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    return res.send(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in downloadPayrollExport controller', { error });
+    if (message?.includes('requires a payroll ID')) {
+      return sendError(res, 'VALIDATION_ERROR', message, 400);
+    }
+    if (message?.includes('do not match the approved weekly timesheet')) {
+      return sendError(res, 'CONFLICT', message, 409);
+    }
+    return sendError(res, 'EXPORT_ERROR', message || 'Failed to export payroll');
+  }
+};
+
 /**
  * Get payroll summary
  * GET /api/v1/payroll/summary?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
@@ -0,0 +1,362 @@
+/**
+ * Price Book Controller
+ *
+ * Handles HTTP requests for price book items and assemblies.
+ */
+
+import { Response } from 'express';
+import { PriceBookItemType } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { ApiError, successResponse, errorResponse } from '../utils/response';
+import {
+  listPriceBookItems,
+  createPriceBookItem,
+  updatePriceBookItem,
+  deletePriceBookItem,
+  listAssemblies,
+  getAssemblyById,
+  createAssembly,
+  updateAssembly,
+  deleteAssembly,
+  expandAssembly,
+  AssemblyItemData
+} from '../services/price-book.service';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+/**
+ * Send an error response for a failed price book request
+ */
+const handleError = (res: Response, error: unknown, fallbackMessage: string): void => {
+  if (error instanceof ApiError) {
+    res.status(error.statusCode).json(errorResponse(error.message, error.code));
+    return;
+  }
+
+  res.status(500).json(errorResponse(fallbackMessage, 'INTERNAL_ERROR'));
+};
+
+/**
+ * Parse assembly items from the request body
+ */
+const parseAssemblyItems = (items: unknown): AssemblyItemData[] | undefined => {
+  if (!Array.isArray(items)) return undefined;
+
+  return items.map((item) => ({
+    price_book_item_id: item.price_book_item_id,
+    quantity: parseFloat(item.quantity)
+  }));
+};
+
+/**
+ * List price book items
+ * GET /api/v1/price-book/items
+ */
+export const listPriceBookItemsHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { search, type, category, include_inactive } = req.query;
+
+    if (type && !Object.values(PriceBookItemType).includes(type as PriceBookItemType)) {
+      res.status(400).json(errorResponse('Invalid item type', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const items = await listPriceBookItems({
+      search: search as string,
+      type: type as PriceBookItemType,
+      category: category as string,
+      include_inactive: include_inactive === 'true'
+    });
+
+    res.json(successResponse(items, 'Price book items retrieved successfully'));
+  } catch (error) {
+    logger.error('List price book items API error', { error, query: req.query });
+    handleError(res, error, 'Failed to retrieve price book items');
+  }
+};
+
+/**
+ * Create price book item
+ * POST /api/v1/price-book/items
+ */
+export const createPriceBookItemHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    const { code, name, description, type, category, unit, unit_price } = req.body;
+
+    if (type && !Object.values(PriceBookItemType).includes(type)) {
+      res.status(400).json(errorResponse('Invalid item type', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const item = await createPriceBookItem(
+      {
+        code,
+        name,
+        description,
+        type,
+        category,
+        unit,
+        unit_price: parseFloat(unit_price)
+      },
+      userId,
+      req.ip
+    );
+
+    res.status(201).json(successResponse(item, 'Price book item created successfully'));
+  } catch (error) {
+    logger.error('Create price book item API error', { error, body: req.body, userId: req.user?.id });
+    handleError(res, error, 'Failed to create price book item');
+  }
+};
+
+/**
+ * Update price book item
+ * PUT /api/v1/price-book/items/:id
+ */
+export const updatePriceBookItemHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    if (!id) {
+      res.status(400).json(errorResponse('Item ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const { code, name, description, type, category, unit, unit_price, is_active } = req.body;
+
+    if (type && !Object.values(PriceBookItemType).includes(type)) {
+      res.status(400).json(errorResponse('Invalid item type', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const item = await updatePriceBookItem(
+      id,
+      {
+        code,
+        name,
+        description,
+        type,
+        category,
+        unit,
+        unit_price: unit_price !== undefined ? parseFloat(unit_price) : undefined,
+        is_active: is_active !== undefined ? Boolean(is_active) : undefined
+      },
+      userId,
+      req.ip
+    );
+
+    res.json(successResponse(item, 'Price book item updated successfully'));
+  } catch (error) {
+    logger.error('Update price book item API error', { error, itemId: req.params.id, body: req.body });
+    handleError(res, error, 'Failed to update price book item');
+  }
+};
+
+/**
+ * Delete price book item
+ * DELETE /api/v1/price-book/items/:id
+ */
+export const deletePriceBookItemHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    if (!id) {
+      res.status(400).json(errorResponse('Item ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    await deletePriceBookItem(id, userId, req.ip);
+
+    res.json(successResponse(null, 'Price book item deleted successfully'));
+  } catch (error) {
+    logger.error('Delete price book item API error', { error, itemId: req.params.id });
+    handleError(res, error, 'Failed to delete price book item');
+  }
+};
+
+/**
+ * List assemblies
+ * GET /api/v1/price-book/assemblies
+ */
+export const listAssembliesHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { search, category, include_inactive } = req.query;
+
+    const assemblies = await listAssemblies({
+      search: search as string,
+      category: category as string,
+      include_inactive: include_inactive === 'true'
+    });
+
+    res.json(successResponse(assemblies, 'Assemblies retrieved successfully'));
+  } catch (error) {
+    logger.error('List assemblies API error', { error, query: req.query });
+    handleError(res, error, 'Failed to retrieve assemblies');
+  }
+};
+
+/**
+ * Get assembly by ID
+ * GET /api/v1/price-book/assemblies/:id
+ */
+export const getAssemblyByIdHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json(errorResponse('Assembly ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const assembly = await getAssemblyById(id);
+
+    res.json(successResponse(assembly, 'Assembly retrieved successfully'));
+  } catch (error) {
+    logger.error('Get assembly API error', { error, assemblyId: req.params.id });
+    handleError(res, error, 'Failed to retrieve assembly');
+  }
+};
+
+/**
+ * Create assembly
+ * POST /api/v1/price-book/assemblies
+ */
+export const createAssemblyHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    const { name, description, category, items } = req.body;
+
+    const assembly = await createAssembly(
+      {
+        name,
+        description,
+        category,
+        items: parseAssemblyItems(items) || []
+      },
+      userId,
+      req.ip
+    );
+
+    res.status(201).json(successResponse(assembly, 'Assembly created successfully'));
+  } catch (error) {
+    logger.error('Create assembly API error', { error, body: req.body, userId: req.user?.id });
+    handleError(res, error, 'Failed to create assembly');
+  }
+};
+
+/**
+ * Update assembly
+ * PUT /api/v1/price-book/assemblies/:id
+ */
+export const updateAssemblyHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    if (!id) {
+      res.status(400).json(errorResponse('Assembly ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const { name, description, category, is_active, items } = req.body;
+
+    const assembly = await updateAssembly(
+      id,
+      {
+        name,
+        description,
+        category,
+        is_active: is_active !== undefined ? Boolean(is_active) : undefined,
+        items: parseAssemblyItems(items)
+      },
+      userId,
+      req.ip
+    );
+
+    res.json(successResponse(assembly, 'Assembly updated successfully'));
+  } catch (error) {
+    logger.error('Update assembly API error', { error, assemblyId: req.params.id, body: req.body });
+    handleError(res, error, 'Failed to update assembly');
+  }
+};
+
+/**
+ * Delete assembly
+ * DELETE /api/v1/price-book/assemblies/:id
+ */
+export const deleteAssemblyHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    if (!id) {
+      res.status(400).json(errorResponse('Assembly ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    await deleteAssembly(id, userId, req.ip);
+
+    res.json(successResponse(null, 'Assembly deleted successfully'));
+  } catch (error) {
+    logger.error('Delete assembly API error', { error, assemblyId: req.params.id });
+    handleError(res, error, 'Failed to delete assembly');
+  }
+};
+
+/**
+ * Expand assembly into quote line items at current prices
+ * POST /api/v1/price-book/assemblies/:id/expand
+ * Body: { quantity?: number }
+ */
+export const expandAssemblyHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const quantity = req.body.quantity !== undefined ? parseFloat(req.body.quantity) : 1;
+
+    if (!id) {
+      res.status(400).json(errorResponse('Assembly ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const lineItems = await expandAssembly(id, quantity);
+
+    res.json(successResponse(lineItems, 'Assembly expanded successfully'));
+  } catch (error) {
+    logger.error('Expand assembly API error', { error, assemblyId: req.params.id, body: req.body });
+    handleError(res, error, 'Failed to expand assembly');
+  }
+};
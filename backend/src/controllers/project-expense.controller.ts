@@ -0,0 +1,326 @@
+/**
+ * Project Expense Controller
+ *
+ * API route handlers for project expenses including:
+ * - CRUD operations for expenses on a project
+ * - Approval workflow
+ * - CSV export
+ */
+
+import { Response } from 'express';
+import { ExpenseStatus } from '@prisma/client';
+import {
+  getProjectExpenses,
+  getProjectExpenseById,
+  createProjectExpense,
+  updateProjectExpense,
+  updateProjectExpenseStatus,
+  deleteProjectExpense,
+  exportProjectExpensesCSV,
+  ProjectExpenseFilters,
+  UpdateProjectExpenseData
+} from '../services/project-expense.service';
+import { sendSuccess, sendError } from '../utils/response';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+/**
+ * Build expense filters from query parameters
+ */
+const parseExpenseFilters = (query: AuthRequest['query']): ProjectExpenseFilters => {
+  const { status, category, search, startDate, endDate } = query;
+  const filters: ProjectExpenseFilters = {};
+
+  if (status) filters.status = status as ExpenseStatus;
+  if (category) filters.category = category as string;
+  if (search) filters.search = search as string;
+  if (startDate) filters.startDate = new Date(startDate as string);
+  if (endDate) filters.endDate = new Date(endDate as string);
+
+  return filters;
+};
+
+/**
+ * Send an error response for a failed expense request based on the error message
+ */
+const handleExpenseError = (res: Response, error: unknown, code: string, fallbackMessage: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message.includes('not found')) {
+    sendError(res, 'NOT_FOUND', message, 404);
+  } else if (message.includes('cannot be') || message.includes('locked')) {
+    sendError(res, 'EXPENSE_LOCKED', message, 409);
+  } else if (
+    message.includes('Missing required fields') ||
+    message.includes('must be') ||
+    message.includes('different project') ||
+    message.includes('Cost code')
+  ) {
+    sendError(res, 'VALIDATION_ERROR', message, 400);
+  } else {
+    sendError(res, code, fallbackMessage, 500);
+  }
+};
+
+/**
+ * Get expenses for a project
+ * GET /api/v1/projects/:projectId/expenses
+ */
+export const getProjectExpensesController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    const filters = parseExpenseFilters(req.query);
+
+    if (filters.status && !Object.values(ExpenseStatus).includes(filters.status)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid expense status', 400);
+      return;
+    }
+
+    const expenses = await getProjectExpenses(projectId, filters);
+
+    sendSuccess(res, expenses, 'Project expenses retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving project expenses', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.projectId
+    });
+    handleExpenseError(res, error, 'EXPENSES_RETRIEVAL_FAILED', 'Failed to retrieve project expenses');
+  }
+};
+
+/**
+ * Export project expenses as CSV
+ * GET /api/v1/projects/:projectId/expenses/export
+ */
+export const exportProjectExpensesController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    const { csv, projectNumber } = await exportProjectExpensesCSV(projectId, parseExpenseFilters(req.query));
+
+    const filename = `expenses-${projectNumber}.csv`;
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    res.send(csv);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error exporting project expenses', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.projectId
+    });
+    handleExpenseError(res, error, 'EXPORT_ERROR', 'Failed to export project expenses');
+  }
+};
+
+/**
+ * Get single project expense
+ * GET /api/v1/projects/:projectId/expenses/:expenseId
+ */
+export const getProjectExpenseController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, expenseId } = req.params;
+
+    if (!projectId || !expenseId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and expense ID are required', 400);
+      return;
+    }
+
+    const expense = await getProjectExpenseById(projectId, expenseId);
+
+    sendSuccess(res, expense, 'Project expense retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving project expense', {
+      error: message,
+      userId: req.user?.id,
+      expenseId: req.params.expenseId
+    });
+    handleExpenseError(res, error, 'EXPENSE_RETRIEVAL_FAILED', 'Failed to retrieve project expense');
+  }
+};
+
+/**
+ * Create project expense
+ * POST /api/v1/projects/:projectId/expenses
+ */
+export const createProjectExpenseController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    const { description, vendor, amount, category, date, receipt_file_id, cost_code_id, notes } = req.body;
+
+    const expense = await createProjectExpense(
+      projectId,
+      {
+        description,
+        vendor,
+        amount: parseFloat(amount),
+        category,
+        date: new Date(date),
+        receipt_file_id,
+        cost_code_id,
+        notes
+      },
+      userId,
+      req.ip
+    );
+
+    sendSuccess(res, expense, 'Project expense created successfully', 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error creating project expense', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.projectId,
+      body: req.body
+    });
+    handleExpenseError(res, error, 'EXPENSE_CREATION_FAILED', 'Failed to create project expense');
+  }
+};
+
+/**
+ * Update project expense
+ * PUT /api/v1/projects/:projectId/expenses/:expenseId
+ */
+export const updateProjectExpenseController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, expenseId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId || !expenseId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and expense ID are required', 400);
+      return;
+    }
+
+    const { description, vendor, amount, category, date, receipt_file_id, cost_code_id, notes } = req.body;
+
+    // Only include fields that are provided
+    const expenseData: UpdateProjectExpenseData = {};
+    if (description !== undefined) expenseData.description = description;
+    if (vendor !== undefined) expenseData.vendor = vendor;
+    if (amount !== undefined) expenseData.amount = parseFloat(amount);
+    if (category !== undefined) expenseData.category = category;
+    if (date !== undefined) expenseData.date = new Date(date);
+    if (receipt_file_id !== undefined) expenseData.receipt_file_id = receipt_file_id;
+    if (cost_code_id !== undefined) expenseData.cost_code_id = cost_code_id;
+    if (notes !== undefined) expenseData.notes = notes;
+
+    const expense = await updateProjectExpense(projectId, expenseId, expenseData, userId, req.ip);
+
+    sendSuccess(res, expense, 'Project expense updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating project expense', {
+      error: message,
+      userId: req.user?.id,
+      expenseId: req.params.expenseId,
+      body: req.body
+    });
+    handleExpenseError(res, error, 'EXPENSE_UPDATE_FAILED', 'Failed to update project expense');
+  }
+};
+
+/**
+ * Approve, reject or reopen project expense
+ * PATCH /api/v1/projects/:projectId/expenses/:expenseId/status
+ * Body: { status: 'PENDING' | 'APPROVED' | 'REJECTED' }
+ */
+export const updateProjectExpenseStatusController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, expenseId } = req.params;
+    const userId = req.user?.id;
+    const { status } = req.body;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId || !expenseId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and expense ID are required', 400);
+      return;
+    }
+
+    if (!status || !Object.values(ExpenseStatus).includes(status)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid expense status', 400);
+      return;
+    }
+
+    const expense = await updateProjectExpenseStatus(projectId, expenseId, status, userId, req.ip);
+
+    sendSuccess(res, expense, 'Project expense status updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating project expense status', {
+      error: message,
+      userId: req.user?.id,
+      expenseId: req.params.expenseId,
+      body: req.body
+    });
+    handleExpenseError(res, error, 'EXPENSE_STATUS_UPDATE_FAILED', 'Failed to update project expense status');
+  }
+};
+
+/**
+ * Delete project expense
+ * DELETE /api/v1/projects/:projectId/expenses/:expenseId
+ */
+export const deleteProjectExpenseController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { projectId, expenseId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId || !expenseId) {
+      sendError(res, 'VALIDATION_ERROR', 'Project ID and expense ID are required', 400);
+      return;
+    }
+
+    await deleteProjectExpense(projectId, expenseId, userId, req.ip);
+
+    sendSuccess(res, null, 'Project expense deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error deleting project expense', {
+      error: message,
+      userId: req.user?.id,
+      expenseId: req.params.expenseId
+    });
+    handleExpenseError(res, error, 'EXPENSE_DELETION_FAILED', 'Failed to delete project expense');
+  }
+};
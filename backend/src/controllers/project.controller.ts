@@ -13,10 +13,44 @@ import {
   CreateProjectData,
   UpdateProjectData
 } from '../services/project.service';
+import { getProjectJobCost, recalculateProjectActualCost, updateProjectProgress } from '../services/job-cost.service';
+import { isCertificationType } from '../services/certification.service';
 import { sendSuccess, sendError } from '../utils/response';
 import { logger } from '../utils/logger';
 import { AuthRequest } from '../middleware/auth.middleware';
 
+/**
+ * Whether a request value is a list of known certification types
+ */
+const isCertificationList = (value: unknown): boolean => Array.isArray(value) && value.every(isCertificationType);
+
+/**
+ * Whether a request value is an allowed apprentices-per-journeyman ratio (empty clears it)
+ */
+const isValidApprenticeRatio = (value: unknown): boolean => {
+  if (value === undefined || value === null || value === '') return true;
+  const ratio = parseFloat(String(value));
+  return !isNaN(ratio) && ratio > 0 && ratio <= 10;
+};
+
+/**
+ * Whether a request value is an allowed sign-in geofence radius in meters (empty clears it)
+ */
+const isValidGeofenceRadius = (value: unknown): boolean => {
+  if (value === undefined || value === null || value === '') return true;
+  const radius = Number(value);
+  return Number.isInteger(radius) && radius >= 25 && radius <= 10000;
+};
+
+/**
+ * Whether optional site coordinates are in range (empty clears them)
+ */
+const isValidCoordinate = (value: unknown, limit: number): boolean => {
+  if (value === undefined || value === null || value === '') return true;
+  const coordinate = Number(value);
+  return !isNaN(coordinate) && Math.abs(coordinate) <= limit;
+};
+
 /**
  * Get all projects with optional filters and pagination
  * GET /api/v1/projects
@@ -140,11 +174,36 @@ export const createProjectController = async (req: AuthRequest, res: Response):
       start_date,
       end_date,
       estimated_end_date,
+      contract_value,
       budget,
       actual_cost,
-      description
+      description,
+      required_certifications,
+      apprentice_ratio,
+      geofence_radius,
+      union_local_id
     } = req.body;
 
+    if (required_certifications !== undefined && !isCertificationList(required_certifications)) {
+      sendError(res, 'VALIDATION_ERROR', 'required_certifications must be a list of certification types', 400);
+      return;
+    }
+
+    if (!isValidApprenticeRatio(apprentice_ratio)) {
+      sendError(res, 'VALIDATION_ERROR', 'apprentice_ratio must be a number greater than 0 and at most 10', 400);
+      return;
+    }
+
+    if (!isValidCoordinate(latitude, 90) || !isValidCoordinate(longitude, 180)) {
+      sendError(res, 'VALIDATION_ERROR', 'latitude must be between -90 and 90 and longitude between -180 and 180', 400);
+      return;
+    }
+
+    if (!isValidGeofenceRadius(geofence_radius)) {
+      sendError(res, 'VALIDATION_ERROR', 'geofence_radius must be a whole number of meters between 25 and 10000', 400);
+      return;
+    }
+
     // Validate required fields
     if (!name || !project_number || !client_id || !type || !billing_type) {
       sendError(res, 'MISSING_REQUIRED_FIELDS', 'Missing required fields: name, project_number, client_id, type, billing_type', 400);
@@ -165,12 +224,17 @@ export const createProjectController = async (req: AuthRequest, res: Response):
       start_date: start_date ? new Date(start_date) : undefined,
       end_date: end_date ? new Date(end_date) : undefined,
       estimated_end_date: estimated_end_date ? new Date(estimated_end_date) : undefined,
+      contract_value: contract_value ? parseFloat(contract_value) : undefined,
       budget: budget ? parseFloat(budget) : undefined,
       actual_cost: actual_cost ? parseFloat(actual_cost) : undefined,
-      description
+      description,
+      required_certifications,
+      apprentice_ratio: apprentice_ratio ? parseFloat(apprentice_ratio) : undefined,
+      geofence_radius: geofence_radius ? Number(geofence_radius) : undefined,
+      union_local_id: union_local_id || null
     };
 
-    const project = await createProject(projectData, userId);
+    const project = await createProject(projectData, userId, req.ip);
 
     logger.info('Project created successfully', {
       userId,
@@ -187,7 +251,9 @@ export const createProjectController = async (req: AuthRequest, res: Response):
     });
 
     // Handle specific error cases
-    if (error.message.includes('already exists')) {
+    if (error.message.includes('Union local')) {
+      sendError(res, 'INVALID_UNION_LOCAL', error.message, 400);
+    } else if (error.message.includes('already exists')) {
       sendError(res, 'PROJECT_NUMBER_EXISTS', error.message, 409);
     } else if (error.message.includes('not found')) {
       sendError(res, 'CLIENT_NOT_FOUND', error.message, 404);
@@ -233,11 +299,36 @@ export const updateProjectController = async (req: AuthRequest, res: Response):
       end_date,
       estimated_end_date,
       actual_end_date,
+      contract_value,
       budget,
       actual_cost,
-      description
+      description,
+      required_certifications,
+      apprentice_ratio,
+      geofence_radius,
+      union_local_id
     } = req.body;
 
+    if (required_certifications !== undefined && !isCertificationList(required_certifications)) {
+      sendError(res, 'VALIDATION_ERROR', 'required_certifications must be a list of certification types', 400);
+      return;
+    }
+
+    if (!isValidApprenticeRatio(apprentice_ratio)) {
+      sendError(res, 'VALIDATION_ERROR', 'apprentice_ratio must be a number greater than 0 and at most 10', 400);
+      return;
+    }
+
+    if (!isValidCoordinate(latitude, 90) || !isValidCoordinate(longitude, 180)) {
+      sendError(res, 'VALIDATION_ERROR', 'latitude must be between -90 and 90 and longitude between -180 and 180', 400);
+      return;
+    }
+
+    if (!isValidGeofenceRadius(geofence_radius)) {
+      sendError(res, 'VALIDATION_ERROR', 'geofence_radius must be a whole number of meters between 25 and 10000', 400);
+      return;
+    }
+
     const projectData: UpdateProjectData = {};
 
     // Only include fields that are provided
@@ -249,17 +340,22 @@ export const updateProjectController = async (req: AuthRequest, res: Response):
     if (billing_type !== undefined) projectData.billing_type = billing_type;
     if (location !== undefined) projectData.location = location;
     if (address !== undefined) projectData.address = address;
-    if (latitude !== undefined) projectData.latitude = parseFloat(latitude);
-    if (longitude !== undefined) projectData.longitude = parseFloat(longitude);
+    if (latitude !== undefined) projectData.latitude = latitude === null || latitude === '' ? null : parseFloat(latitude);
+    if (longitude !== undefined) projectData.longitude = longitude === null || longitude === '' ? null : parseFloat(longitude);
     if (start_date !== undefined) projectData.start_date = new Date(start_date);
     if (end_date !== undefined) projectData.end_date = new Date(end_date);
     if (estimated_end_date !== undefined) projectData.estimated_end_date = new Date(estimated_end_date);
     if (actual_end_date !== undefined) projectData.actual_end_date = new Date(actual_end_date);
+    if (contract_value !== undefined) projectData.contract_value = parseFloat(contract_value);
     if (budget !== undefined) projectData.budget = parseFloat(budget);
     if (actual_cost !== undefined) projectData.actual_cost = parseFloat(actual_cost);
     if (description !== undefined) projectData.description = description;
+    if (required_certifications !== undefined) projectData.required_certifications = required_certifications;
+    if (apprentice_ratio !== undefined) projectData.apprentice_ratio = apprentice_ratio ? parseFloat(apprentice_ratio) : null;
+    if (geofence_radius !== undefined) projectData.geofence_radius = geofence_radius ? Number(geofence_radius) : null;
+    if (union_local_id !== undefined) projectData.union_local_id = union_local_id || null;
 
-    const project = await updateProject(id, projectData, userId);
+    const project = await updateProject(id, projectData, userId, req.ip);
 
     logger.info('Project updated successfully', {
       userId,
@@ -276,7 +372,9 @@ export const updateProjectController = async (req: AuthRequest, res: Response):
     });
 
     // Handle specific error cases
-    if (error.message.includes('not found')) {
+    if (error.message.includes('Union local')) {
+      sendError(res, 'INVALID_UNION_LOCAL', error.message, 400);
+    } else if (error.message.includes('not found')) {
       sendError(res, 'PROJECT_NOT_FOUND', error.message, 404);
     } else if (error.message.includes('already exists')) {
       sendError(res, 'PROJECT_NUMBER_EXISTS', error.message, 409);
@@ -293,13 +391,19 @@ export const updateProjectController = async (req: AuthRequest, res: Response):
 export const deleteProjectController = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
 
     if (!id) {
       sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
       return;
     }
 
-    await deleteProject(id);
+    await deleteProject(id, userId, req.ip);
 
     logger.info('Project deleted successfully', {
       userId: req.user?.id,
@@ -438,3 +542,132 @@ export const getProjectMembersController = async (req: AuthRequest, res: Respons
     sendError(res, 'MEMBERS_RETRIEVAL_FAILED', 'Failed to retrieve project members', 500);
   }
 };
+
+/**
+ * Get project job cost (budget vs actual vs committed, earned value)
+ * GET /api/v1/projects/:id/job-cost
+ */
+export const getProjectJobCostController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id: projectId } = req.params;
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    const jobCost = await getProjectJobCost(projectId);
+
+    sendSuccess(res, jobCost, 'Project job cost retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving project job cost', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.id
+    });
+
+    if (message.includes('not found')) {
+      sendError(res, 'PROJECT_NOT_FOUND', message, 404);
+    } else {
+      sendError(res, 'JOB_COST_RETRIEVAL_FAILED', 'Failed to retrieve project job cost', 500);
+    }
+  }
+};
+
+/**
+ * Recalculate and store the project's actual cost from its job cost
+ * POST /api/v1/projects/:id/job-cost/recalculate
+ */
+export const recalculateProjectActualCostController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id: projectId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    const jobCost = await recalculateProjectActualCost(projectId, userId, req.ip);
+
+    sendSuccess(res, jobCost, 'Project actual cost recalculated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error recalculating project actual cost', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.id
+    });
+
+    if (message.includes('not found')) {
+      sendError(res, 'PROJECT_NOT_FOUND', message, 404);
+    } else {
+      sendError(res, 'JOB_COST_RECALCULATION_FAILED', 'Failed to recalculate project actual cost', 500);
+    }
+  }
+};
+
+/**
+ * Update project percent complete (overall and/or per budget item)
+ * PUT /api/v1/projects/:id/progress
+ * Body: { percent_complete?: number, items?: [{ id, percent_complete }] }
+ */
+export const updateProjectProgressController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id: projectId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!projectId) {
+      sendError(res, 'MISSING_PROJECT_ID', 'Project ID is required', 400);
+      return;
+    }
+
+    const { percent_complete, items } = req.body;
+
+    const jobCost = await updateProjectProgress(
+      projectId,
+      {
+        percentComplete: percent_complete !== undefined ? parseFloat(percent_complete) : undefined,
+        items: Array.isArray(items)
+          ? items.map((item) => ({
+              id: item.id,
+              percentComplete: parseFloat(item.percent_complete)
+            }))
+          : undefined
+      },
+      userId,
+      req.ip
+    );
+
+    logger.info('Project progress updated successfully', { userId, projectId });
+
+    sendSuccess(res, jobCost, 'Project progress updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating project progress', {
+      error: message,
+      userId: req.user?.id,
+      projectId: req.params.id,
+      body: req.body
+    });
+
+    if (message.includes('not found')) {
+      sendError(res, 'NOT_FOUND', message, 404);
+    } else if (message.includes('between 0 and 100')) {
+      sendError(res, 'VALIDATION_ERROR', message, 400);
+    } else {
+      sendError(res, 'PROJECT_PROGRESS_UPDATE_FAILED', 'Failed to update project progress', 500);
+    }
+  }
+};
@@ -18,12 +18,20 @@ import {
   deleteQuote,
   getQuoteStats,
   duplicateQuote,
+  convertQuoteToProject,
+  getQuoteForPDF,
+  listQuoteRevisions,
+  getQuoteRevision,
+  createQuoteRevision,
+  acceptQuoteRevision,
+  compareQuoteRevisions,
   CreateQuoteData,
   UpdateQuoteData,
   QuoteFilters,
 } from '../services/quote.service';
-import { QuoteStatus } from '@prisma/client';
+import { QuoteStatus, ProjectType, BillingType } from '@prisma/client';
 import { AuthRequest } from '../middleware/auth.middleware';
+import { generateQuotePDF } from '../utils/pdf-generator';
 
 /**
  * Create a new quote
@@ -79,7 +87,7 @@ export const createQuoteHandler = async (req: AuthRequest, res: Response): Promi
       status: status as QuoteStatus
     };
 
-    const quote = await createQuote(quoteData, userId);
+    const quote = await createQuote(quoteData, userId, req.ip);
 
     logger.info('Quote created via API', {
       quoteId: quote.id,
@@ -282,7 +290,7 @@ export const updateQuoteHandler = async (req: AuthRequest, res: Response): Promi
       status: status as QuoteStatus
     };
 
-    const quote = await updateQuote(id, updateData, userId);
+    const quote = await updateQuote(id, updateData, userId, req.ip);
 
     logger.info('Quote updated via API', {
       quoteId: quote.id,
@@ -328,7 +336,7 @@ export const updateQuoteStatusHandler = async (req: AuthRequest, res: Response):
       return;
     }
 
-    const quote = await updateQuoteStatus(id, status, userId);
+    const quote = await updateQuoteStatus(id, status, userId, req.ip);
 
     logger.info('Quote status updated via API', {
       quoteId: quote.id,
@@ -357,13 +365,19 @@ export const updateQuoteStatusHandler = async (req: AuthRequest, res: Response):
 export const deleteQuoteHandler = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
 
     if (!id) {
       res.status(400).json(errorResponse('Quote ID is required', 'VALIDATION_ERROR'));
       return;
     }
 
-    await deleteQuote(id);
+    await deleteQuote(id, userId, req.ip);
 
     logger.info('Quote deleted via API', {
       quoteId: id,
@@ -443,7 +457,7 @@ export const duplicateQuoteHandler = async (req: AuthRequest, res: Response): Pr
       return;
     }
 
-    const quote = await duplicateQuote(id, project_name, userId);
+    const quote = await duplicateQuote(id, project_name, userId, req.ip);
 
     logger.info('Quote duplicated via API', {
       originalQuoteId: id,
@@ -464,3 +478,300 @@ export const duplicateQuoteHandler = async (req: AuthRequest, res: Response): Pr
     res.status(500).json(errorResponse('Failed to duplicate quote', 'INTERNAL_ERROR'));
   }
 };
+
+/**
+ * Convert accepted quote to project
+ * POST /api/v1/quotes/:id/convert
+ */
+export const convertQuoteToProjectHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const {
+      project_number,
+      name,
+      type,
+      billing_type,
+      start_date,
+      location,
+      address,
+      description
+    } = req.body;
+
+    if (!userId) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    if (!id) {
+      res.status(400).json(errorResponse('Quote ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    if (type && !Object.values(ProjectType).includes(type)) {
+      res.status(400).json(errorResponse('Invalid project type', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    if (billing_type && !Object.values(BillingType).includes(billing_type)) {
+      res.status(400).json(errorResponse('Invalid billing type', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const result = await convertQuoteToProject(id, {
+      project_number,
+      name,
+      type,
+      billing_type,
+      start_date: start_date ? new Date(start_date) : undefined,
+      location,
+      address,
+      description
+    }, userId, req.ip);
+
+    logger.info('Quote converted to project via API', {
+      quoteId: id,
+      projectId: result.project.id,
+      userId
+    });
+
+    res.status(201).json(successResponse(result, 'Quote converted to project successfully'));
+  } catch (error) {
+    logger.error('Convert quote API error', { error, quoteId: req.params.id, body: req.body, userId: req.user?.id });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code));
+      return;
+    }
+
+    res.status(500).json(errorResponse('Failed to convert quote to project', 'INTERNAL_ERROR'));
+  }
+};
+
+/**
+ * Download quote as a customer-facing proposal PDF
+ * GET /api/v1/quotes/:id/pdf
+ */
+export const exportQuotePDFHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json(errorResponse('Quote ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const quote = await getQuoteForPDF(id);
+
+    // Generate and stream PDF
+    generateQuotePDF(quote, res);
+  } catch (error) {
+    logger.error('Export quote PDF API error', { error, quoteId: req.params.id, userId: req.user?.id });
+
+    // Check if headers were already sent (PDF generation started)
+    if (res.headersSent) {
+      return;
+    }
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code));
+      return;
+    }
+
+    res.status(500).json(errorResponse('Failed to generate PDF', 'PDF_GENERATION_FAILED'));
+  }
+};
+
+/**
+ * Parse a revision number route/query parameter
+ * Returns null when missing or invalid
+ */
+const parseRevisionNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision >= 0 ? revision : null;
+};
+
+/**
+ * List quote revisions
+ * GET /api/v1/quotes/:id/revisions
+ */
+export const listQuoteRevisionsHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json(errorResponse('Quote ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const revisions = await listQuoteRevisions(id);
+
+    res.json(successResponse(revisions, 'Quote revisions retrieved successfully'));
+  } catch (error) {
+    logger.error('List quote revisions API error', { error, quoteId: req.params.id });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code));
+      return;
+    }
+
+    res.status(500).json(errorResponse('Failed to retrieve quote revisions', 'INTERNAL_ERROR'));
+  }
+};
+
+/**
+ * Compare two quote revisions
+ * GET /api/v1/quotes/:id/revisions/compare?from=0&to=1
+ */
+export const compareQuoteRevisionsHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const from = parseRevisionNumber(req.query.from);
+    const to = parseRevisionNumber(req.query.to);
+
+    if (!id) {
+      res.status(400).json(errorResponse('Quote ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    if (from === null || to === null) {
+      res.status(400).json(errorResponse('Valid from and to revision numbers are required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const comparison = await compareQuoteRevisions(id, from, to);
+
+    res.json(successResponse(comparison, 'Quote revisions compared successfully'));
+  } catch (error) {
+    logger.error('Compare quote revisions API error', { error, quoteId: req.params.id, query: req.query });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code));
+      return;
+    }
+
+    res.status(500).json(errorResponse('Failed to compare quote revisions', 'INTERNAL_ERROR'));
+  }
+};
+
+/**
+ * Get a single quote revision
+ * GET /api/v1/quotes/:id/revisions/:revision
+ */
+export const getQuoteRevisionHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const revision = parseRevisionNumber(req.params.revision);
+
+    if (!id) {
+      res.status(400).json(errorResponse('Quote ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    if (revision === null) {
+      res.status(400).json(errorResponse('Invalid revision number', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const quoteRevision = await getQuoteRevision(id, revision);
+
+    res.json(successResponse(quoteRevision, 'Quote revision retrieved successfully'));
+  } catch (error) {
+    logger.error('Get quote revision API error', { error, quoteId: req.params.id, revision: req.params.revision });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code));
+      return;
+    }
+
+    res.status(500).json(errorResponse('Failed to retrieve quote revision', 'INTERNAL_ERROR'));
+  }
+};
+
+/**
+ * Issue a new quote revision from the current quote content
+ * POST /api/v1/quotes/:id/revisions
+ */
+export const createQuoteRevisionHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { change_summary } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    if (!id) {
+      res.status(400).json(errorResponse('Quote ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const revision = await createQuoteRevision(id, change_summary || undefined, userId, req.ip);
+
+    logger.info('Quote revision created via API', {
+      quoteId: id,
+      revisionNumber: revision.revision_number,
+      userId
+    });
+
+    res.status(201).json(successResponse(revision, 'Quote revision created successfully'));
+  } catch (error) {
+    logger.error('Create quote revision API error', { error, quoteId: req.params.id, body: req.body, userId: req.user?.id });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code));
+      return;
+    }
+
+    res.status(500).json(errorResponse('Failed to create quote revision', 'INTERNAL_ERROR'));
+  }
+};
+
+/**
+ * Mark a quote revision as accepted by the client
+ * POST /api/v1/quotes/:id/revisions/:revision/accept
+ */
+export const acceptQuoteRevisionHandler = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const revision = parseRevisionNumber(req.params.revision);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    if (!id) {
+      res.status(400).json(errorResponse('Quote ID is required', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    if (revision === null) {
+      res.status(400).json(errorResponse('Invalid revision number', 'VALIDATION_ERROR'));
+      return;
+    }
+
+    const quote = await acceptQuoteRevision(id, revision, userId, req.ip);
+
+    logger.info('Quote revision accepted via API', {
+      quoteId: id,
+      revisionNumber: revision,
+      userId
+    });
+
+    res.json(successResponse(quote, 'Quote revision accepted successfully'));
+  } catch (error) {
+    logger.error('Accept quote revision API error', { error, quoteId: req.params.id, revision: req.params.revision, userId: req.user?.id });
+
+    if (error instanceof ApiError) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code));
+      return;
+    }
+
+    res.status(500).json(errorResponse('Failed to accept quote revision', 'INTERNAL_ERROR'));
+  }
+};
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import * as signInService from '../services/signin.service';
-import { sendSuccess, sendError } from '../utils/response';
+import { sendSuccess, sendError, sendCreated } from '../utils/response';
 import { logger } from '../utils/logger';
 
 /**
@@ -104,7 +104,7 @@ export const getEmployeeHistory = async (req: Request, res: Response) => {
 /**
  * Sign in an employee
  * POST /api/v1/sign-ins
- * Body: { employeeId, date, signInTime, location?, projectId?, notes? }
+ * Body: { employeeId, date, signInTime, location?, projectId?, notes?, latitude?, longitude?, accuracy? }
  */
 export const signIn = async (req: Request, res: Response) => {
   try {
@@ -127,6 +127,11 @@ export const signIn = async (req: Request, res: Response) => {
       return sendError(res, 'VALIDATION_ERROR', 'Invalid date format', 400);
     }
 
+    const gps = signInService.parseGps(req.body);
+    if (gps === null) {
+      return sendError(res, 'VALIDATION_ERROR', 'Invalid GPS coordinates', 400);
+    }
+
     const signInData = {
       employeeId,
       date: dateObj,
@@ -134,12 +139,17 @@ export const signIn = async (req: Request, res: Response) => {
       location,
       projectId,
       notes,
+      gps,
     };
 
     const signInRecord = await signInService.signIn(signInData, userId);
     return sendSuccess(res, signInRecord, 'Employee signed in successfully', 201);
   } catch (error: any) {
     logger.error('Error in signIn controller', { error });
+
+    if (error.message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', error.message, 409);
+    }
     
     if (error.message.includes('already signed in')) {
       return sendError(res, 'DUPLICATE_ERROR', error.message, 409);
@@ -152,7 +162,7 @@ export const signIn = async (req: Request, res: Response) => {
 /**
  * Bulk sign in multiple employees
  * POST /api/v1/sign-ins/bulk
- * Body: { employeeIds[], date, signInTime, location?, projectId? }
+ * Body: { employeeIds[], date, signInTime, location?, projectId?, latitude?, longitude?, accuracy? }
  */
 export const bulkSignIn = async (req: Request, res: Response) => {
   try {
@@ -179,18 +189,28 @@ export const bulkSignIn = async (req: Request, res: Response) => {
       return sendError(res, 'VALIDATION_ERROR', 'Invalid date format', 400);
     }
 
+    const gps = signInService.parseGps(req.body);
+    if (gps === null) {
+      return sendError(res, 'VALIDATION_ERROR', 'Invalid GPS coordinates', 400);
+    }
+
     const result = await signInService.bulkSignIn(
       employeeIds,
       dateObj,
       signInTimeObj,
       userId,
       location,
-      projectId
+      projectId,
+      gps
     );
 
     return sendSuccess(res, result, 'Bulk sign-in completed successfully', 201);
   } catch (error: any) {
     logger.error('Error in bulkSignIn controller', { error });
+
+    if (error.message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', error.message, 409);
+    }
     return sendError(res, 'BULK_SIGNIN_ERROR', error.message || 'Failed to bulk sign in employees');
   }
 };
@@ -198,7 +218,7 @@ export const bulkSignIn = async (req: Request, res: Response) => {
 /**
  * Sign out an employee
  * PUT /api/v1/sign-ins/:id/sign-out
- * Body: { signOutTime }
+ * Body: { signOutTime, latitude?, longitude?, accuracy? }
  */
 export const signOut = async (req: Request, res: Response) => {
   try {
@@ -223,10 +243,19 @@ export const signOut = async (req: Request, res: Response) => {
       return sendError(res, 'VALIDATION_ERROR', 'Invalid date format', 400);
     }
 
-    const signInRecord = await signInService.signOut(id, signOutTimeObj, userId);
+    const gps = signInService.parseGps(req.body);
+    if (gps === null) {
+      return sendError(res, 'VALIDATION_ERROR', 'Invalid GPS coordinates', 400);
+    }
+
+    const signInRecord = await signInService.signOut(id, signOutTimeObj, userId, gps);
     return sendSuccess(res, signInRecord, 'Employee signed out successfully');
   } catch (error: any) {
     logger.error('Error in signOut controller', { error });
+
+    if (error.message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', error.message, 409);
+    }
     
     if (error.message.includes('not found')) {
       return sendError(res, 'NOT_FOUND', error.message, 404);
@@ -240,3 +269,152 @@ export const signOut = async (req: Request, res: Response) => {
   }
 };
 
+
+/**
+ * Record a meal or rest break on a sign-in
+ * POST /api/v1/sign-ins/:id/breaks
+ * Body: { breakType: 'MEAL' | 'REST', startTime, endTime?, isPaid?, notes? }
+ */
+export const startBreak = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { breakType, startTime, endTime, isPaid, notes } = req.body;
+    const userId = req.user?.id;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Sign-in ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    if (!breakType || !startTime) {
+      return sendError(res, 'VALIDATION_ERROR', 'breakType and startTime are required', 400);
+    }
+
+    const startTimeObj = new Date(startTime);
+    const endTimeObj = endTime ? new Date(endTime) : undefined;
+    if (isNaN(startTimeObj.getTime()) || (endTimeObj && isNaN(endTimeObj.getTime()))) {
+      return sendError(res, 'VALIDATION_ERROR', 'Invalid date format', 400);
+    }
+
+    const segment = await signInService.startBreak(
+      id,
+      {
+        breakType,
+        startTime: startTimeObj,
+        endTime: endTimeObj,
+        isPaid: isPaid !== undefined ? Boolean(isPaid) : undefined,
+        notes,
+      },
+      userId
+    );
+    return sendCreated(res, segment, 'Break recorded successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in startBreak controller', { error });
+
+    if (message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', message, 409);
+    }
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    if (message.includes('already on a break') || message.includes('overlaps')) {
+      return sendError(res, 'CONFLICT', message, 409);
+    }
+
+    if (message.includes('must')) {
+      return sendError(res, 'VALIDATION_ERROR', message, 400);
+    }
+
+    return sendError(res, 'BREAK_ERROR', message || 'Failed to record break');
+  }
+};
+
+/**
+ * End a break in progress
+ * PUT /api/v1/sign-ins/breaks/:breakId/end
+ * Body: { endTime }
+ */
+export const endBreak = async (req: Request, res: Response) => {
+  try {
+    const { breakId } = req.params;
+    const { endTime } = req.body;
+    const userId = req.user?.id;
+
+    if (!breakId) {
+      return sendError(res, 'VALIDATION_ERROR', 'Break ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    if (!endTime) {
+      return sendError(res, 'VALIDATION_ERROR', 'endTime is required', 400);
+    }
+
+    const endTimeObj = new Date(endTime);
+    if (isNaN(endTimeObj.getTime())) {
+      return sendError(res, 'VALIDATION_ERROR', 'Invalid date format', 400);
+    }
+
+    const segment = await signInService.endBreak(breakId, endTimeObj, userId);
+    return sendSuccess(res, segment, 'Break ended successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in endBreak controller', { error });
+
+    if (message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', message, 409);
+    }
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    if (message.includes('already ended') || message.includes('overlaps')) {
+      return sendError(res, 'CONFLICT', message, 409);
+    }
+
+    if (message.includes('must')) {
+      return sendError(res, 'VALIDATION_ERROR', message, 400);
+    }
+
+    return sendError(res, 'BREAK_ERROR', message || 'Failed to end break');
+  }
+};
+
+/**
+ * Delete a break
+ * DELETE /api/v1/sign-ins/breaks/:breakId
+ */
+export const deleteBreak = async (req: Request, res: Response) => {
+  try {
+    const { breakId } = req.params;
+
+    if (!breakId) {
+      return sendError(res, 'VALIDATION_ERROR', 'Break ID is required', 400);
+    }
+
+    await signInService.deleteBreak(breakId);
+    return sendSuccess(res, { id: breakId }, 'Break deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in deleteBreak controller', { error });
+
+    if (message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', message, 409);
+    }
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    return sendError(res, 'DELETE_ERROR', message || 'Failed to delete break');
+  }
+};
@@ -0,0 +1,376 @@
+import { Request, Response } from 'express';
+import * as timeClockService from '../services/timeclock.service';
+import { parseGps, BREAK_TYPES } from '../services/signin.service';
+import { sendSuccess, sendError, sendCreated } from '../utils/response';
+import { logger } from '../utils/logger';
+
+/**
+ * Time Clock Controller
+ * Handles HTTP requests for employee self-service punches and time clock policies
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Map time clock errors to HTTP responses
+ */
+const handleTimeClockError = (res: Response, error: unknown, code: string, fallback: string) => {
+  const message = (error instanceof Error && error.message) || fallback;
+
+  if (message.includes('linked to your user account') || message.includes('not enabled')) {
+    return sendError(res, 'FORBIDDEN', message, 403);
+  }
+
+  if (message.includes('not found')) {
+    return sendError(res, 'NOT_FOUND', message, 404);
+  }
+
+  if (
+    message.includes('already') ||
+    message.includes('not clocked in') ||
+    message.includes('not on a break') ||
+    message.includes('overlaps') ||
+    message.includes('locked')
+  ) {
+    return sendError(res, 'CONFLICT', message, 409);
+  }
+
+  if (message.includes('required') || message.includes('Cost code')) {
+    return sendError(res, 'VALIDATION_ERROR', message, 400);
+  }
+
+  return sendError(res, code, message);
+};
+
+/**
+ * Parse the punch body shared by clock in, switch project and clock out.
+ * The work date may be sent from the device's local calendar (YYYY-MM-DD)
+ * but must be within a day of the server clock.
+ */
+const parsePunch = (req: Request, res: Response) => {
+  const gps = parseGps(req.body);
+  if (gps === null) {
+    sendError(res, 'VALIDATION_ERROR', 'Invalid GPS coordinates', 400);
+    return null;
+  }
+
+  let date: Date | undefined;
+  if (req.body.date) {
+    date = new Date(req.body.date);
+    if (isNaN(date.getTime()) || Math.abs(date.getTime() - Date.now()) > 2 * MS_PER_DAY) {
+      sendError(res, 'VALIDATION_ERROR', 'date must be today (YYYY-MM-DD)', 400);
+      return null;
+    }
+  }
+
+  return {
+    projectId: req.body.projectId as string | undefined,
+    costCodeId: req.body.costCodeId as string | undefined,
+    notes: req.body.notes as string | undefined,
+    date,
+    gps,
+  };
+};
+
+/**
+ * Get the current user's time clock status
+ * GET /api/v1/time-clock/me
+ */
+export const getClockStatus = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const status = await timeClockService.getClockStatus(userId);
+    return sendSuccess(res, status, 'Time clock status retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getClockStatus controller', { error });
+    return handleTimeClockError(res, error, 'FETCH_ERROR', 'Failed to fetch time clock status');
+  }
+};
+
+/**
+ * Clock in on a project
+ * POST /api/v1/time-clock/clock-in
+ * Body: { projectId, costCodeId, date?, notes?, latitude?, longitude?, accuracy? }
+ */
+export const clockIn = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const punch = parsePunch(req, res);
+    if (!punch) return;
+
+    const result = await timeClockService.clockIn(userId, punch);
+    return sendCreated(res, result, 'Clocked in successfully');
+  } catch (error) {
+    logger.error('Error in clockIn controller', { error });
+    return handleTimeClockError(res, error, 'CLOCK_IN_ERROR', 'Failed to clock in');
+  }
+};
+
+/**
+ * Switch to another project or cost code without clocking out
+ * POST /api/v1/time-clock/switch-project
+ * Body: { projectId, costCodeId, notes?, latitude?, longitude?, accuracy? }
+ */
+export const switchProject = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const punch = parsePunch(req, res);
+    if (!punch) return;
+
+    const result = await timeClockService.switchProject(userId, punch);
+    return sendSuccess(res, result, 'Project switched successfully');
+  } catch (error) {
+    logger.error('Error in switchProject controller', { error });
+    return handleTimeClockError(res, error, 'SWITCH_ERROR', 'Failed to switch projects');
+  }
+};
+
+/**
+ * Clock out
+ * POST /api/v1/time-clock/clock-out
+ * Body: { latitude?, longitude?, accuracy? }
+ */
+export const clockOut = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const punch = parsePunch(req, res);
+    if (!punch) return;
+
+    const result = await timeClockService.clockOut(userId, punch);
+    return sendSuccess(res, result, 'Clocked out successfully');
+  } catch (error) {
+    logger.error('Error in clockOut controller', { error });
+    return handleTimeClockError(res, error, 'CLOCK_OUT_ERROR', 'Failed to clock out');
+  }
+};
+
+/**
+ * Start a meal or rest break
+ * POST /api/v1/time-clock/break/start
+ * Body: { breakType: 'MEAL' | 'REST', latitude?, longitude?, accuracy? }
+ */
+export const startBreak = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const { breakType } = req.body;
+    if (!BREAK_TYPES.includes(breakType)) {
+      return sendError(res, 'VALIDATION_ERROR', `breakType must be one of: ${BREAK_TYPES.join(', ')}`, 400);
+    }
+
+    const punch = parsePunch(req, res);
+    if (!punch) return;
+
+    const result = await timeClockService.startBreak(userId, breakType, punch.gps);
+    return sendCreated(res, result, 'Break started successfully');
+  } catch (error) {
+    logger.error('Error in startBreak controller', { error });
+    return handleTimeClockError(res, error, 'BREAK_ERROR', 'Failed to start break');
+  }
+};
+
+/**
+ * End the current break
+ * POST /api/v1/time-clock/break/end
+ * Body: { latitude?, longitude?, accuracy? }
+ */
+export const endBreak = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const punch = parsePunch(req, res);
+    if (!punch) return;
+
+    const result = await timeClockService.endBreak(userId, punch.gps);
+    return sendSuccess(res, result, 'Break ended successfully');
+  } catch (error) {
+    logger.error('Error in endBreak controller', { error });
+    return handleTimeClockError(res, error, 'BREAK_ERROR', 'Failed to end break');
+  }
+};
+
+/**
+ * Get the current user's hours for a workweek
+ * GET /api/v1/time-clock/me/week?date=YYYY-MM-DD
+ */
+export const getMyWeek = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const date = req.query.date ? new Date(req.query.date as string) : new Date();
+    if (isNaN(date.getTime())) {
+      return sendError(res, 'VALIDATION_ERROR', 'Invalid date format', 400);
+    }
+
+    const week = await timeClockService.getMyWeek(userId, date);
+    return sendSuccess(res, week, 'Weekly hours retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getMyWeek controller', { error });
+    return handleTimeClockError(res, error, 'FETCH_ERROR', 'Failed to fetch weekly hours');
+  }
+};
+
+/**
+ * Get all time clock policies
+ * GET /api/v1/time-clock/policies
+ */
+export const getTimeClockPolicies = async (_req: Request, res: Response) => {
+  try {
+    const policies = await timeClockService.getTimeClockPolicies();
+    return sendSuccess(res, policies, 'Time clock policies retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in getTimeClockPolicies controller', { error });
+    return sendError(res, 'FETCH_ERROR', message || 'Failed to fetch time clock policies');
+  }
+};
+
+/**
+ * Create a time clock policy
+ * POST /api/v1/time-clock/policies
+ * Body: { name, classification?, isDefault?, selfPunchEnabled?, requiresApproval?, requireGps?, isActive? }
+ */
+export const createTimeClockPolicy = async (req: Request, res: Response) => {
+  try {
+    const { name, classification, isDefault, selfPunchEnabled, requiresApproval, requireGps, isActive } = req.body;
+    const userId = req.user?.id;
+
+    if (!name) {
+      return sendError(res, 'VALIDATION_ERROR', 'Policy name is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const policy = await timeClockService.createTimeClockPolicy(
+      {
+        name,
+        classification: classification || null,
+        isDefault: Boolean(isDefault),
+        selfPunchEnabled: selfPunchEnabled !== undefined ? Boolean(selfPunchEnabled) : undefined,
+        requiresApproval: requiresApproval !== undefined ? Boolean(requiresApproval) : undefined,
+        requireGps: Boolean(requireGps),
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+      },
+      userId
+    );
+    return sendCreated(res, policy, 'Time clock policy created successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in createTimeClockPolicy controller', { error });
+
+    if (message.includes('already exists')) {
+      return sendError(res, 'DUPLICATE_ERROR', message, 409);
+    }
+
+    if (message.includes('cannot be')) {
+      return sendError(res, 'VALIDATION_ERROR', message, 400);
+    }
+
+    return sendError(res, 'CREATE_ERROR', message || 'Failed to create time clock policy');
+  }
+};
+
+/**
+ * Update a time clock policy
+ * PUT /api/v1/time-clock/policies/:id
+ */
+export const updateTimeClockPolicy = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, classification, isDefault, selfPunchEnabled, requiresApproval, requireGps, isActive } = req.body;
+    const userId = req.user?.id;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Time clock policy ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const policy = await timeClockService.updateTimeClockPolicy(
+      id,
+      {
+        name,
+        classification,
+        isDefault: isDefault !== undefined ? Boolean(isDefault) : undefined,
+        selfPunchEnabled: selfPunchEnabled !== undefined ? Boolean(selfPunchEnabled) : undefined,
+        requiresApproval: requiresApproval !== undefined ? Boolean(requiresApproval) : undefined,
+        requireGps: requireGps !== undefined ? Boolean(requireGps) : undefined,
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+      },
+      userId
+    );
+    return sendSuccess(res, policy, 'Time clock policy updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in updateTimeClockPolicy controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    if (message.includes('already exists')) {
+      return sendError(res, 'DUPLICATE_ERROR', message, 409);
+    }
+
+    if (message.includes('cannot be')) {
+      return sendError(res, 'VALIDATION_ERROR', message, 400);
+    }
+
+    return sendError(res, 'UPDATE_ERROR', message || 'Failed to update time clock policy');
+  }
+};
+
+/**
+ * Delete a time clock policy
+ * DELETE /api/v1/time-clock/policies/:id
+ */
+export const deleteTimeClockPolicy = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Time clock policy ID is required', 400);
+    }
+
+    await timeClockService.deleteTimeClockPolicy(id);
+    return sendSuccess(res, { id }, 'Time clock policy deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in deleteTimeClockPolicy controller', { error });
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    return sendError(res, 'DELETE_ERROR', message || 'Failed to delete time clock policy');
+  }
+};
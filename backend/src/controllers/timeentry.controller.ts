@@ -113,11 +113,11 @@ export const getTimeEntriesForProject = async (req: Request, res: Response) => {
 /**
  * Create a time entry
  * POST /api/v1/time-entries
- * Body: { employeeId, date, projectId, hoursWorked, startTime?, endTime?, workType?, description?, taskPerformed? }
+ * Body: { employeeId, date, projectId, costCodeId, hoursWorked, startTime?, endTime?, workType?, description?, taskPerformed?, ojtCategoryId? }
  */
 export const createTimeEntry = async (req: Request, res: Response) => {
   try {
-    const { employeeId, date, projectId, hoursWorked, startTime, endTime, workType, description, taskPerformed } = req.body;
+    const { employeeId, date, projectId, costCodeId, hoursWorked, startTime, endTime, workType, description, taskPerformed, ojtCategoryId } = req.body;
     const userId = req.user?.id;
 
     // Validation
@@ -142,6 +142,8 @@ export const createTimeEntry = async (req: Request, res: Response) => {
       workType,
       description,
       taskPerformed,
+      ojtCategoryId,
+      costCodeId,
     };
 
     if (startTime) {
@@ -158,14 +160,67 @@ export const createTimeEntry = async (req: Request, res: Response) => {
       }
     }
 
-    const timeEntry = await timeEntryService.create(timeEntryData, userId);
+    const timeEntry = await timeEntryService.create(timeEntryData, userId, req.ip);
     return sendCreated(res, timeEntry, 'Time entry created successfully');
   } catch (error: any) {
     logger.error('Error in createTimeEntry controller', { error });
+
+    if (error.message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', error.message, 409);
+    }
+
+    if (error.message.includes('OJT work categor') || error.message.includes('Cost code')) {
+      return sendError(res, 'VALIDATION_ERROR', error.message, 400);
+    }
     return sendError(res, 'CREATE_ERROR', error.message || 'Failed to create time entry');
   }
 };
 
+/**
+ * Create a time entry from a completed sign-in (unpaid breaks are deducted)
+ * POST /api/v1/time-entries/auto-create
+ * Body: { signInId, projectId, costCodeId }
+ */
+export const autoCreateFromSignIn = async (req: Request, res: Response) => {
+  try {
+    const { signInId, projectId, costCodeId } = req.body;
+    const userId = req.user?.id;
+
+    if (!signInId || !projectId || !costCodeId) {
+      return sendError(res, 'VALIDATION_ERROR', 'signInId, projectId and costCodeId are required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const timeEntry = await timeEntryService.autoCreateFromSignIn(signInId, projectId, costCodeId, userId);
+    return sendCreated(res, timeEntry, 'Time entry created from sign-in successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error in autoCreateFromSignIn controller', { error });
+
+    if (message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', message, 409);
+    }
+
+    if (message.includes('not found')) {
+      return sendError(res, 'NOT_FOUND', message, 404);
+    }
+
+    if (
+      message.includes('not signed out') ||
+      message.includes('must be between') ||
+      message.includes('OJT work categor') ||
+      message.includes('Cost code')
+    ) {
+      return sendError(res, 'VALIDATION_ERROR', message, 400);
+    }
+
+    return sendError(res, 'CREATE_ERROR', message || 'Failed to create time entry from sign-in');
+  }
+};
+
 /**
  * Update a time entry
  * PUT /api/v1/time-entries/:id
@@ -211,10 +266,18 @@ export const updateTimeEntry = async (req: Request, res: Response) => {
       updateData.hoursWorked = parseFloat(updateData.hoursWorked);
     }
 
-    const timeEntry = await timeEntryService.update(id, updateData, userId);
+    const timeEntry = await timeEntryService.update(id, updateData, userId, req.ip);
     return sendSuccess(res, timeEntry, 'Time entry updated successfully');
   } catch (error: any) {
     logger.error('Error in updateTimeEntry controller', { error });
+
+    if (error.message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', error.message, 409);
+    }
+
+    if (error.message.includes('OJT work categor') || error.message.includes('Cost code')) {
+      return sendError(res, 'VALIDATION_ERROR', error.message, 400);
+    }
     
     if (error.message.includes('not found')) {
       return sendError(res, 'NOT_FOUND', error.message, 404);
@@ -231,15 +294,24 @@ export const updateTimeEntry = async (req: Request, res: Response) => {
 export const deleteTimeEntry = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const userId = req.user?.id;
 
     if (!id) {
       return sendError(res, 'VALIDATION_ERROR', 'Time entry ID is required', 400);
     }
 
-    await timeEntryService.deleteTimeEntry(id);
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    await timeEntryService.deleteTimeEntry(id, userId, req.ip);
     return sendSuccess(res, { id }, 'Time entry deleted successfully');
   } catch (error: any) {
     logger.error('Error in deleteTimeEntry controller', { error });
+
+    if (error.message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', error.message, 409);
+    }
     
     if (error.message.includes('not found')) {
       return sendError(res, 'NOT_FOUND', error.message, 404);
@@ -252,7 +324,7 @@ export const deleteTimeEntry = async (req: Request, res: Response) => {
 /**
  * Bulk create time entries
  * POST /api/v1/time-entries/bulk
- * Body: { entries: [{ employeeId, date, projectId, hoursWorked, ... }] }
+ * Body: { entries: [{ employeeId, date, projectId, costCodeId, hoursWorked, ... }] }
  */
 export const bulkCreateTimeEntries = async (req: Request, res: Response) => {
   try {
@@ -282,6 +354,8 @@ export const bulkCreateTimeEntries = async (req: Request, res: Response) => {
         workType: entry.workType,
         description: entry.description,
         taskPerformed: entry.taskPerformed,
+        ojtCategoryId: entry.ojtCategoryId,
+        costCodeId: entry.costCodeId,
       };
 
       if (entry.startTime) {
@@ -301,10 +375,18 @@ export const bulkCreateTimeEntries = async (req: Request, res: Response) => {
       return processed;
     });
 
-    const timeEntries = await timeEntryService.bulkCreate(processedEntries, userId);
+    const timeEntries = await timeEntryService.bulkCreate(processedEntries, userId, req.ip);
     return sendCreated(res, timeEntries, 'Time entries created successfully');
   } catch (error: any) {
     logger.error('Error in bulkCreateTimeEntries controller', { error });
+
+    if (error.message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', error.message, 409);
+    }
+
+    if (error.message.includes('OJT work categor') || error.message.includes('Cost code')) {
+      return sendError(res, 'VALIDATION_ERROR', error.message, 400);
+    }
     return sendError(res, 'BULK_CREATE_ERROR', error.message || 'Failed to bulk create time entries');
   }
 };
@@ -351,10 +433,14 @@ export const approveTimeEntry = async (req: Request, res: Response) => {
       return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
     }
 
-    const timeEntry = await timeEntryService.approve(id, userId);
+    const timeEntry = await timeEntryService.approve(id, userId, req.ip);
     return sendSuccess(res, timeEntry, 'Time entry approved successfully');
   } catch (error: any) {
     logger.error('Error in approveTimeEntry controller', { error });
+
+    if (error.message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', error.message, 409);
+    }
     
     if (error.message.includes('not found')) {
       return sendError(res, 'NOT_FOUND', error.message, 404);
@@ -387,10 +473,14 @@ export const rejectTimeEntry = async (req: Request, res: Response) => {
       return sendError(res, 'VALIDATION_ERROR', 'Rejection reason is required', 400);
     }
 
-    const timeEntry = await timeEntryService.reject(id, userId, reason);
+    const timeEntry = await timeEntryService.reject(id, userId, reason, req.ip);
     return sendSuccess(res, timeEntry, 'Time entry rejected successfully');
   } catch (error: any) {
     logger.error('Error in rejectTimeEntry controller', { error });
+
+    if (error.message.includes('locked')) {
+      return sendError(res, 'TIME_LOCKED', error.message, 409);
+    }
     
     if (error.message.includes('not found')) {
       return sendError(res, 'NOT_FOUND', error.message, 404);
@@ -184,6 +184,27 @@ export const createTimesheet = async (req: Request, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Error in createTimesheet controller', { error: error.message });
+
+    if (error.message.includes('locked')) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'TIME_LOCKED',
+          message: error.message,
+        },
+      });
+    }
+
+    if (error.message.includes('OJT work categor') || error.message.includes('Cost code')) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: error.message,
+        },
+      });
+    }
+
     return res.status(500).json({
       success: false,
       error: {
@@ -241,6 +262,16 @@ export const updateTimesheet = async (req: Request, res: Response) => {
   } catch (error: any) {
     logger.error('Error in updateTimesheet controller', { error: error.message });
 
+    if (error.message.includes('locked')) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'TIME_LOCKED',
+          message: error.message,
+        },
+      });
+    }
+
     if (error.message === 'Timesheet not found') {
       return res.status(404).json({
         success: false,
@@ -251,6 +282,16 @@ export const updateTimesheet = async (req: Request, res: Response) => {
       });
     }
 
+    if (error.message.includes('OJT work categor') || error.message.includes('Cost code')) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: error.message,
+        },
+      });
+    }
+
     if (error.message === 'Cannot edit approved timesheet') {
       return res.status(403).json({
         success: false,
@@ -309,6 +350,16 @@ export const submitTimesheet = async (req: Request, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Error in submitTimesheet controller', { error: error.message });
+
+    if (error.message.includes('locked')) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'TIME_LOCKED',
+          message: error.message,
+        },
+      });
+    }
     return res.status(500).json({
       success: false,
       error: {
@@ -357,6 +408,16 @@ export const approveTimesheet = async (req: Request, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Error in approveTimesheet controller', { error: error.message });
+
+    if (error.message.includes('locked')) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'TIME_LOCKED',
+          message: error.message,
+        },
+      });
+    }
     return res.status(500).json({
       success: false,
       error: {
@@ -394,6 +455,16 @@ export const deleteTimesheet = async (req: Request, res: Response) => {
   } catch (error: any) {
     logger.error('Error in deleteTimesheet controller', { error: error.message });
 
+    if (error.message.includes('locked')) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: 'TIME_LOCKED',
+          message: error.message,
+        },
+      });
+    }
+
     if (error.message === 'Timesheet not found') {
       return res.status(404).json({
         success: false,
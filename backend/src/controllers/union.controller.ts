@@ -0,0 +1,328 @@
+import { Request, Response } from 'express';
+import * as unionService from '../services/union.service';
+import { sendSuccess, sendError, sendCreated } from '../utils/response';
+import { logger } from '../utils/logger';
+
+/**
+ * Union Controller
+ * Handles HTTP requests for union locals, their wage and fringe packages and
+ * the monthly fringe benefit remittance report
+ */
+
+/**
+ * Parse an optional number from the request body
+ */
+const parseOptionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+/**
+ * Parse an optional YYYY-MM-DD (or ISO) date from the request body
+ */
+const parseOptionalDate = (value: unknown): Date | undefined =>
+  value ? new Date(String(value).slice(0, 10)) : undefined;
+
+/**
+ * Map union errors to HTTP responses
+ */
+const handleUnionError = (res: Response, error: unknown, code: string, fallback: string) => {
+  const message = (error instanceof Error && error.message) || fallback;
+
+  if (message.includes('not found')) {
+    return sendError(res, 'NOT_FOUND', message, 404);
+  }
+
+  if (message.includes('already exists')) {
+    return sendError(res, 'DUPLICATE_ERROR', message, 409);
+  }
+
+  if (message.includes('cannot be deleted')) {
+    return sendError(res, 'IN_USE', message, 409);
+  }
+
+  if (message.includes('closed payroll period')) {
+    return sendError(res, 'RATE_LOCKED', message, 409);
+  }
+
+  if (message.includes('required') || message.includes('must be')) {
+    return sendError(res, 'VALIDATION_ERROR', message, 400);
+  }
+
+  return sendError(res, code, message);
+};
+
+/**
+ * Build package data from the request body
+ */
+const parseUnionRateBody = (body: Request['body']) => ({
+  classification: body.classification,
+  effectiveDate: parseOptionalDate(body.effectiveDate),
+  wage: parseOptionalNumber(body.wage),
+  healthPerHour: parseOptionalNumber(body.healthPerHour),
+  pensionPerHour: parseOptionalNumber(body.pensionPerHour),
+  nebfPercent: parseOptionalNumber(body.nebfPercent),
+  apprenticeshipPerHour: parseOptionalNumber(body.apprenticeshipPerHour),
+});
+
+/**
+ * Get union locals
+ * GET /api/v1/union-locals?includeInactive=true
+ */
+export const getUnionLocals = async (req: Request, res: Response) => {
+  try {
+    const locals = await unionService.getUnionLocals(req.query.includeInactive === 'true');
+    return sendSuccess(res, locals, 'Union locals retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getUnionLocals controller', { error });
+    return handleUnionError(res, error, 'FETCH_ERROR', 'Failed to fetch union locals');
+  }
+};
+
+/**
+ * Create a union local
+ * POST /api/v1/union-locals
+ * Body: { number, name, notes?, isActive? }
+ */
+export const createUnionLocal = async (req: Request, res: Response) => {
+  try {
+    const { number, name, notes, isActive } = req.body;
+    const userId = req.user?.id;
+
+    if (!number || !name) {
+      return sendError(res, 'VALIDATION_ERROR', 'number and name are required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const local = await unionService.createUnionLocal(
+      {
+        number: String(number),
+        name,
+        notes,
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+      },
+      userId,
+      req.ip
+    );
+    return sendCreated(res, local, 'Union local created successfully');
+  } catch (error) {
+    logger.error('Error in createUnionLocal controller', { error });
+    return handleUnionError(res, error, 'CREATE_ERROR', 'Failed to create union local');
+  }
+};
+
+/**
+ * Update a union local
+ * PUT /api/v1/union-locals/:id
+ */
+export const updateUnionLocal = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { number, name, notes, isActive } = req.body;
+    const userId = req.user?.id;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Union local ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const local = await unionService.updateUnionLocal(
+      id,
+      {
+        number: number !== undefined ? String(number) : undefined,
+        name,
+        notes,
+        isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+      },
+      userId,
+      req.ip
+    );
+    return sendSuccess(res, local, 'Union local updated successfully');
+  } catch (error) {
+    logger.error('Error in updateUnionLocal controller', { error });
+    return handleUnionError(res, error, 'UPDATE_ERROR', 'Failed to update union local');
+  }
+};
+
+/**
+ * Delete a union local
+ * DELETE /api/v1/union-locals/:id
+ */
+export const deleteUnionLocal = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Union local ID is required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    await unionService.deleteUnionLocal(id, userId, req.ip);
+    return sendSuccess(res, { id }, 'Union local deleted successfully');
+  } catch (error) {
+    logger.error('Error in deleteUnionLocal controller', { error });
+    return handleUnionError(res, error, 'DELETE_ERROR', 'Failed to delete union local');
+  }
+};
+
+/**
+ * Get a local's wage and fringe packages
+ * GET /api/v1/union-locals/:id/rates
+ */
+export const getUnionRates = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Union local ID is required', 400);
+    }
+
+    const rates = await unionService.getUnionRates(id);
+    return sendSuccess(res, rates, 'Union rates retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getUnionRates controller', { error });
+    return handleUnionError(res, error, 'FETCH_ERROR', 'Failed to fetch union rates');
+  }
+};
+
+/**
+ * Add a wage and fringe package to a local
+ * POST /api/v1/union-locals/:id/rates
+ * Body: { classification, effectiveDate, wage, healthPerHour?, pensionPerHour?, nebfPercent?, apprenticeshipPerHour? }
+ */
+export const createUnionRate = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const data = parseUnionRateBody(req.body);
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Union local ID is required', 400);
+    }
+
+    if (!data.classification || !data.effectiveDate || data.wage === undefined) {
+      return sendError(res, 'VALIDATION_ERROR', 'classification, effectiveDate and wage are required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const rate = await unionService.createUnionRate(
+      id,
+      { ...data, classification: data.classification, effectiveDate: data.effectiveDate, wage: data.wage },
+      userId,
+      req.ip
+    );
+    return sendCreated(res, rate, 'Union rate created successfully');
+  } catch (error) {
+    logger.error('Error in createUnionRate controller', { error });
+    return handleUnionError(res, error, 'CREATE_ERROR', 'Failed to create union rate');
+  }
+};
+
+/**
+ * Update a wage and fringe package
+ * PUT /api/v1/union-locals/:id/rates/:rateId
+ */
+export const updateUnionRate = async (req: Request, res: Response) => {
+  try {
+    const { id, rateId } = req.params;
+    const userId = req.user?.id;
+
+    if (!id || !rateId) {
+      return sendError(res, 'VALIDATION_ERROR', 'Union local ID and rate ID are required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const rate = await unionService.updateUnionRate(id, rateId, parseUnionRateBody(req.body), userId, req.ip);
+    return sendSuccess(res, rate, 'Union rate updated successfully');
+  } catch (error) {
+    logger.error('Error in updateUnionRate controller', { error });
+    return handleUnionError(res, error, 'UPDATE_ERROR', 'Failed to update union rate');
+  }
+};
+
+/**
+ * Delete a wage and fringe package
+ * DELETE /api/v1/union-locals/:id/rates/:rateId
+ */
+export const deleteUnionRate = async (req: Request, res: Response) => {
+  try {
+    const { id, rateId } = req.params;
+    const userId = req.user?.id;
+
+    if (!id || !rateId) {
+      return sendError(res, 'VALIDATION_ERROR', 'Union local ID and rate ID are required', 400);
+    }
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    await unionService.deleteUnionRate(id, rateId, userId, req.ip);
+    return sendSuccess(res, { id: rateId }, 'Union rate deleted successfully');
+  } catch (error) {
+    logger.error('Error in deleteUnionRate controller', { error });
+    return handleUnionError(res, error, 'DELETE_ERROR', 'Failed to delete union rate');
+  }
+};
+
+/**
+ * Get the monthly fringe benefit remittance report
+ * GET /api/v1/union-locals/remittance?month=YYYY-MM&unionLocalId=xxx
+ */
+export const getRemittanceReport = async (req: Request, res: Response) => {
+  try {
+    const { month, unionLocalId } = req.query;
+
+    if (!month) {
+      return sendError(res, 'VALIDATION_ERROR', 'month parameter is required', 400);
+    }
+
+    const report = await unionService.generateRemittanceReport(
+      month as string,
+      (unionLocalId as string) || undefined
+    );
+    return sendSuccess(res, report, 'Union remittance report generated successfully');
+  } catch (error) {
+    logger.error('Error in getRemittanceReport controller', { error });
+    return handleUnionError(res, error, 'REPORT_ERROR', 'Failed to generate union remittance report');
+  }
+};
+
+/**
+ * Download the monthly fringe benefit remittance as CSV
+ * GET /api/v1/union-locals/remittance/export?month=YYYY-MM&unionLocalId=xxx
+ */
+export const downloadRemittanceCSV = async (req: Request, res: Response) => {
+  try {
+    const { month, unionLocalId } = req.query;
+
+    if (!month) {
+      return sendError(res, 'VALIDATION_ERROR', 'month parameter is required', 400);
+    }
+
+    const csv = await unionService.exportRemittanceCSV(month as string, (unionLocalId as string) || undefined);
+
+    const filename = `union-remittance-${month}.csv`;
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    return res.send(csv);
+  } catch (error) {
+    logger.error('Error in downloadRemittanceCSV controller', { error });
+    return handleUnionError(res, error, 'EXPORT_ERROR', 'Failed to export union remittance');
+  }
+};
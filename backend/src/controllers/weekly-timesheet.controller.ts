@@ -0,0 +1,235 @@
+import { Request, Response } from 'express';
+import * as weeklyTimesheetService from '../services/weekly-timesheet.service';
+import { WeeklyTimesheetActor } from '../services/weekly-timesheet.service';
+import { sendSuccess, sendError } from '../utils/response';
+import { logger } from '../utils/logger';
+
+/**
+ * Weekly Timesheet Controller
+ * Handles HTTP requests for the weekly timesheet roll-up and approval workflow
+ */
+
+const WEEKLY_TIMESHEET_STATUSES = ['DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED'];
+
+/**
+ * Get the acting user for ownership checks
+ */
+const getActor = (req: Request): WeeklyTimesheetActor | null =>
+  req.user ? { id: req.user.id, role: req.user.role } : null;
+
+/**
+ * Parse an optional date query/body value; returns null when invalid
+ */
+const parseDate = (value: unknown): Date | undefined | null => {
+  if (!value) return undefined;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Map weekly timesheet errors to HTTP responses
+ */
+const handleWeeklyTimesheetError = (res: Response, error: unknown, code: string, fallback: string) => {
+  const message = (error instanceof Error && error.message) || fallback;
+
+  if (message.includes('linked to your user account') || message.includes('not allowed')) {
+    return sendError(res, 'FORBIDDEN', message, 403);
+  }
+
+  if (message.includes('not found')) {
+    return sendError(res, 'NOT_FOUND', message, 404);
+  }
+
+  if (
+    message.includes('already') ||
+    message.includes('Only submitted') ||
+    message.includes('locked') ||
+    message.includes('still open')
+  ) {
+    return sendError(res, 'CONFLICT', message, 409);
+  }
+
+  if (message.includes('required') || message.includes('no hours')) {
+    return sendError(res, 'VALIDATION_ERROR', message, 400);
+  }
+
+  return sendError(res, code, message);
+};
+
+/**
+ * Get weekly timesheets
+ * GET /api/v1/weekly-timesheets
+ * Query: weekStart?, employeeId?, status?
+ */
+export const getWeeklyTimesheets = async (req: Request, res: Response) => {
+  try {
+    const { employeeId, status } = req.query;
+
+    const weekStart = parseDate(req.query.weekStart);
+    if (weekStart === null) {
+      return sendError(res, 'VALIDATION_ERROR', 'Invalid weekStart date', 400);
+    }
+
+    if (status && !WEEKLY_TIMESHEET_STATUSES.includes(status as string)) {
+      return sendError(res, 'VALIDATION_ERROR', `status must be one of ${WEEKLY_TIMESHEET_STATUSES.join(', ')}`, 400);
+    }
+
+    const timesheets = await weeklyTimesheetService.getWeeklyTimesheets({
+      weekStart,
+      employeeId: employeeId as string | undefined,
+      status: status as string | undefined,
+    });
+    return sendSuccess(res, timesheets, 'Weekly timesheets retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getWeeklyTimesheets controller', { error });
+    return handleWeeklyTimesheetError(res, error, 'FETCH_ERROR', 'Failed to fetch weekly timesheets');
+  }
+};
+
+/**
+ * Get the current user's weekly timesheet for the week containing a date
+ * GET /api/v1/weekly-timesheets/me
+ * Query: date? (defaults to today)
+ */
+export const getMyWeeklyTimesheet = async (req: Request, res: Response) => {
+  try {
+    const actor = getActor(req);
+    if (!actor) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    const date = parseDate(req.query.date);
+    if (date === null) {
+      return sendError(res, 'VALIDATION_ERROR', 'Invalid date', 400);
+    }
+
+    const timesheet = await weeklyTimesheetService.getMyWeeklyTimesheet(actor, date ?? new Date());
+    return sendSuccess(res, timesheet, 'Weekly timesheet retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getMyWeeklyTimesheet controller', { error });
+    return handleWeeklyTimesheetError(res, error, 'FETCH_ERROR', 'Failed to fetch weekly timesheet');
+  }
+};
+
+/**
+ * Get a weekly timesheet with its time entries
+ * GET /api/v1/weekly-timesheets/:id
+ */
+export const getWeeklyTimesheetById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const actor = getActor(req);
+
+    if (!actor) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Weekly timesheet ID is required', 400);
+    }
+
+    const timesheet = await weeklyTimesheetService.getWeeklyTimesheetById(id, actor);
+    return sendSuccess(res, timesheet, 'Weekly timesheet retrieved successfully');
+  } catch (error) {
+    logger.error('Error in getWeeklyTimesheetById controller', { error });
+    return handleWeeklyTimesheetError(res, error, 'FETCH_ERROR', 'Failed to fetch weekly timesheet');
+  }
+};
+
+/**
+ * Generate or refresh weekly timesheets from time entries
+ * POST /api/v1/weekly-timesheets/generate
+ * Body: { weekStart, employeeId? }
+ */
+export const generateWeeklyTimesheets = async (req: Request, res: Response) => {
+  try {
+    const weekStart = parseDate(req.body.weekStart);
+    if (!weekStart) {
+      return sendError(res, 'VALIDATION_ERROR', 'A valid weekStart date is required', 400);
+    }
+
+    const result = await weeklyTimesheetService.generateWeeklyTimesheets(weekStart, req.body.employeeId);
+    return sendSuccess(res, result, 'Weekly timesheets generated successfully');
+  } catch (error) {
+    logger.error('Error in generateWeeklyTimesheets controller', { error });
+    return handleWeeklyTimesheetError(res, error, 'GENERATE_ERROR', 'Failed to generate weekly timesheets');
+  }
+};
+
+/**
+ * Submit a weekly timesheet for approval
+ * PUT /api/v1/weekly-timesheets/:id/submit
+ * Body: { notes? }
+ */
+export const submitWeeklyTimesheet = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const actor = getActor(req);
+
+    if (!actor) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Weekly timesheet ID is required', 400);
+    }
+
+    const timesheet = await weeklyTimesheetService.submitWeeklyTimesheet(id, actor, req.body.notes, req.ip);
+    return sendSuccess(res, timesheet, 'Weekly timesheet submitted successfully');
+  } catch (error) {
+    logger.error('Error in submitWeeklyTimesheet controller', { error });
+    return handleWeeklyTimesheetError(res, error, 'SUBMIT_ERROR', 'Failed to submit weekly timesheet');
+  }
+};
+
+/**
+ * Approve a submitted weekly timesheet and lock its time entries
+ * PUT /api/v1/weekly-timesheets/:id/approve
+ * Body: { comments? }
+ */
+export const approveWeeklyTimesheet = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Weekly timesheet ID is required', 400);
+    }
+
+    const timesheet = await weeklyTimesheetService.approveWeeklyTimesheet(id, userId, req.body.comments, req.ip);
+    return sendSuccess(res, timesheet, 'Weekly timesheet approved successfully');
+  } catch (error) {
+    logger.error('Error in approveWeeklyTimesheet controller', { error });
+    return handleWeeklyTimesheetError(res, error, 'APPROVAL_ERROR', 'Failed to approve weekly timesheet');
+  }
+};
+
+/**
+ * Reject a weekly timesheet back to the employee
+ * PUT /api/v1/weekly-timesheets/:id/reject
+ * Body: { comments }
+ */
+export const rejectWeeklyTimesheet = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return sendError(res, 'AUTH_ERROR', 'User not authenticated', 401);
+    }
+
+    if (!id) {
+      return sendError(res, 'VALIDATION_ERROR', 'Weekly timesheet ID is required', 400);
+    }
+
+    const timesheet = await weeklyTimesheetService.rejectWeeklyTimesheet(id, userId, req.body.comments, req.ip);
+    return sendSuccess(res, timesheet, 'Weekly timesheet rejected successfully');
+  } catch (error) {
+    logger.error('Error in rejectWeeklyTimesheet controller', { error });
+    return handleWeeklyTimesheetError(res, error, 'REJECTION_ERROR', 'Failed to reject weekly timesheet');
+  }
+};
@@ -0,0 +1,378 @@
+/**
+ * Work Order Controller
+ *
+ * API route handlers for service call work orders including:
+ * - Dispatch board listing and work order CRUD
+ * - Status workflow (dispatch, on site, completed, invoiced)
+ * - Customer signature capture
+ */
+
+import { Response } from 'express';
+import { WorkOrderPriority, WorkOrderStatus } from '@prisma/client';
+import {
+  getWorkOrders,
+  getWorkOrderById,
+  createWorkOrder,
+  updateWorkOrder,
+  updateWorkOrderStatus,
+  signWorkOrder,
+  deleteWorkOrder,
+  UpdateWorkOrderData,
+  WorkOrderActor
+} from '../services/work-order.service';
+import { sendSuccess, sendError } from '../utils/response';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middleware/auth.middleware';
+
+/**
+ * Parse an optional date from the request body (null clears the value)
+ */
+const parseOptionalDate = (value: unknown): Date | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  return new Date(String(value));
+};
+
+/**
+ * Build work order data from the request body, only including fields that are provided
+ */
+const parseWorkOrderBody = (body: AuthRequest['body']): UpdateWorkOrderData => {
+  const data: UpdateWorkOrderData = {};
+
+  if (body.client_id !== undefined) data.client_id = body.client_id;
+  if (body.project_id !== undefined) data.project_id = body.project_id || null;
+  if (body.site_address !== undefined) data.site_address = body.site_address;
+  if (body.site_contact_name !== undefined) data.site_contact_name = body.site_contact_name;
+  if (body.site_contact_phone !== undefined) data.site_contact_phone = body.site_contact_phone;
+  if (body.problem_description !== undefined) data.problem_description = body.problem_description;
+  if (body.priority !== undefined) data.priority = body.priority;
+  if (body.assigned_employee_id !== undefined) data.assigned_employee_id = body.assigned_employee_id || null;
+
+  const scheduledStart = parseOptionalDate(body.scheduled_start);
+  if (scheduledStart !== undefined) data.scheduled_start = scheduledStart;
+
+  const scheduledEnd = parseOptionalDate(body.scheduled_end);
+  if (scheduledEnd !== undefined) data.scheduled_end = scheduledEnd;
+
+  if (body.materials_used !== undefined) data.materials_used = body.materials_used;
+  if (body.technician_notes !== undefined) data.technician_notes = body.technician_notes;
+
+  return data;
+};
+
+/**
+ * Get the acting user for technician access checks
+ */
+const getActor = (req: AuthRequest): WorkOrderActor | null =>
+  req.user ? { id: req.user.id, role: req.user.role } : null;
+
+/**
+ * Send an error response for a failed work order request based on the error message
+ */
+const handleWorkOrderError = (res: Response, error: unknown, code: string, fallbackMessage: string): void => {
+  const message = error instanceof Error ? error.message : '';
+
+  if (message.includes('not found')) {
+    sendError(res, 'NOT_FOUND', message, 404);
+  } else if (message.includes('not assigned to you') || message.includes('not allowed')) {
+    sendError(res, 'FORBIDDEN', message, 403);
+  } else if (message.includes('cannot be')) {
+    sendError(res, 'WORK_ORDER_LOCKED', message, 409);
+  } else if (message.includes('Missing required fields') || message.includes('must be')) {
+    sendError(res, 'VALIDATION_ERROR', message, 400);
+  } else {
+    sendError(res, code, fallbackMessage, 500);
+  }
+};
+
+/**
+ * Get work orders for the dispatch board
+ * GET /api/v1/work-orders
+ * Query: status (comma separated), priority, assigned_employee_id, client_id, scheduled_from, scheduled_to, search
+ */
+export const getWorkOrdersController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const actor = getActor(req);
+
+    if (!actor) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    const { status, priority, assigned_employee_id, client_id, scheduled_from, scheduled_to, search } = req.query;
+
+    const statuses = status ? (status as string).split(',').map((value) => value.trim()) : [];
+    if (statuses.some((value) => !Object.values(WorkOrderStatus).includes(value as WorkOrderStatus))) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid work order status', 400);
+      return;
+    }
+
+    if (priority && !Object.values(WorkOrderPriority).includes(priority as WorkOrderPriority)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid work order priority', 400);
+      return;
+    }
+
+    const workOrders = await getWorkOrders(
+      {
+        status: statuses as WorkOrderStatus[],
+        priority: priority ? (priority as WorkOrderPriority) : undefined,
+        assigned_employee_id: assigned_employee_id as string | undefined,
+        client_id: client_id as string | undefined,
+        scheduledFrom: scheduled_from ? new Date(scheduled_from as string) : undefined,
+        scheduledTo: scheduled_to ? new Date(scheduled_to as string) : undefined,
+        search: search as string | undefined
+      },
+      actor
+    );
+
+    sendSuccess(res, workOrders, 'Work orders retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving work orders', {
+      error: message,
+      userId: req.user?.id
+    });
+    handleWorkOrderError(res, error, 'WORK_ORDERS_RETRIEVAL_FAILED', 'Failed to retrieve work orders');
+  }
+};
+
+/**
+ * Get single work order
+ * GET /api/v1/work-orders/:id
+ */
+export const getWorkOrderController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const actor = getActor(req);
+    const { id } = req.params;
+
+    if (!actor) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!id) {
+      sendError(res, 'VALIDATION_ERROR', 'Work order ID is required', 400);
+      return;
+    }
+
+    const workOrder = await getWorkOrderById(id, actor);
+
+    sendSuccess(res, workOrder, 'Work order retrieved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error retrieving work order', {
+      error: message,
+      userId: req.user?.id,
+      workOrderId: req.params.id
+    });
+    handleWorkOrderError(res, error, 'WORK_ORDER_RETRIEVAL_FAILED', 'Failed to retrieve work order');
+  }
+};
+
+/**
+ * Create work order
+ * POST /api/v1/work-orders
+ */
+export const createWorkOrderController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const actor = getActor(req);
+
+    if (!actor) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    const data = parseWorkOrderBody(req.body);
+
+    if (!data.client_id || !data.site_address || !data.problem_description) {
+      sendError(
+        res,
+        'MISSING_REQUIRED_FIELDS',
+        'Missing required fields: client_id, site_address, problem_description',
+        400
+      );
+      return;
+    }
+
+    if (data.priority && !Object.values(WorkOrderPriority).includes(data.priority)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid work order priority', 400);
+      return;
+    }
+
+    const workOrder = await createWorkOrder(
+      {
+        ...data,
+        client_id: data.client_id,
+        site_address: data.site_address,
+        problem_description: data.problem_description
+      },
+      actor,
+      req.ip
+    );
+
+    sendSuccess(res, workOrder, 'Work order created successfully', 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error creating work order', {
+      error: message,
+      userId: req.user?.id,
+      body: req.body
+    });
+    handleWorkOrderError(res, error, 'WORK_ORDER_CREATION_FAILED', 'Failed to create work order');
+  }
+};
+
+/**
+ * Update work order (technicians may only update materials and notes)
+ * PUT /api/v1/work-orders/:id
+ */
+export const updateWorkOrderController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const actor = getActor(req);
+    const { id } = req.params;
+
+    if (!actor) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!id) {
+      sendError(res, 'VALIDATION_ERROR', 'Work order ID is required', 400);
+      return;
+    }
+
+    const data = parseWorkOrderBody(req.body);
+
+    if (data.priority && !Object.values(WorkOrderPriority).includes(data.priority)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid work order priority', 400);
+      return;
+    }
+
+    const workOrder = await updateWorkOrder(id, data, actor, req.ip);
+
+    sendSuccess(res, workOrder, 'Work order updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating work order', {
+      error: message,
+      userId: req.user?.id,
+      workOrderId: req.params.id,
+      body: req.body
+    });
+    handleWorkOrderError(res, error, 'WORK_ORDER_UPDATE_FAILED', 'Failed to update work order');
+  }
+};
+
+/**
+ * Move work order through the dispatch workflow
+ * PATCH /api/v1/work-orders/:id/status
+ * Body: { status: 'OPEN' | 'DISPATCHED' | 'ON_SITE' | 'COMPLETED' | 'INVOICED' }
+ */
+export const updateWorkOrderStatusController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const actor = getActor(req);
+    const { id } = req.params;
+    const { status } = req.body;
+
+    if (!actor) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!id) {
+      sendError(res, 'VALIDATION_ERROR', 'Work order ID is required', 400);
+      return;
+    }
+
+    if (!status || !Object.values(WorkOrderStatus).includes(status)) {
+      sendError(res, 'VALIDATION_ERROR', 'Invalid work order status', 400);
+      return;
+    }
+
+    const workOrder = await updateWorkOrderStatus(id, status, actor, req.ip);
+
+    sendSuccess(res, workOrder, 'Work order status updated successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error updating work order status', {
+      error: message,
+      userId: req.user?.id,
+      workOrderId: req.params.id,
+      body: req.body
+    });
+    handleWorkOrderError(res, error, 'WORK_ORDER_STATUS_UPDATE_FAILED', 'Failed to update work order status');
+  }
+};
+
+/**
+ * Capture customer signature
+ * PUT /api/v1/work-orders/:id/signature
+ * Body: { signature: PNG data URL, signed_by_name }
+ */
+export const signWorkOrderController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const actor = getActor(req);
+    const { id } = req.params;
+    const { signature, signed_by_name } = req.body;
+
+    if (!actor) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!id) {
+      sendError(res, 'VALIDATION_ERROR', 'Work order ID is required', 400);
+      return;
+    }
+
+    if (!signature || !signed_by_name) {
+      sendError(res, 'MISSING_REQUIRED_FIELDS', 'Missing required fields: signature, signed_by_name', 400);
+      return;
+    }
+
+    const workOrder = await signWorkOrder(id, { signature, signed_by_name }, actor, req.ip);
+
+    sendSuccess(res, workOrder, 'Customer signature saved successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error saving work order signature', {
+      error: message,
+      userId: req.user?.id,
+      workOrderId: req.params.id
+    });
+    handleWorkOrderError(res, error, 'WORK_ORDER_SIGNATURE_FAILED', 'Failed to save customer signature');
+  }
+};
+
+/**
+ * Delete work order
+ * DELETE /api/v1/work-orders/:id
+ */
+export const deleteWorkOrderController = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const actor = getActor(req);
+    const { id } = req.params;
+
+    if (!actor) {
+      sendError(res, 'UNAUTHORIZED', 'User authentication required', 401);
+      return;
+    }
+
+    if (!id) {
+      sendError(res, 'VALIDATION_ERROR', 'Work order ID is required', 400);
+      return;
+    }
+
+    await deleteWorkOrder(id, actor, req.ip);
+
+    sendSuccess(res, null, 'Work order deleted successfully');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error deleting work order', {
+      error: message,
+      userId: req.user?.id,
+      workOrderId: req.params.id
+    });
+    handleWorkOrderError(res, error, 'WORK_ORDER_DELETION_FAILED', 'Failed to delete work order');
+  }
+};
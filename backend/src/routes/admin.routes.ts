@@ -7,7 +7,8 @@ import {
   getUserByIdController,
   updateUserController,
   deleteUserController,
-  resetUserPasswordController
+  resetUserPasswordController,
+  getAuditLogsController
 } from '../controllers/admin.controller';
 import { logger } from '../utils/logger';
 
@@ -27,6 +28,7 @@ const router = Router();
  * PUT    /api/v1/admin/users/:id      - Update user
  * DELETE /api/v1/admin/users/:id      - Delete user
  * POST   /api/v1/admin/users/:id/reset-password - Reset password
+ * GET    /api/v1/admin/audit-logs     - List audit log entries (filterable)
  */
 
 // Apply authentication and SUPER_ADMIN authorization to all admin routes
@@ -41,6 +43,9 @@ router.put('/users/:id', updateUserController);
 router.delete('/users/:id', deleteUserController);
 router.post('/users/:id/reset-password', resetUserPasswordController);
 
+// Audit Log Routes
+router.get('/audit-logs', getAuditLogsController);
+
 // Log admin route access
 router.use((req, _res, next) => {
   logger.info('Admin route accessed', {
@@ -0,0 +1,34 @@
+import express from 'express';
+import {
+  getWorkCategories,
+  createWorkCategory,
+  updateWorkCategory,
+  deleteWorkCategory,
+  getApprenticeProgress,
+  getRatioCheck,
+} from '../controllers/apprenticeship.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Foremen and above track apprentices and site ratios
+const reportRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR'];
+
+// Only admins configure the apprenticeship program's work categories
+const programAdminRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+// OJT work categories (foremen need the list to tag apprentice time)
+router.get('/categories', authorizeRoles(reportRoles), getWorkCategories);
+router.post('/categories', authorizeRoles(programAdminRoles), createWorkCategory);
+router.put('/categories/:id', authorizeRoles(programAdminRoles), updateWorkCategory);
+router.delete('/categories/:id', authorizeRoles(programAdminRoles), deleteWorkCategory);
+
+// Reports
+router.get('/progress', authorizeRoles(reportRoles), getApprenticeProgress);
+router.get('/ratio-check', authorizeRoles(reportRoles), getRatioCheck);
+
+export default router;
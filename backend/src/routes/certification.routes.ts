@@ -0,0 +1,85 @@
+/**
+ * Certification Routes
+ *
+ * API routes for employee certifications including:
+ * - CRUD operations for an employee's licenses and safety cards
+ * - Expiring-soon report
+ * - Sign-in warnings for missing or expired required certifications
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+import {
+  getExpiringCertificationsController,
+  getSignInCertificationAlertsController,
+  getEmployeeCertificationsController,
+  createCertificationController,
+  updateCertificationController,
+  deleteCertificationController
+} from '../controllers/certification.controller';
+
+const router = Router();
+
+// Same roles as the employee directory
+const readRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR'];
+const writeRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+/**
+ * @route GET /api/v1/employees/certifications/expiring
+ * @desc Get certifications expiring within ?days (default 60) or already expired
+ * @access Private (foremen and above)
+ */
+router.get('/certifications/expiring', authenticate, authorizeRoles(readRoles), getExpiringCertificationsController);
+
+/**
+ * @route GET /api/v1/employees/certifications/sign-in-alerts
+ * @desc Get signed-in workers missing a required certification for their job
+ * @access Private (foremen and above)
+ */
+router.get(
+  '/certifications/sign-in-alerts',
+  authenticate,
+  authorizeRoles(readRoles),
+  getSignInCertificationAlertsController
+);
+
+/**
+ * @route GET /api/v1/employees/:employeeId/certifications
+ * @desc Get an employee's certifications
+ * @access Private (foremen and above)
+ */
+router.get('/:employeeId/certifications', authenticate, authorizeRoles(readRoles), getEmployeeCertificationsController);
+
+/**
+ * @route POST /api/v1/employees/:employeeId/certifications
+ * @desc Add a certification to an employee
+ * @access Private (office admin and above)
+ */
+router.post('/:employeeId/certifications', authenticate, authorizeRoles(writeRoles), createCertificationController);
+
+/**
+ * @route PUT /api/v1/employees/:employeeId/certifications/:certificationId
+ * @desc Update or renew a certification
+ * @access Private (office admin and above)
+ */
+router.put(
+  '/:employeeId/certifications/:certificationId',
+  authenticate,
+  authorizeRoles(writeRoles),
+  updateCertificationController
+);
+
+/**
+ * @route DELETE /api/v1/employees/:employeeId/certifications/:certificationId
+ * @desc Delete a certification
+ * @access Private (office admin and above)
+ */
+router.delete(
+  '/:employeeId/certifications/:certificationId',
+  authenticate,
+  authorizeRoles(writeRoles),
+  deleteCertificationController
+);
+
+export default router;
@@ -0,0 +1,97 @@
+/**
+ * Change Order Routes
+ *
+ * API routes for change orders on a project including:
+ * - CRUD operations for change orders
+ * - Status workflow (submit, approve, reject, recall)
+ * - Change order log PDF
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+import {
+  getProjectChangeOrdersController,
+  getChangeOrderLogPDFController,
+  getChangeOrderController,
+  createChangeOrderController,
+  updateChangeOrderController,
+  updateChangeOrderStatusController,
+  deleteChangeOrderController
+} from '../controllers/change-order.controller';
+
+const router = Router();
+
+// Roles that write and move change orders through the workflow
+const changeOrderEditors = ['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+
+/**
+ * @route GET /api/v1/projects/:projectId/change-orders
+ * @desc Get change orders for a project
+ * @access Private (authenticated users)
+ */
+router.get('/:projectId/change-orders', authenticate, getProjectChangeOrdersController);
+
+/**
+ * @route GET /api/v1/projects/:projectId/change-orders/log/pdf
+ * @desc Download the change order log as a PDF
+ * @access Private (authenticated users)
+ */
+router.get('/:projectId/change-orders/log/pdf', authenticate, getChangeOrderLogPDFController);
+
+/**
+ * @route GET /api/v1/projects/:projectId/change-orders/:changeOrderId
+ * @desc Get single change order
+ * @access Private (authenticated users)
+ */
+router.get('/:projectId/change-orders/:changeOrderId', authenticate, getChangeOrderController);
+
+/**
+ * @route POST /api/v1/projects/:projectId/change-orders
+ * @desc Create change order (draft)
+ * @access Private (project managers and above)
+ */
+router.post(
+  '/:projectId/change-orders',
+  authenticate,
+  authorizeRoles(changeOrderEditors),
+  createChangeOrderController
+);
+
+/**
+ * @route PUT /api/v1/projects/:projectId/change-orders/:changeOrderId
+ * @desc Update draft or rejected change order
+ * @access Private (project managers and above)
+ */
+router.put(
+  '/:projectId/change-orders/:changeOrderId',
+  authenticate,
+  authorizeRoles(changeOrderEditors),
+  updateChangeOrderController
+);
+
+/**
+ * @route PATCH /api/v1/projects/:projectId/change-orders/:changeOrderId/status
+ * @desc Submit, approve, reject or recall change order
+ * @access Private (project managers and above)
+ */
+router.patch(
+  '/:projectId/change-orders/:changeOrderId/status',
+  authenticate,
+  authorizeRoles(changeOrderEditors),
+  updateChangeOrderStatusController
+);
+
+/**
+ * @route DELETE /api/v1/projects/:projectId/change-orders/:changeOrderId
+ * @desc Delete draft or rejected change order
+ * @access Private (project managers and above)
+ */
+router.delete(
+  '/:projectId/change-orders/:changeOrderId',
+  authenticate,
+  authorizeRoles(changeOrderEditors),
+  deleteChangeOrderController
+);
+
+export default router;
@@ -0,0 +1,36 @@
+import express from 'express';
+import {
+  getCostCodes,
+  createCostCode,
+  updateCostCode,
+  deleteCostCode,
+  getProjectCostCodes,
+  setProjectCostCode,
+  removeProjectCostCode,
+} from '../controllers/cost-code.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Only admins maintain the company cost code catalog
+const catalogAdminRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+// Project managers enable codes on their projects and set budgets
+const projectBudgetRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER'];
+
+// Cost code catalog (everyone charging time or expenses needs the list)
+router.get('/', getCostCodes);
+router.post('/', authorizeRoles(catalogAdminRoles), createCostCode);
+router.put('/:id', authorizeRoles(catalogAdminRoles), updateCostCode);
+router.delete('/:id', authorizeRoles(catalogAdminRoles), deleteCostCode);
+
+// Cost codes enabled on a project, with budgets
+router.get('/projects/:projectId', getProjectCostCodes);
+router.put('/projects/:projectId/:costCodeId', authorizeRoles(projectBudgetRoles), setProjectCostCode);
+router.delete('/projects/:projectId/:costCodeId', authorizeRoles(projectBudgetRoles), removeProjectCostCode);
+
+export default router;
@@ -0,0 +1,67 @@
+/**
+ * Crew Schedule Routes
+ *
+ * API routes for crew scheduling including:
+ * - Week calendar of crew assignments with conflicts
+ * - Assign, move and remove crew members
+ * - Sign-in sheet prefill from the day's schedule
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+import {
+  getCrewScheduleController,
+  getSignInPrefillController,
+  createCrewAssignmentController,
+  updateCrewAssignmentController,
+  deleteCrewAssignmentController
+} from '../controllers/crew-schedule.controller';
+
+const router = Router();
+
+// All crew schedule routes require authentication
+router.use(authenticate);
+
+// Foremen and above plan crews (same roles that run the sign-in sheet)
+const scheduleRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR'];
+
+// Field workers can see where they are scheduled
+const readRoles = [...scheduleRoles, 'FIELD_WORKER'];
+
+/**
+ * @route GET /api/v1/crew-schedule
+ * @desc Get crew assignments for a date range
+ * @access Private (all field and office roles)
+ */
+router.get('/', authorizeRoles(readRoles), getCrewScheduleController);
+
+/**
+ * @route GET /api/v1/crew-schedule/sign-in-prefill
+ * @desc Get the day's crews grouped by project for the sign-in sheet
+ * @access Private (foremen and above)
+ */
+router.get('/sign-in-prefill', authorizeRoles(scheduleRoles), getSignInPrefillController);
+
+/**
+ * @route POST /api/v1/crew-schedule
+ * @desc Assign an employee to a project for a day
+ * @access Private (foremen and above)
+ */
+router.post('/', authorizeRoles(scheduleRoles), createCrewAssignmentController);
+
+/**
+ * @route PUT /api/v1/crew-schedule/:id
+ * @desc Update or move a crew assignment
+ * @access Private (foremen and above)
+ */
+router.put('/:id', authorizeRoles(scheduleRoles), updateCrewAssignmentController);
+
+/**
+ * @route DELETE /api/v1/crew-schedule/:id
+ * @desc Remove a crew assignment
+ * @access Private (foremen and above)
+ */
+router.delete('/:id', authorizeRoles(scheduleRoles), deleteCrewAssignmentController);
+
+export default router;
@@ -7,17 +7,25 @@
  * API Structure:
  * - /api/v1/auth         - Authentication (login, register, refresh)
  * - /api/v1/users        - User management
- * - /api/v1/projects     - Project management
+ * - /api/v1/projects     - Project management (including expenses, change orders and invoices)
  * - /api/v1/clients      - Client management
  * - /api/v1/files        - File upload/download
  * - /api/v1/documents    - Document management
  * - /api/v1/photos       - Photo management
  * - /api/v1/daily-logs   - Daily logs
  * - /api/v1/quotes       - Quote/bid management
- * - /api/v1/employees    - Employee directory
+ * - /api/v1/price-book   - Price book items and assemblies
+ * - /api/v1/employees    - Employee directory (including certifications and pay rates)
  * - /api/v1/sign-ins     - Daily sign-in/sign-out
  * - /api/v1/time-entries - Project time allocation
  * - /api/v1/payroll      - Payroll reports and exports
+ * - /api/v1/apprenticeship - Apprentice OJT hours and ratio checks
+ * - /api/v1/cost-codes - Cost code catalog and per-project cost code budgets
+ * - /api/v1/union-locals - Union locals, wage/fringe packages and fringe remittances
+ * - /api/v1/time-clock - Employee self-service punches and time clock policies
+ * - /api/v1/weekly-timesheets - Weekly timesheet roll-up and approval
+ * - /api/v1/work-orders  - Service call work orders and dispatch
+ * - /api/v1/crew-schedule - Crew scheduling calendar
  * 
  * Export pattern:
  * export { authRoutes } from './auth.routes';
@@ -44,22 +52,38 @@ import authRoutes from './auth.routes';
 import adminRoutes from './admin.routes';
 import healthRoutes from './health.routes';
 import projectRoutes from './project.routes';
+import projectExpenseRoutes from './project-expense.routes';
+import changeOrderRoutes from './change-order.routes';
+import invoiceRoutes from './invoice.routes';
 import clientRoutes from './client.routes';
 import clientContactRoutes from './client-contact.routes';
 import clientProjectRoutes from './client-project.routes';
 import fileRoutes from './file.routes';
 import dailyLogRoutes from './daily-log.routes';
 import quoteRoutes from './quote.routes';
+import priceBookRoutes from './price-book.routes';
 import employeeRoutes from './employee.routes';
+import certificationRoutes from './certification.routes';
+import payRateRoutes from './pay-rate.routes';
 import signInRoutes from './signin.routes';
 import timeEntryRoutes from './timeentry.routes';
 import payrollRoutes from './payroll.routes';
+import apprenticeshipRoutes from './apprenticeship.routes';
+import costCodeRoutes from './cost-code.routes';
+import unionRoutes from './union.routes';
+import timeClockRoutes from './timeclock.routes';
 import timesheetRoutes from './timesheet.routes';
+import weeklyTimesheetRoutes from './weekly-timesheet.routes';
+import workOrderRoutes from './work-order.routes';
+import crewScheduleRoutes from './crew-schedule.routes';
 
 // Mount route modules
 router.use('/auth', authRoutes);
 router.use('/admin', adminRoutes);
 router.use('/health', healthRoutes);
+router.use('/projects', projectExpenseRoutes);
+router.use('/projects', changeOrderRoutes);
+router.use('/projects', invoiceRoutes);
 router.use('/projects', projectRoutes);
 router.use('/clients', clientRoutes);
 router.use('/clients', clientContactRoutes);
@@ -67,11 +91,21 @@ router.use('/clients', clientProjectRoutes);
 router.use('/files', fileRoutes);
 router.use('/daily-logs', dailyLogRoutes);
 router.use('/quotes', quoteRoutes);
+router.use('/price-book', priceBookRoutes);
+router.use('/employees', certificationRoutes);
+router.use('/employees', payRateRoutes);
 router.use('/employees', employeeRoutes);
 router.use('/sign-ins', signInRoutes);
 router.use('/time-entries', timeEntryRoutes);
 router.use('/payroll', payrollRoutes);
+router.use('/apprenticeship', apprenticeshipRoutes);
+router.use('/cost-codes', costCodeRoutes);
+router.use('/union-locals', unionRoutes);
+router.use('/time-clock', timeClockRoutes);
 router.use('/timesheets', timesheetRoutes);
+router.use('/weekly-timesheets', weeklyTimesheetRoutes);
+router.use('/work-orders', workOrderRoutes);
+router.use('/crew-schedule', crewScheduleRoutes);
 
 // Additional route modules will be added here as they are created
 // Example:
@@ -0,0 +1,92 @@
+/**
+ * Invoice Routes
+ *
+ * API routes for invoices on a project including:
+ * - Progress pay applications (lump sum) and T&M invoices
+ * - Status workflow (draft, sent, paid)
+ * - Invoice PDF
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+import {
+  getProjectInvoicesController,
+  getInvoiceController,
+  getInvoicePDFController,
+  createInvoiceController,
+  updateInvoiceController,
+  updateInvoiceStatusController,
+  deleteInvoiceController
+} from '../controllers/invoice.controller';
+
+const router = Router();
+
+// Roles that prepare and send invoices
+const billingRoles = ['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+
+/**
+ * @route GET /api/v1/projects/:projectId/invoices
+ * @desc Get invoices for a project
+ * @access Private (project managers and above)
+ */
+router.get('/:projectId/invoices', authenticate, authorizeRoles(billingRoles), getProjectInvoicesController);
+
+/**
+ * @route GET /api/v1/projects/:projectId/invoices/:invoiceId
+ * @desc Get single invoice
+ * @access Private (project managers and above)
+ */
+router.get('/:projectId/invoices/:invoiceId', authenticate, authorizeRoles(billingRoles), getInvoiceController);
+
+/**
+ * @route GET /api/v1/projects/:projectId/invoices/:invoiceId/pdf
+ * @desc Download invoice or pay application as a PDF
+ * @access Private (project managers and above)
+ */
+router.get(
+  '/:projectId/invoices/:invoiceId/pdf',
+  authenticate,
+  authorizeRoles(billingRoles),
+  getInvoicePDFController
+);
+
+/**
+ * @route POST /api/v1/projects/:projectId/invoices
+ * @desc Create draft invoice from the schedule of values or approved time and expenses
+ * @access Private (project managers and above)
+ */
+router.post('/:projectId/invoices', authenticate, authorizeRoles(billingRoles), createInvoiceController);
+
+/**
+ * @route PUT /api/v1/projects/:projectId/invoices/:invoiceId
+ * @desc Update draft invoice and rebuild its lines
+ * @access Private (project managers and above)
+ */
+router.put('/:projectId/invoices/:invoiceId', authenticate, authorizeRoles(billingRoles), updateInvoiceController);
+
+/**
+ * @route PATCH /api/v1/projects/:projectId/invoices/:invoiceId/status
+ * @desc Mark invoice sent or paid, or return it to draft / sent
+ * @access Private (project managers and above)
+ */
+router.patch(
+  '/:projectId/invoices/:invoiceId/status',
+  authenticate,
+  authorizeRoles(billingRoles),
+  updateInvoiceStatusController
+);
+
+/**
+ * @route DELETE /api/v1/projects/:projectId/invoices/:invoiceId
+ * @desc Delete draft invoice
+ * @access Private (project managers and above)
+ */
+router.delete(
+  '/:projectId/invoices/:invoiceId',
+  authenticate,
+  authorizeRoles(billingRoles),
+  deleteInvoiceController
+);
+
+export default router;
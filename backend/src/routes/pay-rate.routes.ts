@@ -0,0 +1,61 @@
+/**
+ * Pay Rate Routes
+ *
+ * API routes for employee pay rate history including:
+ * - CRUD operations for an employee's effective-dated wage and labor burden
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+import {
+  getEmployeePayRatesController,
+  createPayRateController,
+  updatePayRateController,
+  deletePayRateController
+} from '../controllers/pay-rate.controller';
+
+const router = Router();
+
+// Wages are limited to the office
+const payRateRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+/**
+ * @route GET /api/v1/employees/:employeeId/pay-rates
+ * @desc Get an employee's pay rate history, most recent first
+ * @access Private (office admin and above)
+ */
+router.get('/:employeeId/pay-rates', authenticate, authorizeRoles(payRateRoles), getEmployeePayRatesController);
+
+/**
+ * @route POST /api/v1/employees/:employeeId/pay-rates
+ * @desc Add a pay rate effective on a date
+ * @access Private (office admin and above)
+ */
+router.post('/:employeeId/pay-rates', authenticate, authorizeRoles(payRateRoles), createPayRateController);
+
+/**
+ * @route PUT /api/v1/employees/:employeeId/pay-rates/:payRateId
+ * @desc Correct a pay rate
+ * @access Private (office admin and above)
+ */
+router.put(
+  '/:employeeId/pay-rates/:payRateId',
+  authenticate,
+  authorizeRoles(payRateRoles),
+  updatePayRateController
+);
+
+/**
+ * @route DELETE /api/v1/employees/:employeeId/pay-rates/:payRateId
+ * @desc Delete a pay rate entered in error
+ * @access Private (office admin and above)
+ */
+router.delete(
+  '/:employeeId/pay-rates/:payRateId',
+  authenticate,
+  authorizeRoles(payRateRoles),
+  deletePayRateController
+);
+
+export default router;
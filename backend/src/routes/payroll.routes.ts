@@ -6,7 +6,33 @@ import {
   getPayrollSummary,
   downloadDailyCSV,
   downloadWeeklyCSV,
+  getPayrollExportFormats,
+  downloadPayrollExport,
 } from '../controllers/payroll.controller';
+import {
+  getOvertimePolicies,
+  createOvertimePolicy,
+  updateOvertimePolicy,
+  deleteOvertimePolicy,
+} from '../controllers/overtime.controller';
+import {
+  getCertifiedPayroll,
+  downloadCertifiedPayrollPDF,
+  downloadCertifiedPayrollCSV,
+  getProjectWageRates,
+  createProjectWageRate,
+  updateProjectWageRate,
+  deleteProjectWageRate,
+} from '../controllers/certified-payroll.controller';
+import {
+  getPayrollPeriods,
+  getPayrollPeriodById,
+  createPayrollPeriod,
+  deletePayrollPeriod,
+  closePayrollPeriod,
+  reopenPayrollPeriod,
+  comparePayrollPeriod,
+} from '../controllers/payroll-period.controller';
 import { authenticate } from '../middleware/auth.middleware';
 import { authorizeRoles } from '../middleware/authorization.middleware';
 
@@ -18,6 +44,8 @@ router.use(authenticate);
 // Define allowed roles for payroll operations
 // Only managers and admins can access payroll reports
 const payrollRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER'];
+// Only admins can change overtime rules and wage rates, and close or reopen payroll periods
+const policyAdminRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
 
 // Report routes
 router.get('/daily', authorizeRoles(payrollRoles), getDailyReport);
@@ -33,5 +61,40 @@ router.get(
 router.get('/export/daily', authorizeRoles(payrollRoles), downloadDailyCSV);
 router.get('/export/weekly', authorizeRoles(payrollRoles), downloadWeeklyCSV);
 
-export default router;
+// Payroll system export routes (QuickBooks, ADP, Gusto)
+router.get('/export/formats', authorizeRoles(payrollRoles), getPayrollExportFormats);
+router.get('/export/system/:format', authorizeRoles(payrollRoles), downloadPayrollExport);
+
+// Overtime policy routes
+router.get('/overtime-policies', authorizeRoles(payrollRoles), getOvertimePolicies);
+router.post('/overtime-policies', authorizeRoles(policyAdminRoles), createOvertimePolicy);
+router.put('/overtime-policies/:id', authorizeRoles(policyAdminRoles), updateOvertimePolicy);
+router.delete('/overtime-policies/:id', authorizeRoles(policyAdminRoles), deleteOvertimePolicy);
+
+// Certified payroll (prevailing wage) routes
+router.get('/certified/:projectId', authorizeRoles(payrollRoles), getCertifiedPayroll);
+router.get(
+  '/export/certified/:projectId/pdf',
+  authorizeRoles(payrollRoles),
+  downloadCertifiedPayrollPDF
+);
+router.get(
+  '/export/certified/:projectId/csv',
+  authorizeRoles(payrollRoles),
+  downloadCertifiedPayrollCSV
+);
+router.get('/wage-rates', authorizeRoles(payrollRoles), getProjectWageRates);
+router.post('/wage-rates', authorizeRoles(policyAdminRoles), createProjectWageRate);
+router.put('/wage-rates/:id', authorizeRoles(policyAdminRoles), updateProjectWageRate);
+router.delete('/wage-rates/:id', authorizeRoles(policyAdminRoles), deleteProjectWageRate);
+
+// Payroll period routes (closing a period locks its time)
+router.get('/periods', authorizeRoles(payrollRoles), getPayrollPeriods);
+router.post('/periods', authorizeRoles(policyAdminRoles), createPayrollPeriod);
+router.get('/periods/:id/comparison', authorizeRoles(payrollRoles), comparePayrollPeriod);
+router.get('/periods/:id', authorizeRoles(payrollRoles), getPayrollPeriodById);
+router.put('/periods/:id/close', authorizeRoles(policyAdminRoles), closePayrollPeriod);
+router.put('/periods/:id/reopen', authorizeRoles(policyAdminRoles), reopenPayrollPeriod);
+router.delete('/periods/:id', authorizeRoles(policyAdminRoles), deletePayrollPeriod);
 
+export default router;
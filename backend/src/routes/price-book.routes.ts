@@ -0,0 +1,101 @@
+/**
+ * Price Book Routes
+ *
+ * Defines API endpoints for the materials/labor price book and assemblies
+ * used when building quote line items.
+ */
+
+import { Router } from 'express';
+import { authenticate, authorizeRoles } from '../middleware/auth.middleware';
+import {
+  listPriceBookItemsHandler,
+  createPriceBookItemHandler,
+  updatePriceBookItemHandler,
+  deletePriceBookItemHandler,
+  listAssembliesHandler,
+  getAssemblyByIdHandler,
+  createAssemblyHandler,
+  updateAssemblyHandler,
+  deleteAssemblyHandler,
+  expandAssemblyHandler
+} from '../controllers/price-book.controller';
+
+const router = Router();
+
+// All price book routes require authentication
+router.use(authenticate);
+
+// Roles that maintain the price book (same as quote editors)
+const priceBookEditors = ['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+
+/**
+ * @route   GET /api/v1/price-book/items
+ * @desc    List/search price book items
+ * @access  Private (All authenticated users)
+ */
+router.get('/items', listPriceBookItemsHandler);
+
+/**
+ * @route   POST /api/v1/price-book/items
+ * @desc    Create price book item
+ * @access  Private (PROJECT_MANAGER, OFFICE_ADMIN, SUPER_ADMIN)
+ */
+router.post('/items', authorizeRoles(priceBookEditors), createPriceBookItemHandler);
+
+/**
+ * @route   PUT /api/v1/price-book/items/:id
+ * @desc    Update price book item
+ * @access  Private (PROJECT_MANAGER, OFFICE_ADMIN, SUPER_ADMIN)
+ */
+router.put('/items/:id', authorizeRoles(priceBookEditors), updatePriceBookItemHandler);
+
+/**
+ * @route   DELETE /api/v1/price-book/items/:id
+ * @desc    Delete price book item
+ * @access  Private (PROJECT_MANAGER, OFFICE_ADMIN, SUPER_ADMIN)
+ */
+router.delete('/items/:id', authorizeRoles(priceBookEditors), deletePriceBookItemHandler);
+
+/**
+ * @route   GET /api/v1/price-book/assemblies
+ * @desc    List/search assemblies
+ * @access  Private (All authenticated users)
+ */
+router.get('/assemblies', listAssembliesHandler);
+
+/**
+ * @route   GET /api/v1/price-book/assemblies/:id
+ * @desc    Get assembly by ID
+ * @access  Private (All authenticated users)
+ */
+router.get('/assemblies/:id', getAssemblyByIdHandler);
+
+/**
+ * @route   POST /api/v1/price-book/assemblies
+ * @desc    Create assembly
+ * @access  Private (PROJECT_MANAGER, OFFICE_ADMIN, SUPER_ADMIN)
+ */
+router.post('/assemblies', authorizeRoles(priceBookEditors), createAssemblyHandler);
+
+/**
+ * @route   POST /api/v1/price-book/assemblies/:id/expand
+ * @desc    Expand assembly into quote line items at current prices
+ * @access  Private (All authenticated users)
+ */
+router.post('/assemblies/:id/expand', expandAssemblyHandler);
+
+/**
+ * @route   PUT /api/v1/price-book/assemblies/:id
+ * @desc    Update assembly
+ * @access  Private (PROJECT_MANAGER, OFFICE_ADMIN, SUPER_ADMIN)
+ */
+router.put('/assemblies/:id', authorizeRoles(priceBookEditors), updateAssemblyHandler);
+
+/**
+ * @route   DELETE /api/v1/price-book/assemblies/:id
+ * @desc    Delete assembly
+ * @access  Private (PROJECT_MANAGER, OFFICE_ADMIN, SUPER_ADMIN)
+ */
+router.delete('/assemblies/:id', authorizeRoles(priceBookEditors), deleteAssemblyHandler);
+
+export default router;
@@ -0,0 +1,95 @@
+/**
+ * Project Expense Routes
+ *
+ * API routes for expenses on a project including:
+ * - CRUD operations for project expenses
+ * - Approval workflow
+ * - CSV export
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+import {
+  getProjectExpensesController,
+  exportProjectExpensesController,
+  getProjectExpenseController,
+  createProjectExpenseController,
+  updateProjectExpenseController,
+  updateProjectExpenseStatusController,
+  deleteProjectExpenseController
+} from '../controllers/project-expense.controller';
+
+const router = Router();
+
+// Roles that record expenses on a project
+const expenseEditors = ['PROJECT_MANAGER', 'FIELD_SUPERVISOR', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+
+// Roles that approve or reject expenses
+const expenseApprovers = ['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+
+/**
+ * @route GET /api/v1/projects/:projectId/expenses
+ * @desc Get expenses for a project with optional filters
+ * @access Private (authenticated users)
+ */
+router.get('/:projectId/expenses', authenticate, getProjectExpensesController);
+
+/**
+ * @route GET /api/v1/projects/:projectId/expenses/export
+ * @desc Export project expenses as CSV
+ * @access Private (authenticated users)
+ */
+router.get('/:projectId/expenses/export', authenticate, exportProjectExpensesController);
+
+/**
+ * @route GET /api/v1/projects/:projectId/expenses/:expenseId
+ * @desc Get single project expense
+ * @access Private (authenticated users)
+ */
+router.get('/:projectId/expenses/:expenseId', authenticate, getProjectExpenseController);
+
+/**
+ * @route POST /api/v1/projects/:projectId/expenses
+ * @desc Create project expense
+ * @access Private (field supervisors and above)
+ */
+router.post('/:projectId/expenses', authenticate, authorizeRoles(expenseEditors), createProjectExpenseController);
+
+/**
+ * @route PUT /api/v1/projects/:projectId/expenses/:expenseId
+ * @desc Update project expense
+ * @access Private (field supervisors and above)
+ */
+router.put(
+  '/:projectId/expenses/:expenseId',
+  authenticate,
+  authorizeRoles(expenseEditors),
+  updateProjectExpenseController
+);
+
+/**
+ * @route PATCH /api/v1/projects/:projectId/expenses/:expenseId/status
+ * @desc Approve, reject or reopen project expense
+ * @access Private (project managers and above)
+ */
+router.patch(
+  '/:projectId/expenses/:expenseId/status',
+  authenticate,
+  authorizeRoles(expenseApprovers),
+  updateProjectExpenseStatusController
+);
+
+/**
+ * @route DELETE /api/v1/projects/:projectId/expenses/:expenseId
+ * @desc Delete project expense
+ * @access Private (field supervisors and above)
+ */
+router.delete(
+  '/:projectId/expenses/:expenseId',
+  authenticate,
+  authorizeRoles(expenseEditors),
+  deleteProjectExpenseController
+);
+
+export default router;
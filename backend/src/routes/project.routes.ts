@@ -7,7 +7,10 @@ import {
   deleteProjectController,
   assignProjectMember,
   removeProjectMember,
-  getProjectMembersController
+  getProjectMembersController,
+  getProjectJobCostController,
+  recalculateProjectActualCostController,
+  updateProjectProgressController
 } from '../controllers/project.controller';
 import { authenticate } from '../middleware/auth.middleware';
 import { authorizeRoles } from '../middleware/authorization.middleware';
@@ -105,4 +108,33 @@ router.delete(
  */
 router.get('/:id/members', getProjectMembersController);
 
+/**
+ * GET /api/v1/projects/:id/job-cost
+ * Get budget vs actual vs committed cost by cost code with earned value
+ * Access: Authenticated users
+ */
+router.get('/:id/job-cost', getProjectJobCostController);
+
+/**
+ * POST /api/v1/projects/:id/job-cost/recalculate
+ * Store the computed actual cost on the project
+ * Access: Authenticated users with PROJECT_MANAGER role or higher
+ */
+router.post(
+  '/:id/job-cost/recalculate',
+  authorizeRoles(['PROJECT_MANAGER', 'SUPER_ADMIN']),
+  recalculateProjectActualCostController
+);
+
+/**
+ * PUT /api/v1/projects/:id/progress
+ * Update percent complete for the project and its budget items
+ * Access: Authenticated users with PROJECT_MANAGER role or higher
+ */
+router.put(
+  '/:id/progress',
+  authorizeRoles(['PROJECT_MANAGER', 'SUPER_ADMIN']),
+  updateProjectProgressController
+);
+
 export default router;
@@ -16,7 +16,14 @@ import {
   updateQuoteStatusHandler,
   deleteQuoteHandler,
   getQuoteStatsHandler,
-  duplicateQuoteHandler
+  duplicateQuoteHandler,
+  convertQuoteToProjectHandler,
+  exportQuotePDFHandler,
+  listQuoteRevisionsHandler,
+  compareQuoteRevisionsHandler,
+  getQuoteRevisionHandler,
+  createQuoteRevisionHandler,
+  acceptQuoteRevisionHandler
 } from '../controllers/quote.controller';
 
 const router = Router();
@@ -56,6 +63,34 @@ router.get('/stats', getQuoteStatsHandler);
  */
 router.get('/number/:quoteNumber', getQuoteByNumberHandler);
 
+/**
+ * @route   GET /api/v1/quotes/:id/pdf
+ * @desc    Download quote as proposal PDF
+ * @access  Private (All authenticated users)
+ */
+router.get('/:id/pdf', exportQuotePDFHandler);
+
+/**
+ * @route   GET /api/v1/quotes/:id/revisions
+ * @desc    List quote revision history
+ * @access  Private (All authenticated users)
+ */
+router.get('/:id/revisions', listQuoteRevisionsHandler);
+
+/**
+ * @route   GET /api/v1/quotes/:id/revisions/compare
+ * @desc    Compare two quote revisions line by line
+ * @access  Private (All authenticated users)
+ */
+router.get('/:id/revisions/compare', compareQuoteRevisionsHandler);
+
+/**
+ * @route   GET /api/v1/quotes/:id/revisions/:revision
+ * @desc    Get a quote revision snapshot
+ * @access  Private (All authenticated users)
+ */
+router.get('/:id/revisions/:revision', getQuoteRevisionHandler);
+
 /**
  * @route   GET /api/v1/quotes/:id
  * @desc    Get quote by ID
@@ -96,6 +131,39 @@ router.post(
   duplicateQuoteHandler
 );
 
+/**
+ * @route   POST /api/v1/quotes/:id/revisions
+ * @desc    Issue a new quote revision
+ * @access  Private (PROJECT_MANAGER, OFFICE_ADMIN, SUPER_ADMIN)
+ */
+router.post(
+  '/:id/revisions',
+  authorizeRoles(['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN']),
+  createQuoteRevisionHandler
+);
+
+/**
+ * @route   POST /api/v1/quotes/:id/revisions/:revision/accept
+ * @desc    Mark a quote revision as accepted
+ * @access  Private (PROJECT_MANAGER, OFFICE_ADMIN, SUPER_ADMIN)
+ */
+router.post(
+  '/:id/revisions/:revision/accept',
+  authorizeRoles(['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN']),
+  acceptQuoteRevisionHandler
+);
+
+/**
+ * @route   POST /api/v1/quotes/:id/convert
+ * @desc    Convert accepted quote to project
+ * @access  Private (PROJECT_MANAGER, OFFICE_ADMIN, SUPER_ADMIN)
+ */
+router.post(
+  '/:id/convert',
+  authorizeRoles(['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN']),
+  convertQuoteToProjectHandler
+);
+
 /**
  * @route   DELETE /api/v1/quotes/:id
  * @desc    Delete quote
@@ -7,6 +7,9 @@ import {
   signIn,
   bulkSignIn,
   signOut,
+  startBreak,
+  endBreak,
+  deleteBreak,
 } from '../controllers/signin.controller';
 import { authenticate } from '../middleware/auth.middleware';
 import { authorizeRoles } from '../middleware/authorization.middleware';
@@ -42,5 +45,10 @@ router.post('/', authorizeRoles(signInRoles), signIn);
 router.post('/bulk', authorizeRoles(signInRoles), bulkSignIn);
 router.put('/:id/sign-out', authorizeRoles(signInRoles), signOut);
 
+// Meal and rest breaks
+router.post('/:id/breaks', authorizeRoles(signInRoles), startBreak);
+router.put('/breaks/:breakId/end', authorizeRoles(signInRoles), endBreak);
+router.delete('/breaks/:breakId', authorizeRoles(signInRoles), deleteBreak);
+
 export default router;
 
@@ -0,0 +1,51 @@
+import express from 'express';
+import {
+  getClockStatus,
+  clockIn,
+  switchProject,
+  clockOut,
+  startBreak,
+  endBreak,
+  getMyWeek,
+  getTimeClockPolicies,
+  createTimeClockPolicy,
+  updateTimeClockPolicy,
+  deleteTimeClockPolicy,
+} from '../controllers/timeclock.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Anyone with a linked employee record can punch; the time clock policy decides the rest
+const punchRoles = [
+  'SUPER_ADMIN',
+  'OFFICE_ADMIN',
+  'PROJECT_MANAGER',
+  'FIELD_SUPERVISOR',
+  'FIELD_WORKER',
+];
+
+// Supervisors review policies; admins configure them
+const policyReadRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR'];
+const policyAdminRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+// Self-service (specific routes first)
+router.get('/me/week', authorizeRoles(punchRoles), getMyWeek);
+router.get('/me', authorizeRoles(punchRoles), getClockStatus);
+router.post('/clock-in', authorizeRoles(punchRoles), clockIn);
+router.post('/switch-project', authorizeRoles(punchRoles), switchProject);
+router.post('/clock-out', authorizeRoles(punchRoles), clockOut);
+router.post('/break/start', authorizeRoles(punchRoles), startBreak);
+router.post('/break/end', authorizeRoles(punchRoles), endBreak);
+
+// Time clock policies
+router.get('/policies', authorizeRoles(policyReadRoles), getTimeClockPolicies);
+router.post('/policies', authorizeRoles(policyAdminRoles), createTimeClockPolicy);
+router.put('/policies/:id', authorizeRoles(policyAdminRoles), updateTimeClockPolicy);
+router.delete('/policies/:id', authorizeRoles(policyAdminRoles), deleteTimeClockPolicy);
+
+export default router;
@@ -7,6 +7,7 @@ import {
   calculateDayTotal,
   createTimeEntry,
   bulkCreateTimeEntries,
+  autoCreateFromSignIn,
   updateTimeEntry,
   deleteTimeEntry,
   approveTimeEntry,
@@ -56,6 +57,7 @@ router.get(
 // Write routes
 router.post('/', authorizeRoles(writeRoles), createTimeEntry);
 router.post('/bulk', authorizeRoles(writeRoles), bulkCreateTimeEntries);
+router.post('/auto-create', authorizeRoles(writeRoles), autoCreateFromSignIn);
 router.put('/:id', authorizeRoles(writeRoles), updateTimeEntry);
 router.delete('/:id', authorizeRoles(adminRoles), deleteTimeEntry);
 
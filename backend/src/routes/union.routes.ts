@@ -0,0 +1,43 @@
+import express from 'express';
+import {
+  getUnionLocals,
+  createUnionLocal,
+  updateUnionLocal,
+  deleteUnionLocal,
+  getUnionRates,
+  createUnionRate,
+  updateUnionRate,
+  deleteUnionRate,
+  getRemittanceReport,
+  downloadRemittanceCSV,
+} from '../controllers/union.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Wage packages and remittances are payroll data
+const payrollRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER'];
+// Only admins maintain locals and their wage packages
+const unionAdminRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+// Monthly fringe benefit remittance
+router.get('/remittance', authorizeRoles(payrollRoles), getRemittanceReport);
+router.get('/remittance/export', authorizeRoles(payrollRoles), downloadRemittanceCSV);
+
+// Union locals (employee and project forms need the list)
+router.get('/', getUnionLocals);
+router.post('/', authorizeRoles(unionAdminRoles), createUnionLocal);
+router.put('/:id', authorizeRoles(unionAdminRoles), updateUnionLocal);
+router.delete('/:id', authorizeRoles(unionAdminRoles), deleteUnionLocal);
+
+// Wage and fringe packages per classification, effective-dated
+router.get('/:id/rates', authorizeRoles(payrollRoles), getUnionRates);
+router.post('/:id/rates', authorizeRoles(unionAdminRoles), createUnionRate);
+router.put('/:id/rates/:rateId', authorizeRoles(unionAdminRoles), updateUnionRate);
+router.delete('/:id/rates/:rateId', authorizeRoles(unionAdminRoles), deleteUnionRate);
+
+export default router;
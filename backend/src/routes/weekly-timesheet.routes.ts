@@ -0,0 +1,42 @@
+import express from 'express';
+import {
+  getWeeklyTimesheets,
+  getMyWeeklyTimesheet,
+  getWeeklyTimesheetById,
+  generateWeeklyTimesheets,
+  submitWeeklyTimesheet,
+  approveWeeklyTimesheet,
+  rejectWeeklyTimesheet,
+} from '../controllers/weekly-timesheet.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Employees see and submit their own week; the service checks ownership
+const employeeRoles = [
+  'SUPER_ADMIN',
+  'OFFICE_ADMIN',
+  'PROJECT_MANAGER',
+  'FIELD_SUPERVISOR',
+  'FIELD_WORKER',
+];
+
+// Foremen review their crew's weeks; supervisors approve and reject them
+const crewRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR'];
+const approvalRoles = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER'];
+
+// Specific routes first
+router.get('/me', authorizeRoles(employeeRoles), getMyWeeklyTimesheet);
+router.post('/generate', authorizeRoles(crewRoles), generateWeeklyTimesheets);
+
+router.get('/', authorizeRoles(crewRoles), getWeeklyTimesheets);
+router.get('/:id', authorizeRoles(employeeRoles), getWeeklyTimesheetById);
+router.put('/:id/submit', authorizeRoles(employeeRoles), submitWeeklyTimesheet);
+router.put('/:id/approve', authorizeRoles(approvalRoles), approveWeeklyTimesheet);
+router.put('/:id/reject', authorizeRoles(approvalRoles), rejectWeeklyTimesheet);
+
+export default router;
@@ -0,0 +1,84 @@
+/**
+ * Work Order Routes
+ *
+ * API routes for service call work orders including:
+ * - Dispatch board listing and work order CRUD
+ * - Status workflow (dispatch, on site, completed, invoiced)
+ * - Customer signature capture
+ *
+ * Technicians (field roles) only see and work the calls assigned to them;
+ * the service enforces this.
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeRoles } from '../middleware/authorization.middleware';
+import { DISPATCHER_ROLES } from '../services/work-order.service';
+import {
+  getWorkOrdersController,
+  getWorkOrderController,
+  createWorkOrderController,
+  updateWorkOrderController,
+  updateWorkOrderStatusController,
+  signWorkOrderController,
+  deleteWorkOrderController
+} from '../controllers/work-order.controller';
+
+const router = Router();
+
+// All work order routes require authentication
+router.use(authenticate);
+
+// Dispatchers plus the field roles that work assigned calls
+const workOrderRoles = [...DISPATCHER_ROLES, 'FIELD_SUPERVISOR', 'FIELD_WORKER'];
+
+/**
+ * @route GET /api/v1/work-orders
+ * @desc Get work orders for the dispatch board
+ * @access Private (dispatchers; technicians see their own)
+ */
+router.get('/', authorizeRoles(workOrderRoles), getWorkOrdersController);
+
+/**
+ * @route GET /api/v1/work-orders/:id
+ * @desc Get single work order
+ * @access Private (dispatchers; technicians see their own)
+ */
+router.get('/:id', authorizeRoles(workOrderRoles), getWorkOrderController);
+
+/**
+ * @route POST /api/v1/work-orders
+ * @desc Create work order
+ * @access Private (project managers and above)
+ */
+router.post('/', authorizeRoles(DISPATCHER_ROLES), createWorkOrderController);
+
+/**
+ * @route PUT /api/v1/work-orders/:id
+ * @desc Update work order (technicians: materials and notes only)
+ * @access Private (dispatchers; technicians on their own)
+ */
+router.put('/:id', authorizeRoles(workOrderRoles), updateWorkOrderController);
+
+/**
+ * @route PATCH /api/v1/work-orders/:id/status
+ * @desc Dispatch, arrive, complete or invoice work order
+ * @access Private (dispatchers; technicians on their own)
+ */
+router.patch('/:id/status', authorizeRoles(workOrderRoles), updateWorkOrderStatusController);
+
+/**
+ * @route PUT /api/v1/work-orders/:id/signature
+ * @desc Capture customer signature
+ * @access Private (dispatchers; technicians on their own)
+ */
+router.put('/:id/signature', authorizeRoles(workOrderRoles), signWorkOrderController);
+
+/**
+ * @route DELETE /api/v1/work-orders/:id
+ * @desc Delete work order
+ * @access Private (project managers and above)
+ */
+router.delete('/:id', authorizeRoles(DISPATCHER_ROLES), deleteWorkOrderController);
+
+export default router;
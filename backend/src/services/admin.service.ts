@@ -4,6 +4,7 @@ import { PrismaClient, User, UserRole } from '@prisma/client';
 type AdminUser = Pick<User, 'id' | 'email' | 'first_name' | 'last_name' | 'phone' | 'role' | 'is_active' | 'created_at' | 'updated_at'>;
 import bcrypt from 'bcrypt';
 import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
 
 const prisma = new PrismaClient();
 
@@ -30,40 +31,6 @@ export interface ResetPasswordData {
   newPassword: string;
 }
 
-export interface AuditLogData {
-  adminUserId: string;
-  action: 'CREATE_USER' | 'UPDATE_USER' | 'DELETE_USER' | 'RESET_PASSWORD';
-  targetUserId: string;
-  details: Record<string, any>;
-  ipAddress: string;
-}
-
-/**
- * Create audit log entry
- */
-const createAuditLog = async (auditData: AuditLogData): Promise<void> => {
-  try {
-    // For now, we'll log to the application logs
-    // In production, you might want to store this in a dedicated audit_logs table
-    logger.info('Admin action performed', {
-      adminUserId: auditData.adminUserId,
-      action: auditData.action,
-      targetUserId: auditData.targetUserId,
-      details: auditData.details,
-      ipAddress: auditData.ipAddress,
-      service: 'electrical-pm-api',
-      timestamp: new Date().toISOString()
-    });
-  } catch (error) {
-    logger.error('Failed to create audit log', {
-      error: error instanceof Error ? error.message : 'Unknown error',
-      auditData,
-      service: 'electrical-pm-api',
-      timestamp: new Date().toISOString()
-    });
-  }
-};
-
 /**
  * Validate email format
  */
@@ -149,16 +116,12 @@ export const createUser = async (
     });
 
     // Create audit log
-    await createAuditLog({
-      adminUserId,
+    await recordAuditLog({
+      actorId: adminUserId,
       action: 'CREATE_USER',
-      targetUserId: user.id,
-      details: {
-        email: user.email,
-        role: user.role,
-        firstName: user.first_name,
-        lastName: user.last_name
-      },
+      entityType: 'USER',
+      entityId: user.id,
+      after: user,
       ipAddress
     });
 
@@ -371,14 +334,13 @@ export const updateUser = async (
     });
 
     // Create audit log
-    await createAuditLog({
-      adminUserId,
+    await recordAuditLog({
+      actorId: adminUserId,
       action: 'UPDATE_USER',
-      targetUserId: userId,
-      details: {
-        updatedFields: Object.keys(userData),
-        newValues: userData
-      },
+      entityType: 'USER',
+      entityId: userId,
+      before: existingUser,
+      after: user,
       ipAddress
     });
 
@@ -441,14 +403,12 @@ export const deleteUser = async (
     });
 
     // Create audit log
-    await createAuditLog({
-      adminUserId,
+    await recordAuditLog({
+      actorId: adminUserId,
       action: 'DELETE_USER',
-      targetUserId: userId,
-      details: {
-        deletedUserEmail: existingUser.email,
-        deletedUserRole: existingUser.role
-      },
+      entityType: 'USER',
+      entityId: userId,
+      before: existingUser,
       ipAddress
     });
 
@@ -518,13 +478,11 @@ export const resetUserPassword = async (
     });
 
     // Create audit log
-    await createAuditLog({
-      adminUserId,
+    await recordAuditLog({
+      actorId: adminUserId,
       action: 'RESET_PASSWORD',
-      targetUserId: userId,
-      details: {
-        resetForEmail: existingUser.email
-      },
+      entityType: 'USER',
+      entityId: userId,
       ipAddress
     });
 
@@ -0,0 +1,431 @@
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { ApprenticeWorkCategory, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { recordAuditLog } from './audit.service';
+
+/**
+ * Apprenticeship Service
+ * On-the-job training (OJT) hours by work category for apprentices and the
+ * daily journeyman-to-apprentice ratio check on project sign-ins
+ */
+
+interface WorkCategoryData {
+  name: string;
+  description?: string | null;
+  requiredHours: number;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+interface RatioPerson {
+  id: string;
+  name: string;
+  classification: string;
+}
+
+interface RatioCheck {
+  date: string;
+  project: { id: string; name: string; projectNumber: string };
+  ratio: number;
+  journeymen: RatioPerson[];
+  apprentices: RatioPerson[];
+}
+
+/**
+ * Max apprentices per journeyman when the project does not set a ratio
+ */
+export const DEFAULT_APPRENTICE_RATIO = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ratio checks cover at most this many days per request
+const MAX_RATIO_CHECK_DAYS = 31;
+
+/**
+ * Whether a classification is an apprentice (e.g. "Apprentice Electrician")
+ */
+export const isApprentice = (classification: string): boolean => /apprentice/i.test(classification);
+
+/**
+ * Whether a classification counts as a journeyman on site for the ratio:
+ * licensed electricians (journeyman, master) and foremen, but not apprentices
+ */
+export const isJourneyman = (classification: string): boolean =>
+  !isApprentice(classification) && /electrician|journeyman|master|foreman/i.test(classification);
+
+/**
+ * Transform snake_case Prisma response to camelCase for frontend
+ */
+function transformWorkCategoryData(category: ApprenticeWorkCategory) {
+  return {
+    id: category.id,
+    name: category.name,
+    description: category.description,
+    requiredHours: Number(category.required_hours),
+    sortOrder: category.sort_order,
+    isActive: category.is_active,
+    createdAt: category.created_at,
+    updatedAt: category.updated_at,
+  };
+}
+
+/**
+ * Validate category fields that are present
+ */
+const validateWorkCategoryData = (data: Partial<WorkCategoryData>) => {
+  if (data.name !== undefined && !data.name.trim()) {
+    throw new Error('Work category name is required');
+  }
+
+  if (data.requiredHours !== undefined && (isNaN(data.requiredHours) || data.requiredHours < 0)) {
+    throw new Error('Required hours must be zero or more');
+  }
+};
+
+/**
+ * Ensure an OJT category can be recorded on an employee's time entry:
+ * the category must exist and be active, and the employee must be an apprentice
+ */
+export const validateOjtCategory = async (employeeId: string, categoryId: string) => {
+  const [category, employee] = await Promise.all([
+    prisma.apprenticeWorkCategory.findUnique({ where: { id: categoryId } }),
+    prisma.employee.findUnique({ where: { id: employeeId }, select: { classification: true } }),
+  ]);
+
+  if (!category || !category.is_active) {
+    throw new Error('OJT work category not found');
+  }
+
+  if (!employee || !isApprentice(employee.classification)) {
+    throw new Error('OJT work categories can only be recorded for apprentices');
+  }
+};
+
+/**
+ * Get OJT work categories in program order
+ */
+export const getWorkCategories = async (includeInactive: boolean = false) => {
+  try {
+    const categories = await prisma.apprenticeWorkCategory.findMany({
+      where: includeInactive ? {} : { is_active: true },
+      orderBy: [{ sort_order: 'asc' }, { name: 'asc' }],
+    });
+
+    return categories.map(transformWorkCategoryData);
+  } catch (error) {
+    logger.error('Error fetching OJT work categories', { error });
+    throw error;
+  }
+};
+
+/**
+ * Create an OJT work category
+ */
+export const createWorkCategory = async (data: WorkCategoryData, createdBy: string, ipAddress?: string) => {
+  try {
+    validateWorkCategoryData(data);
+
+    const existing = await prisma.apprenticeWorkCategory.findUnique({
+      where: { name: data.name.trim() },
+    });
+    if (existing) {
+      throw new Error(`A work category named ${data.name.trim()} already exists`);
+    }
+
+    const category = await prisma.apprenticeWorkCategory.create({
+      data: {
+        name: data.name.trim(),
+        description: data.description || null,
+        required_hours: new Decimal(data.requiredHours),
+        sort_order: data.sortOrder ?? 0,
+        is_active: data.isActive ?? true,
+        created_by: createdBy,
+        updated_by: createdBy,
+      },
+    });
+
+    await recordAuditLog({
+      actorId: createdBy,
+      action: 'CREATE_APPRENTICE_WORK_CATEGORY',
+      entityType: 'APPRENTICE_WORK_CATEGORY',
+      entityId: category.id,
+      after: category,
+      ipAddress,
+    });
+
+    logger.info('OJT work category created', { categoryId: category.id, createdBy });
+
+    return transformWorkCategoryData(category);
+  } catch (error) {
+    logger.error('Error creating OJT work category', { data, createdBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Update an OJT work category
+ */
+export const updateWorkCategory = async (
+  id: string,
+  data: Partial<WorkCategoryData>,
+  updatedBy: string,
+  ipAddress?: string
+) => {
+  try {
+    const existing = await prisma.apprenticeWorkCategory.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Work category not found');
+    }
+
+    validateWorkCategoryData(data);
+
+    if (data.name && data.name.trim() !== existing.name) {
+      const duplicate = await prisma.apprenticeWorkCategory.findUnique({
+        where: { name: data.name.trim() },
+      });
+      if (duplicate) {
+        throw new Error(`A work category named ${data.name.trim()} already exists`);
+      }
+    }
+
+    const updateData: Prisma.ApprenticeWorkCategoryUpdateInput = {
+      updated_by: updatedBy,
+    };
+
+    if (data.name !== undefined) updateData.name = data.name.trim();
+    if (data.description !== undefined) updateData.description = data.description || null;
+    if (data.requiredHours !== undefined) updateData.required_hours = new Decimal(data.requiredHours);
+    if (data.sortOrder !== undefined) updateData.sort_order = data.sortOrder;
+    if (data.isActive !== undefined) updateData.is_active = data.isActive;
+
+    const category = await prisma.apprenticeWorkCategory.update({
+      where: { id },
+      data: updateData,
+    });
+
+    await recordAuditLog({
+      actorId: updatedBy,
+      action: 'UPDATE_APPRENTICE_WORK_CATEGORY',
+      entityType: 'APPRENTICE_WORK_CATEGORY',
+      entityId: id,
+      before: existing,
+      after: category,
+      ipAddress,
+    });
+
+    logger.info('OJT work category updated', { categoryId: id, updatedBy });
+
+    return transformWorkCategoryData(category);
+  } catch (error) {
+    logger.error('Error updating OJT work category', { id, data, updatedBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Delete an OJT work category. Categories with logged hours are kept for the
+ * apprentices' records and must be deactivated instead.
+ */
+export const deleteWorkCategory = async (id: string, deletedBy: string, ipAddress?: string) => {
+  try {
+    const existing = await prisma.apprenticeWorkCategory.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Work category not found');
+    }
+
+    const loggedEntries = await prisma.timeEntry.count({ where: { ojt_category_id: id } });
+    if (loggedEntries > 0) {
+      throw new Error('Work category has logged hours and cannot be deleted; deactivate it instead');
+    }
+
+    await prisma.apprenticeWorkCategory.delete({
+      where: { id },
+    });
+
+    await recordAuditLog({
+      actorId: deletedBy,
+      action: 'DELETE_APPRENTICE_WORK_CATEGORY',
+      entityType: 'APPRENTICE_WORK_CATEGORY',
+      entityId: id,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('OJT work category deleted', { categoryId: id, deletedBy });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Error deleting OJT work category', { id, error });
+    throw error;
+  }
+};
+
+/**
+ * OJT progress for active apprentices: hours logged per work category against
+ * the required hours. Approved hours count toward completion; pending hours
+ * are shown separately and rejected entries are ignored.
+ */
+export const getApprenticeProgress = async (employeeId?: string) => {
+  try {
+    const apprentices = await prisma.employee.findMany({
+      where: {
+        is_active: true,
+        deleted_at: null,
+        classification: { contains: 'apprentice', mode: 'insensitive' },
+        ...(employeeId ? { id: employeeId } : {}),
+      },
+      select: { id: true, first_name: true, last_name: true, classification: true, hire_date: true },
+      orderBy: [{ last_name: 'asc' }, { first_name: 'asc' }],
+    });
+
+    const categories = await prisma.apprenticeWorkCategory.findMany({
+      where: { is_active: true },
+      orderBy: [{ sort_order: 'asc' }, { name: 'asc' }],
+    });
+
+    const totals = await prisma.timeEntry.groupBy({
+      by: ['employee_id', 'ojt_category_id', 'status'],
+      where: {
+        employee_id: { in: apprentices.map((a) => a.id) },
+        status: { not: 'REJECTED' },
+      },
+      _sum: { hours_worked: true },
+    });
+
+    const hoursFor = (employee: string, category: string | null, approved: boolean) =>
+      totals
+        .filter(
+          (t) =>
+            t.employee_id === employee &&
+            t.ojt_category_id === category &&
+            (t.status === 'APPROVED') === approved
+        )
+        .reduce((sum, t) => sum + Number(t._sum.hours_worked || 0), 0);
+
+    return apprentices.map((apprentice) => {
+      const categoryProgress = categories.map((category) => {
+        const requiredHours = Number(category.required_hours);
+        const approvedHours = hoursFor(apprentice.id, category.id, true);
+        return {
+          categoryId: category.id,
+          name: category.name,
+          requiredHours,
+          approvedHours,
+          pendingHours: hoursFor(apprentice.id, category.id, false),
+          percentComplete: requiredHours > 0 ? Math.min(100, (approvedHours / requiredHours) * 100) : 100,
+        };
+      });
+
+      // Hours credited to a required category count toward the program up to its requirement
+      const totalRequiredHours = categoryProgress.reduce((sum, c) => sum + c.requiredHours, 0);
+      const creditedHours = categoryProgress.reduce((sum, c) => sum + Math.min(c.approvedHours, c.requiredHours), 0);
+
+      return {
+        employee: {
+          id: apprentice.id,
+          firstName: apprentice.first_name,
+          lastName: apprentice.last_name,
+          classification: apprentice.classification,
+          hireDate: apprentice.hire_date,
+        },
+        categories: categoryProgress,
+        totalApprovedHours: categoryProgress.reduce((sum, c) => sum + c.approvedHours, 0),
+        totalPendingHours: categoryProgress.reduce((sum, c) => sum + c.pendingHours, 0),
+        uncategorizedHours: hoursFor(apprentice.id, null, true) + hoursFor(apprentice.id, null, false),
+        totalRequiredHours,
+        percentComplete: totalRequiredHours > 0 ? (creditedHours / totalRequiredHours) * 100 : 0,
+      };
+    });
+  } catch (error) {
+    logger.error('Error generating apprentice progress', { employeeId, error });
+    throw error;
+  }
+};
+
+/**
+ * Check the journeyman-to-apprentice ratio for each project and day in a range,
+ * using who signed in on the project. Each employee counts once per project per day.
+ */
+export const getRatioCheck = async (startDate: Date, endDate: Date, projectId?: string) => {
+  try {
+    const days = Math.round((endDate.getTime() - startDate.getTime()) / DAY_MS) + 1;
+    if (days < 1 || days > MAX_RATIO_CHECK_DAYS) {
+      throw new Error(`Date range must be between 1 and ${MAX_RATIO_CHECK_DAYS} days`);
+    }
+
+    const signIns = await prisma.dailySignIn.findMany({
+      where: {
+        date: { gte: startDate, lte: endDate },
+        project_id: projectId ? projectId : { not: null },
+      },
+      select: {
+        date: true,
+        employee: { select: { id: true, first_name: true, last_name: true, classification: true } },
+        project: { select: { id: true, name: true, project_number: true, apprentice_ratio: true } },
+      },
+      orderBy: [{ date: 'asc' }, { sign_in_time: 'asc' }],
+    });
+
+    const checks = new Map<string, RatioCheck>();
+    signIns.forEach((signIn) => {
+      const project = signIn.project!;
+      const dateKey = signIn.date.toISOString().split('T')[0]!;
+      const key = `${project.id}|${dateKey}`;
+
+      let check = checks.get(key);
+      if (!check) {
+        check = {
+          date: dateKey,
+          project: { id: project.id, name: project.name, projectNumber: project.project_number },
+          ratio: project.apprentice_ratio !== null ? Number(project.apprentice_ratio) : DEFAULT_APPRENTICE_RATIO,
+          journeymen: [],
+          apprentices: [],
+        };
+        checks.set(key, check);
+      }
+
+      const { employee } = signIn;
+      const person = {
+        id: employee.id,
+        name: `${employee.first_name} ${employee.last_name}`,
+        classification: employee.classification,
+      };
+      const seen = (list: RatioPerson[]) => list.some((p) => p.id === employee.id);
+
+      if (isApprentice(employee.classification)) {
+        if (!seen(check.apprentices)) check.apprentices.push(person);
+      } else if (isJourneyman(employee.classification)) {
+        if (!seen(check.journeymen)) check.journeymen.push(person);
+      }
+    });
+
+    return Array.from(checks.values())
+      .filter((check) => check.apprentices.length > 0)
+      .map((check) => {
+        const allowedApprentices = Math.floor(check.journeymen.length * check.ratio);
+        const compliant = check.apprentices.length <= allowedApprentices;
+
+        return {
+          ...check,
+          journeymanCount: check.journeymen.length,
+          apprenticeCount: check.apprentices.length,
+          allowedApprentices,
+          compliant,
+          message: compliant
+            ? null
+            : `${check.apprentices.length} apprentice(s) on site with ${check.journeymen.length} journeyman(s); ` +
+              `ratio allows ${allowedApprentices}`,
+        };
+      });
+  } catch (error) {
+    logger.error('Error checking apprentice ratios', { startDate, endDate, projectId, error });
+    throw error;
+  }
+};
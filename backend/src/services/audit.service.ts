@@ -0,0 +1,197 @@
+import { AuditLog, Prisma, User } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+
+/**
+ * Audit Service
+ * Persists an audit trail of mutations (actor, action, entity, before/after diff, IP)
+ * and serves it to the admin audit log viewer
+ */
+
+export type AuditEntityType = 'USER' | 'PROJECT' | 'QUOTE' | 'TIME_ENTRY' | 'EMPLOYEE' | 'PRICE_BOOK_ITEM' | 'ASSEMBLY' | 'PROJECT_EXPENSE' | 'CHANGE_ORDER' | 'INVOICE' | 'WORK_ORDER' | 'CREW_ASSIGNMENT' | 'EMPLOYEE_CERTIFICATION' | 'APPRENTICE_WORK_CATEGORY' | 'EMPLOYEE_PAY_RATE' | 'PAYROLL_PERIOD' | 'WEEKLY_TIMESHEET' | 'COST_CODE' | 'PROJECT_COST_CODE' | 'UNION_LOCAL' | 'UNION_RATE';
+
+export interface AuditLogData {
+  actorId: string;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: object | null;
+  after?: object | null;
+  ipAddress?: string;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Bookkeeping and sensitive fields that never belong in a diff
+const IGNORED_FIELDS = ['password_hash', 'password', 'created_at', 'updated_at', 'created_by', 'updated_by'];
+
+/**
+ * Convert a Prisma record to plain JSON (Decimal -> string, Date -> ISO string)
+ * and drop ignored fields
+ */
+function toAuditSnapshot(record: object): Prisma.JsonObject {
+  const plain: Prisma.JsonObject = JSON.parse(JSON.stringify(record));
+
+  for (const field of IGNORED_FIELDS) {
+    delete plain[field];
+  }
+
+  return plain;
+}
+
+/**
+ * Reduce before/after snapshots to the fields that actually changed.
+ * Only fields present in the before snapshot are compared, so relations
+ * included on the updated record are ignored.
+ */
+function diffSnapshots(
+  before: Prisma.JsonObject,
+  after: Prisma.JsonObject
+): { before: Prisma.JsonObject; after: Prisma.JsonObject } {
+  const changedBefore: Prisma.JsonObject = {};
+  const changedAfter: Prisma.JsonObject = {};
+
+  for (const key of Object.keys(before)) {
+    if (!(key in after)) continue;
+
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+type AuditLogWithActor = AuditLog & {
+  actor: Pick<User, 'id' | 'email' | 'first_name' | 'last_name' | 'role'> | null;
+};
+
+/**
+ * Transform snake_case Prisma response to camelCase for frontend
+ */
+function transformAuditLogData(log: AuditLogWithActor) {
+  return {
+    id: log.id,
+    actorId: log.actor_id,
+    actor: log.actor ? {
+      id: log.actor.id,
+      email: log.actor.email,
+      firstName: log.actor.first_name,
+      lastName: log.actor.last_name,
+      role: log.actor.role,
+    } : undefined,
+    action: log.action,
+    entityType: log.entity_type,
+    entityId: log.entity_id,
+    before: log.before,
+    after: log.after,
+    ipAddress: log.ip_address,
+    createdAt: log.created_at,
+  };
+}
+
+/**
+ * Record an audit log entry.
+ * Never throws - a failed audit write is logged but must not fail the mutation.
+ */
+export const recordAuditLog = async (data: AuditLogData): Promise<void> => {
+  try {
+    let before = data.before ? toAuditSnapshot(data.before) : null;
+    let after = data.after ? toAuditSnapshot(data.after) : null;
+
+    if (before && after) {
+      ({ before, after } = diffSnapshots(before, after));
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        actor_id: data.actorId,
+        action: data.action,
+        entity_type: data.entityType,
+        entity_id: data.entityId,
+        before: before ?? Prisma.DbNull,
+        after: after ?? Prisma.DbNull,
+        ip_address: data.ipAddress,
+      },
+    });
+
+    logger.info('Audit log recorded', {
+      actorId: data.actorId,
+      action: data.action,
+      entityType: data.entityType,
+      entityId: data.entityId,
+      ipAddress: data.ipAddress,
+    });
+  } catch (error) {
+    logger.error('Failed to record audit log', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      actorId: data.actorId,
+      action: data.action,
+      entityType: data.entityType,
+      entityId: data.entityId,
+    });
+  }
+};
+
+/**
+ * Get audit log entries with optional filters and pagination (newest first)
+ */
+export const getAuditLogs = async (
+  filters: AuditLogFilters = {},
+  page: number = 1,
+  limit: number = 50
+) => {
+  try {
+    const where: Prisma.AuditLogWhereInput = {};
+
+    if (filters.actorId) where.actor_id = filters.actorId;
+    if (filters.action) where.action = filters.action;
+    if (filters.entityType) where.entity_type = filters.entityType;
+    if (filters.entityId) where.entity_id = filters.entityId;
+
+    if (filters.startDate || filters.endDate) {
+      where.created_at = {};
+      if (filters.startDate) where.created_at.gte = filters.startDate;
+      if (filters.endDate) where.created_at.lte = filters.endDate;
+    }
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { created_at: 'desc' },
+        include: {
+          actor: {
+            select: {
+              id: true,
+              email: true,
+              first_name: true,
+              last_name: true,
+              role: true,
+            },
+          },
+        },
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+      logs: logs.map(transformAuditLogData),
+      total,
+      page,
+      limit,
+    };
+  } catch (error) {
+    logger.error('Error fetching audit logs', { error, filters });
+    throw error;
+  }
+};
@@ -0,0 +1,498 @@
+/**
+ * Certification Service
+ *
+ * Business logic for employee licenses and safety certifications including:
+ * - CRUD operations for an employee's certifications with an optional scan
+ *   (files in the CERTIFICATION category)
+ * - Expiring-soon report across active employees
+ * - Required-certification checks for project sign-ins and crew schedules
+ */
+
+import { PrismaClient, EmployeeCertification, CertificationType, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
+
+const prisma = new PrismaClient();
+
+export const CERTIFICATION_LABELS: Record<CertificationType, string> = {
+  JOURNEYMAN_LICENSE: 'Journeyman License',
+  MASTER_LICENSE: 'Master License',
+  OSHA_10: 'OSHA 10',
+  OSHA_30: 'OSHA 30',
+  NFPA_70E: 'NFPA 70E',
+  AERIAL_LIFT: 'Aerial Lift',
+  OTHER: 'Other',
+};
+
+export interface CreateCertificationData {
+  type: CertificationType;
+  name?: string | null;
+  number?: string | null;
+  issuer?: string | null;
+  issue_date?: Date | null;
+  expiry_date?: Date | null;
+  file_id?: string | null;
+  notes?: string | null;
+}
+
+export type UpdateCertificationData = Partial<CreateCertificationData>;
+
+export type CertificationWithFile = EmployeeCertification & {
+  file: { id: string; original_filename: string; mime_type: string } | null;
+};
+
+export type CertificationIssueType = 'MISSING' | 'EXPIRED';
+
+export interface CertificationIssue {
+  type: CertificationIssueType;
+  certification_type: CertificationType;
+  message: string;
+}
+
+export interface ExpiringCertification {
+  id: string;
+  type: CertificationType;
+  name: string | null;
+  number: string | null;
+  issuer: string | null;
+  expiry_date: Date;
+  days_until_expiry: number; // Negative once expired
+  status: 'EXPIRED' | 'EXPIRING';
+  employee: { id: string; first_name: string; last_name: string; classification: string };
+}
+
+export interface SignInCertificationAlert {
+  sign_in_id: string;
+  employee: { id: string; first_name: string; last_name: string; classification: string };
+  project: { id: string; name: string; project_number: string };
+  issues: CertificationIssue[];
+}
+
+const certificationInclude = {
+  file: {
+    select: {
+      id: true,
+      original_filename: true,
+      mime_type: true,
+    },
+  },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Today as a calendar date (UTC midnight), matching @db.Date columns
+ */
+const today = (): Date => new Date(toDateKey(new Date()));
+
+/**
+ * Display name for a certification (the free-text name for OTHER)
+ */
+export const getCertificationLabel = (cert: { type: CertificationType; name?: string | null }): string =>
+  cert.type === 'OTHER' ? cert.name || CERTIFICATION_LABELS.OTHER : CERTIFICATION_LABELS[cert.type];
+
+/**
+ * Whether a value is a known certification type
+ */
+export const isCertificationType = (value: unknown): value is CertificationType =>
+  typeof value === 'string' && Object.values(CertificationType).includes(value as CertificationType);
+
+/**
+ * Compare an employee's certifications against a project's required types on a date.
+ * A required type is MISSING when none is on file and EXPIRED when every one on
+ * file has expired. Held certifications that expired without a valid replacement
+ * are reported as EXPIRED even when the project does not require them.
+ */
+export const getCertificationIssues = (
+  certifications: Pick<EmployeeCertification, 'type' | 'name' | 'expiry_date'>[],
+  requiredTypes: CertificationType[],
+  date: Date
+): CertificationIssue[] => {
+  const dateKey = toDateKey(date);
+  const isValid = (cert: Pick<EmployeeCertification, 'expiry_date'>) =>
+    !cert.expiry_date || toDateKey(cert.expiry_date) >= dateKey;
+
+  const issues: CertificationIssue[] = [];
+  const types = new Set<CertificationType>([...requiredTypes, ...certifications.map((c) => c.type)]);
+
+  types.forEach((type) => {
+    const held = certifications.filter((c) => c.type === type);
+    const required = requiredTypes.includes(type);
+
+    if (held.length === 0) {
+      if (required) {
+        issues.push({
+          type: 'MISSING',
+          certification_type: type,
+          message: `Missing required ${CERTIFICATION_LABELS[type]}`,
+        });
+      }
+      return;
+    }
+
+    // OTHER covers unrelated certifications, so check each one on its own
+    const groups = type === 'OTHER' ? held.map((c) => [c]) : [held];
+    groups.forEach((group) => {
+      if (group.some(isValid)) return;
+
+      const latest = group.reduce((a, b) => (a.expiry_date! > b.expiry_date! ? a : b));
+      issues.push({
+        type: 'EXPIRED',
+        certification_type: type,
+        message: `${required ? 'Required ' : ''}${getCertificationLabel(latest)} expired ${toDateKey(latest.expiry_date!)}`,
+      });
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Ensure the employee exists and is not deleted
+ */
+const ensureEmployee = async (employeeId: string): Promise<void> => {
+  const employee = await prisma.employee.findFirst({
+    where: { id: employeeId, deleted_at: null },
+    select: { id: true },
+  });
+
+  if (!employee) {
+    throw new Error('Employee not found');
+  }
+};
+
+/**
+ * Ensure a scan file exists and is in the CERTIFICATION category
+ */
+const validateCertificationFile = async (fileId: string): Promise<void> => {
+  const file = await prisma.file.findFirst({
+    where: { id: fileId, deleted_at: null },
+    select: { id: true, category: true },
+  });
+
+  if (!file) {
+    throw new Error('Certification file not found');
+  }
+
+  if (file.category !== 'CERTIFICATION') {
+    throw new Error('Linked file must be in the CERTIFICATION category');
+  }
+};
+
+/**
+ * Validate certification fields, checking only the fields that are present
+ */
+const validateCertificationData = (
+  data: UpdateCertificationData,
+  requireAll: boolean,
+  existing?: EmployeeCertification
+): void => {
+  if (requireAll || data.type !== undefined) {
+    if (!data.type) {
+      throw new Error('Missing required fields: type');
+    }
+    if (!isCertificationType(data.type)) {
+      throw new Error(`Type must be one of: ${Object.values(CertificationType).join(', ')}`);
+    }
+  }
+
+  const type = data.type ?? existing?.type;
+  const name = data.name !== undefined ? data.name : existing?.name;
+  if (type === 'OTHER' && !name?.trim()) {
+    throw new Error('Missing required fields: name (required for OTHER certifications)');
+  }
+
+  [data.issue_date, data.expiry_date].forEach((value) => {
+    if (value && isNaN(value.getTime())) {
+      throw new Error('Dates must be valid (YYYY-MM-DD)');
+    }
+  });
+
+  const issueDate = data.issue_date !== undefined ? data.issue_date : existing?.issue_date;
+  const expiryDate = data.expiry_date !== undefined ? data.expiry_date : existing?.expiry_date;
+  if (issueDate && expiryDate && expiryDate < issueDate) {
+    throw new Error('Expiry date must be on or after the issue date');
+  }
+};
+
+/**
+ * Get an employee's certifications, most recently issued first
+ */
+export const getEmployeeCertifications = async (employeeId: string): Promise<CertificationWithFile[]> => {
+  try {
+    await ensureEmployee(employeeId);
+
+    const certifications = await prisma.employeeCertification.findMany({
+      where: { employee_id: employeeId, deleted_at: null },
+      include: certificationInclude,
+      orderBy: [{ type: 'asc' }, { expiry_date: { sort: 'desc', nulls: 'first' } }],
+    });
+
+    return certifications;
+  } catch (error) {
+    logger.error('Error retrieving employee certifications', { error, employeeId });
+    throw error;
+  }
+};
+
+/**
+ * Get a single certification
+ */
+export const getCertificationById = async (employeeId: string, id: string): Promise<CertificationWithFile> => {
+  const certification = await prisma.employeeCertification.findFirst({
+    where: { id, employee_id: employeeId, deleted_at: null },
+    include: certificationInclude,
+  });
+
+  if (!certification) {
+    throw new Error('Certification not found');
+  }
+
+  return certification;
+};
+
+/**
+ * Add a certification to an employee
+ */
+export const createCertification = async (
+  employeeId: string,
+  data: CreateCertificationData,
+  userId: string,
+  ipAddress?: string
+): Promise<CertificationWithFile> => {
+  try {
+    await ensureEmployee(employeeId);
+    validateCertificationData(data, true);
+
+    if (data.file_id) {
+      await validateCertificationFile(data.file_id);
+    }
+
+    const certification = await prisma.employeeCertification.create({
+      data: {
+        employee_id: employeeId,
+        type: data.type,
+        name: data.name?.trim() || null,
+        number: data.number?.trim() || null,
+        issuer: data.issuer?.trim() || null,
+        issue_date: data.issue_date || null,
+        expiry_date: data.expiry_date || null,
+        file_id: data.file_id || null,
+        notes: data.notes || null,
+        created_by: userId,
+        updated_by: userId,
+      },
+      include: certificationInclude,
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'CREATE_EMPLOYEE_CERTIFICATION',
+      entityType: 'EMPLOYEE_CERTIFICATION',
+      entityId: certification.id,
+      after: certification,
+      ipAddress,
+    });
+
+    logger.info('Employee certification created', { employeeId, certificationId: certification.id, userId });
+    return certification;
+  } catch (error) {
+    logger.error('Error creating employee certification', { error, employeeId });
+    throw error;
+  }
+};
+
+/**
+ * Update a certification (renewals replace the dates, number and scan)
+ */
+export const updateCertification = async (
+  employeeId: string,
+  id: string,
+  data: UpdateCertificationData,
+  userId: string,
+  ipAddress?: string
+): Promise<CertificationWithFile> => {
+  try {
+    const existing = await getCertificationById(employeeId, id);
+
+    validateCertificationData(data, false, existing);
+
+    if (data.file_id) {
+      await validateCertificationFile(data.file_id);
+    }
+
+    const updateData: Prisma.EmployeeCertificationUncheckedUpdateInput = { updated_by: userId };
+    if (data.type !== undefined) updateData.type = data.type;
+    if (data.name !== undefined) updateData.name = data.name?.trim() || null;
+    if (data.number !== undefined) updateData.number = data.number?.trim() || null;
+    if (data.issuer !== undefined) updateData.issuer = data.issuer?.trim() || null;
+    if (data.issue_date !== undefined) updateData.issue_date = data.issue_date || null;
+    if (data.expiry_date !== undefined) updateData.expiry_date = data.expiry_date || null;
+    if (data.file_id !== undefined) updateData.file_id = data.file_id || null;
+    if (data.notes !== undefined) updateData.notes = data.notes || null;
+
+    const certification = await prisma.employeeCertification.update({
+      where: { id },
+      data: updateData,
+      include: certificationInclude,
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'UPDATE_EMPLOYEE_CERTIFICATION',
+      entityType: 'EMPLOYEE_CERTIFICATION',
+      entityId: id,
+      before: existing,
+      after: certification,
+      ipAddress,
+    });
+
+    logger.info('Employee certification updated', { certificationId: id, userId });
+    return certification;
+  } catch (error) {
+    logger.error('Error updating employee certification', { error, id });
+    throw error;
+  }
+};
+
+/**
+ * Soft delete a certification
+ */
+export const deleteCertification = async (
+  employeeId: string,
+  id: string,
+  userId: string,
+  ipAddress?: string
+): Promise<void> => {
+  try {
+    const existing = await getCertificationById(employeeId, id);
+
+    await prisma.employeeCertification.update({
+      where: { id },
+      data: { deleted_at: new Date(), updated_by: userId },
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'DELETE_EMPLOYEE_CERTIFICATION',
+      entityType: 'EMPLOYEE_CERTIFICATION',
+      entityId: id,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Employee certification deleted', { certificationId: id, userId });
+  } catch (error) {
+    logger.error('Error deleting employee certification', { error, id });
+    throw error;
+  }
+};
+
+/**
+ * Certifications of active employees that expire within the given number of
+ * days or have already expired, soonest first. Expired certifications that
+ * have been renewed (a later one of the same type is on file) are left out.
+ */
+export const getExpiringCertifications = async (withinDays: number = 60): Promise<ExpiringCertification[]> => {
+  try {
+    const start = today();
+    const cutoff = new Date(start.getTime() + withinDays * DAY_MS);
+
+    const certifications = await prisma.employeeCertification.findMany({
+      where: {
+        deleted_at: null,
+        expiry_date: { not: null, lte: cutoff },
+        employee: { deleted_at: null, is_active: true },
+      },
+      include: {
+        employee: {
+          select: { id: true, first_name: true, last_name: true, classification: true },
+        },
+      },
+      orderBy: { expiry_date: 'asc' },
+    });
+
+    // Later expiry dates per employee and type, to drop renewed certifications
+    const renewals = await prisma.employeeCertification.findMany({
+      where: {
+        deleted_at: null,
+        employee_id: { in: [...new Set(certifications.map((c) => c.employee_id))] },
+        OR: [{ expiry_date: null }, { expiry_date: { gt: cutoff } }],
+      },
+      select: { employee_id: true, type: true, name: true },
+    });
+    const renewed = new Set(renewals.map((r) => `${r.employee_id}|${getCertificationLabel(r)}`));
+
+    return certifications
+      .filter((cert) => !renewed.has(`${cert.employee_id}|${getCertificationLabel(cert)}`))
+      .map((cert) => {
+        const daysUntilExpiry = Math.round((cert.expiry_date!.getTime() - start.getTime()) / DAY_MS);
+        return {
+          id: cert.id,
+          type: cert.type,
+          name: cert.name,
+          number: cert.number,
+          issuer: cert.issuer,
+          expiry_date: cert.expiry_date!,
+          days_until_expiry: daysUntilExpiry,
+          status: daysUntilExpiry < 0 ? 'EXPIRED' : 'EXPIRING',
+          employee: cert.employee,
+        };
+      });
+  } catch (error) {
+    logger.error('Error retrieving expiring certifications', { error, withinDays });
+    throw error;
+  }
+};
+
+/**
+ * Workers currently signed in on a job who are missing, or hold an expired,
+ * certification that the job requires
+ */
+export const getSignInCertificationAlerts = async (): Promise<SignInCertificationAlert[]> => {
+  try {
+    const signIns = await prisma.dailySignIn.findMany({
+      where: {
+        sign_out_time: null,
+        project: { required_certifications: { isEmpty: false } },
+      },
+      include: {
+        employee: {
+          select: {
+            id: true,
+            first_name: true,
+            last_name: true,
+            classification: true,
+            certifications: {
+              where: { deleted_at: null },
+              select: { type: true, name: true, expiry_date: true },
+            },
+          },
+        },
+        project: {
+          select: { id: true, name: true, project_number: true, required_certifications: true },
+        },
+      },
+      orderBy: { sign_in_time: 'asc' },
+    });
+
+    const date = today();
+
+    return signIns.flatMap((signIn) => {
+      const { certifications, ...employee } = signIn.employee;
+      const { required_certifications: required, ...project } = signIn.project!;
+
+      const issues = getCertificationIssues(certifications, required, date).filter((issue) =>
+        required.includes(issue.certification_type)
+      );
+      if (issues.length === 0) return [];
+
+      return [{ sign_in_id: signIn.id, employee, project, issues }];
+    });
+  } catch (error) {
+    logger.error('Error retrieving sign-in certification alerts', { error });
+    throw error;
+  }
+};
@@ -0,0 +1,524 @@
+import { Prisma, ProjectWageRate } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { Decimal } from '@prisma/client/runtime/library';
+import { loadEntriesWithOvertime } from './payroll.service';
+
+/**
+ * Certified Payroll Service
+ * Prevailing wage rates per project and the weekly certified payroll
+ * report (U.S. DOL form WH-347 layout), exported as PDF or CSV
+ */
+
+interface WageRateData {
+  projectId: string;
+  classification: string;
+  wageDecision?: string | null;
+  baseRate: number;
+  fringeRate?: number;
+}
+
+/**
+ * Pay multipliers applied to the employee's straight-time rate
+ */
+export const OVERTIME_MULTIPLIER = 1.5;
+export const DOUBLE_TIME_MULTIPLIER = 2;
+
+export interface CertifiedPayrollEmployee {
+  employeeId: string;
+  name: string;
+  employeeNumber: string | null;
+  classification: string;
+  wageDecision: string | null;
+  // Hours per day of the week (index 0 = first day of the payroll week)
+  straightTimeHours: number[];
+  overtimeHours: number[]; // Overtime and double time hours combined, as on the WH-347 "O" row
+  totalStraightTimeHours: number;
+  totalOvertimeHours: number;
+  totalDoubleTimeHours: number;
+  rate: number;
+  overtimeRate: number;
+  doubleTimeRate: number;
+  prevailingRate: number | null;
+  fringeRate: number;
+  belowPrevailingWage: boolean;
+  grossThisProject: number;
+  grossAllWork: number;
+  fringeBenefits: number;
+  // Deductions are not tracked yet and are left blank for the payroll provider to fill in
+  deductions: {
+    fica: number | null;
+    withholding: number | null;
+    other: number | null;
+    total: number | null;
+  };
+  netWages: number | null;
+}
+
+export interface CertifiedPayrollReport {
+  project: {
+    id: string;
+    name: string;
+    projectNumber: string;
+    location: string | null;
+    address: string | null;
+  };
+  weekStart: Date;
+  weekEnding: Date;
+  days: string[];
+  employees: CertifiedPayrollEmployee[];
+  totals: {
+    straightTimeHours: number;
+    overtimeHours: number;
+    grossThisProject: number;
+    fringeBenefits: number;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0]!;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Transform database wage rate to API format (snake_case to camelCase)
+ */
+const transformWageRateData = (rate: ProjectWageRate) => ({
+  id: rate.id,
+  projectId: rate.project_id,
+  classification: rate.classification,
+  wageDecision: rate.wage_decision,
+  baseRate: Number(rate.base_rate),
+  fringeRate: Number(rate.fringe_rate),
+  createdAt: rate.created_at,
+  updatedAt: rate.updated_at,
+});
+
+const validateWageRateData = (data: Partial<WageRateData>) => {
+  if (data.baseRate !== undefined && (isNaN(data.baseRate) || data.baseRate < 0)) {
+    throw new Error('Base rate must be a positive number');
+  }
+  if (data.fringeRate !== undefined && (isNaN(data.fringeRate) || data.fringeRate < 0)) {
+    throw new Error('Fringe rate must be a positive number');
+  }
+};
+
+/**
+ * Find an existing wage rate for a project classification (case-insensitive)
+ */
+const findWageRateByClassification = (projectId: string, classification: string) =>
+  prisma.projectWageRate.findFirst({
+    where: {
+      project_id: projectId,
+      classification: { equals: classification, mode: 'insensitive' },
+    },
+  });
+
+/**
+ * Get wage determination rates for a project
+ */
+export const getProjectWageRates = async (projectId: string) => {
+  try {
+    const rates = await prisma.projectWageRate.findMany({
+      where: { project_id: projectId },
+      orderBy: { classification: 'asc' },
+    });
+
+    return rates.map(transformWageRateData);
+  } catch (error) {
+    logger.error('Error fetching project wage rates', { projectId, error });
+    throw error;
+  }
+};
+
+/**
+ * Create a wage determination rate for a project classification
+ */
+export const createProjectWageRate = async (data: WageRateData, createdBy: string) => {
+  try {
+    validateWageRateData(data);
+
+    const project = await prisma.project.findFirst({
+      where: { id: data.projectId, deleted_at: null },
+      select: { id: true },
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const existing = await findWageRateByClassification(data.projectId, data.classification);
+    if (existing) {
+      throw new Error(`A wage rate for ${data.classification} already exists on this project`);
+    }
+
+    const rate = await prisma.projectWageRate.create({
+      data: {
+        project_id: data.projectId,
+        classification: data.classification,
+        wage_decision: data.wageDecision || null,
+        base_rate: new Decimal(data.baseRate),
+        fringe_rate: new Decimal(data.fringeRate || 0),
+        created_by: createdBy,
+        updated_by: createdBy,
+      },
+    });
+
+    logger.info('Project wage rate created', { wageRateId: rate.id, projectId: data.projectId });
+
+    return transformWageRateData(rate);
+  } catch (error) {
+    logger.error('Error creating project wage rate', { data, createdBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Update a wage determination rate
+ */
+export const updateProjectWageRate = async (
+  id: string,
+  data: Partial<Omit<WageRateData, 'projectId'>>,
+  updatedBy: string
+) => {
+  try {
+    validateWageRateData(data);
+
+    const existing = await prisma.projectWageRate.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Wage rate not found');
+    }
+
+    if (
+      data.classification &&
+      data.classification.toLowerCase() !== existing.classification.toLowerCase()
+    ) {
+      const duplicate = await findWageRateByClassification(existing.project_id, data.classification);
+      if (duplicate) {
+        throw new Error(`A wage rate for ${data.classification} already exists on this project`);
+      }
+    }
+
+    const updateData: Prisma.ProjectWageRateUpdateInput = {
+      updated_by: updatedBy,
+    };
+
+    if (data.classification !== undefined) updateData.classification = data.classification;
+    if (data.wageDecision !== undefined) updateData.wage_decision = data.wageDecision || null;
+    if (data.baseRate !== undefined) updateData.base_rate = new Decimal(data.baseRate);
+    if (data.fringeRate !== undefined) updateData.fringe_rate = new Decimal(data.fringeRate);
+
+    const rate = await prisma.projectWageRate.update({
+      where: { id },
+      data: updateData,
+    });
+
+    logger.info('Project wage rate updated', { wageRateId: id, updatedBy });
+
+    return transformWageRateData(rate);
+  } catch (error) {
+    logger.error('Error updating project wage rate', { id, data, updatedBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Delete a wage determination rate
+ */
+export const deleteProjectWageRate = async (id: string) => {
+  try {
+    const existing = await prisma.projectWageRate.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Wage rate not found');
+    }
+
+    await prisma.projectWageRate.delete({
+      where: { id },
+    });
+
+    logger.info('Project wage rate deleted', { wageRateId: id });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Error deleting project wage rate', { id, error });
+    throw error;
+  }
+};
+
+/**
+ * Generate the weekly certified payroll for a project.
+ * The payroll week is the 7 days ending on weekEnding. Overtime comes from the
+ * configured overtime policies; the straight-time rate is the employee's rate,
+ * raised to the project's wage determination rate when it is lower.
+ */
+export const generateCertifiedPayroll = async (
+  projectId: string,
+  weekEnding: Date
+): Promise<CertifiedPayrollReport> => {
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, deleted_at: null },
+      select: {
+        id: true,
+        name: true,
+        project_number: true,
+        location: true,
+        address: true,
+      },
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const weekEnd = new Date(`${toDateKey(weekEnding)}T00:00:00.000Z`);
+    const weekStart = new Date(weekEnd.getTime() - 6 * DAY_MS);
+    const days = Array.from({ length: 7 }, (_, i) =>
+      toDateKey(new Date(weekStart.getTime() + i * DAY_MS))
+    );
+
+    // All entries for the week, so overtime and "gross all work" include other projects
+    const { timeEntries, getEntryBreakdown } = await loadEntriesWithOvertime(weekStart, weekEnd);
+
+    const employeeIds = new Set(
+      timeEntries.filter((entry) => entry.project_id === projectId).map((entry) => entry.employee_id)
+    );
+    const employeeEntries = timeEntries.filter((entry) => employeeIds.has(entry.employee_id));
+
+    const wageRates = await prisma.projectWageRate.findMany({
+      where: {
+        project_id: { in: Array.from(new Set(employeeEntries.map((entry) => entry.project_id))) },
+      },
+    });
+
+    const findPrevailingRate = (entryProjectId: string, classification: string) =>
+      wageRates.find(
+        (rate) =>
+          rate.project_id === entryProjectId &&
+          rate.classification.toLowerCase() === classification.toLowerCase()
+      );
+
+    const employeeMap = new Map<string, CertifiedPayrollEmployee>();
+
+    employeeEntries.forEach((entry) => {
+      const { employee } = entry;
+      const prevailing = findPrevailingRate(entry.project_id, employee.classification);
+      const prevailingRate = prevailing ? Number(prevailing.base_rate) : null;
+      const actualRate = entry.hourly_rate
+        ? Number(entry.hourly_rate)
+        : employee.hourly_rate
+        ? Number(employee.hourly_rate)
+        : null;
+      const rate = Math.max(actualRate ?? 0, prevailingRate ?? 0);
+
+      const breakdown = getEntryBreakdown(entry.id);
+      const gross =
+        breakdown.regularHours * rate +
+        breakdown.overtimeHours * rate * OVERTIME_MULTIPLIER +
+        breakdown.doubleTimeHours * rate * DOUBLE_TIME_MULTIPLIER;
+
+      if (!employeeMap.has(entry.employee_id)) {
+        employeeMap.set(entry.employee_id, {
+          employeeId: entry.employee_id,
+          name: `${employee.last_name}, ${employee.first_name}`,
+          employeeNumber: employee.employee_number,
+          classification: employee.classification,
+          wageDecision: null,
+          straightTimeHours: days.map(() => 0),
+          overtimeHours: days.map(() => 0),
+          totalStraightTimeHours: 0,
+          totalOvertimeHours: 0,
+          totalDoubleTimeHours: 0,
+          rate: 0,
+          overtimeRate: 0,
+          doubleTimeRate: 0,
+          prevailingRate: null,
+          fringeRate: 0,
+          belowPrevailingWage: false,
+          grossThisProject: 0,
+          grossAllWork: 0,
+          fringeBenefits: 0,
+          deductions: { fica: null, withholding: null, other: null, total: null },
+          netWages: null,
+        });
+      }
+
+      const employeeData = employeeMap.get(entry.employee_id)!;
+      employeeData.grossAllWork += gross;
+
+      if (entry.project_id !== projectId) return;
+
+      const dayIndex = days.indexOf(toDateKey(entry.date));
+      employeeData.straightTimeHours[dayIndex] =
+        (employeeData.straightTimeHours[dayIndex] || 0) + breakdown.regularHours;
+      employeeData.overtimeHours[dayIndex] =
+        (employeeData.overtimeHours[dayIndex] || 0) +
+        breakdown.overtimeHours +
+        breakdown.doubleTimeHours;
+      employeeData.totalStraightTimeHours += breakdown.regularHours;
+      employeeData.totalOvertimeHours += breakdown.overtimeHours + breakdown.doubleTimeHours;
+      employeeData.totalDoubleTimeHours += breakdown.doubleTimeHours;
+      employeeData.grossThisProject += gross;
+
+      const fringeRate = prevailing ? Number(prevailing.fringe_rate) : 0;
+      employeeData.fringeBenefits += Number(entry.hours_worked) * fringeRate;
+
+      // Report the highest straight-time rate paid on this project for the week
+      if (rate >= employeeData.rate) {
+        employeeData.rate = rate;
+        employeeData.overtimeRate = round2(rate * OVERTIME_MULTIPLIER);
+        employeeData.doubleTimeRate = round2(rate * DOUBLE_TIME_MULTIPLIER);
+      }
+      employeeData.prevailingRate = prevailingRate;
+      employeeData.fringeRate = fringeRate;
+      employeeData.wageDecision = prevailing?.wage_decision || null;
+      if (prevailingRate !== null && (actualRate === null || actualRate < prevailingRate)) {
+        employeeData.belowPrevailingWage = true;
+      }
+    });
+
+    const employees = Array.from(employeeMap.values())
+      .map((employee) => ({
+        ...employee,
+        straightTimeHours: employee.straightTimeHours.map(round2),
+        overtimeHours: employee.overtimeHours.map(round2),
+        totalStraightTimeHours: round2(employee.totalStraightTimeHours),
+        totalOvertimeHours: round2(employee.totalOvertimeHours),
+        totalDoubleTimeHours: round2(employee.totalDoubleTimeHours),
+        grossThisProject: round2(employee.grossThisProject),
+        grossAllWork: round2(employee.grossAllWork),
+        fringeBenefits: round2(employee.fringeBenefits),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    const report: CertifiedPayrollReport = {
+      project: {
+        id: project.id,
+        name: project.name,
+        projectNumber: project.project_number,
+        location: project.location,
+        address: project.address,
+      },
+      weekStart,
+      weekEnding: weekEnd,
+      days,
+      employees,
+      totals: {
+        straightTimeHours: round2(employees.reduce((sum, e) => sum + e.totalStraightTimeHours, 0)),
+        overtimeHours: round2(employees.reduce((sum, e) => sum + e.totalOvertimeHours, 0)),
+        grossThisProject: round2(employees.reduce((sum, e) => sum + e.grossThisProject, 0)),
+        fringeBenefits: round2(employees.reduce((sum, e) => sum + e.fringeBenefits, 0)),
+      },
+    };
+
+    logger.info('Certified payroll generated', {
+      projectId,
+      weekEnding: days[6],
+      employeeCount: employees.length,
+    });
+
+    return report;
+  } catch (error) {
+    logger.error('Error generating certified payroll', { projectId, weekEnding, error });
+    throw error;
+  }
+};
+
+/**
+ * Export certified payroll as CSV
+ * One straight-time ("S") and one overtime ("O") row per employee, as on the WH-347
+ */
+export const exportCertifiedPayrollCSV = async (
+  projectId: string,
+  weekEnding: Date
+): Promise<string> => {
+  try {
+    const report = await generateCertifiedPayroll(projectId, weekEnding);
+
+    // CSV Headers
+    const headers = [
+      'Project Number',
+      'Project Name',
+      'Week Ending',
+      'Employee ID',
+      'Employee Number',
+      'Name',
+      'Classification',
+      'Wage Decision',
+      'Hours Type',
+      ...report.days,
+      'Total Hours',
+      'Rate of Pay',
+      'Prevailing Rate',
+      'Fringe Rate',
+      'Gross This Project',
+      'Gross All Work',
+      'Fringe Benefits',
+      'FICA',
+      'Withholding',
+      'Other Deductions',
+      'Total Deductions',
+      'Net Wages',
+    ];
+
+    const rows: string[][] = [headers];
+
+    // Add data rows
+    report.employees.forEach((employee) => {
+      const common = [
+        report.project.projectNumber,
+        report.project.name,
+        report.days[6]!,
+        employee.employeeId,
+        employee.employeeNumber || '',
+        employee.name,
+        employee.classification,
+        employee.wageDecision || '',
+      ];
+
+      rows.push([
+        ...common,
+        'S',
+        ...employee.straightTimeHours.map((hours) => hours.toFixed(2)),
+        employee.totalStraightTimeHours.toFixed(2),
+        employee.rate.toFixed(2),
+        employee.prevailingRate !== null ? employee.prevailingRate.toFixed(2) : '',
+        employee.fringeRate.toFixed(2),
+        employee.grossThisProject.toFixed(2),
+        employee.grossAllWork.toFixed(2),
+        employee.fringeBenefits.toFixed(2),
+        '',
+        '',
+        '',
+        '',
+        '',
+      ]);
+
+      rows.push([
+        ...common,
+        'O',
+        ...employee.overtimeHours.map((hours) => hours.toFixed(2)),
+        employee.totalOvertimeHours.toFixed(2),
+        employee.overtimeRate.toFixed(2),
+        ...Array(10).fill(''),
+      ]);
+    });
+
+    // Convert to CSV string
+    const csv = rows.map((row) => row.map((cell) => `"${cell}"`).join(',')).join('\n');
+
+    logger.info('Certified payroll CSV exported', { projectId, rowCount: rows.length - 1 });
+
+    return csv;
+  } catch (error) {
+    logger.error('Error exporting certified payroll CSV', { projectId, weekEnding, error });
+    throw error;
+  }
+};
@@ -0,0 +1,583 @@
+/**
+ * Change Order Service
+ *
+ * Business logic for project change orders including:
+ * - Numbered change orders (CO-001, CO-002, ...) per project
+ * - Line items in the quote LineItem shape, with labor-unit estimates
+ * - Status workflow (draft, submitted, approved, rejected)
+ * - Contract value and budget adjustment on approval
+ * - Change order log data for the PDF export
+ */
+
+import { randomUUID } from 'crypto';
+import { PrismaClient, ChangeOrder, ChangeOrderStatus, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
+import {
+  LineItem,
+  LineItemTotals,
+  applyLineItemEstimates,
+  calculateLineItemTotals,
+  getInvalidEstimateField,
+} from './quote.service';
+
+const prisma = new PrismaClient();
+
+export interface ChangeOrderFilters {
+  status?: ChangeOrderStatus;
+}
+
+export interface CreateChangeOrderData {
+  title: string;
+  description?: string | null;
+  reason?: string | null;
+  line_items: LineItem[];
+  schedule_impact_days?: number;
+  notes?: string | null;
+}
+
+export type UpdateChangeOrderData = Partial<CreateChangeOrderData>;
+
+export interface ChangeOrderStatusData {
+  status: ChangeOrderStatus;
+  client_approval_date?: Date;
+  rejection_reason?: string | null;
+}
+
+type UserSummary = { id: string; first_name: string; last_name: string };
+
+export type ChangeOrderWithRelations = Omit<ChangeOrder, 'subtotal' | 'tax' | 'total' | 'line_items'> & {
+  co_label: string;
+  line_items: LineItem[];
+  subtotal: number;
+  tax: number | null;
+  total: number;
+  creator: UserSummary;
+  approver: UserSummary | null;
+};
+
+export interface ChangeOrderLog {
+  project: {
+    id: string;
+    name: string;
+    project_number: string;
+    client_name: string;
+    address: string | null;
+    estimated_end_date: Date | null;
+  };
+  originalContract: number;
+  approvedTotal: number;
+  pendingTotal: number;
+  revisedContract: number;
+  approvedScheduleDays: number;
+  changeOrders: ChangeOrderWithRelations[];
+}
+
+// Allowed status transitions; approved change orders are final
+const STATUS_TRANSITIONS: Record<ChangeOrderStatus, ChangeOrderStatus[]> = {
+  DRAFT: ['SUBMITTED'],
+  SUBMITTED: ['APPROVED', 'REJECTED', 'DRAFT'],
+  APPROVED: [],
+  REJECTED: ['DRAFT'],
+};
+
+const userSelect = {
+  select: {
+    id: true,
+    first_name: true,
+    last_name: true,
+  },
+};
+
+const changeOrderInclude = {
+  creator: userSelect,
+  approver: userSelect,
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Format a change order number for display (CO-001)
+ */
+export const formatChangeOrderNumber = (coNumber: number): string =>
+  `CO-${String(coNumber).padStart(3, '0')}`;
+
+/**
+ * Convert Prisma Decimals to numbers and add the display number
+ */
+const transformChangeOrder = (
+  changeOrder: ChangeOrder & { creator: UserSummary; approver: UserSummary | null }
+): ChangeOrderWithRelations => ({
+  ...changeOrder,
+  co_label: formatChangeOrderNumber(changeOrder.co_number),
+  line_items: (changeOrder.line_items as unknown as LineItem[] | null) || [],
+  subtotal: Number(changeOrder.subtotal),
+  tax: changeOrder.tax !== null ? Number(changeOrder.tax) : null,
+  total: Number(changeOrder.total),
+});
+
+/**
+ * Ensure the project exists and is not deleted
+ */
+const ensureProject = async (projectId: string) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, deleted_at: null },
+    select: { id: true, name: true, project_number: true },
+  });
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  return project;
+};
+
+/**
+ * Validate change order line items and derive their totals.
+ * Negative unit prices are allowed so a change order can credit deleted scope.
+ */
+const prepareLineItems = (lineItems: LineItem[]): { items: LineItem[]; totals: LineItemTotals } => {
+  if (!Array.isArray(lineItems) || lineItems.length === 0) {
+    throw new Error('At least one line item is required');
+  }
+
+  const priced = applyLineItemEstimates(lineItems).map((item) => {
+    if (!item.description || !item.description.trim()) {
+      throw new Error('Missing required fields: line item description');
+    }
+
+    if (!item.unit || !item.unit.trim()) {
+      throw new Error('Missing required fields: line item unit');
+    }
+
+    const invalidEstimateField = getInvalidEstimateField(item);
+    if (invalidEstimateField) {
+      throw new Error(`Line item ${invalidEstimateField} must be a non-negative number`);
+    }
+
+    const quantity = Number(item.quantity);
+    const unitPrice = Number(item.unit_price);
+
+    if (isNaN(quantity) || quantity <= 0) {
+      throw new Error('Line item quantity must be greater than zero');
+    }
+
+    if (isNaN(unitPrice)) {
+      throw new Error('Line item unit price must be a number');
+    }
+
+    return {
+      ...item,
+      id: item.id || randomUUID(),
+      description: item.description.trim(),
+      unit: item.unit.trim(),
+      quantity,
+      unit_price: unitPrice,
+      total: roundCurrency(quantity * unitPrice),
+    };
+  });
+
+  // Change orders are priced at the contract's terms; no sales tax is added on top
+  const totals = calculateLineItemTotals(priced);
+  return { items: priced, totals: { ...totals, tax: 0, total: totals.subtotal } };
+};
+
+/**
+ * Validate change order header fields, checking only the fields that are present
+ */
+const validateChangeOrderData = (data: UpdateChangeOrderData, requireAll: boolean): void => {
+  if (requireAll || data.title !== undefined) {
+    if (!data.title || !data.title.trim()) {
+      throw new Error('Missing required fields: title');
+    }
+  }
+
+  if (data.schedule_impact_days !== undefined) {
+    if (!Number.isInteger(data.schedule_impact_days)) {
+      throw new Error('Schedule impact days must be a whole number');
+    }
+  }
+};
+
+/**
+ * Get change orders for a project, in number order
+ */
+export const getProjectChangeOrders = async (
+  projectId: string,
+  filters: ChangeOrderFilters = {}
+): Promise<ChangeOrderWithRelations[]> => {
+  try {
+    await ensureProject(projectId);
+
+    const where: Prisma.ChangeOrderWhereInput = { project_id: projectId };
+    if (filters.status) where.status = filters.status;
+
+    const changeOrders = await prisma.changeOrder.findMany({
+      where,
+      include: changeOrderInclude,
+      orderBy: { co_number: 'asc' },
+    });
+
+    logger.info('Project change orders retrieved', { projectId, count: changeOrders.length });
+    return changeOrders.map(transformChangeOrder);
+  } catch (error) {
+    logger.error('Error retrieving project change orders', { error, projectId });
+    throw error;
+  }
+};
+
+/**
+ * Get a single change order
+ */
+export const getChangeOrderById = async (
+  projectId: string,
+  changeOrderId: string
+): Promise<ChangeOrderWithRelations> => {
+  const changeOrder = await prisma.changeOrder.findFirst({
+    where: { id: changeOrderId, project_id: projectId },
+    include: changeOrderInclude,
+  });
+
+  if (!changeOrder) {
+    throw new Error('Change order not found');
+  }
+
+  return transformChangeOrder(changeOrder);
+};
+
+/**
+ * Create a change order (starts as DRAFT with the next number on the project)
+ */
+export const createChangeOrder = async (
+  projectId: string,
+  data: CreateChangeOrderData,
+  userId: string,
+  ipAddress?: string
+): Promise<ChangeOrderWithRelations> => {
+  try {
+    await ensureProject(projectId);
+    validateChangeOrderData(data, true);
+
+    const { items, totals } = prepareLineItems(data.line_items);
+
+    const changeOrder = await prisma.$transaction(async (tx) => {
+      const last = await tx.changeOrder.findFirst({
+        where: { project_id: projectId },
+        orderBy: { co_number: 'desc' },
+        select: { co_number: true },
+      });
+
+      return tx.changeOrder.create({
+        data: {
+          project_id: projectId,
+          co_number: (last?.co_number || 0) + 1,
+          title: data.title.trim(),
+          description: data.description || null,
+          reason: data.reason || null,
+          line_items: items as unknown as Prisma.InputJsonValue,
+          subtotal: totals.subtotal,
+          tax: null,
+          total: totals.total,
+          schedule_impact_days: data.schedule_impact_days || 0,
+          notes: data.notes || null,
+          created_by: userId,
+          updated_by: userId,
+        },
+        include: changeOrderInclude,
+      });
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'CREATE_CHANGE_ORDER',
+      entityType: 'CHANGE_ORDER',
+      entityId: changeOrder.id,
+      after: changeOrder,
+      ipAddress,
+    });
+
+    logger.info('Change order created', {
+      projectId,
+      changeOrderId: changeOrder.id,
+      coNumber: changeOrder.co_number,
+      userId,
+    });
+    return transformChangeOrder(changeOrder);
+  } catch (error) {
+    logger.error('Error creating change order', { error, projectId });
+    throw error;
+  }
+};
+
+/**
+ * Update a change order. Only drafts and rejected change orders can be edited;
+ * editing a rejected change order returns it to draft.
+ */
+export const updateChangeOrder = async (
+  projectId: string,
+  changeOrderId: string,
+  data: UpdateChangeOrderData,
+  userId: string,
+  ipAddress?: string
+): Promise<ChangeOrderWithRelations> => {
+  try {
+    const existing = await getChangeOrderById(projectId, changeOrderId);
+
+    if (existing.status === 'SUBMITTED' || existing.status === 'APPROVED') {
+      throw new Error(`${existing.status === 'APPROVED' ? 'Approved' : 'Submitted'} change orders cannot be edited`);
+    }
+
+    validateChangeOrderData(data, false);
+
+    const updateData: Prisma.ChangeOrderUncheckedUpdateInput = { updated_by: userId };
+    if (data.title !== undefined) updateData.title = data.title.trim();
+    if (data.description !== undefined) updateData.description = data.description || null;
+    if (data.reason !== undefined) updateData.reason = data.reason || null;
+    if (data.schedule_impact_days !== undefined) updateData.schedule_impact_days = data.schedule_impact_days;
+    if (data.notes !== undefined) updateData.notes = data.notes || null;
+
+    if (data.line_items !== undefined) {
+      const { items, totals } = prepareLineItems(data.line_items);
+      updateData.line_items = items as unknown as Prisma.InputJsonValue;
+      updateData.subtotal = totals.subtotal;
+      updateData.tax = null;
+      updateData.total = totals.total;
+    }
+
+    if (existing.status === 'REJECTED') {
+      updateData.status = 'DRAFT';
+      updateData.rejected_at = null;
+      updateData.rejection_reason = null;
+    }
+
+    const changeOrder = await prisma.changeOrder.update({
+      where: { id: changeOrderId },
+      data: updateData,
+      include: changeOrderInclude,
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'UPDATE_CHANGE_ORDER',
+      entityType: 'CHANGE_ORDER',
+      entityId: changeOrderId,
+      before: existing,
+      after: changeOrder,
+      ipAddress,
+    });
+
+    logger.info('Change order updated', { projectId, changeOrderId, userId });
+    return transformChangeOrder(changeOrder);
+  } catch (error) {
+    logger.error('Error updating change order', { error, projectId, changeOrderId });
+    throw error;
+  }
+};
+
+/**
+ * Move a change order through the workflow. Approval adds the change order
+ * total to the project contract value, and its subtotal and line items to the
+ * budget and budget breakdown, in one transaction, so the budget still equals
+ * the sum of its line items.
+ */
+export const updateChangeOrderStatus = async (
+  projectId: string,
+  changeOrderId: string,
+  data: ChangeOrderStatusData,
+  userId: string,
+  ipAddress?: string
+): Promise<ChangeOrderWithRelations> => {
+  try {
+    const existing = await getChangeOrderById(projectId, changeOrderId);
+    const { status } = data;
+
+    if (!STATUS_TRANSITIONS[existing.status].includes(status)) {
+      throw new Error(`Change order cannot be moved from ${existing.status} to ${status}`);
+    }
+
+    if (data.client_approval_date && isNaN(data.client_approval_date.getTime())) {
+      throw new Error('Client approval date must be a valid date');
+    }
+
+    const now = new Date();
+
+    const changeOrder = await prisma.$transaction(async (tx) => {
+      // Only move from the status we read, so concurrent approvals cannot apply twice
+      const moved = await tx.changeOrder.updateMany({
+        where: { id: changeOrderId, status: existing.status },
+        data: {
+          status,
+          updated_by: userId,
+          submitted_at: status === 'SUBMITTED' ? now : status === 'DRAFT' ? null : undefined,
+          client_approval_date: status === 'APPROVED' ? data.client_approval_date || now : undefined,
+          approved_by: status === 'APPROVED' ? userId : undefined,
+          approved_at: status === 'APPROVED' ? now : undefined,
+          rejected_at: status === 'REJECTED' ? now : status === 'DRAFT' ? null : undefined,
+          rejection_reason:
+            status === 'REJECTED' ? data.rejection_reason || null : status === 'DRAFT' ? null : undefined,
+        },
+      });
+
+      if (moved.count === 0) {
+        throw new Error('Change order cannot be updated because its status has changed');
+      }
+
+      if (status === 'APPROVED') {
+        const project = await tx.project.findUniqueOrThrow({
+          where: { id: projectId },
+          select: { contract_value: true, budget: true },
+        });
+
+        // Projects created before change orders carry the contract in the budget
+        const contractValue =
+          project.contract_value !== null ? Number(project.contract_value) : Number(project.budget ?? 0);
+
+        await tx.project.update({
+          where: { id: projectId },
+          data: {
+            contract_value: roundCurrency(contractValue + existing.total),
+            budget: roundCurrency(Number(project.budget ?? 0) + existing.subtotal),
+            updated_by: userId,
+          },
+        });
+
+        const sortStart = await tx.projectBudgetItem.count({ where: { project_id: projectId } });
+
+        await tx.projectBudgetItem.createMany({
+          data: existing.line_items.map((item, index) => ({
+            project_id: projectId,
+            category: item.category || 'General',
+            description: `${existing.co_label}: ${item.description}`,
+            quantity: Number(item.quantity),
+            unit: item.unit,
+            unit_price: Number(item.unit_price),
+            total: Number(item.total),
+            sort_order: sortStart + index,
+            quote_line_item_id: item.id || null,
+            change_order_id: changeOrderId,
+          })),
+        });
+      }
+
+      return tx.changeOrder.findUniqueOrThrow({
+        where: { id: changeOrderId },
+        include: changeOrderInclude,
+      });
+    });
+
+    const actions: Record<ChangeOrderStatus, string> = {
+      DRAFT: 'RECALL_CHANGE_ORDER',
+      SUBMITTED: 'SUBMIT_CHANGE_ORDER',
+      APPROVED: 'APPROVE_CHANGE_ORDER',
+      REJECTED: 'REJECT_CHANGE_ORDER',
+    };
+
+    await recordAuditLog({
+      actorId: userId,
+      action: actions[status],
+      entityType: 'CHANGE_ORDER',
+      entityId: changeOrderId,
+      before: { status: existing.status },
+      after: {
+        status,
+        client_approval_date: changeOrder.client_approval_date,
+        rejection_reason: changeOrder.rejection_reason,
+        ...(status === 'APPROVED' ? { contract_adjustment: existing.total } : {}),
+      },
+      ipAddress,
+    });
+
+    logger.info('Change order status updated', { projectId, changeOrderId, status, userId });
+    return transformChangeOrder(changeOrder);
+  } catch (error) {
+    logger.error('Error updating change order status', { error, projectId, changeOrderId, status: data.status });
+    throw error;
+  }
+};
+
+/**
+ * Delete a change order. Only drafts and rejected change orders can be deleted.
+ */
+export const deleteChangeOrder = async (
+  projectId: string,
+  changeOrderId: string,
+  userId: string,
+  ipAddress?: string
+): Promise<void> => {
+  try {
+    const existing = await getChangeOrderById(projectId, changeOrderId);
+
+    if (existing.status === 'SUBMITTED' || existing.status === 'APPROVED') {
+      throw new Error(`${existing.status === 'APPROVED' ? 'Approved' : 'Submitted'} change orders cannot be deleted`);
+    }
+
+    await prisma.changeOrder.delete({ where: { id: changeOrderId } });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'DELETE_CHANGE_ORDER',
+      entityType: 'CHANGE_ORDER',
+      entityId: changeOrderId,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Change order deleted', { projectId, changeOrderId, userId });
+  } catch (error) {
+    logger.error('Error deleting change order', { error, projectId, changeOrderId });
+    throw error;
+  }
+};
+
+/**
+ * Get the change order log for a project: every change order with the
+ * original contract, approved and pending totals and the revised contract
+ */
+export const getChangeOrderLog = async (projectId: string): Promise<ChangeOrderLog> => {
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, deleted_at: null },
+      include: { client: { select: { name: true } } },
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const changeOrders = await getProjectChangeOrders(projectId);
+
+    const sumTotals = (statuses: ChangeOrderStatus[]): number =>
+      changeOrders
+        .filter((changeOrder) => statuses.includes(changeOrder.status))
+        .reduce((sum, changeOrder) => sum + changeOrder.total, 0);
+
+    const approvedTotal = sumTotals(['APPROVED']);
+    const pendingTotal = sumTotals(['SUBMITTED']);
+
+    // The contract value already includes approved change orders
+    const revisedContract =
+      project.contract_value !== null ? Number(project.contract_value) : Number(project.budget ?? 0);
+
+    return {
+      project: {
+        id: project.id,
+        name: project.name,
+        project_number: project.project_number,
+        client_name: project.client.name,
+        address: project.address,
+        estimated_end_date: project.estimated_end_date,
+      },
+      originalContract: roundCurrency(revisedContract - approvedTotal),
+      approvedTotal: roundCurrency(approvedTotal),
+      pendingTotal: roundCurrency(pendingTotal),
+      revisedContract: roundCurrency(revisedContract),
+      approvedScheduleDays: changeOrders
+        .filter((changeOrder) => changeOrder.status === 'APPROVED')
+        .reduce((sum, changeOrder) => sum + changeOrder.schedule_impact_days, 0),
+      changeOrders,
+    };
+  } catch (error) {
+    logger.error('Error building change order log', { error, projectId });
+    throw error;
+  }
+};
@@ -0,0 +1,414 @@
+import { CostCode, Prisma, ProjectCostCode } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { Decimal } from '@prisma/client/runtime/library';
+import { recordAuditLog } from './audit.service';
+
+/**
+ * Cost Code Service
+ * Company catalog of job cost phases (rough-in, trim, service, low voltage),
+ * the codes enabled on each project and their budgets
+ */
+
+interface CostCodeData {
+  code: string;
+  name: string;
+  description?: string | null;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+interface ProjectCostCodeData {
+  budgetHours?: number | null;
+  budgetAmount?: number | null;
+}
+
+/**
+ * Transform snake_case Prisma response to camelCase for frontend
+ */
+export function transformCostCodeData(costCode: CostCode) {
+  return {
+    id: costCode.id,
+    code: costCode.code,
+    name: costCode.name,
+    description: costCode.description,
+    sortOrder: costCode.sort_order,
+    isActive: costCode.is_active,
+    createdAt: costCode.created_at,
+    updatedAt: costCode.updated_at,
+  };
+}
+
+/**
+ * Transform a project cost code (with its catalog entry) for frontend
+ */
+function transformProjectCostCodeData(projectCostCode: ProjectCostCode & { cost_code: CostCode }) {
+  return {
+    id: projectCostCode.id,
+    projectId: projectCostCode.project_id,
+    costCodeId: projectCostCode.cost_code_id,
+    budgetHours: projectCostCode.budget_hours !== null ? Number(projectCostCode.budget_hours) : null,
+    budgetAmount: projectCostCode.budget_amount !== null ? Number(projectCostCode.budget_amount) : null,
+    costCode: transformCostCodeData(projectCostCode.cost_code),
+    createdAt: projectCostCode.created_at,
+    updatedAt: projectCostCode.updated_at,
+  };
+}
+
+/**
+ * Validate cost code fields that are present
+ */
+const validateCostCodeData = (data: Partial<CostCodeData>) => {
+  if (data.code !== undefined && !data.code.trim()) {
+    throw new Error('Cost code is required');
+  }
+
+  if (data.name !== undefined && !data.name.trim()) {
+    throw new Error('Cost code name is required');
+  }
+};
+
+/**
+ * Validate project budget fields that are present
+ */
+const validateProjectCostCodeData = (data: ProjectCostCodeData) => {
+  if (data.budgetHours !== undefined && data.budgetHours !== null && (isNaN(data.budgetHours) || data.budgetHours < 0)) {
+    throw new Error('Budget hours must be zero or more');
+  }
+
+  if (data.budgetAmount !== undefined && data.budgetAmount !== null && (isNaN(data.budgetAmount) || data.budgetAmount < 0)) {
+    throw new Error('Budget amount must be zero or more');
+  }
+};
+
+/**
+ * Ensure a cost code can be charged on a project: a code is required, must be
+ * active in the catalog and must be enabled on the project
+ */
+export const validateProjectCostCode = async (projectId: string, costCodeId?: string | null) => {
+  if (!costCodeId) {
+    throw new Error('Cost code is required');
+  }
+
+  const projectCostCode = await prisma.projectCostCode.findUnique({
+    where: { project_id_cost_code_id: { project_id: projectId, cost_code_id: costCodeId } },
+    include: { cost_code: true },
+  });
+
+  if (!projectCostCode || !projectCostCode.cost_code.is_active) {
+    throw new Error('Cost code must be an active code enabled for this project');
+  }
+};
+
+/**
+ * Get cost codes in catalog order
+ */
+export const getCostCodes = async (includeInactive: boolean = false) => {
+  try {
+    const costCodes = await prisma.costCode.findMany({
+      where: includeInactive ? {} : { is_active: true },
+      orderBy: [{ sort_order: 'asc' }, { code: 'asc' }],
+    });
+
+    return costCodes.map(transformCostCodeData);
+  } catch (error) {
+    logger.error('Error fetching cost codes', { error });
+    throw error;
+  }
+};
+
+/**
+ * Create a cost code
+ */
+export const createCostCode = async (data: CostCodeData, createdBy: string, ipAddress?: string) => {
+  try {
+    validateCostCodeData(data);
+
+    const existing = await prisma.costCode.findUnique({
+      where: { code: data.code.trim() },
+    });
+    if (existing) {
+      throw new Error(`Cost code ${data.code.trim()} already exists`);
+    }
+
+    const costCode = await prisma.costCode.create({
+      data: {
+        code: data.code.trim(),
+        name: data.name.trim(),
+        description: data.description || null,
+        sort_order: data.sortOrder ?? 0,
+        is_active: data.isActive ?? true,
+        created_by: createdBy,
+        updated_by: createdBy,
+      },
+    });
+
+    await recordAuditLog({
+      actorId: createdBy,
+      action: 'CREATE_COST_CODE',
+      entityType: 'COST_CODE',
+      entityId: costCode.id,
+      after: costCode,
+      ipAddress,
+    });
+
+    logger.info('Cost code created', { costCodeId: costCode.id, createdBy });
+
+    return transformCostCodeData(costCode);
+  } catch (error) {
+    logger.error('Error creating cost code', { data, createdBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Update a cost code
+ */
+export const updateCostCode = async (
+  id: string,
+  data: Partial<CostCodeData>,
+  updatedBy: string,
+  ipAddress?: string
+) => {
+  try {
+    const existing = await prisma.costCode.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Cost code not found');
+    }
+
+    validateCostCodeData(data);
+
+    if (data.code && data.code.trim() !== existing.code) {
+      const duplicate = await prisma.costCode.findUnique({
+        where: { code: data.code.trim() },
+      });
+      if (duplicate) {
+        throw new Error(`Cost code ${data.code.trim()} already exists`);
+      }
+    }
+
+    const updateData: Prisma.CostCodeUpdateInput = {
+      updated_by: updatedBy,
+    };
+
+    if (data.code !== undefined) updateData.code = data.code.trim();
+    if (data.name !== undefined) updateData.name = data.name.trim();
+    if (data.description !== undefined) updateData.description = data.description || null;
+    if (data.sortOrder !== undefined) updateData.sort_order = data.sortOrder;
+    if (data.isActive !== undefined) updateData.is_active = data.isActive;
+
+    const costCode = await prisma.costCode.update({
+      where: { id },
+      data: updateData,
+    });
+
+    await recordAuditLog({
+      actorId: updatedBy,
+      action: 'UPDATE_COST_CODE',
+      entityType: 'COST_CODE',
+      entityId: id,
+      before: existing,
+      after: costCode,
+      ipAddress,
+    });
+
+    logger.info('Cost code updated', { costCodeId: id, updatedBy });
+
+    return transformCostCodeData(costCode);
+  } catch (error) {
+    logger.error('Error updating cost code', { id, data, updatedBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Delete a cost code. Codes that have been charged are kept for job cost
+ * history and must be deactivated instead.
+ */
+export const deleteCostCode = async (id: string, deletedBy: string, ipAddress?: string) => {
+  try {
+    const existing = await prisma.costCode.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Cost code not found');
+    }
+
+    const [timeEntryCount, expenseCount] = await Promise.all([
+      prisma.timeEntry.count({ where: { cost_code_id: id } }),
+      prisma.projectExpense.count({ where: { cost_code_id: id } }),
+    ]);
+
+    if (timeEntryCount > 0 || expenseCount > 0) {
+      throw new Error('Cost code has been charged and cannot be deleted; deactivate it instead');
+    }
+
+    await prisma.$transaction([
+      prisma.projectCostCode.deleteMany({ where: { cost_code_id: id } }),
+      prisma.costCode.delete({ where: { id } }),
+    ]);
+
+    await recordAuditLog({
+      actorId: deletedBy,
+      action: 'DELETE_COST_CODE',
+      entityType: 'COST_CODE',
+      entityId: id,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Cost code deleted', { costCodeId: id, deletedBy });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Error deleting cost code', { id, error });
+    throw error;
+  }
+};
+
+/**
+ * Get the cost codes enabled on a project with their budgets
+ */
+export const getProjectCostCodes = async (projectId: string, includeInactive: boolean = false) => {
+  try {
+    const projectCostCodes = await prisma.projectCostCode.findMany({
+      where: {
+        project_id: projectId,
+        ...(includeInactive ? {} : { cost_code: { is_active: true } }),
+      },
+      include: { cost_code: true },
+      orderBy: [{ cost_code: { sort_order: 'asc' } }, { cost_code: { code: 'asc' } }],
+    });
+
+    return projectCostCodes.map(transformProjectCostCodeData);
+  } catch (error) {
+    logger.error('Error fetching project cost codes', { projectId, error });
+    throw error;
+  }
+};
+
+/**
+ * Enable a cost code on a project or update its budget
+ */
+export const setProjectCostCode = async (
+  projectId: string,
+  costCodeId: string,
+  data: ProjectCostCodeData,
+  userId: string,
+  ipAddress?: string
+) => {
+  try {
+    validateProjectCostCodeData(data);
+
+    const [project, costCode, existing] = await Promise.all([
+      prisma.project.findFirst({ where: { id: projectId, deleted_at: null }, select: { id: true } }),
+      prisma.costCode.findUnique({ where: { id: costCodeId } }),
+      prisma.projectCostCode.findUnique({
+        where: { project_id_cost_code_id: { project_id: projectId, cost_code_id: costCodeId } },
+      }),
+    ]);
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    if (!costCode) {
+      throw new Error('Cost code not found');
+    }
+
+    const budgetData: Pick<Prisma.ProjectCostCodeUncheckedCreateInput, 'budget_hours' | 'budget_amount'> = {};
+    if (data.budgetHours !== undefined) {
+      budgetData.budget_hours = data.budgetHours !== null ? new Decimal(data.budgetHours) : null;
+    }
+    if (data.budgetAmount !== undefined) {
+      budgetData.budget_amount = data.budgetAmount !== null ? new Decimal(data.budgetAmount) : null;
+    }
+
+    const projectCostCode = await prisma.projectCostCode.upsert({
+      where: { project_id_cost_code_id: { project_id: projectId, cost_code_id: costCodeId } },
+      create: {
+        project_id: projectId,
+        cost_code_id: costCodeId,
+        ...budgetData,
+        created_by: userId,
+        updated_by: userId,
+      },
+      update: {
+        ...budgetData,
+        updated_by: userId,
+      },
+      include: { cost_code: true },
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: existing ? 'UPDATE_PROJECT_COST_CODE' : 'CREATE_PROJECT_COST_CODE',
+      entityType: 'PROJECT_COST_CODE',
+      entityId: projectCostCode.id,
+      before: existing,
+      after: projectCostCode,
+      ipAddress,
+    });
+
+    logger.info('Project cost code saved', { projectId, costCodeId, userId });
+
+    return transformProjectCostCodeData(projectCostCode);
+  } catch (error) {
+    logger.error('Error saving project cost code', { projectId, costCodeId, data, userId, error });
+    throw error;
+  }
+};
+
+/**
+ * Disable a cost code on a project. Codes already charged on the project stay
+ * enabled so their history keeps its budget.
+ */
+export const removeProjectCostCode = async (
+  projectId: string,
+  costCodeId: string,
+  userId: string,
+  ipAddress?: string
+) => {
+  try {
+    const existing = await prisma.projectCostCode.findUnique({
+      where: { project_id_cost_code_id: { project_id: projectId, cost_code_id: costCodeId } },
+    });
+
+    if (!existing) {
+      throw new Error('Project cost code not found');
+    }
+
+    const [timeEntryCount, expenseCount] = await Promise.all([
+      prisma.timeEntry.count({ where: { project_id: projectId, cost_code_id: costCodeId } }),
+      prisma.projectExpense.count({ where: { project_id: projectId, cost_code_id: costCodeId } }),
+    ]);
+
+    if (timeEntryCount > 0 || expenseCount > 0) {
+      throw new Error('Cost code has been charged on this project and cannot be removed');
+    }
+
+    await prisma.projectCostCode.delete({
+      where: { id: existing.id },
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'DELETE_PROJECT_COST_CODE',
+      entityType: 'PROJECT_COST_CODE',
+      entityId: existing.id,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Project cost code removed', { projectId, costCodeId, userId });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Error removing project cost code', { projectId, costCodeId, error });
+    throw error;
+  }
+};
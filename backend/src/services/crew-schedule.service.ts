@@ -0,0 +1,433 @@
+/**
+ * Crew Schedule Service
+ *
+ * Business logic for planning crews by day including:
+ * - Assigning employees to projects per day (week calendar)
+ * - Conflict detection (double-booked, on leave, missing or expired certification)
+ * - Prefilling the daily sign-in sheet from the day's schedule
+ */
+
+import { PrismaClient, CrewAssignment, CertificationType, EmployeeCertification, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
+import { getCertificationIssues } from './certification.service';
+
+const prisma = new PrismaClient();
+
+export type CrewConflictType = 'DOUBLE_BOOKED' | 'ON_LEAVE' | 'EXPIRED_CERTIFICATION' | 'MISSING_CERTIFICATION';
+
+export interface CrewConflict {
+  type: CrewConflictType;
+  message: string;
+}
+
+export interface CrewScheduleFilters {
+  project_id?: string;
+  employee_id?: string;
+}
+
+export interface CreateCrewAssignmentData {
+  employee_id: string;
+  project_id: string;
+  date: Date;
+  start_time?: string | null;
+  notes?: string | null;
+}
+
+export type UpdateCrewAssignmentData = Partial<CreateCrewAssignmentData>;
+
+export type CrewAssignmentWithRelations = CrewAssignment & {
+  employee: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    classification: string;
+    employment_status: string | null;
+    certifications: Pick<EmployeeCertification, 'type' | 'name' | 'expiry_date'>[];
+  };
+  project: {
+    id: string;
+    name: string;
+    project_number: string;
+    location: string | null;
+    status: string;
+    required_certifications: CertificationType[];
+  };
+  conflicts: CrewConflict[];
+};
+
+export interface SignInPrefillGroup {
+  project: { id: string; name: string; project_number: string; location: string | null };
+  start_time: string | null;
+  employees: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    classification: string;
+    already_signed_in: boolean;
+    conflicts: CrewConflict[];
+  }[];
+}
+
+const assignmentInclude = {
+  employee: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+      classification: true,
+      employment_status: true,
+      certifications: {
+        where: { deleted_at: null },
+        select: { type: true, name: true, expiry_date: true },
+      },
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      name: true,
+      project_number: true,
+      location: true,
+      status: true,
+      required_certifications: true,
+    },
+  },
+};
+
+const START_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Whether an employment status means the employee is on leave
+ * (the directory stores free text such as "On Leave" or "ON_LEAVE")
+ */
+const isOnLeave = (employmentStatus: string | null): boolean =>
+  (employmentStatus || '').trim().toUpperCase().replace(/[\s-]+/g, '_') === 'ON_LEAVE';
+
+/**
+ * Attach conflicts to assignments. Double-booking is checked against every
+ * assignment the employee has that day, not just the ones being returned.
+ */
+const withConflicts = async (
+  assignments: Omit<CrewAssignmentWithRelations, 'conflicts'>[]
+): Promise<CrewAssignmentWithRelations[]> => {
+  if (assignments.length === 0) return [];
+
+  const dates = assignments.map((a) => a.date.getTime());
+  const sameDay = await prisma.crewAssignment.findMany({
+    where: {
+      employee_id: { in: [...new Set(assignments.map((a) => a.employee_id))] },
+      date: { gte: new Date(Math.min(...dates)), lte: new Date(Math.max(...dates)) },
+    },
+    select: { id: true, employee_id: true, date: true, project: { select: { project_number: true } } },
+  });
+
+  return assignments.map((assignment) => {
+    const conflicts: CrewConflict[] = [];
+
+    const others = sameDay.filter(
+      (other) =>
+        other.id !== assignment.id &&
+        other.employee_id === assignment.employee_id &&
+        toDateKey(other.date) === toDateKey(assignment.date)
+    );
+    if (others.length > 0) {
+      conflicts.push({
+        type: 'DOUBLE_BOOKED',
+        message: `Also scheduled on ${others.map((o) => o.project.project_number).join(', ')}`,
+      });
+    }
+
+    if (isOnLeave(assignment.employee.employment_status)) {
+      conflicts.push({ type: 'ON_LEAVE', message: 'Employee is on leave' });
+    }
+
+    getCertificationIssues(
+      assignment.employee.certifications,
+      assignment.project.required_certifications,
+      assignment.date
+    ).forEach((issue) => {
+      conflicts.push({
+        type: issue.type === 'MISSING' ? 'MISSING_CERTIFICATION' : 'EXPIRED_CERTIFICATION',
+        message: issue.message,
+      });
+    });
+
+    return { ...assignment, conflicts };
+  });
+};
+
+/**
+ * Validate assignment fields, checking only the fields that are present
+ */
+const validateAssignmentData = (data: UpdateCrewAssignmentData, requireAll: boolean): void => {
+  const missing: string[] = [];
+  if (requireAll && !data.employee_id) missing.push('employee_id');
+  if (requireAll && !data.project_id) missing.push('project_id');
+  if ((requireAll || data.date !== undefined) && (!data.date || isNaN(data.date.getTime()))) missing.push('date');
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required fields: ${missing.join(', ')}`);
+  }
+
+  if (data.start_time && !START_TIME_PATTERN.test(data.start_time)) {
+    throw new Error('Start time must be in HH:mm format');
+  }
+};
+
+/**
+ * Ensure the employee and project can be scheduled
+ */
+const validateReferences = async (employeeId?: string, projectId?: string): Promise<void> => {
+  if (employeeId) {
+    const employee = await prisma.employee.findFirst({
+      where: { id: employeeId, deleted_at: null },
+      select: { is_active: true },
+    });
+
+    if (!employee) {
+      throw new Error('Employee not found');
+    }
+
+    if (!employee.is_active) {
+      throw new Error('Inactive employees cannot be scheduled');
+    }
+  }
+
+  if (projectId) {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, deleted_at: null },
+      select: { status: true },
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    if (project.status === 'COMPLETE') {
+      throw new Error('Completed projects cannot be scheduled');
+    }
+  }
+};
+
+/**
+ * Rethrow a unique constraint violation as a readable error
+ */
+const rethrowDuplicate = (error: unknown): never => {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    throw new Error('Employee is already scheduled on this project for that day');
+  }
+  throw error;
+};
+
+/**
+ * Get crew assignments between two dates (inclusive) with conflicts
+ */
+export const getCrewSchedule = async (
+  startDate: Date,
+  endDate: Date,
+  filters: CrewScheduleFilters = {}
+): Promise<CrewAssignmentWithRelations[]> => {
+  try {
+    const where: Prisma.CrewAssignmentWhereInput = {
+      date: { gte: startDate, lte: endDate },
+    };
+    if (filters.project_id) where.project_id = filters.project_id;
+    if (filters.employee_id) where.employee_id = filters.employee_id;
+
+    const assignments = await prisma.crewAssignment.findMany({
+      where,
+      include: assignmentInclude,
+      orderBy: [{ date: 'asc' }, { employee: { last_name: 'asc' } }],
+    });
+
+    return withConflicts(assignments);
+  } catch (error) {
+    logger.error('Error retrieving crew schedule', { error, startDate, endDate, filters });
+    throw error;
+  }
+};
+
+/**
+ * Get a single crew assignment
+ */
+export const getCrewAssignmentById = async (id: string): Promise<CrewAssignmentWithRelations> => {
+  const assignment = await prisma.crewAssignment.findUnique({
+    where: { id },
+    include: assignmentInclude,
+  });
+
+  if (!assignment) {
+    throw new Error('Crew assignment not found');
+  }
+
+  const [withConflict] = await withConflicts([assignment]);
+  return withConflict!;
+};
+
+/**
+ * Schedule an employee on a project for a day. Conflicts are returned as
+ * warnings; foremen decide whether to keep the assignment.
+ */
+export const createCrewAssignment = async (
+  data: CreateCrewAssignmentData,
+  userId: string,
+  ipAddress?: string
+): Promise<CrewAssignmentWithRelations> => {
+  try {
+    validateAssignmentData(data, true);
+    await validateReferences(data.employee_id, data.project_id);
+
+    const assignment = await prisma.crewAssignment
+      .create({
+        data: {
+          employee_id: data.employee_id,
+          project_id: data.project_id,
+          date: data.date,
+          start_time: data.start_time || null,
+          notes: data.notes || null,
+          created_by: userId,
+          updated_by: userId,
+        },
+      })
+      .catch(rethrowDuplicate);
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'CREATE_CREW_ASSIGNMENT',
+      entityType: 'CREW_ASSIGNMENT',
+      entityId: assignment.id,
+      after: assignment,
+      ipAddress,
+    });
+
+    logger.info('Crew assignment created', { assignmentId: assignment.id, employeeId: data.employee_id, userId });
+    return getCrewAssignmentById(assignment.id);
+  } catch (error) {
+    logger.error('Error creating crew assignment', { error, data });
+    throw error;
+  }
+};
+
+/**
+ * Update a crew assignment (moving it to another day or project included)
+ */
+export const updateCrewAssignment = async (
+  id: string,
+  data: UpdateCrewAssignmentData,
+  userId: string,
+  ipAddress?: string
+): Promise<CrewAssignmentWithRelations> => {
+  try {
+    const existing = await getCrewAssignmentById(id);
+
+    validateAssignmentData(data, false);
+    await validateReferences(
+      data.employee_id !== existing.employee_id ? data.employee_id : undefined,
+      data.project_id !== existing.project_id ? data.project_id : undefined
+    );
+
+    const updateData: Prisma.CrewAssignmentUncheckedUpdateInput = { updated_by: userId };
+    if (data.employee_id !== undefined) updateData.employee_id = data.employee_id;
+    if (data.project_id !== undefined) updateData.project_id = data.project_id;
+    if (data.date !== undefined) updateData.date = data.date;
+    if (data.start_time !== undefined) updateData.start_time = data.start_time || null;
+    if (data.notes !== undefined) updateData.notes = data.notes || null;
+
+    const assignment = await prisma.crewAssignment
+      .update({ where: { id }, data: updateData })
+      .catch(rethrowDuplicate);
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'UPDATE_CREW_ASSIGNMENT',
+      entityType: 'CREW_ASSIGNMENT',
+      entityId: id,
+      before: existing,
+      after: assignment,
+      ipAddress,
+    });
+
+    logger.info('Crew assignment updated', { assignmentId: id, userId });
+    return getCrewAssignmentById(id);
+  } catch (error) {
+    logger.error('Error updating crew assignment', { error, id, data });
+    throw error;
+  }
+};
+
+/**
+ * Remove a crew assignment
+ */
+export const deleteCrewAssignment = async (id: string, userId: string, ipAddress?: string): Promise<void> => {
+  try {
+    const existing = await getCrewAssignmentById(id);
+
+    await prisma.crewAssignment.delete({ where: { id } });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'DELETE_CREW_ASSIGNMENT',
+      entityType: 'CREW_ASSIGNMENT',
+      entityId: id,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Crew assignment deleted', { assignmentId: id, userId });
+  } catch (error) {
+    logger.error('Error deleting crew assignment', { error, id });
+    throw error;
+  }
+};
+
+/**
+ * Build sign-in sheet groups for a day from the crew schedule: one group per
+ * project with the scheduled crew and whether each person is already signed in
+ */
+export const getSignInPrefill = async (date: Date): Promise<SignInPrefillGroup[]> => {
+  try {
+    const assignments = await getCrewSchedule(date, date);
+
+    const activeSignIns = await prisma.dailySignIn.findMany({
+      where: {
+        date,
+        sign_out_time: null,
+        employee_id: { in: assignments.map((a) => a.employee_id) },
+      },
+      select: { employee_id: true },
+    });
+    const signedInIds = new Set(activeSignIns.map((s) => s.employee_id));
+
+    const groups = new Map<string, SignInPrefillGroup>();
+    assignments.forEach((assignment) => {
+      let group = groups.get(assignment.project_id);
+      if (!group) {
+        const { id, name, project_number, location } = assignment.project;
+        group = { project: { id, name, project_number, location }, start_time: null, employees: [] };
+        groups.set(assignment.project_id, group);
+      }
+
+      // Earliest planned start for the crew
+      if (assignment.start_time && (!group.start_time || assignment.start_time < group.start_time)) {
+        group.start_time = assignment.start_time;
+      }
+
+      group.employees.push({
+        id: assignment.employee.id,
+        first_name: assignment.employee.first_name,
+        last_name: assignment.employee.last_name,
+        classification: assignment.employee.classification,
+        already_signed_in: signedInIds.has(assignment.employee_id),
+        conflicts: assignment.conflicts,
+      });
+    });
+
+    return [...groups.values()].sort((a, b) => a.project.project_number.localeCompare(b.project.project_number));
+  } catch (error) {
+    logger.error('Error building sign-in prefill', { error, date });
+    throw error;
+  }
+};
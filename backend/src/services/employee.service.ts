@@ -8,6 +8,8 @@
 
 import { PrismaClient, Employee } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
+import { validateUnionLocal } from './union.service';
 
 const prisma = new PrismaClient();
 
@@ -24,6 +26,8 @@ export interface CreateEmployeeData {
   hire_date?: Date;
   employment_status?: string;
   employee_number?: string;
+  payroll_id?: string | null;
+  union_local_id?: string | null; // Home union local
   department?: string;
   notes?: string;
 }
@@ -40,6 +44,8 @@ export interface UpdateEmployeeData {
   hire_date?: Date;
   employment_status?: string;
   employee_number?: string;
+  payroll_id?: string | null;
+  union_local_id?: string | null; // Home union local
   department?: string;
   notes?: string;
   is_active?: boolean;
@@ -189,7 +195,8 @@ export const getEmployeeById = async (id: string): Promise<Employee | null> => {
  */
 export const createEmployee = async (
   data: CreateEmployeeData,
-  userId: string
+  userId: string,
+  ipAddress?: string
 ): Promise<Employee> => {
   // Check if employee number already exists (if provided)
   if (data.employee_number) {
@@ -213,6 +220,8 @@ export const createEmployee = async (
     }
   }
 
+  await validateUnionLocal(data.union_local_id);
+
   const employee = await prisma.employee.create({
     data: {
       ...data,
@@ -232,6 +241,15 @@ export const createEmployee = async (
     }
   });
 
+  await recordAuditLog({
+    actorId: userId,
+    action: 'CREATE_EMPLOYEE',
+    entityType: 'EMPLOYEE',
+    entityId: employee.id,
+    after: data,
+    ipAddress
+  });
+
   logger.info('Employee created', {
     employeeId: employee.id,
     userId,
@@ -247,7 +265,8 @@ export const createEmployee = async (
 export const updateEmployee = async (
   id: string,
   data: UpdateEmployeeData,
-  userId: string
+  userId: string,
+  ipAddress?: string
 ): Promise<Employee> => {
   // Check if employee exists
   const existing = await prisma.employee.findUnique({
@@ -282,6 +301,11 @@ export const updateEmployee = async (
     }
   }
 
+  // Deactivated locals stay on existing members; only a new assignment must be active
+  if (data.union_local_id && data.union_local_id !== existing.union_local_id) {
+    await validateUnionLocal(data.union_local_id);
+  }
+
   const employee = await prisma.employee.update({
     where: { id },
     data: {
@@ -301,6 +325,16 @@ export const updateEmployee = async (
     }
   });
 
+  await recordAuditLog({
+    actorId: userId,
+    action: 'UPDATE_EMPLOYEE',
+    entityType: 'EMPLOYEE',
+    entityId: employee.id,
+    before: existing,
+    after: employee,
+    ipAddress
+  });
+
   logger.info('Employee updated', {
     employeeId: employee.id,
     userId,
@@ -315,7 +349,8 @@ export const updateEmployee = async (
  */
 export const deleteEmployee = async (
   id: string,
-  userId: string
+  userId: string,
+  ipAddress?: string
 ): Promise<void> => {
   // Check if employee exists
   const existing = await prisma.employee.findUnique({
@@ -334,6 +369,15 @@ export const deleteEmployee = async (
     }
   });
 
+  await recordAuditLog({
+    actorId: userId,
+    action: 'DELETE_EMPLOYEE',
+    entityType: 'EMPLOYEE',
+    entityId: id,
+    before: existing,
+    ipAddress
+  });
+
   logger.info('Employee deleted (soft)', {
     employeeId: id,
     userId,
@@ -37,6 +37,7 @@ export interface UploadFileData {
   description?: string;
   tags?: string[];
   folderPath?: string;
+  receiptAmount?: number;
 }
 
 /**
@@ -205,6 +206,7 @@ export const uploadFile = async (
         description: data.description,
         tags: data.tags || [],
         folder_path: data.folderPath,
+        receipt_amount: data.receiptAmount,
         thumbnail_path: thumbnailPath,
         width: imageData?.dimensions.width,
         height: imageData?.dimensions.height,
@@ -418,12 +420,18 @@ export const updateFile = async (
     tags?: string[];
     folderPath?: string;
     isFavorite?: boolean;
+    receiptAmount?: number | null;
   }
 ): Promise<FileWithRelations> => {
   try {
+    const { receiptAmount, ...metadata } = data;
+
     const file = await prisma.file.update({
       where: { id: fileId },
-      data,
+      data: {
+        ...metadata,
+        ...(receiptAmount !== undefined && { receipt_amount: receiptAmount })
+      },
       include: {
         project: {
           select: {
@@ -27,6 +27,27 @@ export * from './admin.service';
 // Project Service
 export * from './project.service';
 
+// Project Expense Service
+export * from './project-expense.service';
+
+// Job Cost Service
+export * from './job-cost.service';
+
+// Change Order Service
+export * from './change-order.service';
+
+// Invoice Service
+export * from './invoice.service';
+
+// Work Order Service
+export * from './work-order.service';
+
+// Crew Schedule Service
+export * from './crew-schedule.service';
+
+// Certification Service
+export * from './certification.service';
+
 // Client Service
 export * from './client.service';
 
@@ -41,6 +62,9 @@ export * from './daily-log.service';
 // Quote Service
 export * from './quote.service';
 
+// Price Book Service
+export * from './price-book.service';
+
 // Employee Service - Import directly to avoid PaginationOptions conflict
 // export * from './employee.service';
 
@@ -0,0 +1,845 @@
+/**
+ * Invoice Service
+ *
+ * Business logic for project billing including:
+ * - Progress pay applications (AIA G702/G703 style) for LUMP_SUM projects,
+ *   billed from the schedule of values (budget breakdown) by percent complete
+ *   with retainage
+ * - Time & materials invoices for TIME_AND_MATERIALS and SERVICE_CALL
+ *   projects, built from approved time entries and project expenses
+ * - Invoice numbering and status workflow (draft, sent, paid)
+ *
+ * Time entries and expenses are linked to the invoice they are billed on so
+ * they cannot be billed twice; deleting a draft releases them.
+ */
+
+import { randomUUID } from 'crypto';
+import { PrismaClient, Invoice, InvoiceStatus, InvoiceType, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
+
+const prisma = new PrismaClient();
+
+// G703 continuation sheet line, one per budget item
+export interface ScheduleOfValuesLine {
+  budget_item_id: string;
+  item_number: number;
+  description: string;
+  category: string;
+  change_order_id: string | null;
+  scheduled_value: number; // C
+  previous_completed: number; // D - work completed on previous applications
+  this_period: number; // E - work completed this period
+  stored_materials: number; // F - materials presently stored
+  total_completed: number; // G = D + E + F
+  percent_complete: number; // G / C
+  balance_to_finish: number; // H = C - G
+  retainage: number; // I
+}
+
+// T&M invoice line, grouped labor or a single expense
+export interface TimeAndMaterialsLine {
+  id: string;
+  kind: 'LABOR' | 'EXPENSE';
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  total: number;
+}
+
+export interface InvoiceFilters {
+  status?: InvoiceStatus;
+  type?: InvoiceType;
+}
+
+export interface InvoiceData {
+  invoice_date?: Date;
+  due_date?: Date | null;
+  period_start?: Date | null;
+  period_end: Date;
+  retainage_percent?: number;
+  stored_materials?: Record<string, number>; // budget_item_id -> amount (progress billing)
+  labor_rate?: number | null;
+  labor_markup_percent?: number | null;
+  expense_markup_percent?: number | null;
+  notes?: string | null;
+}
+
+export type UpdateInvoiceData = Partial<InvoiceData>;
+
+type UserSummary = { id: string; first_name: string; last_name: string };
+
+type InvoiceDecimalField =
+  | 'original_contract'
+  | 'change_orders_total'
+  | 'completed_to_date'
+  | 'subtotal'
+  | 'retainage_percent'
+  | 'retainage_amount'
+  | 'previous_billed'
+  | 'amount_due'
+  | 'labor_rate'
+  | 'labor_markup_percent'
+  | 'expense_markup_percent';
+
+export type InvoiceWithRelations = Omit<Invoice, InvoiceDecimalField | 'line_items'> & {
+  line_items: ScheduleOfValuesLine[] | TimeAndMaterialsLine[];
+  original_contract: number | null;
+  change_orders_total: number | null;
+  completed_to_date: number | null;
+  subtotal: number;
+  retainage_percent: number;
+  retainage_amount: number;
+  previous_billed: number;
+  amount_due: number;
+  labor_rate: number | null;
+  labor_markup_percent: number | null;
+  expense_markup_percent: number | null;
+  creator: UserSummary;
+};
+
+export interface InvoicePDFData {
+  invoice: InvoiceWithRelations;
+  project: {
+    name: string;
+    project_number: string;
+    address: string | null;
+  };
+  client: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+  };
+  contact: {
+    name: string;
+    title: string | null;
+  } | null;
+}
+
+// Allowed status transitions
+const STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  DRAFT: ['SENT'],
+  SENT: ['PAID', 'DRAFT'],
+  PAID: ['SENT'],
+};
+
+const invoiceInclude = {
+  creator: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+    },
+  },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const toNumberOrNull = (value: Prisma.Decimal | null): number | null => (value !== null ? Number(value) : null);
+
+/**
+ * Convert Prisma Decimals to numbers
+ */
+const transformInvoice = (invoice: Invoice & { creator: UserSummary }): InvoiceWithRelations => ({
+  ...invoice,
+  line_items: (invoice.line_items as unknown as InvoiceWithRelations['line_items'] | null) || [],
+  original_contract: toNumberOrNull(invoice.original_contract),
+  change_orders_total: toNumberOrNull(invoice.change_orders_total),
+  completed_to_date: toNumberOrNull(invoice.completed_to_date),
+  subtotal: Number(invoice.subtotal),
+  retainage_percent: Number(invoice.retainage_percent),
+  retainage_amount: Number(invoice.retainage_amount),
+  previous_billed: Number(invoice.previous_billed),
+  amount_due: Number(invoice.amount_due),
+  labor_rate: toNumberOrNull(invoice.labor_rate),
+  labor_markup_percent: toNumberOrNull(invoice.labor_markup_percent),
+  expense_markup_percent: toNumberOrNull(invoice.expense_markup_percent),
+});
+
+/**
+ * Invoice type for a project's billing type
+ */
+export const getInvoiceTypeForBillingType = (billingType: string): InvoiceType =>
+  billingType === 'LUMP_SUM' ? 'PROGRESS' : 'TIME_AND_MATERIALS';
+
+/**
+ * Generate the next invoice number (INV-2026-0001)
+ */
+export const generateInvoiceNumber = async (): Promise<string> => {
+  const prefix = `INV-${new Date().getFullYear()}-`;
+
+  const lastInvoice = await prisma.invoice.findFirst({
+    where: { invoice_number: { startsWith: prefix } },
+    orderBy: { invoice_number: 'desc' },
+  });
+
+  let nextNumber = 1;
+  if (lastInvoice) {
+    const lastNumber = parseInt(lastInvoice.invoice_number.replace(prefix, ''), 10);
+    nextNumber = isNaN(lastNumber) ? 1 : lastNumber + 1;
+  }
+
+  return `${prefix}${nextNumber.toString().padStart(4, '0')}`;
+};
+
+/**
+ * Refuse changes to time entries or expenses billed on an invoice that has left draft,
+ * so a sent invoice's line items keep matching the rows they were built from
+ */
+export const assertNotBilled = async (invoiceIds: Array<string | null>): Promise<void> => {
+  const ids = invoiceIds.filter((id): id is string => id !== null);
+  if (ids.length === 0) return;
+
+  const billed = await prisma.invoice.findFirst({
+    where: { id: { in: ids }, status: { not: 'DRAFT' } },
+    select: { invoice_number: true, status: true },
+  });
+
+  if (billed) {
+    throw new Error(
+      `Billed on ${billed.status.toLowerCase()} invoice ${billed.invoice_number}; ` +
+        'it is locked until the invoice is returned to draft'
+    );
+  }
+};
+
+/**
+ * Ensure the project exists and is not deleted
+ */
+const ensureProject = async (projectId: string) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, deleted_at: null },
+    select: { id: true, name: true, project_number: true, billing_type: true },
+  });
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  return project;
+};
+
+const isValidPercent = (value: unknown): boolean =>
+  typeof value === 'number' && !isNaN(value) && value >= 0 && value <= 100;
+
+/**
+ * Validate invoice inputs, checking only the fields that are present
+ */
+const validateInvoiceData = (data: UpdateInvoiceData, requireAll: boolean): void => {
+  if (requireAll || data.period_end !== undefined) {
+    if (!data.period_end || isNaN(data.period_end.getTime())) {
+      throw new Error('Missing required fields: period_end');
+    }
+  }
+
+  for (const field of ['invoice_date', 'due_date', 'period_start'] as const) {
+    const value = data[field];
+    if (value && isNaN(value.getTime())) {
+      throw new Error(`${field} must be a valid date`);
+    }
+  }
+
+  if (data.period_start && data.period_end && data.period_start > data.period_end) {
+    throw new Error('Period start must be on or before period end');
+  }
+
+  if (data.retainage_percent !== undefined && !isValidPercent(data.retainage_percent)) {
+    throw new Error('Retainage percent must be between 0 and 100');
+  }
+
+  for (const field of ['labor_markup_percent', 'expense_markup_percent'] as const) {
+    const value = data[field];
+    if (value !== undefined && value !== null && (isNaN(value) || value < 0)) {
+      throw new Error('Markup percent must be zero or greater');
+    }
+  }
+
+  if (data.labor_rate !== undefined && data.labor_rate !== null && (isNaN(data.labor_rate) || data.labor_rate < 0)) {
+    throw new Error('Labor rate must be zero or greater');
+  }
+
+  Object.values(data.stored_materials || {}).forEach((amount) => {
+    if (typeof amount !== 'number' || isNaN(amount) || amount < 0) {
+      throw new Error('Stored materials must be zero or greater');
+    }
+  });
+};
+
+type InvoiceTotals = Pick<
+  Prisma.InvoiceUncheckedCreateInput,
+  | 'line_items'
+  | 'original_contract'
+  | 'change_orders_total'
+  | 'completed_to_date'
+  | 'subtotal'
+  | 'retainage_amount'
+  | 'previous_billed'
+  | 'amount_due'
+>;
+
+/**
+ * Build a progress pay application from the schedule of values.
+ * Work completed to date comes from each budget item's percent complete;
+ * the previous application supplies column D and the previous certificate.
+ */
+const buildProgressInvoice = async (
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  applicationNumber: number,
+  retainagePercent: number,
+  storedMaterials: Record<string, number>
+): Promise<InvoiceTotals> => {
+  const budgetItems = await tx.projectBudgetItem.findMany({
+    where: { project_id: projectId },
+    orderBy: { sort_order: 'asc' },
+  });
+
+  if (budgetItems.length === 0) {
+    throw new Error('Progress billing requires a budget breakdown (schedule of values)');
+  }
+
+  const previous = await tx.invoice.findFirst({
+    where: {
+      project_id: projectId,
+      type: 'PROGRESS',
+      status: { not: 'DRAFT' },
+      application_number: { lt: applicationNumber },
+    },
+    orderBy: { application_number: 'desc' },
+  });
+
+  // Work completed (excluding stored materials) per budget item on the previous application
+  const previousCompleted = new Map<string, number>();
+  ((previous?.line_items as unknown as ScheduleOfValuesLine[]) || []).forEach((line) => {
+    previousCompleted.set(line.budget_item_id, line.previous_completed + line.this_period);
+  });
+
+  const lines: ScheduleOfValuesLine[] = budgetItems.map((item, index) => {
+    const scheduledValue = Number(item.total);
+    const workCompleted = roundCurrency(scheduledValue * (Number(item.percent_complete) / 100));
+    const previousValue = previousCompleted.get(item.id) || 0;
+    const stored = roundCurrency(storedMaterials[item.id] || 0);
+    const totalCompleted = roundCurrency(workCompleted + stored);
+
+    return {
+      budget_item_id: item.id,
+      item_number: index + 1,
+      description: item.description,
+      category: item.category,
+      change_order_id: item.change_order_id,
+      scheduled_value: scheduledValue,
+      previous_completed: previousValue,
+      this_period: roundCurrency(workCompleted - previousValue),
+      stored_materials: stored,
+      total_completed: totalCompleted,
+      percent_complete: scheduledValue !== 0 ? Math.round((totalCompleted / scheduledValue) * 10000) / 100 : 0,
+      balance_to_finish: roundCurrency(scheduledValue - totalCompleted),
+      retainage: roundCurrency(totalCompleted * (retainagePercent / 100)),
+    };
+  });
+
+  const sum = (field: keyof ScheduleOfValuesLine): number =>
+    lines.reduce((total, line) => total + (line[field] as number), 0);
+
+  // Contract sum from the schedule of values so the G702 ties to the G703
+  const changeOrdersTotal = lines
+    .filter((line) => line.change_order_id)
+    .reduce((total, line) => total + line.scheduled_value, 0);
+  const completedToDate = sum('total_completed');
+  const retainageAmount = sum('retainage');
+  const previousBilled = previous
+    ? Number(previous.completed_to_date ?? 0) - Number(previous.retainage_amount)
+    : 0;
+
+  return {
+    line_items: lines as unknown as Prisma.InputJsonValue,
+    original_contract: roundCurrency(sum('scheduled_value') - changeOrdersTotal),
+    change_orders_total: roundCurrency(changeOrdersTotal),
+    completed_to_date: roundCurrency(completedToDate),
+    subtotal: roundCurrency(sum('this_period') + sum('stored_materials')),
+    retainage_amount: roundCurrency(retainageAmount),
+    previous_billed: roundCurrency(previousBilled),
+    amount_due: roundCurrency(completedToDate - retainageAmount - previousBilled),
+  };
+};
+
+/**
+ * Build a T&M invoice from approved, unbilled time entries and expenses in
+ * the period, and link them to the invoice. Labor is grouped by
+ * classification and work type.
+ */
+const buildTimeAndMaterialsInvoice = async (
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  invoiceId: string,
+  data: InvoiceData,
+  retainagePercent: number
+): Promise<InvoiceTotals> => {
+  const dateRange = {
+    ...(data.period_start ? { gte: data.period_start } : {}),
+    lt: new Date(data.period_end.getTime() + DAY_MS),
+  };
+  const unbilled = { OR: [{ invoice_id: null }, { invoice_id: invoiceId }] };
+
+  // Release anything a previous build of this draft had claimed
+  await tx.timeEntry.updateMany({ where: { invoice_id: invoiceId }, data: { invoice_id: null } });
+  await tx.projectExpense.updateMany({ where: { invoice_id: invoiceId }, data: { invoice_id: null } });
+
+  const [timeEntries, expenses] = await Promise.all([
+    tx.timeEntry.findMany({
+      where: { project_id: projectId, status: 'APPROVED', date: dateRange, ...unbilled },
+      include: { employee: { select: { classification: true, hourly_rate: true } } },
+      orderBy: { date: 'asc' },
+    }),
+    tx.projectExpense.findMany({
+      where: { project_id: projectId, status: 'APPROVED', date: dateRange, ...unbilled },
+      orderBy: { date: 'asc' },
+    }),
+  ]);
+
+  if (timeEntries.length === 0 && expenses.length === 0) {
+    throw new Error('No approved, unbilled time entries or expenses in this period');
+  }
+
+  const laborMarkup = (data.labor_markup_percent || 0) / 100;
+  const expenseMarkup = (data.expense_markup_percent || 0) / 100;
+
+  const laborGroups = new Map<string, { description: string; hours: number; amount: number }>();
+  timeEntries.forEach((entry) => {
+    const hours = Number(entry.hours_worked);
+    const rate = entry.hourly_rate
+      ? Number(entry.hourly_rate)
+      : entry.employee.hourly_rate
+      ? Number(entry.employee.hourly_rate)
+      : 0;
+    const cost = entry.total_cost ? Number(entry.total_cost) : hours * rate;
+    const amount = data.labor_rate ? hours * data.labor_rate : cost * (1 + laborMarkup);
+
+    const workType = entry.work_type || 'Regular';
+    const key = `${entry.employee.classification.toLowerCase()}|${workType.toLowerCase()}`;
+    const group = laborGroups.get(key) || {
+      description: `Labor - ${entry.employee.classification} (${workType})`,
+      hours: 0,
+      amount: 0,
+    };
+    group.hours += hours;
+    group.amount += amount;
+    laborGroups.set(key, group);
+  });
+
+  const lines: TimeAndMaterialsLine[] = [
+    ...Array.from(laborGroups.values()).map((group) => ({
+      id: randomUUID(),
+      kind: 'LABOR' as const,
+      description: group.description,
+      quantity: Math.round(group.hours * 100) / 100,
+      unit: 'hr',
+      unit_price: group.hours > 0 ? roundCurrency(group.amount / group.hours) : 0,
+      total: roundCurrency(group.amount),
+    })),
+    ...expenses.map((expense) => {
+      const amount = roundCurrency(Number(expense.amount) * (1 + expenseMarkup));
+      return {
+        id: randomUUID(),
+        kind: 'EXPENSE' as const,
+        description: `${expense.category}: ${expense.description}${expense.vendor ? ` (${expense.vendor})` : ''}`,
+        quantity: 1,
+        unit: 'ea',
+        unit_price: amount,
+        total: amount,
+      };
+    }),
+  ];
+
+  await tx.timeEntry.updateMany({
+    where: { id: { in: timeEntries.map((entry) => entry.id) } },
+    data: { invoice_id: invoiceId },
+  });
+  await tx.projectExpense.updateMany({
+    where: { id: { in: expenses.map((expense) => expense.id) } },
+    data: { invoice_id: invoiceId },
+  });
+
+  const subtotal = roundCurrency(lines.reduce((total, line) => total + line.total, 0));
+  const retainageAmount = roundCurrency(subtotal * (retainagePercent / 100));
+
+  return {
+    line_items: lines as unknown as Prisma.InputJsonValue,
+    original_contract: null,
+    change_orders_total: null,
+    completed_to_date: null,
+    subtotal,
+    retainage_amount: retainageAmount,
+    previous_billed: 0,
+    amount_due: roundCurrency(subtotal - retainageAmount),
+  };
+};
+
+/**
+ * Get invoices for a project, newest first
+ */
+export const getProjectInvoices = async (
+  projectId: string,
+  filters: InvoiceFilters = {}
+): Promise<InvoiceWithRelations[]> => {
+  try {
+    await ensureProject(projectId);
+
+    const where: Prisma.InvoiceWhereInput = { project_id: projectId };
+    if (filters.status) where.status = filters.status;
+    if (filters.type) where.type = filters.type;
+
+    const invoices = await prisma.invoice.findMany({
+      where,
+      include: invoiceInclude,
+      orderBy: [{ invoice_date: 'desc' }, { created_at: 'desc' }],
+    });
+
+    logger.info('Project invoices retrieved', { projectId, count: invoices.length });
+    return invoices.map(transformInvoice);
+  } catch (error) {
+    logger.error('Error retrieving project invoices', { error, projectId });
+    throw error;
+  }
+};
+
+/**
+ * Get a single invoice
+ */
+export const getInvoiceById = async (projectId: string, invoiceId: string): Promise<InvoiceWithRelations> => {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, project_id: projectId },
+    include: invoiceInclude,
+  });
+
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+
+  return transformInvoice(invoice);
+};
+
+/**
+ * Create a draft invoice. The type follows the project's billing type:
+ * LUMP_SUM projects get a progress pay application, others a T&M invoice.
+ */
+export const createInvoice = async (
+  projectId: string,
+  data: InvoiceData,
+  userId: string,
+  ipAddress?: string
+): Promise<InvoiceWithRelations> => {
+  try {
+    const project = await ensureProject(projectId);
+    validateInvoiceData(data, true);
+
+    const type = getInvoiceTypeForBillingType(project.billing_type);
+    const retainagePercent = data.retainage_percent ?? 0;
+    const invoiceNumber = await generateInvoiceNumber();
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      let applicationNumber: number | null = null;
+
+      if (type === 'PROGRESS') {
+        // One draft pay application at a time keeps numbering and previous totals straight
+        const existingDraft = await tx.invoice.findFirst({
+          where: { project_id: projectId, type: 'PROGRESS', status: 'DRAFT' },
+          select: { invoice_number: true },
+        });
+
+        if (existingDraft) {
+          throw new Error(
+            `Draft pay application ${existingDraft.invoice_number} must be sent or deleted before starting another`
+          );
+        }
+
+        const last = await tx.invoice.findFirst({
+          where: { project_id: projectId, type: 'PROGRESS' },
+          orderBy: { application_number: 'desc' },
+          select: { application_number: true },
+        });
+        applicationNumber = (last?.application_number || 0) + 1;
+      }
+
+      const created = await tx.invoice.create({
+        data: {
+          invoice_number: invoiceNumber,
+          project_id: projectId,
+          type,
+          application_number: applicationNumber,
+          invoice_date: data.invoice_date || new Date(),
+          due_date: data.due_date || null,
+          period_start: data.period_start || null,
+          period_end: data.period_end,
+          line_items: [],
+          subtotal: 0,
+          retainage_percent: retainagePercent,
+          amount_due: 0,
+          labor_rate: data.labor_rate ?? null,
+          labor_markup_percent: data.labor_markup_percent ?? null,
+          expense_markup_percent: data.expense_markup_percent ?? null,
+          notes: data.notes || null,
+          created_by: userId,
+          updated_by: userId,
+        },
+      });
+
+      const totals =
+        type === 'PROGRESS'
+          ? await buildProgressInvoice(tx, projectId, applicationNumber!, retainagePercent, data.stored_materials || {})
+          : await buildTimeAndMaterialsInvoice(tx, projectId, created.id, data, retainagePercent);
+
+      return tx.invoice.update({
+        where: { id: created.id },
+        data: totals,
+        include: invoiceInclude,
+      });
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'CREATE_INVOICE',
+      entityType: 'INVOICE',
+      entityId: invoice.id,
+      after: invoice,
+      ipAddress,
+    });
+
+    logger.info('Invoice created', {
+      projectId,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      type,
+      userId,
+    });
+    return transformInvoice(invoice);
+  } catch (error) {
+    logger.error('Error creating invoice', { error, projectId });
+    throw error;
+  }
+};
+
+/**
+ * Update a draft invoice and rebuild its lines from current project data
+ */
+export const updateInvoice = async (
+  projectId: string,
+  invoiceId: string,
+  data: UpdateInvoiceData,
+  userId: string,
+  ipAddress?: string
+): Promise<InvoiceWithRelations> => {
+  try {
+    const existing = await getInvoiceById(projectId, invoiceId);
+
+    if (existing.status !== 'DRAFT') {
+      throw new Error('Sent invoices cannot be edited');
+    }
+
+    validateInvoiceData(data, false);
+
+    // Merge with the stored inputs so the rebuild sees the full picture
+    const merged: InvoiceData = {
+      invoice_date: data.invoice_date ?? existing.invoice_date,
+      due_date: data.due_date !== undefined ? data.due_date : existing.due_date,
+      period_start: data.period_start !== undefined ? data.period_start : existing.period_start,
+      period_end: data.period_end ?? existing.period_end,
+      retainage_percent: data.retainage_percent ?? existing.retainage_percent,
+      labor_rate: data.labor_rate !== undefined ? data.labor_rate : existing.labor_rate,
+      labor_markup_percent:
+        data.labor_markup_percent !== undefined ? data.labor_markup_percent : existing.labor_markup_percent,
+      expense_markup_percent:
+        data.expense_markup_percent !== undefined ? data.expense_markup_percent : existing.expense_markup_percent,
+      notes: data.notes !== undefined ? data.notes : existing.notes,
+    };
+    validateInvoiceData(merged, true);
+
+    // Keep stored materials from the current draft unless new amounts are given
+    const storedMaterials =
+      data.stored_materials ||
+      Object.fromEntries(
+        existing.type === 'PROGRESS'
+          ? (existing.line_items as ScheduleOfValuesLine[]).map((line) => [line.budget_item_id, line.stored_materials])
+          : []
+      );
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      const retainagePercent = merged.retainage_percent ?? 0;
+      const totals =
+        existing.type === 'PROGRESS'
+          ? await buildProgressInvoice(tx, projectId, existing.application_number!, retainagePercent, storedMaterials)
+          : await buildTimeAndMaterialsInvoice(tx, projectId, invoiceId, merged, retainagePercent);
+
+      return tx.invoice.update({
+        where: { id: invoiceId },
+        data: {
+          ...totals,
+          invoice_date: merged.invoice_date,
+          due_date: merged.due_date || null,
+          period_start: merged.period_start || null,
+          period_end: merged.period_end,
+          retainage_percent: retainagePercent,
+          labor_rate: merged.labor_rate ?? null,
+          labor_markup_percent: merged.labor_markup_percent ?? null,
+          expense_markup_percent: merged.expense_markup_percent ?? null,
+          notes: merged.notes || null,
+          updated_by: userId,
+        },
+        include: invoiceInclude,
+      });
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'UPDATE_INVOICE',
+      entityType: 'INVOICE',
+      entityId: invoiceId,
+      before: existing,
+      after: invoice,
+      ipAddress,
+    });
+
+    logger.info('Invoice updated', { projectId, invoiceId, userId });
+    return transformInvoice(invoice);
+  } catch (error) {
+    logger.error('Error updating invoice', { error, projectId, invoiceId });
+    throw error;
+  }
+};
+
+/**
+ * Mark an invoice sent or paid, or return it to draft / sent
+ */
+export const updateInvoiceStatus = async (
+  projectId: string,
+  invoiceId: string,
+  status: InvoiceStatus,
+  userId: string,
+  ipAddress?: string
+): Promise<InvoiceWithRelations> => {
+  try {
+    const existing = await getInvoiceById(projectId, invoiceId);
+
+    if (!STATUS_TRANSITIONS[existing.status].includes(status)) {
+      throw new Error(`Invoice cannot be moved from ${existing.status} to ${status}`);
+    }
+
+    // A later pay application already counts this one as a previous certificate
+    if (status === 'DRAFT' && existing.type === 'PROGRESS') {
+      const later = await prisma.invoice.findFirst({
+        where: {
+          project_id: projectId,
+          type: 'PROGRESS',
+          application_number: { gt: existing.application_number! },
+        },
+        select: { id: true },
+      });
+
+      if (later) {
+        throw new Error('Pay application cannot be returned to draft after a later application was created');
+      }
+    }
+
+    const now = new Date();
+    const invoice = await prisma.invoice.update({
+      where: { id: invoiceId },
+      data: {
+        status,
+        updated_by: userId,
+        sent_at: status === 'SENT' ? existing.sent_at || now : status === 'DRAFT' ? null : undefined,
+        paid_at: status === 'PAID' ? now : null,
+      },
+      include: invoiceInclude,
+    });
+
+    const actions: Record<InvoiceStatus, string> = {
+      DRAFT: 'REOPEN_INVOICE',
+      SENT: existing.status === 'PAID' ? 'UNMARK_INVOICE_PAID' : 'SEND_INVOICE',
+      PAID: 'MARK_INVOICE_PAID',
+    };
+
+    await recordAuditLog({
+      actorId: userId,
+      action: actions[status],
+      entityType: 'INVOICE',
+      entityId: invoiceId,
+      before: { status: existing.status },
+      after: { status },
+      ipAddress,
+    });
+
+    logger.info('Invoice status updated', { projectId, invoiceId, status, userId });
+    return transformInvoice(invoice);
+  } catch (error) {
+    logger.error('Error updating invoice status', { error, projectId, invoiceId, status });
+    throw error;
+  }
+};
+
+/**
+ * Delete a draft invoice. Its time entries and expenses become unbilled again.
+ */
+export const deleteInvoice = async (
+  projectId: string,
+  invoiceId: string,
+  userId: string,
+  ipAddress?: string
+): Promise<void> => {
+  try {
+    const existing = await getInvoiceById(projectId, invoiceId);
+
+    if (existing.status !== 'DRAFT') {
+      throw new Error('Sent invoices cannot be deleted');
+    }
+
+    await prisma.invoice.delete({ where: { id: invoiceId } });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'DELETE_INVOICE',
+      entityType: 'INVOICE',
+      entityId: invoiceId,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Invoice deleted', { projectId, invoiceId, userId });
+  } catch (error) {
+    logger.error('Error deleting invoice', { error, projectId, invoiceId });
+    throw error;
+  }
+};
+
+/**
+ * Get an invoice with the project and client details for PDF generation
+ */
+export const getInvoiceForPDF = async (projectId: string, invoiceId: string): Promise<InvoicePDFData> => {
+  const invoice = await getInvoiceById(projectId, invoiceId);
+
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, deleted_at: null },
+    include: {
+      client: { select: { name: true, address: true, phone: true, email: true } },
+      contact: { select: { name: true, title: true } },
+    },
+  });
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  return {
+    invoice,
+    project: {
+      name: project.name,
+      project_number: project.project_number,
+      address: project.address,
+    },
+    client: project.client,
+    contact: project.contact,
+  };
+};
@@ -0,0 +1,415 @@
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
+import { getPayRateResolver, getLaborCost } from './pay-rate.service';
+
+const prisma = new PrismaClient();
+
+/**
+ * Job Cost Service
+ * Computes budget vs actual vs committed cost for a project from approved
+ * time entries, project expenses and receipts, broken down by cost code,
+ * with percent-complete earned value. Pending time entries and expenses
+ * are committed cost; receipts linked to an expense are counted once, on
+ * the expense.
+ *
+ * Labor and expenses roll up by their cost code against the project's
+ * cost code budgets. Time and expenses recorded before cost codes were
+ * required fall under "Uncoded", and receipts not linked to an expense
+ * under "Receipts". Labor is fully burdened at the employee's pay rate in
+ * effect on the work date when one is on file. The budget breakdown items
+ * only drive percent complete.
+ */
+
+export interface JobCostLine {
+  costCodeId: string | null;
+  code: string;
+  name: string;
+  budget: number;
+  budgetHours: number | null;
+  laborHours: number;
+  laborCost: number;
+  expenseCost: number;
+  receiptCost: number;
+  actualCost: number;
+  committedCost: number;
+  remaining: number; // budget - actual - committed
+  percentComplete: number;
+  earnedValue: number;
+  costVariance: number; // earned value - actual
+}
+
+export interface JobCostSummary {
+  projectId: string;
+  projectName: string;
+  projectNumber: string;
+  budget: number;
+  actualCost: number;
+  committedCost: number;
+  remaining: number;
+  laborHours: number;
+  laborCost: number;
+  expenseCost: number;
+  receiptCost: number;
+  percentComplete: number;
+  earnedValue: number;
+  costVariance: number;
+  costPerformanceIndex: number | null;
+  estimateAtCompletion: number;
+  varianceAtCompletion: number;
+  costCodes: JobCostLine[];
+}
+
+export interface ProjectProgressData {
+  percentComplete?: number;
+  items?: Array<{
+    id: string;
+    percentComplete: number;
+  }>;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Bucket keys for costs without a cost code
+const UNCODED_KEY = 'UNCODED';
+const RECEIPTS_KEY = 'RECEIPTS';
+
+const emptyLine = (costCodeId: string | null, code: string, name: string): JobCostLine => ({
+  costCodeId,
+  code,
+  name,
+  budget: 0,
+  budgetHours: null,
+  laborHours: 0,
+  laborCost: 0,
+  expenseCost: 0,
+  receiptCost: 0,
+  actualCost: 0,
+  committedCost: 0,
+  remaining: 0,
+  percentComplete: 0,
+  earnedValue: 0,
+  costVariance: 0,
+});
+
+const isValidPercent = (value: unknown): value is number =>
+  typeof value === 'number' && !isNaN(value) && value >= 0 && value <= 100;
+
+/**
+ * Get the budget vs actual vs committed job cost summary for a project
+ */
+export const getProjectJobCost = async (projectId: string): Promise<JobCostSummary> => {
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, deleted_at: null },
+      include: {
+        budget_items: { orderBy: { sort_order: 'asc' } },
+        cost_codes: {
+          include: { cost_code: true },
+          orderBy: [{ cost_code: { sort_order: 'asc' } }, { cost_code: { code: 'asc' } }],
+        },
+      },
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const costCodeSelect = { select: { id: true, code: true, name: true } };
+
+    const [timeEntries, expenses, receipts] = await Promise.all([
+      prisma.timeEntry.findMany({
+        where: { project_id: projectId, status: { in: ['APPROVED', 'PENDING'] } },
+        include: { employee: { select: { hourly_rate: true } }, cost_code: costCodeSelect },
+      }),
+      prisma.projectExpense.findMany({
+        where: { project_id: projectId, status: { in: ['APPROVED', 'PENDING'] } },
+        include: { cost_code: costCodeSelect },
+      }),
+      prisma.file.findMany({
+        where: {
+          project_id: projectId,
+          category: 'RECEIPT',
+          deleted_at: null,
+          receipt_amount: { not: null },
+          expenses: { none: {} },
+        },
+        select: { receipt_amount: true },
+      }),
+    ]);
+
+    // Every enabled code is listed, even with nothing charged yet; codes that were
+    // charged and later disabled on the project still show, without a budget
+    const lines = new Map<string, JobCostLine>();
+
+    project.cost_codes.forEach((projectCostCode) => {
+      lines.set(projectCostCode.cost_code_id, {
+        ...emptyLine(projectCostCode.cost_code_id, projectCostCode.cost_code.code, projectCostCode.cost_code.name),
+        budget: projectCostCode.budget_amount !== null ? Number(projectCostCode.budget_amount) : 0,
+        budgetHours: projectCostCode.budget_hours !== null ? Number(projectCostCode.budget_hours) : null,
+      });
+    });
+
+    const getLine = (costCode: { id: string; code: string; name: string } | null): JobCostLine => {
+      const key = costCode?.id ?? UNCODED_KEY;
+      if (!lines.has(key)) {
+        lines.set(key, emptyLine(costCode?.id ?? null, costCode?.code ?? '', costCode?.name ?? 'Uncoded'));
+      }
+      return lines.get(key)!;
+    };
+
+    const resolvePayRate = await getPayRateResolver(timeEntries.map((entry) => entry.employee_id));
+
+    timeEntries.forEach((entry) => {
+      const line = getLine(entry.cost_code);
+      const hours = Number(entry.hours_worked);
+      const payRate = resolvePayRate(entry.employee_id, entry.date);
+      const rate = entry.hourly_rate
+        ? Number(entry.hourly_rate)
+        : entry.employee.hourly_rate
+        ? Number(entry.employee.hourly_rate)
+        : 0;
+      const cost = payRate
+        ? getLaborCost(hours, payRate, rate).burdenedCost
+        : entry.total_cost
+        ? Number(entry.total_cost)
+        : hours * rate;
+
+      // Pending entries are committed until approved
+      if (entry.status === 'APPROVED') {
+        line.laborHours += hours;
+        line.laborCost += cost;
+      } else {
+        line.committedCost += cost;
+      }
+    });
+
+    expenses.forEach((expense) => {
+      const line = getLine(expense.cost_code);
+      if (expense.status === 'APPROVED') {
+        line.expenseCost += Number(expense.amount);
+      } else {
+        line.committedCost += Number(expense.amount);
+      }
+    });
+
+    if (receipts.length > 0) {
+      const line = emptyLine(null, '', 'Receipts');
+      receipts.forEach((receipt) => {
+        line.receiptCost += Number(receipt.receipt_amount);
+      });
+      lines.set(RECEIPTS_KEY, line);
+    }
+
+    // Percent complete comes from the budget breakdown when there is one
+    const budgetItemsTotal = project.budget_items.reduce((total, item) => total + Number(item.total), 0);
+    const budgetItemsEarned = project.budget_items.reduce(
+      (total, item) => total + Number(item.total) * (Number(item.percent_complete) / 100),
+      0
+    );
+    const percentComplete =
+      budgetItemsTotal > 0
+        ? (budgetItemsEarned / budgetItemsTotal) * 100
+        : Number(project.percent_complete ?? 0);
+
+    // Progress is tracked for the job, so each cost code earns at the project's percent complete.
+    // Uncoded and receipts sort last.
+    const costCodes = Array.from(lines.values())
+      .sort((a, b) => Number(a.costCodeId === null) - Number(b.costCodeId === null))
+      .map((line) => {
+        const actualCost = line.laborCost + line.expenseCost + line.receiptCost;
+        const earnedValue = line.budget * (percentComplete / 100);
+        return {
+          ...line,
+          budget: roundCurrency(line.budget),
+          laborHours: Math.round(line.laborHours * 100) / 100,
+          laborCost: roundCurrency(line.laborCost),
+          expenseCost: roundCurrency(line.expenseCost),
+          receiptCost: roundCurrency(line.receiptCost),
+          actualCost: roundCurrency(actualCost),
+          committedCost: roundCurrency(line.committedCost),
+          remaining: roundCurrency(line.budget - actualCost - line.committedCost),
+          percentComplete: line.budget > 0 ? Math.round(percentComplete * 100) / 100 : 0,
+          earnedValue: roundCurrency(earnedValue),
+          costVariance: roundCurrency(earnedValue - actualCost),
+        };
+      });
+
+    const sum = (field: keyof JobCostLine): number =>
+      costCodes.reduce((total, line) => total + (line[field] as number), 0);
+
+    // Budget at completion: the project budget, or the cost code budgets when no budget is set
+    const costCodeBudgetTotal = sum('budget');
+    const budget =
+      project.budget !== null
+        ? Number(project.budget)
+        : costCodeBudgetTotal > 0
+        ? costCodeBudgetTotal
+        : budgetItemsTotal;
+
+    const actualCost = sum('actualCost');
+    const committedCost = sum('committedCost');
+    const earnedValue = budget * (percentComplete / 100);
+    const costPerformanceIndex = actualCost > 0 && earnedValue > 0 ? earnedValue / actualCost : null;
+
+    // Without a CPI yet, assume the remaining work comes in on budget
+    const estimateAtCompletion = costPerformanceIndex
+      ? budget / costPerformanceIndex
+      : actualCost + Math.max(budget - earnedValue, 0);
+
+    const summary: JobCostSummary = {
+      projectId: project.id,
+      projectName: project.name,
+      projectNumber: project.project_number,
+      budget: roundCurrency(budget),
+      actualCost: roundCurrency(actualCost),
+      committedCost: roundCurrency(committedCost),
+      remaining: roundCurrency(budget - actualCost - committedCost),
+      laborHours: Math.round(sum('laborHours') * 100) / 100,
+      laborCost: roundCurrency(sum('laborCost')),
+      expenseCost: roundCurrency(sum('expenseCost')),
+      receiptCost: roundCurrency(sum('receiptCost')),
+      percentComplete: Math.round(percentComplete * 100) / 100,
+      earnedValue: roundCurrency(earnedValue),
+      costVariance: roundCurrency(earnedValue - actualCost),
+      costPerformanceIndex: costPerformanceIndex !== null ? Math.round(costPerformanceIndex * 100) / 100 : null,
+      estimateAtCompletion: roundCurrency(estimateAtCompletion),
+      varianceAtCompletion: roundCurrency(budget - estimateAtCompletion),
+      costCodes,
+    };
+
+    logger.info('Project job cost computed', {
+      projectId,
+      actualCost: summary.actualCost,
+      committedCost: summary.committedCost,
+    });
+
+    return summary;
+  } catch (error) {
+    logger.error('Error computing project job cost', { error, projectId });
+    throw error;
+  }
+};
+
+/**
+ * Store the computed actual cost on the project, which project lists and
+ * reports read instead of recomputing job cost
+ */
+export const recalculateProjectActualCost = async (
+  projectId: string,
+  userId: string,
+  ipAddress?: string
+): Promise<JobCostSummary> => {
+  try {
+    const summary = await getProjectJobCost(projectId);
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { actual_cost: true },
+    });
+    const previousActualCost = project?.actual_cost !== null && project?.actual_cost !== undefined
+      ? Number(project.actual_cost)
+      : null;
+
+    if (previousActualCost !== summary.actualCost) {
+      await prisma.project.update({
+        where: { id: projectId },
+        data: { actual_cost: summary.actualCost, updated_by: userId },
+      });
+
+      await recordAuditLog({
+        actorId: userId,
+        action: 'RECALCULATE_PROJECT_ACTUAL_COST',
+        entityType: 'PROJECT',
+        entityId: projectId,
+        before: { actual_cost: previousActualCost },
+        after: { actual_cost: summary.actualCost },
+        ipAddress,
+      });
+    }
+
+    logger.info('Project actual cost recalculated', { projectId, userId, actualCost: summary.actualCost });
+
+    return summary;
+  } catch (error) {
+    logger.error('Error recalculating project actual cost', { error, projectId });
+    throw error;
+  }
+};
+
+/**
+ * Update percent complete for a project and/or its budget breakdown lines
+ */
+export const updateProjectProgress = async (
+  projectId: string,
+  data: ProjectProgressData,
+  userId: string,
+  ipAddress?: string
+): Promise<JobCostSummary> => {
+  try {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, deleted_at: null },
+      include: { budget_items: { select: { id: true, percent_complete: true } } },
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    if (data.percentComplete !== undefined && !isValidPercent(data.percentComplete)) {
+      throw new Error('Percent complete must be between 0 and 100');
+    }
+
+    const items = data.items || [];
+    const budgetItemIds = new Set(project.budget_items.map((item) => item.id));
+
+    for (const item of items) {
+      if (!budgetItemIds.has(item.id)) {
+        throw new Error(`Budget item ${item.id} not found`);
+      }
+      if (!isValidPercent(item.percentComplete)) {
+        throw new Error('Percent complete must be between 0 and 100');
+      }
+    }
+
+    await prisma.$transaction([
+      ...(data.percentComplete !== undefined
+        ? [
+            prisma.project.update({
+              where: { id: projectId },
+              data: { percent_complete: data.percentComplete, updated_by: userId },
+            }),
+          ]
+        : []),
+      ...items.map((item) =>
+        prisma.projectBudgetItem.update({
+          where: { id: item.id },
+          data: { percent_complete: item.percentComplete },
+        })
+      ),
+    ]);
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'UPDATE_PROJECT_PROGRESS',
+      entityType: 'PROJECT',
+      entityId: projectId,
+      before: {
+        percent_complete: project.percent_complete,
+        budget_items: project.budget_items.filter((item) => items.some((i) => i.id === item.id)),
+      },
+      after: {
+        percent_complete: data.percentComplete ?? project.percent_complete,
+        budget_items: items.map((item) => ({ id: item.id, percent_complete: item.percentComplete })),
+      },
+      ipAddress,
+    });
+
+    logger.info('Project progress updated', { projectId, userId, itemCount: items.length });
+
+    return getProjectJobCost(projectId);
+  } catch (error) {
+    logger.error('Error updating project progress', { error, projectId });
+    throw error;
+  }
+};
@@ -0,0 +1,461 @@
+import { OvertimePolicy, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { Decimal } from '@prisma/client/runtime/library';
+
+/**
+ * Overtime Service
+ * Configurable overtime rules (daily, weekly, double time, 7th consecutive day)
+ * and the calculation engine shared by every payroll report
+ */
+
+export interface OvertimeRules {
+  dailyOvertimeAfter: number | null;
+  dailyDoubleTimeAfter: number | null;
+  weeklyOvertimeAfter: number | null;
+  seventhDayRule: boolean;
+}
+
+export interface ResolvedOvertimeRules extends OvertimeRules {
+  policyId: string | null;
+  policyName: string;
+}
+
+export interface DayHours {
+  date: Date;
+  hours: number;
+}
+
+export interface DayBreakdown {
+  date: Date;
+  totalHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
+
+interface OvertimePolicyData {
+  name: string;
+  classification?: string | null;
+  isDefault?: boolean;
+  dailyOvertimeAfter?: number | null;
+  dailyDoubleTimeAfter?: number | null;
+  weeklyOvertimeAfter?: number | null;
+  seventhDayRule?: boolean;
+  isActive?: boolean;
+}
+
+/**
+ * Workweek starts on Monday (0 = Sunday ... 6 = Saturday)
+ */
+export const WORKWEEK_START_DAY = 1;
+
+/**
+ * Rules used when no company default or classification policy is configured:
+ * over 8 hours/day or 40 hours/week is overtime
+ */
+export const DEFAULT_OVERTIME_RULES: ResolvedOvertimeRules = {
+  policyId: null,
+  policyName: 'Standard (8h daily / 40h weekly)',
+  dailyOvertimeAfter: 8,
+  dailyDoubleTimeAfter: null,
+  weeklyOvertimeAfter: 40,
+  seventhDayRule: false,
+};
+
+/**
+ * Transform snake_case Prisma response to camelCase for frontend
+ */
+function transformOvertimePolicyData(policy: OvertimePolicy) {
+  return {
+    id: policy.id,
+    name: policy.name,
+    classification: policy.classification,
+    isDefault: policy.is_default,
+    dailyOvertimeAfter: policy.daily_overtime_after !== null ? Number(policy.daily_overtime_after) : null,
+    dailyDoubleTimeAfter: policy.daily_double_time_after !== null ? Number(policy.daily_double_time_after) : null,
+    weeklyOvertimeAfter: policy.weekly_overtime_after !== null ? Number(policy.weekly_overtime_after) : null,
+    seventhDayRule: policy.seventh_day_rule,
+    isActive: policy.is_active,
+    createdAt: policy.created_at,
+    updatedAt: policy.updated_at,
+  };
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0]!;
+
+/**
+ * Get the first day of the workweek containing the given date (UTC midnight)
+ */
+export const getWorkweekStart = (date: Date): Date => {
+  const start = new Date(date);
+  start.setUTCHours(0, 0, 0, 0);
+  const offset = (start.getUTCDay() - WORKWEEK_START_DAY + 7) % 7;
+  start.setUTCDate(start.getUTCDate() - offset);
+  return start;
+};
+
+/**
+ * Split each day's hours into regular, overtime and double time.
+ *
+ * Days are grouped into workweeks; pass every day of a workweek up to the
+ * last day of interest so weekly and 7th-day rules see the full week.
+ * Hours flagged as daily overtime/double time never count toward the weekly threshold.
+ */
+export const calculateOvertime = (days: DayHours[], rules: OvertimeRules): DayBreakdown[] => {
+  // Merge multiple entries on the same date
+  const hoursByDate = new Map<string, DayHours>();
+  days.forEach((day) => {
+    const key = toDateKey(day.date);
+    const existing = hoursByDate.get(key);
+    if (existing) {
+      existing.hours += day.hours;
+    } else {
+      hoursByDate.set(key, { date: day.date, hours: day.hours });
+    }
+  });
+
+  const sortedDays = Array.from(hoursByDate.values()).sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+  const results: DayBreakdown[] = [];
+  let currentWeek: string | null = null;
+  let weeklyRegular = 0;
+  let daysWorkedInWeek = 0;
+
+  sortedDays.forEach((day) => {
+    const weekStart = getWorkweekStart(day.date);
+    const weekKey = toDateKey(weekStart);
+
+    if (weekKey !== currentWeek) {
+      currentWeek = weekKey;
+      weeklyRegular = 0;
+      daysWorkedInWeek = 0;
+    }
+
+    const hours = day.hours;
+    if (hours > 0) daysWorkedInWeek++;
+
+    // 0 = first day of the workweek ... 6 = last day
+    const dayIndex = Math.round(
+      (new Date(toDateKey(day.date)).getTime() - weekStart.getTime()) / MS_PER_DAY
+    );
+
+    let regular = 0;
+    let overtime = 0;
+    let doubleTime = 0;
+
+    if (rules.seventhDayRule && dayIndex === 6 && daysWorkedInWeek === 7) {
+      // 7th consecutive day in the workweek: first 8 hours overtime, remainder double time
+      overtime = Math.min(hours, 8);
+      doubleTime = Math.max(0, hours - 8);
+    } else {
+      if (rules.dailyDoubleTimeAfter !== null && hours > rules.dailyDoubleTimeAfter) {
+        doubleTime = hours - rules.dailyDoubleTimeAfter;
+      }
+      const nonDoubleTime = hours - doubleTime;
+      if (rules.dailyOvertimeAfter !== null && nonDoubleTime > rules.dailyOvertimeAfter) {
+        overtime = nonDoubleTime - rules.dailyOvertimeAfter;
+      }
+      regular = nonDoubleTime - overtime;
+    }
+
+    if (rules.weeklyOvertimeAfter !== null) {
+      const remainingRegular = Math.max(0, rules.weeklyOvertimeAfter - weeklyRegular);
+      if (regular > remainingRegular) {
+        overtime += regular - remainingRegular;
+        regular = remainingRegular;
+      }
+    }
+
+    weeklyRegular += regular;
+
+    results.push({
+      date: day.date,
+      totalHours: round2(hours),
+      regularHours: round2(regular),
+      overtimeHours: round2(overtime),
+      doubleTimeHours: round2(doubleTime),
+    });
+  });
+
+  return results;
+};
+
+/**
+ * Distribute a day's regular/overtime/double time across that day's entries
+ * in the order worked (later hours are the premium hours)
+ */
+export const allocateDayHours = (
+  breakdown: Pick<DayBreakdown, 'regularHours' | 'overtimeHours'>,
+  entryHours: number[]
+) => {
+  let regularLeft = breakdown.regularHours;
+  let overtimeLeft = breakdown.overtimeHours;
+
+  return entryHours.map((hours) => {
+    const regular = Math.min(hours, regularLeft);
+    regularLeft -= regular;
+    const overtime = Math.min(hours - regular, overtimeLeft);
+    overtimeLeft -= overtime;
+    const doubleTime = hours - regular - overtime;
+
+    return {
+      regularHours: round2(regular),
+      overtimeHours: round2(overtime),
+      doubleTimeHours: round2(doubleTime),
+    };
+  });
+};
+
+/**
+ * Load active policies and return a resolver: classification policy first,
+ * then the company default, then the built-in standard rules
+ */
+export const getOvertimeRulesResolver = async () => {
+  try {
+    const policies = await prisma.overtimePolicy.findMany({
+      where: { is_active: true },
+    });
+
+    const toRules = (policy: (typeof policies)[number]): ResolvedOvertimeRules => ({
+      policyId: policy.id,
+      policyName: policy.name,
+      dailyOvertimeAfter: policy.daily_overtime_after !== null ? Number(policy.daily_overtime_after) : null,
+      dailyDoubleTimeAfter: policy.daily_double_time_after !== null ? Number(policy.daily_double_time_after) : null,
+      weeklyOvertimeAfter: policy.weekly_overtime_after !== null ? Number(policy.weekly_overtime_after) : null,
+      seventhDayRule: policy.seventh_day_rule,
+    });
+
+    const byClassification = new Map<string, ResolvedOvertimeRules>();
+    let companyDefault: ResolvedOvertimeRules = DEFAULT_OVERTIME_RULES;
+
+    policies.forEach((policy) => {
+      if (policy.classification) {
+        byClassification.set(policy.classification.toLowerCase(), toRules(policy));
+      } else if (policy.is_default) {
+        companyDefault = toRules(policy);
+      }
+    });
+
+    return (classification?: string | null): ResolvedOvertimeRules =>
+      (classification && byClassification.get(classification.toLowerCase())) || companyDefault;
+  } catch (error) {
+    logger.error('Error loading overtime policies', { error });
+    throw error;
+  }
+};
+
+/**
+ * Validate policy thresholds
+ */
+const validatePolicyData = (data: Partial<OvertimePolicyData>) => {
+  const { dailyOvertimeAfter, dailyDoubleTimeAfter, weeklyOvertimeAfter } = data;
+
+  if (dailyOvertimeAfter != null && (dailyOvertimeAfter <= 0 || dailyOvertimeAfter > 24)) {
+    throw new Error('Daily overtime threshold must be between 0 and 24 hours');
+  }
+
+  if (dailyDoubleTimeAfter != null && (dailyDoubleTimeAfter <= 0 || dailyDoubleTimeAfter > 24)) {
+    throw new Error('Daily double time threshold must be between 0 and 24 hours');
+  }
+
+  if (
+    dailyOvertimeAfter != null &&
+    dailyDoubleTimeAfter != null &&
+    dailyDoubleTimeAfter <= dailyOvertimeAfter
+  ) {
+    throw new Error('Daily double time threshold must be greater than the overtime threshold');
+  }
+
+  if (weeklyOvertimeAfter != null && (weeklyOvertimeAfter <= 0 || weeklyOvertimeAfter > 168)) {
+    throw new Error('Weekly overtime threshold must be between 0 and 168 hours');
+  }
+
+  if (data.isDefault && data.classification) {
+    throw new Error('A company default policy cannot be limited to a classification');
+  }
+};
+
+const toDecimalOrNull = (value: number | null | undefined) =>
+  value === null || value === undefined ? null : new Decimal(value);
+
+/**
+ * Get all overtime policies
+ */
+export const getOvertimePolicies = async () => {
+  try {
+    const policies = await prisma.overtimePolicy.findMany({
+      orderBy: [{ is_default: 'desc' }, { classification: 'asc' }, { name: 'asc' }],
+    });
+
+    return policies.map(transformOvertimePolicyData);
+  } catch (error) {
+    logger.error('Error fetching overtime policies', { error });
+    throw error;
+  }
+};
+
+/**
+ * Create an overtime policy
+ */
+export const createOvertimePolicy = async (data: OvertimePolicyData, createdBy: string) => {
+  try {
+    validatePolicyData(data);
+
+    if (data.classification) {
+      const existing = await prisma.overtimePolicy.findUnique({
+        where: { classification: data.classification },
+      });
+      if (existing) {
+        throw new Error(`An overtime policy for ${data.classification} already exists`);
+      }
+    }
+
+    const policy = await prisma.$transaction(async (tx) => {
+      // Only one company default at a time
+      if (data.isDefault) {
+        await tx.overtimePolicy.updateMany({
+          where: { is_default: true },
+          data: { is_default: false, updated_by: createdBy },
+        });
+      }
+
+      return tx.overtimePolicy.create({
+        data: {
+          name: data.name,
+          classification: data.classification || null,
+          is_default: data.isDefault || false,
+          daily_overtime_after: toDecimalOrNull(data.dailyOvertimeAfter),
+          daily_double_time_after: toDecimalOrNull(data.dailyDoubleTimeAfter),
+          weekly_overtime_after: toDecimalOrNull(data.weeklyOvertimeAfter),
+          seventh_day_rule: data.seventhDayRule || false,
+          is_active: data.isActive ?? true,
+          created_by: createdBy,
+          updated_by: createdBy,
+        },
+      });
+    });
+
+    logger.info('Overtime policy created', { policyId: policy.id, createdBy });
+
+    return transformOvertimePolicyData(policy);
+  } catch (error) {
+    logger.error('Error creating overtime policy', { data, createdBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Update an overtime policy
+ */
+export const updateOvertimePolicy = async (
+  id: string,
+  data: Partial<OvertimePolicyData>,
+  updatedBy: string
+) => {
+  try {
+    const existing = await prisma.overtimePolicy.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Overtime policy not found');
+    }
+
+    // Validate against the merged result so partial updates keep thresholds consistent
+    validatePolicyData({
+      classification: data.classification !== undefined ? data.classification : existing.classification,
+      isDefault: data.isDefault ?? existing.is_default,
+      dailyOvertimeAfter:
+        data.dailyOvertimeAfter !== undefined
+          ? data.dailyOvertimeAfter
+          : existing.daily_overtime_after !== null ? Number(existing.daily_overtime_after) : null,
+      dailyDoubleTimeAfter:
+        data.dailyDoubleTimeAfter !== undefined
+          ? data.dailyDoubleTimeAfter
+          : existing.daily_double_time_after !== null ? Number(existing.daily_double_time_after) : null,
+      weeklyOvertimeAfter:
+        data.weeklyOvertimeAfter !== undefined
+          ? data.weeklyOvertimeAfter
+          : existing.weekly_overtime_after !== null ? Number(existing.weekly_overtime_after) : null,
+    });
+
+    if (data.classification && data.classification !== existing.classification) {
+      const duplicate = await prisma.overtimePolicy.findUnique({
+        where: { classification: data.classification },
+      });
+      if (duplicate) {
+        throw new Error(`An overtime policy for ${data.classification} already exists`);
+      }
+    }
+
+    const updateData: Prisma.OvertimePolicyUpdateInput = {
+      updated_by: updatedBy,
+    };
+
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.classification !== undefined) updateData.classification = data.classification || null;
+    if (data.isDefault !== undefined) updateData.is_default = data.isDefault;
+    if (data.dailyOvertimeAfter !== undefined)
+      updateData.daily_overtime_after = toDecimalOrNull(data.dailyOvertimeAfter);
+    if (data.dailyDoubleTimeAfter !== undefined)
+      updateData.daily_double_time_after = toDecimalOrNull(data.dailyDoubleTimeAfter);
+    if (data.weeklyOvertimeAfter !== undefined)
+      updateData.weekly_overtime_after = toDecimalOrNull(data.weeklyOvertimeAfter);
+    if (data.seventhDayRule !== undefined) updateData.seventh_day_rule = data.seventhDayRule;
+    if (data.isActive !== undefined) updateData.is_active = data.isActive;
+
+    const policy = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.overtimePolicy.updateMany({
+          where: { is_default: true, id: { not: id } },
+          data: { is_default: false, updated_by: updatedBy },
+        });
+      }
+
+      return tx.overtimePolicy.update({
+        where: { id },
+        data: updateData,
+      });
+    });
+
+    logger.info('Overtime policy updated', { policyId: id, updatedBy });
+
+    return transformOvertimePolicyData(policy);
+  } catch (error) {
+    logger.error('Error updating overtime policy', { id, data, updatedBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Delete an overtime policy
+ */
+export const deleteOvertimePolicy = async (id: string) => {
+  try {
+    const existing = await prisma.overtimePolicy.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Overtime policy not found');
+    }
+
+    await prisma.overtimePolicy.delete({
+      where: { id },
+    });
+
+    logger.info('Overtime policy deleted', { policyId: id });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Error deleting overtime policy', { id, error });
+    throw error;
+  }
+};
@@ -0,0 +1,413 @@
+/**
+ * Pay Rate Service
+ *
+ * Business logic for employee pay rate history including:
+ * - CRUD operations for an employee's effective-dated wage and labor burden
+ *   (employer payroll taxes, workers comp, benefits, union fringes)
+ * - Keeping employees.hourly_rate and classification in step with the rate in effect today
+ * - Looking up the rate and classification in effect on a work date
+ */
+
+import { PrismaClient, EmployeePayRate, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
+
+const prisma = new PrismaClient();
+
+export interface CreatePayRateData {
+  effective_date: Date;
+  hourly_rate: number;
+  payroll_tax_percent?: number | null;
+  workers_comp_percent?: number | null;
+  benefits_per_hour?: number | null;
+  union_fringe_per_hour?: number | null;
+  classification?: string | null;
+  notes?: string | null;
+}
+
+export type UpdatePayRateData = Partial<CreatePayRateData>;
+
+export type PayRateWithBurden = EmployeePayRate & { burdened_rate: number };
+
+type PayRateBurden = Pick<
+  EmployeePayRate,
+  'hourly_rate' | 'payroll_tax_percent' | 'workers_comp_percent' | 'benefits_per_hour' | 'union_fringe_per_hour'
+>;
+
+export interface LaborCost {
+  rate: number | null; // Base hourly wage used, null when no rate is known
+  cost: number; // Wages only
+  burdenedCost: number; // Wages plus taxes, workers comp, benefits and fringes
+}
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Today as a calendar date (UTC midnight), matching @db.Date columns
+ */
+const today = (): Date => new Date(toDateKey(new Date()));
+
+/**
+ * Fully-burdened hourly cost: wage plus percentage burdens on the wage plus
+ * per-hour benefits and fringes
+ */
+export const getBurdenedRate = (payRate: PayRateBurden): number => {
+  const wage = Number(payRate.hourly_rate);
+  const percent = Number(payRate.payroll_tax_percent ?? 0) + Number(payRate.workers_comp_percent ?? 0);
+  const perHour = Number(payRate.benefits_per_hour ?? 0) + Number(payRate.union_fringe_per_hour ?? 0);
+
+  return Math.round((wage * (1 + percent / 100) + perHour) * 100) / 100;
+};
+
+/**
+ * Wage and burdened cost of hours worked at a pay rate from history. Without a
+ * history row the fallback rate (copied onto the entry or the employee) is
+ * used with no burden.
+ */
+export const getLaborCost = (
+  hours: number,
+  payRate: PayRateBurden | null,
+  fallbackRate: number | null
+): LaborCost => {
+  if (payRate) {
+    return {
+      rate: Number(payRate.hourly_rate),
+      cost: hours * Number(payRate.hourly_rate),
+      burdenedCost: hours * getBurdenedRate(payRate),
+    };
+  }
+
+  return {
+    rate: fallbackRate,
+    cost: fallbackRate ? hours * fallbackRate : 0,
+    burdenedCost: fallbackRate ? hours * fallbackRate : 0,
+  };
+};
+
+const withBurden = (payRate: EmployeePayRate): PayRateWithBurden => ({
+  ...payRate,
+  burdened_rate: getBurdenedRate(payRate),
+});
+
+/**
+ * Ensure the employee exists and is not deleted
+ */
+const ensureEmployee = async (employeeId: string): Promise<void> => {
+  const employee = await prisma.employee.findFirst({
+    where: { id: employeeId, deleted_at: null },
+    select: { id: true },
+  });
+
+  if (!employee) {
+    throw new Error('Employee not found');
+  }
+};
+
+/**
+ * Validate pay rate fields, checking only the fields that are present
+ */
+const validatePayRateData = (data: UpdatePayRateData, requireAll: boolean): void => {
+  if (requireAll || data.effective_date !== undefined) {
+    if (!data.effective_date) {
+      throw new Error('Missing required fields: effective_date');
+    }
+    if (isNaN(data.effective_date.getTime())) {
+      throw new Error('Effective date must be a valid date (YYYY-MM-DD)');
+    }
+  }
+
+  if (requireAll || data.hourly_rate !== undefined) {
+    if (data.hourly_rate === undefined || data.hourly_rate === null) {
+      throw new Error('Missing required fields: hourly_rate');
+    }
+    if (isNaN(data.hourly_rate) || data.hourly_rate < 0) {
+      throw new Error('Hourly rate must be zero or more');
+    }
+  }
+
+  [data.payroll_tax_percent, data.workers_comp_percent].forEach((value) => {
+    if (value !== undefined && value !== null && (isNaN(value) || value < 0 || value > 100)) {
+      throw new Error('Burden percentages must be between 0 and 100');
+    }
+  });
+
+  [data.benefits_per_hour, data.union_fringe_per_hour].forEach((value) => {
+    if (value !== undefined && value !== null && (isNaN(value) || value < 0)) {
+      throw new Error('Benefits and fringes per hour must be zero or more');
+    }
+  });
+};
+
+/**
+ * Ensure no other pay rate for the employee starts on the same date
+ */
+const ensureUniqueEffectiveDate = async (employeeId: string, effectiveDate: Date, excludeId?: string): Promise<void> => {
+  const duplicate = await prisma.employeePayRate.findFirst({
+    where: {
+      employee_id: employeeId,
+      effective_date: effectiveDate,
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+    select: { id: true },
+  });
+
+  if (duplicate) {
+    throw new Error(`A pay rate effective ${toDateKey(effectiveDate)} already exists`);
+  }
+};
+
+/**
+ * Mirror the rate and classification in effect today onto the employee, which
+ * older reports and new time entries fall back to
+ */
+const syncEmployeeFromPayRate = async (employeeId: string, userId: string): Promise<void> => {
+  const current = await getEffectivePayRate(employeeId, today());
+  if (!current) return;
+
+  const currentClassification = await prisma.employeePayRate.findFirst({
+    where: { employee_id: employeeId, effective_date: { lte: today() }, classification: { not: null } },
+    orderBy: { effective_date: 'desc' },
+    select: { classification: true },
+  });
+
+  await prisma.employee.update({
+    where: { id: employeeId },
+    data: {
+      hourly_rate: current.hourly_rate,
+      ...(currentClassification?.classification ? { classification: currentClassification.classification } : {}),
+      updated_by: userId,
+    },
+  });
+};
+
+/**
+ * Get an employee's pay rate history, most recent first
+ */
+export const getEmployeePayRates = async (employeeId: string): Promise<PayRateWithBurden[]> => {
+  try {
+    await ensureEmployee(employeeId);
+
+    const payRates = await prisma.employeePayRate.findMany({
+      where: { employee_id: employeeId },
+      orderBy: { effective_date: 'desc' },
+    });
+
+    return payRates.map(withBurden);
+  } catch (error) {
+    logger.error('Error retrieving employee pay rates', { error, employeeId });
+    throw error;
+  }
+};
+
+/**
+ * Get a single pay rate
+ */
+export const getPayRateById = async (employeeId: string, id: string): Promise<EmployeePayRate> => {
+  const payRate = await prisma.employeePayRate.findFirst({
+    where: { id, employee_id: employeeId },
+  });
+
+  if (!payRate) {
+    throw new Error('Pay rate not found');
+  }
+
+  return payRate;
+};
+
+/**
+ * Get the pay rate in effect for an employee on a date (the latest one
+ * effective on or before it)
+ */
+export const getEffectivePayRate = async (employeeId: string, date: Date): Promise<EmployeePayRate | null> => {
+  return prisma.employeePayRate.findFirst({
+    where: { employee_id: employeeId, effective_date: { lte: date } },
+    orderBy: { effective_date: 'desc' },
+  });
+};
+
+/**
+ * Load the pay rate history for a set of employees once and return a lookup
+ * of the rate in effect for an employee on a work date
+ */
+export const getPayRateResolver = async (
+  employeeIds: string[]
+): Promise<(employeeId: string, date: Date) => EmployeePayRate | null> => {
+  const payRates = await prisma.employeePayRate.findMany({
+    where: { employee_id: { in: Array.from(new Set(employeeIds)) } },
+    orderBy: { effective_date: 'desc' },
+  });
+
+  const byEmployee = new Map<string, EmployeePayRate[]>();
+  payRates.forEach((payRate) => {
+    if (!byEmployee.has(payRate.employee_id)) {
+      byEmployee.set(payRate.employee_id, []);
+    }
+    byEmployee.get(payRate.employee_id)!.push(payRate);
+  });
+
+  return (employeeId, date) => {
+    const dateKey = toDateKey(date);
+    return byEmployee.get(employeeId)?.find((payRate) => toDateKey(payRate.effective_date) <= dateKey) ?? null;
+  };
+};
+
+/**
+ * Load the classification history for a set of employees once and return a
+ * lookup of the classification an employee worked under on a date, or null
+ * when no pay rate on or before it records one
+ */
+export const getClassificationResolver = async (
+  employeeIds: string[]
+): Promise<(employeeId: string, date: Date) => string | null> => {
+  const payRates = await prisma.employeePayRate.findMany({
+    where: { employee_id: { in: Array.from(new Set(employeeIds)) }, classification: { not: null } },
+    orderBy: { effective_date: 'desc' },
+    select: { employee_id: true, effective_date: true, classification: true },
+  });
+
+  return (employeeId, date) => {
+    const dateKey = toDateKey(date);
+    return (
+      payRates.find(
+        (payRate) => payRate.employee_id === employeeId && toDateKey(payRate.effective_date) <= dateKey
+      )?.classification ?? null
+    );
+  };
+};
+
+/**
+ * Add a pay rate to an employee's history
+ */
+export const createPayRate = async (
+  employeeId: string,
+  data: CreatePayRateData,
+  userId: string,
+  ipAddress?: string
+): Promise<PayRateWithBurden> => {
+  try {
+    await ensureEmployee(employeeId);
+    validatePayRateData(data, true);
+    await ensureUniqueEffectiveDate(employeeId, data.effective_date);
+
+    const payRate = await prisma.employeePayRate.create({
+      data: {
+        employee_id: employeeId,
+        effective_date: data.effective_date,
+        hourly_rate: data.hourly_rate,
+        payroll_tax_percent: data.payroll_tax_percent ?? null,
+        workers_comp_percent: data.workers_comp_percent ?? null,
+        benefits_per_hour: data.benefits_per_hour ?? null,
+        union_fringe_per_hour: data.union_fringe_per_hour ?? null,
+        classification: data.classification?.trim() || null,
+        notes: data.notes || null,
+        created_by: userId,
+        updated_by: userId,
+      },
+    });
+
+    await syncEmployeeFromPayRate(employeeId, userId);
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'CREATE_EMPLOYEE_PAY_RATE',
+      entityType: 'EMPLOYEE_PAY_RATE',
+      entityId: payRate.id,
+      after: payRate,
+      ipAddress,
+    });
+
+    logger.info('Employee pay rate created', { employeeId, payRateId: payRate.id, userId });
+    return withBurden(payRate);
+  } catch (error) {
+    logger.error('Error creating employee pay rate', { error, employeeId });
+    throw error;
+  }
+};
+
+/**
+ * Update a pay rate (corrections; raises are added as a new effective date)
+ */
+export const updatePayRate = async (
+  employeeId: string,
+  id: string,
+  data: UpdatePayRateData,
+  userId: string,
+  ipAddress?: string
+): Promise<PayRateWithBurden> => {
+  try {
+    const existing = await getPayRateById(employeeId, id);
+
+    validatePayRateData(data, false);
+
+    if (data.effective_date && toDateKey(data.effective_date) !== toDateKey(existing.effective_date)) {
+      await ensureUniqueEffectiveDate(employeeId, data.effective_date, id);
+    }
+
+    const updateData: Prisma.EmployeePayRateUncheckedUpdateInput = { updated_by: userId };
+    if (data.effective_date !== undefined) updateData.effective_date = data.effective_date;
+    if (data.hourly_rate !== undefined) updateData.hourly_rate = data.hourly_rate;
+    if (data.payroll_tax_percent !== undefined) updateData.payroll_tax_percent = data.payroll_tax_percent;
+    if (data.workers_comp_percent !== undefined) updateData.workers_comp_percent = data.workers_comp_percent;
+    if (data.benefits_per_hour !== undefined) updateData.benefits_per_hour = data.benefits_per_hour;
+    if (data.union_fringe_per_hour !== undefined) updateData.union_fringe_per_hour = data.union_fringe_per_hour;
+    if (data.classification !== undefined) updateData.classification = data.classification?.trim() || null;
+    if (data.notes !== undefined) updateData.notes = data.notes || null;
+
+    const payRate = await prisma.employeePayRate.update({
+      where: { id },
+      data: updateData,
+    });
+
+    await syncEmployeeFromPayRate(employeeId, userId);
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'UPDATE_EMPLOYEE_PAY_RATE',
+      entityType: 'EMPLOYEE_PAY_RATE',
+      entityId: id,
+      before: existing,
+      after: payRate,
+      ipAddress,
+    });
+
+    logger.info('Employee pay rate updated', { payRateId: id, userId });
+    return withBurden(payRate);
+  } catch (error) {
+    logger.error('Error updating employee pay rate', { error, id });
+    throw error;
+  }
+};
+
+/**
+ * Delete a pay rate entered in error
+ */
+export const deletePayRate = async (
+  employeeId: string,
+  id: string,
+  userId: string,
+  ipAddress?: string
+): Promise<void> => {
+  try {
+    const existing = await getPayRateById(employeeId, id);
+
+    await prisma.employeePayRate.delete({
+      where: { id },
+    });
+
+    await syncEmployeeFromPayRate(employeeId, userId);
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'DELETE_EMPLOYEE_PAY_RATE',
+      entityType: 'EMPLOYEE_PAY_RATE',
+      entityId: id,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Employee pay rate deleted', { payRateId: id, userId });
+  } catch (error) {
+    logger.error('Error deleting employee pay rate', { error, id });
+    throw error;
+  }
+};
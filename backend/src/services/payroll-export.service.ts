@@ -0,0 +1,433 @@
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { getWorkweekStart } from './overtime.service';
+import { loadEntriesWithOvertime } from './payroll.service';
+
+/**
+ * Payroll Export Service
+ * Pluggable exporters that turn approved payroll hours into the import
+ * formats of outside payroll systems. Employees are matched to the payroll
+ * system through the employee's payroll ID.
+ */
+
+export type PayrollExportFormat = 'QUICKBOOKS_IIF' | 'QUICKBOOKS_ONLINE' | 'ADP' | 'GUSTO';
+
+/**
+ * One project-day of an employee's hours, split by pay type
+ */
+export interface PayrollExportLine {
+  employeeId: string;
+  payrollId: string | null;
+  firstName: string;
+  lastName: string;
+  classification: string;
+  date: Date;
+  projectNumber: string;
+  projectName: string;
+  clientName: string;
+  hours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
+
+export interface PayrollExportContext {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface PayrollExporter {
+  format: PayrollExportFormat;
+  label: string;
+  description: string;
+  fileExtension: string;
+  contentType: string;
+  // Employees without a payroll ID cannot be matched and block the export
+  requiresPayrollId: boolean;
+  render: (lines: PayrollExportLine[], context: PayrollExportContext) => string;
+}
+
+interface EmployeeTotals {
+  employeeId: string;
+  payrollId: string | null;
+  firstName: string;
+  lastName: string;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
+
+// Payroll item names QuickBooks matches on; they must exist in the QuickBooks company file
+const QUICKBOOKS_PAYROLL_ITEMS = {
+  regularHours: 'Regular Pay',
+  overtimeHours: 'Overtime Pay',
+  doubleTimeHours: 'Double Time Pay',
+};
+
+const PAY_TYPE_LABELS = {
+  regularHours: 'Regular',
+  overtimeHours: 'Overtime',
+  doubleTimeHours: 'Double Time',
+};
+
+const PAY_TYPES = ['regularHours', 'overtimeHours', 'doubleTimeHours'] as const;
+
+// ADP earnings code for double time hours (Hours 3); regular and overtime have their own columns
+const ADP_DOUBLE_TIME_CODE = process.env.ADP_DOUBLE_TIME_CODE || 'D';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0]!;
+
+// MM/DD/YYYY, as QuickBooks expects
+const toUSDate = (date: Date) => {
+  const [year, month, day] = toDateKey(date).split('-');
+  return `${month}/${day}/${year}`;
+};
+
+// H:MM duration for QuickBooks time activities
+const toDuration = (hours: number) => {
+  const totalMinutes = Math.round(hours * 60);
+  return `${Math.floor(totalMinutes / 60)}:${String(totalMinutes % 60).padStart(2, '0')}`;
+};
+
+const toCsv = (rows: string[][]) =>
+  rows.map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+
+// IIF is tab delimited; tabs, quotes and line breaks in values break the import
+const toIifValue = (value: string) => value.replace(/[\t\r\n"]/g, ' ');
+
+const getEmployeeName = (line: { firstName: string; lastName: string }) =>
+  `${line.firstName} ${line.lastName}`;
+
+// QuickBooks matches employees by name; the payroll ID overrides when the names differ
+const getQuickBooksEmployee = (line: PayrollExportLine) => line.payrollId || getEmployeeName(line);
+
+const getQuickBooksJob = (line: PayrollExportLine) =>
+  `${line.clientName}:${line.projectNumber} ${line.projectName}`;
+
+/**
+ * Roll export lines up to one row per employee
+ */
+const totalByEmployee = (lines: PayrollExportLine[]): EmployeeTotals[] => {
+  const totals = new Map<string, EmployeeTotals>();
+
+  lines.forEach((line) => {
+    const employee = totals.get(line.employeeId) || {
+      employeeId: line.employeeId,
+      payrollId: line.payrollId,
+      firstName: line.firstName,
+      lastName: line.lastName,
+      regularHours: 0,
+      overtimeHours: 0,
+      doubleTimeHours: 0,
+    };
+
+    employee.regularHours += line.regularHours;
+    employee.overtimeHours += line.overtimeHours;
+    employee.doubleTimeHours += line.doubleTimeHours;
+    totals.set(line.employeeId, employee);
+  });
+
+  return Array.from(totals.values()).sort(
+    (a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName)
+  );
+};
+
+/**
+ * QuickBooks Desktop IIF time activities, one per pay type per project-day
+ */
+const quickBooksIifExporter: PayrollExporter = {
+  format: 'QUICKBOOKS_IIF',
+  label: 'QuickBooks Desktop (IIF)',
+  description: 'Time activities for File > Utilities > Import > IIF Files',
+  fileExtension: 'iif',
+  contentType: 'text/plain',
+  requiresPayrollId: false,
+  render: (lines) => {
+    const rows: string[][] = [
+      ['!TIMERHDR', 'VER', 'REL', 'COMPANYNAME', 'IMPORTEDBEFORE', 'FROMTIMER', 'COMPANYCREATETIME'],
+      ['TIMERHDR', '8', '0', '', 'N', 'Y', '0'],
+      ['!TIMEACT', 'DATE', 'JOB', 'EMP', 'ITEM', 'PITEM', 'DURATION', 'PROJ', 'NOTE', 'BILLINGSTATUS'],
+    ];
+
+    lines.forEach((line) => {
+      PAY_TYPES.forEach((payType) => {
+        if (line[payType] <= 0) return;
+
+        rows.push([
+          'TIMEACT',
+          toUSDate(line.date),
+          getQuickBooksJob(line),
+          getQuickBooksEmployee(line),
+          '',
+          QUICKBOOKS_PAYROLL_ITEMS[payType],
+          toDuration(line[payType]),
+          '',
+          line.classification,
+          '0',
+        ]);
+      });
+    });
+
+    return rows.map((row) => row.map(toIifValue).join('\t')).join('\r\n');
+  },
+};
+
+/**
+ * QuickBooks Online time activity CSV, one row per pay type per project-day
+ */
+const quickBooksOnlineExporter: PayrollExporter = {
+  format: 'QUICKBOOKS_ONLINE',
+  label: 'QuickBooks Online (CSV)',
+  description: 'Time activities with customer:project, pay type and decimal hours',
+  fileExtension: 'csv',
+  contentType: 'text/csv',
+  requiresPayrollId: false,
+  render: (lines) => {
+    const rows: string[][] = [
+      ['Activity Date', 'Employee', 'Customer', 'Pay Type', 'Hours', 'Billable', 'Description'],
+    ];
+
+    lines.forEach((line) => {
+      PAY_TYPES.forEach((payType) => {
+        if (line[payType] <= 0) return;
+
+        rows.push([
+          toUSDate(line.date),
+          getQuickBooksEmployee(line),
+          getQuickBooksJob(line),
+          PAY_TYPE_LABELS[payType],
+          line[payType].toFixed(2),
+          'No',
+          line.classification,
+        ]);
+      });
+    });
+
+    return toCsv(rows);
+  },
+};
+
+/**
+ * ADP Workforce Now paydata import, one row per employee keyed by file number
+ */
+const adpExporter: PayrollExporter = {
+  format: 'ADP',
+  label: 'ADP Workforce Now (CSV)',
+  description: 'Paydata batch keyed by ADP file number',
+  fileExtension: 'csv',
+  contentType: 'text/csv',
+  requiresPayrollId: true,
+  render: (lines, { endDate }) => {
+    const companyCode = process.env.ADP_COMPANY_CODE || '';
+    const batchId = `EPM${toDateKey(endDate).replace(/-/g, '')}`;
+
+    const rows: string[][] = [
+      ['Co Code', 'Batch ID', 'File #', 'Reg Hours', 'O/T Hours', 'Hours 3 Code', 'Hours 3 Amount'],
+    ];
+
+    totalByEmployee(lines).forEach((employee) => {
+      const doubleTimeHours = round2(employee.doubleTimeHours);
+
+      rows.push([
+        companyCode,
+        batchId,
+        employee.payrollId!,
+        round2(employee.regularHours).toFixed(2),
+        round2(employee.overtimeHours).toFixed(2),
+        doubleTimeHours > 0 ? ADP_DOUBLE_TIME_CODE : '',
+        doubleTimeHours > 0 ? doubleTimeHours.toFixed(2) : '',
+      ]);
+    });
+
+    return toCsv(rows);
+  },
+};
+
+/**
+ * Gusto hours import, one row per employee keyed by Gusto employee ID
+ */
+const gustoExporter: PayrollExporter = {
+  format: 'GUSTO',
+  label: 'Gusto (CSV)',
+  description: 'Hours import keyed by Gusto employee ID',
+  fileExtension: 'csv',
+  contentType: 'text/csv',
+  requiresPayrollId: true,
+  render: (lines) => {
+    const rows: string[][] = [
+      ['last_name', 'first_name', 'gusto_employee_id', 'regular_hours', 'overtime_hours', 'double_overtime_hours'],
+    ];
+
+    totalByEmployee(lines).forEach((employee) => {
+      rows.push([
+        employee.lastName,
+        employee.firstName,
+        employee.payrollId!,
+        round2(employee.regularHours).toFixed(2),
+        round2(employee.overtimeHours).toFixed(2),
+        round2(employee.doubleTimeHours).toFixed(2),
+      ]);
+    });
+
+    return toCsv(rows);
+  },
+};
+
+const PAYROLL_EXPORTERS: Record<PayrollExportFormat, PayrollExporter> = {
+  QUICKBOOKS_IIF: quickBooksIifExporter,
+  QUICKBOOKS_ONLINE: quickBooksOnlineExporter,
+  ADP: adpExporter,
+  GUSTO: gustoExporter,
+};
+
+export const PAYROLL_EXPORT_FORMATS = Object.keys(PAYROLL_EXPORTERS) as PayrollExportFormat[];
+
+/**
+ * List the available export formats
+ */
+export const getPayrollExportFormats = () =>
+  Object.values(PAYROLL_EXPORTERS).map(({ format, label, description, fileExtension, requiresPayrollId }) => ({
+    format,
+    label,
+    description,
+    fileExtension,
+    requiresPayrollId,
+  }));
+
+/**
+ * Check export hours against the approved weekly timesheet totals.
+ * Only weeks fully inside the export range are compared; a partial week
+ * at either end only carries part of the timesheet's hours.
+ */
+const assertLinesMatchApprovedTimesheets = async (
+  lines: PayrollExportLine[],
+  startDate: Date,
+  endDate: Date
+) => {
+  const startKey = toDateKey(startDate);
+  const endKey = toDateKey(endDate);
+
+  const timesheets = await prisma.weeklyTimesheet.findMany({
+    where: {
+      status: 'APPROVED',
+      week_start_date: {
+        gte: getWorkweekStart(startDate),
+        lte: endDate,
+      },
+    },
+    include: {
+      employee: {
+        select: { first_name: true, last_name: true },
+      },
+    },
+  });
+
+  const exportedHours = new Map<string, number>(); // key: employeeId|week start
+  lines.forEach((line) => {
+    const key = `${line.employeeId}|${toDateKey(getWorkweekStart(line.date))}`;
+    exportedHours.set(key, round2((exportedHours.get(key) || 0) + line.hours));
+  });
+
+  const mismatches = timesheets
+    .filter(
+      (timesheet) =>
+        toDateKey(timesheet.week_start_date) >= startKey && toDateKey(timesheet.week_end_date) <= endKey
+    )
+    .filter((timesheet) => {
+      const exported = exportedHours.get(`${timesheet.employee_id}|${toDateKey(timesheet.week_start_date)}`) || 0;
+      return round2(exported) !== round2(Number(timesheet.total_hours));
+    })
+    .map(
+      (timesheet) =>
+        `${timesheet.employee.first_name} ${timesheet.employee.last_name} (week of ${toDateKey(timesheet.week_start_date)})`
+    );
+
+  if (mismatches.length > 0) {
+    throw new Error(
+      `Export hours do not match the approved weekly timesheet for ${mismatches.join(', ')}; ` +
+        'reject and re-approve the timesheet before exporting'
+    );
+  }
+};
+
+/**
+ * Load approved payroll hours as export lines, one per employee per project per day
+ */
+const loadExportLines = async (startDate: Date, endDate: Date): Promise<PayrollExportLine[]> => {
+  const { timeEntries, getEntryBreakdown } = await loadEntriesWithOvertime(startDate, endDate, {
+    approvedWeeksOnly: true,
+  });
+
+  const lines = new Map<string, PayrollExportLine>();
+
+  timeEntries.forEach((entry) => {
+    const key = `${entry.employee_id}|${toDateKey(entry.date)}|${entry.project_id}`;
+    const breakdown = getEntryBreakdown(entry.id);
+    const line = lines.get(key) || {
+      employeeId: entry.employee_id,
+      payrollId: entry.employee.payroll_id,
+      firstName: entry.employee.first_name,
+      lastName: entry.employee.last_name,
+      classification: entry.employee.classification,
+      date: entry.date,
+      projectNumber: entry.project.project_number,
+      projectName: entry.project.name,
+      clientName: entry.project.client.name,
+      hours: 0,
+      regularHours: 0,
+      overtimeHours: 0,
+      doubleTimeHours: 0,
+    };
+
+    line.hours = round2(line.hours + Number(entry.hours_worked));
+    line.regularHours = round2(line.regularHours + breakdown.regularHours);
+    line.overtimeHours = round2(line.overtimeHours + breakdown.overtimeHours);
+    line.doubleTimeHours = round2(line.doubleTimeHours + breakdown.doubleTimeHours);
+    lines.set(key, line);
+  });
+
+  const exportLines = Array.from(lines.values());
+  await assertLinesMatchApprovedTimesheets(exportLines, startDate, endDate);
+
+  return exportLines;
+};
+
+/**
+ * Export approved payroll hours for a date range in an outside payroll format
+ */
+export const exportPayroll = async (format: PayrollExportFormat, startDate: Date, endDate: Date) => {
+  try {
+    const exporter = PAYROLL_EXPORTERS[format];
+    if (!exporter) {
+      throw new Error(`Export format must be one of ${PAYROLL_EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const lines = await loadExportLines(startDate, endDate);
+
+    if (exporter.requiresPayrollId) {
+      const missing = totalByEmployee(lines.filter((line) => !line.payrollId));
+      if (missing.length > 0) {
+        throw new Error(
+          `${exporter.label} requires a payroll ID; set one for ${missing.map(getEmployeeName).join(', ')}`
+        );
+      }
+    }
+
+    const content = exporter.render(lines, { startDate, endDate });
+    const filename = `payroll-${format.toLowerCase().replace(/_/g, '-')}-${toDateKey(startDate)}-to-${toDateKey(endDate)}.${exporter.fileExtension}`;
+
+    logger.info('Payroll exported', {
+      format,
+      startDate,
+      endDate,
+      lineCount: lines.length,
+    });
+
+    return { content, filename, contentType: exporter.contentType };
+  } catch (error) {
+    logger.error('Error exporting payroll', { format, startDate, endDate, error });
+    throw error;
+  }
+};
@@ -0,0 +1,575 @@
+import { PayrollPeriod, PayrollPeriodSnapshot, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { Decimal } from '@prisma/client/runtime/library';
+import { recordAuditLog } from './audit.service';
+import { getWorkweekStart } from './overtime.service';
+import { generateWeeklyReport } from './payroll.service';
+
+/**
+ * Payroll Period Service
+ * Weekly and biweekly pay periods. Closing a period snapshots the exported
+ * payroll totals and freezes every time entry, sign-in and timesheet dated in
+ * its range; corrections require reopening the period with a reason.
+ */
+
+export type PayrollPeriodType = 'WEEKLY' | 'BIWEEKLY';
+
+export const PAYROLL_PERIOD_TYPES: PayrollPeriodType[] = ['WEEKLY', 'BIWEEKLY'];
+
+interface PayrollPeriodData {
+  periodType: PayrollPeriodType;
+  startDate?: Date; // Defaults to the day after the latest period
+  notes?: string;
+}
+
+interface PayrollPeriodFilters {
+  status?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// A type alias rather than an interface so snapshots are assignable to Prisma JSON input
+export type SnapshotEmployee = {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  classification: string;
+  totalHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+};
+
+type UserSummary = { id: string; first_name: string; last_name: string };
+
+type PayrollPeriodWithRelations = PayrollPeriod & {
+  closed_by_user?: UserSummary | null;
+  reopened_by_user?: UserSummary | null;
+  snapshots?: PayrollPeriodSnapshot[];
+};
+
+const PERIOD_LENGTH_DAYS: Record<PayrollPeriodType, number> = {
+  WEEKLY: 7,
+  BIWEEKLY: 14,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0]!;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * MS_PER_DAY);
+
+const userSelect = {
+  select: {
+    id: true,
+    first_name: true,
+    last_name: true,
+  },
+};
+
+const payrollPeriodInclude = {
+  closed_by_user: userSelect,
+  reopened_by_user: userSelect,
+};
+
+/**
+ * Transform snake_case Prisma response to camelCase for frontend
+ */
+function transformSnapshotData(snapshot: PayrollPeriodSnapshot | null | undefined) {
+  if (!snapshot) return null;
+
+  return {
+    id: snapshot.id,
+    payrollPeriodId: snapshot.payroll_period_id,
+    totalHours: Number(snapshot.total_hours),
+    regularHours: Number(snapshot.regular_hours),
+    overtimeHours: Number(snapshot.overtime_hours),
+    doubleTimeHours: Number(snapshot.double_time_hours),
+    employeeCount: snapshot.employee_count,
+    employees: snapshot.employees as unknown as SnapshotEmployee[],
+    createdAt: snapshot.created_at,
+    createdBy: snapshot.created_by,
+  };
+}
+
+/**
+ * Transform snake_case Prisma response to camelCase for frontend
+ */
+function transformPayrollPeriodData(period: PayrollPeriodWithRelations | null) {
+  if (!period) return null;
+
+  return {
+    id: period.id,
+    periodType: period.period_type,
+    startDate: period.start_date,
+    endDate: period.end_date,
+    status: period.status,
+    isClosed: period.status === 'CLOSED',
+    notes: period.notes,
+    closedAt: period.closed_at,
+    closedBy: period.closed_by_user
+      ? {
+          id: period.closed_by_user.id,
+          firstName: period.closed_by_user.first_name,
+          lastName: period.closed_by_user.last_name,
+        }
+      : null,
+    reopenedAt: period.reopened_at,
+    reopenedBy: period.reopened_by_user
+      ? {
+          id: period.reopened_by_user.id,
+          firstName: period.reopened_by_user.first_name,
+          lastName: period.reopened_by_user.last_name,
+        }
+      : null,
+    reopenReason: period.reopen_reason,
+    snapshots: period.snapshots ? period.snapshots.map(transformSnapshotData) : undefined,
+    createdAt: period.created_at,
+    updatedAt: period.updated_at,
+  };
+}
+
+/**
+ * The closed payroll period overlapping a date range, if any
+ */
+const findClosedPeriod = (startDate: Date, endDate: Date) =>
+  prisma.payrollPeriod.findFirst({
+    where: {
+      status: 'CLOSED',
+      start_date: { lte: endDate },
+      end_date: { gte: startDate },
+    },
+    select: { start_date: true, end_date: true },
+  });
+
+/**
+ * Whether any date in the range falls in a closed payroll period
+ */
+export const isPayrollPeriodClosed = async (startDate: Date, endDate: Date = startDate) =>
+  !!(await findClosedPeriod(startDate, endDate));
+
+/**
+ * Throw if any date in the range falls in a closed payroll period.
+ * Called before time entries, sign-ins and timesheets are created, changed or deleted.
+ */
+export const assertPayrollPeriodOpen = async (startDate: Date, endDate: Date = startDate) => {
+  const closed = await findClosedPeriod(startDate, endDate);
+
+  if (closed) {
+    throw new Error(
+      `Payroll period ${toDateKey(closed.start_date)} to ${toDateKey(closed.end_date)} is closed; ` +
+        'its time is locked until the period is reopened'
+    );
+  }
+};
+
+/**
+ * Total the exported payroll (approved weeks only, rejected entries excluded) for a period
+ */
+const calculatePeriodTotals = async (startDate: Date, endDate: Date) => {
+  const report = await generateWeeklyReport(startDate, endDate, { approvedWeeksOnly: true });
+
+  const employees: SnapshotEmployee[] = report.employees.map((employee) => ({
+    employeeId: employee.employeeId,
+    firstName: employee.firstName,
+    lastName: employee.lastName,
+    classification: employee.classification,
+    totalHours: round2(employee.totalHours),
+    regularHours: round2(employee.regularHours),
+    overtimeHours: round2(employee.overtimeHours),
+    doubleTimeHours: round2(employee.doubleTimeHours),
+  }));
+
+  const sum = (field: keyof Omit<SnapshotEmployee, 'employeeId' | 'firstName' | 'lastName' | 'classification'>) =>
+    round2(employees.reduce((total, employee) => total + employee[field], 0));
+
+  return {
+    totalHours: sum('totalHours'),
+    regularHours: sum('regularHours'),
+    overtimeHours: sum('overtimeHours'),
+    doubleTimeHours: sum('doubleTimeHours'),
+    employeeCount: employees.length,
+    employees,
+  };
+};
+
+/**
+ * Get payroll periods, newest first
+ */
+export const getPayrollPeriods = async (filters: PayrollPeriodFilters = {}) => {
+  try {
+    const periods = await prisma.payrollPeriod.findMany({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.startDate && { end_date: { gte: filters.startDate } }),
+        ...(filters.endDate && { start_date: { lte: filters.endDate } }),
+      },
+      include: {
+        ...payrollPeriodInclude,
+        snapshots: {
+          orderBy: { created_at: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: { start_date: 'desc' },
+    });
+
+    return periods.map(transformPayrollPeriodData);
+  } catch (error) {
+    logger.error('Error fetching payroll periods', { filters, error });
+    throw error;
+  }
+};
+
+/**
+ * Get a payroll period with every close snapshot
+ */
+export const getPayrollPeriodById = async (id: string) => {
+  try {
+    const period = await prisma.payrollPeriod.findUnique({
+      where: { id },
+      include: {
+        ...payrollPeriodInclude,
+        snapshots: {
+          orderBy: { created_at: 'desc' },
+        },
+      },
+    });
+
+    if (!period) {
+      throw new Error('Payroll period not found');
+    }
+
+    return transformPayrollPeriodData(period);
+  } catch (error) {
+    logger.error('Error fetching payroll period', { id, error });
+    throw error;
+  }
+};
+
+/**
+ * Create a payroll period starting on a workweek start
+ */
+export const createPayrollPeriod = async (
+  data: PayrollPeriodData,
+  userId: string,
+  ipAddress?: string
+) => {
+  try {
+    if (!PAYROLL_PERIOD_TYPES.includes(data.periodType)) {
+      throw new Error(`Period type must be one of ${PAYROLL_PERIOD_TYPES.join(', ')}`);
+    }
+
+    let startDate = data.startDate;
+    if (!startDate) {
+      const latest = await prisma.payrollPeriod.findFirst({
+        orderBy: { end_date: 'desc' },
+        select: { end_date: true },
+      });
+
+      if (!latest) {
+        throw new Error('Start date is required for the first payroll period');
+      }
+      startDate = addDays(latest.end_date, 1);
+    }
+
+    startDate = new Date(toDateKey(startDate));
+    if (getWorkweekStart(startDate).getTime() !== startDate.getTime()) {
+      throw new Error('Payroll periods must start on the first day of the workweek (Monday)');
+    }
+
+    const endDate = addDays(startDate, PERIOD_LENGTH_DAYS[data.periodType] - 1);
+
+    const overlapping = await prisma.payrollPeriod.findFirst({
+      where: {
+        start_date: { lte: endDate },
+        end_date: { gte: startDate },
+      },
+      select: { start_date: true, end_date: true },
+    });
+
+    if (overlapping) {
+      throw new Error(
+        `Payroll period overlaps the existing period ${toDateKey(overlapping.start_date)} to ${toDateKey(overlapping.end_date)}`
+      );
+    }
+
+    const period = await prisma.payrollPeriod.create({
+      data: {
+        period_type: data.periodType,
+        start_date: startDate,
+        end_date: endDate,
+        notes: data.notes,
+        created_by: userId,
+        updated_by: userId,
+      },
+      include: payrollPeriodInclude,
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'CREATE_PAYROLL_PERIOD',
+      entityType: 'PAYROLL_PERIOD',
+      entityId: period.id,
+      after: period,
+      ipAddress,
+    });
+
+    logger.info('Payroll period created', { payrollPeriodId: period.id, startDate, endDate, userId });
+    return transformPayrollPeriodData(period);
+  } catch (error) {
+    logger.error('Error creating payroll period', { data, userId, error });
+    throw error;
+  }
+};
+
+/**
+ * Delete a payroll period that has never been closed
+ */
+export const deletePayrollPeriod = async (id: string, userId: string, ipAddress?: string) => {
+  try {
+    const existing = await prisma.payrollPeriod.findUnique({
+      where: { id },
+      include: { _count: { select: { snapshots: true } } },
+    });
+
+    if (!existing) {
+      throw new Error('Payroll period not found');
+    }
+
+    if (existing.status === 'CLOSED' || existing._count.snapshots > 0) {
+      throw new Error('Payroll periods that have been closed cannot be deleted');
+    }
+
+    await prisma.payrollPeriod.delete({ where: { id } });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'DELETE_PAYROLL_PERIOD',
+      entityType: 'PAYROLL_PERIOD',
+      entityId: id,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Payroll period deleted', { payrollPeriodId: id, userId });
+    return { success: true };
+  } catch (error) {
+    logger.error('Error deleting payroll period', { id, userId, error });
+    throw error;
+  }
+};
+
+/**
+ * Close a payroll period: snapshot the exported totals and lock its time
+ */
+export const closePayrollPeriod = async (id: string, userId: string, ipAddress?: string) => {
+  try {
+    const existing = await prisma.payrollPeriod.findUnique({ where: { id } });
+
+    if (!existing) {
+      throw new Error('Payroll period not found');
+    }
+
+    if (existing.status === 'CLOSED') {
+      throw new Error('Payroll period is already closed');
+    }
+
+    const totals = await calculatePeriodTotals(existing.start_date, existing.end_date);
+
+    const period = await prisma.$transaction(async (tx) => {
+      await tx.payrollPeriodSnapshot.create({
+        data: {
+          payroll_period_id: id,
+          total_hours: new Decimal(totals.totalHours),
+          regular_hours: new Decimal(totals.regularHours),
+          overtime_hours: new Decimal(totals.overtimeHours),
+          double_time_hours: new Decimal(totals.doubleTimeHours),
+          employee_count: totals.employeeCount,
+          employees: totals.employees satisfies Prisma.InputJsonValue,
+          created_by: userId,
+        },
+      });
+
+      return tx.payrollPeriod.update({
+        where: { id },
+        data: {
+          status: 'CLOSED',
+          closed_by: userId,
+          closed_at: new Date(),
+          updated_by: userId,
+        },
+        include: {
+          ...payrollPeriodInclude,
+          snapshots: {
+            orderBy: { created_at: 'desc' },
+          },
+        },
+      });
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'CLOSE_PAYROLL_PERIOD',
+      entityType: 'PAYROLL_PERIOD',
+      entityId: id,
+      before: { status: existing.status },
+      after: { status: 'CLOSED', total_hours: totals.totalHours, employee_count: totals.employeeCount },
+      ipAddress,
+    });
+
+    logger.info('Payroll period closed', { payrollPeriodId: id, userId, totalHours: totals.totalHours });
+    return transformPayrollPeriodData(period);
+  } catch (error) {
+    logger.error('Error closing payroll period', { id, userId, error });
+    throw error;
+  }
+};
+
+/**
+ * Reopen a closed payroll period for corrections (reason required)
+ */
+export const reopenPayrollPeriod = async (
+  id: string,
+  reason: string,
+  userId: string,
+  ipAddress?: string
+) => {
+  try {
+    if (!reason || !reason.trim()) {
+      throw new Error('A reason is required to reopen a payroll period');
+    }
+
+    const existing = await prisma.payrollPeriod.findUnique({ where: { id } });
+
+    if (!existing) {
+      throw new Error('Payroll period not found');
+    }
+
+    if (existing.status !== 'CLOSED') {
+      throw new Error('Payroll period is not closed');
+    }
+
+    const period = await prisma.payrollPeriod.update({
+      where: { id },
+      data: {
+        status: 'OPEN',
+        reopened_by: userId,
+        reopened_at: new Date(),
+        reopen_reason: reason.trim(),
+        updated_by: userId,
+      },
+      include: payrollPeriodInclude,
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'REOPEN_PAYROLL_PERIOD',
+      entityType: 'PAYROLL_PERIOD',
+      entityId: id,
+      before: { status: existing.status, reopen_reason: existing.reopen_reason },
+      after: { status: 'OPEN', reopen_reason: reason.trim() },
+      ipAddress,
+    });
+
+    logger.info('Payroll period reopened', { payrollPeriodId: id, userId });
+    return transformPayrollPeriodData(period);
+  } catch (error) {
+    logger.error('Error reopening payroll period', { id, userId, error });
+    throw error;
+  }
+};
+
+/**
+ * Compare the latest close snapshot with the payroll totals as they stand now,
+ * per employee, to see what changed after a reopen
+ */
+export const comparePayrollPeriod = async (id: string) => {
+  try {
+    const period = await prisma.payrollPeriod.findUnique({
+      where: { id },
+      include: {
+        snapshots: {
+          orderBy: { created_at: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!period) {
+      throw new Error('Payroll period not found');
+    }
+
+    const snapshot = transformSnapshotData(period.snapshots[0]);
+    if (!snapshot) {
+      throw new Error('Payroll period has not been closed yet; there is no snapshot to compare');
+    }
+
+    const current = await calculatePeriodTotals(period.start_date, period.end_date);
+
+    const snapshotByEmployee = new Map<string, SnapshotEmployee>(
+      (snapshot.employees as SnapshotEmployee[]).map((employee) => [employee.employeeId, employee])
+    );
+    const currentByEmployee = new Map(current.employees.map((employee) => [employee.employeeId, employee]));
+    const employeeIds = new Set([...snapshotByEmployee.keys(), ...currentByEmployee.keys()]);
+
+    const employees = Array.from(employeeIds)
+      .map((employeeId) => {
+        const before = snapshotByEmployee.get(employeeId) || null;
+        const after = currentByEmployee.get(employeeId) || null;
+        const name = (after || before)!;
+        const difference = (field: 'totalHours' | 'regularHours' | 'overtimeHours' | 'doubleTimeHours') =>
+          round2((after?.[field] ?? 0) - (before?.[field] ?? 0));
+
+        return {
+          employeeId,
+          firstName: name.firstName,
+          lastName: name.lastName,
+          classification: name.classification,
+          snapshot: before,
+          current: after,
+          difference: {
+            totalHours: difference('totalHours'),
+            regularHours: difference('regularHours'),
+            overtimeHours: difference('overtimeHours'),
+            doubleTimeHours: difference('doubleTimeHours'),
+          },
+        };
+      })
+      .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName));
+
+    const changedEmployees = employees.filter((employee) =>
+      Object.values(employee.difference).some((value) => value !== 0)
+    );
+
+    return {
+      payrollPeriodId: id,
+      startDate: period.start_date,
+      endDate: period.end_date,
+      snapshotAt: snapshot.createdAt,
+      snapshot: {
+        totalHours: snapshot.totalHours,
+        regularHours: snapshot.regularHours,
+        overtimeHours: snapshot.overtimeHours,
+        doubleTimeHours: snapshot.doubleTimeHours,
+        employeeCount: snapshot.employeeCount,
+      },
+      current: {
+        totalHours: current.totalHours,
+        regularHours: current.regularHours,
+        overtimeHours: current.overtimeHours,
+        doubleTimeHours: current.doubleTimeHours,
+        employeeCount: current.employeeCount,
+      },
+      hasChanges: changedEmployees.length > 0,
+      changedEmployeeCount: changedEmployees.length,
+      employees,
+    };
+  } catch (error) {
+    logger.error('Error comparing payroll period', { id, error });
+    throw error;
+  }
+};
@@ -1,74 +1,264 @@
 import prisma from '../config/database';
 import { logger } from '../utils/logger';
+import {
+  calculateOvertime,
+  allocateDayHours,
+  getOvertimeRulesResolver,
+  getWorkweekStart,
+  DayBreakdown,
+  ResolvedOvertimeRules,
+} from './overtime.service';
+import { checkMealPeriod, MealPeriodExceptionType } from './signin.service';
+import { getPayRateResolver, getLaborCost } from './pay-rate.service';
 
 /**
  * Payroll Service
  * Generates payroll reports and exports to CSV
  */
 
-interface DailyReportEmployee {
+export interface HoursBreakdown {
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
+
+interface DailyReportEmployee extends HoursBreakdown {
   employeeId: string;
   firstName: string;
   lastName: string;
   classification: string;
+  overtimePolicy: string;
   totalHours: number;
-  regularHours: number;
-  overtimeHours: number;
-  projects: Array<{
-    projectId: string;
-    projectName: string;
-    hoursWorked: number;
-  }>;
+  projects: Array<
+    {
+      projectId: string;
+      projectName: string;
+      hoursWorked: number;
+    } & HoursBreakdown
+  >;
   signInTime?: Date;
   signOutTime?: Date;
+  // Farthest sign-in/sign-out punch from the project site (meters) and whether any was outside the geofence
+  maxPunchDistance: number | null;
+  outsideGeofence: boolean;
+  // Meal period problem on any of the day's sign-ins (null = compliant)
+  mealPeriodException: string | null;
+}
+
+export interface ComplianceException {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  classification: string;
+  date: Date;
+  signInId: string;
+  signInTime: Date;
+  signOutTime: Date | null;
+  type: MealPeriodExceptionType;
+  message: string;
 }
 
 interface DailyReport {
   date: Date;
   employees: DailyReportEmployee[];
   grandTotalHours: number;
+  complianceExceptions: ComplianceException[];
+}
+
+export interface PayrollReportOptions {
+  // Only include hours from weeks whose weekly timesheet is approved (payroll exports)
+  approvedWeeksOnly?: boolean;
 }
 
+const toDateKey = (date: Date) => date.toISOString().split('T')[0]!;
+
+// Project cost report bucket for time and expenses recorded without a cost code
+const UNCODED_KEY = 'UNCODED';
+
 /**
- * Calculate overtime based on daily hours
- * Overtime = any hours over 8 in a day
+ * Load time entries for a date range and split every entry into regular,
+ * overtime and double time using the configured overtime policies.
+ * Entries from the start of the first workweek are loaded so weekly and
+ * 7th-day rules give the same answer in daily, weekly and summary reports.
+ * With approvedWeeksOnly, rejected entries and whole employee-weeks without
+ * an approved weekly timesheet are dropped before overtime is calculated.
  */
-const calculateOvertimeDaily = (hours: number) => {
-  if (hours <= 8) {
-    return { regular: hours, overtime: 0 };
-  } else {
-    return { regular: 8, overtime: hours - 8 };
+export const loadEntriesWithOvertime = async (
+  startDate: Date,
+  endDate: Date,
+  options: PayrollReportOptions = {}
+) => {
+  const loadedEntries = await prisma.timeEntry.findMany({
+    where: {
+      date: {
+        gte: getWorkweekStart(startDate),
+        lte: endDate,
+      },
+      // Rejected entries are not paid and are left out of approved weekly totals
+      ...(options.approvedWeeksOnly ? { status: { not: 'REJECTED' as const } } : {}),
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          first_name: true,
+          last_name: true,
+          classification: true,
+          employee_number: true,
+          payroll_id: true,
+          hourly_rate: true,
+        },
+      },
+      project: {
+        select: {
+          id: true,
+          name: true,
+          project_number: true,
+          client: {
+            select: { name: true },
+          },
+        },
+      },
+    },
+    orderBy: [{ date: 'asc' }, { start_time: 'asc' }, { created_at: 'asc' }],
+  });
+
+  let timeEntries = loadedEntries;
+  if (options.approvedWeeksOnly) {
+    const approvedWeeks = await prisma.weeklyTimesheet.findMany({
+      where: {
+        status: 'APPROVED',
+        week_start_date: {
+          gte: getWorkweekStart(startDate),
+          lte: endDate,
+        },
+      },
+      select: { employee_id: true, week_start_date: true },
+    });
+    const approvedKeys = new Set(
+      approvedWeeks.map((week) => `${week.employee_id}|${toDateKey(week.week_start_date)}`)
+    );
+    timeEntries = loadedEntries.filter((entry) =>
+      approvedKeys.has(`${entry.employee_id}|${toDateKey(getWorkweekStart(entry.date))}`)
+    );
   }
+
+  const resolveRules = await getOvertimeRulesResolver();
+
+  const entriesByEmployee = new Map<string, typeof timeEntries>();
+  timeEntries.forEach((entry) => {
+    const list = entriesByEmployee.get(entry.employee_id) || [];
+    list.push(entry);
+    entriesByEmployee.set(entry.employee_id, list);
+  });
+
+  const employeeRules = new Map<string, ResolvedOvertimeRules>();
+  const dayBreakdowns = new Map<string, DayBreakdown>(); // key: employeeId|date
+  const entryBreakdowns = new Map<string, HoursBreakdown>(); // key: time entry id
+
+  entriesByEmployee.forEach((entries, employeeId) => {
+    const rules = resolveRules(entries[0]!.employee.classification);
+    employeeRules.set(employeeId, rules);
+
+    const breakdown = calculateOvertime(
+      entries.map((entry) => ({ date: entry.date, hours: Number(entry.hours_worked) })),
+      rules
+    );
+
+    breakdown.forEach((day) => {
+      const dateKey = toDateKey(day.date);
+      dayBreakdowns.set(`${employeeId}|${dateKey}`, day);
+
+      const dayEntries = entries.filter((entry) => toDateKey(entry.date) === dateKey);
+      const allocations = allocateDayHours(
+        day,
+        dayEntries.map((entry) => Number(entry.hours_worked))
+      );
+      dayEntries.forEach((entry, index) => {
+        entryBreakdowns.set(entry.id, allocations[index]!);
+      });
+    });
+  });
+
+  const startKey = toDateKey(startDate);
+  const endKey = toDateKey(endDate);
+  const entriesInRange = timeEntries.filter((entry) => {
+    const dateKey = toDateKey(entry.date);
+    return dateKey >= startKey && dateKey <= endKey;
+  });
+
+  return {
+    timeEntries: entriesInRange,
+    employeeRules,
+    getDayBreakdown: (employeeId: string, date: Date) =>
+      dayBreakdowns.get(`${employeeId}|${toDateKey(date)}`),
+    getEntryBreakdown: (entryId: string): HoursBreakdown =>
+      entryBreakdowns.get(entryId) || { regularHours: 0, overtimeHours: 0, doubleTimeHours: 0 },
+  };
 };
 
 /**
- * Generate daily payroll report
+ * Find completed sign-ins in a date range without a compliant meal period
  */
-export const generateDailyReport = async (date: Date): Promise<DailyReport> => {
-  try {
-    // Get all time entries for the date
-    const timeEntries = await prisma.timeEntry.findMany({
-      where: {
-        date: date,
+export const getMealPeriodExceptions = async (
+  startDate: Date,
+  endDate: Date
+): Promise<ComplianceException[]> => {
+  const signIns = await prisma.dailySignIn.findMany({
+    where: {
+      date: {
+        gte: startDate,
+        lte: endDate,
       },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true,
-            classification: true,
-          },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
-            project_number: true,
-          },
+      sign_out_time: { not: null },
+    },
+    include: {
+      employee: {
+        select: {
+          id: true,
+          first_name: true,
+          last_name: true,
+          classification: true,
         },
       },
-    });
+      breaks: true,
+    },
+    orderBy: [{ date: 'asc' }, { sign_in_time: 'asc' }],
+  });
+
+  const exceptions: ComplianceException[] = [];
+  signIns.forEach((signIn) => {
+    const exception = checkMealPeriod(signIn);
+    if (exception) {
+      exceptions.push({
+        employeeId: signIn.employee_id,
+        firstName: signIn.employee.first_name,
+        lastName: signIn.employee.last_name,
+        classification: signIn.employee.classification,
+        date: signIn.date,
+        signInId: signIn.id,
+        signInTime: signIn.sign_in_time,
+        signOutTime: signIn.sign_out_time,
+        type: exception.type,
+        message: exception.message,
+      });
+    }
+  });
+
+  return exceptions;
+};
+
+/**
+ * Generate daily payroll report
+ */
+export const generateDailyReport = async (
+  date: Date,
+  options: PayrollReportOptions = {}
+): Promise<DailyReport> => {
+  try {
+    // Get all time entries for the date (with workweek context for overtime rules)
+    const { timeEntries, employeeRules, getDayBreakdown, getEntryBreakdown } =
+      await loadEntriesWithOvertime(date, date, options);
 
     // Get sign-ins for the date
     const signIns = await prisma.dailySignIn.findMany({
@@ -79,18 +269,35 @@ export const generateDailyReport = async (date: Date): Promise<DailyReport> => {
         employee_id: true,
         sign_in_time: true,
         sign_out_time: true,
+        sign_in_distance: true,
+        sign_in_outside_geofence: true,
+        sign_out_distance: true,
+        sign_out_outside_geofence: true,
       },
     });
 
-    // Create a map of sign-in times by employee
+    // Create a map of sign-in times and geofence results by employee
     const signInMap = new Map();
+    const geofenceMap = new Map<string, { maxPunchDistance: number | null; outsideGeofence: boolean }>();
     signIns.forEach((signIn) => {
       signInMap.set(signIn.employee_id, {
         signInTime: signIn.sign_in_time,
         signOutTime: signIn.sign_out_time,
       });
+
+      const geofence = geofenceMap.get(signIn.employee_id) || { maxPunchDistance: null, outsideGeofence: false };
+      [signIn.sign_in_distance, signIn.sign_out_distance].forEach((distance) => {
+        if (distance !== null && (geofence.maxPunchDistance === null || distance > geofence.maxPunchDistance)) {
+          geofence.maxPunchDistance = distance;
+        }
+      });
+      geofence.outsideGeofence =
+        geofence.outsideGeofence || !!signIn.sign_in_outside_geofence || !!signIn.sign_out_outside_geofence;
+      geofenceMap.set(signIn.employee_id, geofence);
     });
 
+    const complianceExceptions = await getMealPeriodExceptions(date, date);
+
     // Group time entries by employee
     const employeeMap = new Map<string, DailyReportEmployee>();
 
@@ -104,12 +311,18 @@ export const generateDailyReport = async (date: Date): Promise<DailyReport> => {
           firstName: entry.employee.first_name,
           lastName: entry.employee.last_name,
           classification: entry.employee.classification,
+          overtimePolicy: employeeRules.get(employeeId)!.policyName,
           totalHours: 0,
           regularHours: 0,
           overtimeHours: 0,
+          doubleTimeHours: 0,
           projects: [],
           signInTime: signInData?.signInTime,
           signOutTime: signInData?.signOutTime,
+          maxPunchDistance: geofenceMap.get(employeeId)?.maxPunchDistance ?? null,
+          outsideGeofence: geofenceMap.get(employeeId)?.outsideGeofence ?? false,
+          mealPeriodException:
+            complianceExceptions.find((exception) => exception.employeeId === employeeId)?.message ?? null,
         });
       }
 
@@ -121,17 +334,19 @@ export const generateDailyReport = async (date: Date): Promise<DailyReport> => {
         projectId: entry.project_id,
         projectName: entry.project.name,
         hoursWorked: hours,
+        ...getEntryBreakdown(entry.id),
       });
     });
 
-    // Calculate regular and overtime hours for each employee
+    // Regular, overtime and double time for each employee from the overtime policy
     const employees: DailyReportEmployee[] = Array.from(employeeMap.values()).map(
       (employee) => {
-        const { regular, overtime } = calculateOvertimeDaily(employee.totalHours);
+        const day = getDayBreakdown(employee.employeeId, date);
         return {
           ...employee,
-          regularHours: regular,
-          overtimeHours: overtime,
+          regularHours: day?.regularHours ?? 0,
+          overtimeHours: day?.overtimeHours ?? 0,
+          doubleTimeHours: day?.doubleTimeHours ?? 0,
         };
       }
     );
@@ -146,6 +361,7 @@ export const generateDailyReport = async (date: Date): Promise<DailyReport> => {
       date: date,
       employees: employees,
       grandTotalHours: grandTotalHours,
+      complianceExceptions,
     };
 
     logger.info('Daily payroll report generated', {
@@ -164,37 +380,15 @@ export const generateDailyReport = async (date: Date): Promise<DailyReport> => {
 /**
  * Generate weekly payroll report
  */
-export const generateWeeklyReport = async (startDate: Date, endDate: Date) => {
+export const generateWeeklyReport = async (
+  startDate: Date,
+  endDate: Date,
+  options: PayrollReportOptions = {}
+) => {
   try {
-    // Get all time entries for the week
-    const timeEntries = await prisma.timeEntry.findMany({
-      where: {
-        date: {
-          gte: startDate,
-          lte: endDate,
-        },
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true,
-            classification: true,
-          },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
-            project_number: true,
-          },
-        },
-      },
-      orderBy: {
-        date: 'asc',
-      },
-    });
+    // Get all time entries for the week (with workweek context for overtime rules)
+    const { timeEntries, employeeRules, getDayBreakdown, getEntryBreakdown } =
+      await loadEntriesWithOvertime(startDate, endDate, options);
 
     // Group by employee
     const employeeMap = new Map<
@@ -204,10 +398,13 @@ export const generateWeeklyReport = async (startDate: Date, endDate: Date) => {
         firstName: string;
         lastName: string;
         classification: string;
-        dailyHours: { date: Date; hours: number; projects: any[] }[];
+        overtimePolicy: string;
+        dailyHours: ({ date: Date; hours: number; projects: any[] } & HoursBreakdown)[];
         totalHours: number;
         regularHours: number;
         overtimeHours: number;
+        doubleTimeHours: number;
+        mealPeriodExceptions: number;
       }
     >();
 
@@ -221,10 +418,13 @@ export const generateWeeklyReport = async (startDate: Date, endDate: Date) => {
           firstName: entry.employee.first_name,
           lastName: entry.employee.last_name,
           classification: entry.employee.classification,
+          overtimePolicy: employeeRules.get(employeeId)!.policyName,
           dailyHours: [],
           totalHours: 0,
           regularHours: 0,
           overtimeHours: 0,
+          doubleTimeHours: 0,
+          mealPeriodExceptions: 0,
         });
       }
 
@@ -236,8 +436,20 @@ export const generateWeeklyReport = async (startDate: Date, endDate: Date) => {
         (d) => d.date.toISOString().split('T')[0] === dateStr
       );
       if (!dayEntry) {
-        dayEntry = { date: entry.date, hours: 0, projects: [] };
+        const day = getDayBreakdown(employeeId, entry.date);
+        dayEntry = {
+          date: entry.date,
+          hours: 0,
+          projects: [],
+          regularHours: day?.regularHours ?? 0,
+          overtimeHours: day?.overtimeHours ?? 0,
+          doubleTimeHours: day?.doubleTimeHours ?? 0,
+        };
         employeeData.dailyHours.push(dayEntry);
+
+        employeeData.regularHours += dayEntry.regularHours;
+        employeeData.overtimeHours += dayEntry.overtimeHours;
+        employeeData.doubleTimeHours += dayEntry.doubleTimeHours;
       }
 
       dayEntry.hours += hours;
@@ -245,21 +457,21 @@ export const generateWeeklyReport = async (startDate: Date, endDate: Date) => {
         projectId: entry.project_id,
         projectName: entry.project.name,
         hoursWorked: hours,
+        ...getEntryBreakdown(entry.id),
       });
 
       employeeData.totalHours += hours;
     });
 
-    // Calculate overtime (over 40 hours per week)
-    const employees = Array.from(employeeMap.values()).map((employee) => {
-      if (employee.totalHours <= 40) {
-        employee.regularHours = employee.totalHours;
-        employee.overtimeHours = 0;
-      } else {
-        employee.regularHours = 40;
-        employee.overtimeHours = employee.totalHours - 40;
+    // Overtime comes from the employee's overtime policy (daily, weekly, double time, 7th day)
+    const employees = Array.from(employeeMap.values());
+
+    const complianceExceptions = await getMealPeriodExceptions(startDate, endDate);
+    complianceExceptions.forEach((exception) => {
+      const employee = employeeMap.get(exception.employeeId);
+      if (employee) {
+        employee.mealPeriodExceptions += 1;
       }
-      return employee;
     });
 
     const grandTotalHours = employees.reduce(
@@ -272,6 +484,7 @@ export const generateWeeklyReport = async (startDate: Date, endDate: Date) => {
       endDate,
       employees,
       grandTotalHours,
+      complianceExceptions,
     };
 
     logger.info('Weekly payroll report generated', {
@@ -289,7 +502,10 @@ export const generateWeeklyReport = async (startDate: Date, endDate: Date) => {
 };
 
 /**
- * Generate project cost report
+ * Generate project cost report: labor by employee, and labor hours/cost plus
+ * expenses by cost code against the project's cost code budgets. Labor is
+ * priced at the pay rate in effect on each work date; cost code labor is the
+ * fully-burdened cost so it compares against budgets like for like.
  */
 export const generateProjectCostReport = async (
   projectId: string,
@@ -322,15 +538,105 @@ export const generateProjectCostReport = async (
             project_number: true,
           },
         },
+        cost_code: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
       },
     });
 
-    const project = timeEntries[0]?.project || null;
+    // Projects with cost code budgets but no time yet still get a (zero) report
+    const project =
+      timeEntries[0]?.project ||
+      (await prisma.project.findFirst({
+        where: { id: projectId, deleted_at: null },
+        select: { id: true, name: true, project_number: true },
+      }));
 
     if (!project) {
-      throw new Error('Project not found or has no time entries');
+      throw new Error('Project not found');
     }
 
+    // Budgets for the project's cost codes, and approved expenses (actual cost;
+    // pending expenses are committed cost, as in job costing)
+    const [projectCostCodes, expenses] = await Promise.all([
+      prisma.projectCostCode.findMany({
+        where: { project_id: projectId },
+        include: { cost_code: true },
+        orderBy: [{ cost_code: { sort_order: 'asc' } }, { cost_code: { code: 'asc' } }],
+      }),
+      prisma.projectExpense.findMany({
+        where: {
+          project_id: projectId,
+          status: 'APPROVED',
+          date: {
+            gte: startDate,
+            lte: endDate,
+          },
+        },
+        include: {
+          cost_code: {
+            select: {
+              id: true,
+              code: true,
+              name: true,
+            },
+          },
+        },
+      }),
+    ]);
+
+    // Every enabled code is listed, even with nothing charged yet; entries and
+    // expenses recorded before cost codes were required fall under "Uncoded"
+    const costCodeMap = new Map<
+      string,
+      {
+        costCodeId: string | null;
+        code: string;
+        name: string;
+        hours: number;
+        laborCost: number;
+        expenseCost: number;
+        budgetHours: number | null;
+        budgetAmount: number | null;
+      }
+    >();
+
+    projectCostCodes.forEach((projectCostCode) => {
+      costCodeMap.set(projectCostCode.cost_code_id, {
+        costCodeId: projectCostCode.cost_code_id,
+        code: projectCostCode.cost_code.code,
+        name: projectCostCode.cost_code.name,
+        hours: 0,
+        laborCost: 0,
+        expenseCost: 0,
+        budgetHours: projectCostCode.budget_hours !== null ? Number(projectCostCode.budget_hours) : null,
+        budgetAmount: projectCostCode.budget_amount !== null ? Number(projectCostCode.budget_amount) : null,
+      });
+    });
+
+    const getCostCodeBucket = (costCode: { id: string; code: string; name: string } | null) => {
+      const key = costCode?.id ?? UNCODED_KEY;
+
+      if (!costCodeMap.has(key)) {
+        costCodeMap.set(key, {
+          costCodeId: costCode?.id ?? null,
+          code: costCode?.code ?? '',
+          name: costCode?.name ?? 'Uncoded',
+          hours: 0,
+          laborCost: 0,
+          expenseCost: 0,
+          budgetHours: null,
+          budgetAmount: null,
+        });
+      }
+
+      return costCodeMap.get(key)!;
+    };
+
     // Calculate breakdown by employee
     const employeeMap = new Map<
       string,
@@ -341,22 +647,30 @@ export const generateProjectCostReport = async (
         hours: number;
         rate: number | null;
         cost: number;
+        burdenedCost: number;
       }
     >();
 
+    const resolvePayRate = await getPayRateResolver(timeEntries.map((entry) => entry.employee_id));
+
     let totalHours = 0;
     let totalCost = 0;
+    let totalBurdenedCost = 0;
 
     timeEntries.forEach((entry) => {
       const employeeId = entry.employee_id;
       const hours = Number(entry.hours_worked);
-      const rate = entry.hourly_rate
+      const fallbackRate = entry.hourly_rate
         ? Number(entry.hourly_rate)
         : entry.employee.hourly_rate
         ? Number(entry.employee.hourly_rate)
         : null;
 
-      const cost = rate ? hours * rate : 0;
+      const { rate, cost, burdenedCost } = getLaborCost(
+        hours,
+        resolvePayRate(employeeId, entry.date),
+        fallbackRate
+      );
 
       if (!employeeMap.has(employeeId)) {
         employeeMap.set(employeeId, {
@@ -366,19 +680,48 @@ export const generateProjectCostReport = async (
           hours: 0,
           rate: rate,
           cost: 0,
+          burdenedCost: 0,
         });
       }
 
       const employeeData = employeeMap.get(employeeId)!;
       employeeData.hours += hours;
       employeeData.cost += cost;
+      employeeData.burdenedCost += burdenedCost;
+
+      const costCodeData = getCostCodeBucket(entry.cost_code);
+      costCodeData.hours += hours;
+      costCodeData.laborCost += burdenedCost;
 
       totalHours += hours;
       totalCost += cost;
+      totalBurdenedCost += burdenedCost;
+    });
+
+    let totalExpenseCost = 0;
+
+    expenses.forEach((expense) => {
+      const amount = Number(expense.amount);
+      getCostCodeBucket(expense.cost_code).expenseCost += amount;
+      totalExpenseCost += amount;
     });
 
     const breakdown = Array.from(employeeMap.values());
 
+    // Uncoded sorts last
+    const costCodes = Array.from(costCodeMap.values())
+      .sort((a, b) => Number(a.costCodeId === null) - Number(b.costCodeId === null))
+      .map((costCode) => {
+        const totalCodeCost = costCode.laborCost + costCode.expenseCost;
+
+        return {
+          ...costCode,
+          totalCost: totalCodeCost,
+          remainingHours: costCode.budgetHours !== null ? costCode.budgetHours - costCode.hours : null,
+          remainingAmount: costCode.budgetAmount !== null ? costCode.budgetAmount - totalCodeCost : null,
+        };
+      });
+
     const report = {
       projectId: project.id,
       projectName: project.name,
@@ -387,7 +730,10 @@ export const generateProjectCostReport = async (
       endDate,
       totalHours,
       totalCost,
+      totalBurdenedCost,
+      totalExpenseCost,
       breakdown,
+      costCodes,
     };
 
     logger.info('Project cost report generated', {
@@ -411,11 +757,11 @@ export const generateProjectCostReport = async (
 };
 
 /**
- * Export daily report as CSV
+ * Export daily report as CSV (approved weekly timesheets only)
  */
 export const exportDailyReportCSV = async (date: Date): Promise<string> => {
   try {
-    const report = await generateDailyReport(date);
+    const report = await generateDailyReport(date, { approvedWeeksOnly: true });
 
     // CSV Headers
     const headers = [
@@ -427,9 +773,14 @@ export const exportDailyReportCSV = async (date: Date): Promise<string> => {
       'Project ID',
       'Project Name',
       'Hours',
-      'Work Type',
+      'Regular Hours',
+      'Overtime Hours',
+      'Double Time Hours',
+      'Overtime Policy',
       'Sign In Time',
       'Sign Out Time',
+      'Outside Geofence',
+      'Meal Period',
     ];
 
     const rows: string[][] = [headers];
@@ -437,12 +788,6 @@ export const exportDailyReportCSV = async (date: Date): Promise<string> => {
     // Add data rows
     report.employees.forEach((employee) => {
       employee.projects.forEach((project) => {
-        const workType =
-          employee.overtimeHours > 0 &&
-          project.hoursWorked > 8 - (employee.totalHours - employee.overtimeHours)
-            ? 'Overtime'
-            : 'Regular';
-
         rows.push([
           employee.employeeId,
           employee.firstName,
@@ -452,13 +797,18 @@ export const exportDailyReportCSV = async (date: Date): Promise<string> => {
           project.projectId,
           project.projectName,
           project.hoursWorked.toFixed(2),
-          workType,
+          project.regularHours.toFixed(2),
+          project.overtimeHours.toFixed(2),
+          project.doubleTimeHours.toFixed(2),
+          employee.overtimePolicy,
           employee.signInTime
             ? employee.signInTime.toLocaleTimeString()
             : 'N/A',
           employee.signOutTime
             ? employee.signOutTime.toLocaleTimeString()
             : 'N/A',
+          employee.outsideGeofence ? 'Yes' : 'No',
+          employee.mealPeriodException ?? 'OK',
         ]);
       });
     });
@@ -476,14 +826,14 @@ export const exportDailyReportCSV = async (date: Date): Promise<string> => {
 };
 
 /**
- * Export weekly report as CSV
+ * Export weekly report as CSV (approved weekly timesheets only)
  */
 export const exportWeeklyReportCSV = async (
   startDate: Date,
   endDate: Date
 ): Promise<string> => {
   try {
-    const report = await generateWeeklyReport(startDate, endDate);
+    const report = await generateWeeklyReport(startDate, endDate, { approvedWeeksOnly: true });
 
     // CSV Headers
     const headers = [
@@ -496,6 +846,9 @@ export const exportWeeklyReportCSV = async (
       'Total Hours',
       'Regular Hours',
       'Overtime Hours',
+      'Double Time Hours',
+      'Overtime Policy',
+      'Meal Period Exceptions',
       'Projects',
     ];
 
@@ -521,6 +874,9 @@ export const exportWeeklyReportCSV = async (
         employee.totalHours.toFixed(2),
         employee.regularHours.toFixed(2),
         employee.overtimeHours.toFixed(2),
+        employee.doubleTimeHours.toFixed(2),
+        employee.overtimePolicy,
+        employee.mealPeriodExceptions.toString(),
         projectsList,
       ]);
     });
@@ -550,28 +906,9 @@ export const exportWeeklyReportCSV = async (
  */
 export const getPayrollSummary = async (startDate: Date, endDate: Date) => {
   try {
-    // Get all time entries in the date range
-    const timeEntries = await prisma.timeEntry.findMany({
-      where: {
-        date: {
-          gte: startDate,
-          lte: endDate,
-        },
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-          },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-      },
-    });
+    // Get all time entries in the date range (with workweek context for overtime rules)
+    const { timeEntries, getEntryBreakdown } = await loadEntriesWithOvertime(startDate, endDate);
+    const complianceExceptions = await getMealPeriodExceptions(startDate, endDate);
 
     // Calculate statistics
     const uniqueEmployees = new Set(timeEntries.map((e) => e.employee_id));
@@ -582,6 +919,16 @@ export const getPayrollSummary = async (startDate: Date, endDate: Date) => {
       0
     );
 
+    let regularHours = 0;
+    let overtimeHours = 0;
+    let doubleTimeHours = 0;
+    timeEntries.forEach((entry) => {
+      const breakdown = getEntryBreakdown(entry.id);
+      regularHours += breakdown.regularHours;
+      overtimeHours += breakdown.overtimeHours;
+      doubleTimeHours += breakdown.doubleTimeHours;
+    });
+
     const totalLaborCost = timeEntries.reduce((sum, entry) => {
       if (entry.total_cost) {
         return sum + Number(entry.total_cost);
@@ -613,9 +960,13 @@ export const getPayrollSummary = async (startDate: Date, endDate: Date) => {
 
     const summary = {
       totalLaborHours,
+      regularHours: Math.round(regularHours * 100) / 100,
+      overtimeHours: Math.round(overtimeHours * 100) / 100,
+      doubleTimeHours: Math.round(doubleTimeHours * 100) / 100,
       totalLaborCost,
       employeeCount: uniqueEmployees.size,
       projectCount: uniqueProjects.size,
+      mealPeriodExceptionCount: complianceExceptions.length,
       topProjects,
     };
 
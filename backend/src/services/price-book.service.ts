@@ -0,0 +1,609 @@
+/**
+ * Price Book Service
+ *
+ * Manages the catalog of reusable materials and labor items and the
+ * assemblies built from them. Assemblies expand into quote line items
+ * priced at the current price book rates.
+ */
+
+import crypto from 'crypto';
+import { PrismaClient, Prisma, PriceBookItemType, PriceBookItem, Assembly, AssemblyItem } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { ApiError } from '../utils/response';
+import { recordAuditLog } from './audit.service';
+import { LineItem } from './quote.service';
+
+const prisma = new PrismaClient();
+
+// Price book item creation data
+export interface CreatePriceBookItemData {
+  code?: string;
+  name: string;
+  description?: string;
+  type?: PriceBookItemType;
+  category?: string;
+  unit: string;
+  unit_price: number;
+}
+
+// Price book item update data
+export interface UpdatePriceBookItemData {
+  code?: string | null;
+  name?: string;
+  description?: string | null;
+  type?: PriceBookItemType;
+  category?: string | null;
+  unit?: string;
+  unit_price?: number;
+  is_active?: boolean;
+}
+
+// Price book search filters
+export interface PriceBookFilters {
+  search?: string;
+  type?: PriceBookItemType;
+  category?: string;
+  include_inactive?: boolean;
+}
+
+// Component of an assembly
+export interface AssemblyItemData {
+  price_book_item_id: string;
+  quantity: number;
+}
+
+// Assembly creation data
+export interface CreateAssemblyData {
+  name: string;
+  description?: string;
+  category?: string;
+  items: AssemblyItemData[];
+}
+
+// Assembly update data
+export interface UpdateAssemblyData {
+  name?: string;
+  description?: string | null;
+  category?: string | null;
+  is_active?: boolean;
+  items?: AssemblyItemData[];
+}
+
+const assemblyInclude = {
+  items: {
+    include: { price_book_item: true },
+    orderBy: { sort_order: 'asc' as const }
+  }
+};
+
+/**
+ * Convert price book item Decimals to numbers
+ */
+function transformPriceBookItem(item: PriceBookItem) {
+  return {
+    ...item,
+    unit_price: Number(item.unit_price)
+  };
+}
+
+/**
+ * Convert assembly Decimals to numbers and add the current unit cost
+ */
+function transformAssembly(assembly: Assembly & { items: (AssemblyItem & { price_book_item: PriceBookItem })[] }) {
+  const items = assembly.items.map((item) => ({
+    ...item,
+    quantity: Number(item.quantity),
+    price_book_item: transformPriceBookItem(item.price_book_item)
+  }));
+
+  const unitCost = items.reduce(
+    (sum, item) => sum + item.quantity * item.price_book_item.unit_price,
+    0
+  );
+
+  return {
+    ...assembly,
+    items,
+    unit_cost: Math.round(unitCost * 100) / 100
+  };
+}
+
+/**
+ * Validate price book item fields
+ */
+function validatePriceBookItem(data: Partial<CreatePriceBookItemData>, isUpdate = false): void {
+  if ((!isUpdate || data.name !== undefined) && (!data.name || data.name.trim() === '')) {
+    throw new ApiError('Item name is required', 400);
+  }
+
+  if ((!isUpdate || data.unit !== undefined) && (!data.unit || data.unit.trim() === '')) {
+    throw new ApiError('Item unit is required', 400);
+  }
+
+  if (
+    (!isUpdate || data.unit_price !== undefined) &&
+    (data.unit_price === undefined || isNaN(data.unit_price) || data.unit_price < 0)
+  ) {
+    throw new ApiError('Item unit price must be non-negative', 400);
+  }
+}
+
+/**
+ * Validate assembly components and confirm the referenced items exist
+ */
+async function validateAssemblyItems(items: AssemblyItemData[]): Promise<void> {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ApiError('An assembly needs at least one item', 400);
+  }
+
+  for (const item of items) {
+    if (!item.price_book_item_id) {
+      throw new ApiError('Assembly item is missing a price book item', 400);
+    }
+
+    if (!item.quantity || item.quantity <= 0) {
+      throw new ApiError('Assembly item quantity must be greater than 0', 400);
+    }
+  }
+
+  const ids = [...new Set(items.map((item) => item.price_book_item_id))];
+  const found = await prisma.priceBookItem.count({
+    where: { id: { in: ids }, is_active: true }
+  });
+
+  if (found !== ids.length) {
+    throw new ApiError('One or more price book items were not found or are inactive', 400);
+  }
+}
+
+/**
+ * List price book items
+ */
+export async function listPriceBookItems(filters: PriceBookFilters = {}) {
+  try {
+    const where: Prisma.PriceBookItemWhereInput = {};
+
+    if (!filters.include_inactive) {
+      where.is_active = true;
+    }
+
+    if (filters.type) {
+      where.type = filters.type;
+    }
+
+    if (filters.category) {
+      where.category = filters.category;
+    }
+
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { code: { contains: filters.search, mode: 'insensitive' } },
+        { description: { contains: filters.search, mode: 'insensitive' } },
+        { category: { contains: filters.search, mode: 'insensitive' } }
+      ];
+    }
+
+    const items = await prisma.priceBookItem.findMany({
+      where,
+      orderBy: [{ category: 'asc' }, { name: 'asc' }]
+    });
+
+    return items.map(transformPriceBookItem);
+  } catch (error) {
+    logger.error('Failed to list price book items', { error, filters });
+    throw new ApiError('Failed to retrieve price book items', 500);
+  }
+}
+
+/**
+ * Create a price book item
+ */
+export async function createPriceBookItem(
+  data: CreatePriceBookItemData,
+  createdBy: string,
+  ipAddress?: string
+) {
+  try {
+    validatePriceBookItem(data);
+
+    const item = await prisma.priceBookItem.create({
+      data: {
+        code: data.code || null,
+        name: data.name.trim(),
+        description: data.description,
+        type: data.type || PriceBookItemType.MATERIAL,
+        category: data.category || null,
+        unit: data.unit.trim(),
+        unit_price: data.unit_price,
+        created_by: createdBy,
+        updated_by: createdBy
+      }
+    });
+
+    await recordAuditLog({
+      actorId: createdBy,
+      action: 'CREATE_PRICE_BOOK_ITEM',
+      entityType: 'PRICE_BOOK_ITEM',
+      entityId: item.id,
+      after: item,
+      ipAddress
+    });
+
+    logger.info('Price book item created', { itemId: item.id, name: item.name, createdBy });
+
+    return transformPriceBookItem(item);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ApiError('An item with this code already exists', 409);
+    }
+    logger.error('Failed to create price book item', { error, data, createdBy });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to create price book item', 500);
+  }
+}
+
+/**
+ * Update a price book item
+ * Assemblies pick up the new price the next time they are expanded
+ */
+export async function updatePriceBookItem(
+  itemId: string,
+  data: UpdatePriceBookItemData,
+  updatedBy: string,
+  ipAddress?: string
+) {
+  try {
+    validatePriceBookItem(data as Partial<CreatePriceBookItemData>, true);
+
+    const existingItem = await prisma.priceBookItem.findUnique({
+      where: { id: itemId }
+    });
+
+    if (!existingItem) {
+      throw new ApiError('Price book item not found', 404);
+    }
+
+    const item = await prisma.priceBookItem.update({
+      where: { id: itemId },
+      data: {
+        ...data,
+        code: data.code === '' ? null : data.code,
+        updated_by: updatedBy
+      }
+    });
+
+    await recordAuditLog({
+      actorId: updatedBy,
+      action: 'UPDATE_PRICE_BOOK_ITEM',
+      entityType: 'PRICE_BOOK_ITEM',
+      entityId: item.id,
+      before: existingItem,
+      after: item,
+      ipAddress
+    });
+
+    logger.info('Price book item updated', { itemId, updatedBy });
+
+    return transformPriceBookItem(item);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ApiError('An item with this code already exists', 409);
+    }
+    logger.error('Failed to update price book item', { error, itemId, data, updatedBy });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to update price book item', 500);
+  }
+}
+
+/**
+ * Delete a price book item
+ * Items used by assemblies must be deactivated instead
+ */
+export async function deletePriceBookItem(
+  itemId: string,
+  deletedBy: string,
+  ipAddress?: string
+): Promise<void> {
+  try {
+    const item = await prisma.priceBookItem.findUnique({
+      where: { id: itemId },
+      include: { _count: { select: { assembly_items: true } } }
+    });
+
+    if (!item) {
+      throw new ApiError('Price book item not found', 404);
+    }
+
+    if (item._count.assembly_items > 0) {
+      throw new ApiError(
+        `Item is used in ${item._count.assembly_items} assembly component(s); deactivate it instead`,
+        409,
+        'ITEM_IN_USE'
+      );
+    }
+
+    await prisma.priceBookItem.delete({
+      where: { id: itemId }
+    });
+
+    await recordAuditLog({
+      actorId: deletedBy,
+      action: 'DELETE_PRICE_BOOK_ITEM',
+      entityType: 'PRICE_BOOK_ITEM',
+      entityId: itemId,
+      before: item,
+      ipAddress
+    });
+
+    logger.info('Price book item deleted', { itemId, deletedBy });
+  } catch (error) {
+    logger.error('Failed to delete price book item', { error, itemId });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to delete price book item', 500);
+  }
+}
+
+/**
+ * List assemblies with their components
+ */
+export async function listAssemblies(filters: Omit<PriceBookFilters, 'type'> = {}) {
+  try {
+    const where: Prisma.AssemblyWhereInput = {};
+
+    if (!filters.include_inactive) {
+      where.is_active = true;
+    }
+
+    if (filters.category) {
+      where.category = filters.category;
+    }
+
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { description: { contains: filters.search, mode: 'insensitive' } },
+        { category: { contains: filters.search, mode: 'insensitive' } }
+      ];
+    }
+
+    const assemblies = await prisma.assembly.findMany({
+      where,
+      include: assemblyInclude,
+      orderBy: [{ category: 'asc' }, { name: 'asc' }]
+    });
+
+    return assemblies.map(transformAssembly);
+  } catch (error) {
+    logger.error('Failed to list assemblies', { error, filters });
+    throw new ApiError('Failed to retrieve assemblies', 500);
+  }
+}
+
+/**
+ * Get an assembly by ID
+ */
+export async function getAssemblyById(assemblyId: string) {
+  try {
+    const assembly = await prisma.assembly.findUnique({
+      where: { id: assemblyId },
+      include: assemblyInclude
+    });
+
+    if (!assembly) {
+      throw new ApiError('Assembly not found', 404);
+    }
+
+    return transformAssembly(assembly);
+  } catch (error) {
+    logger.error('Failed to get assembly', { error, assemblyId });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to retrieve assembly', 500);
+  }
+}
+
+/**
+ * Create an assembly
+ */
+export async function createAssembly(
+  data: CreateAssemblyData,
+  createdBy: string,
+  ipAddress?: string
+) {
+  try {
+    if (!data.name || data.name.trim() === '') {
+      throw new ApiError('Assembly name is required', 400);
+    }
+
+    await validateAssemblyItems(data.items);
+
+    const assembly = await prisma.assembly.create({
+      data: {
+        name: data.name.trim(),
+        description: data.description,
+        category: data.category || null,
+        created_by: createdBy,
+        updated_by: createdBy,
+        items: {
+          create: data.items.map((item, index) => ({
+            price_book_item_id: item.price_book_item_id,
+            quantity: item.quantity,
+            sort_order: index
+          }))
+        }
+      },
+      include: assemblyInclude
+    });
+
+    await recordAuditLog({
+      actorId: createdBy,
+      action: 'CREATE_ASSEMBLY',
+      entityType: 'ASSEMBLY',
+      entityId: assembly.id,
+      after: data,
+      ipAddress
+    });
+
+    logger.info('Assembly created', { assemblyId: assembly.id, name: assembly.name, createdBy });
+
+    return transformAssembly(assembly);
+  } catch (error) {
+    logger.error('Failed to create assembly', { error, data, createdBy });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to create assembly', 500);
+  }
+}
+
+/**
+ * Update an assembly
+ * When items are provided they replace the existing components
+ */
+export async function updateAssembly(
+  assemblyId: string,
+  data: UpdateAssemblyData,
+  updatedBy: string,
+  ipAddress?: string
+) {
+  try {
+    if (data.name !== undefined && data.name.trim() === '') {
+      throw new ApiError('Assembly name is required', 400);
+    }
+
+    const existingAssembly = await prisma.assembly.findUnique({
+      where: { id: assemblyId },
+      include: assemblyInclude
+    });
+
+    if (!existingAssembly) {
+      throw new ApiError('Assembly not found', 404);
+    }
+
+    if (data.items) {
+      await validateAssemblyItems(data.items);
+    }
+
+    const { items, ...fields } = data;
+
+    const assembly = await prisma.$transaction(async (tx) => {
+      if (items) {
+        await tx.assemblyItem.deleteMany({ where: { assembly_id: assemblyId } });
+        await tx.assemblyItem.createMany({
+          data: items.map((item, index) => ({
+            assembly_id: assemblyId,
+            price_book_item_id: item.price_book_item_id,
+            quantity: item.quantity,
+            sort_order: index
+          }))
+        });
+      }
+
+      return tx.assembly.update({
+        where: { id: assemblyId },
+        data: {
+          ...fields,
+          updated_by: updatedBy
+        },
+        include: assemblyInclude
+      });
+    });
+
+    await recordAuditLog({
+      actorId: updatedBy,
+      action: 'UPDATE_ASSEMBLY',
+      entityType: 'ASSEMBLY',
+      entityId: assemblyId,
+      before: existingAssembly,
+      after: assembly,
+      ipAddress
+    });
+
+    logger.info('Assembly updated', { assemblyId, updatedBy });
+
+    return transformAssembly(assembly);
+  } catch (error) {
+    logger.error('Failed to update assembly', { error, assemblyId, data, updatedBy });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to update assembly', 500);
+  }
+}
+
+/**
+ * Delete an assembly
+ */
+export async function deleteAssembly(
+  assemblyId: string,
+  deletedBy: string,
+  ipAddress?: string
+): Promise<void> {
+  try {
+    const assembly = await prisma.assembly.findUnique({
+      where: { id: assemblyId }
+    });
+
+    if (!assembly) {
+      throw new ApiError('Assembly not found', 404);
+    }
+
+    await prisma.assembly.delete({
+      where: { id: assemblyId }
+    });
+
+    await recordAuditLog({
+      actorId: deletedBy,
+      action: 'DELETE_ASSEMBLY',
+      entityType: 'ASSEMBLY',
+      entityId: assemblyId,
+      before: assembly,
+      ipAddress
+    });
+
+    logger.info('Assembly deleted', { assemblyId, deletedBy });
+  } catch (error) {
+    logger.error('Failed to delete assembly', { error, assemblyId });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to delete assembly', 500);
+  }
+}
+
+/**
+ * Expand an assembly into quote line items at current price book prices
+ *
+ * Each component becomes one line item with its quantity multiplied by the
+ * number of assemblies. Lines are grouped under the assembly name as category.
+ */
+export async function expandAssembly(assemblyId: string, quantity = 1): Promise<LineItem[]> {
+  if (!quantity || quantity <= 0) {
+    throw new ApiError('Quantity must be greater than 0', 400);
+  }
+
+  const assembly = await getAssemblyById(assemblyId);
+
+  return assembly.items.map((item) => {
+    const lineQuantity = Math.round(item.quantity * quantity * 10000) / 10000;
+    const unitPrice = item.price_book_item.unit_price;
+
+    return {
+      id: crypto.randomUUID(),
+      description: item.price_book_item.name,
+      quantity: lineQuantity,
+      unit: item.price_book_item.unit,
+      unit_price: unitPrice,
+      total: Math.round(lineQuantity * unitPrice * 100) / 100,
+      category: assembly.name
+    };
+  });
+}
@@ -0,0 +1,467 @@
+/**
+ * Project Expense Service
+ *
+ * Business logic for project expenses including:
+ * - CRUD operations for expenses on a project
+ * - Optional receipt file links (files in the RECEIPT category)
+ * - Required cost code (enabled on the project) for job costing
+ * - Approval workflow (pending, approved, rejected)
+ * - CSV export
+ */
+
+import { PrismaClient, ProjectExpense, ExpenseStatus, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
+import { validateProjectCostCode } from './cost-code.service';
+import { assertNotBilled } from './invoice.service';
+
+const prisma = new PrismaClient();
+
+export interface ProjectExpenseFilters {
+  status?: ExpenseStatus;
+  category?: string;
+  search?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface CreateProjectExpenseData {
+  description: string;
+  vendor?: string | null;
+  amount: number;
+  category: string;
+  date: Date;
+  receipt_file_id?: string | null;
+  cost_code_id?: string | null;
+  notes?: string | null;
+}
+
+export type UpdateProjectExpenseData = Partial<CreateProjectExpenseData>;
+
+export type ProjectExpenseWithRelations = ProjectExpense & {
+  receipt: { id: string; original_filename: string; mime_type: string } | null;
+  creator: { id: string; first_name: string; last_name: string } | null;
+  approver: { id: string; first_name: string; last_name: string } | null;
+  cost_code: { id: string; code: string; name: string } | null;
+};
+
+const expenseInclude = {
+  receipt: {
+    select: {
+      id: true,
+      original_filename: true,
+      mime_type: true,
+    },
+  },
+  creator: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+    },
+  },
+  approver: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+    },
+  },
+  cost_code: {
+    select: {
+      id: true,
+      code: true,
+      name: true,
+    },
+  },
+};
+
+/**
+ * Ensure the project exists and is not deleted
+ */
+const ensureProject = async (projectId: string) => {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, deleted_at: null },
+    select: { id: true, name: true, project_number: true },
+  });
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  return project;
+};
+
+/**
+ * Ensure a receipt file exists, is a receipt and belongs to the project (or no project)
+ */
+const validateReceiptFile = async (projectId: string, fileId: string): Promise<void> => {
+  const file = await prisma.file.findFirst({
+    where: { id: fileId, deleted_at: null },
+    select: { id: true, category: true, project_id: true },
+  });
+
+  if (!file) {
+    throw new Error('Receipt file not found');
+  }
+
+  if (file.category !== 'RECEIPT') {
+    throw new Error('Linked file must be in the RECEIPT category');
+  }
+
+  if (file.project_id && file.project_id !== projectId) {
+    throw new Error('Receipt file belongs to a different project');
+  }
+};
+
+/**
+ * Validate expense fields, checking only the fields that are present
+ */
+const validateExpenseData = (data: UpdateProjectExpenseData, requireAll: boolean): void => {
+  if (requireAll || data.description !== undefined) {
+    if (!data.description || !data.description.trim()) {
+      throw new Error('Missing required fields: description');
+    }
+  }
+
+  if (requireAll || data.category !== undefined) {
+    if (!data.category || !data.category.trim()) {
+      throw new Error('Missing required fields: category');
+    }
+  }
+
+  if (requireAll || data.amount !== undefined) {
+    if (data.amount === undefined || isNaN(data.amount) || data.amount <= 0) {
+      throw new Error('Amount must be greater than zero');
+    }
+  }
+
+  if (requireAll || data.date !== undefined) {
+    if (!data.date || isNaN(data.date.getTime())) {
+      throw new Error('Missing required fields: date');
+    }
+  }
+};
+
+/**
+ * Build the Prisma where clause for expense filters
+ */
+const buildExpenseWhere = (
+  projectId: string,
+  filters: ProjectExpenseFilters
+): Prisma.ProjectExpenseWhereInput => {
+  const where: Prisma.ProjectExpenseWhereInput = { project_id: projectId };
+
+  if (filters.status) where.status = filters.status;
+  if (filters.category) where.category = { equals: filters.category, mode: 'insensitive' };
+
+  if (filters.startDate || filters.endDate) {
+    where.date = {};
+    if (filters.startDate) where.date.gte = filters.startDate;
+    if (filters.endDate) where.date.lte = filters.endDate;
+  }
+
+  if (filters.search) {
+    where.OR = [
+      { description: { contains: filters.search, mode: 'insensitive' } },
+      { vendor: { contains: filters.search, mode: 'insensitive' } },
+      { notes: { contains: filters.search, mode: 'insensitive' } },
+    ];
+  }
+
+  return where;
+};
+
+/**
+ * Get expenses for a project with optional filters
+ */
+export const getProjectExpenses = async (
+  projectId: string,
+  filters: ProjectExpenseFilters = {}
+): Promise<ProjectExpenseWithRelations[]> => {
+  try {
+    await ensureProject(projectId);
+
+    const expenses = await prisma.projectExpense.findMany({
+      where: buildExpenseWhere(projectId, filters),
+      include: expenseInclude,
+      orderBy: [{ date: 'desc' }, { created_at: 'desc' }],
+    });
+
+    logger.info('Project expenses retrieved', { projectId, count: expenses.length });
+    return expenses as ProjectExpenseWithRelations[];
+  } catch (error) {
+    logger.error('Error retrieving project expenses', { error, projectId });
+    throw error;
+  }
+};
+
+/**
+ * Get a single project expense
+ */
+export const getProjectExpenseById = async (
+  projectId: string,
+  expenseId: string
+): Promise<ProjectExpenseWithRelations> => {
+  const expense = await prisma.projectExpense.findFirst({
+    where: { id: expenseId, project_id: projectId },
+    include: expenseInclude,
+  });
+
+  if (!expense) {
+    throw new Error('Expense not found');
+  }
+
+  return expense as ProjectExpenseWithRelations;
+};
+
+/**
+ * Create a project expense (starts as PENDING)
+ */
+export const createProjectExpense = async (
+  projectId: string,
+  data: CreateProjectExpenseData,
+  userId: string,
+  ipAddress?: string
+): Promise<ProjectExpenseWithRelations> => {
+  try {
+    await ensureProject(projectId);
+    validateExpenseData(data, true);
+
+    if (data.receipt_file_id) {
+      await validateReceiptFile(projectId, data.receipt_file_id);
+    }
+
+    await validateProjectCostCode(projectId, data.cost_code_id);
+
+    const expense = await prisma.projectExpense.create({
+      data: {
+        project_id: projectId,
+        description: data.description.trim(),
+        vendor: data.vendor?.trim() || null,
+        amount: data.amount,
+        category: data.category.trim(),
+        date: data.date,
+        receipt_file_id: data.receipt_file_id || null,
+        cost_code_id: data.cost_code_id,
+        notes: data.notes || null,
+        created_by: userId,
+      },
+      include: expenseInclude,
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'CREATE_PROJECT_EXPENSE',
+      entityType: 'PROJECT_EXPENSE',
+      entityId: expense.id,
+      after: data,
+      ipAddress,
+    });
+
+    logger.info('Project expense created', { projectId, expenseId: expense.id, userId });
+    return expense as ProjectExpenseWithRelations;
+  } catch (error) {
+    logger.error('Error creating project expense', { error, projectId });
+    throw error;
+  }
+};
+
+/**
+ * Update a project expense. Approved expenses are locked until reopened.
+ */
+export const updateProjectExpense = async (
+  projectId: string,
+  expenseId: string,
+  data: UpdateProjectExpenseData,
+  userId: string,
+  ipAddress?: string
+): Promise<ProjectExpenseWithRelations> => {
+  try {
+    const existing = await getProjectExpenseById(projectId, expenseId);
+
+    if (existing.status === 'APPROVED') {
+      throw new Error('Approved expenses cannot be edited');
+    }
+
+    await assertNotBilled([existing.invoice_id]);
+
+    validateExpenseData(data, false);
+
+    if (data.receipt_file_id) {
+      await validateReceiptFile(projectId, data.receipt_file_id);
+    }
+
+    // Expenses must keep a cost code; legacy expenses pick one up on their next edit
+    await validateProjectCostCode(
+      projectId,
+      data.cost_code_id !== undefined ? data.cost_code_id : existing.cost_code_id
+    );
+
+    const updateData: Prisma.ProjectExpenseUncheckedUpdateInput = {};
+    if (data.description !== undefined) updateData.description = data.description.trim();
+    if (data.vendor !== undefined) updateData.vendor = data.vendor?.trim() || null;
+    if (data.amount !== undefined) updateData.amount = data.amount;
+    if (data.category !== undefined) updateData.category = data.category.trim();
+    if (data.date !== undefined) updateData.date = data.date;
+    if (data.receipt_file_id !== undefined) updateData.receipt_file_id = data.receipt_file_id || null;
+    if (data.cost_code_id !== undefined) updateData.cost_code_id = data.cost_code_id;
+    if (data.notes !== undefined) updateData.notes = data.notes || null;
+
+    // Editing a rejected expense resubmits it for approval
+    if (existing.status === 'REJECTED') {
+      updateData.status = 'PENDING';
+      updateData.approved_by = null;
+      updateData.approved_at = null;
+    }
+
+    const expense = await prisma.projectExpense.update({
+      where: { id: expenseId },
+      data: updateData,
+      include: expenseInclude,
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'UPDATE_PROJECT_EXPENSE',
+      entityType: 'PROJECT_EXPENSE',
+      entityId: expenseId,
+      before: existing,
+      after: expense,
+      ipAddress,
+    });
+
+    logger.info('Project expense updated', { projectId, expenseId, userId });
+    return expense as ProjectExpenseWithRelations;
+  } catch (error) {
+    logger.error('Error updating project expense', { error, projectId, expenseId });
+    throw error;
+  }
+};
+
+/**
+ * Approve, reject or reopen a project expense
+ */
+export const updateProjectExpenseStatus = async (
+  projectId: string,
+  expenseId: string,
+  status: ExpenseStatus,
+  userId: string,
+  ipAddress?: string
+): Promise<ProjectExpenseWithRelations> => {
+  try {
+    const existing = await getProjectExpenseById(projectId, expenseId);
+
+    await assertNotBilled([existing.invoice_id]);
+
+    const expense = await prisma.projectExpense.update({
+      where: { id: expenseId },
+      data: {
+        status,
+        approved_by: status === 'PENDING' ? null : userId,
+        approved_at: status === 'PENDING' ? null : new Date(),
+      },
+      include: expenseInclude,
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: `${status === 'PENDING' ? 'REOPEN' : status === 'APPROVED' ? 'APPROVE' : 'REJECT'}_PROJECT_EXPENSE`,
+      entityType: 'PROJECT_EXPENSE',
+      entityId: expenseId,
+      before: { status: existing.status },
+      after: { status },
+      ipAddress,
+    });
+
+    logger.info('Project expense status updated', { projectId, expenseId, status, userId });
+    return expense as ProjectExpenseWithRelations;
+  } catch (error) {
+    logger.error('Error updating project expense status', { error, projectId, expenseId, status });
+    throw error;
+  }
+};
+
+/**
+ * Delete a project expense. Approved expenses must be reopened first.
+ */
+export const deleteProjectExpense = async (
+  projectId: string,
+  expenseId: string,
+  userId: string,
+  ipAddress?: string
+): Promise<void> => {
+  try {
+    const existing = await getProjectExpenseById(projectId, expenseId);
+
+    if (existing.status === 'APPROVED') {
+      throw new Error('Approved expenses cannot be deleted');
+    }
+
+    await assertNotBilled([existing.invoice_id]);
+
+    await prisma.projectExpense.delete({ where: { id: expenseId } });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'DELETE_PROJECT_EXPENSE',
+      entityType: 'PROJECT_EXPENSE',
+      entityId: expenseId,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Project expense deleted', { projectId, expenseId, userId });
+  } catch (error) {
+    logger.error('Error deleting project expense', { error, projectId, expenseId });
+    throw error;
+  }
+};
+
+/**
+ * Export project expenses as CSV
+ */
+export const exportProjectExpensesCSV = async (
+  projectId: string,
+  filters: ProjectExpenseFilters = {}
+): Promise<{ csv: string; projectNumber: string }> => {
+  try {
+    const project = await ensureProject(projectId);
+    const expenses = await getProjectExpenses(projectId, filters);
+
+    // CSV Headers
+    const rows: string[][] = [
+      ['Date', 'Cost Code', 'Category', 'Vendor', 'Description', 'Amount', 'Status', 'Approved By', 'Receipt', 'Notes'],
+    ];
+
+    expenses.forEach((expense) => {
+      rows.push([
+        expense.date.toISOString().split('T')[0]!,
+        expense.cost_code ? `${expense.cost_code.code} ${expense.cost_code.name}` : '',
+        expense.category,
+        expense.vendor || '',
+        expense.description,
+        Number(expense.amount).toFixed(2),
+        expense.status,
+        expense.approver ? `${expense.approver.first_name} ${expense.approver.last_name}` : '',
+        expense.receipt?.original_filename || '',
+        expense.notes || '',
+      ]);
+    });
+
+    const total = expenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
+    rows.push(['', '', '', 'TOTAL', total.toFixed(2), '', '', '', '']);
+
+    // Convert to CSV string (quotes inside cells are doubled)
+    const csv = rows
+      .map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    logger.info('Project expenses CSV exported', { projectId, rowCount: expenses.length });
+
+    return { csv, projectNumber: project.project_number };
+  } catch (error) {
+    logger.error('Error exporting project expenses CSV', { error, projectId });
+    throw error;
+  }
+};
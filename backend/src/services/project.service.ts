@@ -1,5 +1,7 @@
-import { PrismaClient, Project, ProjectStatus, ProjectType, ProjectMember } from '@prisma/client';
+import { PrismaClient, Project, ProjectStatus, ProjectType, ProjectMember, CertificationType } from '@prisma/client';
 import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
+import { validateUnionLocal } from './union.service';
 
 const prisma = new PrismaClient();
 
@@ -73,9 +75,14 @@ export interface CreateProjectData {
   start_date?: Date;
   end_date?: Date;
   estimated_end_date?: Date;
+  contract_value?: number;
   budget?: number;
   actual_cost?: number;
   description?: string;
+  required_certifications?: CertificationType[];
+  apprentice_ratio?: number | null;
+  geofence_radius?: number | null;
+  union_local_id?: string | null; // Local with jurisdiction over the job site
 }
 
 export interface UpdateProjectData {
@@ -88,15 +95,20 @@ export interface UpdateProjectData {
   billing_type?: 'TIME_AND_MATERIALS' | 'LUMP_SUM' | 'SERVICE_CALL';
   location?: string;
   address?: string;
-  latitude?: number;
-  longitude?: number;
+  latitude?: number | null;
+  longitude?: number | null;
   start_date?: Date;
   end_date?: Date;
   estimated_end_date?: Date;
   actual_end_date?: Date;
+  contract_value?: number;
   budget?: number;
   actual_cost?: number;
   description?: string;
+  required_certifications?: CertificationType[];
+  apprentice_ratio?: number | null;
+  geofence_radius?: number | null;
+  union_local_id?: string | null; // Local with jurisdiction over the job site
 }
 
 export interface ProjectListResponse {
@@ -247,6 +259,32 @@ export const getAllProjects = async (
   }
 };
 
+/**
+ * Generate the next project number (PRJ-YYYY-NNN)
+ */
+export const generateProjectNumber = async (): Promise<string> => {
+  const prefix = `PRJ-${new Date().getFullYear()}-`;
+
+  const lastProject = await prisma.project.findFirst({
+    where: {
+      project_number: {
+        startsWith: prefix,
+      },
+    },
+    orderBy: {
+      project_number: 'desc',
+    },
+  });
+
+  let nextNumber = 1;
+  if (lastProject) {
+    const lastNumber = parseInt(lastProject.project_number.replace(prefix, ''), 10);
+    nextNumber = isNaN(lastNumber) ? 1 : lastNumber + 1;
+  }
+
+  return `${prefix}${nextNumber.toString().padStart(3, '0')}`;
+};
+
 /**
  * Get single project by ID with all relations
  */
@@ -258,6 +296,16 @@ export const getProjectById = async (id: string): Promise<ProjectWithRelations |
         deleted_at: null,
       },
       include: {
+        quote: {
+          select: {
+            id: true,
+            quote_number: true,
+            converted_at: true,
+          },
+        },
+        budget_items: {
+          orderBy: { sort_order: 'asc' },
+        },
         client: {
           select: {
             id: true,
@@ -321,7 +369,8 @@ export const getProjectById = async (id: string): Promise<ProjectWithRelations |
  */
 export const createProject = async (
   data: CreateProjectData,
-  userId: string
+  userId: string,
+  ipAddress?: string
 ): Promise<ProjectWithRelations> => {
   try {
     // Validate required fields
@@ -353,6 +402,8 @@ export const createProject = async (
       throw new Error('Client not found');
     }
 
+    await validateUnionLocal(data.union_local_id);
+
     // Create project
     const project = await prisma.project.create({
       data: {
@@ -406,6 +457,15 @@ export const createProject = async (
       },
     });
 
+    await recordAuditLog({
+      actorId: userId,
+      action: 'CREATE_PROJECT',
+      entityType: 'PROJECT',
+      entityId: project.id,
+      after: data,
+      ipAddress,
+    });
+
     logger.info('Project created successfully', {
       projectId: project.id,
       projectNumber: project.project_number,
@@ -425,7 +485,8 @@ export const createProject = async (
 export const updateProject = async (
   id: string,
   data: UpdateProjectData,
-  userId: string
+  userId: string,
+  ipAddress?: string
 ): Promise<ProjectWithRelations> => {
   try {
     // Check if project exists and is not deleted
@@ -469,6 +530,11 @@ export const updateProject = async (
       }
     }
 
+    // Deactivated locals stay on existing jobs; only a new assignment must be active
+    if (data.union_local_id && data.union_local_id !== existingProject.union_local_id) {
+      await validateUnionLocal(data.union_local_id);
+    }
+
     // Update project
     const project = await prisma.project.update({
       where: { id },
@@ -513,6 +579,16 @@ export const updateProject = async (
       },
     });
 
+    await recordAuditLog({
+      actorId: userId,
+      action: 'UPDATE_PROJECT',
+      entityType: 'PROJECT',
+      entityId: id,
+      before: existingProject,
+      after: project,
+      ipAddress,
+    });
+
     logger.info('Project updated successfully', {
       projectId: id,
       updatedBy: userId,
@@ -528,7 +604,11 @@ export const updateProject = async (
 /**
  * Soft delete project
  */
-export const deleteProject = async (id: string): Promise<void> => {
+export const deleteProject = async (
+  id: string,
+  userId: string,
+  ipAddress?: string
+): Promise<void> => {
   try {
     // Check if project exists and is not already deleted
     const existingProject = await prisma.project.findFirst({
@@ -547,9 +627,19 @@ export const deleteProject = async (id: string): Promise<void> => {
       where: { id },
       data: {
         deleted_at: new Date(),
+        updated_by: userId,
       },
     });
 
+    await recordAuditLog({
+      actorId: userId,
+      action: 'DELETE_PROJECT',
+      entityType: 'PROJECT',
+      entityId: id,
+      before: existingProject,
+      ipAddress,
+    });
+
     logger.info('Project deleted successfully', { projectId: id });
   } catch (error) {
     logger.error('Error deleting project', { error, projectId: id });
@@ -5,9 +5,20 @@
  * status management, line item calculations, and quote generation.
  */
 
-import { PrismaClient, Quote, QuoteStatus, Prisma } from '@prisma/client';
+import {
+  PrismaClient,
+  Quote,
+  QuoteStatus,
+  Prisma,
+  Project,
+  ProjectStatus,
+  ProjectType,
+  BillingType
+} from '@prisma/client';
 import { logger } from '../utils/logger';
 import { ApiError } from '../utils/response';
+import { recordAuditLog } from './audit.service';
+import { generateProjectNumber } from './project.service';
 
 const prisma = new PrismaClient();
 
@@ -38,6 +49,95 @@ function transformQuoteData(quote: any): any {
   };
 }
 
+/**
+ * Fields captured in each quote revision snapshot
+ */
+type RevisionContent = Pick<Quote, 'project_name' | 'line_items' | 'subtotal' | 'tax' | 'total' | 'notes' | 'valid_until'>;
+
+/**
+ * Check whether two revision snapshots have the same priced content
+ */
+function isSameRevisionContent(a: RevisionContent, b: RevisionContent): boolean {
+  const normalize = (content: RevisionContent) => {
+    const transformed = transformQuoteData(content);
+    return JSON.stringify({
+      project_name: transformed.project_name,
+      line_items: transformed.line_items,
+      subtotal: transformed.subtotal,
+      tax: transformed.tax,
+      total: transformed.total,
+      notes: transformed.notes || null
+    });
+  };
+
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Snapshot quote content as the next revision unless it matches the latest one
+ * Returns the revision number that holds the content
+ */
+async function snapshotQuoteRevision(
+  tx: Prisma.TransactionClient,
+  quoteId: string,
+  content: RevisionContent,
+  createdBy: string,
+  changeSummary?: string
+): Promise<{ revisionNumber: number; created: boolean }> {
+  const latest = await tx.quoteRevision.findFirst({
+    where: { quote_id: quoteId },
+    orderBy: { revision_number: 'desc' }
+  });
+
+  if (latest && isSameRevisionContent(latest, content)) {
+    return { revisionNumber: latest.revision_number, created: false };
+  }
+
+  const revisionNumber = latest ? latest.revision_number + 1 : 0;
+
+  await tx.quoteRevision.create({
+    data: {
+      quote_id: quoteId,
+      revision_number: revisionNumber,
+      project_name: content.project_name,
+      line_items: content.line_items as Prisma.InputJsonValue,
+      subtotal: content.subtotal,
+      tax: content.tax,
+      total: content.total,
+      notes: content.notes,
+      valid_until: content.valid_until,
+      change_summary: changeSummary,
+      created_by: createdBy
+    }
+  });
+
+  return { revisionNumber, created: true };
+}
+
+/**
+ * Work out revision tracking fields for a status change
+ * Accepting a quote freezes its current content as the accepted revision
+ */
+async function getRevisionStatusData(
+  tx: Prisma.TransactionClient,
+  quoteId: string,
+  previousStatus: QuoteStatus,
+  status: QuoteStatus | undefined,
+  content: RevisionContent,
+  updatedBy: string
+): Promise<{ current_revision?: number; accepted_revision?: number | null }> {
+  if (!status || status === previousStatus) {
+    return {};
+  }
+
+  if (status === QuoteStatus.ACCEPTED) {
+    const { revisionNumber } = await snapshotQuoteRevision(tx, quoteId, content, updatedBy);
+    return { current_revision: revisionNumber, accepted_revision: revisionNumber };
+  }
+
+  return previousStatus === QuoteStatus.ACCEPTED ? { accepted_revision: null } : {};
+}
+
 // Quote with relations
 export type QuoteWithRelations = Quote & {
   client: {
@@ -67,6 +167,24 @@ export interface LineItem {
   total: number;
   category?: string;
   notes?: string;
+  // Labor-unit estimating (optional). When set, unit_price is derived as
+  // (material_cost + labor_hours * labor_rate) * (1 + markup / 100)
+  material_cost?: number;
+  labor_hours?: number;
+  labor_rate?: number;
+  markup?: number;
+}
+
+// Quote totals with the estimate broken into material, labor and overhead/profit
+export interface LineItemTotals {
+  subtotal: number;
+  tax: number;
+  total: number;
+  material_subtotal: number;
+  labor_subtotal: number;
+  overhead_profit: number;
+  other_subtotal: number; // Items priced directly without a cost breakdown
+  labor_hours: number;
 }
 
 // Quote creation data
@@ -94,6 +212,42 @@ export interface UpdateQuoteData {
   status?: QuoteStatus;
 }
 
+// Quote to project conversion options
+export interface ConvertQuoteData {
+  project_number?: string;
+  name?: string;
+  type?: ProjectType;
+  billing_type?: BillingType;
+  start_date?: Date;
+  location?: string;
+  address?: string;
+  description?: string;
+}
+
+// Line-level difference between two quote revisions
+export interface QuoteRevisionLineDiff {
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  from: LineItem | null;
+  to: LineItem | null;
+  changed_fields: string[];
+}
+
+// Comparison of two quote revisions
+export interface QuoteRevisionComparison {
+  quote_id: string;
+  quote_number: string;
+  from_revision: number;
+  to_revision: number;
+  lines: QuoteRevisionLineDiff[];
+  totals: {
+    subtotal: { from: number; to: number };
+    tax: { from: number; to: number };
+    total: { from: number; to: number };
+  };
+  project_name: { from: string; to: string };
+  notes: { from: string | null; to: string | null };
+}
+
 // Quote list filters
 export interface QuoteFilters {
   client_id?: string;
@@ -161,14 +315,95 @@ export async function generateQuoteNumber(): Promise<string> {
   }
 }
 
+// Labor-unit estimate fields on a line item
+const ESTIMATE_FIELDS = ['material_cost', 'labor_hours', 'labor_rate', 'markup'] as const;
+
+/**
+ * Check whether a line item is priced from labor units and material cost
+ */
+export function isEstimatedLineItem(item: LineItem): boolean {
+  return item.material_cost != null || item.labor_hours != null;
+}
+
+/**
+ * Find the first labor-unit estimate field that is set but is not a
+ * non-negative number. Returns its label, or null when all are valid.
+ */
+export function getInvalidEstimateField(item: LineItem): string | null {
+  const field = ESTIMATE_FIELDS.find((name) => {
+    const value = item[name];
+    return value != null && (isNaN(Number(value)) || Number(value) < 0);
+  });
+
+  return field ? field.replace('_', ' ') : null;
+}
+
+/**
+ * Calculate the sell price per unit for an estimated line item
+ */
+export function calculateEstimatedUnitPrice(item: LineItem): number {
+  const cost = (Number(item.material_cost) || 0) +
+    (Number(item.labor_hours) || 0) * (Number(item.labor_rate) || 0);
+  const unitPrice = cost * (1 + (Number(item.markup) || 0) / 100);
+
+  return Math.round(unitPrice * 100) / 100;
+}
+
+/**
+ * Derive unit price and total for estimated line items
+ * Directly priced items are returned unchanged
+ */
+export function applyLineItemEstimates(lineItems: LineItem[]): LineItem[] {
+  // Malformed input is left for validateLineItems to reject
+  if (!Array.isArray(lineItems)) {
+    return lineItems;
+  }
+
+  return lineItems.map((item) => {
+    if (!isEstimatedLineItem(item)) {
+      return item;
+    }
+
+    const unitPrice = calculateEstimatedUnitPrice(item);
+
+    return {
+      ...item,
+      unit_price: unitPrice,
+      total: Math.round(item.quantity * unitPrice * 100) / 100
+    };
+  });
+}
+
 /**
  * Calculate line item totals
+ *
+ * Estimated items split into material, labor and overhead/profit; the
+ * overhead/profit share absorbs unit price rounding so the parts add up
+ * to the subtotal.
  */
-export function calculateLineItemTotals(lineItems: LineItem[]): {
-  subtotal: number;
-  tax: number;
-  total: number;
-} {
+export function calculateLineItemTotals(lineItems: LineItem[]): LineItemTotals {
+  let materialSubtotal = 0;
+  let laborSubtotal = 0;
+  let overheadProfit = 0;
+  let otherSubtotal = 0;
+  let laborHours = 0;
+
+  for (const item of lineItems) {
+    if (!isEstimatedLineItem(item)) {
+      otherSubtotal += item.total;
+      continue;
+    }
+
+    const material = item.quantity * (Number(item.material_cost) || 0);
+    const hours = item.quantity * (Number(item.labor_hours) || 0);
+    const labor = hours * (Number(item.labor_rate) || 0);
+
+    materialSubtotal += material;
+    laborSubtotal += labor;
+    overheadProfit += item.total - material - labor;
+    laborHours += hours;
+  }
+
   const subtotal = lineItems.reduce((sum, item) => sum + item.total, 0);
   const tax = subtotal * 0.08; // 8% tax rate - should be configurable
   const total = subtotal + tax;
@@ -176,7 +411,12 @@ export function calculateLineItemTotals(lineItems: LineItem[]): {
   return {
     subtotal: Math.round(subtotal * 100) / 100,
     tax: Math.round(tax * 100) / 100,
-    total: Math.round(total * 100) / 100
+    total: Math.round(total * 100) / 100,
+    material_subtotal: Math.round(materialSubtotal * 100) / 100,
+    labor_subtotal: Math.round(laborSubtotal * 100) / 100,
+    overhead_profit: Math.round(overheadProfit * 100) / 100,
+    other_subtotal: Math.round(otherSubtotal * 100) / 100,
+    labor_hours: Math.round(laborHours * 100) / 100
   };
 }
 
@@ -204,6 +444,11 @@ export function validateLineItems(lineItems: LineItem[]): void {
     if (!item.unit || item.unit.trim() === '') {
       throw new ApiError('Line item unit is required', 400);
     }
+
+    const invalidEstimateField = getInvalidEstimateField(item);
+    if (invalidEstimateField) {
+      throw new ApiError(`Line item ${invalidEstimateField} must be a non-negative number`, 400);
+    }
     
     // Calculate and validate total
     const calculatedTotal = item.quantity * item.unit_price;
@@ -218,10 +463,12 @@ export function validateLineItems(lineItems: LineItem[]): void {
  */
 export async function createQuote(
   data: CreateQuoteData,
-  createdBy: string
+  createdBy: string,
+  ipAddress?: string
 ): Promise<QuoteWithRelations> {
   try {
-    // Validate line items
+    // Price estimated items from their labor units, then validate
+    data = { ...data, line_items: applyLineItemEstimates(data.line_items) };
     validateLineItems(data.line_items);
     
     // Generate quote number
@@ -255,7 +502,21 @@ export async function createQuote(
         notes: data.notes,
         valid_until: data.valid_until,
         created_by: createdBy,
-        updated_by: createdBy
+        updated_by: createdBy,
+        // Original version is kept as R0 so later revisions can be compared against it
+        revisions: {
+          create: {
+            revision_number: 0,
+            project_name: data.project_name,
+            line_items: data.line_items as unknown as Prisma.InputJsonValue,
+            subtotal,
+            tax,
+            total,
+            notes: data.notes,
+            valid_until: data.valid_until,
+            created_by: createdBy
+          }
+        }
       },
       include: {
         client: {
@@ -281,7 +542,16 @@ export async function createQuote(
         }
       }
     });
-    
+
+    await recordAuditLog({
+      actorId: createdBy,
+      action: 'CREATE_QUOTE',
+      entityType: 'QUOTE',
+      entityId: quote.id,
+      after: { ...data, quote_number: quoteNumber, subtotal, tax, total },
+      ipAddress
+    });
+
     logger.info('Quote created successfully', {
       quoteId: quote.id,
       quoteNumber: quote.quote_number,
@@ -315,6 +585,13 @@ export async function getQuoteById(quoteId: string): Promise<QuoteWithRelations
             type: true
           }
         },
+        project: {
+          select: {
+            id: true,
+            name: true,
+            project_number: true
+          }
+        },
         creator: {
           select: {
             id: true,
@@ -339,6 +616,83 @@ export async function getQuoteById(quoteId: string): Promise<QuoteWithRelations
   }
 }
 
+/**
+ * Get quote with the client and contact details needed for the proposal PDF
+ */
+export async function getQuoteForPDF(quoteId: string) {
+  try {
+    const quote = await prisma.quote.findUnique({
+      where: { id: quoteId },
+      include: {
+        client: {
+          select: {
+            id: true,
+            name: true,
+            address: true,
+            phone: true,
+            email: true,
+            contacts: {
+              orderBy: [{ is_primary: 'desc' }, { created_at: 'asc' }],
+              take: 1,
+              select: {
+                name: true,
+                title: true,
+                phone: true,
+                email: true
+              }
+            }
+          }
+        },
+        creator: {
+          select: {
+            first_name: true,
+            last_name: true,
+            email: true
+          }
+        }
+      }
+    });
+
+    if (!quote) {
+      throw new ApiError('Quote not found', 404);
+    }
+
+    const transformed = transformQuoteData(quote);
+
+    return {
+      quoteNumber: quote.current_revision > 0
+        ? `${quote.quote_number} R${quote.current_revision}`
+        : quote.quote_number,
+      projectName: quote.project_name,
+      status: quote.status,
+      createdAt: quote.created_at,
+      validUntil: quote.valid_until,
+      notes: quote.notes,
+      lineItems: transformed.line_items as LineItem[],
+      subtotal: transformed.subtotal as number,
+      tax: transformed.tax as number | null,
+      total: transformed.total as number,
+      client: {
+        name: quote.client.name,
+        address: quote.client.address,
+        phone: quote.client.phone,
+        email: quote.client.email
+      },
+      contact: quote.client.contacts[0] || null,
+      preparedBy: {
+        name: `${quote.creator.first_name} ${quote.creator.last_name}`,
+        email: quote.creator.email
+      }
+    };
+  } catch (error) {
+    logger.error('Failed to get quote for PDF', { error, quoteId });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to retrieve quote', 500);
+  }
+}
+
 /**
  * Get quote by quote number
  */
@@ -479,12 +833,15 @@ export async function listQuotes(
 export async function updateQuote(
   quoteId: string,
   data: UpdateQuoteData,
-  updatedBy: string
+  updatedBy: string,
+  ipAddress?: string
 ): Promise<QuoteWithRelations> {
   try {
     // Validate line items if provided
     if (data.line_items) {
-      validateLineItems(data.line_items);
+      const lineItems = applyLineItemEstimates(data.line_items);
+      data = { ...data, line_items: lineItems };
+      validateLineItems(lineItems);
     }
     
     // Check if quote exists
@@ -495,6 +852,11 @@ export async function updateQuote(
     if (!existingQuote) {
       throw new ApiError('Quote not found', 404);
     }
+
+    // A converted quote stays as accepted so it matches the project and budget built from it
+    if (existingQuote.project_id) {
+      throw new ApiError('Quote has already been converted to a project', 409, 'ALREADY_CONVERTED');
+    }
     
     // Calculate totals if line items are updated
     let updateData: any = {
@@ -510,34 +872,60 @@ export async function updateQuote(
       updateData.line_items = data.line_items as any;
     }
     
-    const quote = await prisma.quote.update({
-      where: { id: quoteId },
-      data: updateData,
-      include: {
-        client: {
-          select: {
-            id: true,
-            name: true,
-            type: true
-          }
-        },
-        creator: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true
-          }
+    const quote = await prisma.$transaction(async (tx) => {
+      const revisionData = await getRevisionStatusData(
+        tx,
+        quoteId,
+        existingQuote.status,
+        data.status,
+        {
+          ...existingQuote,
+          ...Object.fromEntries(
+            Object.entries(updateData).filter(([, value]) => value !== undefined)
+          )
         },
-        updater: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true
+        updatedBy
+      );
+
+      return tx.quote.update({
+        where: { id: quoteId },
+        data: { ...updateData, ...revisionData },
+        include: {
+          client: {
+            select: {
+              id: true,
+              name: true,
+              type: true
+            }
+          },
+          creator: {
+            select: {
+              id: true,
+              first_name: true,
+              last_name: true
+            }
+          },
+          updater: {
+            select: {
+              id: true,
+              first_name: true,
+              last_name: true
+            }
           }
         }
-      }
+      });
     });
-    
+
+    await recordAuditLog({
+      actorId: updatedBy,
+      action: 'UPDATE_QUOTE',
+      entityType: 'QUOTE',
+      entityId: quote.id,
+      before: existingQuote,
+      after: quote,
+      ipAddress
+    });
+
     logger.info('Quote updated successfully', {
       quoteId: quote.id,
       quoteNumber: quote.quote_number,
@@ -560,50 +948,88 @@ export async function updateQuote(
 export async function updateQuoteStatus(
   quoteId: string,
   status: QuoteStatus,
-  updatedBy: string
+  updatedBy: string,
+  ipAddress?: string
 ): Promise<QuoteWithRelations> {
   try {
-    const quote = await prisma.quote.update({
-      where: { id: quoteId },
-      data: {
+    const existingQuote = await prisma.quote.findUnique({
+      where: { id: quoteId }
+    });
+
+    if (!existingQuote) {
+      throw new ApiError('Quote not found', 404);
+    }
+
+    if (existingQuote.project_id) {
+      throw new ApiError('Quote has already been converted to a project', 409, 'ALREADY_CONVERTED');
+    }
+
+    const quote = await prisma.$transaction(async (tx) => {
+      const revisionData = await getRevisionStatusData(
+        tx,
+        quoteId,
+        existingQuote.status,
         status,
-        updated_by: updatedBy
-      },
-      include: {
-        client: {
-          select: {
-            id: true,
-            name: true,
-            type: true
-          }
-        },
-        creator: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true
-          }
+        existingQuote,
+        updatedBy
+      );
+
+      return tx.quote.update({
+        where: { id: quoteId },
+        data: {
+          status,
+          updated_by: updatedBy,
+          ...revisionData
         },
-        updater: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true
+        include: {
+          client: {
+            select: {
+              id: true,
+              name: true,
+              type: true
+            }
+          },
+          creator: {
+            select: {
+              id: true,
+              first_name: true,
+              last_name: true
+            }
+          },
+          updater: {
+            select: {
+              id: true,
+              first_name: true,
+              last_name: true
+            }
           }
         }
-      }
+      });
     });
-    
+
+    await recordAuditLog({
+      actorId: updatedBy,
+      action: 'UPDATE_QUOTE_STATUS',
+      entityType: 'QUOTE',
+      entityId: quote.id,
+      before: existingQuote,
+      after: quote,
+      ipAddress
+    });
+
     logger.info('Quote status updated', {
       quoteId: quote.id,
       quoteNumber: quote.quote_number,
       status,
       updatedBy
     });
-    
+
     return transformQuoteData(quote);
   } catch (error) {
     logger.error('Failed to update quote status', { error, quoteId, status, updatedBy });
+    if (error instanceof ApiError) {
+      throw error;
+    }
     throw new ApiError('Failed to update quote status', 500);
   }
 }
@@ -611,7 +1037,11 @@ export async function updateQuoteStatus(
 /**
  * Delete quote (soft delete)
  */
-export async function deleteQuote(quoteId: string): Promise<void> {
+export async function deleteQuote(
+  quoteId: string,
+  deletedBy: string,
+  ipAddress?: string
+): Promise<void> {
   try {
     // Check if quote exists
     const quote = await prisma.quote.findUnique({
@@ -627,7 +1057,16 @@ export async function deleteQuote(quoteId: string): Promise<void> {
     await prisma.quote.delete({
       where: { id: quoteId }
     });
-    
+
+    await recordAuditLog({
+      actorId: deletedBy,
+      action: 'DELETE_QUOTE',
+      entityType: 'QUOTE',
+      entityId: quoteId,
+      before: quote,
+      ipAddress
+    });
+
     logger.info('Quote deleted successfully', {
       quoteId,
       quoteNumber: quote.quote_number
@@ -723,7 +1162,8 @@ export async function getQuoteStats(
 export async function duplicateQuote(
   quoteId: string,
   newProjectName: string,
-  createdBy: string
+  createdBy: string,
+  ipAddress?: string
 ): Promise<QuoteWithRelations> {
   try {
     const originalQuote = await prisma.quote.findUnique({
@@ -745,7 +1185,7 @@ export async function duplicateQuote(
       notes: originalQuote.notes || undefined,
       valid_until: originalQuote.valid_until || undefined,
       status: QuoteStatus.DRAFT
-    }, createdBy);
+    }, createdBy, ipAddress);
     
     logger.info('Quote duplicated successfully', {
       originalQuoteId: quoteId,
@@ -762,3 +1202,485 @@ export async function duplicateQuote(
     throw new ApiError('Failed to duplicate quote', 500);
   }
 }
+
+
+/**
+ * Convert an accepted quote into a project
+ *
+ * Creates the project for the quote's client with the quote total as budget,
+ * copies the line items into the project budget breakdown and links the quote
+ * to the new project. A quote can only be converted once.
+ */
+export async function convertQuoteToProject(
+  quoteId: string,
+  data: ConvertQuoteData,
+  convertedBy: string,
+  ipAddress?: string
+): Promise<{ quote: QuoteWithRelations; project: Project }> {
+  try {
+    const existingQuote = await prisma.quote.findUnique({
+      where: { id: quoteId }
+    });
+
+    if (!existingQuote) {
+      throw new ApiError('Quote not found', 404);
+    }
+
+    if (existingQuote.project_id) {
+      throw new ApiError('Quote has already been converted to a project', 409, 'ALREADY_CONVERTED');
+    }
+
+    if (existingQuote.status !== QuoteStatus.ACCEPTED) {
+      throw new ApiError('Only accepted quotes can be converted to a project', 400);
+    }
+
+    const projectNumber = data.project_number || await generateProjectNumber();
+
+    const duplicateNumber = await prisma.project.findFirst({
+      where: { project_number: projectNumber, deleted_at: null }
+    });
+
+    if (duplicateNumber) {
+      throw new ApiError('Project number already exists', 409, 'DUPLICATE_PROJECT_NUMBER');
+    }
+
+    const lineItems = (existingQuote.line_items as unknown as LineItem[]) || [];
+
+    const project = await prisma.$transaction(async (tx) => {
+      const newProject = await tx.project.create({
+        data: {
+          name: data.name || existingQuote.project_name,
+          project_number: projectNumber,
+          client_id: existingQuote.client_id,
+          status: ProjectStatus.AWARDED,
+          type: data.type || ProjectType.COMMERCIAL,
+          billing_type: data.billing_type || BillingType.LUMP_SUM,
+          start_date: data.start_date,
+          location: data.location,
+          address: data.address,
+          description: data.description || `Converted from quote ${existingQuote.quote_number}`,
+          contract_value: existingQuote.total,
+          budget: existingQuote.total,
+          created_by: convertedBy,
+          updated_by: convertedBy
+        }
+      });
+
+      if (lineItems.length > 0) {
+        await tx.projectBudgetItem.createMany({
+          data: lineItems.map((item, index) => ({
+            project_id: newProject.id,
+            category: item.category || 'General',
+            description: item.description,
+            quantity: Number(item.quantity),
+            unit: item.unit,
+            unit_price: Number(item.unit_price),
+            total: Number(item.total),
+            sort_order: index,
+            quote_line_item_id: item.id || null
+          }))
+        });
+      }
+
+      // Only link if still unconverted, so concurrent requests cannot convert twice
+      const linked = await tx.quote.updateMany({
+        where: { id: quoteId, project_id: null },
+        data: {
+          project_id: newProject.id,
+          converted_at: new Date(),
+          updated_by: convertedBy
+        }
+      });
+
+      if (linked.count === 0) {
+        throw new ApiError('Quote has already been converted to a project', 409, 'ALREADY_CONVERTED');
+      }
+
+      return newProject;
+    });
+
+    await recordAuditLog({
+      actorId: convertedBy,
+      action: 'CREATE_PROJECT',
+      entityType: 'PROJECT',
+      entityId: project.id,
+      after: project,
+      ipAddress
+    });
+
+    await recordAuditLog({
+      actorId: convertedBy,
+      action: 'CONVERT_QUOTE',
+      entityType: 'QUOTE',
+      entityId: quoteId,
+      before: { project_id: null },
+      after: { project_id: project.id },
+      ipAddress
+    });
+
+    logger.info('Quote converted to project', {
+      quoteId,
+      quoteNumber: existingQuote.quote_number,
+      projectId: project.id,
+      projectNumber: project.project_number,
+      budgetItems: lineItems.length,
+      convertedBy
+    });
+
+    const quote = await getQuoteById(quoteId);
+
+    return { quote: quote!, project };
+  } catch (error) {
+    logger.error('Failed to convert quote to project', { error, quoteId, data, convertedBy });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to convert quote to project', 500);
+  }
+}
+
+/**
+ * List the revision history of a quote, newest first
+ */
+export async function listQuoteRevisions(quoteId: string) {
+  try {
+    const quote = await prisma.quote.findUnique({
+      where: { id: quoteId },
+      select: { id: true }
+    });
+
+    if (!quote) {
+      throw new ApiError('Quote not found', 404);
+    }
+
+    const revisions = await prisma.quoteRevision.findMany({
+      where: { quote_id: quoteId },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            first_name: true,
+            last_name: true
+          }
+        }
+      },
+      orderBy: { revision_number: 'desc' }
+    });
+
+    return revisions.map(transformQuoteData);
+  } catch (error) {
+    logger.error('Failed to list quote revisions', { error, quoteId });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to retrieve quote revisions', 500);
+  }
+}
+
+/**
+ * Get a single quote revision snapshot
+ */
+export async function getQuoteRevision(quoteId: string, revisionNumber: number) {
+  try {
+    const revision = await prisma.quoteRevision.findUnique({
+      where: {
+        quote_id_revision_number: {
+          quote_id: quoteId,
+          revision_number: revisionNumber
+        }
+      },
+      include: {
+        creator: {
+          select: {
+            id: true,
+            first_name: true,
+            last_name: true
+          }
+        }
+      }
+    });
+
+    if (!revision) {
+      throw new ApiError(`Revision R${revisionNumber} not found`, 404);
+    }
+
+    return transformQuoteData(revision);
+  } catch (error) {
+    logger.error('Failed to get quote revision', { error, quoteId, revisionNumber });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to retrieve quote revision', 500);
+  }
+}
+
+/**
+ * Issue a new revision of a quote
+ *
+ * Snapshots the quote's current line items, totals and notes as the next
+ * revision number. Fails if nothing changed since the latest revision.
+ */
+export async function createQuoteRevision(
+  quoteId: string,
+  changeSummary: string | undefined,
+  createdBy: string,
+  ipAddress?: string
+) {
+  try {
+    const existingQuote = await prisma.quote.findUnique({
+      where: { id: quoteId }
+    });
+
+    if (!existingQuote) {
+      throw new ApiError('Quote not found', 404);
+    }
+
+    const revisionNumber = await prisma.$transaction(async (tx) => {
+      const snapshot = await snapshotQuoteRevision(
+        tx,
+        quoteId,
+        existingQuote,
+        createdBy,
+        changeSummary
+      );
+
+      if (!snapshot.created) {
+        throw new ApiError(
+          `Quote has no changes since revision R${snapshot.revisionNumber}`,
+          400,
+          'NO_CHANGES'
+        );
+      }
+
+      await tx.quote.update({
+        where: { id: quoteId },
+        data: {
+          current_revision: snapshot.revisionNumber,
+          updated_by: createdBy
+        }
+      });
+
+      return snapshot.revisionNumber;
+    });
+
+    await recordAuditLog({
+      actorId: createdBy,
+      action: 'CREATE_QUOTE_REVISION',
+      entityType: 'QUOTE',
+      entityId: quoteId,
+      before: { current_revision: existingQuote.current_revision },
+      after: { current_revision: revisionNumber, change_summary: changeSummary },
+      ipAddress
+    });
+
+    logger.info('Quote revision created', {
+      quoteId,
+      quoteNumber: existingQuote.quote_number,
+      revisionNumber,
+      createdBy
+    });
+
+    return getQuoteRevision(quoteId, revisionNumber);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ApiError('Revision was created by another user, please refresh', 409);
+    }
+    logger.error('Failed to create quote revision', { error, quoteId, createdBy });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to create quote revision', 500);
+  }
+}
+
+/**
+ * Mark a revision as the one accepted by the client
+ *
+ * Restores the quote to the accepted revision's content so the quote (and any
+ * project converted from it) reflects exactly what the client signed. Unsaved
+ * edits to the quote are snapshotted as a new revision first.
+ */
+export async function acceptQuoteRevision(
+  quoteId: string,
+  revisionNumber: number,
+  acceptedBy: string,
+  ipAddress?: string
+): Promise<QuoteWithRelations> {
+  try {
+    const existingQuote = await prisma.quote.findUnique({
+      where: { id: quoteId }
+    });
+
+    if (!existingQuote) {
+      throw new ApiError('Quote not found', 404);
+    }
+
+    if (existingQuote.project_id) {
+      throw new ApiError('Quote has already been converted to a project', 409, 'ALREADY_CONVERTED');
+    }
+
+    const revision = await prisma.quoteRevision.findUnique({
+      where: {
+        quote_id_revision_number: {
+          quote_id: quoteId,
+          revision_number: revisionNumber
+        }
+      }
+    });
+
+    if (!revision) {
+      throw new ApiError(`Revision R${revisionNumber} not found`, 404);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // Keep the content being replaced as a revision so it can still be compared or re-accepted
+      await snapshotQuoteRevision(
+        tx,
+        quoteId,
+        existingQuote,
+        acceptedBy,
+        `Saved before accepting R${revisionNumber}`
+      );
+
+      await tx.quote.update({
+        where: { id: quoteId },
+        data: {
+          project_name: revision.project_name,
+          line_items: revision.line_items as Prisma.InputJsonValue,
+          subtotal: revision.subtotal,
+          tax: revision.tax,
+          total: revision.total,
+          notes: revision.notes,
+          valid_until: revision.valid_until,
+          status: QuoteStatus.ACCEPTED,
+          current_revision: revisionNumber,
+          accepted_revision: revisionNumber,
+          updated_by: acceptedBy
+        }
+      });
+    });
+
+    await recordAuditLog({
+      actorId: acceptedBy,
+      action: 'ACCEPT_QUOTE_REVISION',
+      entityType: 'QUOTE',
+      entityId: quoteId,
+      before: { status: existingQuote.status, accepted_revision: existingQuote.accepted_revision },
+      after: { status: QuoteStatus.ACCEPTED, accepted_revision: revisionNumber },
+      ipAddress
+    });
+
+    logger.info('Quote revision accepted', {
+      quoteId,
+      quoteNumber: existingQuote.quote_number,
+      revisionNumber,
+      acceptedBy
+    });
+
+    const quote = await getQuoteById(quoteId);
+
+    return quote!;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ApiError('Revision was created by another user, please refresh', 409);
+    }
+    logger.error('Failed to accept quote revision', { error, quoteId, revisionNumber, acceptedBy });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to accept quote revision', 500);
+  }
+}
+
+/**
+ * Compare two revisions of a quote line by line
+ *
+ * Line items are matched by their ID, falling back to description and
+ * category for items that were re-created rather than edited.
+ */
+export async function compareQuoteRevisions(
+  quoteId: string,
+  fromRevision: number,
+  toRevision: number
+): Promise<QuoteRevisionComparison> {
+  try {
+    const quote = await prisma.quote.findUnique({
+      where: { id: quoteId },
+      select: { quote_number: true }
+    });
+
+    if (!quote) {
+      throw new ApiError('Quote not found', 404);
+    }
+
+    const from = await getQuoteRevision(quoteId, fromRevision);
+    const to = await getQuoteRevision(quoteId, toRevision);
+
+    const fromItems: LineItem[] = Array.isArray(from.line_items) ? from.line_items : [];
+    const toItems: LineItem[] = Array.isArray(to.line_items) ? to.line_items : [];
+    const matchKey = (item: LineItem) =>
+      `${(item.description || '').trim().toLowerCase()}|${item.category || ''}`;
+    const comparedFields: (keyof LineItem)[] = [
+      'description',
+      'category',
+      'quantity',
+      'unit',
+      'unit_price',
+      'total',
+      'notes',
+      'material_cost',
+      'labor_hours',
+      'labor_rate',
+      'markup'
+    ];
+
+    const unmatched = [...fromItems];
+    const lines: QuoteRevisionLineDiff[] = toItems.map((item) => {
+      let index = unmatched.findIndex((candidate) => candidate.id && candidate.id === item.id);
+      if (index === -1) {
+        index = unmatched.findIndex((candidate) => matchKey(candidate) === matchKey(item));
+      }
+
+      if (index === -1) {
+        return { status: 'added', from: null, to: item, changed_fields: [] };
+      }
+
+      const [previous] = unmatched.splice(index, 1);
+      const changedFields = comparedFields.filter(
+        (field) => (previous![field] ?? null) !== (item[field] ?? null)
+      );
+
+      return {
+        status: changedFields.length > 0 ? 'changed' : 'unchanged',
+        from: previous!,
+        to: item,
+        changed_fields: changedFields
+      };
+    });
+
+    unmatched.forEach((item) => {
+      lines.push({ status: 'removed', from: item, to: null, changed_fields: [] });
+    });
+
+    return {
+      quote_id: quoteId,
+      quote_number: quote.quote_number,
+      from_revision: fromRevision,
+      to_revision: toRevision,
+      lines,
+      totals: {
+        subtotal: { from: from.subtotal, to: to.subtotal },
+        tax: { from: from.tax || 0, to: to.tax || 0 },
+        total: { from: from.total, to: to.total }
+      },
+      project_name: { from: from.project_name, to: to.project_name },
+      notes: { from: from.notes, to: to.notes }
+    };
+  } catch (error) {
+    logger.error('Failed to compare quote revisions', { error, quoteId, fromRevision, toRevision });
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    throw new ApiError('Failed to compare quote revisions', 500);
+  }
+}
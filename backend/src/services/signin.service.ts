@@ -1,11 +1,19 @@
+import { Prisma, SignInBreak } from '@prisma/client';
 import prisma from '../config/database';
 import { logger } from '../utils/logger';
+import { assertPayrollPeriodOpen } from './payroll-period.service';
 
 /**
  * Sign-In Service
  * Handles employee sign-in/sign-out operations for daily attendance
  */
 
+export interface GpsCoordinates {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
 interface SignInData {
   employeeId: string;
   date: Date;
@@ -13,6 +21,7 @@ interface SignInData {
   location?: string;
   projectId?: string;
   notes?: string;
+  gps?: GpsCoordinates;
 }
 
 interface SignInFilters {
@@ -20,6 +29,210 @@ interface SignInFilters {
   projectId?: string;
 }
 
+export type BreakType = 'MEAL' | 'REST';
+
+export const BREAK_TYPES: BreakType[] = ['MEAL', 'REST'];
+
+interface BreakData {
+  breakType: BreakType;
+  startTime: Date;
+  endTime?: Date;
+  isPaid?: boolean;
+  notes?: string;
+}
+
+// Break times the meal period and hour calculations need
+export interface BreakSegment {
+  break_type: string;
+  is_paid: boolean;
+  start_time: Date;
+  end_time: Date | null;
+}
+
+export type MealPeriodExceptionType = 'MISSED_MEAL' | 'SHORT_MEAL' | 'LATE_MEAL';
+
+/**
+ * A meal period is required once a shift runs past this many hours worked,
+ * and must start before the end of that hour
+ */
+export const MEAL_PERIOD_REQUIRED_AFTER_HOURS = 5;
+
+/**
+ * Shortest unpaid break that counts as a meal period
+ */
+export const MIN_MEAL_PERIOD_MINUTES = 30;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Parse optional device GPS from the request body ({ latitude, longitude, accuracy? }).
+ * Returns undefined when no coordinates were sent and null when they are invalid.
+ */
+export const parseGps = (body: {
+  latitude?: unknown;
+  longitude?: unknown;
+  accuracy?: unknown;
+}): GpsCoordinates | undefined | null => {
+  const { latitude, longitude, accuracy } = body;
+
+  if ((latitude === undefined || latitude === null) && (longitude === undefined || longitude === null)) {
+    return undefined;
+  }
+
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  const acc = accuracy !== undefined && accuracy !== null ? Number(accuracy) : undefined;
+
+  if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+    return null;
+  }
+
+  if (acc !== undefined && (isNaN(acc) || acc < 0)) {
+    return null;
+  }
+
+  return { latitude: lat, longitude: lng, ...(acc !== undefined ? { accuracy: acc } : {}) };
+};
+
+/**
+ * Geofence radius in meters when the project does not set one
+ */
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 300;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Great-circle (haversine) distance between two points in meters
+ */
+export const getDistanceMeters = (
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Check a punch's coordinates against the project site. Distance and the
+ * geofence flag stay null when there are no device coordinates or the
+ * project has no site coordinates.
+ */
+const checkGeofence = async (projectId: string | null | undefined, gps?: GpsCoordinates) => {
+  if (!gps || !projectId) {
+    return { distance: null, outsideGeofence: null };
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { latitude: true, longitude: true, geofence_radius: true },
+  });
+
+  if (!project || project.latitude === null || project.longitude === null) {
+    return { distance: null, outsideGeofence: null };
+  }
+
+  const distance = Math.round(
+    getDistanceMeters(gps, { latitude: project.latitude, longitude: project.longitude })
+  );
+  const radius = project.geofence_radius ?? DEFAULT_GEOFENCE_RADIUS_METERS;
+
+  return { distance, outsideGeofence: distance > radius };
+};
+
+const breaksInclude = {
+  orderBy: { start_time: 'asc' as const },
+};
+
+/**
+ * Minutes of break time inside a window; breaks still in progress run to the
+ * end of the window. Pass unpaidOnly to get the time deducted from hours.
+ */
+export const getBreakMinutes = (
+  breaks: BreakSegment[],
+  from: Date,
+  to: Date,
+  unpaidOnly: boolean = true
+): number => {
+  const total = breaks
+    .filter((segment) => !unpaidOnly || !segment.is_paid)
+    .reduce((sum, segment) => {
+      const start = Math.max(segment.start_time.getTime(), from.getTime());
+      const end = Math.min((segment.end_time ?? to).getTime(), to.getTime());
+      return end > start ? sum + (end - start) : sum;
+    }, 0);
+
+  return Math.round(total / MS_PER_MINUTE);
+};
+
+/**
+ * Check a completed sign-in for a compliant meal period: shifts over
+ * MEAL_PERIOD_REQUIRED_AFTER_HOURS of work need an unpaid meal break of at
+ * least MIN_MEAL_PERIOD_MINUTES that starts before the end of that hour.
+ * Returns null when the sign-in is compliant, still open or too short to need one.
+ */
+export const checkMealPeriod = (signIn: {
+  sign_in_time: Date;
+  sign_out_time: Date | null;
+  breaks: BreakSegment[];
+}): { type: MealPeriodExceptionType; message: string } | null => {
+  if (!signIn.sign_out_time) return null;
+
+  const shiftMinutes = (signIn.sign_out_time.getTime() - signIn.sign_in_time.getTime()) / MS_PER_MINUTE;
+  const workedMinutes = shiftMinutes - getBreakMinutes(signIn.breaks, signIn.sign_in_time, signIn.sign_out_time);
+  const requiredAfterMinutes = MEAL_PERIOD_REQUIRED_AFTER_HOURS * 60;
+
+  if (workedMinutes <= requiredAfterMinutes) return null;
+
+  const meals = signIn.breaks.filter(
+    (segment) => segment.break_type === 'MEAL' && !segment.is_paid && segment.end_time
+  );
+  const fullMeals = meals.filter(
+    (segment) => (segment.end_time!.getTime() - segment.start_time.getTime()) / MS_PER_MINUTE >= MIN_MEAL_PERIOD_MINUTES
+  );
+
+  if (fullMeals.length === 0) {
+    return meals.length > 0
+      ? {
+          type: 'SHORT_MEAL',
+          message: `Meal period shorter than ${MIN_MEAL_PERIOD_MINUTES} minutes`,
+        }
+      : {
+          type: 'MISSED_MEAL',
+          message: `No meal period on a shift over ${MEAL_PERIOD_REQUIRED_AFTER_HOURS} hours`,
+        };
+  }
+
+  const firstMealStart = fullMeals[0]!.start_time.getTime();
+  if (firstMealStart - signIn.sign_in_time.getTime() > requiredAfterMinutes * MS_PER_MINUTE) {
+    return {
+      type: 'LATE_MEAL',
+      message: `Meal period started after the ${MEAL_PERIOD_REQUIRED_AFTER_HOURS}th hour of work`,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Transform a break segment for the frontend
+ */
+function transformBreakData(segment: SignInBreak) {
+  return {
+    id: segment.id,
+    signInId: segment.sign_in_id,
+    breakType: segment.break_type,
+    isPaid: segment.is_paid,
+    startTime: segment.start_time,
+    endTime: segment.end_time,
+    notes: segment.notes,
+  };
+}
+
 /**
  * Transform snake_case Prisma response to camelCase for frontend
  */
@@ -46,6 +259,21 @@ function transformSignInData(signIn: any): any {
       projectNumber: signIn.project.project_number,
     } : undefined,
     notes: signIn.notes,
+    breaks: signIn.breaks ? signIn.breaks.map(transformBreakData) : undefined,
+    unpaidBreakMinutes: signIn.breaks
+      ? getBreakMinutes(signIn.breaks, signIn.sign_in_time, signIn.sign_out_time ?? new Date())
+      : undefined,
+    mealPeriodException: signIn.breaks ? checkMealPeriod(signIn) : undefined,
+    signInLatitude: signIn.sign_in_latitude,
+    signInLongitude: signIn.sign_in_longitude,
+    signInAccuracy: signIn.sign_in_accuracy,
+    signInDistance: signIn.sign_in_distance,
+    signInOutsideGeofence: signIn.sign_in_outside_geofence,
+    signOutLatitude: signIn.sign_out_latitude,
+    signOutLongitude: signIn.sign_out_longitude,
+    signOutAccuracy: signIn.sign_out_accuracy,
+    signOutDistance: signIn.sign_out_distance,
+    signOutOutsideGeofence: signIn.sign_out_outside_geofence,
     signedInBy: signIn.signed_in_by,
     signedInByUser: signIn.signed_in_by_user ? {
       id: signIn.signed_in_by_user.id,
@@ -83,6 +311,7 @@ export const getSignInsForDate = async (date: Date, filters?: SignInFilters) =>
     const signIns = await prisma.dailySignIn.findMany({
       where,
       include: {
+        breaks: breaksInclude,
         employee: {
           select: {
             id: true,
@@ -136,12 +365,19 @@ export const getTodaySignIns = async () => {
 
 /**
  * Sign an employee in
- * Prevents duplicate sign-ins for same employee/date
+ * Prevents duplicate sign-ins for same employee/date. Pass a transaction
+ * client to sign in as part of a larger write.
  */
-export const signIn = async (data: SignInData, signedInBy: string) => {
+export const signIn = async (
+  data: SignInData,
+  signedInBy: string,
+  db: Prisma.TransactionClient = prisma
+) => {
   try {
+    await assertPayrollPeriodOpen(data.date);
+
     // Check if employee has an ACTIVE sign-in (not signed out yet)
-    const activeSignIn = await prisma.dailySignIn.findFirst({
+    const activeSignIn = await db.dailySignIn.findFirst({
       where: {
         employee_id: data.employeeId,
         date: data.date,
@@ -153,7 +389,9 @@ export const signIn = async (data: SignInData, signedInBy: string) => {
       throw new Error('Employee is already signed in and has not signed out yet');
     }
 
-    const signIn = await prisma.dailySignIn.create({
+    const geofence = await checkGeofence(data.projectId, data.gps);
+
+    const signIn = await db.dailySignIn.create({
       data: {
         employee_id: data.employeeId,
         date: data.date,
@@ -162,8 +400,14 @@ export const signIn = async (data: SignInData, signedInBy: string) => {
         project_id: data.projectId,
         notes: data.notes,
         signed_in_by: signedInBy,
+        sign_in_latitude: data.gps?.latitude ?? null,
+        sign_in_longitude: data.gps?.longitude ?? null,
+        sign_in_accuracy: data.gps?.accuracy ?? null,
+        sign_in_distance: geofence.distance,
+        sign_in_outside_geofence: geofence.outsideGeofence,
       },
       include: {
+        breaks: breaksInclude,
         employee: {
           select: {
             id: true,
@@ -194,6 +438,7 @@ export const signIn = async (data: SignInData, signedInBy: string) => {
       employeeId: data.employeeId,
       date: data.date,
       signedInBy,
+      outsideGeofence: geofence.outsideGeofence,
     });
 
     return transformSignInData(signIn);
@@ -209,7 +454,8 @@ export const signIn = async (data: SignInData, signedInBy: string) => {
 export const signOut = async (
   signInId: string,
   signOutTime: Date,
-  signedOutBy: string
+  signedOutBy: string,
+  gps?: GpsCoordinates
 ) => {
   try {
     const signIn = await prisma.dailySignIn.findUnique({
@@ -224,13 +470,29 @@ export const signOut = async (
       throw new Error('Employee is already signed out');
     }
 
+    await assertPayrollPeriodOpen(signIn.date);
+
+    const geofence = await checkGeofence(signIn.project_id, gps);
+
+    // A break still in progress ends when the employee signs out
+    await prisma.signInBreak.updateMany({
+      where: { sign_in_id: signInId, end_time: null },
+      data: { end_time: signOutTime, updated_by: signedOutBy },
+    });
+
     const updatedSignIn = await prisma.dailySignIn.update({
       where: { id: signInId },
       data: {
         sign_out_time: signOutTime,
         signed_out_by: signedOutBy,
+        sign_out_latitude: gps?.latitude ?? null,
+        sign_out_longitude: gps?.longitude ?? null,
+        sign_out_accuracy: gps?.accuracy ?? null,
+        sign_out_distance: geofence.distance,
+        sign_out_outside_geofence: geofence.outsideGeofence,
       },
       include: {
+        breaks: breaksInclude,
         employee: {
           select: {
             id: true,
@@ -267,6 +529,7 @@ export const signOut = async (
       signInId,
       employeeId: signIn.employee_id,
       signedOutBy,
+      outsideGeofence: geofence.outsideGeofence,
     });
 
     return transformSignInData(updatedSignIn);
@@ -285,9 +548,12 @@ export const bulkSignIn = async (
   signInTime: Date,
   signedInBy: string,
   location?: string,
-  projectId?: string
+  projectId?: string,
+  gps?: GpsCoordinates
 ) => {
   try {
+    await assertPayrollPeriodOpen(date);
+
     // Check for ACTIVE sign-ins only (not signed out yet)
     const activeSignIns = await prisma.dailySignIn.findMany({
       where: {
@@ -309,6 +575,9 @@ export const bulkSignIn = async (
       throw new Error('All selected employees are already signed in and have not signed out yet');
     }
 
+    // The crew is signed in from the foreman's device, so its GPS applies to everyone
+    const geofence = await checkGeofence(projectId, gps);
+
     // Create sign-ins for employees who can sign in
     const signInData = canSignInIds.map((employeeId) => ({
       employee_id: employeeId,
@@ -317,6 +586,11 @@ export const bulkSignIn = async (
       location: location,
       project_id: projectId,
       signed_in_by: signedInBy,
+      sign_in_latitude: gps?.latitude ?? null,
+      sign_in_longitude: gps?.longitude ?? null,
+      sign_in_accuracy: gps?.accuracy ?? null,
+      sign_in_distance: geofence.distance,
+      sign_in_outside_geofence: geofence.outsideGeofence,
     }));
 
     await prisma.dailySignIn.createMany({
@@ -331,6 +605,7 @@ export const bulkSignIn = async (
         sign_in_time: signInTime, // Use exact timestamp to get only the newly created ones
       },
       include: {
+        breaks: breaksInclude,
         employee: {
           select: {
             id: true,
@@ -390,6 +665,7 @@ export const getEmployeeSignInHistory = async (
         },
       },
       include: {
+        breaks: breaksInclude,
         project: {
           select: {
             id: true,
@@ -464,6 +740,7 @@ export const getActiveSignIns = async () => {
         sign_out_time: null,
       },
       include: {
+        breaks: breaksInclude,
         employee: {
           select: {
             id: true,
@@ -499,3 +776,154 @@ export const getActiveSignIns = async () => {
   }
 };
 
+
+/**
+ * Load a sign-in and its breaks, and check a break window fits inside it
+ * without overlapping another break
+ */
+const assertBreakWindow = async (
+  signInId: string,
+  startTime: Date,
+  endTime: Date | null,
+  excludeBreakId?: string
+) => {
+  const signIn = await prisma.dailySignIn.findUnique({
+    where: { id: signInId },
+    include: { breaks: true },
+  });
+
+  if (!signIn) {
+    throw new Error('Sign-in record not found');
+  }
+
+  await assertPayrollPeriodOpen(signIn.date);
+
+  if (startTime < signIn.sign_in_time || (signIn.sign_out_time && startTime >= signIn.sign_out_time)) {
+    throw new Error('Break must start during the sign-in');
+  }
+
+  if (endTime) {
+    if (endTime <= startTime) {
+      throw new Error('Break end time must be after its start time');
+    }
+    if (signIn.sign_out_time && endTime > signIn.sign_out_time) {
+      throw new Error('Break must end by the sign-out time');
+    }
+  }
+
+  const others = signIn.breaks.filter((segment) => segment.id !== excludeBreakId);
+
+  if (!endTime && others.some((segment) => !segment.end_time)) {
+    throw new Error('Employee is already on a break');
+  }
+
+  // Open-ended breaks run indefinitely for the overlap check
+  const overlaps = others.some(
+    (segment) =>
+      (!segment.end_time || segment.end_time > startTime) && (!endTime || segment.start_time < endTime)
+  );
+
+  if (overlaps) {
+    throw new Error('Break overlaps another break on this sign-in');
+  }
+
+  return signIn;
+};
+
+/**
+ * Record a break on a sign-in. Without an end time the break is in progress
+ * until endBreak (or sign-out) closes it.
+ */
+export const startBreak = async (signInId: string, data: BreakData, userId: string) => {
+  try {
+    if (!BREAK_TYPES.includes(data.breakType)) {
+      throw new Error(`Break type must be one of: ${BREAK_TYPES.join(', ')}`);
+    }
+
+    await assertBreakWindow(signInId, data.startTime, data.endTime ?? null);
+
+    const segment = await prisma.signInBreak.create({
+      data: {
+        sign_in_id: signInId,
+        break_type: data.breakType,
+        is_paid: data.isPaid ?? data.breakType === 'REST',
+        start_time: data.startTime,
+        end_time: data.endTime ?? null,
+        notes: data.notes,
+        created_by: userId,
+      },
+    });
+
+    logger.info('Break recorded', { breakId: segment.id, signInId, breakType: data.breakType });
+
+    return transformBreakData(segment);
+  } catch (error) {
+    logger.error('Error recording break', { signInId, data, userId, error });
+    throw error;
+  }
+};
+
+/**
+ * End a break in progress
+ */
+export const endBreak = async (breakId: string, endTime: Date, userId: string) => {
+  try {
+    const existing = await prisma.signInBreak.findUnique({
+      where: { id: breakId },
+    });
+
+    if (!existing) {
+      throw new Error('Break not found');
+    }
+
+    if (existing.end_time) {
+      throw new Error('Break has already ended');
+    }
+
+    await assertBreakWindow(existing.sign_in_id, existing.start_time, endTime, breakId);
+
+    const segment = await prisma.signInBreak.update({
+      where: { id: breakId },
+      data: {
+        end_time: endTime,
+        updated_by: userId,
+      },
+    });
+
+    logger.info('Break ended', { breakId, signInId: existing.sign_in_id });
+
+    return transformBreakData(segment);
+  } catch (error) {
+    logger.error('Error ending break', { breakId, userId, error });
+    throw error;
+  }
+};
+
+/**
+ * Delete a break recorded in error
+ */
+export const deleteBreak = async (breakId: string) => {
+  try {
+    const existing = await prisma.signInBreak.findUnique({
+      where: { id: breakId },
+      include: { sign_in: { select: { date: true } } },
+    });
+
+    if (!existing) {
+      throw new Error('Break not found');
+    }
+
+    await assertPayrollPeriodOpen(existing.sign_in.date);
+
+    await prisma.signInBreak.delete({
+      where: { id: breakId },
+    });
+
+    logger.info('Break deleted', { breakId, signInId: existing.sign_in_id });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Error deleting break', { breakId, error });
+    throw error;
+  }
+};
@@ -0,0 +1,880 @@
+import { Prisma, TimeClockPolicy, TimeEntry } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { Decimal } from '@prisma/client/runtime/library';
+import { recordAuditLog } from './audit.service';
+import { getWorkweekStart } from './overtime.service';
+import * as signInService from './signin.service';
+import { assertWeekUnlocked } from './weekly-timesheet.service';
+import { assertPayrollPeriodOpen } from './payroll-period.service';
+import { validateProjectCostCode } from './cost-code.service';
+import { getEffectivePayRate } from './pay-rate.service';
+import { GpsCoordinates, BreakType } from './signin.service';
+
+/**
+ * Time Clock Service
+ * Self-service clock in/out for employees linked to a user account, project
+ * switching mid-day, meal and rest breaks and the employee's own week of hours. Time clock policies
+ * (company default or per classification) decide who may self-punch and
+ * whether their entries need approval.
+ */
+
+interface TimeClockPolicyData {
+  name: string;
+  classification?: string | null;
+  isDefault?: boolean;
+  selfPunchEnabled?: boolean;
+  requiresApproval?: boolean;
+  requireGps?: boolean;
+  isActive?: boolean;
+}
+
+export interface ResolvedTimeClockPolicy {
+  policyId: string | null;
+  policyName: string;
+  selfPunchEnabled: boolean;
+  requiresApproval: boolean;
+  requireGps: boolean;
+}
+
+interface PunchData {
+  projectId?: string;
+  costCodeId?: string;
+  date?: Date;
+  notes?: string;
+  gps?: GpsCoordinates;
+}
+
+/**
+ * Policy used when no company default or classification policy is configured:
+ * employees may self-punch and their entries are approved by a supervisor
+ */
+export const DEFAULT_TIME_CLOCK_POLICY: ResolvedTimeClockPolicy = {
+  policyId: null,
+  policyName: 'Standard (self-punch, supervisor approval)',
+  selfPunchEnabled: true,
+  requiresApproval: true,
+  requireGps: false,
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+// A single punch never records more than a day's hours
+const MAX_PUNCH_HOURS = 24;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0]!;
+
+const entryInclude = {
+  project: {
+    select: {
+      id: true,
+      name: true,
+      project_number: true,
+    },
+  },
+  cost_code: {
+    select: {
+      id: true,
+      code: true,
+      name: true,
+    },
+  },
+};
+
+/**
+ * Transform snake_case Prisma response to camelCase for frontend
+ */
+function transformTimeClockPolicyData(policy: TimeClockPolicy) {
+  return {
+    id: policy.id,
+    name: policy.name,
+    classification: policy.classification,
+    isDefault: policy.is_default,
+    selfPunchEnabled: policy.self_punch_enabled,
+    requiresApproval: policy.requires_approval,
+    requireGps: policy.require_gps,
+    isActive: policy.is_active,
+    createdAt: policy.created_at,
+    updatedAt: policy.updated_at,
+  };
+}
+
+type PunchEntry = TimeEntry & {
+  project?: { id: string; name: string; project_number: string } | null;
+  cost_code?: { id: string; code: string; name: string } | null;
+};
+
+/**
+ * Transform a time entry for the time clock; open self-punches report hours elapsed so far
+ */
+function transformPunchEntry(entry: PunchEntry, now: Date = new Date()) {
+  const isOpen = entry.self_punched && !entry.end_time;
+  const hoursWorked = isOpen && entry.start_time
+    ? round2(Math.min(MAX_PUNCH_HOURS, (now.getTime() - entry.start_time.getTime()) / MS_PER_HOUR))
+    : Number(entry.hours_worked);
+
+  return {
+    id: entry.id,
+    date: entry.date,
+    projectId: entry.project_id,
+    project: entry.project ? {
+      id: entry.project.id,
+      name: entry.project.name,
+      projectNumber: entry.project.project_number,
+    } : undefined,
+    costCodeId: entry.cost_code_id,
+    costCode: entry.cost_code ? {
+      id: entry.cost_code.id,
+      code: entry.cost_code.code,
+      name: entry.cost_code.name,
+    } : undefined,
+    startTime: entry.start_time,
+    endTime: entry.end_time,
+    hoursWorked,
+    isOpen,
+    selfPunched: entry.self_punched,
+    status: entry.status,
+    description: entry.description,
+  };
+}
+
+/**
+ * Load active policies and return a resolver: classification policy first,
+ * then the company default, then the built-in standard policy
+ */
+export const getTimeClockPolicyResolver = async () => {
+  try {
+    const policies = await prisma.timeClockPolicy.findMany({
+      where: { is_active: true },
+    });
+
+    const toPolicy = (policy: (typeof policies)[number]): ResolvedTimeClockPolicy => ({
+      policyId: policy.id,
+      policyName: policy.name,
+      selfPunchEnabled: policy.self_punch_enabled,
+      requiresApproval: policy.requires_approval,
+      requireGps: policy.require_gps,
+    });
+
+    const byClassification = new Map<string, ResolvedTimeClockPolicy>();
+    let companyDefault: ResolvedTimeClockPolicy = DEFAULT_TIME_CLOCK_POLICY;
+
+    policies.forEach((policy) => {
+      if (policy.classification) {
+        byClassification.set(policy.classification.toLowerCase(), toPolicy(policy));
+      } else if (policy.is_default) {
+        companyDefault = toPolicy(policy);
+      }
+    });
+
+    return (classification?: string | null): ResolvedTimeClockPolicy =>
+      (classification && byClassification.get(classification.toLowerCase())) || companyDefault;
+  } catch (error) {
+    logger.error('Error loading time clock policies', { error });
+    throw error;
+  }
+};
+
+/**
+ * Get all time clock policies
+ */
+export const getTimeClockPolicies = async () => {
+  try {
+    const policies = await prisma.timeClockPolicy.findMany({
+      orderBy: [{ is_default: 'desc' }, { classification: 'asc' }, { name: 'asc' }],
+    });
+
+    return policies.map(transformTimeClockPolicyData);
+  } catch (error) {
+    logger.error('Error fetching time clock policies', { error });
+    throw error;
+  }
+};
+
+/**
+ * Create a time clock policy
+ */
+export const createTimeClockPolicy = async (data: TimeClockPolicyData, createdBy: string) => {
+  try {
+    if (data.isDefault && data.classification) {
+      throw new Error('A company default policy cannot be limited to a classification');
+    }
+
+    if (data.classification) {
+      const existing = await prisma.timeClockPolicy.findUnique({
+        where: { classification: data.classification },
+      });
+      if (existing) {
+        throw new Error(`A time clock policy for ${data.classification} already exists`);
+      }
+    }
+
+    const policy = await prisma.$transaction(async (tx) => {
+      // Only one company default at a time
+      if (data.isDefault) {
+        await tx.timeClockPolicy.updateMany({
+          where: { is_default: true },
+          data: { is_default: false, updated_by: createdBy },
+        });
+      }
+
+      return tx.timeClockPolicy.create({
+        data: {
+          name: data.name,
+          classification: data.classification || null,
+          is_default: data.isDefault || false,
+          self_punch_enabled: data.selfPunchEnabled ?? true,
+          requires_approval: data.requiresApproval ?? true,
+          require_gps: data.requireGps || false,
+          is_active: data.isActive ?? true,
+          created_by: createdBy,
+          updated_by: createdBy,
+        },
+      });
+    });
+
+    logger.info('Time clock policy created', { policyId: policy.id, createdBy });
+
+    return transformTimeClockPolicyData(policy);
+  } catch (error) {
+    logger.error('Error creating time clock policy', { data, createdBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Update a time clock policy
+ */
+export const updateTimeClockPolicy = async (
+  id: string,
+  data: Partial<TimeClockPolicyData>,
+  updatedBy: string
+) => {
+  try {
+    const existing = await prisma.timeClockPolicy.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Time clock policy not found');
+    }
+
+    const classification = data.classification !== undefined ? data.classification : existing.classification;
+    if ((data.isDefault ?? existing.is_default) && classification) {
+      throw new Error('A company default policy cannot be limited to a classification');
+    }
+
+    if (data.classification && data.classification !== existing.classification) {
+      const duplicate = await prisma.timeClockPolicy.findUnique({
+        where: { classification: data.classification },
+      });
+      if (duplicate) {
+        throw new Error(`A time clock policy for ${data.classification} already exists`);
+      }
+    }
+
+    const updateData: Prisma.TimeClockPolicyUpdateInput = {
+      updated_by: updatedBy,
+    };
+
+    if (data.name !== undefined) updateData.name = data.name;
+    if (data.classification !== undefined) updateData.classification = data.classification || null;
+    if (data.isDefault !== undefined) updateData.is_default = data.isDefault;
+    if (data.selfPunchEnabled !== undefined) updateData.self_punch_enabled = data.selfPunchEnabled;
+    if (data.requiresApproval !== undefined) updateData.requires_approval = data.requiresApproval;
+    if (data.requireGps !== undefined) updateData.require_gps = data.requireGps;
+    if (data.isActive !== undefined) updateData.is_active = data.isActive;
+
+    const policy = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.timeClockPolicy.updateMany({
+          where: { is_default: true, id: { not: id } },
+          data: { is_default: false, updated_by: updatedBy },
+        });
+      }
+
+      return tx.timeClockPolicy.update({
+        where: { id },
+        data: updateData,
+      });
+    });
+
+    logger.info('Time clock policy updated', { policyId: id, updatedBy });
+
+    return transformTimeClockPolicyData(policy);
+  } catch (error) {
+    logger.error('Error updating time clock policy', { id, data, updatedBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Delete a time clock policy
+ */
+export const deleteTimeClockPolicy = async (id: string) => {
+  try {
+    const existing = await prisma.timeClockPolicy.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Time clock policy not found');
+    }
+
+    await prisma.timeClockPolicy.delete({
+      where: { id },
+    });
+
+    logger.info('Time clock policy deleted', { policyId: id });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Error deleting time clock policy', { id, error });
+    throw error;
+  }
+};
+
+/**
+ * Find the active employee record linked to a user account, with its time clock policy
+ */
+const getLinkedEmployee = async (userId: string) => {
+  const employee = await prisma.employee.findFirst({
+    where: { user_id: userId, is_active: true, deleted_at: null },
+    select: { id: true, first_name: true, last_name: true, classification: true, hourly_rate: true },
+  });
+
+  if (!employee) {
+    throw new Error('No active employee record is linked to your user account');
+  }
+
+  const resolvePolicy = await getTimeClockPolicyResolver();
+  return { employee, policy: resolvePolicy(employee.classification) };
+};
+
+/**
+ * Ensure the policy allows this self-punch
+ */
+const assertCanPunch = (policy: ResolvedTimeClockPolicy, gps?: GpsCoordinates) => {
+  if (!policy.selfPunchEnabled) {
+    throw new Error('Self-service punches are not enabled for your classification; ask your foreman to sign you in');
+  }
+
+  if (policy.requireGps && !gps) {
+    throw new Error('Device location is required to punch; allow location access and try again');
+  }
+};
+
+/**
+ * The employee's open self-punched entry, if any
+ */
+const findOpenEntry = (employeeId: string) =>
+  prisma.timeEntry.findFirst({
+    where: { employee_id: employeeId, self_punched: true, end_time: null },
+    include: entryInclude,
+    orderBy: { start_time: 'desc' },
+  });
+
+/**
+ * The employee's active sign-in (not signed out yet), if any
+ */
+const findActiveSignIn = (employeeId: string) =>
+  prisma.dailySignIn.findFirst({
+    where: { employee_id: employeeId, sign_out_time: null },
+    orderBy: { sign_in_time: 'desc' },
+  });
+
+/**
+ * Ensure a project exists and is not deleted
+ */
+const assertProject = async (projectId?: string) => {
+  if (!projectId) {
+    throw new Error('projectId is required');
+  }
+
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, deleted_at: null },
+    select: { id: true },
+  });
+
+  if (!project) {
+    throw new Error('Project not found');
+  }
+};
+
+type OpenPunch = {
+  id: string;
+  employee_id: string;
+  date: Date;
+  start_time: Date | null;
+  hourly_rate: Decimal | null;
+  sign_in_id: string | null;
+};
+
+/**
+ * Close an open self-punched entry at the given time. Punches with under a
+ * minute of work are removed; otherwise hours, cost and the policy's approval
+ * status are set, with the employee as approver when the policy needs no
+ * supervisor approval. Entries in an approved (locked) week are left alone.
+ * Pass a transaction client to close it together with other punch writes, and
+ * audit the result with auditClosedEntry once they commit.
+ */
+const closeEntry = async (
+  entry: OpenPunch,
+  endTime: Date,
+  policy: ResolvedTimeClockPolicy,
+  userId: string,
+  db: Prisma.TransactionClient = prisma
+) => {
+  await assertWeekUnlocked(entry.employee_id, entry.date);
+
+  const startTime = entry.start_time ?? endTime;
+
+  // Unpaid breaks taken while on this project come off the entry
+  const breaks = entry.sign_in_id
+    ? await db.signInBreak.findMany({ where: { sign_in_id: entry.sign_in_id } })
+    : [];
+  const breakMinutes = signInService.getBreakMinutes(breaks, startTime, endTime);
+
+  const workedHours = (endTime.getTime() - startTime.getTime()) / MS_PER_HOUR - breakMinutes / 60;
+
+  if (workedHours < 1 / 60) {
+    await db.timeEntry.delete({ where: { id: entry.id } });
+    return null;
+  }
+
+  const hours = round2(Math.min(MAX_PUNCH_HOURS, workedHours));
+
+  return db.timeEntry.update({
+    where: { id: entry.id },
+    data: {
+      end_time: endTime,
+      hours_worked: new Decimal(hours),
+      break_minutes: breakMinutes,
+      total_cost: entry.hourly_rate ? new Decimal(round2(hours * Number(entry.hourly_rate))) : null,
+      status: policy.requiresApproval ? 'PENDING' : 'APPROVED',
+      approved_by: policy.requiresApproval ? null : userId,
+      approved_at: policy.requiresApproval ? null : endTime,
+      updated_by: userId,
+    },
+    include: entryInclude,
+  });
+};
+
+/**
+ * Audit a self-punch closed by closeEntry (null when it was removed as under a minute)
+ */
+const auditClosedEntry = async (
+  entry: OpenPunch,
+  closed: PunchEntry | null,
+  policy: ResolvedTimeClockPolicy,
+  userId: string,
+  reason?: string
+) => {
+  if (!closed) {
+    await recordAuditLog({
+      actorId: userId,
+      action: 'DELETE_SELF_PUNCH',
+      entityType: 'TIME_ENTRY',
+      entityId: entry.id,
+      before: entry,
+      after: { reason: 'Punch shorter than a minute', policy: policy.policyName },
+    });
+    return;
+  }
+
+  await recordAuditLog({
+    actorId: userId,
+    action: 'CLOSE_SELF_PUNCH',
+    entityType: 'TIME_ENTRY',
+    entityId: closed.id,
+    after: {
+      hoursWorked: Number(closed.hours_worked),
+      breakMinutes: closed.break_minutes,
+      status: closed.status,
+      policy: policy.policyName,
+      ...(reason ? { reason } : {}),
+    },
+  });
+};
+
+/**
+ * Close self-punches left open on an earlier day (a forgotten clock-out) so they
+ * do not hold up weekly approval. Hours are capped at MAX_PUNCH_HOURS and the
+ * entry is left pending for a supervisor to correct, whatever the policy.
+ */
+const closeStaleEntries = async (
+  employeeId: string,
+  date: Date,
+  now: Date,
+  policy: ResolvedTimeClockPolicy,
+  userId: string
+) => {
+  const stale = await prisma.timeEntry.findMany({
+    where: { employee_id: employeeId, self_punched: true, end_time: null, date: { lt: date } },
+  });
+  const reviewPolicy = { ...policy, requiresApproval: true };
+
+  for (const entry of stale) {
+    const startTime = entry.start_time ?? now;
+    const endTime = new Date(Math.min(now.getTime(), startTime.getTime() + MAX_PUNCH_HOURS * MS_PER_HOUR));
+
+    try {
+      const closed = await closeEntry(entry, endTime, reviewPolicy, userId);
+      await auditClosedEntry(
+        entry,
+        closed,
+        reviewPolicy,
+        userId,
+        'Left open on an earlier day; closed at the next clock-in for supervisor review'
+      );
+    } catch (error) {
+      // A stale punch in a locked week must not stop the employee clocking in today
+      logger.warn('Could not close stale self-punch', { timeEntryId: entry.id, error });
+    }
+  }
+};
+
+/**
+ * Open a self-punched entry on a project and cost code, starting now, at the
+ * wage in effect on the work date (or the employee's current rate). Pass a
+ * transaction client to open it together with the sign-in.
+ */
+const openEntry = async (
+  employee: { id: string; hourly_rate: Decimal | null },
+  projectId: string,
+  costCodeId: string,
+  date: Date,
+  startTime: Date,
+  signInId: string,
+  userId: string,
+  notes?: string,
+  db: Prisma.TransactionClient = prisma
+) => {
+  const payRate = await getEffectivePayRate(employee.id, date);
+
+  return db.timeEntry.create({
+    data: {
+      employee_id: employee.id,
+      date,
+      project_id: projectId,
+      cost_code_id: costCodeId,
+      hours_worked: new Decimal(0),
+      work_type: 'Regular',
+      description: notes,
+      hourly_rate: payRate?.hourly_rate ?? employee.hourly_rate,
+      start_time: startTime,
+      sign_in_id: signInId,
+      self_punched: true,
+      status: 'PENDING',
+      created_by: userId,
+    },
+    include: entryInclude,
+  });
+};
+
+/**
+ * Current time clock status for the signed-in user's employee record
+ */
+export const getClockStatus = async (userId: string) => {
+  try {
+    const { employee, policy } = await getLinkedEmployee(userId);
+    const now = new Date();
+
+    const [activeSignIn, openTimeEntry] = await Promise.all([
+      findActiveSignIn(employee.id),
+      findOpenEntry(employee.id),
+    ]);
+
+    const activeBreak = activeSignIn
+      ? await prisma.signInBreak.findFirst({ where: { sign_in_id: activeSignIn.id, end_time: null } })
+      : null;
+
+    return {
+      employee: {
+        id: employee.id,
+        firstName: employee.first_name,
+        lastName: employee.last_name,
+        classification: employee.classification,
+      },
+      policy,
+      clockedIn: !!activeSignIn,
+      signInId: activeSignIn?.id ?? null,
+      signInTime: activeSignIn?.sign_in_time ?? null,
+      openEntry: openTimeEntry ? transformPunchEntry(openTimeEntry, now) : null,
+      activeBreak: activeBreak
+        ? {
+            id: activeBreak.id,
+            breakType: activeBreak.break_type,
+            isPaid: activeBreak.is_paid,
+            startTime: activeBreak.start_time,
+          }
+        : null,
+    };
+  } catch (error) {
+    logger.error('Error getting time clock status', { userId, error });
+    throw error;
+  }
+};
+
+/**
+ * Clock in: sign the employee in (with device GPS for the geofence check)
+ * and open a time entry on the chosen project
+ */
+export const clockIn = async (userId: string, data: PunchData) => {
+  try {
+    const { employee, policy } = await getLinkedEmployee(userId);
+    assertCanPunch(policy, data.gps);
+    await assertProject(data.projectId);
+    await validateProjectCostCode(data.projectId!, data.costCodeId);
+
+    const now = new Date();
+    const date = data.date ?? new Date(toDateKey(now));
+    await assertWeekUnlocked(employee.id, date);
+    await closeStaleEntries(employee.id, date, now, policy, userId);
+
+    // Sign in and open the entry together so a failed entry never leaves the employee signed in
+    const { signIn, entry } = await prisma.$transaction(async (tx) => {
+      const signIn = await signInService.signIn(
+        {
+          employeeId: employee.id,
+          date,
+          signInTime: now,
+          projectId: data.projectId,
+          notes: data.notes,
+          gps: data.gps,
+        },
+        userId,
+        tx
+      );
+
+      const entry = await openEntry(
+        employee,
+        data.projectId!,
+        data.costCodeId!,
+        date,
+        now,
+        signIn.id,
+        userId,
+        data.notes,
+        tx
+      );
+
+      return { signIn, entry };
+    });
+
+    logger.info('Employee clocked in', { employeeId: employee.id, signInId: signIn.id, projectId: data.projectId });
+
+    return {
+      signIn,
+      openEntry: transformPunchEntry(entry, now),
+    };
+  } catch (error) {
+    logger.error('Error clocking in', { userId, data, error });
+    throw error;
+  }
+};
+
+/**
+ * Switch projects or cost codes mid-day: close the open entry now and open one
+ * on the new project/cost code
+ */
+export const switchProject = async (userId: string, data: PunchData) => {
+  try {
+    const { employee, policy } = await getLinkedEmployee(userId);
+    assertCanPunch(policy, data.gps);
+    await assertProject(data.projectId);
+    await validateProjectCostCode(data.projectId!, data.costCodeId);
+
+    const activeSignIn = await findActiveSignIn(employee.id);
+    if (!activeSignIn) {
+      throw new Error('You are not clocked in');
+    }
+
+    const current = await findOpenEntry(employee.id);
+    if (current?.project_id === data.projectId && current?.cost_code_id === data.costCodeId) {
+      throw new Error('You are already clocked in on this project and cost code');
+    }
+
+    await assertPayrollPeriodOpen(activeSignIn.date);
+    await assertWeekUnlocked(employee.id, activeSignIn.date);
+
+    const now = new Date();
+
+    // Close and open together so a failed open never leaves the employee with no open entry
+    const { closed, entry } = await prisma.$transaction(async (tx) => {
+      const closed = current ? await closeEntry(current, now, policy, userId, tx) : null;
+      const entry = await openEntry(
+        employee,
+        data.projectId!,
+        data.costCodeId!,
+        activeSignIn.date,
+        now,
+        activeSignIn.id,
+        userId,
+        data.notes,
+        tx
+      );
+
+      return { closed, entry };
+    });
+
+    if (current) {
+      await auditClosedEntry(current, closed, policy, userId);
+    }
+
+    logger.info('Employee switched projects', {
+      employeeId: employee.id,
+      fromProjectId: current?.project_id,
+      toProjectId: data.projectId,
+      toCostCodeId: data.costCodeId,
+    });
+
+    return {
+      closedEntry: closed ? transformPunchEntry(closed, now) : null,
+      openEntry: transformPunchEntry(entry, now),
+    };
+  } catch (error) {
+    logger.error('Error switching projects', { userId, data, error });
+    throw error;
+  }
+};
+
+/**
+ * Clock out: close the open entry and sign the employee out
+ */
+export const clockOut = async (userId: string, data: PunchData) => {
+  try {
+    const { employee, policy } = await getLinkedEmployee(userId);
+    assertCanPunch(policy, data.gps);
+
+    const activeSignIn = await findActiveSignIn(employee.id);
+    if (!activeSignIn) {
+      throw new Error('You are not clocked in');
+    }
+
+    await assertPayrollPeriodOpen(activeSignIn.date);
+    await assertWeekUnlocked(employee.id, activeSignIn.date);
+
+    const now = new Date();
+    const current = await findOpenEntry(employee.id);
+    const closed = current ? await closeEntry(current, now, policy, userId) : null;
+    if (current) {
+      await auditClosedEntry(current, closed, policy, userId);
+    }
+    const signIn = await signInService.signOut(activeSignIn.id, now, userId, data.gps);
+
+    logger.info('Employee clocked out', { employeeId: employee.id, signInId: activeSignIn.id });
+
+    return {
+      signIn,
+      closedEntry: closed ? transformPunchEntry(closed, now) : null,
+    };
+  } catch (error) {
+    logger.error('Error clocking out', { userId, data, error });
+    throw error;
+  }
+};
+
+/**
+ * Start a meal or rest break on the employee's active sign-in
+ */
+export const startBreak = async (userId: string, breakType: BreakType, gps?: GpsCoordinates) => {
+  try {
+    const { employee, policy } = await getLinkedEmployee(userId);
+    assertCanPunch(policy, gps);
+
+    const activeSignIn = await findActiveSignIn(employee.id);
+    if (!activeSignIn) {
+      throw new Error('You are not clocked in');
+    }
+
+    const segment = await signInService.startBreak(activeSignIn.id, { breakType, startTime: new Date() }, userId);
+
+    logger.info('Employee started break', { employeeId: employee.id, breakId: segment.id, breakType });
+
+    return segment;
+  } catch (error) {
+    logger.error('Error starting break', { userId, breakType, error });
+    throw error;
+  }
+};
+
+/**
+ * End the employee's break in progress
+ */
+export const endBreak = async (userId: string, gps?: GpsCoordinates) => {
+  try {
+    const { employee, policy } = await getLinkedEmployee(userId);
+    assertCanPunch(policy, gps);
+
+    const activeSignIn = await findActiveSignIn(employee.id);
+    const activeBreak = activeSignIn
+      ? await prisma.signInBreak.findFirst({ where: { sign_in_id: activeSignIn.id, end_time: null } })
+      : null;
+
+    if (!activeBreak) {
+      throw new Error('You are not on a break');
+    }
+
+    const segment = await signInService.endBreak(activeBreak.id, new Date(), userId);
+
+    logger.info('Employee ended break', { employeeId: employee.id, breakId: activeBreak.id });
+
+    return segment;
+  } catch (error) {
+    logger.error('Error ending break', { userId, error });
+    throw error;
+  }
+};
+
+/**
+ * The employee's own hours for the workweek containing a date, by day
+ */
+export const getMyWeek = async (userId: string, date: Date) => {
+  try {
+    const { employee } = await getLinkedEmployee(userId);
+    const weekStart = getWorkweekStart(date);
+    const weekEnd = new Date(weekStart.getTime() + 6 * MS_PER_DAY);
+    const now = new Date();
+
+    const entries = await prisma.timeEntry.findMany({
+      where: {
+        employee_id: employee.id,
+        date: { gte: weekStart, lte: weekEnd },
+        status: { not: 'REJECTED' },
+      },
+      include: entryInclude,
+      orderBy: [{ date: 'asc' }, { start_time: 'asc' }],
+    });
+
+    const punches = entries.map((entry) => transformPunchEntry(entry, now));
+
+    const days = Array.from({ length: 7 }, (_, i) => {
+      const dateKey = toDateKey(new Date(weekStart.getTime() + i * MS_PER_DAY));
+      const dayEntries = punches.filter((p) => toDateKey(p.date) === dateKey);
+      return {
+        date: dateKey,
+        hours: round2(dayEntries.reduce((sum, p) => sum + p.hoursWorked, 0)),
+        entries: dayEntries,
+      };
+    });
+
+    const sumHours = (status?: string) =>
+      round2(punches.filter((p) => !status || p.status === status).reduce((sum, p) => sum + p.hoursWorked, 0));
+
+    return {
+      weekStart: toDateKey(weekStart),
+      weekEnd: toDateKey(weekEnd),
+      days,
+      totalHours: sumHours(),
+      approvedHours: sumHours('APPROVED'),
+      pendingHours: sumHours('PENDING'),
+    };
+  } catch (error) {
+    logger.error('Error getting employee week', { userId, date, error });
+    throw error;
+  }
+};
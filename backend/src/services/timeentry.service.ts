@@ -1,6 +1,14 @@
 import prisma from '../config/database';
 import { logger } from '../utils/logger';
 import { Decimal } from '@prisma/client/runtime/library';
+import { recordAuditLog } from './audit.service';
+import { validateOjtCategory } from './apprenticeship.service';
+import { validateProjectCostCode } from './cost-code.service';
+import { getEffectivePayRate } from './pay-rate.service';
+import { getBreakMinutes } from './signin.service';
+import { assertWeekUnlocked } from './weekly-timesheet.service';
+import { assertPayrollPeriodOpen } from './payroll-period.service';
+import { assertNotBilled } from './invoice.service';
 
 /**
  * Time Entry Service
@@ -12,6 +20,7 @@ interface TimeEntryData {
   date: Date;
   projectId: string;
   hoursWorked: number;
+  breakMinutes?: number; // Unpaid break time already deducted from hoursWorked
   workType?: string;
   description?: string;
   taskPerformed?: string;
@@ -19,6 +28,8 @@ interface TimeEntryData {
   startTime?: Date;
   endTime?: Date;
   signInId?: string;
+  ojtCategoryId?: string | null; // Apprentice OJT work category
+  costCodeId?: string | null; // Job cost phase; required and enabled on the project
 }
 
 interface TimeEntryFilters {
@@ -50,6 +61,7 @@ function transformTimeEntryData(entry: any): any {
       projectNumber: entry.project.project_number,
     } : undefined,
     hoursWorked: Number(entry.hours_worked),
+    breakMinutes: entry.break_minutes,
     workType: entry.work_type,
     description: entry.description,
     taskPerformed: entry.task_performed,
@@ -59,6 +71,13 @@ function transformTimeEntryData(entry: any): any {
     totalCost: entry.total_cost ? Number(entry.total_cost) : undefined,
     status: entry.status,
     signInId: entry.sign_in_id,
+    ojtCategoryId: entry.ojt_category_id,
+    costCodeId: entry.cost_code_id,
+    costCode: entry.cost_code ? {
+      id: entry.cost_code.id,
+      code: entry.cost_code.code,
+      name: entry.cost_code.name,
+    } : undefined,
     createdBy: entry.created_by,
     createdByUser: entry.created_by_user ? {
       id: entry.created_by_user.id,
@@ -120,6 +139,13 @@ export const getTimeEntriesForDate = async (
             project_number: true,
           },
         },
+        cost_code: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
         created_by_user: {
           select: {
             id: true,
@@ -172,6 +198,13 @@ export const getTimeEntriesForEmployee = async (
             project_number: true,
           },
         },
+        cost_code: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
         created_by_user: {
           select: {
             id: true,
@@ -267,13 +300,26 @@ export const getTimeEntriesForProject = async (
  * Create a new time entry
  * Validates hours are reasonable (0-24)
  */
-export const create = async (data: TimeEntryData, createdBy: string) => {
+export const create = async (
+  data: TimeEntryData,
+  createdBy: string,
+  ipAddress?: string
+) => {
   try {
     // Validate hours
     if (data.hoursWorked <= 0 || data.hoursWorked > 24) {
       throw new Error('Hours worked must be between 0 and 24');
     }
 
+    if (data.ojtCategoryId) {
+      await validateOjtCategory(data.employeeId, data.ojtCategoryId);
+    }
+
+    await validateProjectCostCode(data.projectId, data.costCodeId);
+
+    await assertPayrollPeriodOpen(data.date);
+    await assertWeekUnlocked(data.employeeId, data.date);
+
     // Calculate total cost if hourly rate is provided
     let totalCost = null;
     if (data.hourlyRate) {
@@ -286,6 +332,7 @@ export const create = async (data: TimeEntryData, createdBy: string) => {
         date: data.date,
         project_id: data.projectId,
         hours_worked: new Decimal(data.hoursWorked),
+        break_minutes: data.breakMinutes ?? 0,
         work_type: data.workType || 'Regular',
         description: data.description,
         task_performed: data.taskPerformed,
@@ -294,6 +341,8 @@ export const create = async (data: TimeEntryData, createdBy: string) => {
         start_time: data.startTime,
         end_time: data.endTime,
         sign_in_id: data.signInId,
+        ojt_category_id: data.ojtCategoryId || null,
+        cost_code_id: data.costCodeId,
         created_by: createdBy,
         status: 'PENDING',
       },
@@ -313,6 +362,13 @@ export const create = async (data: TimeEntryData, createdBy: string) => {
             project_number: true,
           },
         },
+        cost_code: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
         created_by_user: {
           select: {
             id: true,
@@ -323,6 +379,15 @@ export const create = async (data: TimeEntryData, createdBy: string) => {
       },
     });
 
+    await recordAuditLog({
+      actorId: createdBy,
+      action: 'CREATE_TIME_ENTRY',
+      entityType: 'TIME_ENTRY',
+      entityId: timeEntry.id,
+      after: timeEntry,
+      ipAddress,
+    });
+
     logger.info('Time entry created successfully', {
       timeEntryId: timeEntry.id,
       employeeId: data.employeeId,
@@ -344,9 +409,22 @@ export const create = async (data: TimeEntryData, createdBy: string) => {
 export const update = async (
   id: string,
   data: Partial<TimeEntryData>,
-  updatedBy: string
+  updatedBy: string,
+  ipAddress?: string
 ) => {
   try {
+    const existing = await prisma.timeEntry.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Time entry not found');
+    }
+
+    await assertPayrollPeriodOpen(existing.date);
+    await assertWeekUnlocked(existing.employee_id, existing.date);
+    await assertNotBilled([existing.invoice_id]);
+
     // Validate hours if provided
     if (data.hoursWorked !== undefined) {
       if (data.hoursWorked <= 0 || data.hoursWorked > 24) {
@@ -354,6 +432,16 @@ export const update = async (
       }
     }
 
+    if (data.ojtCategoryId) {
+      await validateOjtCategory(existing.employee_id, data.ojtCategoryId);
+    }
+
+    // Entries must keep a cost code; legacy entries pick one up on their next edit
+    await validateProjectCostCode(
+      existing.project_id,
+      data.costCodeId !== undefined ? data.costCodeId : existing.cost_code_id
+    );
+
     // Prepare update data
     const updateData: any = {
       updated_by: updatedBy,
@@ -363,12 +451,7 @@ export const update = async (
       updateData.hours_worked = new Decimal(data.hoursWorked);
 
       // Recalculate total cost if hours changed and hourly rate exists
-      const existing = await prisma.timeEntry.findUnique({
-        where: { id },
-        select: { hourly_rate: true },
-      });
-
-      if (existing?.hourly_rate) {
+      if (existing.hourly_rate) {
         updateData.total_cost = new Decimal(data.hoursWorked).mul(
           existing.hourly_rate
         );
@@ -381,6 +464,8 @@ export const update = async (
       updateData.task_performed = data.taskPerformed;
     if (data.startTime !== undefined) updateData.start_time = data.startTime;
     if (data.endTime !== undefined) updateData.end_time = data.endTime;
+    if (data.ojtCategoryId !== undefined) updateData.ojt_category_id = data.ojtCategoryId || null;
+    if (data.costCodeId !== undefined) updateData.cost_code_id = data.costCodeId;
 
     if (data.hourlyRate !== undefined) {
       updateData.hourly_rate = data.hourlyRate
@@ -388,12 +473,7 @@ export const update = async (
         : null;
 
       // Recalculate total cost if hourly rate changed
-      const existing = await prisma.timeEntry.findUnique({
-        where: { id },
-        select: { hours_worked: true },
-      });
-
-      if (existing?.hours_worked && data.hourlyRate) {
+      if (existing.hours_worked && data.hourlyRate) {
         updateData.total_cost = existing.hours_worked.mul(
           new Decimal(data.hourlyRate)
         );
@@ -419,6 +499,13 @@ export const update = async (
             project_number: true,
           },
         },
+        cost_code: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
         created_by_user: {
           select: {
             id: true,
@@ -436,6 +523,16 @@ export const update = async (
       },
     });
 
+    await recordAuditLog({
+      actorId: updatedBy,
+      action: 'UPDATE_TIME_ENTRY',
+      entityType: 'TIME_ENTRY',
+      entityId: id,
+      before: existing,
+      after: timeEntry,
+      ipAddress,
+    });
+
     logger.info('Time entry updated successfully', {
       timeEntryId: id,
       updatedBy,
@@ -451,10 +548,36 @@ export const update = async (
 /**
  * Delete a time entry (hard delete)
  */
-export const deleteTimeEntry = async (id: string) => {
+export const deleteTimeEntry = async (
+  id: string,
+  deletedBy: string,
+  ipAddress?: string
+) => {
   try {
-    await prisma.timeEntry.delete({
+    const existing = await prisma.timeEntry.findUnique({
       where: { id },
+      select: { employee_id: true, date: true, invoice_id: true },
+    });
+
+    if (!existing) {
+      throw new Error('Time entry not found');
+    }
+
+    await assertPayrollPeriodOpen(existing.date);
+    await assertWeekUnlocked(existing.employee_id, existing.date);
+    await assertNotBilled([existing.invoice_id]);
+
+    const deleted = await prisma.timeEntry.delete({
+      where: { id },
+    });
+
+    await recordAuditLog({
+      actorId: deletedBy,
+      action: 'DELETE_TIME_ENTRY',
+      entityType: 'TIME_ENTRY',
+      entityId: id,
+      before: deleted,
+      ipAddress,
     });
 
     logger.info('Time entry deleted successfully', { timeEntryId: id });
@@ -471,7 +594,8 @@ export const deleteTimeEntry = async (id: string) => {
  */
 export const bulkCreate = async (
   entries: TimeEntryData[],
-  createdBy: string
+  createdBy: string,
+  ipAddress?: string
 ) => {
   try {
     // Validate we have entries
@@ -486,6 +610,15 @@ export const bulkCreate = async (
           `Invalid hours (${entry.hoursWorked}) for employee ${entry.employeeId}`
         );
       }
+
+      if (entry.ojtCategoryId) {
+        await validateOjtCategory(entry.employeeId, entry.ojtCategoryId);
+      }
+
+      await validateProjectCostCode(entry.projectId, entry.costCodeId);
+
+      await assertPayrollPeriodOpen(entry.date);
+      await assertWeekUnlocked(entry.employeeId, entry.date);
     }
 
     // Prepare data for bulk insert
@@ -507,53 +640,71 @@ export const bulkCreate = async (
         start_time: entry.startTime,
         end_time: entry.endTime,
         sign_in_id: entry.signInId,
+        ojt_category_id: entry.ojtCategoryId || null,
+        cost_code_id: entry.costCodeId,
         created_by: createdBy,
-        status: 'PENDING',
+        status: 'PENDING' as const,
       };
     });
 
-    await prisma.timeEntry.createMany({
-      data: timeEntryData,
-    });
-
-    // Fetch the created entries
-    const employeeIds = entries.map((e) => e.employeeId);
-    const date = entries[0]!.date; // Safe to access after length check above (non-null assertion)
-
-    const createdEntries = await prisma.timeEntry.findMany({
-      where: {
-        employee_id: { in: employeeIds },
-        date: date,
-        created_by: createdBy,
-      },
-      include: {
-        employee: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true,
-            classification: true,
-          },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
-            project_number: true,
-          },
-        },
-        created_by_user: {
-          select: {
-            id: true,
-            first_name: true,
-            last_name: true,
+    // Create each row in one transaction so exactly the inserted entries are returned and audited
+    const createdEntries = await prisma.$transaction(
+      timeEntryData.map((data) =>
+        prisma.timeEntry.create({
+          data,
+          include: {
+            employee: {
+              select: {
+                id: true,
+                first_name: true,
+                last_name: true,
+                classification: true,
+              },
+            },
+            project: {
+              select: {
+                id: true,
+                name: true,
+                project_number: true,
+              },
+            },
+            cost_code: {
+              select: {
+                id: true,
+                code: true,
+                name: true,
+              },
+            },
+            created_by_user: {
+              select: {
+                id: true,
+                first_name: true,
+                last_name: true,
+              },
+            },
           },
+        })
+      )
+    );
+
+    for (const entry of createdEntries) {
+      await recordAuditLog({
+        actorId: createdBy,
+        action: 'CREATE_TIME_ENTRY',
+        entityType: 'TIME_ENTRY',
+        entityId: entry.id,
+        after: {
+          employee_id: entry.employee_id,
+          project_id: entry.project_id,
+          date: entry.date,
+          hours_worked: entry.hours_worked,
+          work_type: entry.work_type,
+          hourly_rate: entry.hourly_rate,
+          total_cost: entry.total_cost,
         },
-      },
-      orderBy: {
-        created_at: 'desc',
-      },
-    });
+        ipAddress,
+      });
+    }
 
     logger.info('Bulk time entries created successfully', {
       count: entries.length,
@@ -595,11 +746,13 @@ export const calculateDayTotal = async (employeeId: string, date: Date) => {
 };
 
 /**
- * Automatically create time entry from sign-in/sign-out times
+ * Automatically create time entry from sign-in/sign-out times,
+ * deducting unpaid meal breaks taken during the sign-in
  */
 export const autoCreateFromSignIn = async (
   signInId: string,
   projectId: string,
+  costCodeId: string,
   createdBy: string
 ) => {
   try {
@@ -612,6 +765,7 @@ export const autoCreateFromSignIn = async (
             hourly_rate: true,
           },
         },
+        breaks: true,
       },
     });
 
@@ -623,27 +777,32 @@ export const autoCreateFromSignIn = async (
       throw new Error('Employee has not signed out yet');
     }
 
-    // Calculate hours worked
+    // Calculate hours worked, less unpaid breaks
     const signInTime = new Date(signIn.sign_in_time);
     const signOutTime = new Date(signIn.sign_out_time);
-    const milliseconds = signOutTime.getTime() - signInTime.getTime();
+    const breakMinutes = getBreakMinutes(signIn.breaks, signInTime, signOutTime);
+    const milliseconds = signOutTime.getTime() - signInTime.getTime() - breakMinutes * 60 * 1000;
     const hoursWorked = milliseconds / (1000 * 60 * 60);
 
     // Round to 2 decimal places
     const roundedHours = Math.round(hoursWorked * 100) / 100;
 
+    // Wage in effect on the work date, falling back to the employee's current rate
+    const payRate = await getEffectivePayRate(signIn.employee_id, signIn.date);
+    const hourlyRate = payRate?.hourly_rate ?? signIn.employee.hourly_rate;
+
     // Create time entry
     const timeEntryData: TimeEntryData = {
       employeeId: signIn.employee_id,
       date: signIn.date,
       projectId: projectId,
+      costCodeId,
       hoursWorked: roundedHours,
+      breakMinutes,
       startTime: signIn.sign_in_time,
       endTime: signIn.sign_out_time,
       signInId: signInId,
-      hourlyRate: signIn.employee.hourly_rate
-        ? Number(signIn.employee.hourly_rate)
-        : undefined,
+      hourlyRate: hourlyRate ? Number(hourlyRate) : undefined,
     };
 
     const timeEntry = await create(timeEntryData, createdBy);
@@ -652,13 +811,15 @@ export const autoCreateFromSignIn = async (
       signInId,
       timeEntryId: timeEntry.id,
       hoursWorked: roundedHours,
+      breakMinutes,
     });
 
-    return transformTimeEntryData(timeEntry);
+    return timeEntry;
   } catch (error) {
     logger.error('Error auto-creating time entry from sign-in', {
       signInId,
       projectId,
+      costCodeId,
       createdBy,
       error,
     });
@@ -669,8 +830,23 @@ export const autoCreateFromSignIn = async (
 /**
  * Approve a time entry
  */
-export const approve = async (id: string, approvedBy: string) => {
+export const approve = async (
+  id: string,
+  approvedBy: string,
+  ipAddress?: string
+) => {
   try {
+    const existing = await prisma.timeEntry.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Time entry not found');
+    }
+
+    await assertPayrollPeriodOpen(existing.date);
+    await assertNotBilled([existing.invoice_id]);
+
     const timeEntry = await prisma.timeEntry.update({
       where: { id },
       data: {
@@ -694,6 +870,13 @@ export const approve = async (id: string, approvedBy: string) => {
             project_number: true,
           },
         },
+        cost_code: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
         created_by_user: {
           select: {
             id: true,
@@ -711,6 +894,16 @@ export const approve = async (id: string, approvedBy: string) => {
       },
     });
 
+    await recordAuditLog({
+      actorId: approvedBy,
+      action: 'APPROVE_TIME_ENTRY',
+      entityType: 'TIME_ENTRY',
+      entityId: id,
+      before: existing,
+      after: timeEntry,
+      ipAddress,
+    });
+
     logger.info('Time entry approved', {
       timeEntryId: id,
       approvedBy,
@@ -726,8 +919,25 @@ export const approve = async (id: string, approvedBy: string) => {
 /**
  * Reject a time entry
  */
-export const reject = async (id: string, approvedBy: string, reason: string) => {
+export const reject = async (
+  id: string,
+  approvedBy: string,
+  reason: string,
+  ipAddress?: string
+) => {
   try {
+    const existing = await prisma.timeEntry.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Time entry not found');
+    }
+
+    await assertPayrollPeriodOpen(existing.date);
+    await assertWeekUnlocked(existing.employee_id, existing.date);
+    await assertNotBilled([existing.invoice_id]);
+
     const timeEntry = await prisma.timeEntry.update({
       where: { id },
       data: {
@@ -752,6 +962,13 @@ export const reject = async (id: string, approvedBy: string, reason: string) =>
             project_number: true,
           },
         },
+        cost_code: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
         created_by_user: {
           select: {
             id: true,
@@ -769,6 +986,16 @@ export const reject = async (id: string, approvedBy: string, reason: string) =>
       },
     });
 
+    await recordAuditLog({
+      actorId: approvedBy,
+      action: 'REJECT_TIME_ENTRY',
+      entityType: 'TIME_ENTRY',
+      entityId: id,
+      before: existing,
+      after: timeEntry,
+      ipAddress,
+    });
+
     logger.info('Time entry rejected', {
       timeEntryId: id,
       approvedBy,
@@ -807,6 +1034,13 @@ export const getUnapprovedEntries = async () => {
             project_number: true,
           },
         },
+        cost_code: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+          },
+        },
         created_by_user: {
           select: {
             id: true,
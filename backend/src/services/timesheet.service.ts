@@ -1,6 +1,11 @@
 import prisma from '../config/database';
 import { logger } from '../utils/logger';
 import { Decimal } from '@prisma/client/runtime/library';
+import { validateOjtCategory } from './apprenticeship.service';
+import { validateProjectCostCode } from './cost-code.service';
+import { assertWeekUnlocked } from './weekly-timesheet.service';
+import { assertPayrollPeriodOpen } from './payroll-period.service';
+import { assertNotBilled } from './invoice.service';
 
 /**
  * Timesheet Service
@@ -22,6 +27,8 @@ interface TimeEntryInput {
   workType?: string;
   description?: string;
   taskPerformed?: string;
+  ojtCategoryId?: string | null;
+  costCodeId?: string | null;
 }
 
 interface UpdateTimesheetData {
@@ -94,6 +101,13 @@ function transformTimeEntryData(entry: any): any {
     workType: entry.work_type,
     description: entry.description,
     taskPerformed: entry.task_performed,
+    ojtCategoryId: entry.ojt_category_id,
+    costCodeId: entry.cost_code_id,
+    costCode: entry.cost_code ? {
+      id: entry.cost_code.id,
+      code: entry.cost_code.code,
+      name: entry.cost_code.name,
+    } : undefined,
     startTime: entry.start_time,
     endTime: entry.end_time,
     hourlyRate: entry.hourly_rate ? Number(entry.hourly_rate) : undefined,
@@ -202,6 +216,13 @@ export const getTimesheetById = async (id: string) => {
                 project_number: true,
               },
             },
+            cost_code: {
+              select: {
+                id: true,
+                code: true,
+                name: true,
+              },
+            },
           },
           orderBy: [
             { employee_id: 'asc' },
@@ -243,10 +264,61 @@ export const getTimesheetById = async (id: string) => {
   }
 };
 
+/**
+ * Validate OJT work categories on apprentice entries
+ */
+const validateOjtCategories = async (entries: TimeEntryInput[] = []) => {
+  for (const entry of entries) {
+    if (entry.ojtCategoryId) {
+      await validateOjtCategory(entry.employeeId, entry.ojtCategoryId);
+    }
+  }
+};
+
+/**
+ * Ensure every entry is charged to a cost code enabled on its project
+ */
+const validateCostCodes = async (entries: TimeEntryInput[] = []) => {
+  for (const entry of entries) {
+    await validateProjectCostCode(entry.projectId, entry.costCodeId);
+  }
+};
+
+/**
+ * Ensure none of the employees' weeks containing the date have been approved
+ */
+const assertWeeksUnlocked = async (employeeIds: string[], date: Date) => {
+  for (const employeeId of new Set(employeeIds)) {
+    await assertWeekUnlocked(employeeId, date);
+  }
+};
+
+/**
+ * Ensure the timesheet's date is not in a closed payroll period
+ */
+const assertTimesheetPeriodOpen = async (id: string) => {
+  const timesheet = await prisma.timesheet.findUnique({
+    where: { id },
+    select: { date: true },
+  });
+
+  if (timesheet) {
+    await assertPayrollPeriodOpen(timesheet.date);
+  }
+};
+
 /**
  * Create a new timesheet with time entries
  */
 export const createTimesheet = async (data: TimesheetData, userId: string) => {
+  await validateOjtCategories(data.timeEntries);
+  await validateCostCodes(data.timeEntries);
+  await assertPayrollPeriodOpen(data.date);
+  await assertWeeksUnlocked(
+    (data.timeEntries || []).map((entry) => entry.employeeId),
+    data.date
+  );
+
   try {
     const timesheet = await prisma.$transaction(async (tx) => {
       // Create timesheet
@@ -281,6 +353,8 @@ export const createTimesheet = async (data: TimesheetData, userId: string) => {
             work_type: entry.workType || 'Regular',
             description: entry.description,
             task_performed: entry.taskPerformed,
+            ojt_category_id: entry.ojtCategoryId || null,
+            cost_code_id: entry.costCodeId,
             status: 'PENDING',
             created_by: userId,
           })),
@@ -307,6 +381,13 @@ export const createTimesheet = async (data: TimesheetData, userId: string) => {
                     project_number: true,
                   },
                 },
+                cost_code: {
+                  select: {
+                    id: true,
+                    code: true,
+                    name: true,
+                  },
+                },
               },
             },
             created_by_user: {
@@ -339,6 +420,9 @@ export const updateTimesheet = async (
   data: UpdateTimesheetData,
   userId: string
 ) => {
+  await validateOjtCategories(data.timeEntries);
+  await validateCostCodes(data.timeEntries);
+
   try {
     const timesheet = await prisma.$transaction(async (tx) => {
       // Check if timesheet exists and is editable
@@ -355,6 +439,8 @@ export const updateTimesheet = async (
         throw new Error('Cannot edit approved timesheet');
       }
 
+      await assertPayrollPeriodOpen(existing.date);
+
       // Update timesheet
       const updateData: any = {
         updated_by: userId,
@@ -380,6 +466,19 @@ export const updateTimesheet = async (
 
       // Update time entries if provided
       if (data.timeEntries) {
+        const currentEntries = await tx.timeEntry.findMany({
+          where: { timesheet_id: id },
+          select: { employee_id: true, invoice_id: true },
+        });
+        await assertNotBilled(currentEntries.map((entry) => entry.invoice_id));
+        await assertWeeksUnlocked(
+          [
+            ...currentEntries.map((entry) => entry.employee_id),
+            ...data.timeEntries.map((entry) => entry.employeeId),
+          ],
+          existing.date
+        );
+
         // Delete existing entries
         await tx.timeEntry.deleteMany({
           where: { timesheet_id: id },
@@ -397,6 +496,8 @@ export const updateTimesheet = async (
               work_type: entry.workType || 'Regular',
               description: entry.description,
               task_performed: entry.taskPerformed,
+              ojt_category_id: entry.ojtCategoryId || null,
+              cost_code_id: entry.costCodeId,
               status: 'PENDING',
               created_by: userId,
             })),
@@ -424,6 +525,13 @@ export const updateTimesheet = async (
                     project_number: true,
                   },
                 },
+                cost_code: {
+                  select: {
+                    id: true,
+                    code: true,
+                    name: true,
+                  },
+                },
               },
             },
             created_by_user: {
@@ -452,6 +560,8 @@ export const updateTimesheet = async (
  * Submit a timesheet (change status from DRAFT to SUBMITTED)
  */
 export const submitTimesheet = async (id: string, userId: string) => {
+  await assertTimesheetPeriodOpen(id);
+
   try {
     const timesheet = await prisma.timesheet.update({
       where: { id },
@@ -479,6 +589,13 @@ export const submitTimesheet = async (id: string, userId: string) => {
                 project_number: true,
               },
             },
+            cost_code: {
+              select: {
+                id: true,
+                code: true,
+                name: true,
+              },
+            },
           },
         },
         created_by_user: {
@@ -510,6 +627,8 @@ export const submitTimesheet = async (id: string, userId: string) => {
  * Approve a timesheet
  */
 export const approveTimesheet = async (id: string, userId: string) => {
+  await assertTimesheetPeriodOpen(id);
+
   try {
     const timesheet = await prisma.timesheet.update({
       where: { id },
@@ -564,7 +683,7 @@ export const deleteTimesheet = async (id: string) => {
     // Check if timesheet is deletable
     const existing = await prisma.timesheet.findUnique({
       where: { id },
-      select: { status: true },
+      select: { status: true, date: true, time_entries: { select: { employee_id: true, invoice_id: true } } },
     });
 
     if (!existing) {
@@ -575,6 +694,14 @@ export const deleteTimesheet = async (id: string) => {
       throw new Error('Only draft timesheets can be deleted');
     }
 
+    await assertPayrollPeriodOpen(existing.date);
+    await assertNotBilled(existing.time_entries.map((entry) => entry.invoice_id));
+
+    await assertWeeksUnlocked(
+      existing.time_entries.map((entry) => entry.employee_id),
+      existing.date
+    );
+
     // Delete time entries first (cascade should handle this, but being explicit)
     await prisma.timeEntry.deleteMany({
       where: { timesheet_id: id },
@@ -618,6 +745,13 @@ export const getTimesheetsForDate = async (date: Date) => {
                 project_number: true,
               },
             },
+            cost_code: {
+              select: {
+                id: true,
+                code: true,
+                name: true,
+              },
+            },
           },
         },
         created_by_user: {
@@ -0,0 +1,818 @@
+import { Prisma, UnionLocal, UnionRate } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { Decimal } from '@prisma/client/runtime/library';
+import { recordAuditLog } from './audit.service';
+import { getClassificationResolver } from './pay-rate.service';
+import { isPayrollPeriodClosed } from './payroll-period.service';
+
+/**
+ * Union Service
+ * IBEW locals, their effective-dated wage and fringe packages per
+ * classification, and the monthly fringe benefit remittance report
+ */
+
+interface UnionLocalData {
+  number: string;
+  name: string;
+  notes?: string | null;
+  isActive?: boolean;
+}
+
+interface UnionRateData {
+  classification: string;
+  effectiveDate: Date;
+  wage: number;
+  healthPerHour?: number;
+  pensionPerHour?: number;
+  nebfPercent?: number;
+  apprenticeshipPerHour?: number;
+}
+
+interface RemittanceAmounts {
+  hours: number;
+  unratedHours: number; // Hours with no package on file for the classification and date
+  grossWages: number;
+  health: number;
+  pension: number;
+  nebf: number;
+  apprenticeship: number;
+  totalFringes: number;
+}
+
+export interface UnionRemittanceEmployee extends RemittanceAmounts {
+  employeeId: string;
+  name: string;
+  employeeNumber: string | null;
+  classification: string;
+  homeLocalNumber: string | null; // Differs from the remitting local for travelers
+}
+
+export interface UnionRemittanceLocal {
+  unionLocalId: string;
+  number: string;
+  name: string;
+  employees: UnionRemittanceEmployee[];
+  totals: RemittanceAmounts;
+}
+
+export interface UnionRemittanceReport {
+  month: string; // YYYY-MM
+  startDate: Date;
+  endDate: Date;
+  locals: UnionRemittanceLocal[];
+}
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0]!;
+
+// End of the range for the latest package of a classification, which has no successor
+const OPEN_ENDED_DATE = new Date(Date.UTC(9999, 11, 31));
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const emptyAmounts = (): RemittanceAmounts => ({
+  hours: 0,
+  unratedHours: 0,
+  grossWages: 0,
+  health: 0,
+  pension: 0,
+  nebf: 0,
+  apprenticeship: 0,
+  totalFringes: 0,
+});
+
+const roundAmounts = <T extends RemittanceAmounts>(amounts: T): T => ({
+  ...amounts,
+  hours: round2(amounts.hours),
+  unratedHours: round2(amounts.unratedHours),
+  grossWages: round2(amounts.grossWages),
+  health: round2(amounts.health),
+  pension: round2(amounts.pension),
+  nebf: round2(amounts.nebf),
+  apprenticeship: round2(amounts.apprenticeship),
+  totalFringes: round2(amounts.totalFringes),
+});
+
+/**
+ * Transform database union local to API format (snake_case to camelCase)
+ */
+const transformUnionLocalData = (local: UnionLocal & { _count?: { employees: number; projects: number } }) => ({
+  id: local.id,
+  number: local.number,
+  name: local.name,
+  notes: local.notes,
+  isActive: local.is_active,
+  employeeCount: local._count?.employees,
+  projectCount: local._count?.projects,
+  createdAt: local.created_at,
+  updatedAt: local.updated_at,
+});
+
+/**
+ * Transform database union rate to API format (snake_case to camelCase)
+ */
+const transformUnionRateData = (rate: UnionRate) => ({
+  id: rate.id,
+  unionLocalId: rate.union_local_id,
+  classification: rate.classification,
+  effectiveDate: rate.effective_date,
+  wage: Number(rate.wage),
+  healthPerHour: Number(rate.health_per_hour),
+  pensionPerHour: Number(rate.pension_per_hour),
+  nebfPercent: Number(rate.nebf_percent),
+  apprenticeshipPerHour: Number(rate.apprenticeship_per_hour),
+  createdAt: rate.created_at,
+  updatedAt: rate.updated_at,
+});
+
+const validateUnionLocalData = (data: Partial<UnionLocalData>) => {
+  if (data.number !== undefined && !data.number.trim()) {
+    throw new Error('Local number is required');
+  }
+  if (data.name !== undefined && !data.name.trim()) {
+    throw new Error('Local name is required');
+  }
+};
+
+const validateUnionRateData = (data: Partial<UnionRateData>) => {
+  if (data.classification !== undefined && !data.classification.trim()) {
+    throw new Error('Classification is required');
+  }
+  if (data.effectiveDate !== undefined && isNaN(data.effectiveDate.getTime())) {
+    throw new Error('Effective date must be a valid date (YYYY-MM-DD)');
+  }
+  if (data.wage !== undefined && (isNaN(data.wage) || data.wage < 0)) {
+    throw new Error('Wage must be a positive number');
+  }
+  [data.healthPerHour, data.pensionPerHour, data.apprenticeshipPerHour].forEach((value) => {
+    if (value !== undefined && (isNaN(value) || value < 0)) {
+      throw new Error('Fringe contributions must be positive numbers');
+    }
+  });
+  if (data.nebfPercent !== undefined && (isNaN(data.nebfPercent) || data.nebfPercent < 0 || data.nebfPercent > 100)) {
+    throw new Error('NEBF percent must be between 0 and 100');
+  }
+};
+
+/**
+ * Find an existing package for a local classification starting on a date (case-insensitive)
+ */
+const findUnionRate = (unionLocalId: string, classification: string, effectiveDate: Date) =>
+  prisma.unionRate.findFirst({
+    where: {
+      union_local_id: unionLocalId,
+      classification: { equals: classification.trim(), mode: 'insensitive' },
+      effective_date: effectiveDate,
+    },
+  });
+
+/**
+ * Throw if a package's effective range, from its effective date up to the
+ * next package for the same local and classification, covers a closed
+ * payroll period. Closed periods were remitted at these rates.
+ */
+const assertUnionRateRangeOpen = async (
+  unionLocalId: string,
+  classification: string,
+  effectiveDate: Date,
+  excludeId?: string
+) => {
+  const next = await prisma.unionRate.findFirst({
+    where: {
+      union_local_id: unionLocalId,
+      classification: { equals: classification.trim(), mode: 'insensitive' },
+      effective_date: { gt: effectiveDate },
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+    orderBy: { effective_date: 'asc' },
+    select: { effective_date: true },
+  });
+  const endDate = next ? new Date(next.effective_date.getTime() - MS_PER_DAY) : OPEN_ENDED_DATE;
+
+  if (await isPayrollPeriodClosed(effectiveDate, endDate)) {
+    throw new Error(
+      `The ${classification.trim()} package effective ${toDateKey(effectiveDate)} covers a closed payroll period ` +
+        'and is locked until the period is reopened; add a package with a later effective date instead'
+    );
+  }
+};
+
+/**
+ * Get union locals
+ */
+export const getUnionLocals = async (includeInactive: boolean = false) => {
+  try {
+    const locals = await prisma.unionLocal.findMany({
+      where: includeInactive ? {} : { is_active: true },
+      include: {
+        _count: {
+          select: {
+            employees: { where: { deleted_at: null } },
+            projects: { where: { deleted_at: null } },
+          },
+        },
+      },
+      orderBy: { number: 'asc' },
+    });
+
+    return locals.map(transformUnionLocalData);
+  } catch (error) {
+    logger.error('Error fetching union locals', { error });
+    throw error;
+  }
+};
+
+/**
+ * Ensure a union local exists and can take new members or jobs
+ */
+export const validateUnionLocal = async (unionLocalId: string | null | undefined) => {
+  if (!unionLocalId) return;
+
+  const local = await prisma.unionLocal.findUnique({
+    where: { id: unionLocalId },
+    select: { is_active: true },
+  });
+
+  if (!local) {
+    throw new Error('Union local not found');
+  }
+
+  if (!local.is_active) {
+    throw new Error('Union local must be active');
+  }
+};
+
+/**
+ * Create a union local
+ */
+export const createUnionLocal = async (data: UnionLocalData, createdBy: string, ipAddress?: string) => {
+  try {
+    validateUnionLocalData(data);
+
+    const existing = await prisma.unionLocal.findUnique({
+      where: { number: data.number.trim() },
+    });
+    if (existing) {
+      throw new Error(`Local ${data.number.trim()} already exists`);
+    }
+
+    const local = await prisma.unionLocal.create({
+      data: {
+        number: data.number.trim(),
+        name: data.name.trim(),
+        notes: data.notes || null,
+        is_active: data.isActive ?? true,
+        created_by: createdBy,
+        updated_by: createdBy,
+      },
+    });
+
+    await recordAuditLog({
+      actorId: createdBy,
+      action: 'CREATE_UNION_LOCAL',
+      entityType: 'UNION_LOCAL',
+      entityId: local.id,
+      after: local,
+      ipAddress,
+    });
+
+    logger.info('Union local created', { unionLocalId: local.id, createdBy });
+
+    return transformUnionLocalData(local);
+  } catch (error) {
+    logger.error('Error creating union local', { data, createdBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Update a union local
+ */
+export const updateUnionLocal = async (
+  id: string,
+  data: Partial<UnionLocalData>,
+  updatedBy: string,
+  ipAddress?: string
+) => {
+  try {
+    validateUnionLocalData(data);
+
+    const existing = await prisma.unionLocal.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Union local not found');
+    }
+
+    if (data.number && data.number.trim() !== existing.number) {
+      const duplicate = await prisma.unionLocal.findUnique({
+        where: { number: data.number.trim() },
+      });
+      if (duplicate) {
+        throw new Error(`Local ${data.number.trim()} already exists`);
+      }
+    }
+
+    const updateData: Prisma.UnionLocalUpdateInput = {
+      updated_by: updatedBy,
+    };
+
+    if (data.number !== undefined) updateData.number = data.number.trim();
+    if (data.name !== undefined) updateData.name = data.name.trim();
+    if (data.notes !== undefined) updateData.notes = data.notes || null;
+    if (data.isActive !== undefined) updateData.is_active = data.isActive;
+
+    const local = await prisma.unionLocal.update({
+      where: { id },
+      data: updateData,
+    });
+
+    await recordAuditLog({
+      actorId: updatedBy,
+      action: 'UPDATE_UNION_LOCAL',
+      entityType: 'UNION_LOCAL',
+      entityId: id,
+      before: existing,
+      after: local,
+      ipAddress,
+    });
+
+    logger.info('Union local updated', { unionLocalId: id, updatedBy });
+
+    return transformUnionLocalData(local);
+  } catch (error) {
+    logger.error('Error updating union local', { id, data, updatedBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Delete a union local. Locals with employees or projects assigned must be
+ * deactivated instead so past remittances keep their local.
+ */
+export const deleteUnionLocal = async (id: string, deletedBy: string, ipAddress?: string) => {
+  try {
+    const existing = await prisma.unionLocal.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new Error('Union local not found');
+    }
+
+    const [employeeCount, projectCount] = await Promise.all([
+      prisma.employee.count({ where: { union_local_id: id } }),
+      prisma.project.count({ where: { union_local_id: id } }),
+    ]);
+
+    if (employeeCount > 0 || projectCount > 0) {
+      throw new Error('Union local has employees or projects assigned and cannot be deleted; deactivate it instead');
+    }
+
+    await prisma.unionLocal.delete({
+      where: { id },
+    });
+
+    await recordAuditLog({
+      actorId: deletedBy,
+      action: 'DELETE_UNION_LOCAL',
+      entityType: 'UNION_LOCAL',
+      entityId: id,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Union local deleted', { unionLocalId: id, deletedBy });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Error deleting union local', { id, error });
+    throw error;
+  }
+};
+
+/**
+ * Get a local's wage and fringe packages, newest first within each classification
+ */
+export const getUnionRates = async (unionLocalId: string) => {
+  try {
+    const local = await prisma.unionLocal.findUnique({
+      where: { id: unionLocalId },
+      select: { id: true },
+    });
+
+    if (!local) {
+      throw new Error('Union local not found');
+    }
+
+    const rates = await prisma.unionRate.findMany({
+      where: { union_local_id: unionLocalId },
+      orderBy: [{ classification: 'asc' }, { effective_date: 'desc' }],
+    });
+
+    return rates.map(transformUnionRateData);
+  } catch (error) {
+    logger.error('Error fetching union rates', { unionLocalId, error });
+    throw error;
+  }
+};
+
+/**
+ * Add a wage and fringe package for a local classification
+ */
+export const createUnionRate = async (
+  unionLocalId: string,
+  data: UnionRateData,
+  createdBy: string,
+  ipAddress?: string
+) => {
+  try {
+    validateUnionRateData(data);
+
+    const local = await prisma.unionLocal.findUnique({
+      where: { id: unionLocalId },
+      select: { id: true },
+    });
+
+    if (!local) {
+      throw new Error('Union local not found');
+    }
+
+    const existing = await findUnionRate(unionLocalId, data.classification, data.effectiveDate);
+    if (existing) {
+      throw new Error(
+        `A ${data.classification.trim()} package effective ${toDateKey(data.effectiveDate)} already exists for this local`
+      );
+    }
+
+    // A backdated package would reprice time in a closed period
+    await assertUnionRateRangeOpen(unionLocalId, data.classification, data.effectiveDate);
+
+    const rate = await prisma.unionRate.create({
+      data: {
+        union_local_id: unionLocalId,
+        classification: data.classification.trim(),
+        effective_date: data.effectiveDate,
+        wage: new Decimal(data.wage),
+        health_per_hour: new Decimal(data.healthPerHour || 0),
+        pension_per_hour: new Decimal(data.pensionPerHour || 0),
+        nebf_percent: new Decimal(data.nebfPercent || 0),
+        apprenticeship_per_hour: new Decimal(data.apprenticeshipPerHour || 0),
+        created_by: createdBy,
+        updated_by: createdBy,
+      },
+    });
+
+    await recordAuditLog({
+      actorId: createdBy,
+      action: 'CREATE_UNION_RATE',
+      entityType: 'UNION_RATE',
+      entityId: rate.id,
+      after: rate,
+      ipAddress,
+    });
+
+    logger.info('Union rate created', { unionRateId: rate.id, unionLocalId });
+
+    return transformUnionRateData(rate);
+  } catch (error) {
+    logger.error('Error creating union rate', { unionLocalId, data, createdBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Update a wage and fringe package
+ */
+export const updateUnionRate = async (
+  unionLocalId: string,
+  id: string,
+  data: Partial<UnionRateData>,
+  updatedBy: string,
+  ipAddress?: string
+) => {
+  try {
+    validateUnionRateData(data);
+
+    const existing = await prisma.unionRate.findFirst({
+      where: { id, union_local_id: unionLocalId },
+    });
+
+    if (!existing) {
+      throw new Error('Union rate not found');
+    }
+
+    const classification = data.classification ?? existing.classification;
+    const effectiveDate = data.effectiveDate ?? existing.effective_date;
+    const duplicate = await findUnionRate(unionLocalId, classification, effectiveDate);
+    if (duplicate && duplicate.id !== id) {
+      throw new Error(
+        `A ${classification.trim()} package effective ${toDateKey(effectiveDate)} already exists for this local`
+      );
+    }
+
+    // Both the range the package priced and the one it would price must be open
+    await assertUnionRateRangeOpen(unionLocalId, existing.classification, existing.effective_date, id);
+    await assertUnionRateRangeOpen(unionLocalId, classification, effectiveDate, id);
+
+    const updateData: Prisma.UnionRateUpdateInput = {
+      updated_by: updatedBy,
+    };
+
+    if (data.classification !== undefined) updateData.classification = data.classification.trim();
+    if (data.effectiveDate !== undefined) updateData.effective_date = data.effectiveDate;
+    if (data.wage !== undefined) updateData.wage = new Decimal(data.wage);
+    if (data.healthPerHour !== undefined) updateData.health_per_hour = new Decimal(data.healthPerHour);
+    if (data.pensionPerHour !== undefined) updateData.pension_per_hour = new Decimal(data.pensionPerHour);
+    if (data.nebfPercent !== undefined) updateData.nebf_percent = new Decimal(data.nebfPercent);
+    if (data.apprenticeshipPerHour !== undefined) {
+      updateData.apprenticeship_per_hour = new Decimal(data.apprenticeshipPerHour);
+    }
+
+    const rate = await prisma.unionRate.update({
+      where: { id },
+      data: updateData,
+    });
+
+    await recordAuditLog({
+      actorId: updatedBy,
+      action: 'UPDATE_UNION_RATE',
+      entityType: 'UNION_RATE',
+      entityId: id,
+      before: existing,
+      after: rate,
+      ipAddress,
+    });
+
+    logger.info('Union rate updated', { unionRateId: id, updatedBy });
+
+    return transformUnionRateData(rate);
+  } catch (error) {
+    logger.error('Error updating union rate', { id, data, updatedBy, error });
+    throw error;
+  }
+};
+
+/**
+ * Delete a wage and fringe package
+ */
+export const deleteUnionRate = async (unionLocalId: string, id: string, deletedBy: string, ipAddress?: string) => {
+  try {
+    const existing = await prisma.unionRate.findFirst({
+      where: { id, union_local_id: unionLocalId },
+    });
+
+    if (!existing) {
+      throw new Error('Union rate not found');
+    }
+
+    await assertUnionRateRangeOpen(unionLocalId, existing.classification, existing.effective_date, id);
+
+    await prisma.unionRate.delete({
+      where: { id },
+    });
+
+    await recordAuditLog({
+      actorId: deletedBy,
+      action: 'DELETE_UNION_RATE',
+      entityType: 'UNION_RATE',
+      entityId: id,
+      before: existing,
+      ipAddress,
+    });
+
+    logger.info('Union rate deleted', { unionRateId: id, deletedBy });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Error deleting union rate', { id, error });
+    throw error;
+  }
+};
+
+/**
+ * Generate the fringe benefit remittance for a month (YYYY-MM) from approved
+ * time entries. Hours are remitted to the project's local, or the employee's
+ * home local when the project has none, at the package in effect for the
+ * classification the employee worked under on the work date (from pay rate
+ * history, else the current classification). An employee promoted mid-month
+ * gets a row per classification. Gross wages are hours at the wage scale,
+ * the base NEBF is calculated on.
+ */
+export const generateRemittanceReport = async (
+  month: string,
+  unionLocalId?: string
+): Promise<UnionRemittanceReport> => {
+  try {
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      throw new Error('Month must be in YYYY-MM format');
+    }
+
+    const [year, monthNumber] = month.split('-').map(Number) as [number, number];
+    const startDate = new Date(Date.UTC(year, monthNumber - 1, 1));
+    const endDate = new Date(Date.UTC(year, monthNumber, 0));
+
+    const timeEntries = await prisma.timeEntry.findMany({
+      where: {
+        status: 'APPROVED',
+        date: { gte: startDate, lte: endDate },
+        OR: [{ project: { union_local_id: { not: null } } }, { employee: { union_local_id: { not: null } } }],
+      },
+      include: {
+        employee: {
+          select: {
+            id: true,
+            first_name: true,
+            last_name: true,
+            employee_number: true,
+            classification: true,
+            union_local_id: true,
+            union_local: { select: { number: true } },
+          },
+        },
+        project: { select: { union_local_id: true } },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    // The local each entry is remitted to
+    const remittingEntries = timeEntries
+      .map((entry) => ({ entry, localId: (entry.project.union_local_id ?? entry.employee.union_local_id)! }))
+      .filter(({ localId }) => !unionLocalId || localId === unionLocalId);
+
+    const localIds = Array.from(new Set(remittingEntries.map(({ localId }) => localId)));
+
+    const [locals, rates, resolveClassification] = await Promise.all([
+      prisma.unionLocal.findMany({
+        where: { id: { in: localIds } },
+        orderBy: { number: 'asc' },
+      }),
+      prisma.unionRate.findMany({
+        where: { union_local_id: { in: localIds }, effective_date: { lte: endDate } },
+        orderBy: { effective_date: 'desc' },
+      }),
+      getClassificationResolver(remittingEntries.map(({ entry }) => entry.employee_id)),
+    ]);
+
+    const findRate = (localId: string, classification: string, date: Date) => {
+      const dateKey = toDateKey(date);
+      return rates.find(
+        (rate) =>
+          rate.union_local_id === localId &&
+          rate.classification.toLowerCase() === classification.toLowerCase() &&
+          toDateKey(rate.effective_date) <= dateKey
+      );
+    };
+
+    const employeesByLocal = new Map<string, Map<string, UnionRemittanceEmployee>>(); // key: employeeId|classification
+
+    remittingEntries.forEach(({ entry, localId }) => {
+      const { employee } = entry;
+
+      if (!employeesByLocal.has(localId)) {
+        employeesByLocal.set(localId, new Map());
+      }
+      const employees = employeesByLocal.get(localId)!;
+
+      const classification = resolveClassification(employee.id, entry.date) ?? employee.classification;
+      const rowKey = `${employee.id}|${classification.toLowerCase()}`;
+
+      if (!employees.has(rowKey)) {
+        employees.set(rowKey, {
+          employeeId: employee.id,
+          name: `${employee.last_name}, ${employee.first_name}`,
+          employeeNumber: employee.employee_number,
+          classification,
+          homeLocalNumber: employee.union_local?.number ?? null,
+          ...emptyAmounts(),
+        });
+      }
+
+      const row = employees.get(rowKey)!;
+      const hours = Number(entry.hours_worked);
+      const rate = findRate(localId, classification, entry.date);
+
+      row.hours += hours;
+
+      if (!rate) {
+        row.unratedHours += hours;
+        return;
+      }
+
+      const gross = hours * Number(rate.wage);
+      const health = hours * Number(rate.health_per_hour);
+      const pension = hours * Number(rate.pension_per_hour);
+      const nebf = gross * (Number(rate.nebf_percent) / 100);
+      const apprenticeship = hours * Number(rate.apprenticeship_per_hour);
+
+      row.grossWages += gross;
+      row.health += health;
+      row.pension += pension;
+      row.nebf += nebf;
+      row.apprenticeship += apprenticeship;
+      row.totalFringes += health + pension + nebf + apprenticeship;
+    });
+
+    const report: UnionRemittanceReport = {
+      month,
+      startDate,
+      endDate,
+      locals: locals.map((local) => {
+        const employees = Array.from(employeesByLocal.get(local.id)?.values() ?? [])
+          .sort((a, b) => a.name.localeCompare(b.name) || a.classification.localeCompare(b.classification))
+          .map(roundAmounts);
+
+        const totals = employees.reduce((sum, employee) => {
+          (Object.keys(sum) as (keyof RemittanceAmounts)[]).forEach((key) => {
+            sum[key] += employee[key];
+          });
+          return sum;
+        }, emptyAmounts());
+
+        return {
+          unionLocalId: local.id,
+          number: local.number,
+          name: local.name,
+          employees,
+          totals: roundAmounts(totals),
+        };
+      }),
+    };
+
+    logger.info('Union remittance report generated', {
+      month,
+      unionLocalId,
+      localCount: report.locals.length,
+    });
+
+    return report;
+  } catch (error) {
+    logger.error('Error generating union remittance report', { month, unionLocalId, error });
+    throw error;
+  }
+};
+
+/**
+ * Export the monthly fringe benefit remittance as CSV, one row per local and employee
+ */
+export const exportRemittanceCSV = async (month: string, unionLocalId?: string): Promise<string> => {
+  try {
+    const report = await generateRemittanceReport(month, unionLocalId);
+
+    // CSV Headers
+    const headers = [
+      'Month',
+      'Local',
+      'Employee ID',
+      'Employee Number',
+      'Name',
+      'Classification',
+      'Home Local',
+      'Hours',
+      'Unrated Hours',
+      'Gross Wages',
+      'Health & Welfare',
+      'Pension',
+      'NEBF',
+      'Apprenticeship',
+      'Total Fringes',
+    ];
+
+    const rows: string[][] = [headers];
+
+    report.locals.forEach((local) => {
+      local.employees.forEach((employee) => {
+        rows.push([
+          report.month,
+          local.number,
+          employee.employeeId,
+          employee.employeeNumber || '',
+          employee.name,
+          employee.classification,
+          employee.homeLocalNumber || '',
+          employee.hours.toFixed(2),
+          employee.unratedHours.toFixed(2),
+          employee.grossWages.toFixed(2),
+          employee.health.toFixed(2),
+          employee.pension.toFixed(2),
+          employee.nebf.toFixed(2),
+          employee.apprenticeship.toFixed(2),
+          employee.totalFringes.toFixed(2),
+        ]);
+      });
+    });
+
+    // Convert to CSV string
+    const csv = rows.map((row) => row.map((cell) => `"${cell}"`).join(',')).join('\n');
+
+    logger.info('Union remittance CSV exported', { month, unionLocalId, rowCount: rows.length - 1 });
+
+    return csv;
+  } catch (error) {
+    logger.error('Error exporting union remittance CSV', { month, unionLocalId, error });
+    throw error;
+  }
+};
@@ -0,0 +1,670 @@
+import { TimeEntry, WeeklyTimesheet } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { Decimal } from '@prisma/client/runtime/library';
+import { recordAuditLog } from './audit.service';
+import {
+  calculateOvertime,
+  getOvertimeRulesResolver,
+  getWorkweekStart,
+  OvertimeRules,
+} from './overtime.service';
+import { assertPayrollPeriodOpen, isPayrollPeriodClosed } from './payroll-period.service';
+
+/**
+ * Weekly Timesheet Service
+ * Rolls each employee's time entries up into one timesheet per workweek with
+ * regular/overtime/double time totals. Employees and foremen submit the week,
+ * supervisors approve or reject it, and approved weeks lock their time entries
+ * and become the only hours included in payroll exports.
+ */
+
+export interface WeeklyTimesheetActor {
+  id: string;
+  role: string;
+}
+
+interface WeeklyTimesheetFilters {
+  weekStart?: Date;
+  employeeId?: string;
+  status?: string;
+}
+
+// Roles that approve and reject weeks (matches payroll access)
+const REVIEWER_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER'];
+
+// Roles that may submit any employee's week (foremen submit for their crew)
+const CREW_SUBMITTER_ROLES = [...REVIEWER_ROLES, 'FIELD_SUPERVISOR'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0]!;
+
+const getWeekEnd = (weekStart: Date) => new Date(weekStart.getTime() + 6 * MS_PER_DAY);
+
+const userSelect = {
+  select: {
+    id: true,
+    first_name: true,
+    last_name: true,
+  },
+};
+
+const weeklyTimesheetInclude = {
+  employee: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+      employee_number: true,
+      classification: true,
+    },
+  },
+  submitted_by_user: userSelect,
+  approved_by_user: userSelect,
+  rejected_by_user: userSelect,
+};
+
+type UserSummary = { id: string; first_name: string; last_name: string };
+
+type WeeklyTimesheetWithRelations = WeeklyTimesheet & {
+  employee?: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    employee_number: string | null;
+    classification: string;
+  } | null;
+  submitted_by_user?: UserSummary | null;
+  approved_by_user?: UserSummary | null;
+  rejected_by_user?: UserSummary | null;
+};
+
+/**
+ * Transform snake_case Prisma response to camelCase for frontend
+ */
+function transformWeeklyTimesheetData(timesheet: WeeklyTimesheetWithRelations) {
+  return {
+    id: timesheet.id,
+    employeeId: timesheet.employee_id,
+    employee: timesheet.employee
+      ? {
+          id: timesheet.employee.id,
+          firstName: timesheet.employee.first_name,
+          lastName: timesheet.employee.last_name,
+          employeeNumber: timesheet.employee.employee_number,
+          classification: timesheet.employee.classification,
+        }
+      : undefined,
+    weekStartDate: timesheet.week_start_date,
+    weekEndDate: timesheet.week_end_date,
+    totalHours: Number(timesheet.total_hours),
+    regularHours: Number(timesheet.regular_hours),
+    overtimeHours: Number(timesheet.overtime_hours),
+    doubleTimeHours: Number(timesheet.double_time_hours),
+    status: timesheet.status,
+    submittedAt: timesheet.submitted_at,
+    submittedBy: timesheet.submitted_by_user
+      ? {
+          id: timesheet.submitted_by_user.id,
+          firstName: timesheet.submitted_by_user.first_name,
+          lastName: timesheet.submitted_by_user.last_name,
+        }
+      : null,
+    approvedAt: timesheet.approved_at,
+    approvedBy: timesheet.approved_by_user
+      ? {
+          id: timesheet.approved_by_user.id,
+          firstName: timesheet.approved_by_user.first_name,
+          lastName: timesheet.approved_by_user.last_name,
+        }
+      : null,
+    rejectedAt: timesheet.rejected_at,
+    rejectedBy: timesheet.rejected_by_user
+      ? {
+          id: timesheet.rejected_by_user.id,
+          firstName: timesheet.rejected_by_user.first_name,
+          lastName: timesheet.rejected_by_user.last_name,
+        }
+      : null,
+    notes: timesheet.notes,
+    reviewComments: timesheet.review_comments,
+    isLocked: timesheet.status === 'APPROVED',
+    createdAt: timesheet.created_at,
+    updatedAt: timesheet.updated_at,
+  };
+}
+
+/**
+ * Transform a time entry shown on the weekly timesheet detail
+ */
+function transformWeekEntry(entry: TimeEntry & { project?: { id: string; name: string; project_number: string } | null }) {
+  return {
+    id: entry.id,
+    date: entry.date,
+    projectId: entry.project_id,
+    project: entry.project
+      ? {
+          id: entry.project.id,
+          name: entry.project.name,
+          projectNumber: entry.project.project_number,
+        }
+      : undefined,
+    hoursWorked: Number(entry.hours_worked),
+    breakMinutes: entry.break_minutes,
+    workType: entry.work_type,
+    description: entry.description,
+    startTime: entry.start_time,
+    endTime: entry.end_time,
+    status: entry.status,
+    selfPunched: entry.self_punched,
+  };
+}
+
+/**
+ * Total a week of entries into regular, overtime and double time hours.
+ * Rejected entries are not paid and do not count toward the week.
+ */
+const summarizeWeek = (
+  entries: { date: Date; hours_worked: Decimal }[],
+  rules: OvertimeRules
+) => {
+  const days = calculateOvertime(
+    entries.map((entry) => ({ date: entry.date, hours: Number(entry.hours_worked) })),
+    rules
+  );
+
+  return days.reduce(
+    (totals, day) => ({
+      totalHours: round2(totals.totalHours + day.totalHours),
+      regularHours: round2(totals.regularHours + day.regularHours),
+      overtimeHours: round2(totals.overtimeHours + day.overtimeHours),
+      doubleTimeHours: round2(totals.doubleTimeHours + day.doubleTimeHours),
+    }),
+    { totalHours: 0, regularHours: 0, overtimeHours: 0, doubleTimeHours: 0 }
+  );
+};
+
+const toTotalsData = (totals: ReturnType<typeof summarizeWeek>) => ({
+  total_hours: new Decimal(totals.totalHours),
+  regular_hours: new Decimal(totals.regularHours),
+  overtime_hours: new Decimal(totals.overtimeHours),
+  double_time_hours: new Decimal(totals.doubleTimeHours),
+});
+
+/**
+ * Load an employee's paid entries for a workweek
+ */
+const findWeekEntries = (employeeId: string, weekStart: Date) =>
+  prisma.timeEntry.findMany({
+    where: {
+      employee_id: employeeId,
+      date: { gte: weekStart, lte: getWeekEnd(weekStart) },
+      status: { not: 'REJECTED' },
+    },
+    select: { date: true, hours_worked: true },
+  });
+
+/**
+ * Recalculate a week's totals from its current entries
+ */
+const calculateWeekTotals = async (employeeId: string, weekStart: Date) => {
+  const employee = await prisma.employee.findUnique({
+    where: { id: employeeId },
+    select: { classification: true },
+  });
+
+  const resolveRules = await getOvertimeRulesResolver();
+  const entries = await findWeekEntries(employeeId, weekStart);
+  return summarizeWeek(entries, resolveRules(employee?.classification));
+};
+
+/**
+ * The employee record linked to a user account, if any
+ */
+const getActorEmployeeId = async (actor: WeeklyTimesheetActor): Promise<string | null> => {
+  const employee = await prisma.employee.findFirst({
+    where: { user_id: actor.id, deleted_at: null },
+    select: { id: true },
+  });
+  return employee?.id ?? null;
+};
+
+/**
+ * Throw if the employee's week containing this date has been approved.
+ * Called before any time entry for that week is created, changed or deleted.
+ */
+export const assertWeekUnlocked = async (employeeId: string, date: Date) => {
+  const weekStart = getWorkweekStart(date);
+  const week = await prisma.weeklyTimesheet.findUnique({
+    where: {
+      employee_id_week_start_date: { employee_id: employeeId, week_start_date: weekStart },
+    },
+    select: { status: true },
+  });
+
+  if (week?.status === 'APPROVED') {
+    throw new Error(
+      `Time for the week of ${toDateKey(weekStart)} is locked because its weekly timesheet is approved`
+    );
+  }
+};
+
+/**
+ * Generate (or refresh) weekly timesheets for every employee with time in the
+ * workweek containing the given date. Submitted and approved weeks are left as
+ * they are, and weeks in a closed payroll period cannot be regenerated.
+ */
+export const generateWeeklyTimesheets = async (date: Date, employeeId?: string) => {
+  try {
+    const weekStart = getWorkweekStart(date);
+    const weekEnd = getWeekEnd(weekStart);
+    await assertPayrollPeriodOpen(weekStart, weekEnd);
+
+    const entries = await prisma.timeEntry.findMany({
+      where: {
+        date: { gte: weekStart, lte: weekEnd },
+        status: { not: 'REJECTED' },
+        ...(employeeId && { employee_id: employeeId }),
+      },
+      select: {
+        employee_id: true,
+        date: true,
+        hours_worked: true,
+        employee: { select: { classification: true } },
+      },
+    });
+
+    const existing = await prisma.weeklyTimesheet.findMany({
+      where: {
+        week_start_date: weekStart,
+        ...(employeeId && { employee_id: employeeId }),
+      },
+      select: { employee_id: true, status: true },
+    });
+    const statusByEmployee = new Map(existing.map((week) => [week.employee_id, week.status]));
+
+    const entriesByEmployee = new Map<string, typeof entries>();
+    entries.forEach((entry) => {
+      const list = entriesByEmployee.get(entry.employee_id) || [];
+      list.push(entry);
+      entriesByEmployee.set(entry.employee_id, list);
+    });
+
+    // Drafts whose entries were all removed are zeroed rather than left stale
+    existing.forEach((week) => {
+      if (!entriesByEmployee.has(week.employee_id)) {
+        entriesByEmployee.set(week.employee_id, []);
+      }
+    });
+
+    const resolveRules = await getOvertimeRulesResolver();
+    let generated = 0;
+    let skipped = 0;
+
+    for (const [weekEmployeeId, employeeEntries] of entriesByEmployee) {
+      const status = statusByEmployee.get(weekEmployeeId);
+      if (status === 'SUBMITTED' || status === 'APPROVED') {
+        skipped++;
+        continue;
+      }
+
+      const totals = toTotalsData(
+        summarizeWeek(employeeEntries, resolveRules(employeeEntries[0]?.employee.classification))
+      );
+
+      await prisma.weeklyTimesheet.upsert({
+        where: {
+          employee_id_week_start_date: { employee_id: weekEmployeeId, week_start_date: weekStart },
+        },
+        create: {
+          employee_id: weekEmployeeId,
+          week_start_date: weekStart,
+          week_end_date: weekEnd,
+          status: 'DRAFT',
+          ...totals,
+        },
+        update: totals,
+      });
+      generated++;
+    }
+
+    logger.info('Weekly timesheets generated', { weekStart, generated, skipped });
+
+    const timesheets = await getWeeklyTimesheets({ weekStart, employeeId });
+    return { weekStartDate: weekStart, weekEndDate: weekEnd, generated, skipped, timesheets };
+  } catch (error) {
+    logger.error('Error generating weekly timesheets', { date, employeeId, error });
+    throw error;
+  }
+};
+
+/**
+ * Get weekly timesheets, optionally for one week, employee or status
+ */
+export const getWeeklyTimesheets = async (filters: WeeklyTimesheetFilters = {}) => {
+  try {
+    const timesheets = await prisma.weeklyTimesheet.findMany({
+      where: {
+        ...(filters.weekStart && { week_start_date: getWorkweekStart(filters.weekStart) }),
+        ...(filters.employeeId && { employee_id: filters.employeeId }),
+        ...(filters.status && { status: filters.status }),
+      },
+      include: weeklyTimesheetInclude,
+      orderBy: [
+        { week_start_date: 'desc' },
+        { employee: { last_name: 'asc' } },
+        { employee: { first_name: 'asc' } },
+      ],
+    });
+
+    return timesheets.map(transformWeeklyTimesheetData);
+  } catch (error) {
+    logger.error('Error fetching weekly timesheets', { filters, error });
+    throw error;
+  }
+};
+
+/**
+ * Get a weekly timesheet with the time entries it covers
+ */
+export const getWeeklyTimesheetById = async (id: string, actor: WeeklyTimesheetActor) => {
+  try {
+    const timesheet = await prisma.weeklyTimesheet.findUnique({
+      where: { id },
+      include: weeklyTimesheetInclude,
+    });
+
+    if (!timesheet) {
+      throw new Error('Weekly timesheet not found');
+    }
+
+    if (!CREW_SUBMITTER_ROLES.includes(actor.role)) {
+      const employeeId = await getActorEmployeeId(actor);
+      if (employeeId !== timesheet.employee_id) {
+        throw new Error('You are not allowed to view this weekly timesheet');
+      }
+    }
+
+    const entries = await prisma.timeEntry.findMany({
+      where: {
+        employee_id: timesheet.employee_id,
+        date: { gte: timesheet.week_start_date, lte: timesheet.week_end_date },
+      },
+      include: {
+        project: {
+          select: {
+            id: true,
+            name: true,
+            project_number: true,
+          },
+        },
+      },
+      orderBy: [{ date: 'asc' }, { start_time: 'asc' }, { created_at: 'asc' }],
+    });
+
+    return {
+      ...transformWeeklyTimesheetData(timesheet),
+      timeEntries: entries.map(transformWeekEntry),
+    };
+  } catch (error) {
+    logger.error('Error fetching weekly timesheet', { id, error });
+    throw error;
+  }
+};
+
+/**
+ * Get (generating if needed) the signed-in user's own timesheet for the week containing a date
+ */
+export const getMyWeeklyTimesheet = async (actor: WeeklyTimesheetActor, date: Date) => {
+  try {
+    const employeeId = await getActorEmployeeId(actor);
+    if (!employeeId) {
+      throw new Error('No active employee record is linked to your user account');
+    }
+
+    const weekStart = getWorkweekStart(date);
+    if (!(await isPayrollPeriodClosed(weekStart, getWeekEnd(weekStart)))) {
+      await generateWeeklyTimesheets(weekStart, employeeId);
+    }
+
+    const timesheet = await prisma.weeklyTimesheet.findUnique({
+      where: {
+        employee_id_week_start_date: { employee_id: employeeId, week_start_date: weekStart },
+      },
+      include: weeklyTimesheetInclude,
+    });
+
+    return timesheet ? transformWeeklyTimesheetData(timesheet) : null;
+  } catch (error) {
+    logger.error('Error fetching my weekly timesheet', { userId: actor.id, date, error });
+    throw error;
+  }
+};
+
+/**
+ * Submit a week for approval (from draft, or resubmit after rejection).
+ * Field workers may only submit their own week.
+ */
+export const submitWeeklyTimesheet = async (
+  id: string,
+  actor: WeeklyTimesheetActor,
+  notes?: string,
+  ipAddress?: string
+) => {
+  try {
+    const existing = await prisma.weeklyTimesheet.findUnique({ where: { id } });
+
+    if (!existing) {
+      throw new Error('Weekly timesheet not found');
+    }
+
+    if (!CREW_SUBMITTER_ROLES.includes(actor.role)) {
+      const employeeId = await getActorEmployeeId(actor);
+      if (employeeId !== existing.employee_id) {
+        throw new Error('You are not allowed to submit another employee\'s timesheet');
+      }
+    }
+
+    if (existing.status !== 'DRAFT' && existing.status !== 'REJECTED') {
+      throw new Error(`Weekly timesheet is already ${existing.status.toLowerCase()}`);
+    }
+
+    await assertPayrollPeriodOpen(existing.week_start_date, existing.week_end_date);
+
+    const totals = await calculateWeekTotals(existing.employee_id, existing.week_start_date);
+    if (totals.totalHours === 0) {
+      throw new Error('Weekly timesheet has no hours to submit');
+    }
+
+    const timesheet = await prisma.weeklyTimesheet.update({
+      where: { id },
+      data: {
+        ...toTotalsData(totals),
+        status: 'SUBMITTED',
+        submitted_at: new Date(),
+        submitted_by: actor.id,
+        ...(notes !== undefined && { notes }),
+      },
+      include: weeklyTimesheetInclude,
+    });
+
+    await recordAuditLog({
+      actorId: actor.id,
+      action: 'SUBMIT_WEEKLY_TIMESHEET',
+      entityType: 'WEEKLY_TIMESHEET',
+      entityId: id,
+      before: { status: existing.status },
+      after: { status: 'SUBMITTED', total_hours: totals.totalHours },
+      ipAddress,
+    });
+
+    logger.info('Weekly timesheet submitted', { weeklyTimesheetId: id, userId: actor.id });
+    return transformWeeklyTimesheetData(timesheet);
+  } catch (error) {
+    logger.error('Error submitting weekly timesheet', { id, userId: actor.id, error });
+    throw error;
+  }
+};
+
+/**
+ * Approve a submitted week: refresh its totals, approve its pending entries
+ * and lock the week against further time entry changes. Weeks with a
+ * self-punch still open cannot be approved until the employee clocks out.
+ */
+export const approveWeeklyTimesheet = async (
+  id: string,
+  userId: string,
+  comments?: string,
+  ipAddress?: string
+) => {
+  try {
+    const existing = await prisma.weeklyTimesheet.findUnique({ where: { id } });
+
+    if (!existing) {
+      throw new Error('Weekly timesheet not found');
+    }
+
+    if (existing.status !== 'SUBMITTED') {
+      throw new Error('Only submitted weekly timesheets can be approved');
+    }
+
+    await assertPayrollPeriodOpen(existing.week_start_date, existing.week_end_date);
+
+    const weekEntries = {
+      employee_id: existing.employee_id,
+      date: { gte: existing.week_start_date, lte: existing.week_end_date },
+    };
+
+    const openEntries = await prisma.timeEntry.count({
+      where: { ...weekEntries, self_punched: true, end_time: null, status: { not: 'REJECTED' } },
+    });
+    if (openEntries > 0) {
+      throw new Error('Weekly timesheet has a self-punch that is still open; the employee must clock out first');
+    }
+
+    const totals = await calculateWeekTotals(existing.employee_id, existing.week_start_date);
+    const now = new Date();
+
+    const { timesheet, approvedEntryIds } = await prisma.$transaction(async (tx) => {
+      const pendingEntries = await tx.timeEntry.findMany({
+        where: { ...weekEntries, status: 'PENDING' },
+        select: { id: true },
+      });
+      const approvedEntryIds = pendingEntries.map((entry) => entry.id);
+
+      await tx.timeEntry.updateMany({
+        where: { id: { in: approvedEntryIds }, status: 'PENDING' },
+        data: {
+          status: 'APPROVED',
+          approved_by: userId,
+          approved_at: now,
+        },
+      });
+
+      const timesheet = await tx.weeklyTimesheet.update({
+        where: { id },
+        data: {
+          ...toTotalsData(totals),
+          status: 'APPROVED',
+          approved_by: userId,
+          approved_at: now,
+          rejected_by: null,
+          rejected_at: null,
+          review_comments: comments || null,
+        },
+        include: weeklyTimesheetInclude,
+      });
+
+      return { timesheet, approvedEntryIds };
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'APPROVE_WEEKLY_TIMESHEET',
+      entityType: 'WEEKLY_TIMESHEET',
+      entityId: id,
+      before: { status: existing.status },
+      after: { status: 'APPROVED', total_hours: totals.totalHours, approved_entry_ids: approvedEntryIds },
+      ipAddress,
+    });
+
+    for (const entryId of approvedEntryIds) {
+      await recordAuditLog({
+        actorId: userId,
+        action: 'APPROVE_TIME_ENTRY',
+        entityType: 'TIME_ENTRY',
+        entityId: entryId,
+        before: { status: 'PENDING' },
+        after: { status: 'APPROVED', weekly_timesheet_id: id },
+        ipAddress,
+      });
+    }
+
+    logger.info('Weekly timesheet approved', { weeklyTimesheetId: id, userId, entryCount: approvedEntryIds.length });
+    return transformWeeklyTimesheetData(timesheet);
+  } catch (error) {
+    logger.error('Error approving weekly timesheet', { id, userId, error });
+    throw error;
+  }
+};
+
+/**
+ * Reject a submitted week (or reopen an approved one) with comments for the employee.
+ * Rejecting unlocks the week's time entries for correction.
+ */
+export const rejectWeeklyTimesheet = async (
+  id: string,
+  userId: string,
+  comments: string,
+  ipAddress?: string
+) => {
+  try {
+    if (!comments || !comments.trim()) {
+      throw new Error('Comments are required when rejecting a weekly timesheet');
+    }
+
+    const existing = await prisma.weeklyTimesheet.findUnique({ where: { id } });
+
+    if (!existing) {
+      throw new Error('Weekly timesheet not found');
+    }
+
+    if (existing.status !== 'SUBMITTED' && existing.status !== 'APPROVED') {
+      throw new Error('Only submitted or approved weekly timesheets can be rejected');
+    }
+
+    await assertPayrollPeriodOpen(existing.week_start_date, existing.week_end_date);
+
+    const timesheet = await prisma.weeklyTimesheet.update({
+      where: { id },
+      data: {
+        status: 'REJECTED',
+        rejected_by: userId,
+        rejected_at: new Date(),
+        approved_by: null,
+        approved_at: null,
+        review_comments: comments.trim(),
+      },
+      include: weeklyTimesheetInclude,
+    });
+
+    await recordAuditLog({
+      actorId: userId,
+      action: 'REJECT_WEEKLY_TIMESHEET',
+      entityType: 'WEEKLY_TIMESHEET',
+      entityId: id,
+      before: { status: existing.status },
+      after: { status: 'REJECTED', review_comments: comments.trim() },
+      ipAddress,
+    });
+
+    logger.info('Weekly timesheet rejected', { weeklyTimesheetId: id, userId });
+    return transformWeeklyTimesheetData(timesheet);
+  } catch (error) {
+    logger.error('Error rejecting weekly timesheet', { id, userId, error });
+    throw error;
+  }
+};
@@ -0,0 +1,699 @@
+/**
+ * Work Order Service
+ *
+ * Business logic for service calls (work orders) including:
+ * - Numbered work orders (WO-2026-0001) for a customer and site
+ * - Optional link to a SERVICE_CALL project for billing
+ * - Dispatch workflow (open, dispatched, on site, completed, invoiced)
+ * - Materials used (quote LineItem shape), technician notes and customer signature
+ * - Technicians only see and work their own assigned calls
+ */
+
+import { randomUUID } from 'crypto';
+import { PrismaClient, WorkOrder, WorkOrderPriority, WorkOrderStatus, Prisma } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { recordAuditLog } from './audit.service';
+import { LineItem, applyLineItemEstimates, getInvalidEstimateField } from './quote.service';
+
+const prisma = new PrismaClient();
+
+// Roles that create, assign and schedule work orders. Other roles work the
+// calls assigned to their linked employee record.
+export const DISPATCHER_ROLES = ['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+
+export interface WorkOrderFilters {
+  status?: WorkOrderStatus[];
+  priority?: WorkOrderPriority;
+  assigned_employee_id?: string;
+  client_id?: string;
+  scheduledFrom?: Date;
+  scheduledTo?: Date;
+  search?: string;
+}
+
+export interface CreateWorkOrderData {
+  client_id: string;
+  project_id?: string | null;
+  site_address: string;
+  site_contact_name?: string | null;
+  site_contact_phone?: string | null;
+  problem_description: string;
+  priority?: WorkOrderPriority;
+  assigned_employee_id?: string | null;
+  scheduled_start?: Date | null;
+  scheduled_end?: Date | null;
+  materials_used?: LineItem[];
+  technician_notes?: string | null;
+}
+
+export type UpdateWorkOrderData = Partial<CreateWorkOrderData>;
+
+export interface WorkOrderSignatureData {
+  signature: string; // PNG data URL
+  signed_by_name: string;
+}
+
+export interface WorkOrderActor {
+  id: string;
+  role: string;
+}
+
+export type WorkOrderWithRelations = Omit<WorkOrder, 'materials_used' | 'customer_signature'> & {
+  materials_used: LineItem[];
+  materials_total: number;
+  customer_signature: string | null;
+  has_signature: boolean;
+  client: { id: string; name: string; phone: string | null };
+  project: { id: string; name: string; project_number: string } | null;
+  technician: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    phone: string | null;
+    mobile_phone: string | null;
+  } | null;
+  creator: { id: string; first_name: string; last_name: string };
+};
+
+// Allowed status transitions
+const STATUS_TRANSITIONS: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+  OPEN: ['DISPATCHED'],
+  DISPATCHED: ['ON_SITE', 'OPEN'],
+  ON_SITE: ['COMPLETED', 'DISPATCHED'],
+  COMPLETED: ['INVOICED', 'ON_SITE'],
+  INVOICED: ['COMPLETED'],
+};
+
+// Statuses a technician may move their own work order to
+const TECHNICIAN_STATUSES: WorkOrderStatus[] = ['ON_SITE', 'COMPLETED'];
+
+// Fields a technician may update on their own work order
+const TECHNICIAN_FIELDS: (keyof UpdateWorkOrderData)[] = ['materials_used', 'technician_notes'];
+
+// Upper bound for the signature image (base64 characters)
+const MAX_SIGNATURE_LENGTH = 500000;
+
+const workOrderInclude = {
+  client: {
+    select: {
+      id: true,
+      name: true,
+      phone: true,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      name: true,
+      project_number: true,
+    },
+  },
+  technician: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+      phone: true,
+      mobile_phone: true,
+    },
+  },
+  creator: {
+    select: {
+      id: true,
+      first_name: true,
+      last_name: true,
+    },
+  },
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Add the materials total and signature flag. List responses leave out the
+ * signature image itself.
+ */
+const transformWorkOrder = (
+  workOrder: WorkOrder & Omit<WorkOrderWithRelations, keyof WorkOrder | 'materials_total' | 'has_signature'>,
+  includeSignature = true
+): WorkOrderWithRelations => {
+  const materials = (workOrder.materials_used as unknown as LineItem[] | null) || [];
+
+  return {
+    ...workOrder,
+    materials_used: materials,
+    materials_total: roundCurrency(materials.reduce((sum, item) => sum + Number(item.total || 0), 0)),
+    customer_signature: includeSignature ? workOrder.customer_signature : null,
+    has_signature: !!workOrder.customer_signature,
+  };
+};
+
+export const isDispatcher = (actor: WorkOrderActor): boolean => DISPATCHER_ROLES.includes(actor.role);
+
+/**
+ * Get the employee record linked to a technician's user account
+ */
+const getActorEmployeeId = async (actor: WorkOrderActor): Promise<string | null> => {
+  const employee = await prisma.employee.findFirst({
+    where: { user_id: actor.id, deleted_at: null },
+    select: { id: true },
+  });
+
+  return employee?.id || null;
+};
+
+/**
+ * Ensure a technician is assigned to the work order they are working on
+ */
+const assertAssignedTechnician = async (actor: WorkOrderActor, workOrder: WorkOrderWithRelations) => {
+  if (isDispatcher(actor)) return;
+
+  const employeeId = await getActorEmployeeId(actor);
+  if (!employeeId || workOrder.assigned_employee_id !== employeeId) {
+    throw new Error('Work order is not assigned to you');
+  }
+};
+
+/**
+ * Generate the next work order number (WO-2026-0001)
+ */
+export const generateWorkOrderNumber = async (): Promise<string> => {
+  const prefix = `WO-${new Date().getFullYear()}-`;
+
+  const lastWorkOrder = await prisma.workOrder.findFirst({
+    where: { wo_number: { startsWith: prefix } },
+    orderBy: { wo_number: 'desc' },
+  });
+
+  let nextNumber = 1;
+  if (lastWorkOrder) {
+    const lastNumber = parseInt(lastWorkOrder.wo_number.replace(prefix, ''), 10);
+    nextNumber = isNaN(lastNumber) ? 1 : lastNumber + 1;
+  }
+
+  return `${prefix}${nextNumber.toString().padStart(4, '0')}`;
+};
+
+/**
+ * Validate materials used and derive their totals. An empty list is allowed.
+ */
+const prepareMaterials = (materials: LineItem[]): LineItem[] => {
+  if (!Array.isArray(materials)) {
+    throw new Error('Materials used must be a list');
+  }
+
+  return applyLineItemEstimates(materials).map((item) => {
+    if (!item.description || !item.description.trim()) {
+      throw new Error('Missing required fields: material description');
+    }
+
+    const invalidEstimateField = getInvalidEstimateField(item);
+    if (invalidEstimateField) {
+      throw new Error(`Material ${invalidEstimateField} must be a non-negative number`);
+    }
+
+    const quantity = Number(item.quantity);
+    const unitPrice = Number(item.unit_price || 0);
+
+    if (isNaN(quantity) || quantity <= 0) {
+      throw new Error('Material quantity must be greater than zero');
+    }
+
+    if (isNaN(unitPrice) || unitPrice < 0) {
+      throw new Error('Material unit price must be zero or more');
+    }
+
+    return {
+      ...item,
+      id: item.id || randomUUID(),
+      description: item.description.trim(),
+      unit: (item.unit || 'EA').trim(),
+      quantity,
+      unit_price: unitPrice,
+      total: roundCurrency(quantity * unitPrice),
+    };
+  });
+};
+
+/**
+ * Validate work order fields, checking only the fields that are present
+ */
+const validateWorkOrderData = (data: UpdateWorkOrderData, requireAll: boolean): void => {
+  if (requireAll || data.client_id !== undefined) {
+    if (!data.client_id) {
+      throw new Error('Missing required fields: client_id');
+    }
+  }
+
+  if (requireAll || data.site_address !== undefined) {
+    if (!data.site_address || !data.site_address.trim()) {
+      throw new Error('Missing required fields: site_address');
+    }
+  }
+
+  if (requireAll || data.problem_description !== undefined) {
+    if (!data.problem_description || !data.problem_description.trim()) {
+      throw new Error('Missing required fields: problem_description');
+    }
+  }
+
+  for (const value of [data.scheduled_start, data.scheduled_end]) {
+    if (value && isNaN(value.getTime())) {
+      throw new Error('Scheduled window must be valid dates');
+    }
+  }
+};
+
+/**
+ * Check the client, linked project and technician for a work order
+ */
+const validateReferences = async (
+  clientId: string,
+  projectId: string | null | undefined,
+  employeeId: string | null | undefined
+): Promise<void> => {
+  const client = await prisma.client.findFirst({
+    where: { id: clientId, deleted_at: null },
+    select: { id: true },
+  });
+
+  if (!client) {
+    throw new Error('Client not found');
+  }
+
+  if (projectId) {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, deleted_at: null },
+      select: { id: true, client_id: true, billing_type: true },
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    if (project.client_id !== clientId || project.billing_type !== 'SERVICE_CALL') {
+      throw new Error('Linked project must be a SERVICE_CALL project for the same client');
+    }
+  }
+
+  if (employeeId) {
+    const employee = await prisma.employee.findFirst({
+      where: { id: employeeId, deleted_at: null, is_active: true },
+      select: { id: true },
+    });
+
+    if (!employee) {
+      throw new Error('Technician not found');
+    }
+  }
+};
+
+/**
+ * Build the Prisma where clause for work order filters
+ */
+const buildWorkOrderWhere = (filters: WorkOrderFilters): Prisma.WorkOrderWhereInput => {
+  const where: Prisma.WorkOrderWhereInput = { deleted_at: null };
+
+  if (filters.status && filters.status.length > 0) where.status = { in: filters.status };
+  if (filters.priority) where.priority = filters.priority;
+  if (filters.assigned_employee_id) where.assigned_employee_id = filters.assigned_employee_id;
+  if (filters.client_id) where.client_id = filters.client_id;
+
+  if (filters.scheduledFrom || filters.scheduledTo) {
+    where.scheduled_start = {};
+    if (filters.scheduledFrom) where.scheduled_start.gte = filters.scheduledFrom;
+    if (filters.scheduledTo) where.scheduled_start.lte = filters.scheduledTo;
+  }
+
+  if (filters.search) {
+    where.OR = [
+      { wo_number: { contains: filters.search, mode: 'insensitive' } },
+      { site_address: { contains: filters.search, mode: 'insensitive' } },
+      { problem_description: { contains: filters.search, mode: 'insensitive' } },
+      { client: { name: { contains: filters.search, mode: 'insensitive' } } },
+    ];
+  }
+
+  return where;
+};
+
+/**
+ * Get work orders for the dispatch board. Technicians only see their own.
+ */
+export const getWorkOrders = async (
+  filters: WorkOrderFilters,
+  actor: WorkOrderActor
+): Promise<WorkOrderWithRelations[]> => {
+  try {
+    const where = buildWorkOrderWhere(filters);
+
+    if (!isDispatcher(actor)) {
+      const employeeId = await getActorEmployeeId(actor);
+      if (!employeeId) return [];
+      where.assigned_employee_id = employeeId;
+    }
+
+    const workOrders = await prisma.workOrder.findMany({
+      where,
+      include: workOrderInclude,
+      orderBy: [{ scheduled_start: { sort: 'asc', nulls: 'last' } }, { created_at: 'asc' }],
+    });
+
+    logger.info('Work orders retrieved', { count: workOrders.length, userId: actor.id });
+    return workOrders.map((workOrder) => transformWorkOrder(workOrder, false));
+  } catch (error) {
+    logger.error('Error retrieving work orders', { error, filters });
+    throw error;
+  }
+};
+
+/**
+ * Get a single work order
+ */
+export const getWorkOrderById = async (
+  workOrderId: string,
+  actor: WorkOrderActor
+): Promise<WorkOrderWithRelations> => {
+  const workOrder = await prisma.workOrder.findFirst({
+    where: { id: workOrderId, deleted_at: null },
+    include: workOrderInclude,
+  });
+
+  if (!workOrder) {
+    throw new Error('Work order not found');
+  }
+
+  const result = transformWorkOrder(workOrder);
+  await assertAssignedTechnician(actor, result);
+
+  return result;
+};
+
+/**
+ * Create a work order (starts as OPEN)
+ */
+export const createWorkOrder = async (
+  data: CreateWorkOrderData,
+  actor: WorkOrderActor,
+  ipAddress?: string
+): Promise<WorkOrderWithRelations> => {
+  try {
+    validateWorkOrderData(data, true);
+    await validateReferences(data.client_id, data.project_id, data.assigned_employee_id);
+
+    if (data.scheduled_start && data.scheduled_end && data.scheduled_end <= data.scheduled_start) {
+      throw new Error('Scheduled end must be after the scheduled start');
+    }
+
+    const woNumber = await generateWorkOrderNumber();
+
+    const workOrder = await prisma.workOrder.create({
+      data: {
+        wo_number: woNumber,
+        client_id: data.client_id,
+        project_id: data.project_id || null,
+        site_address: data.site_address.trim(),
+        site_contact_name: data.site_contact_name?.trim() || null,
+        site_contact_phone: data.site_contact_phone?.trim() || null,
+        problem_description: data.problem_description.trim(),
+        priority: data.priority || 'NORMAL',
+        assigned_employee_id: data.assigned_employee_id || null,
+        scheduled_start: data.scheduled_start || null,
+        scheduled_end: data.scheduled_end || null,
+        materials_used: prepareMaterials(data.materials_used || []) as unknown as Prisma.InputJsonValue,
+        technician_notes: data.technician_notes || null,
+        created_by: actor.id,
+        updated_by: actor.id,
+      },
+      include: workOrderInclude,
+    });
+
+    await recordAuditLog({
+      actorId: actor.id,
+      action: 'CREATE_WORK_ORDER',
+      entityType: 'WORK_ORDER',
+      entityId: workOrder.id,
+      after: { wo_number: woNumber, ...data },
+      ipAddress,
+    });
+
+    logger.info('Work order created', { workOrderId: workOrder.id, woNumber, userId: actor.id });
+    return transformWorkOrder(workOrder);
+  } catch (error) {
+    logger.error('Error creating work order', { error });
+    throw error;
+  }
+};
+
+/**
+ * Update a work order. Technicians can only record materials and notes on
+ * their own calls; invoiced work orders are locked.
+ */
+export const updateWorkOrder = async (
+  workOrderId: string,
+  data: UpdateWorkOrderData,
+  actor: WorkOrderActor,
+  ipAddress?: string
+): Promise<WorkOrderWithRelations> => {
+  try {
+    const existing = await getWorkOrderById(workOrderId, actor);
+
+    if (existing.status === 'INVOICED') {
+      throw new Error('Invoiced work orders cannot be edited');
+    }
+
+    if (!isDispatcher(actor)) {
+      const restricted = (Object.keys(data) as (keyof UpdateWorkOrderData)[]).filter(
+        (field) => data[field] !== undefined && !TECHNICIAN_FIELDS.includes(field)
+      );
+      if (restricted.length > 0) {
+        throw new Error('Technicians are not allowed to change dispatch details');
+      }
+    }
+
+    validateWorkOrderData(data, false);
+
+    const clientId = data.client_id ?? existing.client_id;
+    const projectId = data.project_id !== undefined ? data.project_id : existing.project_id;
+    const employeeId =
+      data.assigned_employee_id !== undefined ? data.assigned_employee_id : existing.assigned_employee_id;
+
+    if (data.client_id !== undefined || data.project_id !== undefined || data.assigned_employee_id !== undefined) {
+      await validateReferences(clientId, projectId, data.assigned_employee_id);
+    }
+
+    if (!employeeId && existing.status !== 'OPEN') {
+      throw new Error('A technician must be assigned once the work order is dispatched');
+    }
+
+    const scheduledStart = data.scheduled_start !== undefined ? data.scheduled_start : existing.scheduled_start;
+    const scheduledEnd = data.scheduled_end !== undefined ? data.scheduled_end : existing.scheduled_end;
+    if (scheduledStart && scheduledEnd && scheduledEnd <= scheduledStart) {
+      throw new Error('Scheduled end must be after the scheduled start');
+    }
+
+    const updateData: Prisma.WorkOrderUncheckedUpdateInput = { updated_by: actor.id };
+    if (data.client_id !== undefined) updateData.client_id = data.client_id;
+    if (data.project_id !== undefined) updateData.project_id = data.project_id || null;
+    if (data.site_address !== undefined) updateData.site_address = data.site_address.trim();
+    if (data.site_contact_name !== undefined) updateData.site_contact_name = data.site_contact_name?.trim() || null;
+    if (data.site_contact_phone !== undefined) {
+      updateData.site_contact_phone = data.site_contact_phone?.trim() || null;
+    }
+    if (data.problem_description !== undefined) updateData.problem_description = data.problem_description.trim();
+    if (data.priority !== undefined) updateData.priority = data.priority;
+    if (data.assigned_employee_id !== undefined) updateData.assigned_employee_id = data.assigned_employee_id || null;
+    if (data.scheduled_start !== undefined) updateData.scheduled_start = data.scheduled_start;
+    if (data.scheduled_end !== undefined) updateData.scheduled_end = data.scheduled_end;
+    if (data.materials_used !== undefined) {
+      updateData.materials_used = prepareMaterials(data.materials_used) as unknown as Prisma.InputJsonValue;
+    }
+    if (data.technician_notes !== undefined) updateData.technician_notes = data.technician_notes || null;
+
+    const workOrder = await prisma.workOrder.update({
+      where: { id: workOrderId },
+      data: updateData,
+      include: workOrderInclude,
+    });
+
+    await recordAuditLog({
+      actorId: actor.id,
+      action: 'UPDATE_WORK_ORDER',
+      entityType: 'WORK_ORDER',
+      entityId: workOrderId,
+      before: { ...existing, customer_signature: undefined },
+      after: data,
+      ipAddress,
+    });
+
+    logger.info('Work order updated', { workOrderId, userId: actor.id });
+    return transformWorkOrder(workOrder);
+  } catch (error) {
+    logger.error('Error updating work order', { error, workOrderId });
+    throw error;
+  }
+};
+
+/**
+ * Move a work order through the dispatch workflow
+ */
+export const updateWorkOrderStatus = async (
+  workOrderId: string,
+  status: WorkOrderStatus,
+  actor: WorkOrderActor,
+  ipAddress?: string
+): Promise<WorkOrderWithRelations> => {
+  try {
+    const existing = await getWorkOrderById(workOrderId, actor);
+
+    if (!STATUS_TRANSITIONS[existing.status].includes(status)) {
+      throw new Error(`Work order cannot be moved from ${existing.status} to ${status}`);
+    }
+
+    if (!isDispatcher(actor) && !TECHNICIAN_STATUSES.includes(status)) {
+      throw new Error('Technicians are not allowed to make this status change');
+    }
+
+    if (status === 'DISPATCHED' && !existing.assigned_employee_id) {
+      throw new Error('A technician must be assigned before dispatching');
+    }
+
+    const now = new Date();
+    const updateData: Prisma.WorkOrderUncheckedUpdateInput = { status, updated_by: actor.id };
+
+    switch (status) {
+      case 'OPEN':
+        updateData.dispatched_at = null;
+        break;
+      case 'DISPATCHED':
+        // Dispatching again after the tech left the site keeps the first dispatch time
+        if (!existing.dispatched_at) updateData.dispatched_at = now;
+        updateData.arrived_at = null;
+        break;
+      case 'ON_SITE':
+        if (existing.status === 'DISPATCHED') updateData.arrived_at = now;
+        updateData.completed_at = null;
+        break;
+      case 'COMPLETED':
+        if (existing.status === 'ON_SITE') updateData.completed_at = now;
+        updateData.invoiced_at = null;
+        break;
+      case 'INVOICED':
+        updateData.invoiced_at = now;
+        break;
+    }
+
+    const workOrder = await prisma.workOrder.update({
+      where: { id: workOrderId },
+      data: updateData,
+      include: workOrderInclude,
+    });
+
+    await recordAuditLog({
+      actorId: actor.id,
+      action: 'UPDATE_WORK_ORDER_STATUS',
+      entityType: 'WORK_ORDER',
+      entityId: workOrderId,
+      before: { status: existing.status },
+      after: { status },
+      ipAddress,
+    });
+
+    logger.info('Work order status updated', { workOrderId, status, userId: actor.id });
+    return transformWorkOrder(workOrder);
+  } catch (error) {
+    logger.error('Error updating work order status', { error, workOrderId, status });
+    throw error;
+  }
+};
+
+/**
+ * Capture the customer's signature once the technician is on site
+ */
+export const signWorkOrder = async (
+  workOrderId: string,
+  data: WorkOrderSignatureData,
+  actor: WorkOrderActor,
+  ipAddress?: string
+): Promise<WorkOrderWithRelations> => {
+  try {
+    const existing = await getWorkOrderById(workOrderId, actor);
+
+    if (existing.status !== 'ON_SITE' && existing.status !== 'COMPLETED') {
+      throw new Error('Customer signature cannot be captured before the technician is on site');
+    }
+
+    if (!data.signed_by_name || !data.signed_by_name.trim()) {
+      throw new Error('Missing required fields: signed_by_name');
+    }
+
+    if (
+      !data.signature ||
+      !/^data:image\/png;base64,[A-Za-z0-9+/=]+$/.test(data.signature) ||
+      data.signature.length > MAX_SIGNATURE_LENGTH
+    ) {
+      throw new Error('Signature must be a PNG image');
+    }
+
+    const workOrder = await prisma.workOrder.update({
+      where: { id: workOrderId },
+      data: {
+        customer_signature: data.signature,
+        signed_by_name: data.signed_by_name.trim(),
+        signed_at: new Date(),
+        updated_by: actor.id,
+      },
+      include: workOrderInclude,
+    });
+
+    await recordAuditLog({
+      actorId: actor.id,
+      action: 'SIGN_WORK_ORDER',
+      entityType: 'WORK_ORDER',
+      entityId: workOrderId,
+      after: { signed_by_name: data.signed_by_name.trim() },
+      ipAddress,
+    });
+
+    logger.info('Work order signed', { workOrderId, userId: actor.id });
+    return transformWorkOrder(workOrder);
+  } catch (error) {
+    logger.error('Error signing work order', { error, workOrderId });
+    throw error;
+  }
+};
+
+/**
+ * Soft delete a work order. Invoiced work orders are kept.
+ */
+export const deleteWorkOrder = async (
+  workOrderId: string,
+  actor: WorkOrderActor,
+  ipAddress?: string
+): Promise<void> => {
+  try {
+    const existing = await getWorkOrderById(workOrderId, actor);
+
+    if (existing.status === 'INVOICED') {
+      throw new Error('Invoiced work orders cannot be deleted');
+    }
+
+    await prisma.workOrder.update({
+      where: { id: workOrderId },
+      data: { deleted_at: new Date(), updated_by: actor.id },
+    });
+
+    await recordAuditLog({
+      actorId: actor.id,
+      action: 'DELETE_WORK_ORDER',
+      entityType: 'WORK_ORDER',
+      entityId: workOrderId,
+      before: { ...existing, customer_signature: undefined },
+      ipAddress,
+    });
+
+    logger.info('Work order deleted', { workOrderId, userId: actor.id });
+  } catch (error) {
+    logger.error('Error deleting work order', { error, workOrderId });
+    throw error;
+  }
+};
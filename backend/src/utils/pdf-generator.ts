@@ -1,10 +1,12 @@
 import PDFDocument from 'pdfkit';
 import { Response } from 'express';
 import { logger } from './logger';
+import type { ScheduleOfValuesLine, TimeAndMaterialsLine } from '../services/invoice.service';
 
 /**
  * PDF Generator Utility
- * Generates professional-looking PDFs for timesheets
+ * Generates professional-looking PDFs for timesheets, certified payroll, quotes,
+ * change order logs and invoices
  */
 
 interface TimesheetPDFData {
@@ -34,6 +36,155 @@ interface TimesheetPDFData {
   }>;
 }
 
+interface CertifiedPayrollPDFData {
+  project: {
+    name: string;
+    projectNumber: string;
+    location: string | null;
+    address: string | null;
+  };
+  days: string[];
+  employees: Array<{
+    name: string;
+    employeeNumber: string | null;
+    classification: string;
+    straightTimeHours: number[];
+    overtimeHours: number[];
+    totalStraightTimeHours: number;
+    totalOvertimeHours: number;
+    rate: number;
+    overtimeRate: number;
+    grossThisProject: number;
+    grossAllWork: number;
+    fringeBenefits: number;
+  }>;
+  totals: {
+    straightTimeHours: number;
+    overtimeHours: number;
+    grossThisProject: number;
+    fringeBenefits: number;
+  };
+}
+
+interface QuotePDFData {
+  quoteNumber: string;
+  projectName: string;
+  createdAt: Date;
+  validUntil: Date | null;
+  notes: string | null;
+  lineItems: Array<{
+    description: string;
+    quantity: number;
+    unit: string;
+    unit_price: number;
+    total: number;
+    category?: string;
+    notes?: string;
+  }>;
+  subtotal: number;
+  tax: number | null;
+  total: number;
+  client: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+  };
+  contact: {
+    name: string;
+    title: string | null;
+    phone: string | null;
+    email: string | null;
+  } | null;
+  preparedBy: {
+    name: string;
+    email: string;
+  };
+}
+
+interface ChangeOrderLogPDFData {
+  project: {
+    name: string;
+    project_number: string;
+    client_name: string;
+    address: string | null;
+  };
+  originalContract: number;
+  approvedTotal: number;
+  pendingTotal: number;
+  revisedContract: number;
+  approvedScheduleDays: number;
+  changeOrders: Array<{
+    co_label: string;
+    title: string;
+    reason: string | null;
+    status: string;
+    submitted_at: Date | null;
+    client_approval_date: Date | null;
+    schedule_impact_days: number;
+    total: number;
+  }>;
+}
+
+interface InvoicePDFData {
+  invoice: {
+    invoice_number: string;
+    type: 'PROGRESS' | 'TIME_AND_MATERIALS';
+    status: string;
+    application_number: number | null;
+    invoice_date: Date;
+    due_date: Date | null;
+    period_start: Date | null;
+    period_end: Date;
+    line_items: ScheduleOfValuesLine[] | TimeAndMaterialsLine[];
+    original_contract: number | null;
+    change_orders_total: number | null;
+    completed_to_date: number | null;
+    subtotal: number;
+    retainage_percent: number;
+    retainage_amount: number;
+    previous_billed: number;
+    amount_due: number;
+    notes: string | null;
+  };
+  project: {
+    name: string;
+    project_number: string;
+    address: string | null;
+  };
+  client: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+  };
+  contact: {
+    name: string;
+    title: string | null;
+  } | null;
+}
+
+/**
+ * Company details printed on generated documents (configured via environment)
+ */
+const getCompanyInfo = () => ({
+  name: process.env.COMPANY_NAME || 'Electrical Contractor',
+  address: process.env.COMPANY_ADDRESS || '',
+  phone: process.env.COMPANY_PHONE || '',
+  email: process.env.COMPANY_EMAIL || '',
+  license: process.env.COMPANY_LICENSE || '',
+});
+
+/**
+ * Default proposal terms, overridable with QUOTE_TERMS
+ */
+const DEFAULT_QUOTE_TERMS = [
+  'Pricing is valid until the date shown above and is subject to change after that date.',
+  'Work not described in this proposal will be performed only by written change order.',
+  'Payment is due within 30 days of invoice unless otherwise agreed in writing.',
+  'Permits, inspections and utility fees are included only where listed as line items.',
+].join('\n');
+
 /**
  * Generate and stream a timesheet PDF
  */
@@ -255,6 +406,1174 @@ export const generateTimesheetPDF = (data: TimesheetPDFData, res: Response): voi
   }
 };
 
+/**
+ * Generate and stream a certified payroll PDF in the WH-347 layout:
+ * payroll table (one straight-time and one overtime row per employee)
+ * followed by the Statement of Compliance
+ */
+export const generateCertifiedPayrollPDF = (data: CertifiedPayrollPDFData, res: Response): void => {
+  try {
+    const company = getCompanyInfo();
+    const weekEnding = data.days[data.days.length - 1] || '';
+
+    // Landscape letter: 792 x 612 points
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      layout: 'landscape',
+      bufferPages: true,
+      margins: {
+        top: 30,
+        bottom: 30,
+        left: 30,
+        right: 30,
+      },
+    });
+
+    // Set response headers
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename=certified-payroll-${data.project.projectNumber}-${weekEnding}.pdf`
+    );
+
+    // Pipe the PDF to the response
+    doc.pipe(res);
+
+    // Column layout (x positions and widths)
+    const columns = {
+      name: { x: 30, width: 130 },
+      type: { x: 162, width: 14 },
+      days: { x: 178, step: 30, width: 28 },
+      total: { x: 390, width: 32 },
+      rate: { x: 424, width: 40 },
+      gross: { x: 466, width: 60 },
+      fringe: { x: 528, width: 44 },
+      fica: { x: 574, width: 36 },
+      withholding: { x: 612, width: 36 },
+      other: { x: 650, width: 36 },
+      totalDeductions: { x: 688, width: 36 },
+      net: { x: 726, width: 36 },
+    };
+    const rightEdge = 762;
+
+    const money = (value: number) => value.toFixed(2);
+    const hours = (value: number) => (value ? value.toFixed(2) : '');
+
+    const drawPageHeader = () => {
+      doc
+        .fontSize(14)
+        .font('Helvetica-Bold')
+        .text('CERTIFIED PAYROLL', 30, 30, { width: 732, align: 'center' })
+        .fontSize(8)
+        .font('Helvetica')
+        .text('(Format of U.S. Department of Labor Form WH-347)', 30, 47, {
+          width: 732,
+          align: 'center',
+        });
+
+      doc
+        .fontSize(8)
+        .font('Helvetica-Bold')
+        .text('Contractor:', 30, 65)
+        .font('Helvetica')
+        .text(
+          [company.name, company.address, company.phone].filter(Boolean).join(' | '),
+          85,
+          65,
+          { width: 300 }
+        )
+        .font('Helvetica-Bold')
+        .text('Project:', 400, 65)
+        .font('Helvetica')
+        .text(`${data.project.name} (${data.project.projectNumber})`, 445, 65, { width: 317 })
+        .font('Helvetica-Bold')
+        .text('Location:', 400, 77)
+        .font('Helvetica')
+        .text(data.project.address || data.project.location || '-', 445, 77, { width: 317 })
+        .font('Helvetica-Bold')
+        .text('Week Ending:', 30, 77)
+        .font('Helvetica')
+        .text(formatDateForDisplay(`${weekEnding}T00:00:00.000Z`, 'UTC'), 85, 77);
+
+      // Table headers
+      const y = 98;
+      doc.fontSize(7).font('Helvetica-Bold');
+      doc.text('Name / ID / Classification', columns.name.x, y, { width: columns.name.width });
+      doc.text('', columns.type.x, y);
+      data.days.forEach((day, i) => {
+        const date = new Date(`${day}T00:00:00.000Z`);
+        const label = date.toLocaleDateString('en-US', {
+          weekday: 'short',
+          month: 'numeric',
+          day: 'numeric',
+          timeZone: 'UTC',
+        });
+        doc.text(label, columns.days.x + i * columns.days.step, y, {
+          width: columns.days.width,
+          align: 'center',
+        });
+      });
+      doc.text('Total Hours', columns.total.x, y, { width: columns.total.width, align: 'center' });
+      doc.text('Rate of Pay', columns.rate.x, y, { width: columns.rate.width, align: 'center' });
+      doc.text('Gross Earned Project / All', columns.gross.x, y, {
+        width: columns.gross.width,
+        align: 'center',
+      });
+      doc.text('Fringe Benefits', columns.fringe.x, y, { width: columns.fringe.width, align: 'center' });
+      doc.text('FICA', columns.fica.x, y, { width: columns.fica.width, align: 'center' });
+      doc.text('With-holding', columns.withholding.x, y, {
+        width: columns.withholding.width,
+        align: 'center',
+      });
+      doc.text('Other', columns.other.x, y, { width: columns.other.width, align: 'center' });
+      doc.text('Total Deduct.', columns.totalDeductions.x, y, {
+        width: columns.totalDeductions.width,
+        align: 'center',
+      });
+      doc.text('Net Wages', columns.net.x, y, { width: columns.net.width, align: 'center' });
+
+      doc.moveTo(30, 122).lineTo(rightEdge, 122).stroke();
+
+      return 127;
+    };
+
+    let yPosition = drawPageHeader();
+
+    doc.fontSize(7).font('Helvetica');
+
+    data.employees.forEach((employee) => {
+      // Check if we need a new page (each employee uses 36 points)
+      if (yPosition > 530) {
+        doc.addPage();
+        yPosition = drawPageHeader();
+        doc.fontSize(7).font('Helvetica');
+      }
+
+      // Name, identifying number and classification
+      doc.font('Helvetica-Bold').text(employee.name, columns.name.x, yPosition, {
+        width: columns.name.width,
+        ellipsis: true,
+        lineBreak: false,
+      });
+      doc
+        .font('Helvetica')
+        .text(`ID: ${employee.employeeNumber || '-'}`, columns.name.x, yPosition + 10, {
+          width: columns.name.width,
+          lineBreak: false,
+        })
+        .text(employee.classification, columns.name.x, yPosition + 20, {
+          width: columns.name.width,
+          ellipsis: true,
+          lineBreak: false,
+        });
+
+      // Straight time (S) and overtime (O) rows
+      const rows = [
+        {
+          label: 'S',
+          daily: employee.straightTimeHours,
+          total: employee.totalStraightTimeHours,
+          rate: employee.rate,
+        },
+        {
+          label: 'O',
+          daily: employee.overtimeHours,
+          total: employee.totalOvertimeHours,
+          rate: employee.overtimeRate,
+        },
+      ];
+
+      rows.forEach((row, rowIndex) => {
+        const rowY = yPosition + rowIndex * 14;
+        doc.text(row.label, columns.type.x, rowY, { width: columns.type.width });
+        row.daily.forEach((value, i) => {
+          doc.text(hours(value), columns.days.x + i * columns.days.step, rowY, {
+            width: columns.days.width,
+            align: 'center',
+          });
+        });
+        doc.text(hours(row.total), columns.total.x, rowY, {
+          width: columns.total.width,
+          align: 'center',
+        });
+        doc.text(money(row.rate), columns.rate.x, rowY, {
+          width: columns.rate.width,
+          align: 'center',
+        });
+      });
+
+      doc
+        .text(money(employee.grossThisProject), columns.gross.x, yPosition, {
+          width: columns.gross.width,
+          align: 'center',
+        })
+        .text(money(employee.grossAllWork), columns.gross.x, yPosition + 14, {
+          width: columns.gross.width,
+          align: 'center',
+        })
+        .text(money(employee.fringeBenefits), columns.fringe.x, yPosition, {
+          width: columns.fringe.width,
+          align: 'center',
+        });
+
+      // Deduction columns are left blank for the payroll provider
+      yPosition += 32;
+      doc
+        .moveTo(30, yPosition)
+        .lineTo(rightEdge, yPosition)
+        .lineWidth(0.5)
+        .stroke()
+        .lineWidth(1);
+      yPosition += 4;
+    });
+
+    if (data.employees.length === 0) {
+      doc.text('No work performed on this project during the payroll week.', 30, yPosition);
+      yPosition += 20;
+    }
+
+    // Totals
+    doc
+      .fontSize(8)
+      .font('Helvetica-Bold')
+      .text(
+        `Totals: ${data.totals.straightTimeHours.toFixed(2)} straight-time hours, ` +
+          `${data.totals.overtimeHours.toFixed(2)} overtime hours, ` +
+          `$${money(data.totals.grossThisProject)} gross earned on this project, ` +
+          `$${money(data.totals.fringeBenefits)} fringe benefits`,
+        30,
+        yPosition + 4,
+        { width: 732 }
+      );
+
+    // Statement of Compliance
+    doc.addPage();
+    doc
+      .fontSize(14)
+      .font('Helvetica-Bold')
+      .text('STATEMENT OF COMPLIANCE', 30, 40, { width: 732, align: 'center' });
+
+    doc
+      .fontSize(10)
+      .font('Helvetica')
+      .text('Date: ______________________', 30, 80)
+      .moveDown(1)
+      .text(
+        'I, ________________________________ (Name of Signatory Party), ' +
+          '________________________ (Title), do hereby state:',
+        { width: 732 }
+      )
+      .moveDown(1)
+      .text(
+        `(1) That I pay or supervise the payment of the persons employed by ${company.name} on the ` +
+          `${data.project.name} (${data.project.projectNumber}); that during the payroll period ` +
+          `commencing on ${formatDateForDisplay(`${data.days[0]}T00:00:00.000Z`, 'UTC')} and ending ` +
+          `on ${formatDateForDisplay(`${weekEnding}T00:00:00.000Z`, 'UTC')}, all persons employed on ` +
+          'said project have been paid the full weekly wages earned, that no rebates have been or ' +
+          'will be made either directly or indirectly from the full wages earned by any person, ' +
+          'other than permissible deductions.',
+        { width: 732 }
+      )
+      .moveDown(1)
+      .text(
+        '(2) That any payrolls otherwise under this contract required to be submitted for the above ' +
+          'period are correct and complete; that the wage rates for laborers or mechanics contained ' +
+          'therein are not less than the applicable wage rates contained in any wage determination ' +
+          'incorporated into the contract; that the classifications set forth therein for each ' +
+          'laborer or mechanic conform with the work performed.',
+        { width: 732 }
+      )
+      .moveDown(1)
+      .text(
+        '(3) That any apprentices employed in the above period are duly registered in a bona fide ' +
+          'apprenticeship program registered with a State apprenticeship agency or the Office of ' +
+          'Apprenticeship.',
+        { width: 732 }
+      )
+      .moveDown(1)
+      .text('(4) That:', { width: 732 })
+      .text('[  ] (a) Where fringe benefits are paid to approved plans, funds, or programs', {
+        indent: 20,
+      })
+      .text('[  ] (b) Where fringe benefits are paid in cash', { indent: 20 })
+      .moveDown(1)
+      .text('(c) Exceptions: ____________________________________________________________', {
+        width: 732,
+      })
+      .moveDown(1)
+      .text('Remarks: __________________________________________________________________', {
+        width: 732,
+      });
+
+    doc
+      .moveTo(30, 470)
+      .lineTo(330, 470)
+      .stroke()
+      .moveTo(430, 470)
+      .lineTo(762, 470)
+      .stroke()
+      .fontSize(9)
+      .text('Name and Title', 30, 475)
+      .text('Signature', 430, 475)
+      .fontSize(8)
+      .text(
+        'The willful falsification of any of the above statements may subject the contractor or ' +
+          'subcontractor to civil or criminal prosecution.',
+        30,
+        505,
+        { width: 732 }
+      );
+
+    // Add footer to all pages BEFORE finalizing
+    const range = doc.bufferedPageRange();
+    const pageCount = range.count;
+
+    for (let i = 0; i < pageCount; i++) {
+      doc.switchToPage(i);
+
+      // Landscape letter is 612 points tall, bottom margin at 30
+      doc
+        .fontSize(7)
+        .font('Helvetica')
+        .text(
+          `Page ${i + 1} of ${pageCount} | Generated on ${new Date().toLocaleString()}`,
+          30,
+          570,
+          { align: 'center', width: 732, lineBreak: false }
+        );
+    }
+
+    // Finalize the PDF
+    doc.end();
+
+    logger.info('Certified payroll PDF generated successfully', {
+      projectNumber: data.project.projectNumber,
+      weekEnding,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error generating certified payroll PDF', { error: message });
+    throw new Error('Failed to generate PDF');
+  }
+};
+
+/**
+ * Generate and stream a customer-facing quote proposal PDF
+ */
+export const generateQuotePDF = (data: QuotePDFData, res: Response): void => {
+  try {
+    const company = getCompanyInfo();
+
+    // Create a new PDF document
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      bufferPages: true,
+      margins: {
+        top: 50,
+        bottom: 50,
+        left: 50,
+        right: 50,
+      },
+    });
+
+    // Set response headers
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=quote-${data.quoteNumber}.pdf`);
+
+    // Pipe the PDF to the response
+    doc.pipe(res);
+
+    const money = (value: number) =>
+      new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+    // Company header
+    doc.fontSize(18).font('Helvetica-Bold').text(company.name, 50, 50, { width: 300 });
+    doc.fontSize(9).font('Helvetica');
+    [company.address, company.phone, company.email, company.license && `License #${company.license}`]
+      .filter(Boolean)
+      .forEach((line) => doc.text(line as string, { width: 300 }));
+
+    doc
+      .fontSize(20)
+      .font('Helvetica-Bold')
+      .text('PROPOSAL', 362, 50, { width: 200, align: 'right' })
+      .fontSize(9)
+      .font('Helvetica')
+      .text(`Quote #: ${data.quoteNumber}`, 362, 76, { width: 200, align: 'right' })
+      .text(`Date: ${formatDateForDisplay(data.createdAt.toISOString())}`, 362, 88, {
+        width: 200,
+        align: 'right',
+      })
+      .text(
+        `Valid Until: ${data.validUntil ? formatDateForDisplay(data.validUntil.toISOString()) : 'N/A'}`,
+        362,
+        100,
+        { width: 200, align: 'right' }
+      );
+
+    doc.moveTo(50, 130).lineTo(562, 130).stroke();
+
+    // Client / contact block
+    doc.fontSize(10).font('Helvetica-Bold').text('Prepared For', 50, 142);
+    doc.fontSize(9).font('Helvetica').text(data.client.name, 50, 157, { width: 250 });
+    [data.client.address, data.client.phone, data.client.email]
+      .filter(Boolean)
+      .forEach((line) => doc.text(line as string, { width: 250 }));
+    if (data.contact) {
+      doc
+        .moveDown(0.5)
+        .text(
+          `Attn: ${data.contact.name}${data.contact.title ? `, ${data.contact.title}` : ''}`,
+          { width: 250 }
+        );
+      [data.contact.phone, data.contact.email]
+        .filter(Boolean)
+        .forEach((line) => doc.text(line as string, { width: 250 }));
+    }
+    const clientBlockBottom = doc.y;
+
+    doc.fontSize(10).font('Helvetica-Bold').text('Project', 312, 142);
+    doc
+      .fontSize(9)
+      .font('Helvetica')
+      .text(data.projectName, 312, 157, { width: 250 })
+      .moveDown(0.5)
+      .text(`Prepared By: ${data.preparedBy.name}`, { width: 250 })
+      .text(data.preparedBy.email, { width: 250 });
+
+    let yPosition = Math.max(clientBlockBottom, doc.y) + 20;
+
+    // Line items grouped by category
+    const categories = new Map<string, QuotePDFData['lineItems']>();
+    data.lineItems.forEach((item) => {
+      const category = item.category || 'General';
+      const items = categories.get(category) || [];
+      items.push(item);
+      categories.set(category, items);
+    });
+
+    const drawTableHeader = () => {
+      doc
+        .fontSize(9)
+        .font('Helvetica-Bold')
+        .text('Description', 50, yPosition)
+        .text('Qty', 330, yPosition, { width: 50, align: 'right' })
+        .text('Unit', 390, yPosition, { width: 40 })
+        .text('Unit Price', 430, yPosition, { width: 62, align: 'right' })
+        .text('Total', 500, yPosition, { width: 62, align: 'right' });
+      yPosition += 14;
+      doc.moveTo(50, yPosition).lineTo(562, yPosition).stroke();
+      yPosition += 6;
+    };
+
+    drawTableHeader();
+
+    categories.forEach((items, category) => {
+      if (yPosition > 660) {
+        doc.addPage();
+        yPosition = 50;
+        drawTableHeader();
+      }
+
+      doc.fontSize(10).font('Helvetica-Bold').text(category, 50, yPosition);
+      yPosition += 15;
+
+      doc.fontSize(9).font('Helvetica');
+      items.forEach((item) => {
+        if (yPosition > 680) {
+          doc.addPage();
+          yPosition = 50;
+          drawTableHeader();
+          doc.fontSize(9).font('Helvetica');
+        }
+
+        doc.text(item.description, 60, yPosition, { width: 265 });
+        let rowBottom = doc.y;
+        if (item.notes) {
+          doc.fontSize(8).fillColor('#555555').text(item.notes, 60, rowBottom, { width: 265 });
+          doc.fontSize(9).fillColor('black');
+          rowBottom = doc.y;
+        }
+
+        doc
+          .text(item.quantity.toString(), 330, yPosition, { width: 50, align: 'right' })
+          .text(item.unit, 390, yPosition, { width: 40 })
+          .text(money(item.unit_price), 430, yPosition, { width: 62, align: 'right' })
+          .text(money(item.total), 500, yPosition, { width: 62, align: 'right' });
+
+        yPosition = Math.max(rowBottom, yPosition + 12) + 4;
+      });
+
+      // Category subtotal
+      const categoryTotal = items.reduce((sum, item) => sum + item.total, 0);
+      doc
+        .font('Helvetica-Oblique')
+        .text(`${category} Subtotal`, 330, yPosition, { width: 162, align: 'right' })
+        .text(money(categoryTotal), 500, yPosition, { width: 62, align: 'right' });
+      yPosition += 20;
+    });
+
+    // Totals
+    if (yPosition > 640) {
+      doc.addPage();
+      yPosition = 50;
+    }
+
+    doc.moveTo(380, yPosition).lineTo(562, yPosition).stroke();
+    yPosition += 8;
+    doc
+      .fontSize(10)
+      .font('Helvetica')
+      .text('Subtotal', 380, yPosition, { width: 112 })
+      .text(money(data.subtotal), 492, yPosition, { width: 70, align: 'right' });
+    yPosition += 15;
+    if (data.tax !== null) {
+      doc
+        .text('Tax', 380, yPosition, { width: 112 })
+        .text(money(data.tax), 492, yPosition, { width: 70, align: 'right' });
+      yPosition += 15;
+    }
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(12)
+      .text('Total', 380, yPosition, { width: 112 })
+      .text(money(data.total), 472, yPosition, { width: 90, align: 'right' });
+    yPosition += 30;
+
+    // Notes
+    if (data.notes) {
+      doc.fontSize(10).font('Helvetica-Bold').text('Notes', 50, yPosition);
+      doc.fontSize(9).font('Helvetica').text(data.notes, 50, yPosition + 14, { width: 512 });
+      yPosition = doc.y + 15;
+    }
+
+    // Terms and signatures
+    if (yPosition > 520) {
+      doc.addPage();
+      yPosition = 50;
+    }
+
+    doc.fontSize(10).font('Helvetica-Bold').text('Terms & Conditions', 50, yPosition);
+    doc
+      .fontSize(8)
+      .font('Helvetica')
+      .text(
+        (process.env.QUOTE_TERMS || DEFAULT_QUOTE_TERMS).replace(/\\n/g, '\n'),
+        50,
+        yPosition + 14,
+        { width: 512 }
+      );
+    yPosition = doc.y + 20;
+
+    doc
+      .fontSize(9)
+      .text(
+        'By signing below, the client accepts this proposal, including the scope, price and terms above.',
+        50,
+        yPosition,
+        { width: 512 }
+      );
+    yPosition += 40;
+
+    // Signature lines
+    doc
+      .moveTo(50, yPosition)
+      .lineTo(280, yPosition)
+      .stroke()
+      .moveTo(332, yPosition)
+      .lineTo(562, yPosition)
+      .stroke()
+      .fontSize(8)
+      .text(`Client Signature / Date (${data.client.name})`, 50, yPosition + 4, { width: 230 })
+      .text(`Authorized Signature / Date (${company.name})`, 332, yPosition + 4, { width: 230 });
+
+    yPosition += 40;
+    doc
+      .moveTo(50, yPosition)
+      .lineTo(280, yPosition)
+      .stroke()
+      .moveTo(332, yPosition)
+      .lineTo(562, yPosition)
+      .stroke()
+      .text('Printed Name / Title', 50, yPosition + 4, { width: 230 })
+      .text('Printed Name / Title', 332, yPosition + 4, { width: 230 });
+
+    // Add footer to all pages BEFORE finalizing
+    const range = doc.bufferedPageRange();
+    const pageCount = range.count;
+
+    for (let i = 0; i < pageCount; i++) {
+      doc.switchToPage(i);
+
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .text(`${company.name} | Quote ${data.quoteNumber} | Page ${i + 1} of ${pageCount}`, 50, 722, {
+          align: 'center',
+          width: 512,
+          lineBreak: false,
+        });
+    }
+
+    // Finalize the PDF
+    doc.end();
+
+    logger.info('Quote PDF generated successfully', { quoteNumber: data.quoteNumber });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error generating quote PDF', { error: message });
+    throw new Error('Failed to generate PDF');
+  }
+};
+
+/**
+ * Generate and stream a change order log PDF for a project
+ */
+export const generateChangeOrderLogPDF = (data: ChangeOrderLogPDFData, res: Response): void => {
+  try {
+    const company = getCompanyInfo();
+
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      bufferPages: true,
+      margins: {
+        top: 50,
+        bottom: 50,
+        left: 50,
+        right: 50,
+      },
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename=change-order-log-${data.project.project_number}.pdf`
+    );
+
+    doc.pipe(res);
+
+    const money = (value: number) =>
+      new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+    const shortDate = (date: Date | null) => (date ? new Date(date).toLocaleDateString('en-US') : '-');
+
+    // Company header
+    doc.fontSize(18).font('Helvetica-Bold').text(company.name, 50, 50, { width: 300 });
+    doc.fontSize(9).font('Helvetica');
+    [company.address, company.phone, company.email, company.license && `License #${company.license}`]
+      .filter(Boolean)
+      .forEach((line) => doc.text(line as string, { width: 300 }));
+
+    doc
+      .fontSize(16)
+      .font('Helvetica-Bold')
+      .text('CHANGE ORDER LOG', 312, 50, { width: 250, align: 'right' })
+      .fontSize(9)
+      .font('Helvetica')
+      .text(`Project #: ${data.project.project_number}`, 312, 72, { width: 250, align: 'right' })
+      .text(`Printed: ${formatDateForDisplay(new Date().toISOString())}`, 312, 84, {
+        width: 250,
+        align: 'right',
+      });
+
+    doc.moveTo(50, 130).lineTo(562, 130).stroke();
+
+    // Project block
+    doc.fontSize(10).font('Helvetica-Bold').text('Project', 50, 142);
+    doc.fontSize(9).font('Helvetica').text(data.project.name, 50, 157, { width: 250 });
+    doc.text(data.project.client_name, { width: 250 });
+    if (data.project.address) {
+      doc.text(data.project.address, { width: 250 });
+    }
+    const projectBlockBottom = doc.y;
+
+    // Contract summary
+    const summaryRows: Array<[string, string]> = [
+      ['Original Contract', money(data.originalContract)],
+      ['Approved Change Orders', money(data.approvedTotal)],
+      ['Revised Contract', money(data.revisedContract)],
+      ['Pending Change Orders', money(data.pendingTotal)],
+      ['Approved Schedule Impact', `${data.approvedScheduleDays} day${data.approvedScheduleDays === 1 ? '' : 's'}`],
+    ];
+
+    doc.fontSize(10).font('Helvetica-Bold').text('Contract Summary', 342, 142);
+    let summaryY = 157;
+    summaryRows.forEach(([label, value]) => {
+      doc
+        .fontSize(9)
+        .font(label === 'Revised Contract' ? 'Helvetica-Bold' : 'Helvetica')
+        .text(label, 342, summaryY, { width: 130 })
+        .text(value, 472, summaryY, { width: 90, align: 'right' });
+      summaryY += 13;
+    });
+
+    let yPosition = Math.max(projectBlockBottom, summaryY) + 20;
+
+    const drawTableHeader = () => {
+      doc
+        .fontSize(9)
+        .font('Helvetica-Bold')
+        .text('CO #', 50, yPosition, { width: 50 })
+        .text('Title', 100, yPosition, { width: 170 })
+        .text('Status', 275, yPosition, { width: 60 })
+        .text('Submitted', 335, yPosition, { width: 60 })
+        .text('Approved', 395, yPosition, { width: 60 })
+        .text('Days', 455, yPosition, { width: 35, align: 'right' })
+        .text('Amount', 492, yPosition, { width: 70, align: 'right' });
+      yPosition += 14;
+      doc.moveTo(50, yPosition).lineTo(562, yPosition).stroke();
+      yPosition += 6;
+    };
+
+    drawTableHeader();
+
+    if (data.changeOrders.length === 0) {
+      doc.fontSize(9).font('Helvetica-Oblique').text('No change orders recorded.', 50, yPosition);
+      yPosition += 20;
+    }
+
+    data.changeOrders.forEach((changeOrder) => {
+      if (yPosition > 680) {
+        doc.addPage();
+        yPosition = 50;
+        drawTableHeader();
+      }
+
+      doc.fontSize(9).font('Helvetica').text(changeOrder.title, 100, yPosition, { width: 170 });
+      let rowBottom = doc.y;
+      if (changeOrder.reason) {
+        doc.fontSize(8).fillColor('#555555').text(changeOrder.reason, 100, rowBottom, { width: 170 });
+        doc.fontSize(9).fillColor('black');
+        rowBottom = doc.y;
+      }
+
+      doc
+        .text(changeOrder.co_label, 50, yPosition, { width: 50 })
+        .text(changeOrder.status, 275, yPosition, { width: 60 })
+        .text(shortDate(changeOrder.submitted_at), 335, yPosition, { width: 60 })
+        .text(shortDate(changeOrder.client_approval_date), 395, yPosition, { width: 60 })
+        .text(changeOrder.schedule_impact_days.toString(), 455, yPosition, { width: 35, align: 'right' })
+        .text(money(changeOrder.total), 492, yPosition, { width: 70, align: 'right' });
+
+      yPosition = Math.max(rowBottom, yPosition + 12) + 6;
+    });
+
+    // Totals
+    if (yPosition > 660) {
+      doc.addPage();
+      yPosition = 50;
+    }
+
+    doc.moveTo(342, yPosition).lineTo(562, yPosition).stroke();
+    yPosition += 8;
+    doc
+      .fontSize(10)
+      .font('Helvetica-Bold')
+      .text('Revised Contract', 342, yPosition, { width: 130 })
+      .text(money(data.revisedContract), 472, yPosition, { width: 90, align: 'right' });
+
+    // Add footer to all pages BEFORE finalizing
+    const range = doc.bufferedPageRange();
+    const pageCount = range.count;
+
+    for (let i = 0; i < pageCount; i++) {
+      doc.switchToPage(i);
+
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .text(
+          `${company.name} | Change Order Log ${data.project.project_number} | Page ${i + 1} of ${pageCount}`,
+          50,
+          722,
+          {
+            align: 'center',
+            width: 512,
+            lineBreak: false,
+          }
+        );
+    }
+
+    doc.end();
+
+    logger.info('Change order log PDF generated successfully', {
+      projectNumber: data.project.project_number,
+      changeOrders: data.changeOrders.length,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error generating change order log PDF', { error: message });
+    throw new Error('Failed to generate PDF');
+  }
+};
+
+/**
+ * Generate and stream an invoice PDF: a G702/G703 style pay application for
+ * progress billing, or a line item invoice for time & materials
+ */
+export const generateInvoicePDF = (data: InvoicePDFData, res: Response): void => {
+  try {
+    const company = getCompanyInfo();
+    const { invoice } = data;
+    const isProgress = invoice.type === 'PROGRESS';
+
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      bufferPages: true,
+      margins: {
+        top: 50,
+        bottom: 50,
+        left: 50,
+        right: 50,
+      },
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename=invoice-${invoice.invoice_number}.pdf`);
+
+    doc.pipe(res);
+
+    const money = (value: number) =>
+      new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+    const shortDate = (date: Date | null) => (date ? new Date(date).toLocaleDateString('en-US') : '-');
+    const period = `${invoice.period_start ? `${shortDate(invoice.period_start)} - ` : 'Through '}${shortDate(
+      invoice.period_end
+    )}`;
+
+    // Company header
+    doc.fontSize(18).font('Helvetica-Bold').text(company.name, 50, 50, { width: 300 });
+    doc.fontSize(9).font('Helvetica');
+    [company.address, company.phone, company.email, company.license && `License #${company.license}`]
+      .filter(Boolean)
+      .forEach((line) => doc.text(line as string, { width: 300 }));
+
+    doc
+      .fontSize(isProgress ? 12 : 20)
+      .font('Helvetica-Bold')
+      .text(isProgress ? 'APPLICATION AND CERTIFICATE\nFOR PAYMENT' : 'INVOICE', 312, 50, {
+        width: 250,
+        align: 'right',
+      })
+      .fontSize(9)
+      .font('Helvetica');
+
+    const headerLines = [
+      `Invoice #: ${invoice.invoice_number}`,
+      ...(invoice.application_number ? [`Application #: ${invoice.application_number}`] : []),
+      `Date: ${shortDate(invoice.invoice_date)}`,
+      `Period: ${period}`,
+      ...(invoice.due_date ? [`Due: ${shortDate(invoice.due_date)}`] : []),
+    ];
+    let headerY = 80;
+    headerLines.forEach((line) => {
+      doc.text(line, 312, headerY, { width: 250, align: 'right' });
+      headerY += 12;
+    });
+
+    const headerBottom = Math.max(doc.y, headerY) + 8;
+    doc.moveTo(50, headerBottom).lineTo(562, headerBottom).stroke();
+
+    // Bill to / project blocks
+    const blockTop = headerBottom + 12;
+    doc.fontSize(10).font('Helvetica-Bold').text('Bill To', 50, blockTop);
+    doc.fontSize(9).font('Helvetica').text(data.client.name, 50, blockTop + 15, { width: 250 });
+    [data.client.address, data.client.phone, data.client.email]
+      .filter(Boolean)
+      .forEach((line) => doc.text(line as string, { width: 250 }));
+    if (data.contact) {
+      doc.text(`Attn: ${data.contact.name}${data.contact.title ? `, ${data.contact.title}` : ''}`, { width: 250 });
+    }
+    const clientBlockBottom = doc.y;
+
+    doc.fontSize(10).font('Helvetica-Bold').text('Project', 312, blockTop);
+    doc
+      .fontSize(9)
+      .font('Helvetica')
+      .text(data.project.name, 312, blockTop + 15, { width: 250 })
+      .text(`Project #: ${data.project.project_number}`, { width: 250 });
+    if (data.project.address) {
+      doc.text(data.project.address, { width: 250 });
+    }
+
+    let yPosition = Math.max(clientBlockBottom, doc.y) + 20;
+
+    if (isProgress) {
+      // G702 summary
+      const contractSum = (invoice.original_contract || 0) + (invoice.change_orders_total || 0);
+      const completed = invoice.completed_to_date || 0;
+      const earnedLessRetainage = completed - invoice.retainage_amount;
+      const summaryRows: Array<[string, number, boolean?]> = [
+        ['1. Original Contract Sum', invoice.original_contract || 0],
+        ['2. Net Change by Change Orders', invoice.change_orders_total || 0],
+        ['3. Contract Sum to Date (Line 1 + 2)', contractSum],
+        ['4. Total Completed & Stored to Date', completed],
+        [`5. Retainage (${invoice.retainage_percent}% of Completed & Stored)`, invoice.retainage_amount],
+        ['6. Total Earned Less Retainage (Line 4 - 5)', earnedLessRetainage],
+        ['7. Less Previous Certificates for Payment', invoice.previous_billed],
+        ['8. Current Payment Due', invoice.amount_due, true],
+        ['9. Balance to Finish, Including Retainage (Line 3 - 6)', contractSum - earnedLessRetainage],
+      ];
+
+      doc.fontSize(11).font('Helvetica-Bold').text("Contractor's Application for Payment", 50, yPosition);
+      yPosition += 20;
+
+      summaryRows.forEach(([label, value, bold]) => {
+        doc
+          .fontSize(bold ? 11 : 10)
+          .font(bold ? 'Helvetica-Bold' : 'Helvetica')
+          .text(label, 60, yPosition, { width: 380 })
+          .text(money(value), 442, yPosition, { width: 120, align: 'right' });
+        yPosition += bold ? 20 : 16;
+      });
+
+      yPosition += 10;
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .text(
+          'The undersigned Contractor certifies that, to the best of the Contractor\'s knowledge, the Work covered by ' +
+            'this Application for Payment has been completed in accordance with the Contract Documents, and that ' +
+            'current payment shown herein is now due.',
+          50,
+          yPosition,
+          { width: 512 }
+        );
+      yPosition = doc.y + 40;
+
+      doc
+        .moveTo(50, yPosition)
+        .lineTo(280, yPosition)
+        .stroke()
+        .moveTo(332, yPosition)
+        .lineTo(562, yPosition)
+        .stroke()
+        .text(`Contractor / Date (${company.name})`, 50, yPosition + 4, { width: 230 })
+        .text('Owner / Architect Certification / Date', 332, yPosition + 4, { width: 230 });
+
+      // G703 continuation sheet on landscape pages
+      const lines = invoice.line_items as ScheduleOfValuesLine[];
+      const columns: Array<{ label: string; x: number; width: number; align?: 'right' }> = [
+        { label: 'A\nItem', x: 40, width: 30 },
+        { label: 'B\nDescription of Work', x: 72, width: 176 },
+        { label: 'C\nScheduled Value', x: 250, width: 66, align: 'right' },
+        { label: 'D\nPrevious', x: 318, width: 62, align: 'right' },
+        { label: 'E\nThis Period', x: 382, width: 62, align: 'right' },
+        { label: 'F\nStored', x: 446, width: 56, align: 'right' },
+        { label: 'G\nCompleted & Stored', x: 504, width: 66, align: 'right' },
+        { label: '%\n(G / C)', x: 572, width: 36, align: 'right' },
+        { label: 'H\nBalance to Finish', x: 610, width: 66, align: 'right' },
+        { label: 'I\nRetainage', x: 678, width: 74, align: 'right' },
+      ];
+
+      const drawContinuationHeader = () => {
+        doc.addPage({ size: 'LETTER', layout: 'landscape', margins: { top: 40, bottom: 40, left: 40, right: 40 } });
+        doc
+          .fontSize(12)
+          .font('Helvetica-Bold')
+          .text('CONTINUATION SHEET', 40, 40)
+          .fontSize(8)
+          .font('Helvetica')
+          .text(
+            `Application #${invoice.application_number} | ${invoice.invoice_number} | Period ${period}`,
+            40,
+            56
+          );
+        yPosition = 76;
+        doc.fontSize(7).font('Helvetica-Bold');
+        columns.forEach((column) => {
+          doc.text(column.label, column.x, yPosition, { width: column.width, align: column.align || 'left' });
+        });
+        yPosition += 22;
+        doc.moveTo(40, yPosition).lineTo(752, yPosition).stroke();
+        yPosition += 4;
+        doc.font('Helvetica');
+      };
+
+      drawContinuationHeader();
+
+      const totals = { C: 0, D: 0, E: 0, F: 0, G: 0, H: 0, I: 0 };
+      lines.forEach((line) => {
+        if (yPosition > 540) {
+          drawContinuationHeader();
+        }
+
+        const values = [
+          String(line.item_number),
+          '',
+          money(line.scheduled_value),
+          money(line.previous_completed),
+          money(line.this_period),
+          money(line.stored_materials),
+          money(line.total_completed),
+          `${Number(line.percent_complete).toFixed(0)}%`,
+          money(line.balance_to_finish),
+          money(line.retainage),
+        ];
+
+        // Description wraps; the other columns stay on the first line of the row
+        doc.fontSize(7.5).text(line.description, columns[1]!.x, yPosition, { width: columns[1]!.width });
+        const rowBottom = doc.y;
+        values.forEach((value, index) => {
+          if (index === 1) return;
+          const column = columns[index]!;
+          doc.text(value, column.x, yPosition, { width: column.width, align: column.align || 'left', lineBreak: false });
+        });
+        yPosition = Math.max(rowBottom, yPosition + 10) + 3;
+
+        totals.C += line.scheduled_value;
+        totals.D += line.previous_completed;
+        totals.E += line.this_period;
+        totals.F += line.stored_materials;
+        totals.G += line.total_completed;
+        totals.H += line.balance_to_finish;
+        totals.I += line.retainage;
+      });
+
+      doc.moveTo(40, yPosition).lineTo(752, yPosition).stroke();
+      yPosition += 4;
+      const totalValues = [
+        '',
+        'GRAND TOTAL',
+        money(totals.C),
+        money(totals.D),
+        money(totals.E),
+        money(totals.F),
+        money(totals.G),
+        totals.C !== 0 ? `${((totals.G / totals.C) * 100).toFixed(0)}%` : '0%',
+        money(totals.H),
+        money(totals.I),
+      ];
+      doc.fontSize(7.5).font('Helvetica-Bold');
+      totalValues.forEach((value, index) => {
+        const column = columns[index]!;
+        doc.text(value, column.x, yPosition, { width: column.width, align: column.align || 'left', lineBreak: false });
+      });
+    } else {
+      // T&M line items, labor first then expenses
+      const drawTableHeader = () => {
+        doc
+          .fontSize(9)
+          .font('Helvetica-Bold')
+          .text('Description', 50, yPosition)
+          .text('Qty', 330, yPosition, { width: 50, align: 'right' })
+          .text('Unit', 390, yPosition, { width: 40 })
+          .text('Rate', 430, yPosition, { width: 62, align: 'right' })
+          .text('Total', 500, yPosition, { width: 62, align: 'right' });
+        yPosition += 14;
+        doc.moveTo(50, yPosition).lineTo(562, yPosition).stroke();
+        yPosition += 6;
+      };
+
+      drawTableHeader();
+
+      (['LABOR', 'EXPENSE'] as const).forEach((kind) => {
+        const items = (invoice.line_items as TimeAndMaterialsLine[]).filter((line) => line.kind === kind);
+        if (items.length === 0) return;
+
+        if (yPosition > 660) {
+          doc.addPage();
+          yPosition = 50;
+          drawTableHeader();
+        }
+
+        doc.fontSize(10).font('Helvetica-Bold').text(kind === 'LABOR' ? 'Labor' : 'Materials & Expenses', 50, yPosition);
+        yPosition += 15;
+
+        doc.fontSize(9).font('Helvetica');
+        items.forEach((item) => {
+          if (yPosition > 680) {
+            doc.addPage();
+            yPosition = 50;
+            drawTableHeader();
+            doc.fontSize(9).font('Helvetica');
+          }
+
+          doc.text(item.description, 60, yPosition, { width: 265 });
+          const rowBottom = doc.y;
+          doc
+            .text(String(item.quantity), 330, yPosition, { width: 50, align: 'right' })
+            .text(item.unit, 390, yPosition, { width: 40 })
+            .text(money(item.unit_price), 430, yPosition, { width: 62, align: 'right' })
+            .text(money(item.total), 500, yPosition, { width: 62, align: 'right' });
+
+          yPosition = Math.max(rowBottom, yPosition + 12) + 4;
+        });
+
+        const kindTotal = items.reduce((sum, item) => sum + item.total, 0);
+        doc
+          .font('Helvetica-Oblique')
+          .text(`${kind === 'LABOR' ? 'Labor' : 'Materials & Expenses'} Subtotal`, 330, yPosition, {
+            width: 162,
+            align: 'right',
+          })
+          .text(money(kindTotal), 500, yPosition, { width: 62, align: 'right' });
+        yPosition += 20;
+      });
+
+      // Totals
+      if (yPosition > 640) {
+        doc.addPage();
+        yPosition = 50;
+      }
+
+      doc.moveTo(380, yPosition).lineTo(562, yPosition).stroke();
+      yPosition += 8;
+      doc
+        .fontSize(10)
+        .font('Helvetica')
+        .text('Subtotal', 380, yPosition, { width: 112 })
+        .text(money(invoice.subtotal), 492, yPosition, { width: 70, align: 'right' });
+      yPosition += 15;
+      if (invoice.retainage_amount > 0) {
+        doc
+          .text(`Retainage (${invoice.retainage_percent}%)`, 380, yPosition, { width: 112 })
+          .text(`-${money(invoice.retainage_amount)}`, 492, yPosition, { width: 70, align: 'right' });
+        yPosition += 15;
+      }
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(12)
+        .text('Amount Due', 380, yPosition, { width: 112 })
+        .text(money(invoice.amount_due), 472, yPosition, { width: 90, align: 'right' });
+      yPosition += 30;
+
+      if (invoice.notes) {
+        doc.fontSize(10).font('Helvetica-Bold').text('Notes', 50, yPosition);
+        doc.fontSize(9).font('Helvetica').text(invoice.notes, 50, yPosition + 14, { width: 512 });
+      }
+    }
+
+    // Add footer to all pages BEFORE finalizing (pages may be portrait or landscape)
+    const range = doc.bufferedPageRange();
+    const pageCount = range.count;
+
+    for (let i = 0; i < pageCount; i++) {
+      doc.switchToPage(i);
+
+      doc
+        .fontSize(8)
+        .font('Helvetica')
+        .text(
+          `${company.name} | Invoice ${invoice.invoice_number} | Page ${i + 1} of ${pageCount}`,
+          40,
+          doc.page.height - 70,
+          {
+            align: 'center',
+            width: doc.page.width - 80,
+            lineBreak: false,
+          }
+        );
+    }
+
+    doc.end();
+
+    logger.info('Invoice PDF generated successfully', { invoiceNumber: invoice.invoice_number });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '';
+    logger.error('Error generating invoice PDF', { error: message });
+    throw new Error('Failed to generate PDF');
+  }
+};
+
 /**
  * Classification hierarchy for sorting
  */
@@ -319,13 +1638,14 @@ function groupEntriesByEmployee(entries: any[]): Record<string, any[]> {
 /**
  * Format date for display
  */
-function formatDateForDisplay(dateString: string): string {
+function formatDateForDisplay(dateString: string, timeZone?: string): string {
   const date = new Date(dateString);
   return date.toLocaleDateString('en-US', {
     weekday: 'long',
     year: 'numeric',
     month: 'long',
     day: 'numeric',
+    timeZone,
   });
 }
 
@@ -146,6 +146,7 @@ const getCategoryPath = (category: string): string => {
     case 'INVOICE':
     case 'RECEIPT':
     case 'REPORT':
+    case 'CERTIFICATION':
       return STORAGE_PATHS.documents;
     default:
       return STORAGE_PATHS.documents;
@@ -338,6 +339,9 @@ export const getAllowedMimeTypes = (category: string): string[] => {
         'application/vnd.ms-excel',
         'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
       ];
+    case 'CERTIFICATION':
+      // Scanned cards and licenses
+      return ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/heic'];
     default:
       return ['*/*']; // Allow all for OTHER category
   }
@@ -14,12 +14,17 @@ import { createAppTheme } from './theme/theme';
 const Login = lazy(() => import('./pages/Login'));
 const Dashboard = lazy(() => import('./pages/Dashboard'));
 const UserManagement = lazy(() => import('./pages/UserManagement'));
+const AuditLogs = lazy(() => import('./pages/AuditLogs'));
 const Settings = lazy(() => import('./pages/Settings'));
 const FileManagement = lazy(() => import('./pages/FileManagement'));
 const ClientManagement = lazy(() => import('./pages/ClientManagement'));
 const ClientDetail = lazy(() => import('./pages/ClientDetail'));
 const DailyLogManagement = lazy(() => import('./pages/DailyLogManagement'));
 const QuoteManagement = lazy(() => import('./pages/QuoteManagement'));
+const PriceBook = lazy(() => import('./pages/PriceBook'));
+const DispatchBoard = lazy(() => import('./pages/DispatchBoard'));
+const CrewSchedule = lazy(() => import('./pages/CrewSchedule'));
+const TimeClock = lazy(() => import('./pages/TimeClock'));
 const ProjectList = lazy(() => import('./pages/Projects/ProjectList'));
 const ProjectForm = lazy(() => import('./pages/Projects/ProjectForm'));
 const ProjectDetail = lazy(() => import('./pages/Projects/ProjectDetail'));
@@ -142,7 +147,17 @@ function App() {
                   <UserManagement />
                 </AppLayout>
               </ProtectedRoute>
-            } 
+            }
+          />
+          <Route
+            path="/admin/audit-logs"
+            element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <AuditLogs />
+                </AppLayout>
+              </ProtectedRoute>
+            }
           />
           <Route 
             path="/settings" 
@@ -272,6 +287,52 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route 
+            path="/price-book" 
+            element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <PriceBook />
+                </AppLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          {/* Service Call Routes */}
+          <Route 
+            path="/dispatch" 
+            element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <DispatchBoard />
+                </AppLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          {/* Crew Schedule Routes */}
+          <Route 
+            path="/crew-schedule" 
+            element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <CrewSchedule />
+                </AppLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          {/* Time Clock Routes */}
+          <Route 
+            path="/time-clock" 
+            element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <TimeClock />
+                </AppLayout>
+              </ProtectedRoute>
+            }
+          />
 
           {/* Employee Directory Routes */}
           <Route 
@@ -0,0 +1,125 @@
+/**
+ * Signature Pad Component
+ *
+ * Canvas for capturing a handwritten signature with a mouse, pen or finger.
+ * Reports the drawing as a PNG data URL, or null once cleared.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Button, Typography } from '@mui/material';
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void;
+  height?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Signature Pad Component
+ */
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, height = 180, disabled = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [hasSignature, setHasSignature] = useState(false);
+
+  // Match the canvas resolution to its displayed size so strokes are not scaled
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.scale(ratio, ratio);
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.strokeStyle = '#000';
+    }
+  }, []);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+
+    const context = event.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+
+    drawingRef.current = false;
+    setHasSignature(true);
+    onChange(event.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+    onChange(null);
+  };
+
+  return (
+    <Box>
+      <Box
+        component="canvas"
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        sx={{
+          width: '100%',
+          height,
+          display: 'block',
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1,
+          bgcolor: '#fff',
+          touchAction: 'none', // Keep finger strokes from scrolling the page
+          cursor: disabled ? 'not-allowed' : 'crosshair'
+        }}
+      />
+      <Box display="flex" justifyContent="space-between" alignItems="center" mt={0.5}>
+        <Typography variant="caption" color="text.secondary">
+          {hasSignature ? 'Signed' : 'Sign above'}
+        </Typography>
+        <Button size="small" onClick={handleClear} disabled={disabled || !hasSignature}>
+          Clear
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default SignaturePad;
@@ -77,6 +77,7 @@ export { LazyImage, LazyThumbnail, LazyBackgroundImage } from './LazyImage';
 
 // Session Management
 export { default as SessionTimeout } from './SessionTimeout';
+export { default as SignaturePad } from './SignaturePad';
 
 // File components - old versions, use FileManager instead
 // export { default as FileUpload } from './FileUpload';
@@ -31,7 +31,12 @@ import {
   Folder,
   Work,
   RequestQuote,
+  MenuBook,
   AccessTime,
+  History,
+  Build,
+  CalendarMonth,
+  PunchClock,
 } from '@mui/icons-material';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '../../store';
@@ -84,9 +89,14 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
     { text: 'Photos', icon: <PhotoCamera />, path: '/photos', feature: 'photos' as Feature },
     { text: 'Daily Logs', icon: <Work />, path: '/daily-logs', feature: 'daily-logs' as Feature },
     { text: 'Quotes', icon: <RequestQuote />, path: '/quotes', feature: 'quotes' as Feature },
+    { text: 'Price Book', icon: <MenuBook />, path: '/price-book', feature: 'price-book' as Feature },
+    { text: 'Dispatch', icon: <Build />, path: '/dispatch', feature: 'dispatch' as Feature },
+    { text: 'Crew Schedule', icon: <CalendarMonth />, path: '/crew-schedule', feature: 'crew-schedule' as Feature },
     { text: 'Employees', icon: <People />, path: '/employees', feature: 'employees' as Feature },
+    { text: 'Time Clock', icon: <PunchClock />, path: '/time-clock', feature: 'time-clock' as Feature },
     { text: 'Time Keeping', icon: <AccessTime />, path: '/timekeeping', feature: 'timekeeping' as Feature },
     { text: 'Users', icon: <People />, path: '/admin/users', feature: 'users' as Feature },
+    { text: 'Audit Log', icon: <History />, path: '/admin/audit-logs', feature: 'audit-logs' as Feature },
     { text: 'Settings', icon: <Settings />, path: '/settings', feature: 'settings' as Feature },
   ];
 
@@ -0,0 +1,135 @@
+/**
+ * Certification Report Component
+ *
+ * Expiring-soon report for the employee directory: certifications of active
+ * employees that expire within the selected window or have already expired.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { useNotification } from '../../hooks/useNotification';
+import {
+  certificationService,
+  ExpiringCertification,
+  getCertificationLabel
+} from '../../services/certification.service';
+
+const WINDOW_OPTIONS = [30, 60, 90];
+
+const CertificationReport: React.FC = () => {
+  const { error: showError } = useNotification();
+  const [days, setDays] = useState(60);
+  const [certifications, setCertifications] = useState<ExpiringCertification[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      setCertifications(await certificationService.getExpiring(days));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load certification report');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, showError]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const expiredCount = certifications.filter((cert) => cert.status === 'EXPIRED').length;
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2} gap={2} flexWrap="wrap">
+          <Box>
+            <Typography variant="h6">Expiring Certifications</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {expiredCount} expired · {certifications.length - expiredCount} expiring within {days} days
+            </Typography>
+          </Box>
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel>Window</InputLabel>
+            <Select value={days} label="Window" onChange={(e) => setDays(Number(e.target.value))}>
+              {WINDOW_OPTIONS.map((option) => (
+                <MenuItem key={option} value={option}>
+                  Next {option} days
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Employee</TableCell>
+                  <TableCell>Classification</TableCell>
+                  <TableCell>Certification</TableCell>
+                  <TableCell>Number</TableCell>
+                  <TableCell>Expires</TableCell>
+                  <TableCell>Status</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {certifications.map((cert) => (
+                  <TableRow key={cert.id} hover>
+                    <TableCell>
+                      {cert.employee.last_name}, {cert.employee.first_name}
+                    </TableCell>
+                    <TableCell>{cert.employee.classification}</TableCell>
+                    <TableCell>{getCertificationLabel(cert)}</TableCell>
+                    <TableCell>{cert.number || '-'}</TableCell>
+                    <TableCell>{new Date(cert.expiry_date.split('T')[0] + 'T00:00:00').toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      {cert.status === 'EXPIRED' ? (
+                        <Chip label={`Expired ${-cert.days_until_expiry} days ago`} size="small" color="error" />
+                      ) : (
+                        <Chip label={`${cert.days_until_expiry} days left`} size="small" color="warning" />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {certifications.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">
+                      <Typography variant="body2" color="text.secondary" py={2}>
+                        No certifications expire within {days} days
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CertificationReport;
@@ -0,0 +1,417 @@
+/**
+ * Employee Certifications Component
+ *
+ * Licenses and safety cards for one employee: add, renew and remove
+ * certifications, attach a scanned copy, and flag expired or expiring ones.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  Link,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  UploadFile as UploadIcon,
+  Close as RemoveIcon
+} from '@mui/icons-material';
+import { useNotification } from '../../hooks/useNotification';
+import { useUser } from '../../store';
+import fileService from '../../services/file.service';
+import {
+  certificationService,
+  Certification,
+  CertificationFormData,
+  CERTIFICATION_TYPES,
+  CERTIFICATION_EDIT_ROLES,
+  getCertificationLabel
+} from '../../services/certification.service';
+
+interface EmployeeCertificationsProps {
+  employeeId: string;
+}
+
+// Certifications expiring within this many days are flagged
+const EXPIRING_SOON_DAYS = 60;
+
+const emptyForm = (): CertificationFormData => ({
+  type: 'OSHA_10',
+  name: '',
+  number: '',
+  issuer: '',
+  issue_date: '',
+  expiry_date: '',
+  file_id: null,
+  notes: ''
+});
+
+/**
+ * Days from today until a YYYY-MM-DD expiry date (negative once expired)
+ */
+const daysUntil = (date: string): number => {
+  const today = new Date(new Date().toISOString().split('T')[0]!);
+  return Math.round((new Date(date.split('T')[0]!).getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+const formatDate = (date: string | null) => (date ? new Date(date.split('T')[0]! + 'T00:00:00').toLocaleDateString() : '-');
+
+const ExpiryChip: React.FC<{ expiryDate: string | null }> = ({ expiryDate }) => {
+  if (!expiryDate) return <Chip label="No expiry" size="small" variant="outlined" />;
+
+  const days = daysUntil(expiryDate);
+  if (days < 0) return <Chip label="Expired" size="small" color="error" />;
+  if (days <= EXPIRING_SOON_DAYS) return <Chip label={`${days} days left`} size="small" color="warning" />;
+  return <Chip label="Current" size="small" color="success" />;
+};
+
+const EmployeeCertifications: React.FC<EmployeeCertificationsProps> = ({ employeeId }) => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const user = useUser();
+  const [certifications, setCertifications] = useState<Certification[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Certification | null>(null);
+  const [form, setForm] = useState<CertificationFormData>(emptyForm());
+  const [scanName, setScanName] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Certification | null>(null);
+
+  const canEdit = !!user && CERTIFICATION_EDIT_ROLES.includes(user.role);
+
+  const loadCertifications = useCallback(async () => {
+    setLoading(true);
+    try {
+      setCertifications(await certificationService.getEmployeeCertifications(employeeId));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load certifications');
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId, showError]);
+
+  useEffect(() => {
+    loadCertifications();
+  }, [loadCertifications]);
+
+  const handleOpenCreate = () => {
+    setEditing(null);
+    setForm(emptyForm());
+    setScanName(null);
+    setDialogOpen(true);
+  };
+
+  const handleOpenEdit = (certification: Certification) => {
+    setEditing(certification);
+    setForm({
+      type: certification.type,
+      name: certification.name || '',
+      number: certification.number || '',
+      issuer: certification.issuer || '',
+      issue_date: certification.issue_date?.split('T')[0] || '',
+      expiry_date: certification.expiry_date?.split('T')[0] || '',
+      file_id: certification.file_id,
+      notes: certification.notes || ''
+    });
+    setScanName(certification.file?.original_filename || null);
+    setDialogOpen(true);
+  };
+
+  const handleUploadScan = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const uploaded = await fileService.uploadFile({
+        file,
+        category: 'CERTIFICATION',
+        description: `${getCertificationLabel(form)}${form.number ? ` #${form.number}` : ''}`
+      });
+      setForm((prev) => ({ ...prev, file_id: uploaded.id }));
+      setScanName(uploaded.original_filename);
+      showSuccess('Scan uploaded');
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to upload scan');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (form.type === 'OTHER' && !form.name?.trim()) {
+      showError('A name is required for other certifications');
+      return;
+    }
+
+    if (form.issue_date && form.expiry_date && form.expiry_date < form.issue_date) {
+      showError('Expiry date must be on or after the issue date');
+      return;
+    }
+
+    const data: CertificationFormData = {
+      ...form,
+      issue_date: form.issue_date || null,
+      expiry_date: form.expiry_date || null
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await certificationService.updateCertification(employeeId, editing.id, data);
+        showSuccess('Certification updated successfully');
+      } else {
+        await certificationService.createCertification(employeeId, data);
+        showSuccess('Certification added successfully');
+      }
+      setDialogOpen(false);
+      await loadCertifications();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save certification');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      await certificationService.deleteCertification(employeeId, deleteTarget.id);
+      showSuccess('Certification deleted successfully');
+      setDeleteTarget(null);
+      await loadCertifications();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to delete certification');
+    }
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="subtitle1" fontWeight="bold">
+          Certifications
+        </Typography>
+        {canEdit && (
+          <Button size="small" variant="contained" startIcon={<AddIcon />} onClick={handleOpenCreate}>
+            Add Certification
+          </Button>
+        )}
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" py={3}>
+          <CircularProgress size={32} />
+        </Box>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Certification</TableCell>
+                <TableCell>Number</TableCell>
+                <TableCell>Issuer</TableCell>
+                <TableCell>Issued</TableCell>
+                <TableCell>Expires</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>Scan</TableCell>
+                {canEdit && <TableCell align="right">Actions</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {certifications.map((certification) => (
+                <TableRow key={certification.id} hover>
+                  <TableCell>
+                    <Typography variant="body2">{getCertificationLabel(certification)}</Typography>
+                    {certification.notes && (
+                      <Typography variant="caption" color="text.secondary">
+                        {certification.notes}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{certification.number || '-'}</TableCell>
+                  <TableCell>{certification.issuer || '-'}</TableCell>
+                  <TableCell>{formatDate(certification.issue_date)}</TableCell>
+                  <TableCell>{formatDate(certification.expiry_date)}</TableCell>
+                  <TableCell>
+                    <ExpiryChip expiryDate={certification.expiry_date} />
+                  </TableCell>
+                  <TableCell>
+                    {certification.file ? (
+                      <Link href={fileService.getViewUrl(certification.file.id)} target="_blank" rel="noopener">
+                        {certification.file.original_filename}
+                      </Link>
+                    ) : (
+                      '-'
+                    )}
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title="Edit / Renew">
+                        <IconButton size="small" onClick={() => handleOpenEdit(certification)}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" onClick={() => setDeleteTarget(certification)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {certifications.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 8 : 7} align="center">
+                    <Typography variant="body2" color="text.secondary" py={2}>
+                      No certifications on file
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Create/Edit Certification Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? 'Edit Certification' : 'Add Certification'}</DialogTitle>
+        <DialogContent>
+          <Box display="grid" gridTemplateColumns="1fr 1fr" gap={2} mt={1}>
+            <FormControl fullWidth>
+              <InputLabel>Type *</InputLabel>
+              <Select
+                value={form.type}
+                label="Type *"
+                onChange={(e) => setForm({ ...form, type: e.target.value as CertificationFormData['type'] })}
+              >
+                {CERTIFICATION_TYPES.map((type) => (
+                  <MenuItem key={type.value} value={type.value}>
+                    {type.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              label={form.type === 'OTHER' ? 'Name *' : 'Name'}
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder={form.type === 'OTHER' ? 'e.g. Confined Space Entry' : ''}
+            />
+            <TextField
+              label="License / Card Number"
+              value={form.number}
+              onChange={(e) => setForm({ ...form, number: e.target.value })}
+            />
+            <TextField
+              label="Issuer"
+              value={form.issuer}
+              onChange={(e) => setForm({ ...form, issuer: e.target.value })}
+            />
+            <TextField
+              label="Issue Date"
+              type="date"
+              value={form.issue_date}
+              onChange={(e) => setForm({ ...form, issue_date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Expiry Date"
+              type="date"
+              value={form.expiry_date}
+              onChange={(e) => setForm({ ...form, expiry_date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+              helperText="Leave blank if it does not expire"
+            />
+          </Box>
+          <Box display="flex" gap={1} alignItems="center" mt={2}>
+            <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+              {scanName ? `Scan: ${scanName}` : 'No scan attached'}
+            </Typography>
+            {form.file_id && (
+              <Tooltip title="Remove scan">
+                <IconButton
+                  size="small"
+                  onClick={() => {
+                    setForm({ ...form, file_id: null });
+                    setScanName(null);
+                  }}
+                >
+                  <RemoveIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+            <Button
+              component="label"
+              startIcon={uploading ? <CircularProgress size={16} /> : <UploadIcon />}
+              disabled={uploading}
+              sx={{ whiteSpace: 'nowrap' }}
+            >
+              Upload Scan
+              <input type="file" hidden accept="image/*,application/pdf" onChange={handleUploadScan} />
+            </Button>
+          </Box>
+          <TextField
+            fullWidth
+            label="Notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            margin="normal"
+            multiline
+            rows={2}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving || uploading}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteTarget} onClose={() => setDeleteTarget(null)}>
+        <DialogTitle>Delete Certification</DialogTitle>
+        <DialogContent>
+          <Typography>Delete {deleteTarget ? getCertificationLabel(deleteTarget) : ''}?</Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default EmployeeCertifications;
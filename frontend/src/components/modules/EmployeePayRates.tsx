@@ -0,0 +1,356 @@
+/**
+ * Employee Pay Rates Component
+ *
+ * Pay rate history for one employee: raises are added as a new effective
+ * date so time already worked keeps the wage it was earned at. Each rate
+ * carries the labor burden used to cost the employee's time on projects, and
+ * a promotion records the new classification from its effective date.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { useNotification } from '../../hooks/useNotification';
+import { payRateService, PayRate, PayRateFormData } from '../../services/pay-rate.service';
+
+interface EmployeePayRatesProps {
+  employeeId: string;
+}
+
+interface PayRateFormState {
+  effective_date: string;
+  hourly_rate: string;
+  payroll_tax_percent: string;
+  workers_comp_percent: string;
+  benefits_per_hour: string;
+  union_fringe_per_hour: string;
+  classification: string;
+  notes: string;
+}
+
+const emptyForm = (): PayRateFormState => ({
+  effective_date: new Date().toISOString().split('T')[0]!,
+  hourly_rate: '',
+  payroll_tax_percent: '',
+  workers_comp_percent: '',
+  benefits_per_hour: '',
+  union_fringe_per_hour: '',
+  classification: '',
+  notes: ''
+});
+
+const formatCurrency = (amount: number | string | null) =>
+  amount === null || amount === ''
+    ? '-'
+    : new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(Number(amount));
+
+const formatPercent = (value: string | null) => (value === null ? '-' : `${Number(value)}%`);
+
+const formatDate = (date: string) => new Date(date.split('T')[0]! + 'T00:00:00').toLocaleDateString();
+
+const parseOptional = (value: string): number | null => (value === '' ? null : parseFloat(value));
+
+const EmployeePayRates: React.FC<EmployeePayRatesProps> = ({ employeeId }) => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const [payRates, setPayRates] = useState<PayRate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<PayRate | null>(null);
+  const [form, setForm] = useState<PayRateFormState>(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<PayRate | null>(null);
+
+  const loadPayRates = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPayRates(await payRateService.getEmployeePayRates(employeeId));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load pay rates');
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId, showError]);
+
+  useEffect(() => {
+    loadPayRates();
+  }, [loadPayRates]);
+
+  // The current rate is the latest one already in effect
+  const todayKey = new Date().toISOString().split('T')[0]!;
+  const currentRateId = payRates.find((payRate) => payRate.effective_date.split('T')[0]! <= todayKey)?.id;
+
+  const handleOpenCreate = () => {
+    const latest = payRates[0];
+    setEditing(null);
+    // Raises usually keep the same burden, so start from the latest rate
+    setForm({
+      ...emptyForm(),
+      payroll_tax_percent: latest?.payroll_tax_percent ?? '',
+      workers_comp_percent: latest?.workers_comp_percent ?? '',
+      benefits_per_hour: latest?.benefits_per_hour ?? '',
+      union_fringe_per_hour: latest?.union_fringe_per_hour ?? ''
+    });
+    setDialogOpen(true);
+  };
+
+  const handleOpenEdit = (payRate: PayRate) => {
+    setEditing(payRate);
+    setForm({
+      effective_date: payRate.effective_date.split('T')[0]!,
+      hourly_rate: payRate.hourly_rate,
+      payroll_tax_percent: payRate.payroll_tax_percent ?? '',
+      workers_comp_percent: payRate.workers_comp_percent ?? '',
+      benefits_per_hour: payRate.benefits_per_hour ?? '',
+      union_fringe_per_hour: payRate.union_fringe_per_hour ?? '',
+      classification: payRate.classification || '',
+      notes: payRate.notes || ''
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.effective_date || form.hourly_rate === '') {
+      showError('Effective date and hourly rate are required');
+      return;
+    }
+
+    const data: PayRateFormData = {
+      effective_date: form.effective_date,
+      hourly_rate: parseFloat(form.hourly_rate),
+      payroll_tax_percent: parseOptional(form.payroll_tax_percent),
+      workers_comp_percent: parseOptional(form.workers_comp_percent),
+      benefits_per_hour: parseOptional(form.benefits_per_hour),
+      union_fringe_per_hour: parseOptional(form.union_fringe_per_hour),
+      classification: form.classification.trim() || null,
+      notes: form.notes || null
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await payRateService.updatePayRate(employeeId, editing.id, data);
+        showSuccess('Pay rate updated successfully');
+      } else {
+        await payRateService.createPayRate(employeeId, data);
+        showSuccess('Pay rate added successfully');
+      }
+      setDialogOpen(false);
+      await loadPayRates();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save pay rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      await payRateService.deletePayRate(employeeId, deleteTarget.id);
+      showSuccess('Pay rate deleted successfully');
+      setDeleteTarget(null);
+      await loadPayRates();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to delete pay rate');
+    }
+  };
+
+  return (
+    <Box mt={3}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="subtitle1" fontWeight="bold">
+          Pay Rates
+        </Typography>
+        <Button size="small" variant="contained" startIcon={<AddIcon />} onClick={handleOpenCreate}>
+          Add Pay Rate
+        </Button>
+      </Box>
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" py={3}>
+          <CircularProgress size={32} />
+        </Box>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Effective</TableCell>
+                <TableCell>Classification</TableCell>
+                <TableCell align="right">Wage</TableCell>
+                <TableCell align="right">Payroll Tax</TableCell>
+                <TableCell align="right">Workers Comp</TableCell>
+                <TableCell align="right">Benefits/hr</TableCell>
+                <TableCell align="right">Fringes/hr</TableCell>
+                <TableCell align="right">Burdened</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {payRates.map((payRate) => (
+                <TableRow key={payRate.id} hover>
+                  <TableCell>
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <Typography variant="body2">{formatDate(payRate.effective_date)}</Typography>
+                      {payRate.id === currentRateId && <Chip label="Current" size="small" color="success" />}
+                    </Box>
+                    {payRate.notes && (
+                      <Typography variant="caption" color="text.secondary">
+                        {payRate.notes}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{payRate.classification || '-'}</TableCell>
+                  <TableCell align="right">{formatCurrency(payRate.hourly_rate)}</TableCell>
+                  <TableCell align="right">{formatPercent(payRate.payroll_tax_percent)}</TableCell>
+                  <TableCell align="right">{formatPercent(payRate.workers_comp_percent)}</TableCell>
+                  <TableCell align="right">{formatCurrency(payRate.benefits_per_hour)}</TableCell>
+                  <TableCell align="right">{formatCurrency(payRate.union_fringe_per_hour)}</TableCell>
+                  <TableCell align="right">
+                    <strong>{formatCurrency(payRate.burdened_rate)}</strong>
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => handleOpenEdit(payRate)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" onClick={() => setDeleteTarget(payRate)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {payRates.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={9} align="center">
+                    <Typography variant="body2" color="text.secondary" py={2}>
+                      No pay rate history; labor is costed at the employee's hourly rate with no burden
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Create/Edit Pay Rate Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editing ? 'Edit Pay Rate' : 'Add Pay Rate'}</DialogTitle>
+        <DialogContent>
+          <Box display="grid" gridTemplateColumns="1fr 1fr" gap={2} mt={1}>
+            <TextField
+              label="Effective Date *"
+              type="date"
+              value={form.effective_date}
+              onChange={(e) => setForm({ ...form, effective_date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Hourly Wage *"
+              type="number"
+              value={form.hourly_rate}
+              onChange={(e) => setForm({ ...form, hourly_rate: e.target.value })}
+              inputProps={{ min: 0, step: 0.01 }}
+            />
+            <TextField
+              label="Payroll Tax %"
+              type="number"
+              value={form.payroll_tax_percent}
+              onChange={(e) => setForm({ ...form, payroll_tax_percent: e.target.value })}
+              inputProps={{ min: 0, max: 100, step: 0.01 }}
+              helperText="Employer FICA, FUTA, SUTA"
+            />
+            <TextField
+              label="Workers Comp %"
+              type="number"
+              value={form.workers_comp_percent}
+              onChange={(e) => setForm({ ...form, workers_comp_percent: e.target.value })}
+              inputProps={{ min: 0, max: 100, step: 0.01 }}
+            />
+            <TextField
+              label="Benefits per Hour"
+              type="number"
+              value={form.benefits_per_hour}
+              onChange={(e) => setForm({ ...form, benefits_per_hour: e.target.value })}
+              inputProps={{ min: 0, step: 0.01 }}
+              helperText="Health, retirement"
+            />
+            <TextField
+              label="Union Fringes per Hour"
+              type="number"
+              value={form.union_fringe_per_hour}
+              onChange={(e) => setForm({ ...form, union_fringe_per_hour: e.target.value })}
+              inputProps={{ min: 0, step: 0.01 }}
+            />
+            <TextField
+              label="Classification"
+              value={form.classification}
+              onChange={(e) => setForm({ ...form, classification: e.target.value })}
+              helperText="Set on a promotion; blank keeps the current classification"
+              sx={{ gridColumn: '1 / -1' }}
+            />
+          </Box>
+          <TextField
+            fullWidth
+            label="Notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            margin="normal"
+            placeholder="e.g. Annual raise, promoted to journeyman"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteTarget} onClose={() => setDeleteTarget(null)}>
+        <DialogTitle>Delete Pay Rate</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Delete the rate effective {deleteTarget ? formatDate(deleteTarget.effective_date) : ''}? Time already
+            worked will be costed at the previous rate.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default EmployeePayRates;
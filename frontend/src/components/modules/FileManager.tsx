@@ -119,6 +119,7 @@ const FileManager: React.FC<FileManagerProps> = ({
         description: data.description,
         tags: data.tags,
         folderPath: data.folderPath,
+        receiptAmount: data.receiptAmount,
         projectId: data.projectId,
         dailyLogId: data.dailyLogId
       });
@@ -336,6 +337,7 @@ const FileManager: React.FC<FileManagerProps> = ({
                 <MenuItem value="INVOICE">Invoice</MenuItem>
                 <MenuItem value="RECEIPT">Receipt</MenuItem>
                 <MenuItem value="REPORT">Report</MenuItem>
+                <MenuItem value="CERTIFICATION">Certification</MenuItem>
                 <MenuItem value="OTHER">Other</MenuItem>
               </Select>
             </FormControl>
@@ -37,6 +37,7 @@ export interface FileUploadData {
   description: string;
   tags: string[];
   folderPath: string;
+  receiptAmount?: number;
   projectId?: string;
   dailyLogId?: string;
 }
@@ -60,6 +61,7 @@ const FILE_CATEGORIES = [
   { value: 'INVOICE', label: 'Invoice' },
   { value: 'RECEIPT', label: 'Receipt' },
   { value: 'REPORT', label: 'Report' },
+  { value: 'CERTIFICATION', label: 'Certification' },
   { value: 'OTHER', label: 'Other' }
 ];
 
@@ -77,6 +79,7 @@ const FileUploadDialog: React.FC<FileUploadDialogProps> = ({
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
   const [folderPath, setFolderPath] = useState('');
+  const [receiptAmount, setReceiptAmount] = useState('');
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -123,6 +126,7 @@ const FileUploadDialog: React.FC<FileUploadDialogProps> = ({
         description,
         tags,
         folderPath,
+        receiptAmount: category === 'RECEIPT' && receiptAmount ? parseFloat(receiptAmount) : undefined,
         projectId,
         dailyLogId
       });
@@ -133,6 +137,7 @@ const FileUploadDialog: React.FC<FileUploadDialogProps> = ({
       setTags([]);
       setTagInput('');
       setFolderPath('');
+      setReceiptAmount('');
       setCategory(defaultCategory);
       onClose();
     } catch (err: any) {
@@ -149,6 +154,7 @@ const FileUploadDialog: React.FC<FileUploadDialogProps> = ({
       setTags([]);
       setTagInput('');
       setFolderPath('');
+      setReceiptAmount('');
       setError(null);
       setCategory(defaultCategory);
       onClose();
@@ -238,6 +244,21 @@ const FileUploadDialog: React.FC<FileUploadDialogProps> = ({
           </Select>
         </FormControl>
 
+        {/* Receipt Amount (counted toward project actual cost) */}
+        {category === 'RECEIPT' && (
+          <TextField
+            fullWidth
+            type="number"
+            label="Receipt Amount"
+            value={receiptAmount}
+            onChange={(e) => setReceiptAmount(e.target.value)}
+            margin="normal"
+            disabled={uploading}
+            inputProps={{ min: 0, step: '0.01' }}
+            helperText="Optional: Counted toward the project's actual cost"
+          />
+        )}
+
         {/* Description */}
         <TextField
           fullWidth
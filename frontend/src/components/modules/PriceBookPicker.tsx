@@ -0,0 +1,249 @@
+/**
+ * Price Book Picker Component
+ *
+ * Dialog for searching the price book and inserting items or assemblies
+ * into a quote as line items priced at the current price book rates.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  InputAdornment,
+  Paper,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tabs,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Search as SearchIcon, AddCircleOutline as InsertIcon } from '@mui/icons-material';
+import { useNotification } from '../../hooks/useNotification';
+import { LineItem, quoteService } from '../../services/quote.service';
+import { priceBookService, PriceBookItem, Assembly } from '../../services/price-book.service';
+
+interface PriceBookPickerProps {
+  open: boolean;
+  onClose: () => void;
+  onInsert: (lineItems: LineItem[]) => void;
+}
+
+type PickerTab = 'items' | 'assemblies';
+
+const PriceBookPicker: React.FC<PriceBookPickerProps> = ({ open, onClose, onInsert }) => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const [tab, setTab] = useState<PickerTab>('assemblies');
+  const [search, setSearch] = useState('');
+  const [items, setItems] = useState<PriceBookItem[]>([]);
+  const [assemblies, setAssemblies] = useState<Assembly[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [inserting, setInserting] = useState<string | null>(null);
+
+  // Search the price book as the user types (debounced)
+  useEffect(() => {
+    if (!open) return;
+
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const filters = { search: search.trim() || undefined };
+        if (tab === 'items') {
+          setItems(await priceBookService.getItems(filters));
+        } else {
+          setAssemblies(await priceBookService.getAssemblies(filters));
+        }
+      } catch (error: any) {
+        showError(error?.error?.message || error?.message || 'Failed to search price book');
+      } finally {
+        setLoading(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [open, tab, search, showError]);
+
+  const getQuantity = (id: string): number => {
+    const quantity = parseFloat(quantities[id] ?? '1');
+    return isNaN(quantity) || quantity <= 0 ? 0 : quantity;
+  };
+
+  const handleInsertItem = (item: PriceBookItem) => {
+    const quantity = getQuantity(item.id);
+    if (!quantity) return;
+
+    onInsert([priceBookService.toLineItem(item, quantity)]);
+    showSuccess(`Added ${item.name}`);
+  };
+
+  const handleInsertAssembly = async (assembly: Assembly) => {
+    const quantity = getQuantity(assembly.id);
+    if (!quantity) return;
+
+    setInserting(assembly.id);
+    try {
+      const lineItems = await priceBookService.expandAssembly(assembly.id, quantity);
+      onInsert(lineItems);
+      showSuccess(`Added ${assembly.name} (${lineItems.length} line items)`);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to insert assembly');
+    } finally {
+      setInserting(null);
+    }
+  };
+
+  const renderQuantityField = (id: string) => (
+    <TextField
+      type="number"
+      size="small"
+      value={quantities[id] ?? '1'}
+      onChange={(e) => setQuantities((prev) => ({ ...prev, [id]: e.target.value }))}
+      inputProps={{ min: 0, step: 'any' }}
+      sx={{ width: 90 }}
+    />
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Insert from Price Book</DialogTitle>
+      <DialogContent>
+        <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+          <Tab label="Assemblies" value="assemblies" />
+          <Tab label="Items" value="items" />
+        </Tabs>
+
+        <TextField
+          fullWidth
+          size="small"
+          placeholder={tab === 'items' ? 'Search by name, code or category' : 'Search assemblies'}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            )
+          }}
+          sx={{ mb: 2 }}
+        />
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : (
+          <TableContainer component={Paper} variant="outlined" sx={{ maxHeight: 420 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                {tab === 'items' ? (
+                  <TableRow>
+                    <TableCell>Item</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell align="center">Unit</TableCell>
+                    <TableCell align="right">Unit Price</TableCell>
+                    <TableCell align="center">Qty</TableCell>
+                    <TableCell />
+                  </TableRow>
+                ) : (
+                  <TableRow>
+                    <TableCell>Assembly</TableCell>
+                    <TableCell align="center">Components</TableCell>
+                    <TableCell align="right">Unit Cost</TableCell>
+                    <TableCell align="center">Qty</TableCell>
+                    <TableCell />
+                  </TableRow>
+                )}
+              </TableHead>
+              <TableBody>
+                {tab === 'items' &&
+                  items.map((item) => (
+                    <TableRow key={item.id} hover>
+                      <TableCell>
+                        <Typography variant="body2">{item.name}</Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {[item.code, item.category].filter(Boolean).join(' · ')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          label={item.type === 'LABOR' ? 'Labor' : 'Material'}
+                          size="small"
+                          color={item.type === 'LABOR' ? 'info' : 'default'}
+                        />
+                      </TableCell>
+                      <TableCell align="center">{item.unit}</TableCell>
+                      <TableCell align="right">{quoteService.formatCurrency(item.unit_price)}</TableCell>
+                      <TableCell align="center">{renderQuantityField(item.id)}</TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          startIcon={<InsertIcon />}
+                          onClick={() => handleInsertItem(item)}
+                          disabled={!getQuantity(item.id)}
+                        >
+                          Insert
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                {tab === 'assemblies' &&
+                  assemblies.map((assembly) => (
+                    <TableRow key={assembly.id} hover>
+                      <TableCell>
+                        <Typography variant="body2">{assembly.name}</Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {assembly.items
+                            .map((item) => `${item.quantity} ${item.price_book_item.unit} ${item.price_book_item.name}`)
+                            .join(', ')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="center">{assembly.items.length}</TableCell>
+                      <TableCell align="right">{quoteService.formatCurrency(assembly.unit_cost)}</TableCell>
+                      <TableCell align="center">{renderQuantityField(assembly.id)}</TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          startIcon={inserting === assembly.id ? <CircularProgress size={16} /> : <InsertIcon />}
+                          onClick={() => handleInsertAssembly(assembly)}
+                          disabled={inserting !== null || !getQuantity(assembly.id)}
+                        >
+                          Insert
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                {((tab === 'items' && items.length === 0) ||
+                  (tab === 'assemblies' && assemblies.length === 0)) && (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">
+                      <Typography variant="body2" color="text.secondary" py={2}>
+                        No {tab} found. Add them on the Price Book page.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Done</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PriceBookPicker;
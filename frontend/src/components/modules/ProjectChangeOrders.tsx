@@ -0,0 +1,691 @@
+/**
+ * Project Change Orders Component
+ *
+ * Change order log for the project Financial tab: draft change orders with
+ * quote-style line items, move them through submit/approve/reject, and
+ * download the change order log PDF. Approval updates the project's
+ * contract value and budget on the server.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Visibility as ViewIcon,
+  Send as SubmitIcon,
+  CheckCircle as ApproveIcon,
+  Cancel as RejectIcon,
+  Undo as RecallIcon,
+  PictureAsPdf as PdfIcon,
+  LibraryBooks as PriceBookIcon
+} from '@mui/icons-material';
+import { useNotification } from '../../hooks/useNotification';
+import { useUser } from '../../store';
+import { LineItem, quoteService } from '../../services/quote.service';
+import {
+  changeOrderService,
+  ChangeOrder,
+  ChangeOrderFormData,
+  ChangeOrderStatus
+} from '../../services/change-order.service';
+import PriceBookPicker from './PriceBookPicker';
+
+interface ProjectChangeOrdersProps {
+  projectId: string;
+  projectNumber: string;
+  contractValue: number; // Current contract, including approved change orders
+  onApproved?: () => void;
+}
+
+// Roles allowed to write and move change orders (matches the API)
+const CHANGE_ORDER_EDITORS = ['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+
+const emptyForm = (): ChangeOrderFormData => ({
+  title: '',
+  description: '',
+  reason: '',
+  line_items: [quoteService.generateLineItem()],
+  schedule_impact_days: 0,
+  notes: ''
+});
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '-');
+
+const ProjectChangeOrders: React.FC<ProjectChangeOrdersProps> = ({
+  projectId,
+  projectNumber,
+  contractValue,
+  onApproved
+}) => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const user = useUser();
+  const [changeOrders, setChangeOrders] = useState<ChangeOrder[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingChangeOrder, setEditingChangeOrder] = useState<ChangeOrder | null>(null);
+  const [viewOnly, setViewOnly] = useState(false);
+  const [form, setForm] = useState<ChangeOrderFormData>(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const [priceBookOpen, setPriceBookOpen] = useState(false);
+  const [approveTarget, setApproveTarget] = useState<ChangeOrder | null>(null);
+  const [clientApprovalDate, setClientApprovalDate] = useState('');
+  const [rejectTarget, setRejectTarget] = useState<ChangeOrder | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<ChangeOrder | null>(null);
+
+  const canEdit = !!user && CHANGE_ORDER_EDITORS.includes(user.role);
+
+  const loadChangeOrders = useCallback(async () => {
+    setLoading(true);
+    try {
+      setChangeOrders(await changeOrderService.getChangeOrders(projectId));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load change orders');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, showError]);
+
+  useEffect(() => {
+    loadChangeOrders();
+  }, [loadChangeOrders]);
+
+  const handleOpenCreate = () => {
+    setEditingChangeOrder(null);
+    setViewOnly(false);
+    setForm(emptyForm());
+    setDialogOpen(true);
+  };
+
+  const handleOpen = (changeOrder: ChangeOrder, readOnly: boolean) => {
+    setEditingChangeOrder(changeOrder);
+    setViewOnly(readOnly);
+    setForm({
+      title: changeOrder.title,
+      description: changeOrder.description || '',
+      reason: changeOrder.reason || '',
+      line_items: changeOrder.line_items,
+      schedule_impact_days: changeOrder.schedule_impact_days,
+      notes: changeOrder.notes || ''
+    });
+    setDialogOpen(true);
+  };
+
+  const handleLineItemChange = (index: number, field: keyof LineItem, value: string) => {
+    setForm((prev) => {
+      const lineItems = [...prev.line_items];
+      const current = lineItems[index]!;
+
+      if (field === 'quantity' || field === 'unit_price') {
+        const item: LineItem = { ...current, [field]: parseFloat(value) || 0 };
+        item.total = Math.round(item.quantity * item.unit_price * 100) / 100;
+        lineItems[index] = item;
+      } else {
+        lineItems[index] = { ...current, [field]: value };
+      }
+
+      return { ...prev, line_items: lineItems };
+    });
+  };
+
+  const handleAddLineItem = () => {
+    setForm((prev) => ({ ...prev, line_items: [...prev.line_items, quoteService.generateLineItem()] }));
+  };
+
+  const handleRemoveLineItem = (index: number) => {
+    setForm((prev) => ({ ...prev, line_items: prev.line_items.filter((_, i) => i !== index) }));
+  };
+
+  const handleInsertLineItems = (lineItems: LineItem[]) => {
+    setForm((prev) => ({
+      ...prev,
+      // Replace the untouched starter line rather than leaving it blank
+      line_items: [...prev.line_items.filter((item) => item.description.trim() !== ''), ...lineItems]
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      showError('Title is required');
+      return;
+    }
+
+    if (
+      form.line_items.length === 0 ||
+      form.line_items.some((item) => !item.description.trim() || !item.unit.trim() || !(item.quantity > 0))
+    ) {
+      showError('Each line item needs a description, unit and a quantity greater than zero');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingChangeOrder) {
+        await changeOrderService.updateChangeOrder(projectId, editingChangeOrder.id, form);
+        showSuccess('Change order updated successfully');
+      } else {
+        await changeOrderService.createChangeOrder(projectId, form);
+        showSuccess('Change order created successfully');
+      }
+      setDialogOpen(false);
+      await loadChangeOrders();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save change order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (
+    changeOrder: ChangeOrder,
+    status: ChangeOrderStatus,
+    extra: { client_approval_date?: string; rejection_reason?: string } = {}
+  ) => {
+    try {
+      await changeOrderService.updateStatus(projectId, changeOrder.id, { status, ...extra });
+      const labels: Record<ChangeOrderStatus, string> = {
+        DRAFT: 'recalled',
+        SUBMITTED: 'submitted',
+        APPROVED: 'approved',
+        REJECTED: 'rejected'
+      };
+      showSuccess(`${changeOrder.co_label} ${labels[status]}`);
+      await loadChangeOrders();
+      if (status === 'APPROVED') {
+        onApproved?.();
+      }
+      return true;
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to update change order status');
+      return false;
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!approveTarget) return;
+
+    const approved = await handleStatusChange(approveTarget, 'APPROVED', {
+      client_approval_date: clientApprovalDate || undefined
+    });
+    if (approved) setApproveTarget(null);
+  };
+
+  const handleReject = async () => {
+    if (!rejectTarget) return;
+
+    const rejected = await handleStatusChange(rejectTarget, 'REJECTED', {
+      rejection_reason: rejectionReason.trim() || undefined
+    });
+    if (rejected) setRejectTarget(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      await changeOrderService.deleteChangeOrder(projectId, deleteTarget.id);
+      showSuccess('Change order deleted successfully');
+      setDeleteTarget(null);
+      await loadChangeOrders();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to delete change order');
+    }
+  };
+
+  const handleDownloadLog = async () => {
+    try {
+      await changeOrderService.downloadLogPDF(projectId, projectNumber);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to download change order log');
+    }
+  };
+
+  const totalFor = (status: ChangeOrderStatus) =>
+    changeOrders
+      .filter((changeOrder) => changeOrder.status === status)
+      .reduce((sum, changeOrder) => sum + changeOrder.total, 0);
+
+  const approvedTotal = totalFor('APPROVED');
+  const approvedDays = changeOrders
+    .filter((changeOrder) => changeOrder.status === 'APPROVED')
+    .reduce((sum, changeOrder) => sum + changeOrder.schedule_impact_days, 0);
+  const formTotals = quoteService.calculateLineItemTotals(form.line_items);
+
+  return (
+    <Card variant="outlined" sx={{ mt: 3 }}>
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2} gap={2} flexWrap="wrap">
+          <Box>
+            <Typography variant="h6">Change Orders</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Original {formatCurrency(contractValue - approvedTotal)} · Approved {formatCurrency(approvedTotal)} ·
+              Revised {formatCurrency(contractValue)} · Pending {formatCurrency(totalFor('SUBMITTED'))} · Schedule{' '}
+              {approvedDays >= 0 ? '+' : ''}
+              {approvedDays} days
+            </Typography>
+          </Box>
+          <Box display="flex" gap={1} alignItems="center">
+            <Button size="small" startIcon={<PdfIcon />} onClick={handleDownloadLog}>
+              CO Log PDF
+            </Button>
+            {canEdit && (
+              <Button size="small" variant="contained" startIcon={<AddIcon />} onClick={handleOpenCreate}>
+                New Change Order
+              </Button>
+            )}
+          </Box>
+        </Box>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>CO #</TableCell>
+                  <TableCell>Title</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Submitted</TableCell>
+                  <TableCell>Client Approved</TableCell>
+                  <TableCell align="right">Schedule (days)</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {changeOrders.map((changeOrder) => {
+                  const editable = changeOrder.status === 'DRAFT' || changeOrder.status === 'REJECTED';
+
+                  return (
+                    <TableRow key={changeOrder.id} hover>
+                      <TableCell>{changeOrder.co_label}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2">{changeOrder.title}</Typography>
+                        {changeOrder.reason && (
+                          <Typography variant="caption" color="text.secondary">
+                            {changeOrder.reason}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Tooltip title={changeOrder.rejection_reason || ''}>
+                          <Chip
+                            label={changeOrder.status}
+                            size="small"
+                            color={changeOrderService.getStatusColor(changeOrder.status)}
+                          />
+                        </Tooltip>
+                      </TableCell>
+                      <TableCell>{formatDate(changeOrder.submitted_at)}</TableCell>
+                      <TableCell>{formatDate(changeOrder.client_approval_date)}</TableCell>
+                      <TableCell align="right">{changeOrder.schedule_impact_days}</TableCell>
+                      <TableCell align="right">{formatCurrency(changeOrder.total)}</TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <Tooltip title="View">
+                          <IconButton size="small" onClick={() => handleOpen(changeOrder, true)}>
+                            <ViewIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        {canEdit && changeOrder.status === 'DRAFT' && (
+                          <Tooltip title="Submit to client">
+                            <IconButton size="small" color="primary" onClick={() => handleStatusChange(changeOrder, 'SUBMITTED')}>
+                              <SubmitIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        {canEdit && changeOrder.status === 'SUBMITTED' && (
+                          <>
+                            <Tooltip title="Approve">
+                              <IconButton
+                                size="small"
+                                color="success"
+                                onClick={() => {
+                                  setClientApprovalDate(new Date().toISOString().split('T')[0]!);
+                                  setApproveTarget(changeOrder);
+                                }}
+                              >
+                                <ApproveIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Reject">
+                              <IconButton
+                                size="small"
+                                color="error"
+                                onClick={() => {
+                                  setRejectionReason('');
+                                  setRejectTarget(changeOrder);
+                                }}
+                              >
+                                <RejectIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Recall to draft">
+                              <IconButton size="small" onClick={() => handleStatusChange(changeOrder, 'DRAFT')}>
+                                <RecallIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </>
+                        )}
+                        {canEdit && editable && (
+                          <>
+                            <Tooltip title="Edit">
+                              <IconButton size="small" onClick={() => handleOpen(changeOrder, false)}>
+                                <EditIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Delete">
+                              <IconButton size="small" onClick={() => setDeleteTarget(changeOrder)}>
+                                <DeleteIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {changeOrders.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center">
+                      <Typography variant="body2" color="text.secondary" py={2}>
+                        No change orders recorded
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+
+      {/* Create/Edit/View Change Order Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="lg" fullWidth>
+        <DialogTitle>
+          {editingChangeOrder
+            ? `${viewOnly ? '' : 'Edit '}${editingChangeOrder.co_label}`
+            : 'New Change Order'}
+        </DialogTitle>
+        <DialogContent>
+          <Box display="grid" gridTemplateColumns="2fr 1fr" gap={2} mt={1}>
+            <TextField
+              label="Title *"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              InputProps={{ readOnly: viewOnly }}
+            />
+            <TextField
+              label="Schedule Impact (days)"
+              type="number"
+              value={form.schedule_impact_days ?? 0}
+              onChange={(e) => setForm({ ...form, schedule_impact_days: parseInt(e.target.value, 10) || 0 })}
+              InputProps={{ readOnly: viewOnly }}
+              helperText="Negative for time saved"
+            />
+          </Box>
+          <TextField
+            fullWidth
+            label="Reason"
+            value={form.reason}
+            onChange={(e) => setForm({ ...form, reason: e.target.value })}
+            InputProps={{ readOnly: viewOnly }}
+            margin="normal"
+            placeholder="e.g. Owner request, unforeseen condition, design change"
+          />
+          <TextField
+            fullWidth
+            label="Scope Description"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            InputProps={{ readOnly: viewOnly }}
+            margin="normal"
+            multiline
+            rows={2}
+          />
+
+          <Box display="flex" justifyContent="space-between" alignItems="center" mt={2} mb={1}>
+            <Typography variant="subtitle1">Line Items</Typography>
+            {!viewOnly && (
+              <Box display="flex" gap={1}>
+                <Button size="small" startIcon={<PriceBookIcon />} onClick={() => setPriceBookOpen(true)}>
+                  Price Book
+                </Button>
+                <Button size="small" startIcon={<AddIcon />} onClick={handleAddLineItem}>
+                  Add Line
+                </Button>
+              </Box>
+            )}
+          </Box>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Description</TableCell>
+                  <TableCell>Category</TableCell>
+                  <TableCell align="right">Qty</TableCell>
+                  <TableCell>Unit</TableCell>
+                  <TableCell align="right">Unit Price</TableCell>
+                  <TableCell align="right">Total</TableCell>
+                  {!viewOnly && <TableCell />}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {form.line_items.map((item, index) =>
+                  viewOnly ? (
+                    <TableRow key={item.id}>
+                      <TableCell>{item.description}</TableCell>
+                      <TableCell>{item.category || '-'}</TableCell>
+                      <TableCell align="right">{item.quantity}</TableCell>
+                      <TableCell>{item.unit}</TableCell>
+                      <TableCell align="right">{formatCurrency(item.unit_price)}</TableCell>
+                      <TableCell align="right">{formatCurrency(item.total)}</TableCell>
+                    </TableRow>
+                  ) : (
+                    <TableRow key={item.id}>
+                      <TableCell sx={{ minWidth: 220 }}>
+                        <TextField
+                          size="small"
+                          fullWidth
+                          value={item.description}
+                          onChange={(e) => handleLineItemChange(index, 'description', e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell sx={{ minWidth: 120 }}>
+                        <TextField
+                          size="small"
+                          fullWidth
+                          value={item.category || ''}
+                          onChange={(e) => handleLineItemChange(index, 'category', e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell sx={{ width: 90 }}>
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={item.quantity}
+                          onChange={(e) => handleLineItemChange(index, 'quantity', e.target.value)}
+                          inputProps={{ min: 0, step: 'any' }}
+                        />
+                      </TableCell>
+                      <TableCell sx={{ width: 80 }}>
+                        <TextField
+                          size="small"
+                          value={item.unit}
+                          onChange={(e) => handleLineItemChange(index, 'unit', e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell sx={{ width: 120 }}>
+                        <TextField
+                          size="small"
+                          type="number"
+                          value={item.unit_price}
+                          onChange={(e) => handleLineItemChange(index, 'unit_price', e.target.value)}
+                          inputProps={{ step: '0.01' }}
+                          disabled={quoteService.isEstimatedLineItem(item)}
+                          helperText={
+                            quoteService.isEstimatedLineItem(item)
+                              ? 'From labor units'
+                              : item.unit_price < 0
+                              ? 'Credit'
+                              : undefined
+                          }
+                        />
+                      </TableCell>
+                      <TableCell align="right">{formatCurrency(item.total)}</TableCell>
+                      <TableCell padding="checkbox">
+                        <IconButton
+                          size="small"
+                          onClick={() => handleRemoveLineItem(index)}
+                          disabled={form.line_items.length === 1}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  )
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          <Box display="flex" justifyContent="flex-end" mt={2}>
+            <Box minWidth={240}>
+              {/* Change orders carry no sales tax, so the total is the line item subtotal */}
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="subtitle2">Total</Typography>
+                <Typography variant="subtitle2">{formatCurrency(formTotals.subtotal)}</Typography>
+              </Box>
+            </Box>
+          </Box>
+
+          <TextField
+            fullWidth
+            label="Notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            InputProps={{ readOnly: viewOnly }}
+            margin="normal"
+            multiline
+            rows={2}
+          />
+          {viewOnly && editingChangeOrder?.rejection_reason && (
+            <Typography variant="body2" color="error">
+              Rejected: {editingChangeOrder.rejection_reason}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} disabled={saving}>
+            {viewOnly ? 'Close' : 'Cancel'}
+          </Button>
+          {!viewOnly && (
+            <Button variant="contained" onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+
+      <PriceBookPicker
+        open={priceBookOpen}
+        onClose={() => setPriceBookOpen(false)}
+        onInsert={handleInsertLineItems}
+      />
+
+      {/* Approve Dialog */}
+      <Dialog open={!!approveTarget} onClose={() => setApproveTarget(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Approve {approveTarget?.co_label}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" gutterBottom>
+            Approving adds {formatCurrency(approveTarget?.total || 0)} to the contract value and budget, and its
+            line items to the budget breakdown. Approved change orders cannot be changed.
+          </Typography>
+          <TextField
+            fullWidth
+            label="Client Approval Date"
+            type="date"
+            value={clientApprovalDate}
+            onChange={(e) => setClientApprovalDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            margin="normal"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setApproveTarget(null)}>Cancel</Button>
+          <Button color="success" variant="contained" onClick={handleApprove}>
+            Approve
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Reject Dialog */}
+      <Dialog open={!!rejectTarget} onClose={() => setRejectTarget(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Reject {rejectTarget?.co_label}</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            label="Reason"
+            value={rejectionReason}
+            onChange={(e) => setRejectionReason(e.target.value)}
+            margin="normal"
+            multiline
+            rows={2}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRejectTarget(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleReject}>
+            Reject
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteTarget} onClose={() => setDeleteTarget(null)}>
+        <DialogTitle>Delete Change Order</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Delete {deleteTarget?.co_label} "{deleteTarget?.title}"?
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ProjectChangeOrders;
@@ -0,0 +1,346 @@
+/**
+ * Project Cost Codes Component
+ *
+ * Cost codes enabled on a project for the Financial tab. Time and expenses can
+ * only be charged to enabled codes; each code carries optional hour and cost
+ * budgets compared against burdened labor and expenses charged to it to date.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon, Edit as EditIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { useNotification } from '../../hooks/useNotification';
+import { useUser } from '../../store';
+import {
+  getCostCodes,
+  getProjectCostCodes,
+  setProjectCostCode,
+  removeProjectCostCode
+} from '../../services/cost-code.service';
+import { getProjectCostReport } from '../../services/payroll.service';
+import { CostCode, ProjectCostCode, ProjectCostCodeBreakdown } from '../../types/timekeeping.types';
+
+interface ProjectCostCodesProps {
+  projectId: string;
+  startDate?: string | null; // Actuals are totalled from the project start
+  refreshKey?: number; // Bump to reload after costs change elsewhere on the page
+}
+
+// Roles allowed to enable codes and set budgets (matches the API)
+const BUDGET_EDITORS = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER'];
+
+// Roles allowed to see labor cost by cost code (matches the payroll report API)
+const COST_VIEWERS = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER'];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const remainingColor = (value: number | null) =>
+  value === null ? 'text.secondary' : value < 0 ? 'error.main' : 'success.main';
+
+const ProjectCostCodes: React.FC<ProjectCostCodesProps> = ({ projectId, startDate, refreshKey }) => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const user = useUser();
+  const [projectCostCodes, setProjectCostCodes] = useState<ProjectCostCode[]>([]);
+  const [catalog, setCatalog] = useState<CostCode[]>([]);
+  const [actuals, setActuals] = useState<ProjectCostCodeBreakdown[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ProjectCostCode | null>(null);
+  const [costCodeId, setCostCodeId] = useState('');
+  const [budgetHours, setBudgetHours] = useState('');
+  const [budgetAmount, setBudgetAmount] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const canEdit = !!user && BUDGET_EDITORS.includes(user.role);
+  const canViewCost = !!user && COST_VIEWERS.includes(user.role);
+
+  const loadCostCodes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [enabled, report] = await Promise.all([
+        getProjectCostCodes(projectId, true),
+        canViewCost
+          ? getProjectCostReport(
+              projectId,
+              startDate ? startDate.split('T')[0] : '2000-01-01',
+              format(new Date(), 'yyyy-MM-dd')
+            )
+          : Promise.resolve(null)
+      ]);
+      setProjectCostCodes(enabled);
+      setActuals(report?.costCodes || []);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load cost codes');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, startDate, canViewCost, showError]);
+
+  useEffect(() => {
+    loadCostCodes();
+  }, [loadCostCodes, refreshKey]);
+
+  const actualsByCode = useMemo(
+    () =>
+      actuals.reduce<Record<string, ProjectCostCodeBreakdown>>((acc, row) => {
+        if (row.costCodeId) acc[row.costCodeId] = row;
+        return acc;
+      }, {}),
+    [actuals]
+  );
+
+  const uncoded = actuals.find((row) => row.costCodeId === null);
+
+  const availableCodes = useMemo(
+    () => catalog.filter((code) => !projectCostCodes.some((enabled) => enabled.costCodeId === code.id)),
+    [catalog, projectCostCodes]
+  );
+
+  const handleOpenDialog = async (projectCostCode?: ProjectCostCode) => {
+    setEditing(projectCostCode || null);
+    setCostCodeId(projectCostCode?.costCodeId || '');
+    setBudgetHours(projectCostCode?.budgetHours != null ? String(projectCostCode.budgetHours) : '');
+    setBudgetAmount(projectCostCode?.budgetAmount != null ? String(projectCostCode.budgetAmount) : '');
+    setDialogOpen(true);
+
+    if (!projectCostCode && catalog.length === 0) {
+      try {
+        setCatalog(await getCostCodes());
+      } catch (error: any) {
+        showError(error?.error?.message || error?.message || 'Failed to load cost code catalog');
+      }
+    }
+  };
+
+  const handleSave = async () => {
+    if (!costCodeId) {
+      showError('Select a cost code');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setProjectCostCode(projectId, costCodeId, {
+        budgetHours: budgetHours === '' ? null : parseFloat(budgetHours),
+        budgetAmount: budgetAmount === '' ? null : parseFloat(budgetAmount)
+      });
+      showSuccess(editing ? 'Cost code budget updated' : 'Cost code enabled');
+      setDialogOpen(false);
+      loadCostCodes();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save cost code');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (projectCostCode: ProjectCostCode) => {
+    if (!window.confirm(`Remove cost code ${projectCostCode.costCode.code} from this project?`)) {
+      return;
+    }
+
+    try {
+      await removeProjectCostCode(projectId, projectCostCode.costCodeId);
+      showSuccess('Cost code removed');
+      loadCostCodes();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to remove cost code');
+    }
+  };
+
+  return (
+    <Card variant="outlined" sx={{ mt: 3 }}>
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+          <Typography variant="h6">Cost Codes</Typography>
+          {canEdit && (
+            <Button size="small" variant="outlined" startIcon={<AddIcon />} onClick={() => handleOpenDialog()}>
+              Enable Cost Code
+            </Button>
+          )}
+        </Box>
+
+        {loading && projectCostCodes.length === 0 ? (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : projectCostCodes.length === 0 ? (
+          <Alert severity="info">
+            No cost codes are enabled on this project. Time and expenses cannot be recorded until at least one is
+            enabled.
+          </Alert>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Code</TableCell>
+                  <TableCell>Name</TableCell>
+                  <TableCell align="right">Budget Hrs</TableCell>
+                  <TableCell align="right">Actual Hrs</TableCell>
+                  {canViewCost && (
+                    <>
+                      <TableCell align="right">Budget</TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Fully burdened at the pay rate in effect on each work date">
+                          <span>Labor</span>
+                        </Tooltip>
+                      </TableCell>
+                      <TableCell align="right">Expenses</TableCell>
+                      <TableCell align="right">Remaining</TableCell>
+                    </>
+                  )}
+                  {canEdit && <TableCell align="right">Actions</TableCell>}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {projectCostCodes.map((projectCostCode) => {
+                  const actual = actualsByCode[projectCostCode.costCodeId];
+
+                  return (
+                    <TableRow key={projectCostCode.id}>
+                      <TableCell>{projectCostCode.costCode.code}</TableCell>
+                      <TableCell>
+                        {projectCostCode.costCode.name}
+                        {!projectCostCode.costCode.isActive && (
+                          <Typography component="span" variant="caption" color="text.secondary">
+                            {' '}(inactive)
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{projectCostCode.budgetHours ?? '—'}</TableCell>
+                      <TableCell align="right">{actual ? actual.hours.toFixed(2) : '—'}</TableCell>
+                      {canViewCost && (
+                        <>
+                          <TableCell align="right">
+                            {projectCostCode.budgetAmount != null ? formatCurrency(projectCostCode.budgetAmount) : '—'}
+                          </TableCell>
+                          <TableCell align="right">{formatCurrency(actual?.laborCost ?? 0)}</TableCell>
+                          <TableCell align="right">{formatCurrency(actual?.expenseCost ?? 0)}</TableCell>
+                          <TableCell align="right">
+                            <Typography variant="body2" color={remainingColor(actual?.remainingAmount ?? null)}>
+                              {actual?.remainingAmount != null ? formatCurrency(actual.remainingAmount) : '—'}
+                            </Typography>
+                          </TableCell>
+                        </>
+                      )}
+                      {canEdit && (
+                        <TableCell align="right">
+                          <Tooltip title="Edit budget">
+                            <IconButton size="small" onClick={() => handleOpenDialog(projectCostCode)}>
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Remove from project">
+                            <IconButton size="small" color="error" onClick={() => handleRemove(projectCostCode)}>
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+                {uncoded && (
+                  <TableRow>
+                    <TableCell colSpan={3}>
+                      <Typography variant="body2" color="text.secondary">
+                        Uncoded (recorded before cost codes were required)
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">{uncoded.hours.toFixed(2)}</TableCell>
+                    {canViewCost && (
+                      <>
+                        <TableCell />
+                        <TableCell align="right">{formatCurrency(uncoded.laborCost)}</TableCell>
+                        <TableCell align="right">{formatCurrency(uncoded.expenseCost)}</TableCell>
+                        <TableCell />
+                      </>
+                    )}
+                    {canEdit && <TableCell />}
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{editing ? `Budget for ${editing.costCode.code} ${editing.costCode.name}` : 'Enable Cost Code'}</DialogTitle>
+        <DialogContent>
+          <Box display="flex" flexDirection="column" gap={2} mt={1}>
+            {!editing && (
+              <TextField
+                select
+                label="Cost Code"
+                value={costCodeId}
+                onChange={(e) => setCostCodeId(e.target.value)}
+                helperText={availableCodes.length === 0 ? 'All active cost codes are already enabled' : undefined}
+                required
+                fullWidth
+              >
+                {availableCodes.map((code) => (
+                  <MenuItem key={code.id} value={code.id}>
+                    {code.code} - {code.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+            <TextField
+              label="Budget Hours"
+              type="number"
+              value={budgetHours}
+              onChange={(e) => setBudgetHours(e.target.value)}
+              inputProps={{ min: 0, step: 0.5 }}
+              fullWidth
+            />
+            <TextField
+              label="Budget Amount"
+              type="number"
+              value={budgetAmount}
+              onChange={(e) => setBudgetAmount(e.target.value)}
+              inputProps={{ min: 0, step: 0.01 }}
+              helperText="Labor and expenses charged to this code"
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ProjectCostCodes;
@@ -0,0 +1,531 @@
+/**
+ * Project Expenses Component
+ *
+ * Expense log for the project Financial tab: create, edit and delete
+ * expenses, link or upload receipts, approve/reject, and export to CSV.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  Link,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  CheckCircle as ApproveIcon,
+  Cancel as RejectIcon,
+  Replay as ReopenIcon,
+  FileDownload as ExportIcon,
+  UploadFile as UploadIcon
+} from '@mui/icons-material';
+import { useNotification } from '../../hooks/useNotification';
+import { useUser } from '../../store';
+import fileService, { FileData } from '../../services/file.service';
+import {
+  projectExpenseService,
+  ProjectExpense,
+  ProjectExpenseFormData,
+  ExpenseStatus,
+  EXPENSE_CATEGORIES
+} from '../../services/project-expense.service';
+import { getProjectCostCodes } from '../../services/cost-code.service';
+import { ProjectCostCode } from '../../types/timekeeping.types';
+
+interface ProjectExpensesProps {
+  projectId: string;
+  projectNumber: string;
+  onChange?: () => void;
+}
+
+// Roles allowed to record and approve expenses (matches the API)
+const EXPENSE_EDITORS = ['PROJECT_MANAGER', 'FIELD_SUPERVISOR', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+const EXPENSE_APPROVERS = ['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+
+const STATUS_COLORS: Record<ExpenseStatus, 'warning' | 'success' | 'error'> = {
+  PENDING: 'warning',
+  APPROVED: 'success',
+  REJECTED: 'error'
+};
+
+const emptyForm = (): ProjectExpenseFormData => ({
+  description: '',
+  vendor: '',
+  amount: 0,
+  category: '',
+  date: new Date().toISOString().split('T')[0]!,
+  receipt_file_id: null,
+  cost_code_id: null,
+  notes: ''
+});
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const ProjectExpenses: React.FC<ProjectExpensesProps> = ({ projectId, projectNumber, onChange }) => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const user = useUser();
+  const [expenses, setExpenses] = useState<ProjectExpense[]>([]);
+  const [receipts, setReceipts] = useState<FileData[]>([]);
+  const [costCodes, setCostCodes] = useState<ProjectCostCode[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ExpenseStatus | ''>('');
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<ProjectExpense | null>(null);
+  const [form, setForm] = useState<ProjectExpenseFormData>(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<ProjectExpense | null>(null);
+
+  const canEdit = !!user && EXPENSE_EDITORS.includes(user.role);
+  const canApprove = !!user && EXPENSE_APPROVERS.includes(user.role);
+
+  const loadExpenses = useCallback(async () => {
+    setLoading(true);
+    try {
+      setExpenses(
+        await projectExpenseService.getExpenses(projectId, { status: statusFilter || undefined })
+      );
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load expenses');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, statusFilter, showError]);
+
+  const loadReceipts = useCallback(async () => {
+    try {
+      const result = await fileService.listFiles({ projectId, category: 'RECEIPT' }, { limit: 100 });
+      setReceipts(result.files);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load receipts');
+    }
+  }, [projectId, showError]);
+
+  const loadCostCodes = useCallback(async () => {
+    try {
+      setCostCodes(await getProjectCostCodes(projectId));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load cost codes');
+    }
+  }, [projectId, showError]);
+
+  useEffect(() => {
+    loadExpenses();
+  }, [loadExpenses]);
+
+  const refresh = async () => {
+    await loadExpenses();
+    onChange?.();
+  };
+
+  const handleOpenCreate = () => {
+    setEditingExpense(null);
+    setForm(emptyForm());
+    loadReceipts();
+    loadCostCodes();
+    setDialogOpen(true);
+  };
+
+  const handleOpenEdit = (expense: ProjectExpense) => {
+    setEditingExpense(expense);
+    setForm({
+      description: expense.description,
+      vendor: expense.vendor || '',
+      amount: Number(expense.amount),
+      category: expense.category,
+      date: expense.date.split('T')[0]!,
+      receipt_file_id: expense.receipt_file_id,
+      cost_code_id: expense.cost_code_id,
+      notes: expense.notes || ''
+    });
+    loadReceipts();
+    loadCostCodes();
+    setDialogOpen(true);
+  };
+
+  const handleUploadReceipt = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const uploaded = await fileService.uploadFile({
+        file,
+        category: 'RECEIPT',
+        projectId,
+        description: form.description || file.name
+      });
+      setReceipts((prev) => [uploaded, ...prev]);
+      setForm((prev) => ({ ...prev, receipt_file_id: uploaded.id }));
+      showSuccess('Receipt uploaded');
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to upload receipt');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (
+      !form.description.trim() ||
+      !form.category.trim() ||
+      !form.cost_code_id ||
+      !form.date ||
+      !(form.amount > 0)
+    ) {
+      showError('Description, category, cost code, date and an amount greater than zero are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingExpense) {
+        await projectExpenseService.updateExpense(projectId, editingExpense.id, form);
+        showSuccess('Expense updated successfully');
+      } else {
+        await projectExpenseService.createExpense(projectId, form);
+        showSuccess('Expense added successfully');
+      }
+      setDialogOpen(false);
+      await refresh();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save expense');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (expense: ProjectExpense, status: ExpenseStatus) => {
+    try {
+      await projectExpenseService.updateStatus(projectId, expense.id, status);
+      showSuccess(`Expense ${status === 'PENDING' ? 'reopened' : status.toLowerCase()}`);
+      await refresh();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to update expense status');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      await projectExpenseService.deleteExpense(projectId, deleteTarget.id);
+      showSuccess('Expense deleted successfully');
+      setDeleteTarget(null);
+      await refresh();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to delete expense');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await projectExpenseService.exportCSV(projectId, projectNumber, { status: statusFilter || undefined });
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to export expenses');
+    }
+  };
+
+  const totalFor = (status: ExpenseStatus) =>
+    expenses.filter((expense) => expense.status === status).reduce((sum, expense) => sum + Number(expense.amount), 0);
+
+  return (
+    <Card variant="outlined" sx={{ mt: 3 }}>
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2} gap={2} flexWrap="wrap">
+          <Box>
+            <Typography variant="h6">Expenses</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Approved {formatCurrency(totalFor('APPROVED'))} · Pending {formatCurrency(totalFor('PENDING'))}
+            </Typography>
+          </Box>
+          <Box display="flex" gap={1} alignItems="center">
+            <FormControl size="small" sx={{ minWidth: 140 }}>
+              <InputLabel>Status</InputLabel>
+              <Select
+                value={statusFilter}
+                label="Status"
+                onChange={(e) => setStatusFilter(e.target.value as ExpenseStatus | '')}
+              >
+                <MenuItem value="">All</MenuItem>
+                <MenuItem value="PENDING">Pending</MenuItem>
+                <MenuItem value="APPROVED">Approved</MenuItem>
+                <MenuItem value="REJECTED">Rejected</MenuItem>
+              </Select>
+            </FormControl>
+            <Button size="small" startIcon={<ExportIcon />} onClick={handleExport} disabled={expenses.length === 0}>
+              Export CSV
+            </Button>
+            {canEdit && (
+              <Button size="small" variant="contained" startIcon={<AddIcon />} onClick={handleOpenCreate}>
+                Add Expense
+              </Button>
+            )}
+          </Box>
+        </Box>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Cost Code</TableCell>
+                  <TableCell>Category</TableCell>
+                  <TableCell>Vendor</TableCell>
+                  <TableCell>Description</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell>Receipt</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {expenses.map((expense) => (
+                  <TableRow key={expense.id} hover>
+                    <TableCell>{new Date(expense.date).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      {expense.cost_code ? (
+                        <Tooltip title={expense.cost_code.name}>
+                          <span>{expense.cost_code.code}</span>
+                        </Tooltip>
+                      ) : (
+                        '-'
+                      )}
+                    </TableCell>
+                    <TableCell>{expense.category}</TableCell>
+                    <TableCell>{expense.vendor || '-'}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{expense.description}</Typography>
+                      {expense.notes && (
+                        <Typography variant="caption" color="text.secondary">
+                          {expense.notes}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{formatCurrency(Number(expense.amount))}</TableCell>
+                    <TableCell>
+                      {expense.receipt ? (
+                        <Link href={fileService.getViewUrl(expense.receipt.id)} target="_blank" rel="noopener">
+                          {expense.receipt.original_filename}
+                        </Link>
+                      ) : (
+                        '-'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip
+                        title={
+                          expense.approver
+                            ? `${expense.approver.first_name} ${expense.approver.last_name}`
+                            : ''
+                        }
+                      >
+                        <Chip label={expense.status} size="small" color={STATUS_COLORS[expense.status]} />
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      {canApprove && expense.status === 'PENDING' && (
+                        <>
+                          <Tooltip title="Approve">
+                            <IconButton size="small" color="success" onClick={() => handleStatusChange(expense, 'APPROVED')}>
+                              <ApproveIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Reject">
+                            <IconButton size="small" color="error" onClick={() => handleStatusChange(expense, 'REJECTED')}>
+                              <RejectIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </>
+                      )}
+                      {canApprove && expense.status !== 'PENDING' && (
+                        <Tooltip title="Reopen">
+                          <IconButton size="small" onClick={() => handleStatusChange(expense, 'PENDING')}>
+                            <ReopenIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      {canEdit && expense.status !== 'APPROVED' && (
+                        <>
+                          <Tooltip title="Edit">
+                            <IconButton size="small" onClick={() => handleOpenEdit(expense)}>
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Delete">
+                            <IconButton size="small" onClick={() => setDeleteTarget(expense)}>
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {expenses.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={9} align="center">
+                      <Typography variant="body2" color="text.secondary" py={2}>
+                        No expenses recorded
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+
+      {/* Create/Edit Expense Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingExpense ? 'Edit Expense' : 'Add Expense'}</DialogTitle>
+        <DialogContent>
+          <Box display="grid" gridTemplateColumns="1fr 1fr" gap={2} mt={1}>
+            <TextField
+              label="Date *"
+              type="date"
+              value={form.date}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Amount *"
+              type="number"
+              value={form.amount || ''}
+              onChange={(e) => setForm({ ...form, amount: parseFloat(e.target.value) || 0 })}
+              inputProps={{ min: 0, step: '0.01' }}
+            />
+            <Autocomplete
+              freeSolo
+              options={EXPENSE_CATEGORIES}
+              value={form.category}
+              onInputChange={(_, value) => setForm((prev) => ({ ...prev, category: value }))}
+              renderInput={(params) => <TextField {...params} label="Category *" />}
+            />
+            <TextField
+              label="Vendor"
+              value={form.vendor}
+              onChange={(e) => setForm({ ...form, vendor: e.target.value })}
+            />
+          </Box>
+          <TextField
+            select
+            fullWidth
+            label="Cost Code *"
+            value={form.cost_code_id || ''}
+            onChange={(e) => setForm({ ...form, cost_code_id: e.target.value || null })}
+            margin="normal"
+            helperText={costCodes.length === 0 ? 'No cost codes are enabled on this project' : undefined}
+          >
+            {costCodes.map((projectCostCode) => (
+              <MenuItem key={projectCostCode.costCodeId} value={projectCostCode.costCodeId}>
+                {projectCostCode.costCode.code} - {projectCostCode.costCode.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            fullWidth
+            label="Description *"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            margin="normal"
+          />
+          <Box display="flex" gap={1} alignItems="center">
+            <FormControl fullWidth margin="normal">
+              <InputLabel>Receipt</InputLabel>
+              <Select
+                value={form.receipt_file_id || ''}
+                label="Receipt"
+                onChange={(e) => setForm({ ...form, receipt_file_id: e.target.value || null })}
+              >
+                <MenuItem value="">None</MenuItem>
+                {receipts.map((receipt) => (
+                  <MenuItem key={receipt.id} value={receipt.id}>
+                    {receipt.original_filename}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button
+              component="label"
+              startIcon={uploading ? <CircularProgress size={16} /> : <UploadIcon />}
+              disabled={uploading}
+              sx={{ mt: 1, whiteSpace: 'nowrap' }}
+            >
+              Upload
+              <input type="file" hidden accept="image/*,application/pdf" onChange={handleUploadReceipt} />
+            </Button>
+          </Box>
+          <TextField
+            fullWidth
+            label="Notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            margin="normal"
+            multiline
+            rows={2}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving || uploading}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteTarget} onClose={() => setDeleteTarget(null)}>
+        <DialogTitle>Delete Expense</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Delete "{deleteTarget?.description}" ({formatCurrency(Number(deleteTarget?.amount || 0))})?
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ProjectExpenses;
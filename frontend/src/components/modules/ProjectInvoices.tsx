@@ -0,0 +1,692 @@
+/**
+ * Project Invoices Component
+ *
+ * Billing for the project Financial tab: progress pay applications built
+ * from the budget breakdown (schedule of values) on lump sum projects, and
+ * T&M invoices built from approved time and expenses otherwise. Drafts can
+ * be rebuilt, then moved through sent and paid, and downloaded as PDFs.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Visibility as ViewIcon,
+  Send as SendIcon,
+  Paid as PaidIcon,
+  Undo as ReopenIcon,
+  PictureAsPdf as PdfIcon
+} from '@mui/icons-material';
+import { useNotification } from '../../hooks/useNotification';
+import { useUser } from '../../store';
+import {
+  invoiceService,
+  Invoice,
+  InvoiceFormData,
+  InvoiceStatus,
+  ScheduleOfValuesLine,
+  TimeAndMaterialsLine
+} from '../../services/invoice.service';
+
+interface ProjectInvoicesProps {
+  projectId: string;
+  billingType: 'TIME_AND_MATERIALS' | 'LUMP_SUM' | 'SERVICE_CALL';
+}
+
+// Roles allowed to prepare and send invoices (matches the API)
+const BILLING_ROLES = ['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+
+interface InvoiceForm {
+  invoice_date: string;
+  due_date: string;
+  period_start: string;
+  period_end: string;
+  retainage_percent: string;
+  labor_rate: string;
+  labor_markup_percent: string;
+  expense_markup_percent: string;
+  stored_materials: Record<string, string>;
+  notes: string;
+}
+
+const toDateInput = (date: string | null) => (date ? date.split('T')[0]! : '');
+
+const today = () => new Date().toISOString().split('T')[0]!;
+
+const emptyForm = (isProgress: boolean): InvoiceForm => ({
+  invoice_date: today(),
+  due_date: '',
+  period_start: '',
+  period_end: today(),
+  retainage_percent: isProgress ? '10' : '0',
+  labor_rate: '',
+  labor_markup_percent: '',
+  expense_markup_percent: '',
+  stored_materials: {},
+  notes: ''
+});
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : '-');
+
+const parseOptional = (value: string): number | null => (value.trim() === '' ? null : parseFloat(value));
+
+const ProjectInvoices: React.FC<ProjectInvoicesProps> = ({ projectId, billingType }) => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const user = useUser();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [form, setForm] = useState<InvoiceForm>(emptyForm(billingType === 'LUMP_SUM'));
+  const [saving, setSaving] = useState(false);
+  const [viewInvoice, setViewInvoice] = useState<Invoice | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Invoice | null>(null);
+
+  const isProgress = billingType === 'LUMP_SUM';
+  const canEdit = !!user && BILLING_ROLES.includes(user.role);
+
+  const loadInvoices = useCallback(async () => {
+    setLoading(true);
+    try {
+      setInvoices(await invoiceService.getInvoices(projectId));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load invoices');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, showError]);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [loadInvoices]);
+
+  const handleOpenCreate = () => {
+    const form = emptyForm(isProgress);
+    const lastInvoice = invoices[0];
+
+    // Carry the retainage rate and T&M rates forward from the latest invoice
+    if (lastInvoice) {
+      form.retainage_percent = String(lastInvoice.retainage_percent);
+      form.labor_rate = lastInvoice.labor_rate !== null ? String(lastInvoice.labor_rate) : '';
+      form.labor_markup_percent =
+        lastInvoice.labor_markup_percent !== null ? String(lastInvoice.labor_markup_percent) : '';
+      form.expense_markup_percent =
+        lastInvoice.expense_markup_percent !== null ? String(lastInvoice.expense_markup_percent) : '';
+    }
+
+    setEditingInvoice(null);
+    setForm(form);
+    setDialogOpen(true);
+  };
+
+  const handleOpenEdit = (invoice: Invoice) => {
+    const storedMaterials: Record<string, string> = {};
+    if (invoice.type === 'PROGRESS') {
+      (invoice.line_items as ScheduleOfValuesLine[]).forEach((line) => {
+        if (line.stored_materials) storedMaterials[line.budget_item_id] = String(line.stored_materials);
+      });
+    }
+
+    setEditingInvoice(invoice);
+    setForm({
+      invoice_date: toDateInput(invoice.invoice_date),
+      due_date: toDateInput(invoice.due_date),
+      period_start: toDateInput(invoice.period_start),
+      period_end: toDateInput(invoice.period_end),
+      retainage_percent: String(invoice.retainage_percent),
+      labor_rate: invoice.labor_rate !== null ? String(invoice.labor_rate) : '',
+      labor_markup_percent: invoice.labor_markup_percent !== null ? String(invoice.labor_markup_percent) : '',
+      expense_markup_percent: invoice.expense_markup_percent !== null ? String(invoice.expense_markup_percent) : '',
+      stored_materials: storedMaterials,
+      notes: invoice.notes || ''
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.period_end) {
+      showError('Period end date is required');
+      return;
+    }
+
+    const data: InvoiceFormData = {
+      invoice_date: form.invoice_date || undefined,
+      due_date: form.due_date || null,
+      period_start: form.period_start || null,
+      period_end: form.period_end,
+      retainage_percent: parseFloat(form.retainage_percent) || 0,
+      notes: form.notes
+    };
+
+    if (isProgress) {
+      data.stored_materials = Object.fromEntries(
+        Object.entries(form.stored_materials).map(([budgetItemId, amount]) => [budgetItemId, parseFloat(amount) || 0])
+      );
+    } else {
+      data.labor_rate = parseOptional(form.labor_rate);
+      data.labor_markup_percent = parseOptional(form.labor_markup_percent);
+      data.expense_markup_percent = parseOptional(form.expense_markup_percent);
+    }
+
+    setSaving(true);
+    try {
+      if (editingInvoice) {
+        await invoiceService.updateInvoice(projectId, editingInvoice.id, data);
+        showSuccess('Invoice updated successfully');
+      } else {
+        await invoiceService.createInvoice(projectId, data);
+        showSuccess('Invoice created successfully');
+      }
+      setDialogOpen(false);
+      await loadInvoices();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (invoice: Invoice, status: InvoiceStatus) => {
+    try {
+      await invoiceService.updateStatus(projectId, invoice.id, status);
+      const labels: Record<InvoiceStatus, string> = {
+        DRAFT: 'returned to draft',
+        SENT: invoice.status === 'PAID' ? 'marked unpaid' : 'marked sent',
+        PAID: 'marked paid'
+      };
+      showSuccess(`${invoice.invoice_number} ${labels[status]}`);
+      await loadInvoices();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to update invoice status');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    try {
+      await invoiceService.deleteInvoice(projectId, deleteTarget.id);
+      showSuccess('Invoice deleted successfully');
+      setDeleteTarget(null);
+      await loadInvoices();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to delete invoice');
+    }
+  };
+
+  const handleDownloadPDF = async (invoice: Invoice) => {
+    try {
+      await invoiceService.downloadPDF(projectId, invoice);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to download invoice');
+    }
+  };
+
+  const issuedInvoices = invoices.filter((invoice) => invoice.status !== 'DRAFT');
+  const billedToDate = issuedInvoices.reduce((sum, invoice) => sum + invoice.amount_due, 0);
+  const paidToDate = issuedInvoices
+    .filter((invoice) => invoice.status === 'PAID')
+    .reduce((sum, invoice) => sum + invoice.amount_due, 0);
+  // Pay applications carry cumulative retainage; T&M invoices hold it per invoice
+  const latestApplication = issuedInvoices.find((invoice) => invoice.type === 'PROGRESS');
+  const retainageHeld =
+    (latestApplication?.retainage_amount || 0) +
+    issuedInvoices
+      .filter((invoice) => invoice.type === 'TIME_AND_MATERIALS')
+      .reduce((sum, invoice) => sum + invoice.retainage_amount, 0);
+
+  const editingLines =
+    editingInvoice?.type === 'PROGRESS' ? (editingInvoice.line_items as ScheduleOfValuesLine[]) : [];
+
+  return (
+    <Card variant="outlined" sx={{ mt: 3 }}>
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2} gap={2} flexWrap="wrap">
+          <Box>
+            <Typography variant="h6">{isProgress ? 'Pay Applications' : 'Invoices'}</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Billed {formatCurrency(billedToDate)} · Paid {formatCurrency(paidToDate)} · Outstanding{' '}
+              {formatCurrency(billedToDate - paidToDate)} · Retainage Held {formatCurrency(retainageHeld)}
+            </Typography>
+          </Box>
+          {canEdit && (
+            <Button size="small" variant="contained" startIcon={<AddIcon />} onClick={handleOpenCreate}>
+              {isProgress ? 'New Pay Application' : 'New T&M Invoice'}
+            </Button>
+          )}
+        </Box>
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={32} />
+          </Box>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Invoice #</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Period</TableCell>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Retainage</TableCell>
+                  <TableCell align="right">Amount Due</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {invoices.map((invoice) => (
+                  <TableRow key={invoice.id} hover>
+                    <TableCell>
+                      <Typography variant="body2">{invoice.invoice_number}</Typography>
+                      {invoice.application_number !== null && (
+                        <Typography variant="caption" color="text.secondary">
+                          Application #{invoice.application_number}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{invoice.type === 'PROGRESS' ? 'Progress' : 'T&M'}</TableCell>
+                    <TableCell>
+                      {invoice.period_start ? `${formatDate(invoice.period_start)} - ` : 'To '}
+                      {formatDate(invoice.period_end)}
+                    </TableCell>
+                    <TableCell>{formatDate(invoice.invoice_date)}</TableCell>
+                    <TableCell>
+                      <Chip label={invoice.status} size="small" color={invoiceService.getStatusColor(invoice.status)} />
+                    </TableCell>
+                    <TableCell align="right">{formatCurrency(invoice.retainage_amount)}</TableCell>
+                    <TableCell align="right">{formatCurrency(invoice.amount_due)}</TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title="View">
+                        <IconButton size="small" onClick={() => setViewInvoice(invoice)}>
+                          <ViewIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Download PDF">
+                        <IconButton size="small" onClick={() => handleDownloadPDF(invoice)}>
+                          <PdfIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      {canEdit && invoice.status === 'DRAFT' && (
+                        <>
+                          <Tooltip title="Mark sent">
+                            <IconButton size="small" color="primary" onClick={() => handleStatusChange(invoice, 'SENT')}>
+                              <SendIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Edit and rebuild">
+                            <IconButton size="small" onClick={() => handleOpenEdit(invoice)}>
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Delete">
+                            <IconButton size="small" onClick={() => setDeleteTarget(invoice)}>
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </>
+                      )}
+                      {canEdit && invoice.status === 'SENT' && (
+                        <>
+                          <Tooltip title="Mark paid">
+                            <IconButton size="small" color="success" onClick={() => handleStatusChange(invoice, 'PAID')}>
+                              <PaidIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Return to draft">
+                            <IconButton size="small" onClick={() => handleStatusChange(invoice, 'DRAFT')}>
+                              <ReopenIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        </>
+                      )}
+                      {canEdit && invoice.status === 'PAID' && (
+                        <Tooltip title="Mark unpaid">
+                          <IconButton size="small" onClick={() => handleStatusChange(invoice, 'SENT')}>
+                            <ReopenIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {invoices.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center">
+                      <Typography variant="body2" color="text.secondary" py={2}>
+                        No invoices created
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </CardContent>
+
+      {/* Create/Edit Invoice Dialog */}
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {editingInvoice
+            ? `Edit ${editingInvoice.invoice_number}`
+            : isProgress
+            ? 'New Pay Application'
+            : 'New T&M Invoice'}
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            {isProgress
+              ? 'Work completed to date comes from the percent complete on each budget breakdown line.'
+              : 'Bills approved time entries and expenses in the period that are not on another invoice.'}
+          </Typography>
+          <Box display="grid" gridTemplateColumns="repeat(3, 1fr)" gap={2} mt={1}>
+            <TextField
+              label="Period Start"
+              type="date"
+              value={form.period_start}
+              onChange={(e) => setForm({ ...form, period_start: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Period End *"
+              type="date"
+              value={form.period_end}
+              onChange={(e) => setForm({ ...form, period_end: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Retainage %"
+              type="number"
+              value={form.retainage_percent}
+              onChange={(e) => setForm({ ...form, retainage_percent: e.target.value })}
+              inputProps={{ min: 0, max: 100, step: 'any' }}
+            />
+            <TextField
+              label="Invoice Date"
+              type="date"
+              value={form.invoice_date}
+              onChange={(e) => setForm({ ...form, invoice_date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              label="Due Date"
+              type="date"
+              value={form.due_date}
+              onChange={(e) => setForm({ ...form, due_date: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Box>
+
+          {!isProgress && (
+            <Box display="grid" gridTemplateColumns="repeat(3, 1fr)" gap={2} mt={2}>
+              <TextField
+                label="Labor Rate ($/hr)"
+                type="number"
+                value={form.labor_rate}
+                onChange={(e) => setForm({ ...form, labor_rate: e.target.value })}
+                inputProps={{ min: 0, step: '0.01' }}
+                helperText="Blank bills labor at cost plus markup"
+              />
+              <TextField
+                label="Labor Markup %"
+                type="number"
+                value={form.labor_markup_percent}
+                onChange={(e) => setForm({ ...form, labor_markup_percent: e.target.value })}
+                inputProps={{ min: 0, step: 'any' }}
+                disabled={form.labor_rate.trim() !== ''}
+              />
+              <TextField
+                label="Materials & Expense Markup %"
+                type="number"
+                value={form.expense_markup_percent}
+                onChange={(e) => setForm({ ...form, expense_markup_percent: e.target.value })}
+                inputProps={{ min: 0, step: 'any' }}
+              />
+            </Box>
+          )}
+
+          {isProgress && editingLines.length > 0 && (
+            <>
+              <Typography variant="subtitle1" mt={2} mb={1}>
+                Materials Presently Stored
+              </Typography>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Item</TableCell>
+                      <TableCell>Description</TableCell>
+                      <TableCell align="right">Scheduled Value</TableCell>
+                      <TableCell align="right">Stored Materials</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {editingLines.map((line) => (
+                      <TableRow key={line.budget_item_id}>
+                        <TableCell>{line.item_number}</TableCell>
+                        <TableCell>{line.description}</TableCell>
+                        <TableCell align="right">{formatCurrency(line.scheduled_value)}</TableCell>
+                        <TableCell align="right" sx={{ width: 160 }}>
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={form.stored_materials[line.budget_item_id] ?? ''}
+                            onChange={(e) =>
+                              setForm({
+                                ...form,
+                                stored_materials: { ...form.stored_materials, [line.budget_item_id]: e.target.value }
+                              })
+                            }
+                            inputProps={{ min: 0, step: '0.01' }}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+
+          <TextField
+            fullWidth
+            label="Notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            margin="normal"
+            multiline
+            rows={2}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : editingInvoice ? 'Save & Rebuild' : 'Create Draft'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* View Invoice Dialog */}
+      <Dialog open={!!viewInvoice} onClose={() => setViewInvoice(null)} maxWidth="lg" fullWidth>
+        <DialogTitle>
+          {viewInvoice?.invoice_number}
+          {viewInvoice?.application_number !== null && viewInvoice?.application_number !== undefined
+            ? ` · Application #${viewInvoice.application_number}`
+            : ''}
+        </DialogTitle>
+        <DialogContent>
+          {viewInvoice?.type === 'PROGRESS' ? (
+            <>
+              <Box display="grid" gridTemplateColumns="repeat(3, 1fr)" gap={1} mb={2}>
+                <Typography variant="body2">
+                  Original Contract: {formatCurrency(viewInvoice.original_contract || 0)}
+                </Typography>
+                <Typography variant="body2">
+                  Change Orders: {formatCurrency(viewInvoice.change_orders_total || 0)}
+                </Typography>
+                <Typography variant="body2">
+                  Completed & Stored: {formatCurrency(viewInvoice.completed_to_date || 0)}
+                </Typography>
+              </Box>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Item</TableCell>
+                      <TableCell>Description</TableCell>
+                      <TableCell align="right">Scheduled Value</TableCell>
+                      <TableCell align="right">Previous</TableCell>
+                      <TableCell align="right">This Period</TableCell>
+                      <TableCell align="right">Stored</TableCell>
+                      <TableCell align="right">Completed</TableCell>
+                      <TableCell align="right">%</TableCell>
+                      <TableCell align="right">Balance</TableCell>
+                      <TableCell align="right">Retainage</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {(viewInvoice.line_items as ScheduleOfValuesLine[]).map((line) => (
+                      <TableRow key={line.budget_item_id}>
+                        <TableCell>{line.item_number}</TableCell>
+                        <TableCell>{line.description}</TableCell>
+                        <TableCell align="right">{formatCurrency(line.scheduled_value)}</TableCell>
+                        <TableCell align="right">{formatCurrency(line.previous_completed)}</TableCell>
+                        <TableCell align="right">{formatCurrency(line.this_period)}</TableCell>
+                        <TableCell align="right">{formatCurrency(line.stored_materials)}</TableCell>
+                        <TableCell align="right">{formatCurrency(line.total_completed)}</TableCell>
+                        <TableCell align="right">{line.percent_complete.toFixed(1)}</TableCell>
+                        <TableCell align="right">{formatCurrency(line.balance_to_finish)}</TableCell>
+                        <TableCell align="right">{formatCurrency(line.retainage)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Description</TableCell>
+                    <TableCell align="right">Qty</TableCell>
+                    <TableCell>Unit</TableCell>
+                    <TableCell align="right">Rate</TableCell>
+                    <TableCell align="right">Total</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {((viewInvoice?.line_items || []) as TimeAndMaterialsLine[]).map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>
+                        {line.description}
+                        <Chip label={line.kind === 'LABOR' ? 'Labor' : 'Expense'} size="small" sx={{ ml: 1 }} />
+                      </TableCell>
+                      <TableCell align="right">{line.quantity}</TableCell>
+                      <TableCell>{line.unit}</TableCell>
+                      <TableCell align="right">{formatCurrency(line.unit_price)}</TableCell>
+                      <TableCell align="right">{formatCurrency(line.total)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          {viewInvoice && (
+            <Box display="flex" justifyContent="flex-end" mt={2}>
+              <Box minWidth={280}>
+                <Box display="flex" justifyContent="space-between">
+                  <Typography variant="body2">
+                    {viewInvoice.type === 'PROGRESS' ? 'Completed to Date' : 'Subtotal'}
+                  </Typography>
+                  <Typography variant="body2">
+                    {formatCurrency(
+                      viewInvoice.type === 'PROGRESS' ? viewInvoice.completed_to_date || 0 : viewInvoice.subtotal
+                    )}
+                  </Typography>
+                </Box>
+                <Box display="flex" justifyContent="space-between">
+                  <Typography variant="body2">Retainage ({viewInvoice.retainage_percent}%)</Typography>
+                  <Typography variant="body2">-{formatCurrency(viewInvoice.retainage_amount)}</Typography>
+                </Box>
+                {viewInvoice.type === 'PROGRESS' && (
+                  <Box display="flex" justifyContent="space-between">
+                    <Typography variant="body2">Previously Billed</Typography>
+                    <Typography variant="body2">-{formatCurrency(viewInvoice.previous_billed)}</Typography>
+                  </Box>
+                )}
+                <Box display="flex" justifyContent="space-between">
+                  <Typography variant="subtitle2">Amount Due</Typography>
+                  <Typography variant="subtitle2">{formatCurrency(viewInvoice.amount_due)}</Typography>
+                </Box>
+              </Box>
+            </Box>
+          )}
+          {viewInvoice?.notes && (
+            <Typography variant="body2" color="text.secondary" mt={2}>
+              {viewInvoice.notes}
+            </Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {viewInvoice && (
+            <Button startIcon={<PdfIcon />} onClick={() => handleDownloadPDF(viewInvoice)}>
+              PDF
+            </Button>
+          )}
+          <Button onClick={() => setViewInvoice(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteTarget} onClose={() => setDeleteTarget(null)}>
+        <DialogTitle>Delete Invoice</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Delete draft {deleteTarget?.invoice_number}? Any time entries and expenses on it become available to
+            bill again.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ProjectInvoices;
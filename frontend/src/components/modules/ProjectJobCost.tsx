@@ -0,0 +1,433 @@
+/**
+ * Project Job Cost Component
+ *
+ * Budget vs actual vs committed view for the project Financial tab.
+ * Actual cost is computed from approved time entries, project expenses and
+ * receipts, broken down by cost code against the project's cost code budgets;
+ * committed cost is labor and expenses still awaiting approval.
+ * Percent complete drives earned value, CPI and the estimate at completion.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { TrendingUp as ProgressIcon, Refresh as RefreshIcon, Calculate as RecalculateIcon } from '@mui/icons-material';
+import { useNotification } from '../../hooks/useNotification';
+import { useUser } from '../../store';
+import {
+  Project,
+  JobCostSummary,
+  getProjectJobCost,
+  recalculateProjectActualCost,
+  updateProjectProgress
+} from '../../services/project.service';
+
+interface ProjectJobCostProps {
+  project: Project;
+  refreshKey?: number; // Bump to reload after costs change elsewhere on the page
+}
+
+// Roles allowed to update percent complete (matches the API)
+const PROGRESS_EDITORS = ['PROJECT_MANAGER', 'SUPER_ADMIN'];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const varianceColor = (value: number) => (value < 0 ? 'error.main' : 'success.main');
+
+const ProjectJobCost: React.FC<ProjectJobCostProps> = ({ project, refreshKey }) => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const user = useUser();
+  const [jobCost, setJobCost] = useState<JobCostSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [progressOpen, setProgressOpen] = useState(false);
+  const [projectPercent, setProjectPercent] = useState('');
+  const [itemPercents, setItemPercents] = useState<Record<string, string>>({});
+  const [savedItemPercents, setSavedItemPercents] = useState<Record<string, number>>({});
+  const [saving, setSaving] = useState(false);
+  const [recalculating, setRecalculating] = useState(false);
+
+  const budgetItems = useMemo(() => project.budgetItems || [], [project.budgetItems]);
+  const canEditProgress = !!user && PROGRESS_EDITORS.includes(user.role);
+
+  const loadJobCost = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await getProjectJobCost(project.id);
+      setJobCost(response.data);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load job cost');
+    } finally {
+      setLoading(false);
+    }
+  }, [project.id, showError]);
+
+  useEffect(() => {
+    loadJobCost();
+  }, [loadJobCost, refreshKey]);
+
+  useEffect(() => {
+    setSavedItemPercents(
+      budgetItems.reduce<Record<string, number>>((acc, item) => {
+        acc[item.id] = item.percentComplete;
+        return acc;
+      }, {})
+    );
+  }, [budgetItems]);
+
+  const handleOpenProgress = () => {
+    setProjectPercent(jobCost ? String(jobCost.percentComplete) : '0');
+    setItemPercents(
+      budgetItems.reduce<Record<string, string>>((acc, item) => {
+        acc[item.id] = String(savedItemPercents[item.id] ?? 0);
+        return acc;
+      }, {})
+    );
+    setProgressOpen(true);
+  };
+
+  const handleSaveProgress = async () => {
+    const items = budgetItems.map((item) => ({
+      id: item.id,
+      percentComplete: parseFloat(itemPercents[item.id]) || 0
+    }));
+
+    setSaving(true);
+    try {
+      const response = await updateProjectProgress(
+        project.id,
+        items.length > 0 ? { items } : { percentComplete: parseFloat(projectPercent) || 0 }
+      );
+      setJobCost(response.data);
+      setSavedItemPercents(
+        items.reduce<Record<string, number>>((acc, item) => {
+          acc[item.id] = item.percentComplete;
+          return acc;
+        }, {})
+      );
+
+      showSuccess('Progress updated successfully');
+      setProgressOpen(false);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to update progress');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !jobCost) {
+    return (
+      <Box display="flex" justifyContent="center" py={4}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!jobCost) {
+    return <Alert severity="info">Job cost is not available for this project.</Alert>;
+  }
+
+  // Job cost is computed on read; the project's stored actual cost only changes here
+  const handleRecalculate = async () => {
+    setRecalculating(true);
+    try {
+      const response = await recalculateProjectActualCost(project.id);
+      setJobCost(response.data);
+      showSuccess('Project actual cost updated');
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to recalculate actual cost');
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  const spentPercent = jobCost.budget > 0 ? ((jobCost.actualCost + jobCost.committedCost) / jobCost.budget) * 100 : 0;
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="flex-end" gap={1} mb={2}>
+        <Button size="small" startIcon={<RefreshIcon />} onClick={loadJobCost} disabled={loading}>
+          Refresh
+        </Button>
+        {canEditProgress && (
+          <Button size="small" startIcon={<RecalculateIcon />} onClick={handleRecalculate} disabled={recalculating}>
+            {recalculating ? 'Saving...' : 'Save Actual Cost'}
+          </Button>
+        )}
+        {canEditProgress && (
+          <Button size="small" variant="outlined" startIcon={<ProgressIcon />} onClick={handleOpenProgress}>
+            Update Progress
+          </Button>
+        )}
+      </Box>
+
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+          gap: 3
+        }}
+      >
+        {/* Budget vs Actual vs Committed */}
+        <Card variant="outlined">
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              Budget vs Actual
+            </Typography>
+            <Box display="flex" flexDirection="column" gap={1.5}>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2" color="text.secondary">Budget:</Typography>
+                <Typography variant="body1" fontWeight="bold">{formatCurrency(jobCost.budget)}</Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2" color="text.secondary">
+                  Actual ({jobCost.laborHours} labor hrs):
+                </Typography>
+                <Typography variant="body1" fontWeight="bold">{formatCurrency(jobCost.actualCost)}</Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between" pl={2}>
+                <Typography variant="caption" color="text.secondary">Labor / Expenses / Receipts</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {formatCurrency(jobCost.laborCost)} / {formatCurrency(jobCost.expenseCost)} /{' '}
+                  {formatCurrency(jobCost.receiptCost)}
+                </Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2" color="text.secondary">Committed (pending approval):</Typography>
+                <Typography variant="body1" fontWeight="bold">{formatCurrency(jobCost.committedCost)}</Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2" color="text.secondary">Remaining:</Typography>
+                <Typography variant="body1" fontWeight="bold" color={varianceColor(jobCost.remaining)}>
+                  {formatCurrency(jobCost.remaining)}
+                </Typography>
+              </Box>
+              <Box display="flex" alignItems="center" gap={1}>
+                <LinearProgress
+                  variant="determinate"
+                  value={Math.min(100, spentPercent)}
+                  color={spentPercent > 100 ? 'error' : 'primary'}
+                  sx={{ flexGrow: 1, height: 8, borderRadius: 1 }}
+                />
+                <Typography variant="body2">{Math.round(spentPercent)}% used</Typography>
+              </Box>
+            </Box>
+          </CardContent>
+        </Card>
+
+        {/* Earned Value */}
+        <Card variant="outlined">
+          <CardContent>
+            <Typography variant="h6" gutterBottom>
+              Earned Value
+            </Typography>
+            <Box display="flex" flexDirection="column" gap={1.5}>
+              <Box display="flex" alignItems="center" gap={1}>
+                <LinearProgress
+                  variant="determinate"
+                  value={Math.min(100, jobCost.percentComplete)}
+                  color="success"
+                  sx={{ flexGrow: 1, height: 8, borderRadius: 1 }}
+                />
+                <Typography variant="body2">{jobCost.percentComplete}% complete</Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2" color="text.secondary">Earned Value:</Typography>
+                <Typography variant="body1" fontWeight="bold">{formatCurrency(jobCost.earnedValue)}</Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2" color="text.secondary">Cost Variance (EV - AC):</Typography>
+                <Typography variant="body1" fontWeight="bold" color={varianceColor(jobCost.costVariance)}>
+                  {formatCurrency(jobCost.costVariance)}
+                </Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2" color="text.secondary">Cost Performance Index:</Typography>
+                <Typography
+                  variant="body1"
+                  fontWeight="bold"
+                  color={jobCost.costPerformanceIndex !== null && jobCost.costPerformanceIndex < 1 ? 'error.main' : undefined}
+                >
+                  {jobCost.costPerformanceIndex !== null ? jobCost.costPerformanceIndex.toFixed(2) : '-'}
+                </Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2" color="text.secondary">Estimate at Completion:</Typography>
+                <Typography variant="body1" fontWeight="bold">
+                  {formatCurrency(jobCost.estimateAtCompletion)}
+                </Typography>
+              </Box>
+              <Box display="flex" justifyContent="space-between">
+                <Typography variant="body2" color="text.secondary">Variance at Completion:</Typography>
+                <Typography variant="body1" fontWeight="bold" color={varianceColor(jobCost.varianceAtCompletion)}>
+                  {formatCurrency(jobCost.varianceAtCompletion)}
+                </Typography>
+              </Box>
+            </Box>
+          </CardContent>
+        </Card>
+      </Box>
+
+      {/* Cost Code Breakdown */}
+      <Card variant="outlined" sx={{ mt: 3 }}>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>
+            Job Cost by Cost Code
+          </Typography>
+          {jobCost.costCodes.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No budget lines or costs recorded yet.
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Cost Code</TableCell>
+                    <TableCell align="right">Budget</TableCell>
+                    <TableCell align="right">Actual</TableCell>
+                    <TableCell align="right">Committed</TableCell>
+                    <TableCell align="right">Remaining</TableCell>
+                    <TableCell align="right">% Complete</TableCell>
+                    <TableCell align="right">Earned Value</TableCell>
+                    <TableCell align="right">Cost Variance</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {jobCost.costCodes.map((line) => (
+                    <TableRow key={line.costCodeId ?? line.name}>
+                      <TableCell>
+                        <Typography variant="body2">{line.code ? `${line.code} - ${line.name}` : line.name}</Typography>
+                        {(line.laborHours > 0 || line.budgetHours !== null) && (
+                          <Typography variant="caption" color="text.secondary">
+                            {line.laborHours}
+                            {line.budgetHours !== null ? ` of ${line.budgetHours}` : ''} labor hrs
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{formatCurrency(line.budget)}</TableCell>
+                      <TableCell align="right">{formatCurrency(line.actualCost)}</TableCell>
+                      <TableCell align="right">{formatCurrency(line.committedCost)}</TableCell>
+                      <TableCell align="right">
+                        <Typography variant="body2" color={varianceColor(line.remaining)}>
+                          {formatCurrency(line.remaining)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">{line.budget > 0 ? `${line.percentComplete}%` : '-'}</TableCell>
+                      <TableCell align="right">{formatCurrency(line.earnedValue)}</TableCell>
+                      <TableCell align="right">
+                        <Typography variant="body2" color={varianceColor(line.costVariance)}>
+                          {formatCurrency(line.costVariance)}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="bold">Total</Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Typography variant="body2" fontWeight="bold">
+                        {formatCurrency(jobCost.costCodes.reduce((sum, line) => sum + line.budget, 0))}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Typography variant="body2" fontWeight="bold">{formatCurrency(jobCost.actualCost)}</Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Typography variant="body2" fontWeight="bold">{formatCurrency(jobCost.committedCost)}</Typography>
+                    </TableCell>
+                    <TableCell colSpan={4} />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Update Progress Dialog */}
+      <Dialog open={progressOpen} onClose={() => setProgressOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Update Progress</DialogTitle>
+        <DialogContent>
+          {budgetItems.length > 0 ? (
+            <>
+              <Typography variant="body2" color="text.secondary" mb={2}>
+                Enter percent complete for each budget line. Project progress is weighted by budget.
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Budget Line</TableCell>
+                    <TableCell align="right">Budget</TableCell>
+                    <TableCell align="right" width={120}>% Complete</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {budgetItems.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <Typography variant="body2">{item.description}</Typography>
+                        <Typography variant="caption" color="text.secondary">{item.category}</Typography>
+                      </TableCell>
+                      <TableCell align="right">{formatCurrency(item.total)}</TableCell>
+                      <TableCell align="right">
+                        <TextField
+                          type="number"
+                          size="small"
+                          value={itemPercents[item.id] ?? ''}
+                          onChange={(e) => setItemPercents((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                          inputProps={{ min: 0, max: 100, step: 1 }}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          ) : (
+            <TextField
+              fullWidth
+              type="number"
+              label="Percent Complete"
+              value={projectPercent}
+              onChange={(e) => setProjectPercent(e.target.value)}
+              inputProps={{ min: 0, max: 100, step: 1 }}
+              margin="normal"
+              helperText="This project has no budget breakdown, so progress is tracked for the whole job"
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setProgressOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSaveProgress} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ProjectJobCost;
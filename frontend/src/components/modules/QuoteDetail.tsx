@@ -2,7 +2,8 @@
  * Quote Detail Component
  * 
  * Comprehensive detail view for quotes with line items, client info, and actions.
- * Includes status updates, editing, and duplication capabilities.
+ * Includes status updates, editing, duplication, revision history with
+ * line-by-line comparison, and conversion to a project.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -41,12 +42,23 @@ import {
   Send as SendIcon,
   Check as CheckIcon,
   Close as CloseIcon,
-  Print as PrintIcon
+  Print as PrintIcon,
+  AccountTree as ConvertIcon,
+  OpenInNew as OpenIcon,
+  PictureAsPdf as PdfIcon,
+  History as RevisionIcon,
+  CompareArrows as CompareIcon
 } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import { useNotification } from '../../hooks/useNotification';
 import { 
   quoteService, 
   Quote, 
-  QuoteStatus 
+  QuoteStatus,
+  ConvertQuoteData,
+  QuoteRevision,
+  QuoteRevisionComparison,
+  QuoteRevisionLineDiff
 } from '../../services/quote.service';
 
 interface QuoteDetailProps {
@@ -55,19 +67,58 @@ interface QuoteDetailProps {
   onDelete: (quote: Quote) => void;
   onDuplicate: (quote: Quote) => void;
   onStatusChange: (quote: Quote, status: QuoteStatus) => void;
+  onConvert: (quote: Quote, data: ConvertQuoteData) => void;
+  onCreateRevision: (quote: Quote, changeSummary: string) => void;
+  onAcceptRevision: (quote: Quote, revisionNumber: number) => void;
 }
 
+const DIFF_STATUS_COLORS: Record<QuoteRevisionLineDiff['status'], 'success' | 'error' | 'warning' | 'default'> = {
+  added: 'success',
+  removed: 'error',
+  changed: 'warning',
+  unchanged: 'default'
+};
+
 const QuoteDetail: React.FC<QuoteDetailProps> = ({
   quote,
   onEdit,
   onDelete,
   onDuplicate,
-  onStatusChange
+  onStatusChange,
+  onConvert,
+  onCreateRevision,
+  onAcceptRevision
 }) => {
+  const navigate = useNavigate();
+  const { error: showError } = useNotification();
   const [statusDialog, setStatusDialog] = useState(false);
+  const [downloadingPdf, setDownloadingPdf] = useState(false);
   const [deleteDialog, setDeleteDialog] = useState(false);
   const [duplicateDialog, setDuplicateDialog] = useState(false);
+  const [convertDialog, setConvertDialog] = useState(false);
   const [newProjectName, setNewProjectName] = useState(`${quote.project_name} (Copy)`);
+  const [convertData, setConvertData] = useState<ConvertQuoteData>({
+    name: quote.project_name,
+    type: 'COMMERCIAL',
+    billing_type: 'LUMP_SUM'
+  });
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [revisionDialog, setRevisionDialog] = useState(false);
+  const [changeSummary, setChangeSummary] = useState('');
+  const [acceptRevision, setAcceptRevision] = useState<number | null>(null);
+  const [compareDialog, setCompareDialog] = useState(false);
+  const [compareFrom, setCompareFrom] = useState<number | ''>('');
+  const [compareTo, setCompareTo] = useState<number | ''>('');
+  const [comparison, setComparison] = useState<QuoteRevisionComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  // Reload revision history whenever the quote changes
+  useEffect(() => {
+    quoteService
+      .listRevisions(quote.id)
+      .then(setRevisions)
+      .catch(() => setRevisions([]));
+  }, [quote.id, quote.updated_at]);
 
   // Debug logging in development (only on mount/update)
   useEffect(() => {
@@ -142,6 +193,10 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
     );
   }
 
+  // Material/labor/overhead rollup for labor-unit estimated lines
+  const lineItemTotals = quoteService.calculateLineItemTotals(quote.line_items);
+  const hasEstimates = quote.line_items.some((item) => quoteService.isEstimatedLineItem(item));
+
   const handleStatusChange = (newStatus: QuoteStatus) => {
     onStatusChange(quote, newStatus);
     setStatusDialog(false);
@@ -157,6 +212,80 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
     setDuplicateDialog(false);
   };
 
+  const handleDownloadPdf = async () => {
+    setDownloadingPdf(true);
+    try {
+      await quoteService.downloadQuotePDF(quote.id, quote.quote_number);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to download PDF');
+    } finally {
+      setDownloadingPdf(false);
+    }
+  };
+
+  const handleCreateRevision = () => {
+    onCreateRevision(quote, changeSummary.trim());
+    setRevisionDialog(false);
+    setChangeSummary('');
+  };
+
+  const handleAcceptRevision = () => {
+    if (acceptRevision !== null) {
+      onAcceptRevision(quote, acceptRevision);
+    }
+    setAcceptRevision(null);
+  };
+
+  const openCompareDialog = () => {
+    // Default to comparing the two most recent revisions
+    setCompareTo(revisions[0]?.revision_number ?? '');
+    setCompareFrom(revisions[1]?.revision_number ?? revisions[0]?.revision_number ?? '');
+    setComparison(null);
+    setCompareDialog(true);
+  };
+
+  const handleCompare = async () => {
+    if (compareFrom === '' || compareTo === '') return;
+
+    setComparing(true);
+    try {
+      setComparison(await quoteService.compareRevisions(quote.id, compareFrom, compareTo));
+    } catch (error: any) {
+      showError(error?.message || 'Failed to compare revisions');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const renderDiffValue = (
+    line: QuoteRevisionLineDiff,
+    field: 'quantity' | 'unit_price' | 'total',
+    currency: boolean
+  ) => {
+    const format = (value?: number) =>
+      value === undefined ? '' : currency ? quoteService.formatCurrency(value) : String(value);
+    const from = line.from?.[field];
+    const to = line.to?.[field];
+
+    if (line.status === 'changed' && line.changed_fields.includes(field)) {
+      return (
+        <>
+          <Typography component="span" variant="body2" sx={{ textDecoration: 'line-through', color: 'text.secondary' }}>
+            {format(from)}
+          </Typography>{' '}
+          {format(to)}
+        </>
+      );
+    }
+
+    return format(to ?? from);
+  };
+
+  const handleConvert = () => {
+    onConvert(quote, convertData);
+    setConvertDialog(false);
+  };
+
   const getStatusActions = () => {
     switch (quote.status) {
       case QuoteStatus.DRAFT:
@@ -207,6 +336,32 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
             Reject
           </Button>
         ];
+      case QuoteStatus.ACCEPTED:
+        return quote.project_id
+          ? [
+              <Button
+                key="view-project"
+                variant="outlined"
+                color="success"
+                startIcon={<OpenIcon />}
+                onClick={() => navigate(`/projects/${quote.project_id}`)}
+                sx={{ mr: 1 }}
+              >
+                View Project
+              </Button>
+            ]
+          : [
+              <Button
+                key="convert"
+                variant="contained"
+                color="success"
+                startIcon={<ConvertIcon />}
+                onClick={() => setConvertDialog(true)}
+                sx={{ mr: 1 }}
+              >
+                Convert to Project
+              </Button>
+            ];
       default:
         return [];
     }
@@ -218,7 +373,7 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
       <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={3}>
         <Box>
           <Typography variant="h4" gutterBottom>
-            {quote.quote_number}
+            {quoteService.formatQuoteNumber(quote)}
           </Typography>
           <Typography variant="h6" color="text.secondary" gutterBottom>
             {quote.project_name}
@@ -228,6 +383,22 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
             color={quoteService.getStatusColor(quote.status)}
             size="medium"
           />
+          {quote.accepted_revision != null && (
+            <Chip
+              label={`Accepted R${quote.accepted_revision}`}
+              color="success"
+              variant="outlined"
+              size="medium"
+              sx={{ ml: 1 }}
+            />
+          )}
+          {quote.project_id && (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+              Converted to project
+              {quote.project ? ` ${quote.project.project_number} - ${quote.project.name}` : ''}
+              {quote.converted_at ? ` on ${new Date(quote.converted_at).toLocaleDateString()}` : ''}
+            </Typography>
+          )}
         </Box>
         <Box display="flex" gap={1}>
           {getStatusActions()}
@@ -245,6 +416,14 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
           >
             Duplicate
           </Button>
+          <Button
+            variant="outlined"
+            startIcon={<PdfIcon />}
+            onClick={handleDownloadPdf}
+            disabled={downloadingPdf}
+          >
+            Download PDF
+          </Button>
           <Button
             variant="outlined"
             startIcon={<PrintIcon />}
@@ -336,6 +515,9 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
                       <TableCell>Description</TableCell>
                       <TableCell align="center" width={100}>Qty</TableCell>
                       <TableCell align="center" width={80}>Unit</TableCell>
+                      {hasEstimates && (
+                        <TableCell align="right" width={100}>Labor Hrs</TableCell>
+                      )}
                       <TableCell align="right" width={120}>Unit Price</TableCell>
                       <TableCell align="right" width={120}>Total</TableCell>
                     </TableRow>
@@ -359,6 +541,13 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
                         <TableCell align="center">
                           {item.unit}
                         </TableCell>
+                        {hasEstimates && (
+                          <TableCell align="right">
+                            {item.labor_hours
+                              ? Math.round(item.quantity * item.labor_hours * 100) / 100
+                              : '-'}
+                          </TableCell>
+                        )}
                         <TableCell align="right">
                           {quoteService.formatCurrency(item.unit_price)}
                         </TableCell>
@@ -374,7 +563,42 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
               </TableContainer>
 
               {/* Totals */}
-              <Box display="flex" justifyContent="flex-end" mt={2}>
+              <Box display="flex" justifyContent={hasEstimates ? 'space-between' : 'flex-end'} mt={2} gap={3}>
+                {hasEstimates && (
+                  <Box width={300}>
+                    <Typography variant="subtitle2" gutterBottom>
+                      Estimate Breakdown
+                    </Typography>
+                    <Box display="flex" justifyContent="space-between" mb={1}>
+                      <Typography variant="body2">Material:</Typography>
+                      <Typography variant="body2">
+                        {quoteService.formatCurrency(lineItemTotals.material_subtotal)}
+                      </Typography>
+                    </Box>
+                    <Box display="flex" justifyContent="space-between" mb={1}>
+                      <Typography variant="body2">
+                        Labor ({lineItemTotals.labor_hours} hrs):
+                      </Typography>
+                      <Typography variant="body2">
+                        {quoteService.formatCurrency(lineItemTotals.labor_subtotal)}
+                      </Typography>
+                    </Box>
+                    <Box display="flex" justifyContent="space-between" mb={1}>
+                      <Typography variant="body2">Overhead & Profit:</Typography>
+                      <Typography variant="body2">
+                        {quoteService.formatCurrency(lineItemTotals.overhead_profit)}
+                      </Typography>
+                    </Box>
+                    {lineItemTotals.other_subtotal > 0 && (
+                      <Box display="flex" justifyContent="space-between" mb={1}>
+                        <Typography variant="body2">Other Items:</Typography>
+                        <Typography variant="body2">
+                          {quoteService.formatCurrency(lineItemTotals.other_subtotal)}
+                        </Typography>
+                      </Box>
+                    )}
+                  </Box>
+                )}
                 <Box width={300}>
                   <Box display="flex" justifyContent="space-between" mb={1}>
                     <Typography variant="body2">Subtotal:</Typography>
@@ -419,6 +643,101 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
         </Box>
       )}
 
+      {/* Revision History */}
+      <Box mt={3}>
+        <Card>
+          <CardContent>
+            <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+              <Typography variant="h6">
+                Revision History
+              </Typography>
+              <Box display="flex" gap={1}>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  startIcon={<CompareIcon />}
+                  onClick={openCompareDialog}
+                  disabled={revisions.length < 2}
+                >
+                  Compare
+                </Button>
+                <Button
+                  size="small"
+                  variant="outlined"
+                  startIcon={<RevisionIcon />}
+                  onClick={() => setRevisionDialog(true)}
+                  disabled={!!quote.project_id}
+                >
+                  New Revision
+                </Button>
+              </Box>
+            </Box>
+            {revisions.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No revisions recorded yet.
+              </Typography>
+            ) : (
+              <TableContainer component={Paper} variant="outlined">
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Revision</TableCell>
+                      <TableCell>Date</TableCell>
+                      <TableCell>By</TableCell>
+                      <TableCell>Changes</TableCell>
+                      <TableCell align="right">Total</TableCell>
+                      <TableCell align="right">Actions</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {revisions.map((revision) => (
+                      <TableRow key={revision.id}>
+                        <TableCell>
+                          <Box display="flex" alignItems="center" gap={1}>
+                            <Typography variant="body2" fontWeight="medium">
+                              R{revision.revision_number}
+                            </Typography>
+                            {revision.revision_number === quote.accepted_revision && (
+                              <Chip label="Accepted" color="success" size="small" />
+                            )}
+                            {revision.revision_number === quote.current_revision &&
+                              revision.revision_number !== quote.accepted_revision && (
+                                <Chip label="Current" size="small" />
+                              )}
+                          </Box>
+                        </TableCell>
+                        <TableCell>{new Date(revision.created_at).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          {revision.creator.first_name} {revision.creator.last_name}
+                        </TableCell>
+                        <TableCell>
+                          {revision.change_summary ||
+                            (revision.revision_number === 0 ? 'Original quote' : '-')}
+                        </TableCell>
+                        <TableCell align="right">
+                          {quoteService.formatCurrency(revision.total)}
+                        </TableCell>
+                        <TableCell align="right">
+                          {!quote.project_id && revision.revision_number !== quote.accepted_revision && (
+                            <Button
+                              size="small"
+                              color="success"
+                              onClick={() => setAcceptRevision(revision.revision_number)}
+                            >
+                              Mark Accepted
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </CardContent>
+        </Card>
+      </Box>
+
       {/* Status Change Dialog */}
       <Dialog open={statusDialog} onClose={() => setStatusDialog(false)}>
         <DialogTitle>Change Quote Status</DialogTitle>
@@ -483,6 +802,262 @@ const QuoteDetail: React.FC<QuoteDetailProps> = ({
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* New Revision Dialog */}
+      <Dialog open={revisionDialog} onClose={() => setRevisionDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>New Revision</DialogTitle>
+        <DialogContent>
+          <Alert severity="info" sx={{ mt: 1, mb: 2 }}>
+            Saves the quote's current line items, totals and notes as revision R
+            {revisions.length > 0 ? (revisions[0]?.revision_number ?? 0) + 1 : 0}.
+          </Alert>
+          <TextField
+            fullWidth
+            multiline
+            rows={3}
+            label="Change Summary"
+            placeholder="e.g. Added lighting package per GC request"
+            value={changeSummary}
+            onChange={(e) => setChangeSummary(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRevisionDialog(false)}>Cancel</Button>
+          <Button onClick={handleCreateRevision} variant="contained">
+            Create Revision
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Accept Revision Dialog */}
+      <Dialog open={acceptRevision !== null} onClose={() => setAcceptRevision(null)}>
+        <DialogTitle>Mark Revision Accepted</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Mark R{acceptRevision} as the revision accepted by {quote.client.name}? The quote
+            will be set to Accepted and its line items restored to this revision.
+            Unsaved changes that are not part of a revision will be replaced.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAcceptRevision(null)}>Cancel</Button>
+          <Button onClick={handleAcceptRevision} color="success" variant="contained">
+            Mark Accepted
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Compare Revisions Dialog */}
+      <Dialog open={compareDialog} onClose={() => setCompareDialog(false)} maxWidth="md" fullWidth>
+        <DialogTitle>Compare Revisions</DialogTitle>
+        <DialogContent>
+          <Box display="flex" gap={2} alignItems="center" mt={1} mb={2}>
+            <FormControl fullWidth size="small">
+              <InputLabel>From</InputLabel>
+              <Select
+                value={compareFrom}
+                onChange={(e) => setCompareFrom(e.target.value as number)}
+                label="From"
+              >
+                {revisions.map((revision) => (
+                  <MenuItem key={revision.id} value={revision.revision_number}>
+                    R{revision.revision_number}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl fullWidth size="small">
+              <InputLabel>To</InputLabel>
+              <Select
+                value={compareTo}
+                onChange={(e) => setCompareTo(e.target.value as number)}
+                label="To"
+              >
+                {revisions.map((revision) => (
+                  <MenuItem key={revision.id} value={revision.revision_number}>
+                    R{revision.revision_number}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button
+              variant="contained"
+              onClick={handleCompare}
+              disabled={comparing || compareFrom === '' || compareTo === ''}
+            >
+              Compare
+            </Button>
+          </Box>
+
+          {comparison && (
+            <>
+              {comparison.project_name.from !== comparison.project_name.to && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  Project name changed from "{comparison.project_name.from}" to "{comparison.project_name.to}"
+                </Alert>
+              )}
+              <TableContainer component={Paper} variant="outlined">
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell width={100}>Change</TableCell>
+                      <TableCell>Description</TableCell>
+                      <TableCell align="center">Qty</TableCell>
+                      <TableCell align="right">Unit Price</TableCell>
+                      <TableCell align="right">Total</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {comparison.lines.map((line, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Chip
+                            label={line.status}
+                            color={DIFF_STATUS_COLORS[line.status]}
+                            size="small"
+                            variant={line.status === 'unchanged' ? 'outlined' : 'filled'}
+                          />
+                        </TableCell>
+                        <TableCell
+                          sx={line.status === 'removed' ? { textDecoration: 'line-through' } : undefined}
+                        >
+                          {(line.to ?? line.from)?.description}
+                          {line.status === 'changed' && line.changed_fields.includes('description') && (
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              was: {line.from?.description}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="center">{renderDiffValue(line, 'quantity', false)}</TableCell>
+                        <TableCell align="right">{renderDiffValue(line, 'unit_price', true)}</TableCell>
+                        <TableCell align="right">{renderDiffValue(line, 'total', true)}</TableCell>
+                      </TableRow>
+                    ))}
+                    {(['subtotal', 'tax', 'total'] as const).map((key) => {
+                      const { from, to } = comparison.totals[key];
+                      const difference = to - from;
+                      return (
+                        <TableRow key={key}>
+                          <TableCell colSpan={3} />
+                          <TableCell align="right" sx={{ textTransform: 'capitalize' }}>
+                            {key}
+                          </TableCell>
+                          <TableCell align="right">
+                            <Typography variant="body2" fontWeight={key === 'total' ? 'bold' : undefined}>
+                              {quoteService.formatCurrency(to)}
+                            </Typography>
+                            {difference !== 0 && (
+                              <Typography
+                                variant="caption"
+                                color={difference > 0 ? 'success.main' : 'error.main'}
+                              >
+                                {difference > 0 ? '+' : '-'}
+                                {quoteService.formatCurrency(Math.abs(difference))}
+                              </Typography>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              {comparison.notes.from !== comparison.notes.to && (
+                <Box mt={2}>
+                  <Typography variant="subtitle2" gutterBottom>
+                    Notes changed
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'pre-wrap', textDecoration: 'line-through' }}>
+                    {comparison.notes.from || '(none)'}
+                  </Typography>
+                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                    {comparison.notes.to || '(none)'}
+                  </Typography>
+                </Box>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCompareDialog(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Convert to Project Dialog */}
+      <Dialog open={convertDialog} onClose={() => setConvertDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Convert to Project</DialogTitle>
+        <DialogContent>
+          <Alert severity="info" sx={{ mt: 1, mb: 2 }}>
+            Creates a project for {quote.client.name} with a budget of{' '}
+            {quoteService.formatCurrency(quote.total)} and copies the {quote.line_items.length}{' '}
+            line item(s) into the project budget breakdown.
+          </Alert>
+          <TextField
+            fullWidth
+            label="Project Name"
+            value={convertData.name || ''}
+            onChange={(e) => setConvertData({ ...convertData, name: e.target.value })}
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            fullWidth
+            label="Project Number"
+            value={convertData.project_number || ''}
+            onChange={(e) => setConvertData({ ...convertData, project_number: e.target.value })}
+            helperText="Leave blank to generate automatically"
+            sx={{ mb: 2 }}
+          />
+          <Box display="flex" gap={2} mb={2}>
+            <FormControl fullWidth>
+              <InputLabel>Project Type</InputLabel>
+              <Select
+                value={convertData.type || 'COMMERCIAL'}
+                onChange={(e) =>
+                  setConvertData({ ...convertData, type: e.target.value as ConvertQuoteData['type'] })
+                }
+                label="Project Type"
+              >
+                <MenuItem value="COMMERCIAL">Commercial</MenuItem>
+                <MenuItem value="RESIDENTIAL">Residential</MenuItem>
+                <MenuItem value="INDUSTRIAL">Industrial</MenuItem>
+                <MenuItem value="MAINTENANCE">Maintenance</MenuItem>
+                <MenuItem value="OTHER">Other</MenuItem>
+              </Select>
+            </FormControl>
+            <FormControl fullWidth>
+              <InputLabel>Billing Type</InputLabel>
+              <Select
+                value={convertData.billing_type || 'LUMP_SUM'}
+                onChange={(e) =>
+                  setConvertData({
+                    ...convertData,
+                    billing_type: e.target.value as ConvertQuoteData['billing_type']
+                  })
+                }
+                label="Billing Type"
+              >
+                <MenuItem value="LUMP_SUM">Lump Sum</MenuItem>
+                <MenuItem value="TIME_AND_MATERIALS">Time & Materials</MenuItem>
+                <MenuItem value="SERVICE_CALL">Service Call</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+          <TextField
+            fullWidth
+            type="date"
+            label="Start Date"
+            value={convertData.start_date || ''}
+            onChange={(e) => setConvertData({ ...convertData, start_date: e.target.value || undefined })}
+            InputLabelProps={{ shrink: true }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConvertDialog(false)}>Cancel</Button>
+          <Button onClick={handleConvert} variant="contained" color="success">
+            Create Project
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
@@ -2,7 +2,8 @@
  * Quote Form Component
  * 
  * Comprehensive form for creating and editing quotes with line items management.
- * Includes validation, calculations, and client selection.
+ * Includes validation, calculations, client selection, labor-unit estimating,
+ * and inserting items or assemblies from the price book.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -39,7 +40,9 @@ import {
   Delete as DeleteIcon,
   Save as SaveIcon,
   Cancel as CancelIcon,
-  Calculate as CalculateIcon
+  Calculate as CalculateIcon,
+  MenuBook as PriceBookIcon,
+  Engineering as LaborUnitsIcon
 } from '@mui/icons-material';
 import { useForm, Controller, useFieldArray } from 'react-hook-form';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
@@ -53,6 +56,7 @@ import {
   QuoteStatus 
 } from '../../services/quote.service';
 import { useClientStore } from '../../store/client.store';
+import PriceBookPicker from './PriceBookPicker';
 
 interface QuoteFormProps {
   quote?: any; // Quote for editing
@@ -61,6 +65,11 @@ interface QuoteFormProps {
   loading?: boolean;
 }
 
+// Line item fields used for labor-unit estimating
+type EstimateField = 'material_cost' | 'labor_hours' | 'labor_rate' | 'markup';
+
+const ESTIMATE_FIELDS: EstimateField[] = ['material_cost', 'labor_hours', 'labor_rate', 'markup'];
+
 interface FormData {
   client_id: string;
   project_name: string;
@@ -82,6 +91,10 @@ const QuoteForm: React.FC<QuoteFormProps> = ({
   const { clients, loadClients } = useClientStore();
   const [lineItemErrors, setLineItemErrors] = useState<Record<string, string[]>>({});
   const [showCalculations, setShowCalculations] = useState(false);
+  const [priceBookOpen, setPriceBookOpen] = useState(false);
+  const [showLaborUnits, setShowLaborUnits] = useState<boolean>(
+    () => (quote?.line_items || []).some((item: LineItem) => quoteService.isEstimatedLineItem(item))
+  );
 
   const {
     control,
@@ -126,6 +139,15 @@ const QuoteForm: React.FC<QuoteFormProps> = ({
     append(quoteService.generateLineItem());
   };
 
+  const handleInsertLineItems = (lineItems: LineItem[]) => {
+    // Replace the untouched starter row instead of leaving it blank
+    const onlyBlankRow = watchedLineItems.length === 1 && !watchedLineItems[0]?.description;
+    append(lineItems);
+    if (onlyBlankRow) {
+      remove(0);
+    }
+  };
+
   const handleRemoveLineItem = (index: number) => {
     if (fields.length > 1) {
       remove(index);
@@ -135,16 +157,31 @@ const QuoteForm: React.FC<QuoteFormProps> = ({
   const handleLineItemChange = (index: number, field: keyof LineItem, value: any) => {
     const updatedItems = [...watchedLineItems];
     updatedItems[index] = { ...updatedItems[index], [field]: value };
-    
-    // Recalculate total for this item
-    if (field === 'quantity' || field === 'unit_price') {
-      const item = updatedItems[index];
+    const item = updatedItems[index];
+
+    // Starting an estimate on a line reuses the labor rate and markup from other lines
+    if (field === 'labor_hours' && item.labor_rate == null) {
+      const previous = watchedLineItems.find((other) => other.labor_rate != null);
+      item.labor_rate = previous?.labor_rate;
+      item.markup = item.markup ?? previous?.markup;
+    }
+
+    // Estimated lines derive their unit price from material and labor
+    if (quoteService.isEstimatedLineItem(item)) {
+      item.unit_price = quoteService.calculateEstimatedUnitPrice(item);
+      item.total = Math.round(item.quantity * item.unit_price * 100) / 100;
+    } else if (field === 'quantity' || field === 'unit_price' || ESTIMATE_FIELDS.includes(field as EstimateField)) {
+      // Recalculate total for this item
       item.total = item.quantity * item.unit_price;
     }
     
     setValue('line_items', updatedItems);
   };
 
+  const handleEstimateChange = (index: number, field: EstimateField, value: string) => {
+    handleLineItemChange(index, field, value === '' ? undefined : parseFloat(value) || 0);
+  };
+
   const validateLineItems = () => {
     const validation = quoteService.validateLineItems(watchedLineItems);
     const errors: Record<string, string[]> = {};
@@ -322,6 +359,23 @@ const QuoteForm: React.FC<QuoteFormProps> = ({
                   >
                     {showCalculations ? 'Hide' : 'Show'} Calculations
                   </Button>
+                  <Button
+                    startIcon={<LaborUnitsIcon />}
+                    onClick={() => setShowLaborUnits(!showLaborUnits)}
+                    size="small"
+                    sx={{ ml: 1 }}
+                  >
+                    {showLaborUnits ? 'Hide' : 'Show'} Labor Units
+                  </Button>
+                  <Button
+                    startIcon={<PriceBookIcon />}
+                    onClick={() => setPriceBookOpen(true)}
+                    disabled={loading}
+                    size="small"
+                    sx={{ ml: 1 }}
+                  >
+                    Price Book
+                  </Button>
                   <Button
                     startIcon={<AddIcon />}
                     onClick={handleAddLineItem}
@@ -341,6 +395,14 @@ const QuoteForm: React.FC<QuoteFormProps> = ({
                       <TableCell>Description</TableCell>
                       <TableCell align="center" width={100}>Qty</TableCell>
                       <TableCell align="center" width={80}>Unit</TableCell>
+                      {showLaborUnits && (
+                        <>
+                          <TableCell align="right" width={110}>Material/Unit</TableCell>
+                          <TableCell align="right" width={90}>Hrs/Unit</TableCell>
+                          <TableCell align="right" width={100}>Labor Rate</TableCell>
+                          <TableCell align="right" width={90}>Markup %</TableCell>
+                        </>
+                      )}
                       <TableCell align="right" width={120}>Unit Price</TableCell>
                       <TableCell align="right" width={120}>Total</TableCell>
                       <TableCell align="center" width={60}>Actions</TableCell>
@@ -378,6 +440,18 @@ const QuoteForm: React.FC<QuoteFormProps> = ({
                             disabled={loading}
                           />
                         </TableCell>
+                        {showLaborUnits && ESTIMATE_FIELDS.map((estimateField) => (
+                          <TableCell key={estimateField}>
+                            <TextField
+                              type="number"
+                              size="small"
+                              value={watchedLineItems[index]?.[estimateField] ?? ''}
+                              onChange={(e) => handleEstimateChange(index, estimateField, e.target.value)}
+                              disabled={loading}
+                              inputProps={{ min: 0, step: 'any' }}
+                            />
+                          </TableCell>
+                        ))}
                         <TableCell>
                           <TextField
                             type="number"
@@ -385,7 +459,12 @@ const QuoteForm: React.FC<QuoteFormProps> = ({
                             value={watchedLineItems[index]?.unit_price || 0}
                             onChange={(e) => handleLineItemChange(index, 'unit_price', parseFloat(e.target.value) || 0)}
                             error={!!lineItemErrors[index]?.some(err => err.includes('Unit price'))}
-                            disabled={loading}
+                            disabled={loading || quoteService.isEstimatedLineItem(watchedLineItems[index] || {} as LineItem)}
+                            helperText={
+                              watchedLineItems[index] && quoteService.isEstimatedLineItem(watchedLineItems[index])
+                                ? 'From labor units'
+                                : undefined
+                            }
                             InputProps={{
                               startAdornment: <InputAdornment position="start">$</InputAdornment>
                             }}
@@ -463,6 +542,30 @@ const QuoteForm: React.FC<QuoteFormProps> = ({
                     />
                   </Box>
                 </Box>
+                {totals.labor_hours > 0 || totals.material_subtotal > 0 ? (
+                  <Box display="grid" gridTemplateColumns="repeat(4, 1fr)" gap={2} mt={2}>
+                    <TextField
+                      label="Material"
+                      value={quoteService.formatCurrency(totals.material_subtotal)}
+                      disabled
+                    />
+                    <TextField
+                      label={`Labor (${totals.labor_hours} hrs)`}
+                      value={quoteService.formatCurrency(totals.labor_subtotal)}
+                      disabled
+                    />
+                    <TextField
+                      label="Overhead & Profit"
+                      value={quoteService.formatCurrency(totals.overhead_profit)}
+                      disabled
+                    />
+                    <TextField
+                      label="Other Items"
+                      value={quoteService.formatCurrency(totals.other_subtotal)}
+                      disabled
+                    />
+                  </Box>
+                ) : null}
               </Box>
             )}
 
@@ -487,6 +590,12 @@ const QuoteForm: React.FC<QuoteFormProps> = ({
             </Box>
           </CardContent>
         </Card>
+
+        <PriceBookPicker
+          open={priceBookOpen}
+          onClose={() => setPriceBookOpen(false)}
+          onInsert={handleInsertLineItems}
+        />
       </Box>
     </LocalizationProvider>
   );
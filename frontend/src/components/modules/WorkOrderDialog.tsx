@@ -0,0 +1,740 @@
+/**
+ * Work Order Dialog Component
+ *
+ * Create, edit and work a service call. Dispatchers set the customer, site,
+ * problem, priority, technician and scheduled window; the assigned
+ * technician records materials used and notes, moves the call on site and
+ * to completed, and captures the customer's signature.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  LibraryBooks as PriceBookIcon
+} from '@mui/icons-material';
+import { useNotification } from '../../hooks/useNotification';
+import { useUser } from '../../store';
+import { LineItem, quoteService } from '../../services/quote.service';
+import { getAllClients, Client } from '../../services/client.service';
+import { projectService, Project } from '../../services/project.service';
+import employeeService, { Employee } from '../../services/employee.service';
+import {
+  workOrderService,
+  WorkOrder,
+  WorkOrderFormData,
+  WorkOrderStatus,
+  WORK_ORDER_PRIORITIES,
+  WORK_ORDER_STATUSES,
+  DISPATCHER_ROLES
+} from '../../services/work-order.service';
+import SignaturePad from '../common/SignaturePad';
+import PriceBookPicker from './PriceBookPicker';
+
+interface WorkOrderDialogProps {
+  open: boolean;
+  workOrderId: string | null; // null creates a new work order
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+interface StatusAction {
+  status: WorkOrderStatus;
+  label: string;
+  dispatcherOnly: boolean;
+}
+
+// Workflow actions offered from each status (the API enforces the same rules)
+const STATUS_ACTIONS: Record<WorkOrderStatus, StatusAction[]> = {
+  OPEN: [{ status: 'DISPATCHED', label: 'Dispatch', dispatcherOnly: true }],
+  DISPATCHED: [
+    { status: 'OPEN', label: 'Recall', dispatcherOnly: true },
+    { status: 'ON_SITE', label: 'Arrived On Site', dispatcherOnly: false }
+  ],
+  ON_SITE: [
+    { status: 'DISPATCHED', label: 'Left Site', dispatcherOnly: true },
+    { status: 'COMPLETED', label: 'Complete', dispatcherOnly: false }
+  ],
+  COMPLETED: [
+    { status: 'ON_SITE', label: 'Reopen', dispatcherOnly: true },
+    { status: 'INVOICED', label: 'Mark Invoiced', dispatcherOnly: true }
+  ],
+  INVOICED: [{ status: 'COMPLETED', label: 'Unmark Invoiced', dispatcherOnly: true }]
+};
+
+const emptyForm = (): WorkOrderFormData => ({
+  client_id: '',
+  project_id: null,
+  site_address: '',
+  site_contact_name: '',
+  site_contact_phone: '',
+  problem_description: '',
+  priority: 'NORMAL',
+  assigned_employee_id: null,
+  scheduled_start: '',
+  scheduled_end: '',
+  materials_used: [],
+  technician_notes: ''
+});
+
+/**
+ * Convert an ISO timestamp to a datetime-local input value in local time
+ */
+const toLocalInput = (date: string | null) => {
+  if (!date) return '';
+  const value = new Date(date);
+  const offset = value.getTimezoneOffset() * 60000;
+  return new Date(value.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string | null | undefined) => (value ? new Date(value).toISOString() : null);
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatDateTime = (date: string | null) => (date ? new Date(date).toLocaleString() : '-');
+
+const WorkOrderDialog: React.FC<WorkOrderDialogProps> = ({ open, workOrderId, onClose, onChanged }) => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const user = useUser();
+  const [workOrder, setWorkOrder] = useState<WorkOrder | null>(null);
+  const [form, setForm] = useState<WorkOrderFormData>(emptyForm());
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [technicians, setTechnicians] = useState<Employee[]>([]);
+  const [priceBookOpen, setPriceBookOpen] = useState(false);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [signedByName, setSignedByName] = useState('');
+  const [deleteOpen, setDeleteOpen] = useState(false);
+
+  const isDispatcher = !!user && DISPATCHER_ROLES.includes(user.role);
+  const status = workOrder?.status;
+  const canEditDetails = isDispatcher && status !== 'INVOICED';
+  const canEditWork = status !== 'INVOICED';
+
+  const applyWorkOrder = (loaded: WorkOrder) => {
+    setWorkOrder(loaded);
+    setForm({
+      client_id: loaded.client_id,
+      project_id: loaded.project_id,
+      site_address: loaded.site_address,
+      site_contact_name: loaded.site_contact_name || '',
+      site_contact_phone: loaded.site_contact_phone || '',
+      problem_description: loaded.problem_description,
+      priority: loaded.priority,
+      assigned_employee_id: loaded.assigned_employee_id,
+      scheduled_start: toLocalInput(loaded.scheduled_start),
+      scheduled_end: toLocalInput(loaded.scheduled_end),
+      materials_used: loaded.materials_used,
+      technician_notes: loaded.technician_notes || ''
+    });
+  };
+
+  const loadWorkOrder = useCallback(async () => {
+    setSignature(null);
+    setSignedByName('');
+
+    if (!workOrderId) {
+      setWorkOrder(null);
+      setForm(emptyForm());
+      return;
+    }
+
+    setLoading(true);
+    try {
+      applyWorkOrder(await workOrderService.getWorkOrder(workOrderId));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load work order');
+    } finally {
+      setLoading(false);
+    }
+  }, [workOrderId, showError]);
+
+  useEffect(() => {
+    if (open) loadWorkOrder();
+  }, [open, loadWorkOrder]);
+
+  // Dispatchers pick the customer and technician
+  useEffect(() => {
+    if (!open || !isDispatcher) return;
+
+    const loadOptions = async () => {
+      try {
+        const [clientResponse, employeeResponse] = await Promise.all([
+          getAllClients({}, { limit: 500 }),
+          employeeService.getAll({ isActive: true }, { limit: 500, sortBy: 'last_name', sortOrder: 'asc' })
+        ]);
+        setClients(clientResponse.data.clients);
+        setTechnicians(employeeResponse.data.employees);
+      } catch (error: any) {
+        showError(error?.error?.message || error?.message || 'Failed to load customers and technicians');
+      }
+    };
+
+    loadOptions();
+  }, [open, isDispatcher, showError]);
+
+  // Service call projects for the selected customer
+  useEffect(() => {
+    if (!open || !isDispatcher || !form.client_id) {
+      setProjects([]);
+      return;
+    }
+
+    projectService
+      .getAll({ clientId: form.client_id, billingType: 'SERVICE_CALL' }, { limit: 100 })
+      .then((response) => setProjects(response.data.projects))
+      .catch(() => setProjects([]));
+  }, [open, isDispatcher, form.client_id]);
+
+  const handleClientChange = (clientId: string) => {
+    const client = clients.find((c) => c.id === clientId);
+    setForm((prev) => ({
+      ...prev,
+      client_id: clientId,
+      project_id: null,
+      // Default the site to the customer's address
+      site_address: prev.site_address || client?.address || ''
+    }));
+  };
+
+  const handleMaterialChange = (index: number, field: keyof LineItem, value: string) => {
+    setForm((prev) => {
+      const materials = [...(prev.materials_used || [])];
+      const current = materials[index]!;
+
+      if (field === 'quantity' || field === 'unit_price') {
+        const item: LineItem = { ...current, [field]: parseFloat(value) || 0 };
+        item.total = Math.round(item.quantity * item.unit_price * 100) / 100;
+        materials[index] = item;
+      } else {
+        materials[index] = { ...current, [field]: value };
+      }
+
+      return { ...prev, materials_used: materials };
+    });
+  };
+
+  const handleAddMaterial = () => {
+    setForm((prev) => ({
+      ...prev,
+      materials_used: [...(prev.materials_used || []), { ...quoteService.generateLineItem(), unit: 'EA' }]
+    }));
+  };
+
+  const handleRemoveMaterial = (index: number) => {
+    setForm((prev) => ({ ...prev, materials_used: (prev.materials_used || []).filter((_, i) => i !== index) }));
+  };
+
+  const handleInsertMaterials = (lineItems: LineItem[]) => {
+    setForm((prev) => ({ ...prev, materials_used: [...(prev.materials_used || []), ...lineItems] }));
+  };
+
+  /**
+   * Build the request body; technicians only send the fields they may change
+   */
+  const buildPayload = (): Partial<WorkOrderFormData> => {
+    const materials = (form.materials_used || []).filter((item) => item.description.trim() !== '');
+
+    if (!isDispatcher) {
+      return { materials_used: materials, technician_notes: form.technician_notes };
+    }
+
+    return {
+      ...form,
+      project_id: form.project_id || null,
+      assigned_employee_id: form.assigned_employee_id || null,
+      scheduled_start: fromLocalInput(form.scheduled_start),
+      scheduled_end: fromLocalInput(form.scheduled_end),
+      materials_used: materials
+    };
+  };
+
+  const validate = (): boolean => {
+    if (isDispatcher && (!form.client_id || !form.site_address.trim() || !form.problem_description.trim())) {
+      showError('Customer, site address and problem description are required');
+      return false;
+    }
+
+    if ((form.materials_used || []).some((item) => item.description.trim() !== '' && !(item.quantity > 0))) {
+      showError('Each material needs a quantity greater than zero');
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (!validate()) return;
+
+    setSaving(true);
+    try {
+      if (workOrder) {
+        applyWorkOrder(await workOrderService.updateWorkOrder(workOrder.id, buildPayload()));
+        showSuccess('Work order updated successfully');
+      } else {
+        await workOrderService.createWorkOrder(buildPayload() as WorkOrderFormData);
+        showSuccess('Work order created successfully');
+        onClose();
+      }
+      onChanged();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save work order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (action: StatusAction) => {
+    if (!workOrder || !validate()) return;
+
+    setSaving(true);
+    try {
+      // Save pending edits first so notes and materials go with the status change
+      if (canEditWork) {
+        await workOrderService.updateWorkOrder(workOrder.id, buildPayload());
+      }
+      applyWorkOrder(await workOrderService.updateStatus(workOrder.id, action.status));
+      showSuccess(`${workOrder.wo_number}: ${action.label}`);
+      onChanged();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to update work order status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSignature = async () => {
+    if (!workOrder || !signature) return;
+
+    if (!signedByName.trim()) {
+      showError('Enter the name of the person signing');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      applyWorkOrder(await workOrderService.saveSignature(workOrder.id, signature, signedByName.trim()));
+      setSignature(null);
+      showSuccess('Customer signature saved');
+      onChanged();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save signature');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!workOrder) return;
+
+    try {
+      await workOrderService.deleteWorkOrder(workOrder.id);
+      showSuccess('Work order deleted successfully');
+      setDeleteOpen(false);
+      onClose();
+      onChanged();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to delete work order');
+    }
+  };
+
+  const materials = form.materials_used || [];
+  const materialsTotal = materials.reduce((sum, item) => sum + (item.total || 0), 0);
+  const statusLabel = WORK_ORDER_STATUSES.find((option) => option.value === status)?.label;
+  const actions = status
+    ? STATUS_ACTIONS[status].filter((action) => isDispatcher || !action.dispatcherOnly)
+    : [];
+  const canSign = status === 'ON_SITE' || status === 'COMPLETED';
+
+  return (
+    <>
+      <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+        <DialogTitle>
+          <Box display="flex" alignItems="center" gap={1}>
+            {workOrder ? workOrder.wo_number : 'New Work Order'}
+            {workOrder && (
+              <Chip label={statusLabel} size="small" color={workOrderService.getStatusColor(workOrder.status)} />
+            )}
+          </Box>
+        </DialogTitle>
+        <DialogContent>
+          {loading ? (
+            <Box display="flex" justifyContent="center" py={4}>
+              <CircularProgress size={32} />
+            </Box>
+          ) : (
+            <>
+              {/* Call details */}
+              {isDispatcher ? (
+                <Box display="grid" gridTemplateColumns={{ xs: '1fr', sm: '1fr 1fr' }} gap={2} mt={1}>
+                  <TextField
+                    select
+                    label="Customer *"
+                    value={form.client_id}
+                    onChange={(e) => handleClientChange(e.target.value)}
+                    disabled={!canEditDetails && !!workOrder}
+                  >
+                    {clients.map((client) => (
+                      <MenuItem key={client.id} value={client.id}>
+                        {client.name}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    select
+                    label="Service Call Project"
+                    value={form.project_id || ''}
+                    onChange={(e) => setForm({ ...form, project_id: e.target.value || null })}
+                    disabled={(!canEditDetails && !!workOrder) || !form.client_id}
+                    helperText="Optional - bill under a SERVICE_CALL project"
+                  >
+                    <MenuItem value="">None</MenuItem>
+                    {projects.map((project) => (
+                      <MenuItem key={project.id} value={project.id}>
+                        {project.projectNumber} - {project.name}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    label="Site Address *"
+                    value={form.site_address}
+                    onChange={(e) => setForm({ ...form, site_address: e.target.value })}
+                    disabled={!canEditDetails && !!workOrder}
+                    sx={{ gridColumn: { sm: '1 / -1' } }}
+                  />
+                  <TextField
+                    label="Site Contact"
+                    value={form.site_contact_name}
+                    onChange={(e) => setForm({ ...form, site_contact_name: e.target.value })}
+                    disabled={!canEditDetails && !!workOrder}
+                  />
+                  <TextField
+                    label="Site Phone"
+                    value={form.site_contact_phone}
+                    onChange={(e) => setForm({ ...form, site_contact_phone: e.target.value })}
+                    disabled={!canEditDetails && !!workOrder}
+                  />
+                  <TextField
+                    label="Problem Description *"
+                    value={form.problem_description}
+                    onChange={(e) => setForm({ ...form, problem_description: e.target.value })}
+                    disabled={!canEditDetails && !!workOrder}
+                    multiline
+                    rows={3}
+                    sx={{ gridColumn: { sm: '1 / -1' } }}
+                  />
+                  <TextField
+                    select
+                    label="Priority"
+                    value={form.priority}
+                    onChange={(e) => setForm({ ...form, priority: e.target.value as WorkOrderFormData['priority'] })}
+                    disabled={!canEditDetails && !!workOrder}
+                  >
+                    {WORK_ORDER_PRIORITIES.map((option) => (
+                      <MenuItem key={option.value} value={option.value}>
+                        {option.label}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    select
+                    label="Technician"
+                    value={form.assigned_employee_id || ''}
+                    onChange={(e) => setForm({ ...form, assigned_employee_id: e.target.value || null })}
+                    disabled={!canEditDetails && !!workOrder}
+                  >
+                    <MenuItem value="">Unassigned</MenuItem>
+                    {technicians.map((employee) => (
+                      <MenuItem key={employee.id} value={employee.id}>
+                        {employee.firstName} {employee.lastName} ({employee.classification})
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    label="Scheduled Start"
+                    type="datetime-local"
+                    value={form.scheduled_start || ''}
+                    onChange={(e) => setForm({ ...form, scheduled_start: e.target.value })}
+                    disabled={!canEditDetails && !!workOrder}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                  <TextField
+                    label="Scheduled End"
+                    type="datetime-local"
+                    value={form.scheduled_end || ''}
+                    onChange={(e) => setForm({ ...form, scheduled_end: e.target.value })}
+                    disabled={!canEditDetails && !!workOrder}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                </Box>
+              ) : (
+                workOrder && (
+                  <Box mt={1}>
+                    <Typography variant="subtitle1">{workOrder.client.name}</Typography>
+                    <Typography variant="body2">{workOrder.site_address}</Typography>
+                    {(workOrder.site_contact_name || workOrder.site_contact_phone) && (
+                      <Typography variant="body2" color="text.secondary">
+                        Contact: {[workOrder.site_contact_name, workOrder.site_contact_phone].filter(Boolean).join(' · ')}
+                      </Typography>
+                    )}
+                    <Typography variant="body2" color="text.secondary">
+                      Scheduled: {formatDateTime(workOrder.scheduled_start)}
+                      {workOrder.scheduled_end ? ` - ${formatDateTime(workOrder.scheduled_end)}` : ''}
+                    </Typography>
+                    <Box display="flex" gap={1} my={1}>
+                      <Chip
+                        label={workOrder.priority}
+                        size="small"
+                        color={workOrderService.getPriorityColor(workOrder.priority)}
+                      />
+                    </Box>
+                    <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                      {workOrder.problem_description}
+                    </Typography>
+                  </Box>
+                )
+              )}
+
+              {workOrder && (
+                <>
+                  <Divider sx={{ my: 2 }} />
+
+                  {/* Materials used */}
+                  <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+                    <Typography variant="subtitle1">Materials Used</Typography>
+                    {canEditWork && (
+                      <Box display="flex" gap={1}>
+                        <Button size="small" startIcon={<PriceBookIcon />} onClick={() => setPriceBookOpen(true)}>
+                          Price Book
+                        </Button>
+                        <Button size="small" startIcon={<AddIcon />} onClick={handleAddMaterial}>
+                          Add Material
+                        </Button>
+                      </Box>
+                    )}
+                  </Box>
+                  <TableContainer>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Description</TableCell>
+                          <TableCell align="right">Qty</TableCell>
+                          <TableCell>Unit</TableCell>
+                          <TableCell align="right">Unit Price</TableCell>
+                          <TableCell align="right">Total</TableCell>
+                          {canEditWork && <TableCell />}
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {materials.map((item, index) =>
+                          canEditWork ? (
+                            <TableRow key={item.id}>
+                              <TableCell sx={{ minWidth: 200 }}>
+                                <TextField
+                                  size="small"
+                                  fullWidth
+                                  value={item.description}
+                                  onChange={(e) => handleMaterialChange(index, 'description', e.target.value)}
+                                />
+                              </TableCell>
+                              <TableCell sx={{ width: 90 }}>
+                                <TextField
+                                  size="small"
+                                  type="number"
+                                  value={item.quantity}
+                                  onChange={(e) => handleMaterialChange(index, 'quantity', e.target.value)}
+                                  inputProps={{ min: 0, step: 'any' }}
+                                />
+                              </TableCell>
+                              <TableCell sx={{ width: 80 }}>
+                                <TextField
+                                  size="small"
+                                  value={item.unit}
+                                  onChange={(e) => handleMaterialChange(index, 'unit', e.target.value)}
+                                />
+                              </TableCell>
+                              <TableCell sx={{ width: 110 }}>
+                                <TextField
+                                  size="small"
+                                  type="number"
+                                  value={item.unit_price}
+                                  onChange={(e) => handleMaterialChange(index, 'unit_price', e.target.value)}
+                                  inputProps={{ min: 0, step: '0.01' }}
+                                  disabled={quoteService.isEstimatedLineItem(item)}
+                                />
+                              </TableCell>
+                              <TableCell align="right">{formatCurrency(item.total)}</TableCell>
+                              <TableCell padding="checkbox">
+                                <IconButton size="small" onClick={() => handleRemoveMaterial(index)}>
+                                  <DeleteIcon fontSize="small" />
+                                </IconButton>
+                              </TableCell>
+                            </TableRow>
+                          ) : (
+                            <TableRow key={item.id}>
+                              <TableCell>{item.description}</TableCell>
+                              <TableCell align="right">{item.quantity}</TableCell>
+                              <TableCell>{item.unit}</TableCell>
+                              <TableCell align="right">{formatCurrency(item.unit_price)}</TableCell>
+                              <TableCell align="right">{formatCurrency(item.total)}</TableCell>
+                            </TableRow>
+                          )
+                        )}
+                        {materials.length === 0 && (
+                          <TableRow>
+                            <TableCell colSpan={6} align="center">
+                              <Typography variant="body2" color="text.secondary">
+                                No materials recorded
+                              </Typography>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                  <Typography variant="subtitle2" align="right" mt={1}>
+                    Materials Total: {formatCurrency(materialsTotal)}
+                  </Typography>
+
+                  <TextField
+                    fullWidth
+                    label="Technician Notes"
+                    value={form.technician_notes}
+                    onChange={(e) => setForm({ ...form, technician_notes: e.target.value })}
+                    InputProps={{ readOnly: !canEditWork }}
+                    margin="normal"
+                    multiline
+                    rows={3}
+                    placeholder="Work performed, findings, follow-up needed"
+                  />
+
+                  {/* Customer signature */}
+                  <Typography variant="subtitle1" mt={2} mb={1}>
+                    Customer Signature
+                  </Typography>
+                  {workOrder.customer_signature && (
+                    <Box mb={2}>
+                      <Box
+                        component="img"
+                        src={workOrder.customer_signature}
+                        alt={`Signature of ${workOrder.signed_by_name}`}
+                        sx={{ maxWidth: '100%', height: 120, border: 1, borderColor: 'divider', borderRadius: 1, bgcolor: '#fff' }}
+                      />
+                      <Typography variant="body2" color="text.secondary">
+                        Signed by {workOrder.signed_by_name} on {formatDateTime(workOrder.signed_at)}
+                      </Typography>
+                    </Box>
+                  )}
+                  {canSign ? (
+                    <Box>
+                      <SignaturePad onChange={setSignature} disabled={saving} />
+                      <Box display="flex" gap={2} alignItems="center" mt={1}>
+                        <TextField
+                          size="small"
+                          label="Signed By"
+                          value={signedByName}
+                          onChange={(e) => setSignedByName(e.target.value)}
+                        />
+                        <Button variant="outlined" onClick={handleSaveSignature} disabled={!signature || saving}>
+                          {workOrder.customer_signature ? 'Replace Signature' : 'Save Signature'}
+                        </Button>
+                      </Box>
+                    </Box>
+                  ) : (
+                    !workOrder.customer_signature && (
+                      <Typography variant="body2" color="text.secondary">
+                        The customer signs once the technician is on site.
+                      </Typography>
+                    )
+                  )}
+
+                  {/* Timeline */}
+                  <Box display="grid" gridTemplateColumns={{ xs: '1fr 1fr', sm: 'repeat(4, 1fr)' }} gap={1} mt={3}>
+                    <Typography variant="caption" color="text.secondary">
+                      Dispatched: {formatDateTime(workOrder.dispatched_at)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Arrived: {formatDateTime(workOrder.arrived_at)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Completed: {formatDateTime(workOrder.completed_at)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Invoiced: {formatDateTime(workOrder.invoiced_at)}
+                    </Typography>
+                  </Box>
+                </>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ flexWrap: 'wrap', gap: 1 }}>
+          {workOrder && isDispatcher && workOrder.status !== 'INVOICED' && (
+            <Button color="error" onClick={() => setDeleteOpen(true)} disabled={saving} sx={{ mr: 'auto' }}>
+              Delete
+            </Button>
+          )}
+          <Button onClick={onClose} disabled={saving}>
+            Close
+          </Button>
+          {actions.map((action) => (
+            <Button key={action.status} variant="outlined" onClick={() => handleStatusChange(action)} disabled={saving}>
+              {action.label}
+            </Button>
+          ))}
+          {(!workOrder || canEditWork) && (
+            <Button variant="contained" onClick={handleSave} disabled={saving || loading}>
+              {saving ? 'Saving...' : workOrder ? 'Save' : 'Create'}
+            </Button>
+          )}
+        </DialogActions>
+      </Dialog>
+
+      <PriceBookPicker
+        open={priceBookOpen}
+        onClose={() => setPriceBookOpen(false)}
+        onInsert={handleInsertMaterials}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteOpen} onClose={() => setDeleteOpen(false)}>
+        <DialogTitle>Delete Work Order</DialogTitle>
+        <DialogContent>
+          <Typography>Delete {workOrder?.wo_number}?</Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteOpen(false)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default WorkOrderDialog;
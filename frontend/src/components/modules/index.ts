@@ -43,6 +43,24 @@ export { default as DailyLogDetail } from './DailyLogDetail';
 export { default as QuoteList } from './QuoteList';
 export { default as QuoteForm } from './QuoteForm';
 export { default as QuoteDetail } from './QuoteDetail';
+export { default as PriceBookPicker } from './PriceBookPicker';
+
+// Project financials module
+export { default as ProjectJobCost } from './ProjectJobCost';
+export { default as ProjectCostCodes } from './ProjectCostCodes';
+export { default as ProjectExpenses } from './ProjectExpenses';
+export { default as ProjectChangeOrders } from './ProjectChangeOrders';
+export { default as ProjectInvoices } from './ProjectInvoices';
+
+// Service call module
+export { default as WorkOrderDialog } from './WorkOrderDialog';
+
+// Employee certifications module
+export { default as EmployeeCertifications } from './EmployeeCertifications';
+export { default as CertificationReport } from './CertificationReport';
+
+// Employee pay rate history module
+export { default as EmployeePayRates } from './EmployeePayRates';
 
 // File management module
 export { default as FileUploadDialog } from './FileUploadDialog';
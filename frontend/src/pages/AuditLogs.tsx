@@ -0,0 +1,412 @@
+/**
+ * Audit Log Page
+ * Super Admin only - Review who changed what across users, projects, quotes, time entries and employees
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  Card,
+  CardContent,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Chip,
+  Alert,
+  CircularProgress,
+  TablePagination,
+  Tooltip
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  Search as SearchIcon,
+  Clear as ClearIcon,
+  Visibility as ViewIcon
+} from '@mui/icons-material';
+import { useAuthStore } from '../store';
+import { adminService, AuditLogEntry, AuditLogFilters } from '../services';
+import { useMobileView } from '../hooks';
+import { MobileListView, MobileListItem } from '../components/common';
+
+const ENTITY_TYPES = ['USER', 'PROJECT', 'QUOTE', 'TIME_ENTRY', 'EMPLOYEE', 'PRICE_BOOK_ITEM', 'ASSEMBLY', 'PROJECT_EXPENSE', 'CHANGE_ORDER', 'INVOICE', 'WORK_ORDER', 'CREW_ASSIGNMENT', 'EMPLOYEE_CERTIFICATION', 'APPRENTICE_WORK_CATEGORY', 'EMPLOYEE_PAY_RATE', 'PAYROLL_PERIOD', 'WEEKLY_TIMESHEET', 'COST_CODE', 'PROJECT_COST_CODE', 'UNION_LOCAL', 'UNION_RATE'];
+
+const AuditLogs: React.FC = () => {
+  const { user: currentUser } = useAuthStore();
+  const isMobile = useMobileView();
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [entityTypeFilter, setEntityTypeFilter] = useState('');
+  const [actionFilter, setActionFilter] = useState('');
+  const [entityIdFilter, setEntityIdFilter] = useState('');
+  const [startDateFilter, setStartDateFilter] = useState('');
+  const [endDateFilter, setEndDateFilter] = useState('');
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogFilters>({});
+
+  // Pagination
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [totalLogs, setTotalLogs] = useState(0);
+
+  // Changes dialog
+  const [selectedLog, setSelectedLog] = useState<AuditLogEntry | null>(null);
+
+  const fetchLogs = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await adminService.getAuditLogs(appliedFilters, page + 1, rowsPerPage);
+      setLogs(response.data.logs);
+      setTotalLogs(response.data.pagination.total);
+    } catch (err: any) {
+      setError(err.message || 'Failed to fetch audit logs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLogs();
+  }, [page, rowsPerPage, appliedFilters]);
+
+  // Check if current user is super admin - moved after hooks
+  if (currentUser?.role !== 'SUPER_ADMIN') {
+    return (
+      <Container maxWidth="md" sx={{ mt: 4 }}>
+        <Alert severity="error">
+          Access denied. Super admin privileges required.
+        </Alert>
+      </Container>
+    );
+  }
+
+  const handleSearch = () => {
+    const filters: AuditLogFilters = {};
+    if (entityTypeFilter) filters.entityType = entityTypeFilter;
+    if (actionFilter.trim()) filters.action = actionFilter.trim().toUpperCase();
+    if (entityIdFilter.trim()) filters.entityId = entityIdFilter.trim();
+    if (startDateFilter) filters.startDate = startDateFilter;
+    // Include the whole end day
+    if (endDateFilter) filters.endDate = `${endDateFilter}T23:59:59.999`;
+    setPage(0);
+    setAppliedFilters(filters);
+  };
+
+  const handleClearFilters = () => {
+    setEntityTypeFilter('');
+    setActionFilter('');
+    setEntityIdFilter('');
+    setStartDateFilter('');
+    setEndDateFilter('');
+    setPage(0);
+    setAppliedFilters({});
+  };
+
+  const getActionColor = (action: string) => {
+    if (action.startsWith('CREATE')) return 'success';
+    if (action.startsWith('DELETE') || action.startsWith('REJECT')) return 'error';
+    if (action.startsWith('APPROVE')) return 'primary';
+    if (action === 'RESET_PASSWORD') return 'warning';
+    return 'info';
+  };
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString();
+  };
+
+  const formatActor = (log: AuditLogEntry) => {
+    return log.actor ? `${log.actor.firstName} ${log.actor.lastName}` : 'Unknown';
+  };
+
+  const formatValue = (value: any) => {
+    if (value === null || value === undefined) return '-';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  // Field-by-field rows for the changes dialog
+  const getChangeRows = (log: AuditLogEntry) => {
+    const fields = new Set([
+      ...Object.keys(log.before || {}),
+      ...Object.keys(log.after || {})
+    ]);
+    return Array.from(fields).map((field) => ({
+      field,
+      before: log.before ? log.before[field] : undefined,
+      after: log.after ? log.after[field] : undefined
+    }));
+  };
+
+  // Convert logs to mobile list items
+  const mobileListItems: MobileListItem[] = logs.map((log) => ({
+    id: log.id,
+    title: log.action.replace(/_/g, ' '),
+    subtitle: formatActor(log),
+    status: {
+      label: log.entityType.replace(/_/g, ' '),
+      color: getActionColor(log.action) as any,
+    },
+    metadata: [
+      { label: 'When', value: formatDateTime(log.createdAt) },
+      { label: 'IP', value: log.ipAddress || '-' },
+    ],
+    actions: [
+      {
+        label: 'View Changes',
+        icon: <ViewIcon />,
+        onClick: () => setSelectedLog(log),
+      },
+    ],
+    onClick: () => setSelectedLog(log),
+  }));
+
+  return (
+    <Container maxWidth="xl" sx={{ mt: 4, mb: 4 }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4" component="h1">
+          Audit Log
+        </Typography>
+      </Box>
+
+      {/* Alerts */}
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box display="grid" gridTemplateColumns={{ xs: '1fr', sm: 'repeat(2, 1fr)', md: 'repeat(5, 1fr)' }} gap={2} mb={2}>
+          <FormControl fullWidth>
+            <InputLabel>Entity Type</InputLabel>
+            <Select
+              value={entityTypeFilter}
+              label="Entity Type"
+              onChange={(e) => setEntityTypeFilter(e.target.value)}
+            >
+              <MenuItem value="">All Entities</MenuItem>
+              {ENTITY_TYPES.map((type) => (
+                <MenuItem key={type} value={type}>
+                  {type.replace(/_/g, ' ')}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            fullWidth
+            label="Action"
+            placeholder="e.g. UPDATE_PROJECT"
+            value={actionFilter}
+            onChange={(e) => setActionFilter(e.target.value)}
+          />
+
+          <TextField
+            fullWidth
+            label="Entity ID"
+            value={entityIdFilter}
+            onChange={(e) => setEntityIdFilter(e.target.value)}
+          />
+
+          <TextField
+            fullWidth
+            label="Date From"
+            type="date"
+            value={startDateFilter}
+            onChange={(e) => setStartDateFilter(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+
+          <TextField
+            fullWidth
+            label="Date To"
+            type="date"
+            value={endDateFilter}
+            onChange={(e) => setEndDateFilter(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+        </Box>
+
+        <Box display="flex" gap={1}>
+          <Button
+            variant="contained"
+            startIcon={<SearchIcon />}
+            onClick={handleSearch}
+          >
+            Search
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<ClearIcon />}
+            onClick={handleClearFilters}
+          >
+            Clear
+          </Button>
+        </Box>
+      </Paper>
+
+      {/* Audit Log Table */}
+      <Card>
+        <CardContent>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <Typography variant="h6">
+              Entries ({totalLogs})
+            </Typography>
+            <IconButton onClick={fetchLogs} disabled={loading}>
+              <RefreshIcon />
+            </IconButton>
+          </Box>
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+              <CircularProgress />
+            </Box>
+          ) : logs.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography variant="h6" color="text.secondary">
+                No audit log entries found
+              </Typography>
+            </Box>
+          ) : isMobile ? (
+            <MobileListView items={mobileListItems} />
+          ) : (
+            <TableContainer component={Paper} variant="outlined">
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>When</TableCell>
+                    <TableCell>Actor</TableCell>
+                    <TableCell>Action</TableCell>
+                    <TableCell>Entity</TableCell>
+                    <TableCell>Entity ID</TableCell>
+                    <TableCell>IP Address</TableCell>
+                    <TableCell align="center">Changes</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {logs.map((log) => (
+                    <TableRow key={log.id} hover>
+                      <TableCell>{formatDateTime(log.createdAt)}</TableCell>
+                      <TableCell>
+                        {formatActor(log)}
+                        {log.actor && (
+                          <Typography variant="caption" display="block" color="text.secondary">
+                            {log.actor.email}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          label={log.action.replace(/_/g, ' ')}
+                          color={getActionColor(log.action) as any}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell>{log.entityType.replace(/_/g, ' ')}</TableCell>
+                      <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>
+                        {log.entityId}
+                      </TableCell>
+                      <TableCell>{log.ipAddress || '-'}</TableCell>
+                      <TableCell align="center">
+                        <Tooltip title="View Changes">
+                          <IconButton
+                            size="small"
+                            onClick={() => setSelectedLog(log)}
+                          >
+                            <ViewIcon />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+
+          <TablePagination
+            component="div"
+            count={totalLogs}
+            page={page}
+            onPageChange={(_, newPage) => setPage(newPage)}
+            rowsPerPage={rowsPerPage}
+            rowsPerPageOptions={[10, 25, 50, 100]}
+            onRowsPerPageChange={(event) => {
+              setRowsPerPage(parseInt(event.target.value, 10));
+              setPage(0);
+            }}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Changes Dialog */}
+      <Dialog open={!!selectedLog} onClose={() => setSelectedLog(null)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          {selectedLog?.action.replace(/_/g, ' ')}
+        </DialogTitle>
+        <DialogContent>
+          {selectedLog && (
+            <>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {formatActor(selectedLog)} &middot; {formatDateTime(selectedLog.createdAt)}
+                {selectedLog.ipAddress && ` · ${selectedLog.ipAddress}`}
+              </Typography>
+              {getChangeRows(selectedLog).length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No field changes recorded for this action.
+                </Typography>
+              ) : (
+                <TableContainer component={Paper} variant="outlined">
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Field</TableCell>
+                        <TableCell>Before</TableCell>
+                        <TableCell>After</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {getChangeRows(selectedLog).map((row) => (
+                        <TableRow key={row.field}>
+                          <TableCell sx={{ fontWeight: 500 }}>{row.field}</TableCell>
+                          <TableCell sx={{ wordBreak: 'break-word' }}>{formatValue(row.before)}</TableCell>
+                          <TableCell sx={{ wordBreak: 'break-word' }}>{formatValue(row.after)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSelectedLog(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+};
+
+export default AuditLogs;
@@ -0,0 +1,490 @@
+/**
+ * Crew Schedule Page
+ *
+ * Week calendar for planning crews: drag employees onto a project and day,
+ * drag assignments to move them, and review conflicts (double-booked,
+ * on leave, missing or expired certification) before the week starts.
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  InputAdornment,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  pointerWithin,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core';
+import { ChevronLeft, ChevronRight, Search, Warning } from '@mui/icons-material';
+import { useNotification } from '../hooks/useNotification';
+import { projectService, Project } from '../services/project.service';
+import employeeService, { Employee } from '../services/employee.service';
+import { crewScheduleService, CrewAssignment } from '../services/crew-schedule.service';
+
+// Projects that can take a crew
+const SCHEDULABLE_STATUSES = ['AWARDED', 'IN_PROGRESS', 'INSPECTION'];
+
+/**
+ * Format a local date as YYYY-MM-DD
+ */
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Monday of the week containing the given date
+ */
+const getWeekStart = (date: Date) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+interface ScheduleProject {
+  id: string;
+  name: string;
+  project_number: string;
+}
+
+// Draggable employee in the crew list
+const EmployeeChip: React.FC<{ employee: Employee }> = ({ employee }) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: `employee:${employee.id}` });
+
+  return (
+    <Box ref={setNodeRef} {...attributes} {...listeners} sx={{ opacity: isDragging ? 0.5 : 1, cursor: 'grab' }}>
+      <Chip
+        label={`${employee.firstName} ${employee.lastName}`}
+        size="small"
+        variant="outlined"
+        sx={{ width: '100%', justifyContent: 'flex-start' }}
+      />
+      <Typography variant="caption" color="text.secondary" sx={{ pl: 1 }}>
+        {employee.classification}
+      </Typography>
+    </Box>
+  );
+};
+
+// Draggable assignment in a calendar cell
+interface AssignmentChipProps {
+  assignment: CrewAssignment;
+  onEdit: (assignment: CrewAssignment) => void;
+  onDelete: (assignment: CrewAssignment) => void;
+}
+
+const AssignmentChip: React.FC<AssignmentChipProps> = ({ assignment, onEdit, onDelete }) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: `assignment:${assignment.id}` });
+  const hasConflicts = assignment.conflicts.length > 0;
+  const label = `${assignment.employee.first_name} ${assignment.employee.last_name.charAt(0)}.${
+    assignment.start_time ? ` ${assignment.start_time}` : ''
+  }`;
+
+  return (
+    <Box ref={setNodeRef} {...attributes} {...listeners} sx={{ opacity: isDragging ? 0.5 : 1, mb: 0.5 }}>
+      <Tooltip title={hasConflicts ? assignment.conflicts.map((c) => c.message).join('; ') : assignment.employee.classification}>
+        <Chip
+          label={label}
+          size="small"
+          color={hasConflicts ? 'warning' : 'primary'}
+          icon={hasConflicts ? <Warning /> : undefined}
+          onClick={() => onEdit(assignment)}
+          onDelete={() => onDelete(assignment)}
+          sx={{ maxWidth: '100%' }}
+        />
+      </Tooltip>
+    </Box>
+  );
+};
+
+// Droppable project/day cell
+const ScheduleCell: React.FC<{ id: string; children: React.ReactNode }> = ({ id, children }) => {
+  const { isOver, setNodeRef } = useDroppable({ id });
+
+  return (
+    <TableCell
+      ref={setNodeRef}
+      sx={{
+        verticalAlign: 'top',
+        minWidth: 120,
+        height: 64,
+        backgroundColor: isOver ? 'action.hover' : undefined,
+        outline: isOver ? '2px dashed' : undefined,
+        outlineColor: 'primary.main'
+      }}
+    >
+      {children}
+    </TableCell>
+  );
+};
+
+const CrewSchedule: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const [weekStart, setWeekStart] = useState<Date>(() => getWeekStart(new Date()));
+  const [assignments, setAssignments] = useState<CrewAssignment[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [employeeSearch, setEmployeeSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [activeLabel, setActiveLabel] = useState<string | null>(null);
+  const [editing, setEditing] = useState<CrewAssignment | null>(null);
+  const [editStartTime, setEditStartTime] = useState('');
+  const [editNotes, setEditNotes] = useState('');
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8
+      }
+    })
+  );
+
+  const days = useMemo(() => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)), [weekStart]);
+  const startKey = toDateKey(days[0]!);
+  const endKey = toDateKey(days[6]!);
+
+  const loadSchedule = useCallback(async () => {
+    try {
+      setAssignments(await crewScheduleService.getSchedule(startKey, endKey));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load crew schedule');
+    } finally {
+      setLoading(false);
+    }
+  }, [startKey, endKey, showError]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [projectResponse, employeeResponse] = await Promise.all([
+          projectService.getAll({}, { limit: 500 }),
+          employeeService.getAll({ isActive: true }, { limit: 500, sortBy: 'last_name', sortOrder: 'asc' })
+        ]);
+        setProjects(projectResponse.data.projects);
+        setEmployees(employeeResponse.data.employees);
+      } catch (error: any) {
+        showError(error?.error?.message || error?.message || 'Failed to load projects and employees');
+      }
+    };
+
+    loadOptions();
+  }, [showError]);
+
+  // Active projects plus any project already scheduled this week
+  const rows = useMemo<ScheduleProject[]>(() => {
+    const byId = new Map<string, ScheduleProject>();
+    projects
+      .filter((project) => SCHEDULABLE_STATUSES.includes(project.status))
+      .forEach((project) =>
+        byId.set(project.id, { id: project.id, name: project.name, project_number: project.projectNumber })
+      );
+    assignments.forEach((assignment) => {
+      if (!byId.has(assignment.project_id)) {
+        byId.set(assignment.project_id, assignment.project);
+      }
+    });
+    return Array.from(byId.values()).sort((a, b) => a.project_number.localeCompare(b.project_number));
+  }, [projects, assignments]);
+
+  const filteredEmployees = employees.filter((employee) =>
+    `${employee.firstName} ${employee.lastName} ${employee.classification}`
+      .toLowerCase()
+      .includes(employeeSearch.toLowerCase())
+  );
+
+  const conflicts = assignments.filter((assignment) => assignment.conflicts.length > 0);
+
+  const getCellAssignments = (projectId: string, dateKey: string) =>
+    assignments.filter((a) => a.project_id === projectId && a.date.slice(0, 10) === dateKey);
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const [kind, id] = String(event.active.id).split(':');
+    if (kind === 'employee') {
+      const employee = employees.find((e) => e.id === id);
+      setActiveLabel(employee ? `${employee.firstName} ${employee.lastName}` : null);
+    } else {
+      const assignment = assignments.find((a) => a.id === id);
+      setActiveLabel(assignment ? `${assignment.employee.first_name} ${assignment.employee.last_name}` : null);
+    }
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    setActiveLabel(null);
+    if (!event.over) return;
+
+    const [kind, id] = String(event.active.id).split(':');
+    const [projectId, date] = String(event.over.id).split('|');
+    if (!id || !projectId || !date) return;
+
+    try {
+      let saved: CrewAssignment;
+      if (kind === 'employee') {
+        saved = await crewScheduleService.createAssignment({ employee_id: id, project_id: projectId, date });
+      } else {
+        const assignment = assignments.find((a) => a.id === id);
+        if (!assignment || (assignment.project_id === projectId && assignment.date.slice(0, 10) === date)) return;
+        saved = await crewScheduleService.updateAssignment(id, { project_id: projectId, date });
+      }
+
+      if (saved.conflicts.length > 0) {
+        showError(`Scheduled with conflicts: ${saved.conflicts.map((c) => c.message).join('; ')}`);
+      }
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to update crew schedule');
+    }
+
+    loadSchedule();
+  };
+
+  const handleDelete = async (assignment: CrewAssignment) => {
+    try {
+      await crewScheduleService.deleteAssignment(assignment.id);
+      loadSchedule();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to remove crew assignment');
+    }
+  };
+
+  const handleEdit = (assignment: CrewAssignment) => {
+    setEditing(assignment);
+    setEditStartTime(assignment.start_time || '');
+    setEditNotes(assignment.notes || '');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+
+    try {
+      await crewScheduleService.updateAssignment(editing.id, {
+        start_time: editStartTime || null,
+        notes: editNotes || null
+      });
+      showSuccess('Crew assignment updated');
+      setEditing(null);
+      loadSchedule();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to update crew assignment');
+    }
+  };
+
+  const todayKey = toDateKey(new Date());
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1} flexWrap="wrap" gap={2}>
+        <Typography variant="h4" component="h1">
+          Crew Schedule
+        </Typography>
+        <Box display="flex" alignItems="center" gap={1}>
+          <IconButton onClick={() => setWeekStart(addDays(weekStart, -7))} aria-label="Previous week">
+            <ChevronLeft />
+          </IconButton>
+          <Typography variant="subtitle1" sx={{ minWidth: 200, textAlign: 'center' }}>
+            {days[0]!.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} -{' '}
+            {days[6]!.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </Typography>
+          <IconButton onClick={() => setWeekStart(addDays(weekStart, 7))} aria-label="Next week">
+            <ChevronRight />
+          </IconButton>
+          <Button variant="outlined" size="small" onClick={() => setWeekStart(getWeekStart(new Date()))}>
+            This Week
+          </Button>
+        </Box>
+      </Box>
+
+      <Typography variant="body1" color="text.secondary" mb={3}>
+        Drag crew members onto a project and day. Drag an assignment to move it; click it to set a start time.
+      </Typography>
+
+      {conflicts.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <Typography variant="subtitle2">
+            {conflicts.length} assignment{conflicts.length === 1 ? '' : 's'} with conflicts this week
+          </Typography>
+          {conflicts.map((assignment) => (
+            <Typography key={assignment.id} variant="body2">
+              {new Date(`${assignment.date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric'
+              })}{' '}
+              - {assignment.employee.first_name} {assignment.employee.last_name} ({assignment.project.project_number}):{' '}
+              {assignment.conflicts.map((c) => c.message).join('; ')}
+            </Typography>
+          ))}
+        </Alert>
+      )}
+
+      <DndContext sensors={sensors} collisionDetection={pointerWithin} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+        <Box display="flex" gap={2} alignItems="flex-start">
+          {/* Crew list */}
+          <Paper sx={{ p: 2, width: 220, flexShrink: 0, maxHeight: '70vh', overflow: 'auto' }}>
+            <Typography variant="subtitle1" gutterBottom>
+              Crew
+            </Typography>
+            <TextField
+              size="small"
+              placeholder="Search..."
+              value={employeeSearch}
+              onChange={(e) => setEmployeeSearch(e.target.value)}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <Search fontSize="small" />
+                  </InputAdornment>
+                )
+              }}
+              sx={{ mb: 1 }}
+            />
+            <Box display="flex" flexDirection="column" gap={1}>
+              {filteredEmployees.map((employee) => (
+                <EmployeeChip key={employee.id} employee={employee} />
+              ))}
+            </Box>
+          </Paper>
+
+          {/* Week grid */}
+          {loading ? (
+            <Box display="flex" justifyContent="center" flex={1} py={6}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <TableContainer component={Paper} sx={{ flex: 1 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ minWidth: 180 }}>Project</TableCell>
+                    {days.map((day) => (
+                      <TableCell
+                        key={toDateKey(day)}
+                        align="center"
+                        sx={{ fontWeight: toDateKey(day) === todayKey ? 700 : undefined }}
+                      >
+                        {day.toLocaleDateString('en-US', { weekday: 'short', month: 'numeric', day: 'numeric' })}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map((project) => (
+                    <TableRow key={project.id}>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          {project.project_number}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {project.name}
+                        </Typography>
+                      </TableCell>
+                      {days.map((day) => {
+                        const dateKey = toDateKey(day);
+                        return (
+                          <ScheduleCell key={dateKey} id={`${project.id}|${dateKey}`}>
+                            {getCellAssignments(project.id, dateKey).map((assignment) => (
+                              <AssignmentChip
+                                key={assignment.id}
+                                assignment={assignment}
+                                onEdit={handleEdit}
+                                onDelete={handleDelete}
+                              />
+                            ))}
+                          </ScheduleCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} align="center">
+                        <Typography color="text.secondary" py={3}>
+                          No active projects to schedule
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Box>
+
+        <DragOverlay>{activeLabel ? <Chip label={activeLabel} color="primary" /> : null}</DragOverlay>
+      </DndContext>
+
+      {/* Edit Assignment Dialog */}
+      <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          {editing?.employee.first_name} {editing?.employee.last_name} - {editing?.project.project_number}
+        </DialogTitle>
+        <DialogContent>
+          {editing && editing.conflicts.length > 0 && (
+            <Alert severity="warning" sx={{ mt: 1 }}>
+              {editing.conflicts.map((c) => c.message).join('; ')}
+            </Alert>
+          )}
+          <TextField
+            fullWidth
+            label="Start Time"
+            type="time"
+            value={editStartTime}
+            onChange={(e) => setEditStartTime(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            margin="normal"
+          />
+          <TextField
+            fullWidth
+            label="Notes"
+            value={editNotes}
+            onChange={(e) => setEditNotes(e.target.value)}
+            margin="normal"
+            multiline
+            rows={2}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveEdit}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default CrewSchedule;
@@ -16,6 +16,8 @@ import {
   Divider,
   Avatar,
   Paper,
+  Alert,
+  AlertTitle,
 } from '@mui/material';
 import {
   Assignment,
@@ -40,6 +42,11 @@ import { useTheme } from '@mui/material/styles';
 import { getActiveSignIns } from '../services/signin.service';
 import { quoteService } from '../services';
 import { getAllProjects } from '../services/project.service';
+import {
+  certificationService,
+  SignInCertificationAlert,
+  CERTIFICATION_VIEW_ROLES,
+} from '../services/certification.service';
 
 interface ModuleCardProps {
   icon: React.ReactNode;
@@ -216,6 +223,7 @@ const ModuleCard: React.FC<ModuleCardProps> = ({ icon, title, description, path,
 
 const Dashboard: React.FC = () => {
   const { user } = useAuthStore();
+  const navigate = useNavigate();
   const theme = useTheme();
   const [loading, setLoading] = useState(true);
   const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([]);
@@ -225,6 +233,7 @@ const Dashboard: React.FC = () => {
     pendingQuotes: 0,
     signedInEmployees: 0,
   });
+  const [certificationAlerts, setCertificationAlerts] = useState<SignInCertificationAlert[]>([]);
 
   // Real stats data for display
   const statsCards = [
@@ -404,6 +413,16 @@ const Dashboard: React.FC = () => {
     fetchDashboardData();
   }, []);
 
+  // Workers signed in on jobs without a required certification
+  useEffect(() => {
+    if (!user || !CERTIFICATION_VIEW_ROLES.includes(user.role)) return;
+
+    certificationService
+      .getSignInAlerts()
+      .then(setCertificationAlerts)
+      .catch((error) => console.error('Failed to fetch certification alerts:', error));
+  }, [user]);
+
   const getActivityIcon = (type: string) => {
     switch (type) {
       case 'project':
@@ -440,6 +459,30 @@ const Dashboard: React.FC = () => {
         </Typography>
       </Box>
 
+      {/* Certification Warnings */}
+      {certificationAlerts.length > 0 && (
+        <Alert
+          severity="error"
+          sx={{ mb: 4 }}
+          action={
+            <Button color="inherit" size="small" onClick={() => navigate('/employees')}>
+              Review
+            </Button>
+          }
+        >
+          <AlertTitle>
+            {certificationAlerts.length} signed-in worker{certificationAlerts.length === 1 ? '' : 's'} missing
+            required certifications
+          </AlertTitle>
+          {certificationAlerts.map((alert) => (
+            <Typography key={alert.sign_in_id} variant="body2">
+              {alert.employee.first_name} {alert.employee.last_name} on {alert.project.project_number}:{' '}
+              {alert.issues.map((issue) => issue.message).join('; ')}
+            </Typography>
+          ))}
+        </Alert>
+      )}
+
       {/* Statistics Cards */}
       <Box sx={{ mb: 4 }}>
         <Typography variant="h6" sx={{ mb: 2, fontWeight: 600 }}>
@@ -0,0 +1,423 @@
+/**
+ * Dispatch Board Page
+ *
+ * Service call work orders by status. Dispatchers create calls, assign
+ * technicians and drag cards through the workflow; technicians see the
+ * calls assigned to them and open a card to work it.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  InputAdornment,
+  MenuItem,
+  Paper,
+  Switch,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  PointerSensor,
+  closestCorners,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors
+} from '@dnd-kit/core';
+import {
+  Add,
+  Business as BusinessIcon,
+  CalendarToday as CalendarIcon,
+  LocationOn as LocationIcon,
+  Person as PersonIcon,
+  Search
+} from '@mui/icons-material';
+import { useNotification } from '../hooks/useNotification';
+import { useUser } from '../store';
+import employeeService, { Employee } from '../services/employee.service';
+import {
+  workOrderService,
+  WorkOrder,
+  WorkOrderFilters,
+  WorkOrderPriority,
+  WorkOrderStatus,
+  WORK_ORDER_PRIORITIES,
+  WORK_ORDER_STATUSES,
+  DISPATCHER_ROLES
+} from '../services/work-order.service';
+import WorkOrderDialog from '../components/modules/WorkOrderDialog';
+
+// Column background colors
+const columnColors: Record<WorkOrderStatus, string> = {
+  OPEN: '#f5f5f5',
+  DISPATCHED: '#e3f2fd',
+  ON_SITE: '#fff3e0',
+  COMPLETED: '#e8f5e8',
+  INVOICED: '#ede7f6'
+};
+
+const formatSchedule = (workOrder: WorkOrder) => {
+  if (!workOrder.scheduled_start) return 'Not scheduled';
+
+  const start = new Date(workOrder.scheduled_start);
+  const label = start.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  if (!workOrder.scheduled_end) return label;
+
+  return `${label} - ${new Date(workOrder.scheduled_end).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`;
+};
+
+// Work order card component
+interface WorkOrderCardProps {
+  workOrder: WorkOrder;
+  onOpen?: (workOrder: WorkOrder) => void;
+  isDragging?: boolean;
+}
+
+const WorkOrderCard: React.FC<WorkOrderCardProps> = ({ workOrder, onOpen, isDragging = false }) => {
+  return (
+    <Card
+      onClick={() => onOpen?.(workOrder)}
+      sx={{
+        cursor: 'grab',
+        mb: 1,
+        boxShadow: isDragging ? 3 : 1,
+        borderLeft: 4,
+        borderColor: workOrder.priority === 'EMERGENCY' ? 'error.main' : 'transparent',
+        '&:hover': { boxShadow: 2 }
+      }}
+    >
+      <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+          <Typography variant="subtitle2" color="primary" fontWeight={700}>
+            {workOrder.wo_number}
+          </Typography>
+          <Chip
+            label={workOrder.priority}
+            size="small"
+            color={workOrderService.getPriorityColor(workOrder.priority)}
+            sx={{ fontSize: '0.7rem' }}
+          />
+        </Box>
+
+        <Box display="flex" alignItems="center" mb={0.5}>
+          <BusinessIcon sx={{ fontSize: 16, mr: 1, color: 'text.secondary' }} />
+          <Typography variant="body2" noWrap>
+            {workOrder.client.name}
+          </Typography>
+        </Box>
+
+        <Box display="flex" alignItems="center" mb={0.5}>
+          <LocationIcon sx={{ fontSize: 16, mr: 1, color: 'text.secondary' }} />
+          <Typography variant="body2" color="text.secondary" noWrap>
+            {workOrder.site_address}
+          </Typography>
+        </Box>
+
+        <Typography
+          variant="body2"
+          sx={{
+            my: 1,
+            display: '-webkit-box',
+            WebkitLineClamp: 2,
+            WebkitBoxOrient: 'vertical',
+            overflow: 'hidden'
+          }}
+        >
+          {workOrder.problem_description}
+        </Typography>
+
+        <Box display="flex" alignItems="center" mb={0.5}>
+          <PersonIcon sx={{ fontSize: 16, mr: 1, color: 'text.secondary' }} />
+          <Typography variant="body2" color={workOrder.technician ? 'text.secondary' : 'warning.main'}>
+            {workOrder.technician
+              ? `${workOrder.technician.first_name} ${workOrder.technician.last_name}`
+              : 'Unassigned'}
+          </Typography>
+        </Box>
+
+        <Box display="flex" alignItems="center">
+          <CalendarIcon sx={{ fontSize: 16, mr: 1, color: 'text.secondary' }} />
+          <Typography variant="body2" color="text.secondary">
+            {formatSchedule(workOrder)}
+          </Typography>
+        </Box>
+
+        {workOrder.has_signature && (
+          <Chip label="Signed" size="small" color="success" variant="outlined" sx={{ mt: 1 }} />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Draggable wrapper; the drag overlay renders a plain card
+const DraggableWorkOrderCard: React.FC<WorkOrderCardProps> = ({ workOrder, onOpen }) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: workOrder.id });
+
+  return (
+    <div ref={setNodeRef} style={{ opacity: isDragging ? 0.5 : 1 }} {...attributes} {...listeners}>
+      <WorkOrderCard workOrder={workOrder} onOpen={onOpen} />
+    </div>
+  );
+};
+
+// Status column component
+interface StatusColumnProps {
+  status: WorkOrderStatus;
+  title: string;
+  workOrders: WorkOrder[];
+  onOpen: (workOrder: WorkOrder) => void;
+}
+
+const StatusColumn: React.FC<StatusColumnProps> = ({ status, title, workOrders, onOpen }) => {
+  const { isOver, setNodeRef } = useDroppable({ id: status });
+
+  return (
+    <Box sx={{ minWidth: 280, maxWidth: 320, flex: 1 }}>
+      <Paper
+        ref={setNodeRef}
+        elevation={1}
+        sx={{
+          p: 2,
+          backgroundColor: columnColors[status],
+          borderRadius: 2,
+          minHeight: 400,
+          border: '2px dashed',
+          borderColor: isOver ? 'primary.main' : 'transparent',
+          transition: 'all 0.2s ease'
+        }}
+      >
+        <Box display="flex" alignItems="center" mb={2}>
+          <Chip label={title} size="small" color={workOrderService.getStatusColor(status)} sx={{ fontWeight: 600 }} />
+          <Typography variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+            ({workOrders.length})
+          </Typography>
+        </Box>
+
+        {workOrders.map((workOrder) => (
+          <DraggableWorkOrderCard key={workOrder.id} workOrder={workOrder} onOpen={onOpen} />
+        ))}
+      </Paper>
+    </Box>
+  );
+};
+
+const DispatchBoard: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const user = useUser();
+  const isDispatcher = !!user && DISPATCHER_ROLES.includes(user.role);
+
+  const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [technicians, setTechnicians] = useState<Employee[]>([]);
+  const [search, setSearch] = useState('');
+  const [technicianFilter, setTechnicianFilter] = useState('');
+  const [priorityFilter, setPriorityFilter] = useState<WorkOrderPriority | ''>('');
+  const [showInvoiced, setShowInvoiced] = useState(false);
+  const [activeWorkOrder, setActiveWorkOrder] = useState<WorkOrder | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8
+      }
+    })
+  );
+
+  const columns = WORK_ORDER_STATUSES.filter((option) => showInvoiced || option.value !== 'INVOICED');
+
+  const loadWorkOrders = useCallback(async () => {
+    const filters: WorkOrderFilters = {
+      status: WORK_ORDER_STATUSES.map((option) => option.value).filter((value) => showInvoiced || value !== 'INVOICED')
+    };
+    if (search) filters.search = search;
+    if (technicianFilter) filters.assigned_employee_id = technicianFilter;
+    if (priorityFilter) filters.priority = priorityFilter;
+
+    try {
+      setWorkOrders(await workOrderService.getWorkOrders(filters));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load work orders');
+    } finally {
+      setLoading(false);
+    }
+  }, [search, technicianFilter, priorityFilter, showInvoiced, showError]);
+
+  useEffect(() => {
+    loadWorkOrders();
+  }, [loadWorkOrders]);
+
+  useEffect(() => {
+    if (!isDispatcher) return;
+
+    employeeService
+      .getAll({ isActive: true }, { limit: 500, sortBy: 'last_name', sortOrder: 'asc' })
+      .then((response) => setTechnicians(response.data.employees))
+      .catch(() => setTechnicians([]));
+  }, [isDispatcher]);
+
+  const handleOpen = (workOrder: WorkOrder) => {
+    setSelectedId(workOrder.id);
+    setDialogOpen(true);
+  };
+
+  const handleCreate = () => {
+    setSelectedId(null);
+    setDialogOpen(true);
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveWorkOrder(workOrders.find((wo) => wo.id === event.active.id) || null);
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    const { active, over } = event;
+    setActiveWorkOrder(null);
+
+    if (!over) return;
+
+    const workOrder = workOrders.find((wo) => wo.id === active.id);
+    const targetStatus = over.id as WorkOrderStatus;
+
+    if (!workOrder || workOrder.status === targetStatus) return;
+
+    // Move the card right away, then reconcile with the server
+    setWorkOrders((prev) => prev.map((wo) => (wo.id === workOrder.id ? { ...wo, status: targetStatus } : wo)));
+
+    try {
+      await workOrderService.updateStatus(workOrder.id, targetStatus);
+      const label = WORK_ORDER_STATUSES.find((option) => option.value === targetStatus)?.label;
+      showSuccess(`${workOrder.wo_number} moved to ${label}`);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to update work order status');
+    }
+
+    loadWorkOrders();
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="h4" component="h1">
+          Dispatch Board
+        </Typography>
+        {isDispatcher && (
+          <Button variant="contained" startIcon={<Add />} onClick={handleCreate}>
+            New Work Order
+          </Button>
+        )}
+      </Box>
+
+      <Typography variant="body1" color="text.secondary" mb={3}>
+        {isDispatcher
+          ? 'Drag service calls between columns to move them through dispatch'
+          : 'Your assigned service calls - open a card to record work and capture the customer signature'}
+      </Typography>
+
+      {/* Filters */}
+      <Box display="flex" gap={2} mb={3} flexWrap="wrap" alignItems="center">
+        <TextField
+          size="small"
+          placeholder="Search work orders..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <Search />
+              </InputAdornment>
+            )
+          }}
+          sx={{ minWidth: 250 }}
+        />
+        {isDispatcher && (
+          <TextField
+            select
+            size="small"
+            label="Technician"
+            value={technicianFilter}
+            onChange={(e) => setTechnicianFilter(e.target.value)}
+            sx={{ minWidth: 200 }}
+          >
+            <MenuItem value="">All Technicians</MenuItem>
+            {technicians.map((employee) => (
+              <MenuItem key={employee.id} value={employee.id}>
+                {employee.firstName} {employee.lastName}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+        <TextField
+          select
+          size="small"
+          label="Priority"
+          value={priorityFilter}
+          onChange={(e) => setPriorityFilter(e.target.value as WorkOrderPriority | '')}
+          sx={{ minWidth: 150 }}
+        >
+          <MenuItem value="">All Priorities</MenuItem>
+          {WORK_ORDER_PRIORITIES.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <FormControlLabel
+          control={<Switch checked={showInvoiced} onChange={(e) => setShowInvoiced(e.target.checked)} />}
+          label="Show invoiced"
+        />
+      </Box>
+
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCorners}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+      >
+        <Box display="flex" gap={2} overflow="auto" pb={2}>
+          {columns.map((option) => (
+            <StatusColumn
+              key={option.value}
+              status={option.value}
+              title={option.label}
+              workOrders={workOrders.filter((wo) => wo.status === option.value)}
+              onOpen={handleOpen}
+            />
+          ))}
+        </Box>
+
+        <DragOverlay>{activeWorkOrder ? <WorkOrderCard workOrder={activeWorkOrder} isDragging /> : null}</DragOverlay>
+      </DndContext>
+
+      <WorkOrderDialog
+        open={dialogOpen}
+        workOrderId={selectedId}
+        onClose={() => setDialogOpen(false)}
+        onChanged={loadWorkOrders}
+      />
+    </Box>
+  );
+};
+
+export default DispatchBoard;
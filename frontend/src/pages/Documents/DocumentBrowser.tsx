@@ -191,6 +191,7 @@ const DocumentBrowser: React.FC = () => {
         description: data.description,
         tags: data.tags,
         folderPath: data.folderPath,
+        receiptAmount: data.receiptAmount,
         projectId: data.projectId || selectedProject || undefined
       });
 
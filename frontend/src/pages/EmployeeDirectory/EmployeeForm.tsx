@@ -29,6 +29,8 @@ import {
   mobileFormFieldProps,
 } from '../../components/common';
 import { Employee, CreateEmployeeData } from '../../services/employee.service';
+import unionService from '../../services/union.service';
+import { UnionLocal } from '../../types/timekeeping.types';
 
 // Common job classifications
 const JOB_CLASSIFICATIONS = [
@@ -54,6 +56,8 @@ interface EmployeeFormData {
   lastName: string;
   classification: string;
   employeeNumber?: string;
+  payrollId?: string;
+  unionLocalId?: string;
   email?: string;
   phone?: string;
   mobilePhone?: string;
@@ -76,6 +80,7 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
 }) => {
   const isEdit = Boolean(employee);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [unionLocals, setUnionLocals] = useState<UnionLocal[]>([]);
 
   // Form setup
   const {
@@ -89,6 +94,8 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
       lastName: '',
       classification: '',
       employeeNumber: '',
+      payrollId: '',
+      unionLocalId: '',
       email: '',
       phone: '',
       mobilePhone: '',
@@ -106,6 +113,8 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
         lastName: employee.lastName || '',
         classification: employee.classification || '',
         employeeNumber: employee.employeeNumber || '',
+        payrollId: employee.payrollId || '',
+        unionLocalId: employee.unionLocalId || '',
         email: employee.email || '',
         phone: employee.phone || '',
         mobilePhone: employee.mobilePhone || '',
@@ -115,6 +124,19 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
     }
   }, [employee, reset]);
 
+  // Load union locals for the home local dropdown
+  useEffect(() => {
+    unionService
+      .getUnionLocals(true)
+      .then(setUnionLocals)
+      .catch((error) => console.error('Error loading union locals:', error));
+  }, []);
+
+  // Inactive locals stay selectable only for employees already assigned to them
+  const unionLocalOptions = unionLocals.filter(
+    (local) => local.isActive || local.id === employee?.unionLocalId
+  );
+
   // Handle form submission
   const onSubmit = async (data: EmployeeFormData) => {
     setSubmitError(null);
@@ -125,6 +147,8 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
         lastName: data.lastName,
         classification: data.classification,
         employeeNumber: data.employeeNumber || undefined,
+        payrollId: data.payrollId || null,
+        unionLocalId: data.unionLocalId || null,
         email: data.email || undefined,
         phone: data.phone || undefined,
         mobilePhone: data.mobilePhone || undefined,
@@ -249,6 +273,44 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
               )}
             />
           </FormRow>
+
+          <FormRow columns={2}>
+            {/* Payroll ID */}
+            <Controller
+              name="payrollId"
+              control={control}
+              render={({ field }) => (
+                <TextField
+                  {...field}
+                  label="Payroll ID"
+                  placeholder="e.g., ADP file # or Gusto ID"
+                  helperText="Matches this employee in payroll exports"
+                  {...mobileFormFieldProps}
+                />
+              )}
+            />
+
+            {/* Union Local */}
+            <Controller
+              name="unionLocalId"
+              control={control}
+              render={({ field }) => (
+                <FormControl {...mobileFormFieldProps}>
+                  <InputLabel>Union Local</InputLabel>
+                  <Select {...field} label="Union Local">
+                    <MenuItem value="">
+                      <em>Non-union</em>
+                    </MenuItem>
+                    {unionLocalOptions.map((local) => (
+                      <MenuItem key={local.id} value={local.id}>
+                        Local {local.number} — {local.name}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+            />
+          </FormRow>
         </FormSection>
 
         {/* Section 2: Contact Information */}
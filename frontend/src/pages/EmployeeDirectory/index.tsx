@@ -2,14 +2,17 @@
  * Employee Directory Page
  * 
  * Main page for employee directory management
- * Orchestrates list, detail, and form views
+ * Orchestrates list, detail, and form views, plus the certification report
+ * and (for the office) pay rate history
  */
 
 import React, { useState } from 'react';
-import { Box } from '@mui/material';
-import { useEmployeeStore } from '../../store';
+import { Box, Tab, Tabs, Typography } from '@mui/material';
+import { useEmployeeStore, useUser } from '../../store';
 import { Employee, CreateEmployeeData, UpdateEmployeeData } from '../../services/employee.service';
 import { ResponsiveDialog } from '../../components/common';
+import { EmployeeCertifications, EmployeePayRates, CertificationReport } from '../../components/modules';
+import { PAY_RATE_ROLES } from '../../services/pay-rate.service';
 import EmployeeList from './EmployeeList';
 import EmployeeForm from './EmployeeForm';
 
@@ -18,8 +21,11 @@ type ViewMode = 'list' | 'create' | 'edit' | 'view';
 const EmployeeDirectory: React.FC = () => {
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
+  const [tab, setTab] = useState<'employees' | 'certifications'>('employees');
 
   const { createEmployee, updateEmployee, isLoading } = useEmployeeStore();
+  const user = useUser();
+  const canViewPayRates = !!user && PAY_RATE_ROLES.includes(user.role);
 
   // Handle add new employee
   const handleAdd = () => {
@@ -62,12 +68,22 @@ const EmployeeDirectory: React.FC = () => {
 
   return (
     <Box sx={{ p: { xs: 2, sm: 3 } }}>
+      <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+        <Tab label="Employees" value="employees" />
+        <Tab label="Certifications" value="certifications" />
+      </Tabs>
+
       {/* Employee List */}
-      <EmployeeList
-        onAdd={handleAdd}
-        onEdit={handleEdit}
-        onView={handleView}
-      />
+      {tab === 'employees' && (
+        <EmployeeList
+          onAdd={handleAdd}
+          onEdit={handleEdit}
+          onView={handleView}
+        />
+      )}
+
+      {/* Expiring certifications report */}
+      {tab === 'certifications' && <CertificationReport />}
 
       {/* Create/Edit Dialog */}
       <ResponsiveDialog
@@ -85,7 +101,7 @@ const EmployeeDirectory: React.FC = () => {
         />
       </ResponsiveDialog>
 
-      {/* View Dialog (for future detail view) */}
+      {/* View Dialog */}
       {viewMode === 'view' && selectedEmployee && (
         <ResponsiveDialog
           open={true}
@@ -95,8 +111,13 @@ const EmployeeDirectory: React.FC = () => {
           fullWidth
         >
           <Box sx={{ p: 2 }}>
-            {/* TODO: Add detailed employee view component */}
-            <p>Employee Details - Coming Soon</p>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {[selectedEmployee.classification, selectedEmployee.employeeNumber, selectedEmployee.employmentStatus]
+                .filter(Boolean)
+                .join(' · ')}
+            </Typography>
+            <EmployeeCertifications employeeId={selectedEmployee.id} />
+            {canViewPayRates && <EmployeePayRates employeeId={selectedEmployee.id} />}
           </Box>
         </ResponsiveDialog>
       )}
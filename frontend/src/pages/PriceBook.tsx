@@ -0,0 +1,685 @@
+/**
+ * Price Book Page
+ *
+ * Maintains the catalog of materials and labor items with units and prices,
+ * and the assemblies built from them that estimators insert into quotes.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormControlLabel,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tabs,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Add, Edit, Delete, Search } from '@mui/icons-material';
+import { useNotification } from '../hooks/useNotification';
+import { quoteService } from '../services/quote.service';
+import {
+  priceBookService,
+  PriceBookItem,
+  PriceBookItemFormData,
+  PriceBookItemType,
+  Assembly,
+  AssemblyFormData
+} from '../services/price-book.service';
+
+type PriceBookTab = 'items' | 'assemblies';
+
+interface ItemFormState {
+  code: string;
+  name: string;
+  description: string;
+  type: PriceBookItemType;
+  category: string;
+  unit: string;
+  unitPrice: string;
+  isActive: boolean;
+}
+
+interface AssemblyComponentState {
+  item: PriceBookItem | null;
+  quantity: string;
+}
+
+interface AssemblyFormState {
+  name: string;
+  description: string;
+  category: string;
+  isActive: boolean;
+  components: AssemblyComponentState[];
+}
+
+const EMPTY_ITEM_FORM: ItemFormState = {
+  code: '',
+  name: '',
+  description: '',
+  type: 'MATERIAL',
+  category: '',
+  unit: 'ea',
+  unitPrice: '',
+  isActive: true
+};
+
+const EMPTY_ASSEMBLY_FORM: AssemblyFormState = {
+  name: '',
+  description: '',
+  category: '',
+  isActive: true,
+  components: [{ item: null, quantity: '1' }]
+};
+
+const getErrorMessage = (error: any, fallback: string): string =>
+  error?.error?.message || error?.message || fallback;
+
+const PriceBook: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const [tab, setTab] = useState<PriceBookTab>('items');
+  const [search, setSearch] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [items, setItems] = useState<PriceBookItem[]>([]);
+  const [assemblies, setAssemblies] = useState<Assembly[]>([]);
+  const [activeItems, setActiveItems] = useState<PriceBookItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [itemDialogOpen, setItemDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<PriceBookItem | null>(null);
+  const [itemForm, setItemForm] = useState<ItemFormState>(EMPTY_ITEM_FORM);
+
+  const [assemblyDialogOpen, setAssemblyDialogOpen] = useState(false);
+  const [editingAssembly, setEditingAssembly] = useState<Assembly | null>(null);
+  const [assemblyForm, setAssemblyForm] = useState<AssemblyFormState>(EMPTY_ASSEMBLY_FORM);
+
+  const [deleteTarget, setDeleteTarget] = useState<
+    { kind: 'item'; record: PriceBookItem } | { kind: 'assembly'; record: Assembly } | null
+  >(null);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const filters = { search: search.trim() || undefined, include_inactive: showInactive };
+      if (tab === 'items') {
+        setItems(await priceBookService.getItems(filters));
+      } else {
+        setAssemblies(await priceBookService.getAssemblies(filters));
+      }
+    } catch (error: any) {
+      showError(getErrorMessage(error, 'Failed to load price book'));
+    } finally {
+      setLoading(false);
+    }
+  }, [tab, search, showInactive, showError]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadData, 300);
+    return () => clearTimeout(timer);
+  }, [loadData]);
+
+  // Item dialog
+  const handleOpenItemDialog = (item?: PriceBookItem) => {
+    if (item) {
+      setEditingItem(item);
+      setItemForm({
+        code: item.code || '',
+        name: item.name,
+        description: item.description || '',
+        type: item.type,
+        category: item.category || '',
+        unit: item.unit,
+        unitPrice: item.unit_price.toString(),
+        isActive: item.is_active
+      });
+    } else {
+      setEditingItem(null);
+      setItemForm(EMPTY_ITEM_FORM);
+    }
+    setItemDialogOpen(true);
+  };
+
+  const handleSaveItem = async () => {
+    const unitPrice = parseFloat(itemForm.unitPrice);
+    if (!itemForm.name.trim() || !itemForm.unit.trim() || isNaN(unitPrice) || unitPrice < 0) {
+      showError('Name, unit and a non-negative unit price are required');
+      return;
+    }
+
+    const data: PriceBookItemFormData = {
+      code: itemForm.code.trim(),
+      name: itemForm.name.trim(),
+      description: itemForm.description.trim(),
+      type: itemForm.type,
+      category: itemForm.category.trim(),
+      unit: itemForm.unit.trim(),
+      unit_price: unitPrice,
+      is_active: itemForm.isActive
+    };
+
+    setSaving(true);
+    try {
+      if (editingItem) {
+        await priceBookService.updateItem(editingItem.id, data);
+        showSuccess('Item updated');
+      } else {
+        await priceBookService.createItem(data);
+        showSuccess('Item created');
+      }
+      setItemDialogOpen(false);
+      loadData();
+    } catch (error: any) {
+      showError(getErrorMessage(error, 'Failed to save item'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Assembly dialog
+  const handleOpenAssemblyDialog = async (assembly?: Assembly) => {
+    try {
+      setActiveItems(await priceBookService.getItems());
+    } catch (error: any) {
+      showError(getErrorMessage(error, 'Failed to load price book items'));
+      return;
+    }
+
+    if (assembly) {
+      setEditingAssembly(assembly);
+      setAssemblyForm({
+        name: assembly.name,
+        description: assembly.description || '',
+        category: assembly.category || '',
+        isActive: assembly.is_active,
+        components: assembly.items.map((component) => ({
+          item: component.price_book_item,
+          quantity: component.quantity.toString()
+        }))
+      });
+    } else {
+      setEditingAssembly(null);
+      setAssemblyForm(EMPTY_ASSEMBLY_FORM);
+    }
+    setAssemblyDialogOpen(true);
+  };
+
+  const updateComponent = (index: number, changes: Partial<AssemblyComponentState>) => {
+    setAssemblyForm((prev) => ({
+      ...prev,
+      components: prev.components.map((component, i) =>
+        i === index ? { ...component, ...changes } : component
+      )
+    }));
+  };
+
+  const assemblyFormCost = assemblyForm.components.reduce(
+    (sum, component) => sum + (component.item ? component.item.unit_price * (parseFloat(component.quantity) || 0) : 0),
+    0
+  );
+
+  const handleSaveAssembly = async () => {
+    const components = assemblyForm.components.filter((component) => component.item);
+    if (!assemblyForm.name.trim() || components.length === 0) {
+      showError('An assembly needs a name and at least one item');
+      return;
+    }
+
+    if (components.some((component) => !(parseFloat(component.quantity) > 0))) {
+      showError('Each item quantity must be greater than 0');
+      return;
+    }
+
+    const data: AssemblyFormData = {
+      name: assemblyForm.name.trim(),
+      description: assemblyForm.description.trim(),
+      category: assemblyForm.category.trim(),
+      is_active: assemblyForm.isActive,
+      items: components.map((component) => ({
+        price_book_item_id: component.item!.id,
+        quantity: parseFloat(component.quantity)
+      }))
+    };
+
+    setSaving(true);
+    try {
+      if (editingAssembly) {
+        await priceBookService.updateAssembly(editingAssembly.id, data);
+        showSuccess('Assembly updated');
+      } else {
+        await priceBookService.createAssembly(data);
+        showSuccess('Assembly created');
+      }
+      setAssemblyDialogOpen(false);
+      loadData();
+    } catch (error: any) {
+      showError(getErrorMessage(error, 'Failed to save assembly'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setSaving(true);
+    try {
+      if (deleteTarget.kind === 'item') {
+        await priceBookService.deleteItem(deleteTarget.record.id);
+      } else {
+        await priceBookService.deleteAssembly(deleteTarget.record.id);
+      }
+      showSuccess(`${deleteTarget.record.name} deleted`);
+      setDeleteTarget(null);
+      loadData();
+    } catch (error: any) {
+      showError(getErrorMessage(error, 'Failed to delete'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Box>
+          <Typography variant="h4" gutterBottom>
+            Price Book
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Materials, labor and assemblies available when building quotes
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<Add />}
+          onClick={() => (tab === 'items' ? handleOpenItemDialog() : handleOpenAssemblyDialog())}
+        >
+          {tab === 'items' ? 'Add Item' : 'Add Assembly'}
+        </Button>
+      </Box>
+
+      <Card>
+        <CardContent>
+          <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+            <Tab label="Items" value="items" />
+            <Tab label="Assemblies" value="assemblies" />
+          </Tabs>
+
+          <Box display="flex" gap={2} alignItems="center" mb={2}>
+            <TextField
+              size="small"
+              placeholder="Search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <Search />
+                  </InputAdornment>
+                )
+              }}
+              sx={{ flex: 1, maxWidth: 400 }}
+            />
+            <FormControlLabel
+              control={<Switch checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />}
+              label="Show inactive"
+            />
+          </Box>
+
+          {loading ? (
+            <Box display="flex" justifyContent="center" py={4}>
+              <CircularProgress />
+            </Box>
+          ) : tab === 'items' ? (
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Code</TableCell>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell>Category</TableCell>
+                    <TableCell align="center">Unit</TableCell>
+                    <TableCell align="right">Unit Price</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {items.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} align="center">
+                        <Typography variant="body2" color="text.secondary" py={2}>
+                          No price book items found
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    items.map((item) => (
+                      <TableRow key={item.id} hover sx={{ opacity: item.is_active ? 1 : 0.5 }}>
+                        <TableCell>{item.code || '—'}</TableCell>
+                        <TableCell>
+                          {item.name}
+                          {!item.is_active && <Chip label="Inactive" size="small" sx={{ ml: 1 }} />}
+                        </TableCell>
+                        <TableCell>
+                          <Chip
+                            label={item.type === 'LABOR' ? 'Labor' : 'Material'}
+                            size="small"
+                            color={item.type === 'LABOR' ? 'info' : 'default'}
+                          />
+                        </TableCell>
+                        <TableCell>{item.category || '—'}</TableCell>
+                        <TableCell align="center">{item.unit}</TableCell>
+                        <TableCell align="right">{quoteService.formatCurrency(item.unit_price)}</TableCell>
+                        <TableCell align="right">
+                          <IconButton size="small" onClick={() => handleOpenItemDialog(item)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => setDeleteTarget({ kind: 'item', record: item })}
+                          >
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          ) : (
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Category</TableCell>
+                    <TableCell>Components</TableCell>
+                    <TableCell align="right">Unit Cost</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {assemblies.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} align="center">
+                        <Typography variant="body2" color="text.secondary" py={2}>
+                          No assemblies found
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    assemblies.map((assembly) => (
+                      <TableRow key={assembly.id} hover sx={{ opacity: assembly.is_active ? 1 : 0.5 }}>
+                        <TableCell>
+                          {assembly.name}
+                          {!assembly.is_active && <Chip label="Inactive" size="small" sx={{ ml: 1 }} />}
+                          {assembly.description && (
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              {assembly.description}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>{assembly.category || '—'}</TableCell>
+                        <TableCell>
+                          <Typography variant="body2" color="text.secondary">
+                            {assembly.items
+                              .map((item) => `${item.quantity} ${item.price_book_item.unit} ${item.price_book_item.name}`)
+                              .join(', ')}
+                          </Typography>
+                        </TableCell>
+                        <TableCell align="right">{quoteService.formatCurrency(assembly.unit_cost)}</TableCell>
+                        <TableCell align="right">
+                          <IconButton size="small" onClick={() => handleOpenAssemblyDialog(assembly)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => setDeleteTarget({ kind: 'assembly', record: assembly })}
+                          >
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Item Dialog */}
+      <Dialog open={itemDialogOpen} onClose={() => setItemDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingItem ? 'Edit Item' : 'Add Item'}</DialogTitle>
+        <DialogContent>
+          <Box display="grid" gridTemplateColumns="1fr 2fr" gap={2} mt={1}>
+            <TextField
+              label="Code"
+              value={itemForm.code}
+              onChange={(e) => setItemForm({ ...itemForm, code: e.target.value })}
+              helperText="Optional SKU or part number"
+            />
+            <TextField
+              label="Name"
+              required
+              value={itemForm.name}
+              onChange={(e) => setItemForm({ ...itemForm, name: e.target.value })}
+            />
+            <FormControl>
+              <InputLabel>Type</InputLabel>
+              <Select
+                label="Type"
+                value={itemForm.type}
+                onChange={(e) => setItemForm({ ...itemForm, type: e.target.value as PriceBookItemType })}
+              >
+                <MenuItem value="MATERIAL">Material</MenuItem>
+                <MenuItem value="LABOR">Labor</MenuItem>
+              </Select>
+            </FormControl>
+            <TextField
+              label="Category"
+              value={itemForm.category}
+              onChange={(e) => setItemForm({ ...itemForm, category: e.target.value })}
+              placeholder="e.g. Wire, Devices, Conduit"
+            />
+            <TextField
+              label="Unit"
+              required
+              value={itemForm.unit}
+              onChange={(e) => setItemForm({ ...itemForm, unit: e.target.value })}
+              placeholder="ea, ft, hr"
+            />
+            <TextField
+              label="Unit Price"
+              type="number"
+              required
+              value={itemForm.unitPrice}
+              onChange={(e) => setItemForm({ ...itemForm, unitPrice: e.target.value })}
+              InputProps={{
+                startAdornment: <InputAdornment position="start">$</InputAdornment>
+              }}
+            />
+          </Box>
+          <TextField
+            fullWidth
+            multiline
+            rows={2}
+            label="Description"
+            value={itemForm.description}
+            onChange={(e) => setItemForm({ ...itemForm, description: e.target.value })}
+            sx={{ mt: 2 }}
+          />
+          {editingItem && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={itemForm.isActive}
+                  onChange={(e) => setItemForm({ ...itemForm, isActive: e.target.checked })}
+                />
+              }
+              label="Active"
+              sx={{ mt: 1 }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setItemDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveItem} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Assembly Dialog */}
+      <Dialog open={assemblyDialogOpen} onClose={() => setAssemblyDialogOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{editingAssembly ? 'Edit Assembly' : 'Add Assembly'}</DialogTitle>
+        <DialogContent>
+          <Box display="grid" gridTemplateColumns="2fr 1fr" gap={2} mt={1}>
+            <TextField
+              label="Name"
+              required
+              value={assemblyForm.name}
+              onChange={(e) => setAssemblyForm({ ...assemblyForm, name: e.target.value })}
+              placeholder='e.g. 20A circuit, 50ft MC'
+            />
+            <TextField
+              label="Category"
+              value={assemblyForm.category}
+              onChange={(e) => setAssemblyForm({ ...assemblyForm, category: e.target.value })}
+            />
+          </Box>
+          <TextField
+            fullWidth
+            label="Description"
+            value={assemblyForm.description}
+            onChange={(e) => setAssemblyForm({ ...assemblyForm, description: e.target.value })}
+            sx={{ mt: 2 }}
+          />
+
+          <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+            Items
+          </Typography>
+          {assemblyForm.components.map((component, index) => (
+            <Box key={index} display="flex" gap={2} alignItems="center" mb={1.5}>
+              <Autocomplete
+                sx={{ flex: 1 }}
+                size="small"
+                options={activeItems}
+                value={component.item}
+                onChange={(_, value) => updateComponent(index, { item: value })}
+                getOptionLabel={(option) =>
+                  `${option.code ? `${option.code} - ` : ''}${option.name} (${quoteService.formatCurrency(option.unit_price)}/${option.unit})`
+                }
+                isOptionEqualToValue={(option, value) => option.id === value.id}
+                renderInput={(params) => <TextField {...params} label="Price book item" />}
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Qty"
+                value={component.quantity}
+                onChange={(e) => updateComponent(index, { quantity: e.target.value })}
+                sx={{ width: 100 }}
+              />
+              <IconButton
+                color="error"
+                disabled={assemblyForm.components.length === 1}
+                onClick={() =>
+                  setAssemblyForm((prev) => ({
+                    ...prev,
+                    components: prev.components.filter((_, i) => i !== index)
+                  }))
+                }
+              >
+                <Delete />
+              </IconButton>
+            </Box>
+          ))}
+          <Box display="flex" justifyContent="space-between" alignItems="center">
+            <Button
+              size="small"
+              startIcon={<Add />}
+              onClick={() =>
+                setAssemblyForm((prev) => ({
+                  ...prev,
+                  components: [...prev.components, { item: null, quantity: '1' }]
+                }))
+              }
+            >
+              Add Item
+            </Button>
+            <Typography variant="body2">
+              Current unit cost: <strong>{quoteService.formatCurrency(assemblyFormCost)}</strong>
+            </Typography>
+          </Box>
+          {editingAssembly && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={assemblyForm.isActive}
+                  onChange={(e) => setAssemblyForm({ ...assemblyForm, isActive: e.target.checked })}
+                />
+              }
+              label="Active"
+              sx={{ mt: 1 }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAssemblyDialogOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveAssembly} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteTarget} onClose={() => setDeleteTarget(null)}>
+        <DialogTitle>Delete {deleteTarget?.kind === 'item' ? 'Item' : 'Assembly'}</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Are you sure you want to delete "{deleteTarget?.record.name}"? Quotes that already
+            include it are not affected.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete} disabled={saving}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PriceBook;
@@ -28,6 +28,12 @@ import {
   CircularProgress,
   Paper,
   Tooltip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
 } from '@mui/material';
 import {
   ArrowBack as ArrowBackIcon,
@@ -50,6 +56,11 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useProjectStore } from '../../store';
 import { Project, ProjectMember } from '../../services/project.service';
 import { useNotification } from '../../hooks';
+import ProjectJobCost from '../../components/modules/ProjectJobCost';
+import ProjectCostCodes from '../../components/modules/ProjectCostCodes';
+import ProjectExpenses from '../../components/modules/ProjectExpenses';
+import ProjectChangeOrders from '../../components/modules/ProjectChangeOrders';
+import ProjectInvoices from '../../components/modules/ProjectInvoices';
 
 // Status color mapping
 const getStatusColor = (status: string) => {
@@ -153,6 +164,7 @@ const ProjectDetail: React.FC = () => {
   const [newStatus, setNewStatus] = useState('');
   const [teamMembers, setTeamMembers] = useState<ProjectMember[]>([]);
   const [activityLog, setActivityLog] = useState<any[]>([]);
+  const [jobCostRefreshKey, setJobCostRefreshKey] = useState(0);
 
   // Load project data
   useEffect(() => {
@@ -436,6 +448,16 @@ const ProjectDetail: React.FC = () => {
                     Financial Summary
                   </Typography>
                   <Box display="flex" flexDirection="column" gap={2}>
+                    {project.contractValue !== undefined && (
+                      <Box display="flex" justifyContent="space-between">
+                        <Typography variant="body2" color="text.secondary">
+                          Contract Value:
+                        </Typography>
+                        <Typography variant="body2" fontWeight="bold">
+                          {formatCurrency(project.contractValue)}
+                        </Typography>
+                      </Box>
+                    )}
                     <Box display="flex" justifyContent="space-between">
                       <Typography variant="body2" color="text.secondary">
                         Budget:
@@ -533,88 +555,73 @@ const ProjectDetail: React.FC = () => {
 
         {/* Financial Tab */}
         <TabPanel value={tabValue} index={2}>
-          <Box sx={{ 
-            display: 'grid', 
-            gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, 
-            gap: 3 
-          }}>
-            <Box>
-              <Card variant="outlined">
-                <CardContent>
-                  <Typography variant="h6" gutterBottom>
-                    Budget Overview
-                  </Typography>
-                  <Box display="flex" flexDirection="column" gap={2}>
-                    <Box display="flex" justifyContent="space-between">
-                      <Typography variant="body2" color="text.secondary">
-                        Total Budget:
-                      </Typography>
-                      <Typography variant="h6" color="primary.main">
-                        {formatCurrency(budget)}
-                      </Typography>
-                    </Box>
-                    <Box display="flex" justifyContent="space-between">
-                      <Typography variant="body2" color="text.secondary">
-                        Spent:
-                      </Typography>
-                      <Typography variant="h6" color="error.main">
-                        {formatCurrency(actualCost)}
-                      </Typography>
-                    </Box>
-                    <Box display="flex" justifyContent="space-between">
-                      <Typography variant="body2" color="text.secondary">
-                        Remaining:
-                      </Typography>
-                      <Typography variant="h6" color="success.main">
-                        {formatCurrency(budget - actualCost)}
-                      </Typography>
-                    </Box>
-                  </Box>
-                </CardContent>
-              </Card>
-            </Box>
-
-            <Box>
-              <Card variant="outlined">
-                <CardContent>
-                  <Typography variant="h6" gutterBottom>
-                    Budget Performance
-                  </Typography>
-                  <Box display="flex" flexDirection="column" gap={2}>
-                    <Box>
-                      <Typography variant="body2" color="text.secondary" gutterBottom>
-                        Budget Utilization
-                      </Typography>
-                      <Box display="flex" alignItems="center" gap={1}>
-                        <Box flexGrow={1} height={8} bgcolor="grey.200" borderRadius={1}>
-                          <Box
-                            height="100%"
-                            bgcolor={budgetVariancePercentage > 0 ? 'error.main' : 'success.main'}
-                            borderRadius={1}
-                            width={`${Math.min(100, Math.max(0, (actualCost / budget) * 100))}%`}
-                          />
-                        </Box>
-                        <Typography variant="body2">
-                          {formatPercentage(actualCost, budget)}
-                        </Typography>
-                      </Box>
-                    </Box>
-                    <Box>
-                      <Typography variant="body2" color="text.secondary" gutterBottom>
-                        Variance
-                      </Typography>
-                      <Typography 
-                        variant="h6"
-                        color={budgetVariance >= 0 ? 'error.main' : 'success.main'}
-                      >
-                        {budgetVariance >= 0 ? '+' : ''}{formatCurrency(budgetVariance)}
-                      </Typography>
-                    </Box>
-                  </Box>
-                </CardContent>
-              </Card>
-            </Box>
-          </Box>
+          <ProjectJobCost project={project} refreshKey={jobCostRefreshKey} />
+
+          <ProjectCostCodes projectId={project.id} startDate={project.startDate} refreshKey={jobCostRefreshKey} />
+
+          <ProjectExpenses
+            projectId={project.id}
+            projectNumber={project.projectNumber}
+            onChange={() => setJobCostRefreshKey((key) => key + 1)}
+          />
+
+          <ProjectChangeOrders
+            projectId={project.id}
+            projectNumber={project.projectNumber}
+            contractValue={project.contractValue ?? budget}
+            onApproved={() => {
+              // Approval changes the contract value, budget and budget breakdown
+              fetchProject(project.id);
+              setJobCostRefreshKey((key) => key + 1);
+            }}
+          />
+
+          {/* Pay applications (lump sum) or T&M invoices */}
+          <ProjectInvoices projectId={project.id} billingType={project.billingType} />
+
+          {/* Budget Breakdown (copied from the source quote on conversion and approved change orders) */}
+          {project.budgetItems && project.budgetItems.length > 0 && (
+            <Card variant="outlined" sx={{ mt: 3 }}>
+              <CardContent>
+                <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+                  <Typography variant="h6">Budget Breakdown</Typography>
+                  {project.sourceQuote && (
+                    <Chip
+                      label={`From quote ${project.sourceQuote.quoteNumber}`}
+                      size="small"
+                      variant="outlined"
+                    />
+                  )}
+                </Box>
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Category</TableCell>
+                        <TableCell>Description</TableCell>
+                        <TableCell align="right">Qty</TableCell>
+                        <TableCell>Unit</TableCell>
+                        <TableCell align="right">Unit Price</TableCell>
+                        <TableCell align="right">Total</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {project.budgetItems.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>{item.category}</TableCell>
+                          <TableCell>{item.description}</TableCell>
+                          <TableCell align="right">{item.quantity}</TableCell>
+                          <TableCell>{item.unit}</TableCell>
+                          <TableCell align="right">{formatCurrency(item.unitPrice)}</TableCell>
+                          <TableCell align="right">{formatCurrency(item.total)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </CardContent>
+            </Card>
+          )}
         </TabPanel>
 
         {/* Activity Tab */}
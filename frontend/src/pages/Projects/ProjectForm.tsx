@@ -18,6 +18,7 @@ import {
   Alert,
   CircularProgress,
   FormHelperText,
+  Chip,
 } from '@mui/material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
@@ -32,6 +33,13 @@ import {
 import { CreateProjectData, UpdateProjectData } from '../../services/project.service';
 import { clientService, Client } from '../../services/client.service';
 import { clientContactService, ClientContact } from '../../services/client-contact.service';
+import {
+  CertificationType,
+  CERTIFICATION_TYPES,
+  getCertificationLabel,
+} from '../../services/certification.service';
+import unionService from '../../services/union.service';
+import { UnionLocal } from '../../types/timekeeping.types';
 import { 
   Save as SaveIcon, 
   Cancel as CancelIcon,
@@ -62,6 +70,12 @@ interface ProjectFormData {
   endDate: Date | null;
   budget: number | '';
   description: string;
+  requiredCertifications: CertificationType[];
+  unionLocalId: string;
+  apprenticeRatio: number | '';
+  latitude: number | '';
+  longitude: number | '';
+  geofenceRadius: number | '';
 }
 
 // Default form values
@@ -77,6 +91,12 @@ const defaultValues: ProjectFormData = {
   endDate: null,
   budget: '',
   description: '',
+  requiredCertifications: [],
+  unionLocalId: '',
+  apprenticeRatio: '',
+  latitude: '',
+  longitude: '',
+  geofenceRadius: '',
 };
 
 // Project type options
@@ -114,6 +134,7 @@ const ProjectForm: React.FC = () => {
   const [clientContacts, setClientContacts] = useState<ClientContact[]>([]);
   const [contactsLoading, setContactsLoading] = useState(false);
   const [contactsError, setContactsError] = useState<string | null>(null);
+  const [unionLocals, setUnionLocals] = useState<UnionLocal[]>([]);
 
   // Form setup
   const {
@@ -156,6 +177,14 @@ const ProjectForm: React.FC = () => {
     fetchClients();
   }, []);
 
+  // Load union locals
+  useEffect(() => {
+    unionService
+      .getUnionLocals(true)
+      .then(setUnionLocals)
+      .catch((error) => console.error('Error fetching union locals:', error));
+  }, []);
+
   // Load client contacts when client is selected
   useEffect(() => {
     const fetchClientContacts = async () => {
@@ -206,6 +235,12 @@ const ProjectForm: React.FC = () => {
         endDate: selectedProject.endDate ? new Date(selectedProject.endDate) : null,
         budget: selectedProject.budget || '',
         description: selectedProject.description || '',
+        requiredCertifications: selectedProject.requiredCertifications || [],
+        unionLocalId: selectedProject.unionLocalId || '',
+        apprenticeRatio: selectedProject.apprenticeRatio ?? '',
+        latitude: selectedProject.latitude ?? '',
+        longitude: selectedProject.longitude ?? '',
+        geofenceRadius: selectedProject.geofenceRadius ?? '',
       });
     }
   }, [isEdit, selectedProject, reset]);
@@ -231,6 +266,12 @@ const ProjectForm: React.FC = () => {
         endDate: data.endDate?.toISOString().split('T')[0] || undefined,
         budget: Number(data.budget),
         description: data.description || null,
+        requiredCertifications: data.requiredCertifications,
+        unionLocalId: data.unionLocalId || null,
+        apprenticeRatio: data.apprenticeRatio === '' ? null : Number(data.apprenticeRatio),
+        latitude: data.latitude === '' ? null : Number(data.latitude),
+        longitude: data.longitude === '' ? null : Number(data.longitude),
+        geofenceRadius: data.geofenceRadius === '' ? null : Number(data.geofenceRadius),
       };
 
       console.log('ProjectForm - Prepared form data:', formData);
@@ -630,6 +671,159 @@ const ProjectForm: React.FC = () => {
                 )}
               />
             </FormRow>
+
+            <FormRow columns={1}>
+              {/* Required Certifications */}
+              <Controller
+                name="requiredCertifications"
+                control={control}
+                render={({ field }: { field: any }) => (
+                  <FormControl {...mobileFormFieldProps}>
+                    <InputLabel>Required Certifications</InputLabel>
+                    <Select
+                      {...field}
+                      multiple
+                      label="Required Certifications"
+                      renderValue={(selected: CertificationType[]) => (
+                        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                          {selected.map((type) => (
+                            <Chip key={type} label={getCertificationLabel({ type })} size="small" />
+                          ))}
+                        </Box>
+                      )}
+                    >
+                      {CERTIFICATION_TYPES.filter((type) => type.value !== 'OTHER').map((type) => (
+                        <MenuItem key={type.value} value={type.value}>
+                          {type.label}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                    <FormHelperText>
+                      Workers signed in on this job without these are flagged on the dashboard
+                    </FormHelperText>
+                  </FormControl>
+                )}
+              />
+            </FormRow>
+
+            <FormRow columns={1}>
+              {/* Union Local */}
+              <Controller
+                name="unionLocalId"
+                control={control}
+                render={({ field }: { field: any }) => (
+                  <FormControl {...mobileFormFieldProps}>
+                    <InputLabel>Union Local</InputLabel>
+                    <Select {...field} label="Union Local">
+                      <MenuItem value="">
+                        <em>None (remit to each employee's home local)</em>
+                      </MenuItem>
+                      {unionLocals
+                        .filter((local) => local.isActive || local.id === selectedProject?.unionLocalId)
+                        .map((local) => (
+                          <MenuItem key={local.id} value={local.id}>
+                            Local {local.number} — {local.name}
+                          </MenuItem>
+                        ))}
+                    </Select>
+                    <FormHelperText>
+                      Local with jurisdiction over the job; union fringes for hours here are remitted to it
+                    </FormHelperText>
+                  </FormControl>
+                )}
+              />
+            </FormRow>
+
+            <FormRow columns={1}>
+              {/* Apprentice Ratio */}
+              <Controller
+                name="apprenticeRatio"
+                control={control}
+                rules={{
+                  min: { value: 0.1, message: 'Ratio must be greater than 0' },
+                  max: { value: 10, message: 'Ratio cannot be more than 10' },
+                }}
+                render={({ field }: { field: any }) => (
+                  <TextField
+                    {...field}
+                    label="Apprentice Ratio"
+                    type="number"
+                    placeholder="1"
+                    error={!!errors.apprenticeRatio}
+                    helperText={
+                      errors.apprenticeRatio?.message ||
+                      'Max apprentices per journeyman on site; leave blank for the default of 1'
+                    }
+                    InputProps={{ inputProps: { min: 0, step: 0.25 } }}
+                    {...mobileFormFieldProps}
+                  />
+                )}
+              />
+            </FormRow>
+
+            <FormRow columns={3}>
+              {/* Site coordinates and sign-in geofence */}
+              <Controller
+                name="latitude"
+                control={control}
+                rules={{
+                  min: { value: -90, message: 'Latitude must be between -90 and 90' },
+                  max: { value: 90, message: 'Latitude must be between -90 and 90' },
+                }}
+                render={({ field }: { field: any }) => (
+                  <TextField
+                    {...field}
+                    label="Site Latitude"
+                    type="number"
+                    error={!!errors.latitude}
+                    helperText={errors.latitude?.message || 'Used to verify sign-in GPS'}
+                    InputProps={{ inputProps: { step: 0.000001 } }}
+                    {...mobileFormFieldProps}
+                  />
+                )}
+              />
+              <Controller
+                name="longitude"
+                control={control}
+                rules={{
+                  min: { value: -180, message: 'Longitude must be between -180 and 180' },
+                  max: { value: 180, message: 'Longitude must be between -180 and 180' },
+                }}
+                render={({ field }: { field: any }) => (
+                  <TextField
+                    {...field}
+                    label="Site Longitude"
+                    type="number"
+                    error={!!errors.longitude}
+                    helperText={errors.longitude?.message}
+                    InputProps={{ inputProps: { step: 0.000001 } }}
+                    {...mobileFormFieldProps}
+                  />
+                )}
+              />
+              <Controller
+                name="geofenceRadius"
+                control={control}
+                rules={{
+                  min: { value: 25, message: 'Radius must be at least 25 m' },
+                  max: { value: 10000, message: 'Radius cannot be more than 10,000 m' },
+                }}
+                render={({ field }: { field: any }) => (
+                  <TextField
+                    {...field}
+                    label="Geofence Radius (m)"
+                    type="number"
+                    placeholder="300"
+                    error={!!errors.geofenceRadius}
+                    helperText={
+                      errors.geofenceRadius?.message || 'Sign-ins farther away are flagged; blank = 300 m'
+                    }
+                    InputProps={{ inputProps: { min: 25, step: 25 } }}
+                    {...mobileFormFieldProps}
+                  />
+                )}
+              />
+            </FormRow>
           </FormSection>
 
           {/* Form Actions */}
@@ -6,6 +6,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   Snackbar,
@@ -16,7 +17,13 @@ import {
   CircularProgress
 } from '@mui/material';
 import { useQuoteStore } from '../store/quote.store';
-import { Quote, CreateQuoteData, UpdateQuoteData, QuoteStatus } from '../services/quote.service';
+import {
+  Quote,
+  CreateQuoteData,
+  UpdateQuoteData,
+  QuoteStatus,
+  ConvertQuoteData
+} from '../services/quote.service';
 import QuoteList from '../components/modules/QuoteList';
 import QuoteDetail from '../components/modules/QuoteDetail';
 import QuoteForm from '../components/modules/QuoteForm';
@@ -34,8 +41,12 @@ const QuoteManagement: React.FC = () => {
     updateQuoteStatus,
     deleteQuote,
     duplicateQuote,
+    convertQuoteToProject,
+    createQuoteRevision,
+    acceptQuoteRevision,
     clearError
   } = useQuoteStore();
+  const navigate = useNavigate();
 
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null);
@@ -114,6 +125,34 @@ const QuoteManagement: React.FC = () => {
     }
   };
 
+  const handleConvertQuote = async (quote: Quote, data: ConvertQuoteData) => {
+    try {
+      const { project } = await convertQuoteToProject(quote.id, data);
+      setSuccessMessage(`Project ${project.project_number} created from quote`);
+      navigate(`/projects/${project.id}`);
+    } catch (error) {
+      // Error is handled by the store
+    }
+  };
+
+  const handleCreateRevision = async (quote: Quote, changeSummary: string) => {
+    try {
+      const updated = await createQuoteRevision(quote.id, changeSummary || undefined);
+      setSuccessMessage(`Revision R${updated.current_revision} created`);
+    } catch (error) {
+      // Error is handled by the store
+    }
+  };
+
+  const handleAcceptRevision = async (quote: Quote, revisionNumber: number) => {
+    try {
+      await acceptQuoteRevision(quote.id, revisionNumber);
+      setSuccessMessage(`Revision R${revisionNumber} marked as accepted`);
+    } catch (error) {
+      // Error is handled by the store
+    }
+  };
+
   const handleCancelForm = () => {
     setViewMode('list');
   };
@@ -145,6 +184,9 @@ const QuoteManagement: React.FC = () => {
             onDelete={handleDeleteQuote}
             onDuplicate={handleDuplicateQuote}
             onStatusChange={handleStatusChange}
+            onConvert={handleConvertQuote}
+            onCreateRevision={handleCreateRevision}
+            onAcceptRevision={handleAcceptRevision}
           />
         ) : null;
 
@@ -0,0 +1,582 @@
+/**
+ * Time Clock Page
+ *
+ * Self-service punch screen for employees linked to a user account: clock in
+ * on a project and cost code, switch projects or cost codes mid-day, take meal
+ * and rest breaks, clock out
+ * review the week's hours and submit the week's timesheet for approval. The
+ * employee's time clock policy decides whether punches are allowed and whether
+ * the hours wait for supervisor approval.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  IconButton,
+  MenuItem,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Coffee,
+  Login,
+  Logout,
+  PunchClock,
+  Lock,
+  Restaurant,
+  Send,
+  SwapHoriz
+} from '@mui/icons-material';
+import { useNotification } from '../hooks/useNotification';
+import { projectService, Project } from '../services/project.service';
+import timeClockService from '../services/timeclock.service';
+import { getProjectCostCodes } from '../services/cost-code.service';
+import weeklyTimesheetService from '../services/weekly-timesheet.service';
+import { getCurrentPosition } from '../services/signin.service';
+import {
+  BreakType,
+  ProjectCostCode,
+  TimeClockStatus,
+  TimeClockWeek,
+  TimeEntryStatus,
+  WeeklyTimesheet,
+  WeeklyTimesheetStatus
+} from '../types/timekeeping.types';
+
+// Projects an employee can punch onto
+const PUNCHABLE_STATUSES = ['AWARDED', 'IN_PROGRESS', 'INSPECTION'];
+
+const STATUS_COLORS: Record<TimeEntryStatus, 'warning' | 'success' | 'error'> = {
+  PENDING: 'warning',
+  APPROVED: 'success',
+  REJECTED: 'error'
+};
+
+const TIMESHEET_STATUS_COLORS: Record<WeeklyTimesheetStatus, 'default' | 'info' | 'success' | 'error'> = {
+  DRAFT: 'default',
+  SUBMITTED: 'info',
+  APPROVED: 'success',
+  REJECTED: 'error'
+};
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }) : '—';
+
+const formatElapsed = (start: string | null, now: number) => {
+  if (!start) return '0:00';
+  const minutes = Math.max(0, Math.floor((now - new Date(start).getTime()) / 60000));
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Parse a YYYY-MM-DD key as a local date
+ */
+const fromDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const shiftDateKey = (key: string, days: number) => {
+  const date = fromDateKey(key);
+  date.setDate(date.getDate() + days);
+  return timeClockService.getLocalDate(date);
+};
+
+const TimeClock: React.FC = () => {
+  const { success: showSuccess, error: showError, warning: showWarning } = useNotification();
+
+  const [status, setStatus] = useState<TimeClockStatus | null>(null);
+  const [notLinked, setNotLinked] = useState<string | null>(null);
+  const [week, setWeek] = useState<TimeClockWeek | null>(null);
+  const [weekDate, setWeekDate] = useState(() => timeClockService.getLocalDate());
+  const [weeklyTimesheet, setWeeklyTimesheet] = useState<WeeklyTimesheet | null>(null);
+  const [submittingWeek, setSubmittingWeek] = useState(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
+  const [costCodes, setCostCodes] = useState<ProjectCostCode[]>([]);
+  const [selectedCostCodeId, setSelectedCostCodeId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [punching, setPunching] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const data = await timeClockService.getClockStatus();
+      setStatus(data);
+      setNotLinked(null);
+    } catch (error: any) {
+      const message = error?.error?.message || error?.message || 'Failed to load time clock';
+      if (message.includes('linked to your user account')) {
+        setNotLinked(message);
+      } else {
+        showError(message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  const loadWeek = useCallback(async () => {
+    try {
+      const [weekData, timesheet] = await Promise.all([
+        timeClockService.getMyWeek(weekDate),
+        weeklyTimesheetService.getMyWeeklyTimesheet(weekDate)
+      ]);
+      setWeek(weekData);
+      setWeeklyTimesheet(timesheet);
+    } catch (error: any) {
+      // The status request already reports a missing employee link
+      const message = error?.error?.message || error?.message || 'Failed to load weekly hours';
+      if (!message.includes('linked to your user account')) {
+        showError(message);
+      }
+    }
+  }, [weekDate, showError]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleSubmitWeek = async () => {
+    if (!weeklyTimesheet) return;
+
+    setSubmittingWeek(true);
+    try {
+      setWeeklyTimesheet(await weeklyTimesheetService.submitWeeklyTimesheet(weeklyTimesheet.id));
+      showSuccess('Week submitted for approval');
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to submit week');
+    } finally {
+      setSubmittingWeek(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWeek();
+  }, [loadWeek]);
+
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        const response = await projectService.getAll({}, { limit: 500 });
+        setProjects(response.data.projects.filter((project) => PUNCHABLE_STATUSES.includes(project.status)));
+      } catch (error: any) {
+        showError(error?.error?.message || error?.message || 'Failed to load projects');
+      }
+    };
+
+    loadProjects();
+  }, [showError]);
+
+  // Tick the elapsed-time display while clocked in
+  useEffect(() => {
+    if (!status?.clockedIn) return;
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [status?.clockedIn]);
+
+  // Cost codes are enabled per project; reload them when the project changes
+  useEffect(() => {
+    setSelectedCostCodeId('');
+    setCostCodes([]);
+    if (!selectedProject) return;
+
+    getProjectCostCodes(selectedProject.id)
+      .then(setCostCodes)
+      .catch((error: any) => showError(error?.error?.message || error?.message || 'Failed to load cost codes'));
+  }, [selectedProject, showError]);
+
+  /**
+   * Capture device location and run a punch, then refresh status and the week
+   */
+  const punch = async (
+    action: (gps: Awaited<ReturnType<typeof getCurrentPosition>>) => Promise<unknown>,
+    message: string
+  ) => {
+    setPunching(true);
+    try {
+      const gps = await getCurrentPosition();
+      if (!gps && status?.policy.requireGps) {
+        showError('Turn on location services to punch; your time clock policy requires it');
+        return;
+      }
+      if (!gps) {
+        showWarning('Location unavailable; punch recorded without a site check');
+      }
+
+      await action(gps);
+      showSuccess(message);
+      setSelectedProject(null);
+      setSelectedCostCodeId('');
+      setNotes('');
+      setNow(Date.now());
+      await Promise.all([loadStatus(), loadWeek()]);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Punch failed');
+    } finally {
+      setPunching(false);
+    }
+  };
+
+  const handleClockIn = () => {
+    if (!selectedProject || !selectedCostCodeId) {
+      showError('Select a project and cost code to clock in');
+      return;
+    }
+    punch(
+      (gps) => timeClockService.clockIn(selectedProject.id, selectedCostCodeId, gps, notes || undefined),
+      'Clocked in'
+    );
+  };
+
+  const handleSwitch = () => {
+    if (!selectedProject || !selectedCostCodeId) {
+      showError('Select the project and cost code you are moving to');
+      return;
+    }
+    punch(
+      (gps) => timeClockService.switchProject(selectedProject.id, selectedCostCodeId, gps, notes || undefined),
+      `Switched to ${selectedProject.name}`
+    );
+  };
+
+  const handleClockOut = () => {
+    punch((gps) => timeClockService.clockOut(gps), 'Clocked out');
+  };
+
+  const handleStartBreak = (breakType: BreakType) => {
+    punch(
+      (gps) => timeClockService.startBreak(breakType, gps),
+      breakType === 'MEAL' ? 'Meal break started' : 'Rest break started'
+    );
+  };
+
+  const handleEndBreak = () => {
+    punch((gps) => timeClockService.endBreak(gps), 'Break ended');
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (notLinked || !status) {
+    return (
+      <Box sx={{ p: { xs: 1, sm: 2 }, maxWidth: 640, mx: 'auto' }}>
+        <Alert severity="info">
+          {notLinked || 'Time clock is unavailable.'} Ask the office to link your employee record
+          to your login.
+        </Alert>
+      </Box>
+    );
+  }
+
+  const { employee, policy, clockedIn, openEntry, activeBreak } = status;
+
+  return (
+    <Box sx={{ p: { xs: 1, sm: 2 }, maxWidth: 720, mx: 'auto' }}>
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2 }}>
+        <PunchClock color="primary" fontSize="large" />
+        <Box>
+          <Typography variant="h5">Time Clock</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {employee.firstName} {employee.lastName} · {employee.classification}
+          </Typography>
+        </Box>
+      </Stack>
+
+      {!policy.selfPunchEnabled && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Self-service punches are turned off for your classification. Your supervisor signs you
+          in and out.
+        </Alert>
+      )}
+
+      <Card sx={{ mb: 2 }}>
+        <CardContent>
+          {clockedIn ? (
+            <Stack spacing={1} sx={{ mb: 2 }}>
+              <Stack direction="row" justifyContent="space-between" alignItems="center">
+                <Chip label="Clocked In" color="success" />
+                <Typography variant="h4" fontWeight={700}>
+                  {formatElapsed(openEntry?.startTime ?? status.signInTime, now)}
+                </Typography>
+              </Stack>
+              <Typography variant="body1">
+                {openEntry?.project
+                  ? `${openEntry.project.projectNumber} · ${openEntry.project.name}`
+                  : 'No open project entry'}
+                {openEntry?.costCode && ` · ${openEntry.costCode.code} ${openEntry.costCode.name}`}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Since {formatTime(openEntry?.startTime ?? status.signInTime)}
+              </Typography>
+              {activeBreak && (
+                <Alert severity="info" icon={activeBreak.breakType === 'MEAL' ? <Restaurant /> : <Coffee />}>
+                  On {activeBreak.breakType === 'MEAL' ? 'meal' : 'rest'} break since{' '}
+                  {formatTime(activeBreak.startTime)} ({formatElapsed(activeBreak.startTime, now)})
+                  {activeBreak.isPaid ? '' : ' · unpaid'}
+                </Alert>
+              )}
+            </Stack>
+          ) : (
+            <Chip label="Clocked Out" sx={{ mb: 2 }} />
+          )}
+
+          {policy.selfPunchEnabled && (
+            <Stack spacing={2}>
+              <Autocomplete
+                options={projects}
+                value={selectedProject}
+                onChange={(_e, value) => setSelectedProject(value)}
+                getOptionLabel={(option) => `${option.projectNumber} · ${option.name}`}
+                isOptionEqualToValue={(option, value) => option.id === value.id}
+                renderInput={(params) => (
+                  <TextField {...params} label={clockedIn ? 'Switch to project' : 'Project'} />
+                )}
+              />
+              <TextField
+                select
+                label="Cost Code"
+                value={selectedCostCodeId}
+                onChange={(e) => setSelectedCostCodeId(e.target.value)}
+                disabled={!selectedProject}
+                helperText={
+                  selectedProject && costCodes.length === 0
+                    ? 'No cost codes are enabled on this project; ask your project manager'
+                    : undefined
+                }
+                fullWidth
+              >
+                {costCodes.map((projectCostCode) => (
+                  <MenuItem key={projectCostCode.costCodeId} value={projectCostCode.costCodeId}>
+                    {projectCostCode.costCode.code} · {projectCostCode.costCode.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                fullWidth
+              />
+
+              {clockedIn && (
+                <Stack direction="row" spacing={2}>
+                  {activeBreak ? (
+                    <Button
+                      variant="contained"
+                      size="large"
+                      onClick={handleEndBreak}
+                      disabled={punching}
+                      sx={{ py: 1.5, flex: 1 }}
+                    >
+                      End Break
+                    </Button>
+                  ) : (
+                    <>
+                      <Button
+                        variant="outlined"
+                        startIcon={<Restaurant />}
+                        onClick={() => handleStartBreak('MEAL')}
+                        disabled={punching}
+                        sx={{ py: 1.5, flex: 1 }}
+                      >
+                        Meal Break
+                      </Button>
+                      <Button
+                        variant="outlined"
+                        startIcon={<Coffee />}
+                        onClick={() => handleStartBreak('REST')}
+                        disabled={punching}
+                        sx={{ py: 1.5, flex: 1 }}
+                      >
+                        Rest Break
+                      </Button>
+                    </>
+                  )}
+                </Stack>
+              )}
+
+              {clockedIn ? (
+                <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                  <Button
+                    variant="outlined"
+                    size="large"
+                    startIcon={<SwapHoriz />}
+                    onClick={handleSwitch}
+                    disabled={punching || !selectedProject || !selectedCostCodeId}
+                    sx={{ py: 2, flex: 1 }}
+                  >
+                    Switch Project
+                  </Button>
+                  <Button
+                    variant="contained"
+                    color="error"
+                    size="large"
+                    startIcon={<Logout />}
+                    onClick={handleClockOut}
+                    disabled={punching}
+                    sx={{ py: 2, flex: 1 }}
+                  >
+                    Clock Out
+                  </Button>
+                </Stack>
+              ) : (
+                <Button
+                  variant="contained"
+                  color="success"
+                  size="large"
+                  startIcon={<Login />}
+                  onClick={handleClockIn}
+                  disabled={punching || !selectedProject || !selectedCostCodeId}
+                  sx={{ py: 2 }}
+                >
+                  Clock In
+                </Button>
+              )}
+
+              {policy.requiresApproval && (
+                <Typography variant="caption" color="text.secondary">
+                  Hours you punch are sent to your supervisor for approval.
+                </Typography>
+              )}
+            </Stack>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Week of hours */}
+      <Paper sx={{ p: 2 }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+          <IconButton onClick={() => week && setWeekDate(shiftDateKey(week.weekStart, -7))} aria-label="Previous week">
+            <ChevronLeft />
+          </IconButton>
+          <Typography variant="subtitle1" fontWeight={600}>
+            {week
+              ? `${fromDateKey(week.weekStart).toLocaleDateString()} – ${fromDateKey(week.weekEnd).toLocaleDateString()}`
+              : 'My Week'}
+          </Typography>
+          <IconButton onClick={() => week && setWeekDate(shiftDateKey(week.weekStart, 7))} aria-label="Next week">
+            <ChevronRight />
+          </IconButton>
+        </Stack>
+
+        {week && (
+          <>
+            <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: 'wrap', gap: 1 }}>
+              <Chip label={`Total ${week.totalHours.toFixed(2)}h`} color="primary" />
+              <Chip label={`Approved ${week.approvedHours.toFixed(2)}h`} color="success" variant="outlined" />
+              <Chip label={`Pending ${week.pendingHours.toFixed(2)}h`} color="warning" variant="outlined" />
+            </Stack>
+
+            {weeklyTimesheet && (
+              <Stack
+                direction={{ xs: 'column', sm: 'row' }}
+                spacing={1}
+                alignItems={{ xs: 'stretch', sm: 'center' }}
+                sx={{ mb: 2 }}
+              >
+                <Chip
+                  label={`Timesheet ${weeklyTimesheet.status.toLowerCase()}`}
+                  color={TIMESHEET_STATUS_COLORS[weeklyTimesheet.status]}
+                  icon={weeklyTimesheet.isLocked ? <Lock /> : undefined}
+                />
+                {(weeklyTimesheet.status === 'DRAFT' || weeklyTimesheet.status === 'REJECTED') && (
+                  <Button
+                    variant="contained"
+                    size="small"
+                    startIcon={submittingWeek ? <CircularProgress size={16} color="inherit" /> : <Send />}
+                    onClick={handleSubmitWeek}
+                    disabled={submittingWeek || weeklyTimesheet.totalHours === 0}
+                  >
+                    Submit Week
+                  </Button>
+                )}
+              </Stack>
+            )}
+
+            {weeklyTimesheet?.status === 'REJECTED' && weeklyTimesheet.reviewComments && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Returned for correction: {weeklyTimesheet.reviewComments}
+              </Alert>
+            )}
+
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Day</TableCell>
+                    <TableCell>Project</TableCell>
+                    <TableCell>In</TableCell>
+                    <TableCell>Out</TableCell>
+                    <TableCell align="right">Hours</TableCell>
+                    <TableCell>Status</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {week.days.map((day) =>
+                    day.entries.length === 0 ? (
+                      <TableRow key={day.date}>
+                        <TableCell>{fromDateKey(day.date).toLocaleDateString([], { weekday: 'short', month: 'numeric', day: 'numeric' })}</TableCell>
+                        <TableCell colSpan={5}>
+                          <Typography variant="body2" color="text.secondary">—</Typography>
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      day.entries.map((entry, index) => (
+                        <TableRow key={entry.id}>
+                          <TableCell>
+                            {index === 0 &&
+                              fromDateKey(day.date).toLocaleDateString([], { weekday: 'short', month: 'numeric', day: 'numeric' })}
+                          </TableCell>
+                          <TableCell>
+                            {entry.project?.name || '—'}
+                            {entry.costCode && (
+                              <Typography variant="caption" color="text.secondary" display="block">
+                                {entry.costCode.code} · {entry.costCode.name}
+                              </Typography>
+                            )}
+                          </TableCell>
+                          <TableCell>{formatTime(entry.startTime)}</TableCell>
+                          <TableCell>{entry.isOpen ? 'Open' : formatTime(entry.endTime)}</TableCell>
+                          <TableCell align="right">{entry.hoursWorked.toFixed(2)}</TableCell>
+                          <TableCell>
+                            <Chip label={entry.status} color={STATUS_COLORS[entry.status]} size="small" />
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </Paper>
+    </Box>
+  );
+};
+
+export default TimeClock;
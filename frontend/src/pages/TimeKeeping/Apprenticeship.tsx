@@ -0,0 +1,550 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  Alert,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+  Tooltip,
+  LinearProgress,
+  Card,
+  CardContent,
+} from '@mui/material';
+import { Add, Edit, Delete, Refresh } from '@mui/icons-material';
+import apprenticeshipService from '../../services/apprenticeship.service';
+import { useNotification } from '../../hooks/useNotification';
+import { useAuthStore } from '../../store';
+import {
+  ApprenticeWorkCategory,
+  ApprenticeWorkCategoryFormData,
+  ApprenticeProgress,
+  ApprenticeRatioCheck,
+} from '../../types/timekeeping.types';
+
+// Roles allowed to configure work categories (matches backend programAdminRoles)
+const PROGRAM_ADMIN_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+interface CategoryFormState {
+  name: string;
+  description: string;
+  requiredHours: string;
+  sortOrder: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: CategoryFormState = {
+  name: '',
+  description: '',
+  requiredHours: '',
+  sortOrder: '0',
+  isActive: true,
+};
+
+const toDateInput = (date: Date): string => date.toISOString().split('T')[0]!;
+
+/**
+ * Monday of the current week
+ */
+const getWeekStart = (): Date => {
+  const date = new Date();
+  const day = date.getDay();
+  date.setDate(date.getDate() - (day === 0 ? 6 : day - 1));
+  return date;
+};
+
+const formatHours = (hours: number): string => `${Math.round(hours * 100) / 100}h`;
+
+const Apprenticeship: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const { user } = useAuthStore();
+  const canEdit = !!user && PROGRAM_ADMIN_ROLES.includes(user.role);
+
+  // Ratio check
+  const [startDate, setStartDate] = useState(toDateInput(getWeekStart()));
+  const [endDate, setEndDate] = useState(toDateInput(new Date()));
+  const [ratioChecks, setRatioChecks] = useState<ApprenticeRatioCheck[]>([]);
+  const [ratioLoading, setRatioLoading] = useState(false);
+
+  // OJT progress
+  const [progress, setProgress] = useState<ApprenticeProgress[]>([]);
+  const [progressLoading, setProgressLoading] = useState(false);
+
+  // Work categories
+  const [categories, setCategories] = useState<ApprenticeWorkCategory[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<ApprenticeWorkCategory | null>(null);
+  const [form, setForm] = useState<CategoryFormState>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [categoryToDelete, setCategoryToDelete] = useState<ApprenticeWorkCategory | null>(null);
+
+  const loadRatioChecks = useCallback(async () => {
+    setRatioLoading(true);
+    try {
+      setRatioChecks(await apprenticeshipService.getRatioCheck(startDate, endDate));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to check apprentice ratios');
+    } finally {
+      setRatioLoading(false);
+    }
+  }, [startDate, endDate, showError]);
+
+  const loadProgress = useCallback(async () => {
+    setProgressLoading(true);
+    try {
+      setProgress(await apprenticeshipService.getApprenticeProgress());
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load apprentice progress');
+    } finally {
+      setProgressLoading(false);
+    }
+  }, [showError]);
+
+  const loadCategories = useCallback(async () => {
+    try {
+      setCategories(await apprenticeshipService.getWorkCategories(true));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load work categories');
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadRatioChecks();
+  }, [loadRatioChecks]);
+
+  useEffect(() => {
+    loadProgress();
+    loadCategories();
+  }, [loadProgress, loadCategories]);
+
+  // Open create/edit dialog
+  const handleOpenDialog = (category?: ApprenticeWorkCategory) => {
+    if (category) {
+      setEditingCategory(category);
+      setForm({
+        name: category.name,
+        description: category.description || '',
+        requiredHours: category.requiredHours.toString(),
+        sortOrder: category.sortOrder.toString(),
+        isActive: category.isActive,
+      });
+    } else {
+      setEditingCategory(null);
+      setForm({ ...EMPTY_FORM, sortOrder: String(categories.length + 1) });
+    }
+    setDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setDialogOpen(false);
+    setEditingCategory(null);
+  };
+
+  const handleSave = async () => {
+    const requiredHours = parseFloat(form.requiredHours);
+    if (!form.name.trim() || isNaN(requiredHours) || requiredHours < 0) {
+      showError('Name and required hours are required');
+      return;
+    }
+
+    const data: ApprenticeWorkCategoryFormData = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      requiredHours,
+      sortOrder: parseInt(form.sortOrder, 10) || 0,
+      isActive: form.isActive,
+    };
+
+    setSaving(true);
+    try {
+      if (editingCategory) {
+        await apprenticeshipService.updateWorkCategory(editingCategory.id, data);
+        showSuccess('Work category updated successfully');
+      } else {
+        await apprenticeshipService.createWorkCategory(data);
+        showSuccess('Work category created successfully');
+      }
+      handleCloseDialog();
+      await Promise.all([loadCategories(), loadProgress()]);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save work category');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!categoryToDelete) return;
+
+    try {
+      await apprenticeshipService.deleteWorkCategory(categoryToDelete.id);
+      showSuccess('Work category deleted successfully');
+      await Promise.all([loadCategories(), loadProgress()]);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to delete work category');
+    } finally {
+      setCategoryToDelete(null);
+    }
+  };
+
+  const violations = ratioChecks.filter((check) => !check.compliant);
+
+  return (
+    <Box sx={{ p: { xs: 1, sm: 2 } }}>
+      {/* Ratio Check */}
+      <Stack
+        direction={{ xs: 'column', sm: 'row' }}
+        justifyContent="space-between"
+        alignItems={{ xs: 'flex-start', sm: 'center' }}
+        spacing={2}
+        sx={{ mb: 2 }}
+      >
+        <Box>
+          <Typography variant="h5">Apprentice Ratio Check</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Journeymen and apprentices signed in on each project per day.
+          </Typography>
+        </Box>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <TextField
+            label="From"
+            type="date"
+            size="small"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            label="To"
+            type="date"
+            size="small"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Tooltip title="Refresh">
+            <IconButton onClick={loadRatioChecks}>
+              <Refresh />
+            </IconButton>
+          </Tooltip>
+        </Stack>
+      </Stack>
+
+      {!ratioLoading && violations.length > 0 && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {violations.length} ratio violation{violations.length === 1 ? '' : 's'} in this period
+        </Alert>
+      )}
+
+      {ratioLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper} sx={{ mb: 4 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell>Project</TableCell>
+                <TableCell align="right">Journeymen</TableCell>
+                <TableCell align="right">Apprentices</TableCell>
+                <TableCell align="right">Allowed</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {ratioChecks.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} align="center">
+                    <Typography color="text.secondary" sx={{ py: 2 }}>
+                      No apprentices signed in on projects in this period
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                ratioChecks.map((check) => (
+                  <TableRow key={`${check.project.id}-${check.date}`} hover>
+                    <TableCell>{new Date(`${check.date}T00:00:00`).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      {check.project.projectNumber} - {check.project.name}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title={check.journeymen.map((p) => p.name).join(', ')}>
+                        <span>{check.journeymanCount}</span>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title={check.apprentices.map((p) => p.name).join(', ')}>
+                        <span>{check.apprenticeCount}</span>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title={`${check.ratio} apprentice(s) per journeyman`}>
+                        <span>{check.allowedApprentices}</span>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell>
+                      {check.compliant ? (
+                        <Chip label="OK" color="success" size="small" />
+                      ) : (
+                        <Tooltip title={check.message || ''}>
+                          <Chip label="Violation" color="error" size="small" />
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* OJT Progress */}
+      <Box sx={{ mb: 2 }}>
+        <Typography variant="h5">OJT Hours by Work Category</Typography>
+        <Typography variant="body2" color="text.secondary">
+          Approved hours count toward each category; pending hours are shown separately.
+        </Typography>
+      </Box>
+
+      {progressLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : progress.length === 0 ? (
+        <Alert severity="info" sx={{ mb: 4 }}>
+          No active apprentices. Employees are tracked when their classification includes "Apprentice".
+        </Alert>
+      ) : (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+            gap: 2,
+            mb: 4,
+          }}
+        >
+          {progress.map((apprentice) => (
+            <Card key={apprentice.employee.id} variant="outlined">
+              <CardContent>
+                <Stack direction="row" justifyContent="space-between" alignItems="baseline" sx={{ mb: 1 }}>
+                  <Box>
+                    <Typography variant="subtitle1" fontWeight="bold">
+                      {apprentice.employee.firstName} {apprentice.employee.lastName}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {apprentice.employee.classification}
+                    </Typography>
+                  </Box>
+                  <Typography variant="body2">
+                    {formatHours(apprentice.totalApprovedHours)} / {formatHours(apprentice.totalRequiredHours)}
+                  </Typography>
+                </Stack>
+                <LinearProgress
+                  variant="determinate"
+                  value={Math.min(100, apprentice.percentComplete)}
+                  sx={{ height: 8, borderRadius: 1, mb: 2 }}
+                />
+                {apprentice.categories.map((category) => (
+                  <Box key={category.categoryId} sx={{ mb: 1 }}>
+                    <Stack direction="row" justifyContent="space-between">
+                      <Typography variant="body2">{category.name}</Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {formatHours(category.approvedHours)} / {formatHours(category.requiredHours)}
+                        {category.pendingHours > 0 && ` (+${formatHours(category.pendingHours)} pending)`}
+                      </Typography>
+                    </Stack>
+                    <LinearProgress
+                      variant="determinate"
+                      value={category.percentComplete}
+                      color={category.percentComplete >= 100 ? 'success' : 'primary'}
+                    />
+                  </Box>
+                ))}
+                {apprentice.uncategorizedHours > 0 && (
+                  <Typography variant="caption" color="warning.main">
+                    {formatHours(apprentice.uncategorizedHours)} logged without a work category
+                  </Typography>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </Box>
+      )}
+
+      {/* Work Categories */}
+      <Stack
+        direction={{ xs: 'column', sm: 'row' }}
+        justifyContent="space-between"
+        alignItems={{ xs: 'flex-start', sm: 'center' }}
+        spacing={2}
+        sx={{ mb: 2 }}
+      >
+        <Box>
+          <Typography variant="h5">Work Categories</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Work processes and required OJT hours from the state apprenticeship program.
+          </Typography>
+        </Box>
+        {canEdit && (
+          <Button variant="contained" startIcon={<Add />} onClick={() => handleOpenDialog()}>
+            Add Category
+          </Button>
+        )}
+      </Stack>
+
+      <TableContainer component={Paper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Order</TableCell>
+              <TableCell>Name</TableCell>
+              <TableCell>Description</TableCell>
+              <TableCell align="right">Required Hours</TableCell>
+              <TableCell>Status</TableCell>
+              {canEdit && <TableCell align="right">Actions</TableCell>}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {categories.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={canEdit ? 6 : 5} align="center">
+                  <Typography color="text.secondary" sx={{ py: 2 }}>
+                    No work categories configured
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ) : (
+              categories.map((category) => (
+                <TableRow key={category.id} hover>
+                  <TableCell>{category.sortOrder}</TableCell>
+                  <TableCell>{category.name}</TableCell>
+                  <TableCell>{category.description || '—'}</TableCell>
+                  <TableCell align="right">{formatHours(category.requiredHours)}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={category.isActive ? 'Active' : 'Inactive'}
+                      color={category.isActive ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell align="right">
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => handleOpenDialog(category)}>
+                          <Edit fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" color="error" onClick={() => setCategoryToDelete(category)}>
+                          <Delete fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {/* Create/Edit Category Dialog */}
+      <Dialog open={dialogOpen} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingCategory ? 'Edit Work Category' : 'New Work Category'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField
+              label="Name"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              helperText="e.g. Residential Wiring, Motor Controls"
+              required
+              fullWidth
+            />
+            <TextField
+              label="Description"
+              value={form.description}
+              onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+              multiline
+              rows={2}
+              fullWidth
+            />
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <TextField
+                label="Required Hours"
+                type="number"
+                value={form.requiredHours}
+                onChange={(e) => setForm((prev) => ({ ...prev, requiredHours: e.target.value }))}
+                inputProps={{ min: 0, step: 1 }}
+                required
+                fullWidth
+              />
+              <TextField
+                label="Order"
+                type="number"
+                value={form.sortOrder}
+                onChange={(e) => setForm((prev) => ({ ...prev, sortOrder: e.target.value }))}
+                inputProps={{ min: 0, step: 1 }}
+                fullWidth
+              />
+            </Stack>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.isActive}
+                  onChange={(e) => setForm((prev) => ({ ...prev, isActive: e.target.checked }))}
+                />
+              }
+              label="Active"
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!categoryToDelete} onClose={() => setCategoryToDelete(null)}>
+        <DialogTitle>Delete Work Category</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Delete "{categoryToDelete?.name}"? Categories with logged hours can only be deactivated.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCategoryToDelete(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleConfirmDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Apprenticeship;
@@ -0,0 +1,496 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  Autocomplete,
+  Alert,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Tooltip,
+} from '@mui/material';
+import { Add, Edit, Delete, PictureAsPdf, Download, Warning } from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { endOfWeek, subWeeks, format, parseISO } from 'date-fns';
+import payrollService from '../../services/payroll.service';
+import { useProjectStore } from '../../store/project.store';
+import { useNotification } from '../../hooks/useNotification';
+import { useAuthStore } from '../../store';
+import { CertifiedPayrollReport, ProjectWageRate } from '../../types/timekeeping.types';
+
+// Roles allowed to change wage rates (matches backend policyAdminRoles)
+const WAGE_RATE_ADMIN_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+interface WageRateFormState {
+  classification: string;
+  wageDecision: string;
+  baseRate: string;
+  fringeRate: string;
+}
+
+const EMPTY_WAGE_RATE_FORM: WageRateFormState = {
+  classification: '',
+  wageDecision: '',
+  baseRate: '',
+  fringeRate: '',
+};
+
+const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+
+const CertifiedPayroll: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const { user } = useAuthStore();
+  const canEditRates = !!user && WAGE_RATE_ADMIN_ROLES.includes(user.role);
+
+  const { projects, fetchProjects } = useProjectStore();
+
+  const [selectedProject, setSelectedProject] = useState<any | null>(null);
+  // Default to the most recent completed week (Monday - Sunday)
+  const [weekEnding, setWeekEnding] = useState<Date>(
+    endOfWeek(subWeeks(new Date(), 1), { weekStartsOn: 1 })
+  );
+
+  const [report, setReport] = useState<CertifiedPayrollReport | null>(null);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  const [wageRates, setWageRates] = useState<ProjectWageRate[]>([]);
+  const [rateDialogOpen, setRateDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<ProjectWageRate | null>(null);
+  const [rateForm, setRateForm] = useState<WageRateFormState>(EMPTY_WAGE_RATE_FORM);
+  const [savingRate, setSavingRate] = useState(false);
+
+  const weekEndingStr = format(weekEnding, 'yyyy-MM-dd');
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  const loadWageRates = useCallback(async (projectId: string) => {
+    try {
+      const data = await payrollService.getProjectWageRates(projectId);
+      setWageRates(data);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to load wage rates');
+    }
+  }, [showError]);
+
+  // Reload wage rates and clear the preview when the project changes
+  useEffect(() => {
+    setReport(null);
+    if (selectedProject) {
+      loadWageRates(selectedProject.id);
+    } else {
+      setWageRates([]);
+    }
+  }, [selectedProject, loadWageRates]);
+
+  const handleGenerate = async () => {
+    if (!selectedProject) return;
+
+    setLoadingReport(true);
+    try {
+      const data = await payrollService.getCertifiedPayroll(selectedProject.id, weekEndingStr);
+      setReport(data);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to generate certified payroll');
+    } finally {
+      setLoadingReport(false);
+    }
+  };
+
+  const handleDownload = async (fileFormat: 'pdf' | 'csv') => {
+    if (!selectedProject) return;
+
+    setDownloading(true);
+    try {
+      await payrollService.downloadCertifiedPayroll(selectedProject.id, weekEndingStr, fileFormat);
+      showSuccess(`Certified payroll ${fileFormat.toUpperCase()} downloaded`);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to download certified payroll');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  // Open create/edit wage rate dialog
+  const handleOpenRateDialog = (rate?: ProjectWageRate) => {
+    if (rate) {
+      setEditingRate(rate);
+      setRateForm({
+        classification: rate.classification,
+        wageDecision: rate.wageDecision || '',
+        baseRate: rate.baseRate.toString(),
+        fringeRate: rate.fringeRate.toString(),
+      });
+    } else {
+      setEditingRate(null);
+      setRateForm(EMPTY_WAGE_RATE_FORM);
+    }
+    setRateDialogOpen(true);
+  };
+
+  const handleCloseRateDialog = () => {
+    setRateDialogOpen(false);
+    setEditingRate(null);
+  };
+
+  const handleSaveRate = async () => {
+    if (!selectedProject) return;
+
+    if (!rateForm.classification.trim() || rateForm.baseRate === '') {
+      showError('Classification and base rate are required');
+      return;
+    }
+
+    const data = {
+      classification: rateForm.classification.trim(),
+      wageDecision: rateForm.wageDecision.trim() || null,
+      baseRate: parseFloat(rateForm.baseRate),
+      fringeRate: rateForm.fringeRate === '' ? 0 : parseFloat(rateForm.fringeRate),
+    };
+
+    setSavingRate(true);
+    try {
+      if (editingRate) {
+        await payrollService.updateProjectWageRate(editingRate.id, data);
+        showSuccess('Wage rate updated successfully');
+      } else {
+        await payrollService.createProjectWageRate({ ...data, projectId: selectedProject.id });
+        showSuccess('Wage rate created successfully');
+      }
+      handleCloseRateDialog();
+      await loadWageRates(selectedProject.id);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to save wage rate');
+    } finally {
+      setSavingRate(false);
+    }
+  };
+
+  const handleDeleteRate = async (rate: ProjectWageRate) => {
+    if (!selectedProject) return;
+    if (!window.confirm(`Delete the wage rate for ${rate.classification}?`)) return;
+
+    try {
+      await payrollService.deleteProjectWageRate(rate.id);
+      showSuccess('Wage rate deleted successfully');
+      await loadWageRates(selectedProject.id);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to delete wage rate');
+    }
+  };
+
+  const belowPrevailingCount = report?.employees.filter((e) => e.belowPrevailingWage).length || 0;
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box sx={{ p: { xs: 1, sm: 2 } }}>
+        <Typography variant="h5" sx={{ mb: 0.5 }}>
+          Certified Payroll
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Weekly prevailing wage payroll in the WH-347 format, per project.
+        </Typography>
+
+        {/* Selection */}
+        <Paper sx={{ p: 2, mb: 2 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+            <Autocomplete
+              options={projects || []}
+              value={selectedProject}
+              onChange={(_, newValue) => setSelectedProject(newValue)}
+              getOptionLabel={(option: any) => `${option.name} (${option.projectNumber})`}
+              isOptionEqualToValue={(option: any, value: any) => option.id === value.id}
+              renderInput={(params) => <TextField {...params} label="Project" size="small" />}
+              sx={{ minWidth: 300, flex: 1 }}
+            />
+            <DatePicker
+              label="Week Ending"
+              value={weekEnding}
+              onChange={(newValue) => newValue && setWeekEnding(newValue)}
+              slotProps={{ textField: { size: 'small' } }}
+            />
+            <Button
+              variant="contained"
+              onClick={handleGenerate}
+              disabled={!selectedProject || loadingReport}
+            >
+              {loadingReport ? <CircularProgress size={20} /> : 'Generate'}
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<PictureAsPdf />}
+              onClick={() => handleDownload('pdf')}
+              disabled={!selectedProject || downloading}
+            >
+              PDF
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Download />}
+              onClick={() => handleDownload('csv')}
+              disabled={!selectedProject || downloading}
+            >
+              CSV
+            </Button>
+          </Stack>
+        </Paper>
+
+        {!selectedProject && (
+          <Alert severity="info">Select a project to manage its wage rates and generate payroll.</Alert>
+        )}
+
+        {/* Wage Determination Rates */}
+        {selectedProject && (
+          <Paper sx={{ p: 2, mb: 2 }}>
+            <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+              <Typography variant="h6">Wage Determination Rates</Typography>
+              {canEditRates && (
+                <Button size="small" startIcon={<Add />} onClick={() => handleOpenRateDialog()}>
+                  Add Rate
+                </Button>
+              )}
+            </Stack>
+            {wageRates.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No wage rates set. Employees are reported at their own hourly rate.
+              </Typography>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Classification</TableCell>
+                      <TableCell>Wage Decision</TableCell>
+                      <TableCell align="right">Base Rate</TableCell>
+                      <TableCell align="right">Fringe Rate</TableCell>
+                      {canEditRates && <TableCell align="right">Actions</TableCell>}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {wageRates.map((rate) => (
+                      <TableRow key={rate.id} hover>
+                        <TableCell>{rate.classification}</TableCell>
+                        <TableCell>{rate.wageDecision || '—'}</TableCell>
+                        <TableCell align="right">{formatCurrency(rate.baseRate)}</TableCell>
+                        <TableCell align="right">{formatCurrency(rate.fringeRate)}</TableCell>
+                        {canEditRates && (
+                          <TableCell align="right">
+                            <Tooltip title="Edit">
+                              <IconButton size="small" onClick={() => handleOpenRateDialog(rate)}>
+                                <Edit fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Delete">
+                              <IconButton
+                                size="small"
+                                color="error"
+                                onClick={() => handleDeleteRate(rate)}
+                              >
+                                <Delete fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        )}
+
+        {/* Report Preview */}
+        {report && (
+          <Paper sx={{ p: 2 }}>
+            <Typography variant="h6">
+              {report.project.name} ({report.project.projectNumber})
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Week ending {format(parseISO(report.days[6] || weekEndingStr), 'MMMM d, yyyy')}
+            </Typography>
+
+            {belowPrevailingCount > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {belowPrevailingCount} employee(s) have a pay rate below the wage determination
+                rate. The report uses the prevailing rate for them.
+              </Alert>
+            )}
+
+            {report.employees.length === 0 ? (
+              <Typography color="text.secondary">
+                No work performed on this project during the payroll week.
+              </Typography>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Employee</TableCell>
+                      <TableCell />
+                      {report.days.map((day) => (
+                        <TableCell key={day} align="center">
+                          {format(parseISO(day), 'EEE M/d')}
+                        </TableCell>
+                      ))}
+                      <TableCell align="right">Total</TableCell>
+                      <TableCell align="right">Rate</TableCell>
+                      <TableCell align="right">Gross (Project / All)</TableCell>
+                      <TableCell align="right">Fringe</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {report.employees.map((employee) => (
+                      <React.Fragment key={employee.employeeId}>
+                        <TableRow>
+                          <TableCell rowSpan={2}>
+                            <Stack direction="row" spacing={0.5} alignItems="center">
+                              <Typography variant="body2" fontWeight={600}>
+                                {employee.name}
+                              </Typography>
+                              {employee.belowPrevailingWage && (
+                                <Tooltip title="Pay rate below wage determination">
+                                  <Warning color="warning" fontSize="small" />
+                                </Tooltip>
+                              )}
+                            </Stack>
+                            <Typography variant="caption" color="text.secondary">
+                              {employee.classification}
+                            </Typography>
+                          </TableCell>
+                          <TableCell>
+                            <Chip label="S" size="small" />
+                          </TableCell>
+                          {employee.straightTimeHours.map((hours, i) => (
+                            <TableCell key={i} align="center">
+                              {hours || ''}
+                            </TableCell>
+                          ))}
+                          <TableCell align="right">{employee.totalStraightTimeHours}</TableCell>
+                          <TableCell align="right">{formatCurrency(employee.rate)}</TableCell>
+                          <TableCell align="right" rowSpan={2}>
+                            {formatCurrency(employee.grossThisProject)}
+                            <br />
+                            <Typography variant="caption" color="text.secondary">
+                              {formatCurrency(employee.grossAllWork)}
+                            </Typography>
+                          </TableCell>
+                          <TableCell align="right" rowSpan={2}>
+                            {formatCurrency(employee.fringeBenefits)}
+                          </TableCell>
+                        </TableRow>
+                        <TableRow>
+                          <TableCell>
+                            <Chip label="O" size="small" color="warning" />
+                          </TableCell>
+                          {employee.overtimeHours.map((hours, i) => (
+                            <TableCell key={i} align="center">
+                              {hours || ''}
+                            </TableCell>
+                          ))}
+                          <TableCell align="right">{employee.totalOvertimeHours}</TableCell>
+                          <TableCell align="right">{formatCurrency(employee.overtimeRate)}</TableCell>
+                        </TableRow>
+                      </React.Fragment>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={9}>
+                        <Typography variant="body2" fontWeight={600}>
+                          Totals
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Typography variant="body2" fontWeight={600}>
+                          {report.totals.straightTimeHours + report.totals.overtimeHours}
+                        </Typography>
+                      </TableCell>
+                      <TableCell />
+                      <TableCell align="right">
+                        <Typography variant="body2" fontWeight={600}>
+                          {formatCurrency(report.totals.grossThisProject)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Typography variant="body2" fontWeight={600}>
+                          {formatCurrency(report.totals.fringeBenefits)}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        )}
+
+        {/* Create/Edit Wage Rate Dialog */}
+        <Dialog open={rateDialogOpen} onClose={handleCloseRateDialog} maxWidth="xs" fullWidth>
+          <DialogTitle>{editingRate ? 'Edit Wage Rate' : 'New Wage Rate'}</DialogTitle>
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                label="Classification"
+                value={rateForm.classification}
+                onChange={(e) => setRateForm({ ...rateForm, classification: e.target.value })}
+                helperText="Must match the employee classification"
+                required
+                fullWidth
+              />
+              <TextField
+                label="Wage Decision Number"
+                value={rateForm.wageDecision}
+                onChange={(e) => setRateForm({ ...rateForm, wageDecision: e.target.value })}
+                fullWidth
+              />
+              <TextField
+                label="Base Hourly Rate"
+                type="number"
+                value={rateForm.baseRate}
+                onChange={(e) => setRateForm({ ...rateForm, baseRate: e.target.value })}
+                inputProps={{ min: 0, step: 0.01 }}
+                required
+                fullWidth
+              />
+              <TextField
+                label="Fringe Hourly Rate"
+                type="number"
+                value={rateForm.fringeRate}
+                onChange={(e) => setRateForm({ ...rateForm, fringeRate: e.target.value })}
+                inputProps={{ min: 0, step: 0.01 }}
+                fullWidth
+              />
+            </Stack>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={handleCloseRateDialog} disabled={savingRate}>
+              Cancel
+            </Button>
+            <Button variant="contained" onClick={handleSaveRate} disabled={savingRate}>
+              {savingRate ? <CircularProgress size={20} /> : 'Save'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    </LocalizationProvider>
+  );
+};
+
+export default CertifiedPayroll;
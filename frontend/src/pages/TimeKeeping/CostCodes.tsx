@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+  Tooltip,
+} from '@mui/material';
+import { Add, Edit, Delete, Warning } from '@mui/icons-material';
+import costCodeService from '../../services/cost-code.service';
+import { useNotification } from '../../hooks/useNotification';
+import { useAuthStore } from '../../store';
+import { CostCode, CostCodeFormData } from '../../types/timekeeping.types';
+
+// Roles allowed to maintain the cost code catalog (matches backend catalogAdminRoles)
+const CATALOG_ADMIN_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+interface CostCodeFormState {
+  code: string;
+  name: string;
+  description: string;
+  sortOrder: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: CostCodeFormState = {
+  code: '',
+  name: '',
+  description: '',
+  sortOrder: '0',
+  isActive: true,
+};
+
+const CostCodes: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const { user } = useAuthStore();
+  const canEdit = !!user && CATALOG_ADMIN_ROLES.includes(user.role);
+
+  const [costCodes, setCostCodes] = useState<CostCode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCostCode, setEditingCostCode] = useState<CostCode | null>(null);
+  const [form, setForm] = useState<CostCodeFormState>(EMPTY_FORM);
+
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [costCodeToDelete, setCostCodeToDelete] = useState<CostCode | null>(null);
+
+  const loadCostCodes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await costCodeService.getCostCodes(true);
+      setCostCodes(data);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load cost codes');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadCostCodes();
+  }, [loadCostCodes]);
+
+  // Open create/edit dialog
+  const handleOpenDialog = (costCode?: CostCode) => {
+    if (costCode) {
+      setEditingCostCode(costCode);
+      setForm({
+        code: costCode.code,
+        name: costCode.name,
+        description: costCode.description || '',
+        sortOrder: costCode.sortOrder.toString(),
+        isActive: costCode.isActive,
+      });
+    } else {
+      setEditingCostCode(null);
+      setForm(EMPTY_FORM);
+    }
+    setDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setDialogOpen(false);
+    setEditingCostCode(null);
+  };
+
+  const handleFieldChange = (field: keyof CostCodeFormState, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!form.code.trim() || !form.name.trim()) {
+      showError('Code and name are required');
+      return;
+    }
+
+    const data: CostCodeFormData = {
+      code: form.code.trim(),
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      sortOrder: parseInt(form.sortOrder, 10) || 0,
+      isActive: form.isActive,
+    };
+
+    setSaving(true);
+    try {
+      if (editingCostCode) {
+        await costCodeService.updateCostCode(editingCostCode.id, data);
+        showSuccess('Cost code updated successfully');
+      } else {
+        await costCodeService.createCostCode(data);
+        showSuccess('Cost code created successfully');
+      }
+      handleCloseDialog();
+      await loadCostCodes();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save cost code');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Open delete confirmation dialog
+  const handleOpenDeleteDialog = (costCode: CostCode) => {
+    setCostCodeToDelete(costCode);
+    setDeleteDialogOpen(true);
+  };
+
+  // Close delete confirmation dialog
+  const handleCloseDeleteDialog = () => {
+    setDeleteDialogOpen(false);
+    setCostCodeToDelete(null);
+  };
+
+  // Confirm delete
+  const handleConfirmDelete = async () => {
+    if (!costCodeToDelete) return;
+
+    try {
+      await costCodeService.deleteCostCode(costCodeToDelete.id);
+      showSuccess('Cost code deleted successfully');
+      await loadCostCodes();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to delete cost code');
+    } finally {
+      handleCloseDeleteDialog();
+    }
+  };
+
+  return (
+    <Box sx={{ p: { xs: 1, sm: 2 } }}>
+      <Stack
+        direction={{ xs: 'column', sm: 'row' }}
+        justifyContent="space-between"
+        alignItems={{ xs: 'flex-start', sm: 'center' }}
+        spacing={2}
+        sx={{ mb: 2 }}
+      >
+        <Box>
+          <Typography variant="h5">Cost Codes</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Job cost phases charged by time entries and expenses. Enable codes and set budgets on each
+            project's Financial tab.
+          </Typography>
+        </Box>
+        {canEdit && (
+          <Button variant="contained" startIcon={<Add />} onClick={() => handleOpenDialog()}>
+            Add Cost Code
+          </Button>
+        )}
+      </Stack>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Code</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell align="right">Order</TableCell>
+                <TableCell>Status</TableCell>
+                {canEdit && <TableCell align="right">Actions</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {costCodes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 6 : 5} align="center">
+                    <Typography color="text.secondary" sx={{ py: 2 }}>
+                      No cost codes configured
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                costCodes.map((costCode) => (
+                  <TableRow key={costCode.id} hover>
+                    <TableCell>{costCode.code}</TableCell>
+                    <TableCell>{costCode.name}</TableCell>
+                    <TableCell>{costCode.description || '—'}</TableCell>
+                    <TableCell align="right">{costCode.sortOrder}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={costCode.isActive ? 'Active' : 'Inactive'}
+                        color={costCode.isActive ? 'success' : 'default'}
+                        size="small"
+                      />
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell align="right">
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => handleOpenDialog(costCode)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => handleOpenDeleteDialog(costCode)}
+                          >
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Create/Edit Cost Code Dialog */}
+      <Dialog open={dialogOpen} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingCostCode ? 'Edit Cost Code' : 'New Cost Code'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <TextField
+                label="Code"
+                value={form.code}
+                onChange={(e) => handleFieldChange('code', e.target.value)}
+                helperText="e.g. 100 or ROUGH"
+                required
+                fullWidth
+              />
+              <TextField
+                label="Name"
+                value={form.name}
+                onChange={(e) => handleFieldChange('name', e.target.value)}
+                helperText="e.g. Rough-In"
+                required
+                fullWidth
+              />
+            </Stack>
+
+            <TextField
+              label="Description"
+              value={form.description}
+              onChange={(e) => handleFieldChange('description', e.target.value)}
+              multiline
+              rows={2}
+              fullWidth
+            />
+
+            <TextField
+              label="Sort Order"
+              type="number"
+              value={form.sortOrder}
+              onChange={(e) => handleFieldChange('sortOrder', e.target.value)}
+              inputProps={{ step: 1 }}
+              fullWidth
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.isActive}
+                  onChange={(e) => handleFieldChange('isActive', e.target.checked)}
+                />
+              }
+              label="Active (inactive codes cannot be charged)"
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onClose={handleCloseDeleteDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Warning color="error" />
+            <Typography variant="h6">Delete Cost Code?</Typography>
+          </Stack>
+        </DialogTitle>
+        <DialogContent>
+          <Typography>
+            Are you sure you want to delete <strong>{costCodeToDelete?.code} {costCodeToDelete?.name}</strong>?
+            Codes that have been charged cannot be deleted; deactivate them instead.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDeleteDialog}>Cancel</Button>
+          <Button variant="contained" color="error" onClick={handleConfirmDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default CostCodes;
@@ -0,0 +1,446 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  Alert,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+  Tooltip,
+} from '@mui/material';
+import { Add, Edit, Delete, Warning } from '@mui/icons-material';
+import payrollService from '../../services/payroll.service';
+import { useNotification } from '../../hooks/useNotification';
+import { useAuthStore } from '../../store';
+import { OvertimePolicy, OvertimePolicyFormData } from '../../types/timekeeping.types';
+
+// Roles allowed to change overtime rules (matches backend policyAdminRoles)
+const POLICY_ADMIN_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+interface PolicyFormState {
+  name: string;
+  classification: string;
+  isDefault: boolean;
+  dailyOvertimeAfter: string;
+  dailyDoubleTimeAfter: string;
+  weeklyOvertimeAfter: string;
+  seventhDayRule: boolean;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: PolicyFormState = {
+  name: '',
+  classification: '',
+  isDefault: false,
+  dailyOvertimeAfter: '',
+  dailyDoubleTimeAfter: '',
+  weeklyOvertimeAfter: '40',
+  seventhDayRule: false,
+  isActive: true,
+};
+
+// Common rule sets used to quick-fill the form
+const PRESETS: Array<{ label: string; values: Partial<PolicyFormState> }> = [
+  {
+    label: 'FLSA (40h weekly)',
+    values: { dailyOvertimeAfter: '', dailyDoubleTimeAfter: '', weeklyOvertimeAfter: '40', seventhDayRule: false },
+  },
+  {
+    label: 'Daily 8h + Weekly 40h',
+    values: { dailyOvertimeAfter: '8', dailyDoubleTimeAfter: '', weeklyOvertimeAfter: '40', seventhDayRule: false },
+  },
+  {
+    label: 'California',
+    values: { dailyOvertimeAfter: '8', dailyDoubleTimeAfter: '12', weeklyOvertimeAfter: '40', seventhDayRule: true },
+  },
+];
+
+const formatThreshold = (value: number | null, unit: string): string =>
+  value === null ? '—' : `${value}h ${unit}`;
+
+const parseThresholdInput = (value: string): number | null =>
+  value.trim() === '' ? null : parseFloat(value);
+
+const OvertimePolicies: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const { user } = useAuthStore();
+  const canEdit = !!user && POLICY_ADMIN_ROLES.includes(user.role);
+
+  const [policies, setPolicies] = useState<OvertimePolicy[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<OvertimePolicy | null>(null);
+  const [form, setForm] = useState<PolicyFormState>(EMPTY_FORM);
+
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [policyToDelete, setPolicyToDelete] = useState<OvertimePolicy | null>(null);
+
+  const loadPolicies = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await payrollService.getOvertimePolicies();
+      setPolicies(data);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to load overtime policies');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadPolicies();
+  }, [loadPolicies]);
+
+  // Open create/edit dialog
+  const handleOpenDialog = (policy?: OvertimePolicy) => {
+    if (policy) {
+      setEditingPolicy(policy);
+      setForm({
+        name: policy.name,
+        classification: policy.classification || '',
+        isDefault: policy.isDefault,
+        dailyOvertimeAfter: policy.dailyOvertimeAfter?.toString() ?? '',
+        dailyDoubleTimeAfter: policy.dailyDoubleTimeAfter?.toString() ?? '',
+        weeklyOvertimeAfter: policy.weeklyOvertimeAfter?.toString() ?? '',
+        seventhDayRule: policy.seventhDayRule,
+        isActive: policy.isActive,
+      });
+    } else {
+      setEditingPolicy(null);
+      setForm(EMPTY_FORM);
+    }
+    setDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setDialogOpen(false);
+    setEditingPolicy(null);
+  };
+
+  const handleFieldChange = (field: keyof PolicyFormState, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      showError('Policy name is required');
+      return;
+    }
+
+    const data: OvertimePolicyFormData = {
+      name: form.name.trim(),
+      classification: form.isDefault ? null : form.classification.trim() || null,
+      isDefault: form.isDefault,
+      dailyOvertimeAfter: parseThresholdInput(form.dailyOvertimeAfter),
+      dailyDoubleTimeAfter: parseThresholdInput(form.dailyDoubleTimeAfter),
+      weeklyOvertimeAfter: parseThresholdInput(form.weeklyOvertimeAfter),
+      seventhDayRule: form.seventhDayRule,
+      isActive: form.isActive,
+    };
+
+    setSaving(true);
+    try {
+      if (editingPolicy) {
+        await payrollService.updateOvertimePolicy(editingPolicy.id, data);
+        showSuccess('Overtime policy updated successfully');
+      } else {
+        await payrollService.createOvertimePolicy(data);
+        showSuccess('Overtime policy created successfully');
+      }
+      handleCloseDialog();
+      await loadPolicies();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to save overtime policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Open delete confirmation dialog
+  const handleOpenDeleteDialog = (policy: OvertimePolicy) => {
+    setPolicyToDelete(policy);
+    setDeleteDialogOpen(true);
+  };
+
+  // Close delete confirmation dialog
+  const handleCloseDeleteDialog = () => {
+    setDeleteDialogOpen(false);
+    setPolicyToDelete(null);
+  };
+
+  // Confirm delete
+  const handleConfirmDelete = async () => {
+    if (!policyToDelete) return;
+
+    try {
+      await payrollService.deleteOvertimePolicy(policyToDelete.id);
+      showSuccess('Overtime policy deleted successfully');
+      await loadPolicies();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to delete overtime policy');
+    } finally {
+      handleCloseDeleteDialog();
+    }
+  };
+
+  const hasDefault = policies.some((p) => p.isDefault && p.isActive);
+
+  return (
+    <Box sx={{ p: { xs: 1, sm: 2 } }}>
+      <Stack
+        direction={{ xs: 'column', sm: 'row' }}
+        justifyContent="space-between"
+        alignItems={{ xs: 'flex-start', sm: 'center' }}
+        spacing={2}
+        sx={{ mb: 2 }}
+      >
+        <Box>
+          <Typography variant="h5">Overtime Rules</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Rules are matched by employee classification, then the company default.
+          </Typography>
+        </Box>
+        {canEdit && (
+          <Button variant="contained" startIcon={<Add />} onClick={() => handleOpenDialog()}>
+            Add Policy
+          </Button>
+        )}
+      </Stack>
+
+      {!loading && !hasDefault && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          No company default policy is set. Employees without a classification policy use the
+          standard rule of overtime after 8 hours per day or 40 hours per week.
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Applies To</TableCell>
+                <TableCell>Daily OT</TableCell>
+                <TableCell>Daily DT</TableCell>
+                <TableCell>Weekly OT</TableCell>
+                <TableCell>7th Day</TableCell>
+                <TableCell>Status</TableCell>
+                {canEdit && <TableCell align="right">Actions</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {policies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 8 : 7} align="center">
+                    <Typography color="text.secondary" sx={{ py: 2 }}>
+                      No overtime policies configured
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                policies.map((policy) => (
+                  <TableRow key={policy.id} hover>
+                    <TableCell>{policy.name}</TableCell>
+                    <TableCell>
+                      {policy.isDefault ? (
+                        <Chip label="Company Default" color="primary" size="small" />
+                      ) : (
+                        policy.classification || '—'
+                      )}
+                    </TableCell>
+                    <TableCell>{formatThreshold(policy.dailyOvertimeAfter, 'per day')}</TableCell>
+                    <TableCell>{formatThreshold(policy.dailyDoubleTimeAfter, 'per day')}</TableCell>
+                    <TableCell>{formatThreshold(policy.weeklyOvertimeAfter, 'per week')}</TableCell>
+                    <TableCell>{policy.seventhDayRule ? 'Yes' : 'No'}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={policy.isActive ? 'Active' : 'Inactive'}
+                        color={policy.isActive ? 'success' : 'default'}
+                        size="small"
+                      />
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell align="right">
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => handleOpenDialog(policy)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => handleOpenDeleteDialog(policy)}
+                          >
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Create/Edit Policy Dialog */}
+      <Dialog open={dialogOpen} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingPolicy ? 'Edit Overtime Policy' : 'New Overtime Policy'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Quick fill
+              </Typography>
+              <Stack direction="row" spacing={1} sx={{ mt: 0.5, flexWrap: 'wrap', gap: 1 }}>
+                {PRESETS.map((preset) => (
+                  <Chip
+                    key={preset.label}
+                    label={preset.label}
+                    variant="outlined"
+                    onClick={() => setForm((prev) => ({ ...prev, ...preset.values }))}
+                  />
+                ))}
+              </Stack>
+            </Box>
+
+            <TextField
+              label="Policy Name"
+              value={form.name}
+              onChange={(e) => handleFieldChange('name', e.target.value)}
+              required
+              fullWidth
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.isDefault}
+                  onChange={(e) => handleFieldChange('isDefault', e.target.checked)}
+                />
+              }
+              label="Company default (applies to all classifications without their own policy)"
+            />
+
+            {!form.isDefault && (
+              <TextField
+                label="Employee Classification"
+                value={form.classification}
+                onChange={(e) => handleFieldChange('classification', e.target.value)}
+                helperText="e.g. Journeyman Electrician"
+                fullWidth
+              />
+            )}
+
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <TextField
+                label="Daily OT after (hrs)"
+                type="number"
+                value={form.dailyOvertimeAfter}
+                onChange={(e) => handleFieldChange('dailyOvertimeAfter', e.target.value)}
+                inputProps={{ min: 0, max: 24, step: 0.5 }}
+                helperText="Blank = none"
+                fullWidth
+              />
+              <TextField
+                label="Daily DT after (hrs)"
+                type="number"
+                value={form.dailyDoubleTimeAfter}
+                onChange={(e) => handleFieldChange('dailyDoubleTimeAfter', e.target.value)}
+                inputProps={{ min: 0, max: 24, step: 0.5 }}
+                helperText="Blank = none"
+                fullWidth
+              />
+              <TextField
+                label="Weekly OT after (hrs)"
+                type="number"
+                value={form.weeklyOvertimeAfter}
+                onChange={(e) => handleFieldChange('weeklyOvertimeAfter', e.target.value)}
+                inputProps={{ min: 0, max: 168, step: 0.5 }}
+                helperText="Blank = none"
+                fullWidth
+              />
+            </Stack>
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.seventhDayRule}
+                  onChange={(e) => handleFieldChange('seventhDayRule', e.target.checked)}
+                />
+              }
+              label="Seventh consecutive workday: first 8h overtime, remainder double time"
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.isActive}
+                  onChange={(e) => handleFieldChange('isActive', e.target.checked)}
+                />
+              }
+              label="Active"
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onClose={handleCloseDeleteDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Warning color="error" />
+            <Typography variant="h6">Delete Overtime Policy?</Typography>
+          </Stack>
+        </DialogTitle>
+        <DialogContent>
+          <Typography>
+            Are you sure you want to delete <strong>{policyToDelete?.name}</strong>? Affected
+            employees will fall back to the company default rules.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDeleteDialog}>Cancel</Button>
+          <Button variant="contained" color="error" onClick={handleConfirmDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default OvertimePolicies;
@@ -0,0 +1,489 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  Alert,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Tooltip,
+  MenuItem,
+} from '@mui/material';
+import { Add, Lock, LockOpen, CompareArrows, Delete } from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { format, parseISO } from 'date-fns';
+import payrollService from '../../services/payroll.service';
+import { useNotification } from '../../hooks/useNotification';
+import { useAuthStore } from '../../store';
+import {
+  PayrollPeriod,
+  PayrollPeriodStatus,
+  PayrollPeriodType,
+  PayrollPeriodComparison,
+} from '../../types/timekeeping.types';
+
+// Roles allowed to create, close and reopen periods (matches backend policyAdminRoles)
+const PERIOD_ADMIN_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+// Dates come back as UTC midnight; read them as calendar dates
+const formatDate = (value: string, pattern = 'MMM d, yyyy') => format(parseISO(value.split('T')[0]!), pattern);
+
+const formatUser = (user: { firstName: string; lastName: string } | null) =>
+  user ? `${user.firstName} ${user.lastName}` : '';
+
+const formatDifference = (value: number) => (value > 0 ? `+${value.toFixed(2)}` : value.toFixed(2));
+
+const PayrollPeriods: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const { user } = useAuthStore();
+  const canManage = !!user && PERIOD_ADMIN_ROLES.includes(user.role);
+
+  const [statusFilter, setStatusFilter] = useState<PayrollPeriodStatus | ''>('');
+  const [periods, setPeriods] = useState<PayrollPeriod[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [periodType, setPeriodType] = useState<PayrollPeriodType>('WEEKLY');
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [notes, setNotes] = useState('');
+
+  const [closeTarget, setCloseTarget] = useState<PayrollPeriod | null>(null);
+  const [reopenTarget, setReopenTarget] = useState<PayrollPeriod | null>(null);
+  const [reopenReason, setReopenReason] = useState('');
+
+  const [comparison, setComparison] = useState<PayrollPeriodComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  const loadPeriods = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await payrollService.getPayrollPeriods(statusFilter || undefined);
+      setPeriods(data);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to load payroll periods');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, showError]);
+
+  useEffect(() => {
+    loadPeriods();
+  }, [loadPeriods]);
+
+  const handleOpenCreate = () => {
+    setPeriodType('WEEKLY');
+    setStartDate(null);
+    setNotes('');
+    setCreateOpen(true);
+  };
+
+  const handleCreate = async () => {
+    if (!startDate && periods.length === 0) {
+      showError('Start date is required for the first payroll period');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await payrollService.createPayrollPeriod({
+        periodType,
+        startDate: startDate ? format(startDate, 'yyyy-MM-dd') : undefined,
+        notes: notes.trim() || undefined,
+      });
+      showSuccess('Payroll period created');
+      setCreateOpen(false);
+      await loadPeriods();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to create payroll period');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (period: PayrollPeriod) => {
+    if (!window.confirm(`Delete the payroll period starting ${formatDate(period.startDate)}?`)) return;
+
+    try {
+      await payrollService.deletePayrollPeriod(period.id);
+      showSuccess('Payroll period deleted');
+      await loadPeriods();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to delete payroll period');
+    }
+  };
+
+  const handleConfirmClose = async () => {
+    if (!closeTarget) return;
+
+    setSaving(true);
+    try {
+      await payrollService.closePayrollPeriod(closeTarget.id);
+      showSuccess('Payroll period closed; its time is now locked');
+      setCloseTarget(null);
+      await loadPeriods();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to close payroll period');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenReopen = (period: PayrollPeriod) => {
+    setReopenTarget(period);
+    setReopenReason('');
+  };
+
+  const handleConfirmReopen = async () => {
+    if (!reopenTarget) return;
+
+    if (!reopenReason.trim()) {
+      showError('A reason is required to reopen a payroll period');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await payrollService.reopenPayrollPeriod(reopenTarget.id, reopenReason.trim());
+      showSuccess('Payroll period reopened for corrections');
+      setReopenTarget(null);
+      await loadPeriods();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to reopen payroll period');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCompare = async (period: PayrollPeriod) => {
+    setComparing(true);
+    try {
+      const data = await payrollService.comparePayrollPeriod(period.id);
+      setComparison(data);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to compare payroll period');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box sx={{ p: { xs: 1, sm: 2 } }}>
+        <Typography variant="h5" sx={{ mb: 0.5 }}>
+          Payroll Periods
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Closing a period snapshots its exported payroll totals and locks every time entry, sign-in and
+          timesheet in its range. Corrections require reopening the period with a reason.
+        </Typography>
+
+        <Stack
+          direction={{ xs: 'column', sm: 'row' }}
+          spacing={2}
+          alignItems={{ xs: 'stretch', sm: 'center' }}
+          sx={{ mb: 2 }}
+        >
+          <TextField
+            select
+            size="small"
+            label="Status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as PayrollPeriodStatus | '')}
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            <MenuItem value="OPEN">Open</MenuItem>
+            <MenuItem value="CLOSED">Closed</MenuItem>
+          </TextField>
+          {canManage && (
+            <Button variant="contained" startIcon={<Add />} onClick={handleOpenCreate}>
+              New Period
+            </Button>
+          )}
+        </Stack>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Period</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Snapshot Hours</TableCell>
+                  <TableCell>Closed</TableCell>
+                  <TableCell>Last Reopen</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {periods.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} align="center">
+                      <Typography color="text.secondary" sx={{ py: 2 }}>
+                        No payroll periods yet
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  periods.map((period) => {
+                    const snapshot = period.snapshots?.[0];
+
+                    return (
+                      <TableRow key={period.id} hover>
+                        <TableCell>
+                          {formatDate(period.startDate, 'MMM d')} – {formatDate(period.endDate)}
+                        </TableCell>
+                        <TableCell>{period.periodType === 'BIWEEKLY' ? 'Biweekly' : 'Weekly'}</TableCell>
+                        <TableCell>
+                          <Chip
+                            label={period.status}
+                            color={period.isClosed ? 'success' : 'default'}
+                            size="small"
+                            icon={period.isClosed ? <Lock fontSize="small" /> : undefined}
+                          />
+                        </TableCell>
+                        <TableCell align="right">{snapshot ? snapshot.totalHours.toFixed(2) : '—'}</TableCell>
+                        <TableCell>
+                          {period.closedAt
+                            ? `${formatUser(period.closedBy)} · ${format(new Date(period.closedAt), 'MMM d, h:mm a')}`
+                            : '—'}
+                        </TableCell>
+                        <TableCell sx={{ maxWidth: 240 }}>
+                          <Typography variant="body2" noWrap title={period.reopenReason || ''}>
+                            {period.reopenReason
+                              ? `${formatUser(period.reopenedBy)}: ${period.reopenReason}`
+                              : '—'}
+                          </Typography>
+                        </TableCell>
+                        <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                          {snapshot && (
+                            <Tooltip title="Compare with Snapshot">
+                              <IconButton size="small" onClick={() => handleCompare(period)} disabled={comparing}>
+                                <CompareArrows fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                          {canManage && !period.isClosed && (
+                            <Tooltip title="Close Period">
+                              <IconButton size="small" color="primary" onClick={() => setCloseTarget(period)}>
+                                <Lock fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                          {canManage && period.isClosed && (
+                            <Tooltip title="Reopen Period">
+                              <IconButton size="small" color="warning" onClick={() => handleOpenReopen(period)}>
+                                <LockOpen fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                          {canManage && !period.isClosed && !snapshot && (
+                            <Tooltip title="Delete">
+                              <IconButton size="small" color="error" onClick={() => handleDelete(period)}>
+                                <Delete fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {/* Create Period Dialog */}
+        <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth="xs" fullWidth>
+          <DialogTitle>New Payroll Period</DialogTitle>
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                select
+                label="Period Type"
+                value={periodType}
+                onChange={(e) => setPeriodType(e.target.value as PayrollPeriodType)}
+                fullWidth
+              >
+                <MenuItem value="WEEKLY">Weekly</MenuItem>
+                <MenuItem value="BIWEEKLY">Biweekly</MenuItem>
+              </TextField>
+              <DatePicker
+                label="Start Date (Monday)"
+                value={startDate}
+                onChange={(newValue) => setStartDate(newValue)}
+                slotProps={{
+                  textField: {
+                    fullWidth: true,
+                    helperText: 'Leave blank to start the day after the latest period',
+                  },
+                }}
+              />
+              <TextField
+                label="Notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                multiline
+                minRows={2}
+                fullWidth
+              />
+            </Stack>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setCreateOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="contained" onClick={handleCreate} disabled={saving}>
+              {saving ? <CircularProgress size={20} /> : 'Create'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Close Period Dialog */}
+        <Dialog open={!!closeTarget} onClose={() => setCloseTarget(null)} maxWidth="sm" fullWidth>
+          <DialogTitle>Close Payroll Period</DialogTitle>
+          <DialogContent>
+            {closeTarget && (
+              <Typography sx={{ mb: 2 }}>
+                {formatDate(closeTarget.startDate, 'MMM d')} – {formatDate(closeTarget.endDate)}
+              </Typography>
+            )}
+            <Alert severity="warning">
+              Closing snapshots the payroll totals for approved weeks and locks every time entry, sign-in and
+              timesheet in this range. Changes after closing require reopening the period with a reason.
+            </Alert>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setCloseTarget(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="contained" onClick={handleConfirmClose} disabled={saving}>
+              {saving ? <CircularProgress size={20} /> : 'Close Period'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Reopen Period Dialog */}
+        <Dialog open={!!reopenTarget} onClose={() => setReopenTarget(null)} maxWidth="sm" fullWidth>
+          <DialogTitle>Reopen Payroll Period</DialogTitle>
+          <DialogContent>
+            {reopenTarget && (
+              <Typography sx={{ mb: 2 }}>
+                {formatDate(reopenTarget.startDate, 'MMM d')} – {formatDate(reopenTarget.endDate)}
+              </Typography>
+            )}
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Reopening unlocks the period&apos;s time for corrections. Its close snapshot is kept so the
+              corrected totals can be compared against what was paid.
+            </Alert>
+            <TextField
+              label="Reason"
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              required
+              helperText="Why the period needs corrections"
+              multiline
+              minRows={3}
+              fullWidth
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setReopenTarget(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="contained" color="warning" onClick={handleConfirmReopen} disabled={saving}>
+              {saving ? <CircularProgress size={20} /> : 'Reopen'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Snapshot Comparison Dialog */}
+        <Dialog open={!!comparison} onClose={() => setComparison(null)} maxWidth="md" fullWidth>
+          <DialogTitle>
+            Snapshot Comparison
+            {comparison && (
+              <Typography variant="body2" color="text.secondary">
+                {formatDate(comparison.startDate, 'MMM d')} – {formatDate(comparison.endDate)} · snapshot taken{' '}
+                {format(new Date(comparison.snapshotAt), 'MMM d, h:mm a')}
+              </Typography>
+            )}
+          </DialogTitle>
+          <DialogContent dividers>
+            {comparison && (
+              <Stack spacing={2}>
+                <Alert severity={comparison.hasChanges ? 'warning' : 'success'}>
+                  {comparison.hasChanges
+                    ? `${comparison.changedEmployeeCount} employee${comparison.changedEmployeeCount === 1 ? '' : 's'} changed since the snapshot ` +
+                      `(${comparison.snapshot.totalHours.toFixed(2)} → ${comparison.current.totalHours.toFixed(2)} hours)`
+                    : 'Current totals match the snapshot'}
+                </Alert>
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Employee</TableCell>
+                        <TableCell align="right">Snapshot</TableCell>
+                        <TableCell align="right">Current</TableCell>
+                        <TableCell align="right">Total Δ</TableCell>
+                        <TableCell align="right">Regular Δ</TableCell>
+                        <TableCell align="right">OT Δ</TableCell>
+                        <TableCell align="right">DT Δ</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {comparison.employees.map((employee) => {
+                        const changed = Object.values(employee.difference).some((value) => value !== 0);
+
+                        return (
+                          <TableRow key={employee.employeeId} selected={changed}>
+                            <TableCell>
+                              {employee.firstName} {employee.lastName}
+                            </TableCell>
+                            <TableCell align="right">{(employee.snapshot?.totalHours ?? 0).toFixed(2)}</TableCell>
+                            <TableCell align="right">{(employee.current?.totalHours ?? 0).toFixed(2)}</TableCell>
+                            <TableCell align="right">{formatDifference(employee.difference.totalHours)}</TableCell>
+                            <TableCell align="right">{formatDifference(employee.difference.regularHours)}</TableCell>
+                            <TableCell align="right">{formatDifference(employee.difference.overtimeHours)}</TableCell>
+                            <TableCell align="right">{formatDifference(employee.difference.doubleTimeHours)}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Stack>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setComparison(null)}>Close</Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    </LocalizationProvider>
+  );
+};
+
+export default PayrollPeriods;
@@ -21,6 +21,10 @@ import {
   Alert,
   Stack,
   Divider,
+  Menu,
+  MenuItem,
+  FormControlLabel,
+  Switch,
 } from '@mui/material';
 import {
   AccessTime,
@@ -29,6 +33,12 @@ import {
   Refresh,
   LocationOn,
   Business,
+  EventNote,
+  WrongLocation,
+  MyLocation,
+  Restaurant,
+  Coffee,
+  ReportProblem,
 } from '@mui/icons-material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { TimePicker } from '@mui/x-date-pickers/TimePicker';
@@ -40,10 +50,29 @@ import { useProjectStore } from '../../store/project.store';
 import { useNotification } from '../../hooks/useNotification';
 import { formatTime } from '../../utils/formatters';
 import { useMobileView } from '../../hooks/useResponsive';
+import { crewScheduleService, SignInPrefillGroup } from '../../services/crew-schedule.service';
+import { getCurrentPosition, startBreak, endBreak, deleteBreak } from '../../services/signin.service';
+import { BreakType, DailySignIn, SignInBreak } from '../../types/timekeeping.types';
+
+// Distance from the project site, e.g. "85 m" or "1.4 km"
+const formatDistance = (meters?: number | null) =>
+  meters === null || meters === undefined
+    ? ''
+    : meters < 1000
+      ? `${Math.round(meters)} m`
+      : `${(meters / 1000).toFixed(1)} km`;
+
+const isOffSite = (signIn: DailySignIn) => !!signIn.signInOutsideGeofence || !!signIn.signOutOutsideGeofence;
+
+// e.g. "Meal 12:00 PM–12:30 PM" or "Rest 9:30 AM (on break)"
+const formatBreak = (segment: SignInBreak) =>
+  `${segment.breakType === 'MEAL' ? 'Meal' : 'Rest'} ${formatTime(segment.startTime)}${
+    segment.endTime ? `–${formatTime(segment.endTime)}` : ' (on break)'
+  }${segment.isPaid ? '' : ' · unpaid'}`;
 
 const SignInSheet: React.FC = () => {
   const isMobile = useMobileView();
-  const { success: showSuccess, error: showError } = useNotification();
+  const { success: showSuccess, error: showError, warning: showWarning } = useNotification();
 
   // Store state
   const {
@@ -73,6 +102,15 @@ const SignInSheet: React.FC = () => {
   const [signOutTarget, setSignOutTarget] = useState<any>(null);
   const [signOutTime, setSignOutTime] = useState<Date>(new Date());
   const [datePickerValue, setDatePickerValue] = useState<Date>(new Date());
+  const [prefillGroups, setPrefillGroups] = useState<SignInPrefillGroup[]>([]);
+  const [prefillAnchor, setPrefillAnchor] = useState<HTMLElement | null>(null);
+  const [prefillWarnings, setPrefillWarnings] = useState<string[]>([]);
+  const [breakDialogOpen, setBreakDialogOpen] = useState(false);
+  const [breakTarget, setBreakTarget] = useState<DailySignIn | null>(null);
+  const [breakType, setBreakType] = useState<BreakType>('MEAL');
+  const [breakStart, setBreakStart] = useState<Date>(new Date());
+  const [breakEnd, setBreakEnd] = useState<Date | null>(null);
+  const [breakPaid, setBreakPaid] = useState(false);
 
   // Load data on mount
   useEffect(() => {
@@ -104,9 +142,61 @@ const SignInSheet: React.FC = () => {
     setLocation('');
     setSelectedProject(null);
     setNotes('');
+    setPrefillWarnings([]);
     setSignInDialogOpen(true);
   };
 
+  // Seed the sign-in dialog with one project's scheduled crew
+  const applyPrefill = (group: SignInPrefillGroup) => {
+    setPrefillAnchor(null);
+
+    const pending = group.employees.filter((e) => !e.already_signed_in);
+    if (pending.length === 0) {
+      showError(`Everyone scheduled on ${group.project.project_number} is already signed in`);
+      return;
+    }
+
+    const pendingIds = pending.map((e) => e.id);
+    const time = new Date(datePickerValue);
+    if (group.start_time) {
+      const [hours, minutes] = group.start_time.split(':').map(Number);
+      time.setHours(hours ?? 0, minutes ?? 0, 0, 0);
+    } else {
+      const now = new Date();
+      time.setHours(now.getHours(), now.getMinutes(), 0, 0);
+    }
+
+    setSelectedEmployees(activeEmployees.filter((e) => pendingIds.includes(e.id)));
+    setSelectedProject(projects.find((p) => p.id === group.project.id) || null);
+    setLocation(group.project.location || '');
+    setSignInTime(time);
+    setNotes('');
+    setPrefillWarnings(
+      pending.flatMap((e) => e.conflicts.map((c) => `${e.first_name} ${e.last_name}: ${c.message}`))
+    );
+    setSignInDialogOpen(true);
+  };
+
+  // Prefill from the crew schedule for the selected date
+  const handlePrefillFromSchedule = async (event: React.MouseEvent<HTMLElement>) => {
+    const anchor = event.currentTarget;
+
+    try {
+      const groups = await crewScheduleService.getSignInPrefill(selectedDate);
+
+      if (groups.length === 0) {
+        showError('No crews are scheduled for this date');
+      } else if (groups.length === 1) {
+        applyPrefill(groups[0]!);
+      } else {
+        setPrefillGroups(groups);
+        setPrefillAnchor(anchor);
+      }
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load crew schedule');
+    }
+  };
+
   // Handle bulk sign-in
   const handleBulkSignIn = async () => {
     if (selectedEmployees.length === 0) {
@@ -115,6 +205,11 @@ const SignInSheet: React.FC = () => {
     }
 
     try {
+      const gps = await getCurrentPosition();
+      if (!gps) {
+        showWarning('Device location unavailable; sign-in recorded without GPS');
+      }
+
       const result = await bulkSignIn({
         employeeIds: selectedEmployees.map((e) => e.id),
         date: selectedDate,
@@ -122,8 +217,13 @@ const SignInSheet: React.FC = () => {
         location: location || undefined,
         projectId: selectedProject?.id || undefined,
         notes: notes || undefined,
+        ...gps,
       });
 
+      if (result.signedIn.some((s) => s.signInOutsideGeofence)) {
+        showWarning(`Sign-in is ${formatDistance(result.signedIn[0]?.signInDistance)} from the project site`);
+      }
+
       showSuccess(
         `${result.signedIn.length} employee(s) signed in successfully`
       );
@@ -153,8 +253,16 @@ const SignInSheet: React.FC = () => {
     if (!signOutTarget) return;
 
     try {
-      await signOut(signOutTarget.id, signOutTime.toISOString());
+      const gps = await getCurrentPosition();
+      if (!gps) {
+        showWarning('Device location unavailable; sign-out recorded without GPS');
+      }
+
+      const updated = await signOut(signOutTarget.id, signOutTime.toISOString(), gps);
       showSuccess(`${signOutTarget.employee.firstName} ${signOutTarget.employee.lastName} signed out`);
+      if (updated.signOutOutsideGeofence) {
+        showWarning(`Sign-out is ${formatDistance(updated.signOutDistance)} from the project site`);
+      }
       setSignOutDialogOpen(false);
       setSignOutTarget(null);
       fetchSignInsForDate(selectedDate);
@@ -163,6 +271,64 @@ const SignInSheet: React.FC = () => {
     }
   };
 
+  // Open the break dialog; breaks on an active sign-in start now and stay open
+  const handleOpenBreakDialog = (signIn: DailySignIn) => {
+    const start = signIn.signOutTime ? new Date(signIn.signInTime) : new Date();
+    setBreakTarget(signIn);
+    setBreakType('MEAL');
+    setBreakPaid(false);
+    setBreakStart(start);
+    setBreakEnd(signIn.signOutTime ? new Date(start.getTime() + 30 * 60 * 1000) : null);
+    setBreakDialogOpen(true);
+  };
+
+  const handleBreakTypeChange = (type: BreakType) => {
+    setBreakType(type);
+    setBreakPaid(type === 'REST');
+  };
+
+  // Record a break
+  const handleSaveBreak = async () => {
+    if (!breakTarget) return;
+
+    try {
+      await startBreak(breakTarget.id, {
+        breakType,
+        startTime: breakStart.toISOString(),
+        endTime: breakEnd ? breakEnd.toISOString() : undefined,
+        isPaid: breakPaid,
+      });
+      showSuccess(`${breakType === 'MEAL' ? 'Meal' : 'Rest'} break recorded`);
+      setBreakDialogOpen(false);
+      setBreakTarget(null);
+      fetchSignInsForDate(selectedDate);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to record break');
+    }
+  };
+
+  // End a break in progress now
+  const handleEndBreak = async (segment: SignInBreak) => {
+    try {
+      await endBreak(segment.id, new Date().toISOString());
+      showSuccess('Break ended');
+      fetchSignInsForDate(selectedDate);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to end break');
+    }
+  };
+
+  // Remove a break recorded in error
+  const handleDeleteBreak = async (segment: SignInBreak) => {
+    try {
+      await deleteBreak(segment.id);
+      showSuccess('Break removed');
+      fetchSignInsForDate(selectedDate);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to remove break');
+    }
+  };
+
   // Refresh data
   const handleRefresh = () => {
     fetchSignInsForDate(selectedDate);
@@ -200,6 +366,9 @@ const SignInSheet: React.FC = () => {
     return Array.from(groups.values());
   }, [signIns]);
 
+  // Punches outside their project's geofence
+  const offSiteCount = (signIns || []).filter(isOffSite).length;
+
   // Signed in count
   const signedInCount = (signIns || []).length;
   const activeCount = (activeSignIns || []).length;
@@ -253,6 +422,14 @@ const SignInSheet: React.FC = () => {
           </Alert>
         )}
 
+        {/* Geofence Alert */}
+        {offSiteCount > 0 && (
+          <Alert severity="warning" icon={<WrongLocation />} sx={{ mb: 2 }}>
+            {offSiteCount} sign-in{offSiteCount === 1 ? ' was' : 's were'} punched outside the project
+            geofence
+          </Alert>
+        )}
+
         {/* Summary Cards */}
         <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 3 }}>
           <Card>
@@ -275,21 +452,48 @@ const SignInSheet: React.FC = () => {
           </Card>
         </Box>
 
-        {/* Sign In Button */}
-        <Button
-          variant="contained"
-          size="large"
-          startIcon={<PersonAdd />}
-          onClick={handleOpenSignInDialog}
-          fullWidth
-          sx={{
-            mb: 3,
-            minHeight: { xs: 56, sm: 48 },
-            fontSize: { xs: '1.1rem', sm: '1rem' },
-          }}
-        >
-          Sign In Employees
-        </Button>
+        {/* Sign In Buttons */}
+        <Box sx={{ display: 'flex', gap: 2, mb: 3, flexDirection: { xs: 'column', sm: 'row' } }}>
+          <Button
+            variant="contained"
+            size="large"
+            startIcon={<PersonAdd />}
+            onClick={handleOpenSignInDialog}
+            fullWidth
+            sx={{
+              minHeight: { xs: 56, sm: 48 },
+              fontSize: { xs: '1.1rem', sm: '1rem' },
+            }}
+          >
+            Sign In Employees
+          </Button>
+          <Button
+            variant="outlined"
+            size="large"
+            startIcon={<EventNote />}
+            onClick={handlePrefillFromSchedule}
+            disabled={isLoading}
+            fullWidth
+            sx={{
+              minHeight: { xs: 56, sm: 48 },
+              fontSize: { xs: '1.1rem', sm: '1rem' },
+            }}
+          >
+            Prefill from Schedule
+          </Button>
+        </Box>
+
+        {/* Scheduled crews for the day (when more than one project) */}
+        <Menu anchorEl={prefillAnchor} open={!!prefillAnchor} onClose={() => setPrefillAnchor(null)}>
+          {prefillGroups.map((group) => (
+            <MenuItem key={group.project.id} onClick={() => applyPrefill(group)}>
+              <ListItemText
+                primary={`${group.project.project_number} - ${group.project.name}`}
+                secondary={`${group.employees.length} scheduled${group.start_time ? `, starts ${group.start_time}` : ''}`}
+              />
+            </MenuItem>
+          ))}
+        </Menu>
 
         {/* Signed In Employees List */}
         <Card>
@@ -399,6 +603,70 @@ const SignInSheet: React.FC = () => {
                                         </Typography>
                                       </Box>
                                     )}
+                                    {signIn.signInOutsideGeofence && (
+                                      <Chip
+                                        icon={<WrongLocation />}
+                                        label={`In off site (${formatDistance(signIn.signInDistance)})`}
+                                        size="small"
+                                        color="error"
+                                      />
+                                    )}
+                                    {signIn.signOutOutsideGeofence && (
+                                      <Chip
+                                        icon={<WrongLocation />}
+                                        label={`Out off site (${formatDistance(signIn.signOutDistance)})`}
+                                        size="small"
+                                        color="error"
+                                      />
+                                    )}
+                                    {signIn.signInOutsideGeofence === false && !isOffSite(signIn) && (
+                                      <Chip
+                                        icon={<MyLocation />}
+                                        label="On site"
+                                        size="small"
+                                        color="success"
+                                        variant="outlined"
+                                      />
+                                    )}
+                                  </Box>
+                                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mt: 0.5 }}>
+                                    {(signIn.breaks || []).map((segment: SignInBreak) => (
+                                      <Chip
+                                        key={segment.id}
+                                        icon={segment.breakType === 'MEAL' ? <Restaurant /> : <Coffee />}
+                                        label={formatBreak(segment)}
+                                        size="small"
+                                        variant="outlined"
+                                        color={segment.endTime ? 'default' : 'info'}
+                                        onDelete={() => handleDeleteBreak(segment)}
+                                      />
+                                    ))}
+                                    {signIn.mealPeriodException && (
+                                      <Chip
+                                        icon={<ReportProblem />}
+                                        label={signIn.mealPeriodException.message}
+                                        size="small"
+                                        color="warning"
+                                      />
+                                    )}
+                                    {(signIn.breaks || []).some((segment: SignInBreak) => !segment.endTime) ? (
+                                      <Button
+                                        size="small"
+                                        onClick={() =>
+                                          handleEndBreak(signIn.breaks.find((segment: SignInBreak) => !segment.endTime))
+                                        }
+                                      >
+                                        End Break
+                                      </Button>
+                                    ) : (
+                                      <Button
+                                        size="small"
+                                        startIcon={<Restaurant />}
+                                        onClick={() => handleOpenBreakDialog(signIn)}
+                                      >
+                                        Add Break
+                                      </Button>
+                                    )}
                                   </Box>
                                   {signIn.location && (
                                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.5 }}>
@@ -437,6 +705,14 @@ const SignInSheet: React.FC = () => {
           <DialogTitle>Sign In Employees</DialogTitle>
           <DialogContent>
             <Stack spacing={3} sx={{ mt: 1 }}>
+              {prefillWarnings.length > 0 && (
+                <Alert severity="warning">
+                  {prefillWarnings.map((warning) => (
+                    <div key={warning}>{warning}</div>
+                  ))}
+                </Alert>
+              )}
+
               <Autocomplete
                 multiple
                 options={activeEmployees}
@@ -505,6 +781,76 @@ const SignInSheet: React.FC = () => {
           </DialogActions>
         </Dialog>
 
+        {/* Break Dialog */}
+        <Dialog
+          open={breakDialogOpen}
+          onClose={() => setBreakDialogOpen(false)}
+          maxWidth="xs"
+          fullWidth
+        >
+          <DialogTitle>Record Break</DialogTitle>
+          <DialogContent>
+            {breakTarget && (
+              <Stack spacing={2} sx={{ mt: 1 }}>
+                <Typography>
+                  {breakTarget.employee.firstName} {breakTarget.employee.lastName}
+                </Typography>
+
+                <TextField
+                  select
+                  label="Break Type"
+                  value={breakType}
+                  onChange={(e) => handleBreakTypeChange(e.target.value as BreakType)}
+                  fullWidth
+                >
+                  <MenuItem value="MEAL">Meal period</MenuItem>
+                  <MenuItem value="REST">Rest break</MenuItem>
+                </TextField>
+
+                <TimePicker
+                  label="Start"
+                  value={breakStart}
+                  onChange={(newValue) => newValue && setBreakStart(newValue)}
+                  slotProps={{
+                    textField: {
+                      fullWidth: true,
+                    },
+                  }}
+                />
+
+                <TimePicker
+                  label="End"
+                  value={breakEnd}
+                  onChange={(newValue) => setBreakEnd(newValue)}
+                  slotProps={{
+                    textField: {
+                      fullWidth: true,
+                      helperText: breakTarget.signOutTime ? undefined : 'Leave blank while the break is in progress',
+                    },
+                  }}
+                />
+
+                <FormControlLabel
+                  control={
+                    <Switch checked={breakPaid} onChange={(e) => setBreakPaid(e.target.checked)} />
+                  }
+                  label="Paid break"
+                />
+              </Stack>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setBreakDialogOpen(false)}>Cancel</Button>
+            <Button
+              variant="contained"
+              onClick={handleSaveBreak}
+              disabled={!!breakTarget?.signOutTime && !breakEnd}
+            >
+              Save
+            </Button>
+          </DialogActions>
+        </Dialog>
+
         {/* Sign Out Dialog */}
         <Dialog
           open={signOutDialogOpen}
@@ -0,0 +1,395 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  Alert,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  FormControlLabel,
+  Switch,
+  Tooltip,
+} from '@mui/material';
+import { Add, Edit, Delete, Warning } from '@mui/icons-material';
+import timeClockService from '../../services/timeclock.service';
+import { useNotification } from '../../hooks/useNotification';
+import { useAuthStore } from '../../store';
+import { TimeClockPolicy, TimeClockPolicyFormData } from '../../types/timekeeping.types';
+
+// Roles allowed to change time clock rules (matches backend policyAdminRoles)
+const POLICY_ADMIN_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+interface PolicyFormState {
+  name: string;
+  classification: string;
+  isDefault: boolean;
+  selfPunchEnabled: boolean;
+  requiresApproval: boolean;
+  requireGps: boolean;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: PolicyFormState = {
+  name: '',
+  classification: '',
+  isDefault: false,
+  selfPunchEnabled: true,
+  requiresApproval: true,
+  requireGps: false,
+  isActive: true,
+};
+
+const TimeClockPolicies: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const { user } = useAuthStore();
+  const canEdit = !!user && POLICY_ADMIN_ROLES.includes(user.role);
+
+  const [policies, setPolicies] = useState<TimeClockPolicy[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<TimeClockPolicy | null>(null);
+  const [form, setForm] = useState<PolicyFormState>(EMPTY_FORM);
+
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [policyToDelete, setPolicyToDelete] = useState<TimeClockPolicy | null>(null);
+
+  const loadPolicies = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await timeClockService.getTimeClockPolicies();
+      setPolicies(data);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to load time clock policies');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadPolicies();
+  }, [loadPolicies]);
+
+  // Open create/edit dialog
+  const handleOpenDialog = (policy?: TimeClockPolicy) => {
+    if (policy) {
+      setEditingPolicy(policy);
+      setForm({
+        name: policy.name,
+        classification: policy.classification || '',
+        isDefault: policy.isDefault,
+        selfPunchEnabled: policy.selfPunchEnabled,
+        requiresApproval: policy.requiresApproval,
+        requireGps: policy.requireGps,
+        isActive: policy.isActive,
+      });
+    } else {
+      setEditingPolicy(null);
+      setForm(EMPTY_FORM);
+    }
+    setDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setDialogOpen(false);
+    setEditingPolicy(null);
+  };
+
+  const handleFieldChange = (field: keyof PolicyFormState, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      showError('Policy name is required');
+      return;
+    }
+
+    const data: TimeClockPolicyFormData = {
+      name: form.name.trim(),
+      classification: form.isDefault ? null : form.classification.trim() || null,
+      isDefault: form.isDefault,
+      selfPunchEnabled: form.selfPunchEnabled,
+      requiresApproval: form.requiresApproval,
+      requireGps: form.requireGps,
+      isActive: form.isActive,
+    };
+
+    setSaving(true);
+    try {
+      if (editingPolicy) {
+        await timeClockService.updateTimeClockPolicy(editingPolicy.id, data);
+        showSuccess('Time clock policy updated successfully');
+      } else {
+        await timeClockService.createTimeClockPolicy(data);
+        showSuccess('Time clock policy created successfully');
+      }
+      handleCloseDialog();
+      await loadPolicies();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to save time clock policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Open delete confirmation dialog
+  const handleOpenDeleteDialog = (policy: TimeClockPolicy) => {
+    setPolicyToDelete(policy);
+    setDeleteDialogOpen(true);
+  };
+
+  // Close delete confirmation dialog
+  const handleCloseDeleteDialog = () => {
+    setDeleteDialogOpen(false);
+    setPolicyToDelete(null);
+  };
+
+  // Confirm delete
+  const handleConfirmDelete = async () => {
+    if (!policyToDelete) return;
+
+    try {
+      await timeClockService.deleteTimeClockPolicy(policyToDelete.id);
+      showSuccess('Time clock policy deleted successfully');
+      await loadPolicies();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to delete time clock policy');
+    } finally {
+      handleCloseDeleteDialog();
+    }
+  };
+
+  const hasDefault = policies.some((p) => p.isDefault && p.isActive);
+
+  return (
+    <Box sx={{ p: { xs: 1, sm: 2 } }}>
+      <Stack
+        direction={{ xs: 'column', sm: 'row' }}
+        justifyContent="space-between"
+        alignItems={{ xs: 'flex-start', sm: 'center' }}
+        spacing={2}
+        sx={{ mb: 2 }}
+      >
+        <Box>
+          <Typography variant="h5">Time Clock Rules</Typography>
+          <Typography variant="body2" color="text.secondary">
+            Controls who may clock themselves in from the Time Clock page and whether their
+            hours need supervisor approval.
+          </Typography>
+        </Box>
+        {canEdit && (
+          <Button variant="contained" startIcon={<Add />} onClick={() => handleOpenDialog()}>
+            Add Policy
+          </Button>
+        )}
+      </Stack>
+
+      {!loading && !hasDefault && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          No company default policy is set. Employees without a classification policy may
+          self-punch, and their entries wait for supervisor approval.
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Applies To</TableCell>
+                <TableCell>Self-Punch</TableCell>
+                <TableCell>Approval</TableCell>
+                <TableCell>Location</TableCell>
+                <TableCell>Status</TableCell>
+                {canEdit && <TableCell align="right">Actions</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {policies.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 7 : 6} align="center">
+                    <Typography color="text.secondary" sx={{ py: 2 }}>
+                      No time clock policies configured
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                policies.map((policy) => (
+                  <TableRow key={policy.id} hover>
+                    <TableCell>{policy.name}</TableCell>
+                    <TableCell>
+                      {policy.isDefault ? (
+                        <Chip label="Company Default" color="primary" size="small" />
+                      ) : (
+                        policy.classification || '—'
+                      )}
+                    </TableCell>
+                    <TableCell>{policy.selfPunchEnabled ? 'Allowed' : 'Disabled'}</TableCell>
+                    <TableCell>{policy.requiresApproval ? 'Supervisor' : 'Auto-approve'}</TableCell>
+                    <TableCell>{policy.requireGps ? 'Required' : 'Optional'}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={policy.isActive ? 'Active' : 'Inactive'}
+                        color={policy.isActive ? 'success' : 'default'}
+                        size="small"
+                      />
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell align="right">
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => handleOpenDialog(policy)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => handleOpenDeleteDialog(policy)}
+                          >
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Create/Edit Policy Dialog */}
+      <Dialog open={dialogOpen} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingPolicy ? 'Edit Time Clock Policy' : 'New Time Clock Policy'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField
+              label="Policy Name"
+              value={form.name}
+              onChange={(e) => handleFieldChange('name', e.target.value)}
+              required
+              fullWidth
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.isDefault}
+                  onChange={(e) => handleFieldChange('isDefault', e.target.checked)}
+                />
+              }
+              label="Company default (applies to all classifications without their own policy)"
+            />
+
+            {!form.isDefault && (
+              <TextField
+                label="Employee Classification"
+                value={form.classification}
+                onChange={(e) => handleFieldChange('classification', e.target.value)}
+                helperText="e.g. Apprentice Electrician"
+                fullWidth
+              />
+            )}
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.selfPunchEnabled}
+                  onChange={(e) => handleFieldChange('selfPunchEnabled', e.target.checked)}
+                />
+              }
+              label="Employees may clock themselves in and out"
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.requiresApproval}
+                  onChange={(e) => handleFieldChange('requiresApproval', e.target.checked)}
+                  disabled={!form.selfPunchEnabled}
+                />
+              }
+              label="Self-punched hours require supervisor approval"
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.requireGps}
+                  onChange={(e) => handleFieldChange('requireGps', e.target.checked)}
+                  disabled={!form.selfPunchEnabled}
+                />
+              }
+              label="Require device location on every punch"
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.isActive}
+                  onChange={(e) => handleFieldChange('isActive', e.target.checked)}
+                />
+              }
+              label="Active"
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={deleteDialogOpen} onClose={handleCloseDeleteDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Warning color="error" />
+            <Typography variant="h6">Delete Time Clock Policy?</Typography>
+          </Stack>
+        </DialogTitle>
+        <DialogContent>
+          <Typography>
+            Are you sure you want to delete <strong>{policyToDelete?.name}</strong>? Affected
+            employees will fall back to the company default rules.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDeleteDialog}>Cancel</Button>
+          <Button variant="contained" color="error" onClick={handleConfirmDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default TimeClockPolicies;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   Box,
   Button,
@@ -39,15 +39,20 @@ import { useEmployeeStore } from '../../store/employee.store';
 import { useProjectStore } from '../../store/project.store';
 import { useNotification } from '../../hooks/useNotification';
 import { TimeEntry } from '../../services/timesheet.service';
+import apprenticeshipService, { isApprenticeClassification } from '../../services/apprenticeship.service';
+import { getProjectCostCodes } from '../../services/cost-code.service';
+import { ApprenticeWorkCategory, ProjectCostCode } from '../../types/timekeeping.types';
 
 interface TimeEntryRow {
   tempId: string;
   employeeId: string;
   projectId: string;
+  costCodeId: string;
   hoursWorked: number;
   workType: string;
   description: string;
   taskPerformed: string;
+  ojtCategoryId: string;
 }
 
 const TimeEntryManagement: React.FC = () => {
@@ -81,13 +86,34 @@ const TimeEntryManagement: React.FC = () => {
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [timesheetToDelete, setTimesheetToDelete] = useState<any>(null);
+  const [ojtCategories, setOjtCategories] = useState<ApprenticeWorkCategory[]>([]);
+  const [costCodesByProject, setCostCodesByProject] = useState<Record<string, ProjectCostCode[]>>({});
 
   // Load data on component mount
   useEffect(() => {
     fetchEmployees();
     fetchProjects();
+    apprenticeshipService
+      .getWorkCategories()
+      .then(setOjtCategories)
+      .catch(() => setOjtCategories([]));
   }, [fetchEmployees, fetchProjects]);
 
+  // Load the cost codes enabled on a project (once per project)
+  const loadProjectCostCodes = useCallback(
+    async (projectId: string) => {
+      if (!projectId || costCodesByProject[projectId]) return;
+
+      try {
+        const costCodes = await getProjectCostCodes(projectId);
+        setCostCodesByProject((prev) => ({ ...prev, [projectId]: costCodes }));
+      } catch (error: any) {
+        showError(error?.error?.message || error?.message || 'Failed to load cost codes');
+      }
+    },
+    [costCodesByProject, showError]
+  );
+
   // Load timesheets when date changes
   useEffect(() => {
     const dateStr = selectedDate.toISOString().split('T')[0];
@@ -132,10 +158,12 @@ const TimeEntryManagement: React.FC = () => {
           tempId: `new-${Date.now()}-${Math.random()}`,
           employeeId: emp.id,
           projectId: '',
+          costCodeId: '',
           hoursWorked: 8,
           workType: 'Regular',
           description: '',
           taskPerformed: '',
+          ojtCategoryId: '',
         }));
         setTimeEntryRows([...timeEntryRows, ...newRows]);
       }
@@ -153,10 +181,12 @@ const TimeEntryManagement: React.FC = () => {
       tempId: `new-${Date.now()}-${Math.random()}`,
       employeeId,
       projectId: '',
+      costCodeId: '',
       hoursWorked: 0,
       workType: 'Regular',
       description: '',
       taskPerformed: '',
+      ojtCategoryId: '',
     };
     setTimeEntryRows([...timeEntryRows, newRow]);
   };
@@ -175,6 +205,16 @@ const TimeEntryManagement: React.FC = () => {
     );
   };
 
+  // Change a row's project; cost codes are per project so the code is cleared
+  const handleChangeProject = (tempId: string, projectId: string) => {
+    setTimeEntryRows(
+      timeEntryRows.map((r) =>
+        r.tempId === tempId ? { ...r, projectId, costCodeId: '' } : r
+      )
+    );
+    loadProjectCostCodes(projectId);
+  };
+
   // Save timesheet
   const handleSave = async () => {
     // Validation
@@ -184,11 +224,11 @@ const TimeEntryManagement: React.FC = () => {
     }
 
     const invalidRows = timeEntryRows.filter(
-      (r) => !r.projectId || r.hoursWorked <= 0
+      (r) => !r.projectId || !r.costCodeId || r.hoursWorked <= 0
     );
 
     if (invalidRows.length > 0) {
-      showError('All rows must have a project and hours worked greater than 0');
+      showError('All rows must have a project, a cost code and hours worked greater than 0');
       return;
     }
 
@@ -199,10 +239,12 @@ const TimeEntryManagement: React.FC = () => {
       const timeEntries: TimeEntry[] = timeEntryRows.map((row) => ({
         employeeId: row.employeeId,
         projectId: row.projectId,
+        costCodeId: row.costCodeId,
         hoursWorked: row.hoursWorked,
         workType: row.workType,
         description: row.description,
         taskPerformed: row.taskPerformed,
+        ojtCategoryId: row.ojtCategoryId || null,
       }));
 
       const timesheetData = {
@@ -267,13 +309,16 @@ const TimeEntryManagement: React.FC = () => {
       tempId: entry.id || `temp-${Date.now()}-${Math.random()}`,
       employeeId: entry.employeeId,
       projectId: entry.projectId,
+      costCodeId: entry.costCodeId || '',
       hoursWorked: entry.hoursWorked,
       workType: entry.workType || 'Regular',
       description: entry.description || '',
       taskPerformed: entry.taskPerformed || '',
+      ojtCategoryId: entry.ojtCategoryId || '',
     }));
 
     setTimeEntryRows(rows);
+    Array.from(new Set(rows.map((row) => row.projectId))).forEach(loadProjectCostCodes);
   };
 
   // View timesheet details
@@ -486,7 +531,7 @@ const TimeEntryManagement: React.FC = () => {
                                         null
                                       }
                                       onChange={(_, newValue) =>
-                                        handleUpdateRow(row.tempId, 'projectId', newValue?.id || '')
+                                        handleChangeProject(row.tempId, newValue?.id || '')
                                       }
                                       getOptionLabel={(option: any) =>
                                         `${option.name} (${option.projectNumber})`
@@ -498,6 +543,28 @@ const TimeEntryManagement: React.FC = () => {
                                         option.id === value.id
                                       }
                                     />
+                                    <TextField
+                                      select
+                                      label="Cost Code"
+                                      value={row.costCodeId}
+                                      onChange={(e) =>
+                                        handleUpdateRow(row.tempId, 'costCodeId', e.target.value)
+                                      }
+                                      size="small"
+                                      fullWidth
+                                      required
+                                      disabled={!row.projectId}
+                                      sx={{ mt: 1 }}
+                                    >
+                                      {(costCodesByProject[row.projectId] || []).map((projectCostCode) => (
+                                        <MenuItem
+                                          key={projectCostCode.costCodeId}
+                                          value={projectCostCode.costCodeId}
+                                        >
+                                          {projectCostCode.costCode.code} - {projectCostCode.costCode.name}
+                                        </MenuItem>
+                                      ))}
+                                    </TextField>
                                   </TableCell>
 
                                   {/* Hours */}
@@ -535,7 +602,7 @@ const TimeEntryManagement: React.FC = () => {
                                     </TextField>
                                   </TableCell>
 
-                                  {/* Task/Description */}
+                                  {/* Task/Description (+ OJT category for apprentices) */}
                                   <TableCell>
                                     <TextField
                                       value={row.description}
@@ -546,6 +613,29 @@ const TimeEntryManagement: React.FC = () => {
                                       placeholder="Task description..."
                                       fullWidth
                                     />
+                                    {isApprenticeClassification(employee?.classification) &&
+                                      ojtCategories.length > 0 && (
+                                        <TextField
+                                          select
+                                          label="OJT Category"
+                                          value={row.ojtCategoryId}
+                                          onChange={(e) =>
+                                            handleUpdateRow(row.tempId, 'ojtCategoryId', e.target.value)
+                                          }
+                                          size="small"
+                                          fullWidth
+                                          sx={{ mt: 1 }}
+                                        >
+                                          <MenuItem value="">
+                                            <em>None</em>
+                                          </MenuItem>
+                                          {ojtCategories.map((category) => (
+                                            <MenuItem key={category.id} value={category.id}>
+                                              {category.name}
+                                            </MenuItem>
+                                          ))}
+                                        </TextField>
+                                      )}
                                   </TableCell>
 
                                   {/* Actions */}
@@ -826,6 +916,7 @@ const TimeEntryManagement: React.FC = () => {
                                           component="span"
                                         >
                                           {entry.project?.projectNumber}
+                                          {entry.costCode && ` · ${entry.costCode.code} ${entry.costCode.name}`}
                                         </Typography>
                                       </Typography>
                                     </TableCell>
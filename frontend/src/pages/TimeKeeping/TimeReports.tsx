@@ -7,6 +7,8 @@ import {
   Button,
   TextField,
   MenuItem,
+  Menu,
+  ListItemText,
   Table,
   TableBody,
   TableCell,
@@ -27,6 +29,7 @@ import {
   Person,
   Work,
   Download,
+  ReportProblem,
 } from '@mui/icons-material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
@@ -36,6 +39,14 @@ import { useTimeEntryStore } from '../../store/timeentry.store';
 import { useEmployeeStore } from '../../store/employee.store';
 import { useProjectStore } from '../../store/project.store';
 import { useNotification } from '../../hooks/useNotification';
+import payrollService from '../../services/payroll.service';
+import { ComplianceException, PayrollExportFormatOption } from '../../types/timekeeping.types';
+
+const MEAL_EXCEPTION_LABELS: Record<ComplianceException['type'], string> = {
+  MISSED_MEAL: 'Missed meal',
+  SHORT_MEAL: 'Short meal',
+  LATE_MEAL: 'Late meal',
+};
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -69,6 +80,12 @@ const TimeReports: React.FC = () => {
   const [reportType, setReportType] = useState<'day' | 'week'>('day');
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [activeTab, setActiveTab] = useState(0);
+  const [complianceExceptions, setComplianceExceptions] = useState<ComplianceException[]>([]);
+  const [complianceLoading, setComplianceLoading] = useState(false);
+  const [complianceError, setComplianceError] = useState<string | null>(null);
+  const [exportFormats, setExportFormats] = useState<PayrollExportFormatOption[]>([]);
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<HTMLElement | null>(null);
+  const [exporting, setExporting] = useState(false);
 
   // Load data
   useEffect(() => {
@@ -76,6 +93,14 @@ const TimeReports: React.FC = () => {
     fetchProjects();
   }, [fetchEmployees, fetchProjects]);
 
+  // Payroll system export formats (QuickBooks, ADP, Gusto)
+  useEffect(() => {
+    payrollService
+      .getPayrollExportFormats()
+      .then(setExportFormats)
+      .catch(() => setExportFormats([]));
+  }, []);
+
   // Load time entries when date changes
   useEffect(() => {
     if (reportType === 'day') {
@@ -94,6 +119,22 @@ const TimeReports: React.FC = () => {
     }
   }, [selectedDate, reportType, fetchTimeEntriesForDate]);
 
+  // Meal period exceptions from the payroll report for the same period
+  useEffect(() => {
+    if (activeTab !== 3) return;
+
+    const start = reportType === 'day' ? selectedDate : startOfWeek(selectedDate, { weekStartsOn: 1 });
+    const end = reportType === 'day' ? selectedDate : endOfWeek(selectedDate, { weekStartsOn: 1 });
+
+    setComplianceLoading(true);
+    setComplianceError(null);
+    payrollService
+      .getWeeklyReport(format(start, 'yyyy-MM-dd'), format(end, 'yyyy-MM-dd'))
+      .then((report) => setComplianceExceptions(report.complianceExceptions || []))
+      .catch((error: any) => setComplianceError(error?.message || 'Failed to load meal period exceptions'))
+      .finally(() => setComplianceLoading(false));
+  }, [activeTab, selectedDate, reportType]);
+
   // Calculate summaries
   const summary = React.useMemo(() => {
     const entries = timeEntries || [];
@@ -201,6 +242,27 @@ const TimeReports: React.FC = () => {
     }
   };
 
+  const handleExport = async (exportFormat: PayrollExportFormatOption) => {
+    setExportMenuAnchor(null);
+
+    const start = reportType === 'day' ? selectedDate : startOfWeek(selectedDate, { weekStartsOn: 1 });
+    const end = reportType === 'day' ? selectedDate : endOfWeek(selectedDate, { weekStartsOn: 1 });
+
+    setExporting(true);
+    try {
+      await payrollService.downloadPayrollExport(
+        exportFormat,
+        format(start, 'yyyy-MM-dd'),
+        format(end, 'yyyy-MM-dd')
+      );
+      showSuccess(`${exportFormat.label} export downloaded`);
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to export payroll');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const getDateRangeText = () => {
     if (reportType === 'day') {
       return format(selectedDate, 'MMMM dd, yyyy (EEEE)');
@@ -249,14 +311,40 @@ const TimeReports: React.FC = () => {
 
             <Box sx={{ flexGrow: 1 }} />
 
-            <Button variant="outlined" startIcon={<Download />}>
+            <Button
+              variant="outlined"
+              startIcon={exporting ? <CircularProgress size={18} /> : <Download />}
+              onClick={(e) => setExportMenuAnchor(e.currentTarget)}
+              disabled={exporting || exportFormats.length === 0}
+            >
               Export
             </Button>
+            <Menu
+              anchorEl={exportMenuAnchor}
+              open={!!exportMenuAnchor}
+              onClose={() => setExportMenuAnchor(null)}
+            >
+              {exportFormats.map((exportFormat) => (
+                <MenuItem key={exportFormat.format} onClick={() => handleExport(exportFormat)}>
+                  <ListItemText
+                    primary={exportFormat.label}
+                    secondary={
+                      exportFormat.requiresPayrollId
+                        ? `${exportFormat.description} (employees need a payroll ID)`
+                        : exportFormat.description
+                    }
+                  />
+                </MenuItem>
+              ))}
+            </Menu>
           </Stack>
 
           <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
             Showing data for: <strong>{getDateRangeText()}</strong>
           </Typography>
+          <Typography variant="caption" color="text.secondary">
+            Payroll exports include approved weekly timesheets only.
+          </Typography>
         </Paper>
 
         {/* Summary Cards */}
@@ -342,6 +430,7 @@ const TimeReports: React.FC = () => {
             <Tab icon={<Person />} iconPosition="start" label="By Employee" />
             <Tab icon={<Work />} iconPosition="start" label="By Project" />
             <Tab icon={<CalendarToday />} iconPosition="start" label="Detailed View" />
+            <Tab icon={<ReportProblem />} iconPosition="start" label="Meal Compliance" />
           </Tabs>
         </Box>
 
@@ -589,6 +678,59 @@ const TimeReports: React.FC = () => {
             </TableContainer>
           )}
         </TabPanel>
+
+        {/* Meal Period Compliance */}
+        <TabPanel value={activeTab} index={3}>
+          {complianceLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : complianceError ? (
+            <Alert severity="error">{complianceError}</Alert>
+          ) : complianceExceptions.length === 0 ? (
+            <Alert severity="success">No meal period exceptions for this period</Alert>
+          ) : (
+            <TableContainer component={Paper}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Employee</TableCell>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Signed In</TableCell>
+                    <TableCell>Signed Out</TableCell>
+                    <TableCell>Exception</TableCell>
+                    <TableCell>Details</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {complianceExceptions.map((exception) => (
+                    <TableRow key={exception.signInId} hover>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          {exception.firstName} {exception.lastName}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {exception.classification}
+                        </Typography>
+                      </TableCell>
+                      <TableCell>{exception.date.split('T')[0]}</TableCell>
+                      <TableCell>{format(new Date(exception.signInTime), 'h:mm a')}</TableCell>
+                      <TableCell>
+                        {exception.signOutTime ? format(new Date(exception.signOutTime), 'h:mm a') : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Chip label={MEAL_EXCEPTION_LABELS[exception.type]} size="small" color="warning" />
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="caption">{exception.message}</Typography>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </TabPanel>
       </Box>
     </LocalizationProvider>
   );
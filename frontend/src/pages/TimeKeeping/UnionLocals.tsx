@@ -0,0 +1,820 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Tooltip,
+  Alert,
+} from '@mui/material';
+import { Add, Edit, Delete, Warning, Download, Refresh } from '@mui/icons-material';
+import unionService from '../../services/union.service';
+import { useNotification } from '../../hooks/useNotification';
+import { useAuthStore } from '../../store';
+import {
+  UnionLocal,
+  UnionLocalFormData,
+  UnionRate,
+  UnionRateFormData,
+  UnionRemittanceAmounts,
+  UnionRemittanceReport,
+} from '../../types/timekeeping.types';
+
+// Roles allowed to maintain locals and wage packages (matches backend unionAdminRoles)
+const UNION_ADMIN_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+// Roles allowed to view wage packages and remittances (matches backend payrollRoles)
+const PAYROLL_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER'];
+
+interface LocalFormState {
+  number: string;
+  name: string;
+  notes: string;
+  isActive: boolean;
+}
+
+interface RateFormState {
+  classification: string;
+  effectiveDate: string;
+  wage: string;
+  healthPerHour: string;
+  pensionPerHour: string;
+  nebfPercent: string;
+  apprenticeshipPerHour: string;
+}
+
+const EMPTY_LOCAL_FORM: LocalFormState = {
+  number: '',
+  name: '',
+  notes: '',
+  isActive: true,
+};
+
+// IBEW inside agreements typically change on June 1
+const defaultEffectiveDate = (): string => `${new Date().getFullYear()}-06-01`;
+
+const EMPTY_RATE_FORM = (): RateFormState => ({
+  classification: '',
+  effectiveDate: defaultEffectiveDate(),
+  wage: '',
+  healthPerHour: '',
+  pensionPerHour: '',
+  nebfPercent: '3',
+  apprenticeshipPerHour: '',
+});
+
+const currentMonth = (): string => new Date().toISOString().slice(0, 7);
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const formatDate = (date: string) => new Date(date.split('T')[0]! + 'T00:00:00').toLocaleDateString();
+
+const parseAmount = (value: string): number => (value === '' ? 0 : parseFloat(value));
+
+const UnionLocals: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const { user } = useAuthStore();
+  const canEdit = !!user && UNION_ADMIN_ROLES.includes(user.role);
+  const canViewPayroll = !!user && PAYROLL_ROLES.includes(user.role);
+
+  const [locals, setLocals] = useState<UnionLocal[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [selectedLocal, setSelectedLocal] = useState<UnionLocal | null>(null);
+
+  const [localDialogOpen, setLocalDialogOpen] = useState(false);
+  const [editingLocal, setEditingLocal] = useState<UnionLocal | null>(null);
+  const [localForm, setLocalForm] = useState<LocalFormState>(EMPTY_LOCAL_FORM);
+  const [localToDelete, setLocalToDelete] = useState<UnionLocal | null>(null);
+
+  const [rates, setRates] = useState<UnionRate[]>([]);
+  const [ratesLoading, setRatesLoading] = useState(false);
+  const [rateDialogOpen, setRateDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<UnionRate | null>(null);
+  const [rateForm, setRateForm] = useState<RateFormState>(EMPTY_RATE_FORM());
+  const [rateToDelete, setRateToDelete] = useState<UnionRate | null>(null);
+
+  const [month, setMonth] = useState(currentMonth());
+  const [remittanceLocalId, setRemittanceLocalId] = useState('');
+  const [report, setReport] = useState<UnionRemittanceReport | null>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  const loadLocals = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await unionService.getUnionLocals(true);
+      setLocals(data);
+      // Keep the selected local's counts and status in step
+      setSelectedLocal((prev) => (prev ? data.find((local) => local.id === prev.id) || null : null));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load union locals');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  const loadRates = useCallback(async () => {
+    if (!selectedLocal || !canViewPayroll) {
+      setRates([]);
+      return;
+    }
+
+    setRatesLoading(true);
+    try {
+      setRates(await unionService.getUnionRates(selectedLocal.id));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load wage packages');
+    } finally {
+      setRatesLoading(false);
+    }
+  }, [selectedLocal, canViewPayroll, showError]);
+
+  const loadReport = useCallback(async () => {
+    if (!canViewPayroll || !month) return;
+
+    setReportLoading(true);
+    try {
+      setReport(await unionService.getRemittanceReport(month, remittanceLocalId || undefined));
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to load remittance report');
+    } finally {
+      setReportLoading(false);
+    }
+  }, [canViewPayroll, month, remittanceLocalId, showError]);
+
+  useEffect(() => {
+    loadLocals();
+  }, [loadLocals]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // Local create/edit dialog
+  const handleOpenLocalDialog = (local?: UnionLocal) => {
+    if (local) {
+      setEditingLocal(local);
+      setLocalForm({
+        number: local.number,
+        name: local.name,
+        notes: local.notes || '',
+        isActive: local.isActive,
+      });
+    } else {
+      setEditingLocal(null);
+      setLocalForm(EMPTY_LOCAL_FORM);
+    }
+    setLocalDialogOpen(true);
+  };
+
+  const handleCloseLocalDialog = () => {
+    setLocalDialogOpen(false);
+    setEditingLocal(null);
+  };
+
+  const handleSaveLocal = async () => {
+    if (!localForm.number.trim() || !localForm.name.trim()) {
+      showError('Local number and name are required');
+      return;
+    }
+
+    const data: UnionLocalFormData = {
+      number: localForm.number.trim(),
+      name: localForm.name.trim(),
+      notes: localForm.notes.trim() || null,
+      isActive: localForm.isActive,
+    };
+
+    setSaving(true);
+    try {
+      if (editingLocal) {
+        await unionService.updateUnionLocal(editingLocal.id, data);
+        showSuccess('Union local updated successfully');
+      } else {
+        await unionService.createUnionLocal(data);
+        showSuccess('Union local created successfully');
+      }
+      handleCloseLocalDialog();
+      await loadLocals();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save union local');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmDeleteLocal = async () => {
+    if (!localToDelete) return;
+
+    try {
+      await unionService.deleteUnionLocal(localToDelete.id);
+      showSuccess('Union local deleted successfully');
+      if (selectedLocal?.id === localToDelete.id) {
+        setSelectedLocal(null);
+      }
+      await loadLocals();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to delete union local');
+    } finally {
+      setLocalToDelete(null);
+    }
+  };
+
+  // Wage package create/edit dialog
+  const handleOpenRateDialog = (rate?: UnionRate) => {
+    if (rate) {
+      setEditingRate(rate);
+      setRateForm({
+        classification: rate.classification,
+        effectiveDate: rate.effectiveDate.split('T')[0]!,
+        wage: rate.wage.toString(),
+        healthPerHour: rate.healthPerHour.toString(),
+        pensionPerHour: rate.pensionPerHour.toString(),
+        nebfPercent: rate.nebfPercent.toString(),
+        apprenticeshipPerHour: rate.apprenticeshipPerHour.toString(),
+      });
+    } else {
+      setEditingRate(null);
+      setRateForm(EMPTY_RATE_FORM());
+    }
+    setRateDialogOpen(true);
+  };
+
+  const handleCloseRateDialog = () => {
+    setRateDialogOpen(false);
+    setEditingRate(null);
+  };
+
+  const handleRateFieldChange = (field: keyof RateFormState, value: string) => {
+    setRateForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSaveRate = async () => {
+    if (!selectedLocal) return;
+
+    if (!rateForm.classification.trim() || !rateForm.effectiveDate || rateForm.wage === '') {
+      showError('Classification, effective date and wage are required');
+      return;
+    }
+
+    const data: UnionRateFormData = {
+      classification: rateForm.classification.trim(),
+      effectiveDate: rateForm.effectiveDate,
+      wage: parseFloat(rateForm.wage),
+      healthPerHour: parseAmount(rateForm.healthPerHour),
+      pensionPerHour: parseAmount(rateForm.pensionPerHour),
+      nebfPercent: parseAmount(rateForm.nebfPercent),
+      apprenticeshipPerHour: parseAmount(rateForm.apprenticeshipPerHour),
+    };
+
+    setSaving(true);
+    try {
+      if (editingRate) {
+        await unionService.updateUnionRate(selectedLocal.id, editingRate.id, data);
+        showSuccess('Wage package updated successfully');
+      } else {
+        await unionService.createUnionRate(selectedLocal.id, data);
+        showSuccess('Wage package added successfully');
+      }
+      handleCloseRateDialog();
+      await loadRates();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to save wage package');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmDeleteRate = async () => {
+    if (!selectedLocal || !rateToDelete) return;
+
+    try {
+      await unionService.deleteUnionRate(selectedLocal.id, rateToDelete.id);
+      showSuccess('Wage package deleted successfully');
+      await loadRates();
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to delete wage package');
+    } finally {
+      setRateToDelete(null);
+    }
+  };
+
+  const handleDownloadRemittance = async () => {
+    setDownloading(true);
+    try {
+      await unionService.downloadRemittanceCSV(month, remittanceLocalId || undefined);
+      showSuccess('Remittance report downloaded');
+    } catch (error: any) {
+      showError(error?.error?.message || error?.message || 'Failed to download remittance report');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const renderAmountCells = (amounts: UnionRemittanceAmounts) => (
+    <>
+      <TableCell align="right">{amounts.hours.toFixed(2)}</TableCell>
+      <TableCell align="right">{formatCurrency(amounts.grossWages)}</TableCell>
+      <TableCell align="right">{formatCurrency(amounts.health)}</TableCell>
+      <TableCell align="right">{formatCurrency(amounts.pension)}</TableCell>
+      <TableCell align="right">{formatCurrency(amounts.nebf)}</TableCell>
+      <TableCell align="right">{formatCurrency(amounts.apprenticeship)}</TableCell>
+      <TableCell align="right">
+        <strong>{formatCurrency(amounts.totalFringes)}</strong>
+      </TableCell>
+    </>
+  );
+
+  const unratedHours = report?.locals.reduce((sum, local) => sum + local.totals.unratedHours, 0) || 0;
+
+  return (
+    <Box sx={{ p: { xs: 1, sm: 2 } }}>
+      <Stack
+        direction={{ xs: 'column', sm: 'row' }}
+        justifyContent="space-between"
+        alignItems={{ xs: 'flex-start', sm: 'center' }}
+        spacing={2}
+        sx={{ mb: 2 }}
+      >
+        <Box>
+          <Typography variant="h5">Union Locals</Typography>
+          <Typography variant="body2" color="text.secondary">
+            IBEW locals and their wage and fringe packages. Assign a local on each employee and project; hours
+            on a project are remitted to the project's local, otherwise to the employee's home local.
+          </Typography>
+        </Box>
+        {canEdit && (
+          <Button variant="contained" startIcon={<Add />} onClick={() => handleOpenLocalDialog()}>
+            Add Local
+          </Button>
+        )}
+      </Stack>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Local</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell align="right">Employees</TableCell>
+                <TableCell align="right">Projects</TableCell>
+                <TableCell>Status</TableCell>
+                {canEdit && <TableCell align="right">Actions</TableCell>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {locals.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 6 : 5} align="center">
+                    <Typography color="text.secondary" sx={{ py: 2 }}>
+                      No union locals configured
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                locals.map((local) => (
+                  <TableRow
+                    key={local.id}
+                    hover
+                    selected={selectedLocal?.id === local.id}
+                    onClick={() => setSelectedLocal(local)}
+                    sx={{ cursor: 'pointer' }}
+                  >
+                    <TableCell>{local.number}</TableCell>
+                    <TableCell>
+                      {local.name}
+                      {local.notes && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {local.notes}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{local.employeeCount ?? 0}</TableCell>
+                    <TableCell align="right">{local.projectCount ?? 0}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={local.isActive ? 'Active' : 'Inactive'}
+                        color={local.isActive ? 'success' : 'default'}
+                        size="small"
+                      />
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell align="right" onClick={(e) => e.stopPropagation()}>
+                        <Tooltip title="Edit">
+                          <IconButton size="small" onClick={() => handleOpenLocalDialog(local)}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton size="small" color="error" onClick={() => setLocalToDelete(local)}>
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Wage and fringe packages for the selected local */}
+      {canViewPayroll && selectedLocal && (
+        <Paper sx={{ mt: 3, p: 2 }}>
+          <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+            <Box>
+              <Typography variant="h6">Local {selectedLocal.number} Wage Packages</Typography>
+              <Typography variant="body2" color="text.secondary">
+                Each package applies from its effective date until the next one for the classification.
+              </Typography>
+            </Box>
+            {canEdit && (
+              <Button size="small" variant="contained" startIcon={<Add />} onClick={() => handleOpenRateDialog()}>
+                Add Package
+              </Button>
+            )}
+          </Stack>
+
+          {ratesLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+              <CircularProgress size={32} />
+            </Box>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Classification</TableCell>
+                    <TableCell>Effective</TableCell>
+                    <TableCell align="right">Wage</TableCell>
+                    <TableCell align="right">Health/hr</TableCell>
+                    <TableCell align="right">Pension/hr</TableCell>
+                    <TableCell align="right">NEBF</TableCell>
+                    <TableCell align="right">Apprenticeship/hr</TableCell>
+                    {canEdit && <TableCell align="right">Actions</TableCell>}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rates.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={canEdit ? 8 : 7} align="center">
+                        <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+                          No wage packages for this local
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    rates.map((rate) => (
+                      <TableRow key={rate.id} hover>
+                        <TableCell>{rate.classification}</TableCell>
+                        <TableCell>{formatDate(rate.effectiveDate)}</TableCell>
+                        <TableCell align="right">{formatCurrency(rate.wage)}</TableCell>
+                        <TableCell align="right">{formatCurrency(rate.healthPerHour)}</TableCell>
+                        <TableCell align="right">{formatCurrency(rate.pensionPerHour)}</TableCell>
+                        <TableCell align="right">{rate.nebfPercent}%</TableCell>
+                        <TableCell align="right">{formatCurrency(rate.apprenticeshipPerHour)}</TableCell>
+                        {canEdit && (
+                          <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                            <Tooltip title="Edit">
+                              <IconButton size="small" onClick={() => handleOpenRateDialog(rate)}>
+                                <Edit fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Delete">
+                              <IconButton size="small" color="error" onClick={() => setRateToDelete(rate)}>
+                                <Delete fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      )}
+
+      {/* Monthly fringe benefit remittance */}
+      {canViewPayroll && (
+        <Paper sx={{ mt: 3, p: 2 }}>
+          <Stack
+            direction={{ xs: 'column', md: 'row' }}
+            justifyContent="space-between"
+            alignItems={{ xs: 'flex-start', md: 'center' }}
+            spacing={2}
+            sx={{ mb: 2 }}
+          >
+            <Box>
+              <Typography variant="h6">Fringe Benefit Remittance</Typography>
+              <Typography variant="body2" color="text.secondary">
+                Approved hours for the month, costed at the package in effect on each work date.
+              </Typography>
+            </Box>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems="center">
+              <TextField
+                label="Month"
+                type="month"
+                size="small"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <FormControl size="small" sx={{ minWidth: 180 }}>
+                <InputLabel>Local</InputLabel>
+                <Select
+                  value={remittanceLocalId}
+                  label="Local"
+                  onChange={(e) => setRemittanceLocalId(e.target.value)}
+                >
+                  <MenuItem value="">All Locals</MenuItem>
+                  {locals.map((local) => (
+                    <MenuItem key={local.id} value={local.id}>
+                      Local {local.number}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <Tooltip title="Refresh">
+                <IconButton onClick={loadReport} disabled={reportLoading}>
+                  <Refresh />
+                </IconButton>
+              </Tooltip>
+              <Button
+                variant="outlined"
+                startIcon={<Download />}
+                onClick={handleDownloadRemittance}
+                disabled={downloading || !month}
+              >
+                Export CSV
+              </Button>
+            </Stack>
+          </Stack>
+
+          {unratedHours > 0 && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              {unratedHours.toFixed(2)} hours have no wage package on file for the employee's classification and
+              are excluded from the amounts below.
+            </Alert>
+          )}
+
+          {reportLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+              <CircularProgress size={32} />
+            </Box>
+          ) : !report || report.locals.length === 0 ? (
+            <Typography color="text.secondary" align="center" sx={{ py: 2 }}>
+              No approved union hours for this month
+            </Typography>
+          ) : (
+            report.locals.map((local) => (
+              <Box key={local.unionLocalId} sx={{ mb: 3 }}>
+                <Typography variant="subtitle1" fontWeight="bold" sx={{ mb: 1 }}>
+                  Local {local.number} — {local.name}
+                </Typography>
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Employee</TableCell>
+                        <TableCell>Classification</TableCell>
+                        <TableCell align="right">Hours</TableCell>
+                        <TableCell align="right">Gross Wages</TableCell>
+                        <TableCell align="right">Health</TableCell>
+                        <TableCell align="right">Pension</TableCell>
+                        <TableCell align="right">NEBF</TableCell>
+                        <TableCell align="right">Apprenticeship</TableCell>
+                        <TableCell align="right">Total Fringes</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {local.employees.map((employee) => (
+                        <TableRow key={`${employee.employeeId}-${employee.classification}`} hover>
+                          <TableCell>
+                            {employee.name}
+                            {employee.homeLocalNumber && employee.homeLocalNumber !== local.number && (
+                              <Chip label={`Traveler (Local ${employee.homeLocalNumber})`} size="small" sx={{ ml: 1 }} />
+                            )}
+                          </TableCell>
+                          <TableCell>{employee.classification}</TableCell>
+                          {renderAmountCells(employee)}
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell colSpan={2}>
+                          <strong>Total</strong>
+                        </TableCell>
+                        {renderAmountCells(local.totals)}
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            ))
+          )}
+        </Paper>
+      )}
+
+      {/* Create/Edit Local Dialog */}
+      <Dialog open={localDialogOpen} onClose={handleCloseLocalDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingLocal ? 'Edit Union Local' : 'New Union Local'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+              <TextField
+                label="Local Number"
+                value={localForm.number}
+                onChange={(e) => setLocalForm({ ...localForm, number: e.target.value })}
+                helperText="e.g. 46"
+                required
+                fullWidth
+              />
+              <TextField
+                label="Name"
+                value={localForm.name}
+                onChange={(e) => setLocalForm({ ...localForm, name: e.target.value })}
+                helperText="e.g. IBEW Local 46"
+                required
+                fullWidth
+              />
+            </Stack>
+
+            <TextField
+              label="Notes"
+              value={localForm.notes}
+              onChange={(e) => setLocalForm({ ...localForm, notes: e.target.value })}
+              multiline
+              rows={2}
+              fullWidth
+            />
+
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={localForm.isActive}
+                  onChange={(e) => setLocalForm({ ...localForm, isActive: e.target.checked })}
+                />
+              }
+              label="Active (inactive locals cannot be assigned)"
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseLocalDialog} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSaveLocal} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Create/Edit Wage Package Dialog */}
+      <Dialog open={rateDialogOpen} onClose={handleCloseRateDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingRate ? 'Edit Wage Package' : 'New Wage Package'}</DialogTitle>
+        <DialogContent>
+          <Box display="grid" gridTemplateColumns="1fr 1fr" gap={2} mt={1}>
+            <TextField
+              label="Classification"
+              value={rateForm.classification}
+              onChange={(e) => handleRateFieldChange('classification', e.target.value)}
+              helperText="Must match the employee classification"
+              required
+            />
+            <TextField
+              label="Effective Date"
+              type="date"
+              value={rateForm.effectiveDate}
+              onChange={(e) => handleRateFieldChange('effectiveDate', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              required
+            />
+            <TextField
+              label="Hourly Wage"
+              type="number"
+              value={rateForm.wage}
+              onChange={(e) => handleRateFieldChange('wage', e.target.value)}
+              inputProps={{ min: 0, step: 0.01 }}
+              required
+            />
+            <TextField
+              label="Health per Hour"
+              type="number"
+              value={rateForm.healthPerHour}
+              onChange={(e) => handleRateFieldChange('healthPerHour', e.target.value)}
+              inputProps={{ min: 0, step: 0.01 }}
+            />
+            <TextField
+              label="Pension per Hour"
+              type="number"
+              value={rateForm.pensionPerHour}
+              onChange={(e) => handleRateFieldChange('pensionPerHour', e.target.value)}
+              inputProps={{ min: 0, step: 0.01 }}
+            />
+            <TextField
+              label="NEBF %"
+              type="number"
+              value={rateForm.nebfPercent}
+              onChange={(e) => handleRateFieldChange('nebfPercent', e.target.value)}
+              inputProps={{ min: 0, max: 100, step: 0.01 }}
+              helperText="Percent of gross wages"
+            />
+            <TextField
+              label="Apprenticeship per Hour"
+              type="number"
+              value={rateForm.apprenticeshipPerHour}
+              onChange={(e) => handleRateFieldChange('apprenticeshipPerHour', e.target.value)}
+              inputProps={{ min: 0, step: 0.01 }}
+              helperText="JATC training fund"
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseRateDialog} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSaveRate} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Local Confirmation Dialog */}
+      <Dialog open={!!localToDelete} onClose={() => setLocalToDelete(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Warning color="error" />
+            <Typography variant="h6">Delete Union Local?</Typography>
+          </Stack>
+        </DialogTitle>
+        <DialogContent>
+          <Typography>
+            Are you sure you want to delete <strong>Local {localToDelete?.number}</strong> and its wage packages?
+            Locals assigned to employees or projects cannot be deleted; deactivate them instead.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setLocalToDelete(null)}>Cancel</Button>
+          <Button variant="contained" color="error" onClick={handleConfirmDeleteLocal}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Wage Package Confirmation Dialog */}
+      <Dialog open={!!rateToDelete} onClose={() => setRateToDelete(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Delete Wage Package</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Delete the {rateToDelete?.classification} package effective{' '}
+            {rateToDelete ? formatDate(rateToDelete.effectiveDate) : ''}? Hours in that period will be remitted at
+            the previous package.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRateToDelete(null)}>Cancel</Button>
+          <Button variant="contained" color="error" onClick={handleConfirmDeleteRate}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default UnionLocals;
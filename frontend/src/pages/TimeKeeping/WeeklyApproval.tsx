@@ -0,0 +1,490 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  Alert,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  Tooltip,
+  MenuItem,
+} from '@mui/material';
+import { CheckCircle, Cancel, Send, Visibility, Refresh, Lock } from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { startOfWeek, subWeeks, format, parseISO } from 'date-fns';
+import weeklyTimesheetService from '../../services/weekly-timesheet.service';
+import { useNotification } from '../../hooks/useNotification';
+import { useAuthStore } from '../../store';
+import { WeeklyTimesheet, WeeklyTimesheetStatus } from '../../types/timekeeping.types';
+
+// Roles allowed to approve and reject weeks (matches backend approvalRoles)
+const APPROVAL_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER'];
+
+const STATUS_COLORS: Record<WeeklyTimesheetStatus, 'default' | 'info' | 'success' | 'error'> = {
+  DRAFT: 'default',
+  SUBMITTED: 'info',
+  APPROVED: 'success',
+  REJECTED: 'error',
+};
+
+type ReviewAction = 'approve' | 'reject';
+
+// Dates come back as UTC midnight; read them as calendar dates
+const formatDate = (value: string, pattern = 'MMM d') => format(parseISO(value.split('T')[0]!), pattern);
+
+const formatUser = (user: { firstName: string; lastName: string } | null) =>
+  user ? `${user.firstName} ${user.lastName}` : '';
+
+const WeeklyApproval: React.FC = () => {
+  const { success: showSuccess, error: showError } = useNotification();
+  const { user } = useAuthStore();
+  const canApprove = !!user && APPROVAL_ROLES.includes(user.role);
+
+  // Default to the most recent completed week (Monday - Sunday)
+  const [weekOf, setWeekOf] = useState<Date>(startOfWeek(subWeeks(new Date(), 1), { weekStartsOn: 1 }));
+  const [statusFilter, setStatusFilter] = useState<WeeklyTimesheetStatus | ''>('');
+
+  const [timesheets, setTimesheets] = useState<WeeklyTimesheet[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+
+  const [detail, setDetail] = useState<WeeklyTimesheet | null>(null);
+  const [loadingDetail, setLoadingDetail] = useState(false);
+
+  const [reviewTarget, setReviewTarget] = useState<WeeklyTimesheet | null>(null);
+  const [reviewAction, setReviewAction] = useState<ReviewAction>('approve');
+  const [reviewComments, setReviewComments] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const weekStartStr = format(startOfWeek(weekOf, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+  const loadTimesheets = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await weeklyTimesheetService.getWeeklyTimesheets({
+        weekStart: weekStartStr,
+        status: statusFilter || undefined,
+      });
+      setTimesheets(data);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to load weekly timesheets');
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStartStr, statusFilter, showError]);
+
+  useEffect(() => {
+    loadTimesheets();
+  }, [loadTimesheets]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const result = await weeklyTimesheetService.generateWeeklyTimesheets(weekStartStr);
+      showSuccess(
+        `Generated ${result.generated} weekly timesheet${result.generated === 1 ? '' : 's'}` +
+          (result.skipped ? ` (${result.skipped} submitted or approved left unchanged)` : '')
+      );
+      await loadTimesheets();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to generate weekly timesheets');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleViewDetail = async (timesheet: WeeklyTimesheet) => {
+    setDetail(timesheet);
+    setLoadingDetail(true);
+    try {
+      const data = await weeklyTimesheetService.getWeeklyTimesheetById(timesheet.id);
+      setDetail(data);
+    } catch (error: any) {
+      showError(error?.message || 'Failed to load weekly timesheet');
+    } finally {
+      setLoadingDetail(false);
+    }
+  };
+
+  const handleSubmit = async (timesheet: WeeklyTimesheet) => {
+    try {
+      await weeklyTimesheetService.submitWeeklyTimesheet(timesheet.id);
+      showSuccess('Weekly timesheet submitted for approval');
+      await loadTimesheets();
+    } catch (error: any) {
+      showError(error?.message || 'Failed to submit weekly timesheet');
+    }
+  };
+
+  const handleOpenReview = (timesheet: WeeklyTimesheet, action: ReviewAction) => {
+    setReviewTarget(timesheet);
+    setReviewAction(action);
+    setReviewComments('');
+  };
+
+  const handleCloseReview = () => {
+    setReviewTarget(null);
+  };
+
+  const handleConfirmReview = async () => {
+    if (!reviewTarget) return;
+
+    if (reviewAction === 'reject' && !reviewComments.trim()) {
+      showError('Comments are required when rejecting a week');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (reviewAction === 'approve') {
+        await weeklyTimesheetService.approveWeeklyTimesheet(reviewTarget.id, reviewComments.trim() || undefined);
+        showSuccess('Weekly timesheet approved; its time entries are now locked');
+      } else {
+        await weeklyTimesheetService.rejectWeeklyTimesheet(reviewTarget.id, reviewComments.trim());
+        showSuccess('Weekly timesheet rejected');
+      }
+      handleCloseReview();
+      await loadTimesheets();
+    } catch (error: any) {
+      showError(error?.message || `Failed to ${reviewAction} weekly timesheet`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const submittedCount = timesheets.filter((t) => t.status === 'SUBMITTED').length;
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box sx={{ p: { xs: 1, sm: 2 } }}>
+        <Typography variant="h5" sx={{ mb: 0.5 }}>
+          Weekly Approval
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Each employee&apos;s week of time entries with regular and overtime totals. Approved weeks
+          lock their entries, and only approved weeks are included in payroll exports.
+        </Typography>
+
+        <Stack
+          direction={{ xs: 'column', sm: 'row' }}
+          spacing={2}
+          alignItems={{ xs: 'stretch', sm: 'center' }}
+          sx={{ mb: 2 }}
+        >
+          <DatePicker
+            label="Week Of"
+            value={weekOf}
+            onChange={(newValue) => newValue && setWeekOf(newValue)}
+            slotProps={{ textField: { size: 'small' } }}
+          />
+          <TextField
+            select
+            size="small"
+            label="Status"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as WeeklyTimesheetStatus | '')}
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            <MenuItem value="DRAFT">Draft</MenuItem>
+            <MenuItem value="SUBMITTED">Submitted</MenuItem>
+            <MenuItem value="APPROVED">Approved</MenuItem>
+            <MenuItem value="REJECTED">Rejected</MenuItem>
+          </TextField>
+          <Button
+            variant="contained"
+            startIcon={generating ? <CircularProgress size={18} color="inherit" /> : <Refresh />}
+            onClick={handleGenerate}
+            disabled={generating}
+          >
+            Generate Week
+          </Button>
+        </Stack>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Week of {format(parseISO(weekStartStr), 'MMM d, yyyy')}
+          {submittedCount > 0 && ` · ${submittedCount} awaiting approval`}
+        </Typography>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Employee</TableCell>
+                  <TableCell>Classification</TableCell>
+                  <TableCell align="right">Total</TableCell>
+                  <TableCell align="right">Regular</TableCell>
+                  <TableCell align="right">OT</TableCell>
+                  <TableCell align="right">DT</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Comments</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {timesheets.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} align="center">
+                      <Typography color="text.secondary" sx={{ py: 2 }}>
+                        No weekly timesheets for this week. Use Generate Week to build them from time entries.
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  timesheets.map((timesheet) => (
+                    <TableRow key={timesheet.id} hover>
+                      <TableCell>
+                        {timesheet.employee
+                          ? `${timesheet.employee.firstName} ${timesheet.employee.lastName}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell>{timesheet.employee?.classification || '—'}</TableCell>
+                      <TableCell align="right">{timesheet.totalHours.toFixed(2)}</TableCell>
+                      <TableCell align="right">{timesheet.regularHours.toFixed(2)}</TableCell>
+                      <TableCell align="right">{timesheet.overtimeHours.toFixed(2)}</TableCell>
+                      <TableCell align="right">{timesheet.doubleTimeHours.toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={timesheet.status}
+                          color={STATUS_COLORS[timesheet.status]}
+                          size="small"
+                          icon={timesheet.isLocked ? <Lock fontSize="small" /> : undefined}
+                        />
+                      </TableCell>
+                      <TableCell sx={{ maxWidth: 240 }}>
+                        <Typography variant="body2" noWrap title={timesheet.reviewComments || ''}>
+                          {timesheet.reviewComments || '—'}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                        <Tooltip title="View Entries">
+                          <IconButton size="small" onClick={() => handleViewDetail(timesheet)}>
+                            <Visibility fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        {(timesheet.status === 'DRAFT' || timesheet.status === 'REJECTED') && (
+                          <Tooltip title="Submit for Approval">
+                            <IconButton size="small" color="primary" onClick={() => handleSubmit(timesheet)}>
+                              <Send fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        {canApprove && timesheet.status === 'SUBMITTED' && (
+                          <Tooltip title="Approve">
+                            <IconButton
+                              size="small"
+                              color="success"
+                              onClick={() => handleOpenReview(timesheet, 'approve')}
+                            >
+                              <CheckCircle fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        {canApprove && (timesheet.status === 'SUBMITTED' || timesheet.status === 'APPROVED') && (
+                          <Tooltip title={timesheet.status === 'APPROVED' ? 'Reopen (Reject)' : 'Reject'}>
+                            <IconButton
+                              size="small"
+                              color="error"
+                              onClick={() => handleOpenReview(timesheet, 'reject')}
+                            >
+                              <Cancel fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {/* Week Detail Dialog */}
+        <Dialog open={!!detail} onClose={() => setDetail(null)} maxWidth="md" fullWidth>
+          <DialogTitle>
+            {detail?.employee ? `${detail.employee.firstName} ${detail.employee.lastName}` : 'Weekly Timesheet'}
+            {detail && (
+              <Typography variant="body2" color="text.secondary">
+                {formatDate(detail.weekStartDate)} – {formatDate(detail.weekEndDate, 'MMM d, yyyy')}
+              </Typography>
+            )}
+          </DialogTitle>
+          <DialogContent dividers>
+            {detail && (
+              <Stack spacing={2}>
+                <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                  <Chip label={detail.status} color={STATUS_COLORS[detail.status]} size="small" />
+                  <Chip label={`${detail.totalHours.toFixed(2)} total`} size="small" variant="outlined" />
+                  <Chip label={`${detail.regularHours.toFixed(2)} regular`} size="small" variant="outlined" />
+                  <Chip label={`${detail.overtimeHours.toFixed(2)} OT`} size="small" variant="outlined" />
+                  <Chip label={`${detail.doubleTimeHours.toFixed(2)} DT`} size="small" variant="outlined" />
+                </Stack>
+
+                {detail.submittedBy && detail.submittedAt && (
+                  <Typography variant="body2">
+                    Submitted by {formatUser(detail.submittedBy)} on{' '}
+                    {format(new Date(detail.submittedAt), 'MMM d, h:mm a')}
+                  </Typography>
+                )}
+                {detail.approvedBy && detail.approvedAt && (
+                  <Typography variant="body2">
+                    Approved by {formatUser(detail.approvedBy)} on{' '}
+                    {format(new Date(detail.approvedAt), 'MMM d, h:mm a')}
+                  </Typography>
+                )}
+                {detail.rejectedBy && detail.rejectedAt && detail.status === 'REJECTED' && (
+                  <Typography variant="body2">
+                    Rejected by {formatUser(detail.rejectedBy)} on{' '}
+                    {format(new Date(detail.rejectedAt), 'MMM d, h:mm a')}
+                  </Typography>
+                )}
+                {detail.notes && <Alert severity="info">Employee notes: {detail.notes}</Alert>}
+                {detail.reviewComments && (
+                  <Alert severity={detail.status === 'REJECTED' ? 'warning' : 'success'}>
+                    Review comments: {detail.reviewComments}
+                  </Alert>
+                )}
+
+                {loadingDetail ? (
+                  <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+                    <CircularProgress size={24} />
+                  </Box>
+                ) : (
+                  <TableContainer>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Date</TableCell>
+                          <TableCell>Project</TableCell>
+                          <TableCell align="right">Hours</TableCell>
+                          <TableCell>Work Type</TableCell>
+                          <TableCell>Entry Status</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {(detail.timeEntries || []).length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={5} align="center">
+                              <Typography color="text.secondary">No time entries this week</Typography>
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          (detail.timeEntries || []).map((entry) => (
+                            <TableRow key={entry.id}>
+                              <TableCell>{formatDate(entry.date, 'EEE MMM d')}</TableCell>
+                              <TableCell>
+                                {entry.project
+                                  ? `${entry.project.projectNumber} - ${entry.project.name}`
+                                  : '—'}
+                              </TableCell>
+                              <TableCell align="right">{entry.hoursWorked.toFixed(2)}</TableCell>
+                              <TableCell>{entry.workType}</TableCell>
+                              <TableCell>
+                                <Chip
+                                  label={entry.status}
+                                  size="small"
+                                  variant="outlined"
+                                  color={
+                                    entry.status === 'APPROVED'
+                                      ? 'success'
+                                      : entry.status === 'REJECTED'
+                                        ? 'error'
+                                        : 'default'
+                                  }
+                                />
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </Stack>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDetail(null)}>Close</Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Approve / Reject Dialog */}
+        <Dialog open={!!reviewTarget} onClose={handleCloseReview} maxWidth="sm" fullWidth>
+          <DialogTitle>
+            {reviewAction === 'approve' ? 'Approve Weekly Timesheet' : 'Reject Weekly Timesheet'}
+          </DialogTitle>
+          <DialogContent>
+            {reviewTarget && (
+              <Typography sx={{ mb: 2 }}>
+                {reviewTarget.employee
+                  ? `${reviewTarget.employee.firstName} ${reviewTarget.employee.lastName}`
+                  : 'Employee'}{' '}
+                — week of {formatDate(reviewTarget.weekStartDate, 'MMM d, yyyy')},{' '}
+                {reviewTarget.totalHours.toFixed(2)} hours
+              </Typography>
+            )}
+            {reviewAction === 'approve' ? (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Approving also approves the week&apos;s pending time entries and locks them against changes.
+              </Alert>
+            ) : (
+              reviewTarget?.status === 'APPROVED' && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  This week is approved. Rejecting it unlocks its time entries and removes it from
+                  payroll exports until it is approved again.
+                </Alert>
+              )
+            )}
+            <TextField
+              label="Comments"
+              value={reviewComments}
+              onChange={(e) => setReviewComments(e.target.value)}
+              required={reviewAction === 'reject'}
+              helperText={reviewAction === 'reject' ? 'Tell the employee what to correct' : 'Optional'}
+              multiline
+              minRows={3}
+              fullWidth
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={handleCloseReview} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              variant="contained"
+              color={reviewAction === 'approve' ? 'success' : 'error'}
+              onClick={handleConfirmReview}
+              disabled={saving}
+            >
+              {saving ? <CircularProgress size={20} /> : reviewAction === 'approve' ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    </LocalizationProvider>
+  );
+};
+
+export default WeeklyApproval;
@@ -9,10 +9,26 @@ import {
   AccessTime,
   Schedule,
   Assessment,
+  Rule,
+  Gavel,
+  School,
+  PunchClock,
+  FactCheck,
+  EventAvailable,
+  AccountTree,
+  Groups,
 } from '@mui/icons-material';
 import SignInSheet from './SignInSheet';
 import TimeEntryManagement from './TimeEntryManagement';
 import TimeReports from './TimeReports';
+import OvertimePolicies from './OvertimePolicies';
+import CertifiedPayroll from './CertifiedPayroll';
+import Apprenticeship from './Apprenticeship';
+import TimeClockPolicies from './TimeClockPolicies';
+import WeeklyApproval from './WeeklyApproval';
+import PayrollPeriods from './PayrollPeriods';
+import CostCodes from './CostCodes';
+import UnionLocals from './UnionLocals';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -57,6 +73,8 @@ const TimeKeeping: React.FC = () => {
           value={tabValue}
           onChange={handleTabChange}
           aria-label="time keeping tabs"
+          variant="scrollable"
+          scrollButtons="auto"
           sx={{
             borderBottom: 1,
             borderColor: 'divider',
@@ -84,6 +102,62 @@ const TimeKeeping: React.FC = () => {
             {...a11yProps(2)}
             sx={{ minHeight: 64 }}
           />
+          <Tab
+            icon={<Rule />}
+            iconPosition="start"
+            label="Overtime Rules"
+            {...a11yProps(3)}
+            sx={{ minHeight: 64 }}
+          />
+          <Tab
+            icon={<Gavel />}
+            iconPosition="start"
+            label="Certified Payroll"
+            {...a11yProps(4)}
+            sx={{ minHeight: 64 }}
+          />
+          <Tab
+            icon={<School />}
+            iconPosition="start"
+            label="Apprentices"
+            {...a11yProps(5)}
+            sx={{ minHeight: 64 }}
+          />
+          <Tab
+            icon={<PunchClock />}
+            iconPosition="start"
+            label="Time Clock Rules"
+            {...a11yProps(6)}
+            sx={{ minHeight: 64 }}
+          />
+          <Tab
+            icon={<FactCheck />}
+            iconPosition="start"
+            label="Weekly Approval"
+            {...a11yProps(7)}
+            sx={{ minHeight: 64 }}
+          />
+          <Tab
+            icon={<EventAvailable />}
+            iconPosition="start"
+            label="Payroll Periods"
+            {...a11yProps(8)}
+            sx={{ minHeight: 64 }}
+          />
+          <Tab
+            icon={<AccountTree />}
+            iconPosition="start"
+            label="Cost Codes"
+            {...a11yProps(9)}
+            sx={{ minHeight: 64 }}
+          />
+          <Tab
+            icon={<Groups />}
+            iconPosition="start"
+            label="Union Locals"
+            {...a11yProps(10)}
+            sx={{ minHeight: 64 }}
+          />
         </Tabs>
       </Paper>
 
@@ -96,6 +170,30 @@ const TimeKeeping: React.FC = () => {
       <TabPanel value={tabValue} index={2}>
         <TimeReports />
       </TabPanel>
+      <TabPanel value={tabValue} index={3}>
+        <OvertimePolicies />
+      </TabPanel>
+      <TabPanel value={tabValue} index={4}>
+        <CertifiedPayroll />
+      </TabPanel>
+      <TabPanel value={tabValue} index={5}>
+        <Apprenticeship />
+      </TabPanel>
+      <TabPanel value={tabValue} index={6}>
+        <TimeClockPolicies />
+      </TabPanel>
+      <TabPanel value={tabValue} index={7}>
+        <WeeklyApproval />
+      </TabPanel>
+      <TabPanel value={tabValue} index={8}>
+        <PayrollPeriods />
+      </TabPanel>
+      <TabPanel value={tabValue} index={9}>
+        <CostCodes />
+      </TabPanel>
+      <TabPanel value={tabValue} index={10}>
+        <UnionLocals />
+      </TabPanel>
     </Box>
   );
 };
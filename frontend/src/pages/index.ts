@@ -35,12 +35,16 @@
 export { default as Login } from './Login';
 export { default as Dashboard } from './Dashboard';
 export { default as UserManagement } from './UserManagement';
+export { default as AuditLogs } from './AuditLogs';
 export { default as Settings } from './Settings';
 export { default as FileManagement } from './FileManagement';
 export { default as ClientManagement } from './ClientManagement';
 export { default as ClientDetail } from './ClientDetail';
 export { default as DailyLogManagement } from './DailyLogManagement';
 export { default as QuoteManagement } from './QuoteManagement';
+export { default as PriceBook } from './PriceBook';
+export { default as DispatchBoard } from './DispatchBoard';
+export { default as CrewSchedule } from './CrewSchedule';
 
 // Project pages
 export * from './Projects';
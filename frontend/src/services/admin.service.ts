@@ -58,6 +58,47 @@ export interface ResetPasswordRequest {
   newPassword: string;
 }
 
+export interface AuditLogEntry {
+  id: string;
+  actorId: string | null;
+  actor?: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    role: string;
+  };
+  action: string;
+  entityType: string;
+  entityId: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AuditLogsResponse {
+  success: boolean;
+  data: {
+    logs: AuditLogEntry[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  };
+}
+
 // Admin service functions
 export const adminService = {
   // Get all users with pagination
@@ -94,6 +135,18 @@ export const adminService = {
   resetUserPassword: async (userId: string, passwordData: ResetPasswordRequest): Promise<{ success: boolean; message: string }> => {
     const response = await api.post(`/admin/users/${userId}/reset-password`, passwordData);
     return response as unknown as { success: boolean; message: string };
+  },
+
+  // Get audit log entries with filters and pagination
+  getAuditLogs: async (
+    filters: AuditLogFilters = {},
+    page: number = 1,
+    limit: number = 50
+  ): Promise<AuditLogsResponse> => {
+    const response = await api.get('/admin/audit-logs', {
+      params: { ...filters, page, limit }
+    });
+    return response as unknown as AuditLogsResponse;
   }
 };
 
@@ -0,0 +1,93 @@
+import api from './api';
+import {
+  ApprenticeWorkCategory,
+  ApprenticeWorkCategoryFormData,
+  ApprenticeWorkCategoryResponse,
+  ApprenticeWorkCategoriesResponse,
+  ApprenticeProgress,
+  ApprenticeProgressResponse,
+  ApprenticeRatioCheck,
+  ApprenticeRatioCheckResponse,
+} from '../types/timekeeping.types';
+
+/**
+ * Apprenticeship Service
+ * Frontend API client for OJT work categories, apprentice progress and ratio checks
+ */
+
+/**
+ * Whether a classification is an apprentice (matches the API)
+ */
+export const isApprenticeClassification = (classification?: string | null): boolean =>
+  /apprentice/i.test(classification || '');
+
+/**
+ * Get OJT work categories
+ */
+export const getWorkCategories = async (includeInactive: boolean = false): Promise<ApprenticeWorkCategory[]> => {
+  const response = await api.get(
+    `/apprenticeship/categories${includeInactive ? '?includeInactive=true' : ''}`
+  ) as ApprenticeWorkCategoriesResponse;
+  return response.data;
+};
+
+/**
+ * Create an OJT work category
+ */
+export const createWorkCategory = async (
+  data: ApprenticeWorkCategoryFormData
+): Promise<ApprenticeWorkCategory> => {
+  const response = await api.post('/apprenticeship/categories', data) as ApprenticeWorkCategoryResponse;
+  return response.data;
+};
+
+/**
+ * Update an OJT work category
+ */
+export const updateWorkCategory = async (
+  id: string,
+  data: Partial<ApprenticeWorkCategoryFormData>
+): Promise<ApprenticeWorkCategory> => {
+  const response = await api.put(`/apprenticeship/categories/${id}`, data) as ApprenticeWorkCategoryResponse;
+  return response.data;
+};
+
+/**
+ * Delete an OJT work category
+ */
+export const deleteWorkCategory = async (id: string): Promise<void> => {
+  await api.delete(`/apprenticeship/categories/${id}`);
+};
+
+/**
+ * Get OJT hour progress for active apprentices
+ */
+export const getApprenticeProgress = async (employeeId?: string): Promise<ApprenticeProgress[]> => {
+  const response = await api.get(
+    `/apprenticeship/progress${employeeId ? `?employeeId=${employeeId}` : ''}`
+  ) as ApprenticeProgressResponse;
+  return response.data;
+};
+
+/**
+ * Check journeyman-to-apprentice ratios on project sign-ins for a date range
+ */
+export const getRatioCheck = async (
+  startDate: string,
+  endDate: string,
+  projectId?: string
+): Promise<ApprenticeRatioCheck[]> => {
+  const response = await api.get(
+    `/apprenticeship/ratio-check?startDate=${startDate}&endDate=${endDate}${projectId ? `&projectId=${projectId}` : ''}`
+  ) as ApprenticeRatioCheckResponse;
+  return response.data;
+};
+
+export default {
+  getWorkCategories,
+  createWorkCategory,
+  updateWorkCategory,
+  deleteWorkCategory,
+  getApprenticeProgress,
+  getRatioCheck,
+};
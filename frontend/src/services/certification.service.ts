@@ -0,0 +1,154 @@
+/**
+ * Certification Service
+ *
+ * Handles API communication for employee licenses and safety certifications,
+ * the expiring-soon report and sign-in certification warnings.
+ */
+
+import api, { ApiResponse } from './api';
+
+export type CertificationType =
+  | 'JOURNEYMAN_LICENSE'
+  | 'MASTER_LICENSE'
+  | 'OSHA_10'
+  | 'OSHA_30'
+  | 'NFPA_70E'
+  | 'AERIAL_LIFT'
+  | 'OTHER';
+
+export const CERTIFICATION_TYPES: { value: CertificationType; label: string }[] = [
+  { value: 'JOURNEYMAN_LICENSE', label: 'Journeyman License' },
+  { value: 'MASTER_LICENSE', label: 'Master License' },
+  { value: 'OSHA_10', label: 'OSHA 10' },
+  { value: 'OSHA_30', label: 'OSHA 30' },
+  { value: 'NFPA_70E', label: 'NFPA 70E' },
+  { value: 'AERIAL_LIFT', label: 'Aerial Lift' },
+  { value: 'OTHER', label: 'Other' }
+];
+
+export interface Certification {
+  id: string;
+  employee_id: string;
+  type: CertificationType;
+  name: string | null;
+  number: string | null;
+  issuer: string | null;
+  issue_date: string | null;
+  expiry_date: string | null; // Null = does not expire
+  file_id: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  file: { id: string; original_filename: string; mime_type: string } | null;
+}
+
+export interface CertificationFormData {
+  type: CertificationType;
+  name?: string | null;
+  number?: string | null;
+  issuer?: string | null;
+  issue_date?: string | null; // YYYY-MM-DD
+  expiry_date?: string | null; // YYYY-MM-DD
+  file_id?: string | null;
+  notes?: string | null;
+}
+
+export interface ExpiringCertification {
+  id: string;
+  type: CertificationType;
+  name: string | null;
+  number: string | null;
+  issuer: string | null;
+  expiry_date: string;
+  days_until_expiry: number; // Negative once expired
+  status: 'EXPIRED' | 'EXPIRING';
+  employee: { id: string; first_name: string; last_name: string; classification: string };
+}
+
+export interface CertificationIssue {
+  type: 'MISSING' | 'EXPIRED';
+  certification_type: CertificationType;
+  message: string;
+}
+
+export interface SignInCertificationAlert {
+  sign_in_id: string;
+  employee: { id: string; first_name: string; last_name: string; classification: string };
+  project: { id: string; name: string; project_number: string };
+  issues: CertificationIssue[];
+}
+
+// Roles that can view certifications (matches the API)
+export const CERTIFICATION_VIEW_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR'];
+
+// Roles that can add, renew and remove certifications (matches the API)
+export const CERTIFICATION_EDIT_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+/**
+ * Display name for a certification (the free-text name for OTHER)
+ */
+export const getCertificationLabel = (cert: { type: CertificationType; name?: string | null }): string => {
+  if (cert.type === 'OTHER' && cert.name) return cert.name;
+  return CERTIFICATION_TYPES.find((t) => t.value === cert.type)?.label || cert.type;
+};
+
+class CertificationService {
+  /**
+   * Get an employee's certifications
+   */
+  async getEmployeeCertifications(employeeId: string): Promise<Certification[]> {
+    const response: ApiResponse<Certification[]> = await api.get(`/employees/${employeeId}/certifications`);
+    return response.data!;
+  }
+
+  /**
+   * Add a certification to an employee
+   */
+  async createCertification(employeeId: string, data: CertificationFormData): Promise<Certification> {
+    const response: ApiResponse<Certification> = await api.post(`/employees/${employeeId}/certifications`, data);
+    return response.data!;
+  }
+
+  /**
+   * Update or renew a certification
+   */
+  async updateCertification(
+    employeeId: string,
+    certificationId: string,
+    data: Partial<CertificationFormData>
+  ): Promise<Certification> {
+    const response: ApiResponse<Certification> = await api.put(
+      `/employees/${employeeId}/certifications/${certificationId}`,
+      data
+    );
+    return response.data!;
+  }
+
+  /**
+   * Delete a certification
+   */
+  async deleteCertification(employeeId: string, certificationId: string): Promise<void> {
+    await api.delete(`/employees/${employeeId}/certifications/${certificationId}`);
+  }
+
+  /**
+   * Get certifications expiring within the given number of days, or already expired
+   */
+  async getExpiring(days: number = 60): Promise<ExpiringCertification[]> {
+    const response: ApiResponse<ExpiringCertification[]> = await api.get('/employees/certifications/expiring', {
+      params: { days }
+    });
+    return response.data!;
+  }
+
+  /**
+   * Get workers signed in on jobs whose required certifications are missing or expired
+   */
+  async getSignInAlerts(): Promise<SignInCertificationAlert[]> {
+    const response: ApiResponse<SignInCertificationAlert[]> = await api.get('/employees/certifications/sign-in-alerts');
+    return response.data!;
+  }
+}
+
+export const certificationService = new CertificationService();
+export default certificationService;
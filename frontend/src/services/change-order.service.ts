@@ -0,0 +1,155 @@
+/**
+ * Change Order Service
+ *
+ * Handles API communication for project change orders, their approval
+ * workflow and the change order log PDF.
+ */
+
+import api, { ApiResponse } from './api';
+import { LineItem } from './quote.service';
+
+export type ChangeOrderStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
+export interface ChangeOrder {
+  id: string;
+  project_id: string;
+  co_number: number;
+  co_label: string; // CO-001
+  title: string;
+  description: string | null;
+  reason: string | null;
+  status: ChangeOrderStatus;
+  line_items: LineItem[];
+  subtotal: number;
+  tax: number | null;
+  total: number;
+  schedule_impact_days: number;
+  submitted_at: string | null;
+  client_approval_date: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  rejected_at: string | null;
+  rejection_reason: string | null;
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  creator: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  };
+  approver: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  } | null;
+}
+
+export interface ChangeOrderFormData {
+  title: string;
+  description?: string;
+  reason?: string;
+  line_items: LineItem[];
+  schedule_impact_days?: number;
+  notes?: string;
+}
+
+export interface ChangeOrderStatusData {
+  status: ChangeOrderStatus;
+  client_approval_date?: string;
+  rejection_reason?: string;
+}
+
+class ChangeOrderService {
+  /**
+   * List change orders for a project
+   */
+  async getChangeOrders(projectId: string, status?: ChangeOrderStatus): Promise<ChangeOrder[]> {
+    const response: ApiResponse<ChangeOrder[]> = await api.get(`/projects/${projectId}/change-orders`, {
+      params: status ? { status } : {}
+    });
+    return response.data!;
+  }
+
+  /**
+   * Create change order (starts as a draft)
+   */
+  async createChangeOrder(projectId: string, data: ChangeOrderFormData): Promise<ChangeOrder> {
+    const response: ApiResponse<ChangeOrder> = await api.post(`/projects/${projectId}/change-orders`, data);
+    return response.data!;
+  }
+
+  /**
+   * Update draft or rejected change order
+   */
+  async updateChangeOrder(
+    projectId: string,
+    changeOrderId: string,
+    data: Partial<ChangeOrderFormData>
+  ): Promise<ChangeOrder> {
+    const response: ApiResponse<ChangeOrder> = await api.put(
+      `/projects/${projectId}/change-orders/${changeOrderId}`,
+      data
+    );
+    return response.data!;
+  }
+
+  /**
+   * Submit, approve, reject or recall change order
+   */
+  async updateStatus(projectId: string, changeOrderId: string, data: ChangeOrderStatusData): Promise<ChangeOrder> {
+    const response: ApiResponse<ChangeOrder> = await api.patch(
+      `/projects/${projectId}/change-orders/${changeOrderId}/status`,
+      data
+    );
+    return response.data!;
+  }
+
+  /**
+   * Delete draft or rejected change order
+   */
+  async deleteChangeOrder(projectId: string, changeOrderId: string): Promise<void> {
+    await api.delete(`/projects/${projectId}/change-orders/${changeOrderId}`);
+  }
+
+  /**
+   * Download the change order log as a PDF
+   */
+  async downloadLogPDF(projectId: string, projectNumber: string): Promise<void> {
+    // Note: axios interceptor returns response.data, so for blob responses,
+    // we get the Blob directly (not wrapped in response.data)
+    const blob = await api.get(`/projects/${projectId}/change-orders/log/pdf`, {
+      responseType: 'blob'
+    }) as Blob;
+
+    // Create a blob URL and trigger download
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `change-order-log-${projectNumber}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Get the chip color for a change order status
+   */
+  getStatusColor(status: ChangeOrderStatus): 'default' | 'info' | 'success' | 'error' {
+    switch (status) {
+      case 'SUBMITTED':
+        return 'info';
+      case 'APPROVED':
+        return 'success';
+      case 'REJECTED':
+        return 'error';
+      default:
+        return 'default';
+    }
+  }
+}
+
+export const changeOrderService = new ChangeOrderService();
+export default changeOrderService;
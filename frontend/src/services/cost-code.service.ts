@@ -0,0 +1,93 @@
+import api from './api';
+import {
+  CostCode,
+  CostCodeFormData,
+  CostCodeResponse,
+  CostCodesResponse,
+  ProjectCostCode,
+  ProjectCostCodeFormData,
+  ProjectCostCodeResponse,
+  ProjectCostCodesResponse,
+} from '../types/timekeeping.types';
+
+/**
+ * Cost Code Service
+ * Frontend API client for the cost code catalog and per-project cost code budgets
+ */
+
+/**
+ * Get cost codes
+ */
+export const getCostCodes = async (includeInactive: boolean = false): Promise<CostCode[]> => {
+  const response = await api.get(
+    `/cost-codes${includeInactive ? '?includeInactive=true' : ''}`
+  ) as CostCodesResponse;
+  return response.data;
+};
+
+/**
+ * Create a cost code
+ */
+export const createCostCode = async (data: CostCodeFormData): Promise<CostCode> => {
+  const response = await api.post('/cost-codes', data) as CostCodeResponse;
+  return response.data;
+};
+
+/**
+ * Update a cost code
+ */
+export const updateCostCode = async (id: string, data: Partial<CostCodeFormData>): Promise<CostCode> => {
+  const response = await api.put(`/cost-codes/${id}`, data) as CostCodeResponse;
+  return response.data;
+};
+
+/**
+ * Delete a cost code
+ */
+export const deleteCostCode = async (id: string): Promise<void> => {
+  await api.delete(`/cost-codes/${id}`);
+};
+
+/**
+ * Get the cost codes enabled on a project
+ */
+export const getProjectCostCodes = async (
+  projectId: string,
+  includeInactive: boolean = false
+): Promise<ProjectCostCode[]> => {
+  const response = await api.get(
+    `/cost-codes/projects/${projectId}${includeInactive ? '?includeInactive=true' : ''}`
+  ) as ProjectCostCodesResponse;
+  return response.data;
+};
+
+/**
+ * Enable a cost code on a project or update its budget
+ */
+export const setProjectCostCode = async (
+  projectId: string,
+  costCodeId: string,
+  data: ProjectCostCodeFormData = {}
+): Promise<ProjectCostCode> => {
+  const response = await api.put(`/cost-codes/projects/${projectId}/${costCodeId}`, data) as ProjectCostCodeResponse;
+  return response.data;
+};
+
+/**
+ * Disable a cost code on a project
+ */
+export const removeProjectCostCode = async (projectId: string, costCodeId: string): Promise<void> => {
+  await api.delete(`/cost-codes/projects/${projectId}/${costCodeId}`);
+};
+
+const costCodeService = {
+  getCostCodes,
+  createCostCode,
+  updateCostCode,
+  deleteCostCode,
+  getProjectCostCodes,
+  setProjectCostCode,
+  removeProjectCostCode,
+};
+
+export default costCodeService;
@@ -0,0 +1,122 @@
+/**
+ * Crew Schedule Service
+ *
+ * Handles API communication for crew scheduling: the week calendar of
+ * crew assignments with conflicts and the sign-in sheet prefill.
+ */
+
+import api, { ApiResponse } from './api';
+
+export type CrewConflictType = 'DOUBLE_BOOKED' | 'ON_LEAVE' | 'EXPIRED_CERTIFICATION' | 'MISSING_CERTIFICATION';
+
+export interface CrewConflict {
+  type: CrewConflictType;
+  message: string;
+}
+
+export interface CrewAssignment {
+  id: string;
+  employee_id: string;
+  project_id: string;
+  date: string; // YYYY-MM-DD at UTC midnight
+  start_time: string | null; // HH:mm
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  employee: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    classification: string;
+    employment_status: string | null;
+  };
+  project: {
+    id: string;
+    name: string;
+    project_number: string;
+    location: string | null;
+    status: string;
+  };
+  conflicts: CrewConflict[];
+}
+
+export interface CrewAssignmentFormData {
+  employee_id: string;
+  project_id: string;
+  date: string; // YYYY-MM-DD
+  start_time?: string | null;
+  notes?: string | null;
+}
+
+export interface SignInPrefillGroup {
+  project: {
+    id: string;
+    name: string;
+    project_number: string;
+    location: string | null;
+  };
+  start_time: string | null;
+  employees: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    classification: string;
+    already_signed_in: boolean;
+    conflicts: CrewConflict[];
+  }[];
+}
+
+// Roles that plan crews (matches the API)
+export const SCHEDULER_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR'];
+
+class CrewScheduleService {
+  /**
+   * Get crew assignments between two dates (inclusive, YYYY-MM-DD)
+   */
+  async getSchedule(
+    start: string,
+    end: string,
+    filters: { project_id?: string; employee_id?: string } = {}
+  ): Promise<CrewAssignment[]> {
+    const response: ApiResponse<CrewAssignment[]> = await api.get('/crew-schedule', {
+      params: { start, end, ...filters }
+    });
+    return response.data!;
+  }
+
+  /**
+   * Assign an employee to a project for a day
+   */
+  async createAssignment(data: CrewAssignmentFormData): Promise<CrewAssignment> {
+    const response: ApiResponse<CrewAssignment> = await api.post('/crew-schedule', data);
+    return response.data!;
+  }
+
+  /**
+   * Update or move a crew assignment
+   */
+  async updateAssignment(id: string, data: Partial<CrewAssignmentFormData>): Promise<CrewAssignment> {
+    const response: ApiResponse<CrewAssignment> = await api.put(`/crew-schedule/${id}`, data);
+    return response.data!;
+  }
+
+  /**
+   * Remove a crew assignment
+   */
+  async deleteAssignment(id: string): Promise<void> {
+    await api.delete(`/crew-schedule/${id}`);
+  }
+
+  /**
+   * Get the day's crews grouped by project for the sign-in sheet
+   */
+  async getSignInPrefill(date: string): Promise<SignInPrefillGroup[]> {
+    const response: ApiResponse<SignInPrefillGroup[]> = await api.get('/crew-schedule/sign-in-prefill', {
+      params: { date }
+    });
+    return response.data!;
+  }
+}
+
+export const crewScheduleService = new CrewScheduleService();
+export default crewScheduleService;
@@ -20,6 +20,8 @@ export interface Employee {
   hireDate?: string | null;
   employmentStatus?: string | null;
   employeeNumber?: string | null;
+  payrollId?: string | null; // Employee ID in the external payroll system
+  unionLocalId?: string | null; // Home IBEW local
   department?: string | null;
   notes?: string | null;
   // Audit
@@ -48,6 +50,8 @@ export interface CreateEmployeeData {
   hireDate?: string;
   employmentStatus?: string;
   employeeNumber?: string;
+  payrollId?: string | null;
+  unionLocalId?: string | null;
   department?: string;
   notes?: string;
 }
@@ -63,6 +67,8 @@ export interface UpdateEmployeeData {
   hireDate?: string;
   employmentStatus?: string;
   employeeNumber?: string;
+  payrollId?: string | null;
+  unionLocalId?: string | null;
   department?: string;
   notes?: string;
   isActive?: boolean;
@@ -116,6 +122,8 @@ const transformEmployee = (apiEmployee: any): Employee => {
     hireDate: apiEmployee.hire_date,
     employmentStatus: apiEmployee.employment_status,
     employeeNumber: apiEmployee.employee_number,
+    payrollId: apiEmployee.payroll_id,
+    unionLocalId: apiEmployee.union_local_id,
     department: apiEmployee.department,
     notes: apiEmployee.notes,
     isActive: apiEmployee.is_active,
@@ -215,6 +223,8 @@ export const create = async (data: CreateEmployeeData): Promise<EmployeeResponse
     hire_date: data.hireDate,
     employment_status: data.employmentStatus,
     employee_number: data.employeeNumber,
+    payroll_id: data.payrollId,
+    union_local_id: data.unionLocalId,
     department: data.department,
     notes: data.notes
   };
@@ -252,6 +262,8 @@ export const update = async (id: string, data: UpdateEmployeeData): Promise<Empl
   if (data.hireDate !== undefined) transformedData.hire_date = data.hireDate;
   if (data.employmentStatus !== undefined) transformedData.employment_status = data.employmentStatus;
   if (data.employeeNumber !== undefined) transformedData.employee_number = data.employeeNumber;
+  if (data.payrollId !== undefined) transformedData.payroll_id = data.payrollId;
+  if (data.unionLocalId !== undefined) transformedData.union_local_id = data.unionLocalId;
   if (data.department !== undefined) transformedData.department = data.department;
   if (data.notes !== undefined) transformedData.notes = data.notes;
   if (data.isActive !== undefined) transformedData.is_active = data.isActive;
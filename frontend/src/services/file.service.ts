@@ -18,6 +18,7 @@ export enum FileCategory {
   INVOICE = 'INVOICE',
   RECEIPT = 'RECEIPT',
   REPORT = 'REPORT',
+  CERTIFICATION = 'CERTIFICATION',
   OTHER = 'OTHER'
 }
 
@@ -29,6 +30,7 @@ export interface FileUploadRequest {
   description?: string;
   tags?: string[];
   folderPath?: string;
+  receiptAmount?: number;
 }
 
 export interface FileData {
@@ -52,6 +54,7 @@ export interface FileData {
   height: number | null;
   exif_data: any;
   page_count: number | null;
+  receipt_amount: string | null;
   folder_path: string | null;
   is_favorite: boolean;
   created_at: string;
@@ -119,6 +122,7 @@ class FileService {
     if (data.description) formData.append('description', data.description);
     if (data.tags) formData.append('tags', JSON.stringify(data.tags));
     if (data.folderPath) formData.append('folderPath', data.folderPath);
+    if (data.receiptAmount !== undefined) formData.append('receiptAmount', String(data.receiptAmount));
 
     const response: ApiResponse<FileData> = await api.post('/files/upload', formData, {
       headers: {
@@ -59,3 +59,34 @@ export * from './daily-log.service';
 export { default as quoteService } from './quote.service';
 export * from './quote.service';
 
+// Export price book service
+export { default as priceBookService } from './price-book.service';
+export * from './price-book.service';
+
+// Export project expense service
+export { default as projectExpenseService } from './project-expense.service';
+export * from './project-expense.service';
+
+// Export change order service
+export { default as changeOrderService } from './change-order.service';
+export * from './change-order.service';
+
+// Export invoice service
+export { default as invoiceService } from './invoice.service';
+export * from './invoice.service';
+
+// Export work order service
+export { default as workOrderService } from './work-order.service';
+export * from './work-order.service';
+
+// Export crew schedule service
+export { default as crewScheduleService } from './crew-schedule.service';
+export * from './crew-schedule.service';
+
+// Export certification service
+export { default as certificationService } from './certification.service';
+export * from './certification.service';
+
+// Export pay rate service
+export { default as payRateService } from './pay-rate.service';
+export * from './pay-rate.service';
@@ -0,0 +1,172 @@
+/**
+ * Invoice Service
+ *
+ * Handles API communication for project invoices: progress pay applications
+ * (AIA G702/G703 style) for lump sum projects and T&M invoices built from
+ * approved time entries and expenses.
+ */
+
+import api, { ApiResponse } from './api';
+
+export type InvoiceType = 'PROGRESS' | 'TIME_AND_MATERIALS';
+export type InvoiceStatus = 'DRAFT' | 'SENT' | 'PAID';
+
+// G703 continuation sheet line (columns C-I)
+export interface ScheduleOfValuesLine {
+  budget_item_id: string;
+  item_number: number;
+  description: string;
+  category: string;
+  change_order_id: string | null;
+  scheduled_value: number;
+  previous_completed: number;
+  this_period: number;
+  stored_materials: number;
+  total_completed: number;
+  percent_complete: number;
+  balance_to_finish: number;
+  retainage: number;
+}
+
+// T&M invoice line, grouped labor or a single expense
+export interface TimeAndMaterialsLine {
+  id: string;
+  kind: 'LABOR' | 'EXPENSE';
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  total: number;
+}
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  project_id: string;
+  type: InvoiceType;
+  status: InvoiceStatus;
+  application_number: number | null;
+  invoice_date: string;
+  due_date: string | null;
+  period_start: string | null;
+  period_end: string;
+  line_items: ScheduleOfValuesLine[] | TimeAndMaterialsLine[];
+  original_contract: number | null;
+  change_orders_total: number | null;
+  completed_to_date: number | null;
+  subtotal: number;
+  retainage_percent: number;
+  retainage_amount: number;
+  previous_billed: number;
+  amount_due: number;
+  labor_rate: number | null;
+  labor_markup_percent: number | null;
+  expense_markup_percent: number | null;
+  notes: string | null;
+  sent_at: string | null;
+  paid_at: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  creator: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  };
+}
+
+export interface InvoiceFormData {
+  invoice_date?: string;
+  due_date?: string | null;
+  period_start?: string | null;
+  period_end: string;
+  retainage_percent?: number;
+  stored_materials?: Record<string, number>;
+  labor_rate?: number | null;
+  labor_markup_percent?: number | null;
+  expense_markup_percent?: number | null;
+  notes?: string;
+}
+
+class InvoiceService {
+  /**
+   * List invoices for a project
+   */
+  async getInvoices(projectId: string, status?: InvoiceStatus): Promise<Invoice[]> {
+    const response: ApiResponse<Invoice[]> = await api.get(`/projects/${projectId}/invoices`, {
+      params: status ? { status } : {}
+    });
+    return response.data!;
+  }
+
+  /**
+   * Create draft invoice (pay application for lump sum projects, T&M otherwise)
+   */
+  async createInvoice(projectId: string, data: InvoiceFormData): Promise<Invoice> {
+    const response: ApiResponse<Invoice> = await api.post(`/projects/${projectId}/invoices`, data);
+    return response.data!;
+  }
+
+  /**
+   * Update draft invoice; the server rebuilds its lines
+   */
+  async updateInvoice(projectId: string, invoiceId: string, data: Partial<InvoiceFormData>): Promise<Invoice> {
+    const response: ApiResponse<Invoice> = await api.put(`/projects/${projectId}/invoices/${invoiceId}`, data);
+    return response.data!;
+  }
+
+  /**
+   * Mark invoice sent or paid, or return it to draft / sent
+   */
+  async updateStatus(projectId: string, invoiceId: string, status: InvoiceStatus): Promise<Invoice> {
+    const response: ApiResponse<Invoice> = await api.patch(`/projects/${projectId}/invoices/${invoiceId}/status`, {
+      status
+    });
+    return response.data!;
+  }
+
+  /**
+   * Delete draft invoice
+   */
+  async deleteInvoice(projectId: string, invoiceId: string): Promise<void> {
+    await api.delete(`/projects/${projectId}/invoices/${invoiceId}`);
+  }
+
+  /**
+   * Download invoice or pay application as a PDF
+   */
+  async downloadPDF(projectId: string, invoice: Invoice): Promise<void> {
+    // Note: axios interceptor returns response.data, so for blob responses,
+    // we get the Blob directly (not wrapped in response.data)
+    const blob = await api.get(`/projects/${projectId}/invoices/${invoice.id}/pdf`, {
+      responseType: 'blob'
+    }) as Blob;
+
+    // Create a blob URL and trigger download
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `invoice-${invoice.invoice_number}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Get the chip color for an invoice status
+   */
+  getStatusColor(status: InvoiceStatus): 'default' | 'info' | 'success' {
+    switch (status) {
+      case 'SENT':
+        return 'info';
+      case 'PAID':
+        return 'success';
+      default:
+        return 'default';
+    }
+  }
+}
+
+export const invoiceService = new InvoiceService();
+export default invoiceService;
@@ -0,0 +1,75 @@
+/**
+ * Pay Rate Service
+ *
+ * Handles API communication for employee pay rate history: effective-dated
+ * wages and the labor burden (payroll taxes, workers comp, benefits, union
+ * fringes) used to cost labor on projects.
+ */
+
+import api, { ApiResponse } from './api';
+
+export interface PayRate {
+  id: string;
+  employee_id: string;
+  effective_date: string;
+  hourly_rate: string; // Decimal
+  payroll_tax_percent: string | null;
+  workers_comp_percent: string | null;
+  benefits_per_hour: string | null;
+  union_fringe_per_hour: string | null;
+  classification: string | null; // Set on promotions; null keeps the previous classification
+  burdened_rate: number; // Fully-burdened hourly cost
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PayRateFormData {
+  effective_date: string; // YYYY-MM-DD
+  hourly_rate: number;
+  payroll_tax_percent?: number | null;
+  workers_comp_percent?: number | null;
+  benefits_per_hour?: number | null;
+  union_fringe_per_hour?: number | null;
+  classification?: string | null;
+  notes?: string | null;
+}
+
+// Roles that can view and maintain pay rates (matches the API)
+export const PAY_RATE_ROLES = ['SUPER_ADMIN', 'OFFICE_ADMIN'];
+
+class PayRateService {
+  /**
+   * Get an employee's pay rate history, most recent first
+   */
+  async getEmployeePayRates(employeeId: string): Promise<PayRate[]> {
+    const response: ApiResponse<PayRate[]> = await api.get(`/employees/${employeeId}/pay-rates`);
+    return response.data!;
+  }
+
+  /**
+   * Add a pay rate effective on a date
+   */
+  async createPayRate(employeeId: string, data: PayRateFormData): Promise<PayRate> {
+    const response: ApiResponse<PayRate> = await api.post(`/employees/${employeeId}/pay-rates`, data);
+    return response.data!;
+  }
+
+  /**
+   * Correct a pay rate
+   */
+  async updatePayRate(employeeId: string, payRateId: string, data: Partial<PayRateFormData>): Promise<PayRate> {
+    const response: ApiResponse<PayRate> = await api.put(`/employees/${employeeId}/pay-rates/${payRateId}`, data);
+    return response.data!;
+  }
+
+  /**
+   * Delete a pay rate entered in error
+   */
+  async deletePayRate(employeeId: string, payRateId: string): Promise<void> {
+    await api.delete(`/employees/${employeeId}/pay-rates/${payRateId}`);
+  }
+}
+
+export const payRateService = new PayRateService();
+export default payRateService;
@@ -8,6 +8,25 @@ import {
   WeeklyReportResponse,
   ProjectCostReportResponse,
   PayrollSummaryResponse,
+  OvertimePolicy,
+  OvertimePolicyFormData,
+  OvertimePolicyResponse,
+  OvertimePoliciesResponse,
+  ProjectWageRate,
+  ProjectWageRateFormData,
+  ProjectWageRateResponse,
+  ProjectWageRatesResponse,
+  CertifiedPayrollReport,
+  CertifiedPayrollResponse,
+  PayrollPeriod,
+  PayrollPeriodStatus,
+  PayrollPeriodFormData,
+  PayrollPeriodResponse,
+  PayrollPeriodsResponse,
+  PayrollPeriodComparison,
+  PayrollPeriodComparisonResponse,
+  PayrollExportFormatOption,
+  PayrollExportFormatsResponse,
 } from '../types/timekeeping.types';
 
 /**
@@ -111,6 +130,217 @@ export const downloadWeeklyCSV = async (
   window.URL.revokeObjectURL(url);
 };
 
+/**
+ * Get all overtime policies
+ */
+export const getOvertimePolicies = async (): Promise<OvertimePolicy[]> => {
+  const response = await api.get('/payroll/overtime-policies') as OvertimePoliciesResponse;
+  return response.data;
+};
+
+/**
+ * Create an overtime policy
+ */
+export const createOvertimePolicy = async (
+  data: OvertimePolicyFormData
+): Promise<OvertimePolicy> => {
+  const response = await api.post('/payroll/overtime-policies', data) as OvertimePolicyResponse;
+  return response.data;
+};
+
+/**
+ * Update an overtime policy
+ */
+export const updateOvertimePolicy = async (
+  id: string,
+  data: Partial<OvertimePolicyFormData>
+): Promise<OvertimePolicy> => {
+  const response = await api.put(`/payroll/overtime-policies/${id}`, data) as OvertimePolicyResponse;
+  return response.data;
+};
+
+/**
+ * Delete an overtime policy
+ */
+export const deleteOvertimePolicy = async (id: string): Promise<void> => {
+  await api.delete(`/payroll/overtime-policies/${id}`);
+};
+
+/**
+ * Get certified payroll (WH-347) for a project and payroll week
+ */
+export const getCertifiedPayroll = async (
+  projectId: string,
+  weekEnding: string
+): Promise<CertifiedPayrollReport> => {
+  const response = await api.get(
+    `/payroll/certified/${projectId}?weekEnding=${weekEnding}`
+  ) as CertifiedPayrollResponse;
+  return response.data;
+};
+
+/**
+ * Download certified payroll as PDF or CSV
+ * Triggers browser download
+ */
+export const downloadCertifiedPayroll = async (
+  projectId: string,
+  weekEnding: string,
+  format: 'pdf' | 'csv'
+): Promise<void> => {
+  // The API interceptor returns the Blob itself for blob responses
+  const blob = await api.get(
+    `/payroll/export/certified/${projectId}/${format}?weekEnding=${weekEnding}`,
+    {
+      responseType: 'blob',
+    }
+  ) as Blob;
+
+  // Create a blob URL and trigger download
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `certified-payroll-${weekEnding}.${format}`);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Get the payroll system export formats (QuickBooks, ADP, Gusto)
+ */
+export const getPayrollExportFormats = async (): Promise<PayrollExportFormatOption[]> => {
+  const response = await api.get('/payroll/export/formats') as PayrollExportFormatsResponse;
+  return response.data;
+};
+
+/**
+ * Download approved payroll hours in a payroll system's import format
+ * Triggers browser download
+ */
+export const downloadPayrollExport = async (
+  format: PayrollExportFormatOption,
+  startDate: string,
+  endDate: string
+): Promise<void> => {
+  // Fetched as text rather than a blob so JSON errors (e.g. missing payroll IDs) keep their message
+  const content = await api.get(
+    `/payroll/export/system/${format.format}?startDate=${startDate}&endDate=${endDate}`
+  ) as string;
+
+  // Create a blob URL and trigger download
+  const blob = new Blob([content], { type: format.fileExtension === 'csv' ? 'text/csv' : 'text/plain' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute(
+    'download',
+    `payroll-${format.format.toLowerCase().replace(/_/g, '-')}-${startDate}-to-${endDate}.${format.fileExtension}`
+  );
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+/**
+ * Get prevailing wage rates for a project
+ */
+export const getProjectWageRates = async (projectId: string): Promise<ProjectWageRate[]> => {
+  const response = await api.get(
+    `/payroll/wage-rates?projectId=${projectId}`
+  ) as ProjectWageRatesResponse;
+  return response.data;
+};
+
+/**
+ * Create a prevailing wage rate
+ */
+export const createProjectWageRate = async (
+  data: ProjectWageRateFormData
+): Promise<ProjectWageRate> => {
+  const response = await api.post('/payroll/wage-rates', data) as ProjectWageRateResponse;
+  return response.data;
+};
+
+/**
+ * Update a prevailing wage rate
+ */
+export const updateProjectWageRate = async (
+  id: string,
+  data: Partial<Omit<ProjectWageRateFormData, 'projectId'>>
+): Promise<ProjectWageRate> => {
+  const response = await api.put(`/payroll/wage-rates/${id}`, data) as ProjectWageRateResponse;
+  return response.data;
+};
+
+/**
+ * Delete a prevailing wage rate
+ */
+export const deleteProjectWageRate = async (id: string): Promise<void> => {
+  await api.delete(`/payroll/wage-rates/${id}`);
+};
+
+/**
+ * Get payroll periods, newest first
+ */
+export const getPayrollPeriods = async (status?: PayrollPeriodStatus): Promise<PayrollPeriod[]> => {
+  const response = await api.get(
+    `/payroll/periods${status ? `?status=${status}` : ''}`
+  ) as PayrollPeriodsResponse;
+  return response.data;
+};
+
+/**
+ * Get a payroll period with every close snapshot
+ */
+export const getPayrollPeriodById = async (id: string): Promise<PayrollPeriod> => {
+  const response = await api.get(`/payroll/periods/${id}`) as PayrollPeriodResponse;
+  return response.data;
+};
+
+/**
+ * Create a payroll period
+ */
+export const createPayrollPeriod = async (data: PayrollPeriodFormData): Promise<PayrollPeriod> => {
+  const response = await api.post('/payroll/periods', data) as PayrollPeriodResponse;
+  return response.data;
+};
+
+/**
+ * Delete a payroll period that has never been closed
+ */
+export const deletePayrollPeriod = async (id: string): Promise<void> => {
+  await api.delete(`/payroll/periods/${id}`);
+};
+
+/**
+ * Close a payroll period (snapshots its totals and locks its time)
+ */
+export const closePayrollPeriod = async (id: string): Promise<PayrollPeriod> => {
+  const response = await api.put(`/payroll/periods/${id}/close`) as PayrollPeriodResponse;
+  return response.data;
+};
+
+/**
+ * Reopen a closed payroll period for corrections
+ */
+export const reopenPayrollPeriod = async (id: string, reason: string): Promise<PayrollPeriod> => {
+  const response = await api.put(`/payroll/periods/${id}/reopen`, { reason }) as PayrollPeriodResponse;
+  return response.data;
+};
+
+/**
+ * Compare a payroll period's last close snapshot with its current totals
+ */
+export const comparePayrollPeriod = async (id: string): Promise<PayrollPeriodComparison> => {
+  const response = await api.get(
+    `/payroll/periods/${id}/comparison`
+  ) as PayrollPeriodComparisonResponse;
+  return response.data;
+};
+
 export default {
   getDailyReport,
   getWeeklyReport,
@@ -118,5 +348,24 @@ export default {
   getPayrollSummary,
   downloadDailyCSV,
   downloadWeeklyCSV,
+  getOvertimePolicies,
+  createOvertimePolicy,
+  updateOvertimePolicy,
+  deleteOvertimePolicy,
+  getCertifiedPayroll,
+  downloadCertifiedPayroll,
+  getPayrollExportFormats,
+  downloadPayrollExport,
+  getProjectWageRates,
+  createProjectWageRate,
+  updateProjectWageRate,
+  deleteProjectWageRate,
+  getPayrollPeriods,
+  getPayrollPeriodById,
+  createPayrollPeriod,
+  deletePayrollPeriod,
+  closePayrollPeriod,
+  reopenPayrollPeriod,
+  comparePayrollPeriod,
 };
 
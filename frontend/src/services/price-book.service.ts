@@ -0,0 +1,168 @@
+/**
+ * Price Book Service
+ *
+ * Handles API communication for the materials/labor price book and
+ * assemblies used to build quote line items.
+ */
+
+import api, { ApiResponse } from './api';
+import { LineItem } from './quote.service';
+
+export type PriceBookItemType = 'MATERIAL' | 'LABOR';
+
+export interface PriceBookItem {
+  id: string;
+  code?: string | null;
+  name: string;
+  description?: string | null;
+  type: PriceBookItemType;
+  category?: string | null;
+  unit: string;
+  unit_price: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PriceBookItemFormData {
+  code?: string;
+  name: string;
+  description?: string;
+  type: PriceBookItemType;
+  category?: string;
+  unit: string;
+  unit_price: number;
+  is_active?: boolean;
+}
+
+export interface AssemblyItem {
+  id: string;
+  assembly_id: string;
+  price_book_item_id: string;
+  quantity: number;
+  sort_order: number;
+  price_book_item: PriceBookItem;
+}
+
+export interface Assembly {
+  id: string;
+  name: string;
+  description?: string | null;
+  category?: string | null;
+  is_active: boolean;
+  items: AssemblyItem[];
+  unit_cost: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AssemblyFormData {
+  name: string;
+  description?: string;
+  category?: string;
+  is_active?: boolean;
+  items: Array<{
+    price_book_item_id: string;
+    quantity: number;
+  }>;
+}
+
+export interface PriceBookFilters {
+  search?: string;
+  type?: PriceBookItemType;
+  category?: string;
+  include_inactive?: boolean;
+}
+
+class PriceBookService {
+  /**
+   * List/search price book items
+   */
+  async getItems(filters: PriceBookFilters = {}): Promise<PriceBookItem[]> {
+    const response: ApiResponse<PriceBookItem[]> = await api.get('/price-book/items', { params: filters });
+    return response.data!;
+  }
+
+  /**
+   * Create price book item
+   */
+  async createItem(data: PriceBookItemFormData): Promise<PriceBookItem> {
+    const response: ApiResponse<PriceBookItem> = await api.post('/price-book/items', data);
+    return response.data!;
+  }
+
+  /**
+   * Update price book item
+   */
+  async updateItem(id: string, data: Partial<PriceBookItemFormData>): Promise<PriceBookItem> {
+    const response: ApiResponse<PriceBookItem> = await api.put(`/price-book/items/${id}`, data);
+    return response.data!;
+  }
+
+  /**
+   * Delete price book item
+   */
+  async deleteItem(id: string): Promise<void> {
+    await api.delete(`/price-book/items/${id}`);
+  }
+
+  /**
+   * List/search assemblies
+   */
+  async getAssemblies(filters: Omit<PriceBookFilters, 'type'> = {}): Promise<Assembly[]> {
+    const response: ApiResponse<Assembly[]> = await api.get('/price-book/assemblies', { params: filters });
+    return response.data!;
+  }
+
+  /**
+   * Create assembly
+   */
+  async createAssembly(data: AssemblyFormData): Promise<Assembly> {
+    const response: ApiResponse<Assembly> = await api.post('/price-book/assemblies', data);
+    return response.data!;
+  }
+
+  /**
+   * Update assembly
+   */
+  async updateAssembly(id: string, data: Partial<AssemblyFormData>): Promise<Assembly> {
+    const response: ApiResponse<Assembly> = await api.put(`/price-book/assemblies/${id}`, data);
+    return response.data!;
+  }
+
+  /**
+   * Delete assembly
+   */
+  async deleteAssembly(id: string): Promise<void> {
+    await api.delete(`/price-book/assemblies/${id}`);
+  }
+
+  /**
+   * Expand an assembly into quote line items at current prices
+   */
+  async expandAssembly(id: string, quantity = 1): Promise<LineItem[]> {
+    const response: ApiResponse<LineItem[]> = await api.post(`/price-book/assemblies/${id}/expand`, {
+      quantity
+    });
+    return response.data!;
+  }
+
+  /**
+   * Build a quote line item from a single price book item
+   */
+  toLineItem(item: PriceBookItem, quantity = 1): LineItem {
+    return {
+      id: Math.random().toString(36).substr(2, 9),
+      description: item.name,
+      quantity,
+      unit: item.unit,
+      unit_price: item.unit_price,
+      total: Math.round(quantity * item.unit_price * 100) / 100,
+      category: item.category || '',
+      notes: ''
+    };
+  }
+}
+
+export const priceBookService = new PriceBookService();
+export default priceBookService;
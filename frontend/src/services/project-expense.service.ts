@@ -0,0 +1,158 @@
+/**
+ * Project Expense Service
+ *
+ * Handles API communication for project expenses, their approval
+ * workflow and CSV export.
+ */
+
+import api, { ApiResponse } from './api';
+
+export type ExpenseStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface ProjectExpense {
+  id: string;
+  project_id: string;
+  description: string;
+  vendor: string | null;
+  amount: string | number;
+  category: string;
+  date: string;
+  receipt_file_id: string | null;
+  cost_code_id: string | null;
+  status: ExpenseStatus;
+  approved_by: string | null;
+  approved_at: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  receipt: {
+    id: string;
+    original_filename: string;
+    mime_type: string;
+  } | null;
+  creator: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  } | null;
+  approver: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  } | null;
+  cost_code: {
+    id: string;
+    code: string;
+    name: string;
+  } | null;
+}
+
+export interface ProjectExpenseFormData {
+  description: string;
+  vendor?: string;
+  amount: number;
+  category: string;
+  date: string;
+  receipt_file_id?: string | null;
+  cost_code_id?: string | null;
+  notes?: string;
+}
+
+export interface ProjectExpenseFilters {
+  status?: ExpenseStatus;
+  category?: string;
+  search?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// Suggested categories; any category can be entered
+export const EXPENSE_CATEGORIES = [
+  'Materials',
+  'Equipment Rental',
+  'Subcontractor',
+  'Permits & Fees',
+  'Fuel',
+  'Travel',
+  'Disposal',
+  'Other'
+];
+
+class ProjectExpenseService {
+  /**
+   * List expenses for a project
+   */
+  async getExpenses(projectId: string, filters: ProjectExpenseFilters = {}): Promise<ProjectExpense[]> {
+    const response: ApiResponse<ProjectExpense[]> = await api.get(`/projects/${projectId}/expenses`, {
+      params: filters
+    });
+    return response.data!;
+  }
+
+  /**
+   * Create expense
+   */
+  async createExpense(projectId: string, data: ProjectExpenseFormData): Promise<ProjectExpense> {
+    const response: ApiResponse<ProjectExpense> = await api.post(`/projects/${projectId}/expenses`, data);
+    return response.data!;
+  }
+
+  /**
+   * Update expense
+   */
+  async updateExpense(
+    projectId: string,
+    expenseId: string,
+    data: Partial<ProjectExpenseFormData>
+  ): Promise<ProjectExpense> {
+    const response: ApiResponse<ProjectExpense> = await api.put(
+      `/projects/${projectId}/expenses/${expenseId}`,
+      data
+    );
+    return response.data!;
+  }
+
+  /**
+   * Approve, reject or reopen expense
+   */
+  async updateStatus(projectId: string, expenseId: string, status: ExpenseStatus): Promise<ProjectExpense> {
+    const response: ApiResponse<ProjectExpense> = await api.patch(
+      `/projects/${projectId}/expenses/${expenseId}/status`,
+      { status }
+    );
+    return response.data!;
+  }
+
+  /**
+   * Delete expense
+   */
+  async deleteExpense(projectId: string, expenseId: string): Promise<void> {
+    await api.delete(`/projects/${projectId}/expenses/${expenseId}`);
+  }
+
+  /**
+   * Download expenses as CSV
+   */
+  async exportCSV(projectId: string, projectNumber: string, filters: ProjectExpenseFilters = {}): Promise<void> {
+    // Note: axios interceptor returns response.data, so for blob responses,
+    // we get the Blob directly (not wrapped in response.data)
+    const blob = await api.get(`/projects/${projectId}/expenses/export`, {
+      params: filters,
+      responseType: 'blob'
+    }) as Blob;
+
+    // Create a blob URL and trigger download
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `expenses-${projectNumber}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+}
+
+export const projectExpenseService = new ProjectExpenseService();
+export default projectExpenseService;
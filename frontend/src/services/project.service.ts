@@ -6,6 +6,7 @@
  */
 
 import api from './api';
+import { CertificationType } from './certification.service';
 
 // Raw API response interface (snake_case)
 interface ProjectApiResponse {
@@ -20,9 +21,16 @@ interface ProjectApiResponse {
   location: string;
   start_date: string | null;
   end_date?: string | null;
+  contract_value?: string | null;
   budget: string; // API returns as string
   actual_cost?: string | null;
   description?: string | null;
+  required_certifications?: CertificationType[];
+  union_local_id?: string | null;
+  apprentice_ratio?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  geofence_radius?: number | null;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -40,6 +48,22 @@ interface ProjectApiResponse {
     phone?: string;
   };
   members?: ProjectMember[];
+  quote?: {
+    id: string;
+    quote_number: string;
+    converted_at: string | null;
+  } | null;
+  budget_items?: Array<{
+    id: string;
+    category: string;
+    description: string;
+    quantity: string;
+    unit: string;
+    unit_price: string;
+    total: string;
+    percent_complete: string;
+    sort_order: number;
+  }>;
   creator?: {
     id: string;
     first_name: string;
@@ -65,9 +89,16 @@ export interface Project {
   location: string;
   startDate: string | null;
   endDate?: string | null;
+  contractValue?: number; // Original contract plus approved change orders
   budget: number;
   actualCost?: number;
   description?: string | null;
+  requiredCertifications: CertificationType[];
+  unionLocalId?: string | null; // IBEW local with jurisdiction over the job
+  apprenticeRatio?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  geofenceRadius?: number | null;
   createdBy: string;
   createdAt: string;
   updatedAt: string;
@@ -85,6 +116,24 @@ export interface Project {
     phone?: string;
   };
   members?: ProjectMember[];
+  sourceQuote?: {
+    id: string;
+    quoteNumber: string;
+    convertedAt: string | null;
+  };
+  budgetItems?: ProjectBudgetItem[];
+}
+
+export interface ProjectBudgetItem {
+  id: string;
+  category: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  total: number;
+  percentComplete: number;
+  sortOrder: number;
 }
 
 export interface ProjectMember {
@@ -135,6 +184,12 @@ export interface CreateProjectData {
   budget: number;
   actualCost?: number;
   description?: string | null;
+  requiredCertifications?: CertificationType[];
+  unionLocalId?: string | null;
+  apprenticeRatio?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  geofenceRadius?: number | null;
 }
 
 export interface UpdateProjectData {
@@ -151,6 +206,12 @@ export interface UpdateProjectData {
   budget?: number;
   actualCost?: number;
   description?: string | null;
+  requiredCertifications?: CertificationType[];
+  unionLocalId?: string | null;
+  apprenticeRatio?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  geofenceRadius?: number | null;
 }
 
 export interface ProjectsResponse {
@@ -195,9 +256,19 @@ const transformProject = (apiProject: ProjectApiResponse): Project => {
     location: apiProject.location,
     startDate: apiProject.start_date,
     endDate: apiProject.end_date,
+    contractValue: apiProject.contract_value ? parseFloat(apiProject.contract_value) : undefined,
     budget: parseFloat(apiProject.budget) || 0,
     actualCost: apiProject.actual_cost ? parseFloat(apiProject.actual_cost) : undefined,
     description: apiProject.description,
+    requiredCertifications: apiProject.required_certifications || [],
+    unionLocalId: apiProject.union_local_id,
+    apprenticeRatio:
+      apiProject.apprentice_ratio !== undefined && apiProject.apprentice_ratio !== null
+        ? Number(apiProject.apprentice_ratio)
+        : null,
+    latitude: apiProject.latitude ?? null,
+    longitude: apiProject.longitude ?? null,
+    geofenceRadius: apiProject.geofence_radius ?? null,
     createdBy: apiProject.created_by,
     createdAt: apiProject.created_at,
     updatedAt: apiProject.updated_at,
@@ -215,9 +286,80 @@ const transformProject = (apiProject: ProjectApiResponse): Project => {
       phone: apiProject.contact.phone,
     } : undefined,
     members: apiProject.members || [],
+    sourceQuote: apiProject.quote ? {
+      id: apiProject.quote.id,
+      quoteNumber: apiProject.quote.quote_number,
+      convertedAt: apiProject.quote.converted_at,
+    } : undefined,
+    budgetItems: apiProject.budget_items?.map((item) => ({
+      id: item.id,
+      category: item.category,
+      description: item.description,
+      quantity: parseFloat(item.quantity) || 0,
+      unit: item.unit,
+      unitPrice: parseFloat(item.unit_price) || 0,
+      total: parseFloat(item.total) || 0,
+      percentComplete: parseFloat(item.percent_complete) || 0,
+      sortOrder: item.sort_order,
+    })),
   };
 };
 
+// Job cost line for a single cost code; uncoded costs and unlinked receipts have no cost code
+export interface JobCostLine {
+  costCodeId: string | null;
+  code: string;
+  name: string;
+  budget: number;
+  budgetHours: number | null;
+  laborHours: number;
+  laborCost: number;
+  expenseCost: number;
+  receiptCost: number;
+  actualCost: number;
+  committedCost: number;
+  remaining: number;
+  percentComplete: number;
+  earnedValue: number;
+  costVariance: number;
+}
+
+// Budget vs actual vs committed summary with earned value
+export interface JobCostSummary {
+  projectId: string;
+  projectName: string;
+  projectNumber: string;
+  budget: number;
+  actualCost: number;
+  committedCost: number;
+  remaining: number;
+  laborHours: number;
+  laborCost: number;
+  expenseCost: number;
+  receiptCost: number;
+  percentComplete: number;
+  earnedValue: number;
+  costVariance: number;
+  costPerformanceIndex: number | null;
+  estimateAtCompletion: number;
+  varianceAtCompletion: number;
+  costCodes: JobCostLine[];
+}
+
+export interface ProjectProgressData {
+  percentComplete?: number;
+  items?: Array<{
+    id: string;
+    percentComplete: number;
+  }>;
+}
+
+export interface JobCostResponse {
+  success: boolean;
+  data: JobCostSummary;
+  message?: string;
+}
+
 export interface AssignMemberData {
   userId: string;
   role: string;
@@ -323,6 +465,12 @@ export const createProject = async (projectData: CreateProjectData): Promise<Pro
     budget: projectData.budget,
     actual_cost: projectData.actualCost,
     description: projectData.description || null,
+    required_certifications: projectData.requiredCertifications || [],
+    union_local_id: projectData.unionLocalId ?? null,
+    apprentice_ratio: projectData.apprenticeRatio ?? null,
+    latitude: projectData.latitude ?? null,
+    longitude: projectData.longitude ?? null,
+    geofence_radius: projectData.geofenceRadius ?? null,
   };
 
   const response = await api.post('/projects', transformedData);
@@ -365,6 +513,14 @@ export const updateProject = async (id: string, projectData: UpdateProjectData):
   if (projectData.endDate !== undefined) transformedData.end_date = projectData.endDate;
   if (projectData.budget !== undefined) transformedData.budget = projectData.budget;
   if (projectData.actualCost !== undefined) transformedData.actual_cost = projectData.actualCost;
+  if (projectData.requiredCertifications !== undefined) {
+    transformedData.required_certifications = projectData.requiredCertifications;
+  }
+  if (projectData.unionLocalId !== undefined) transformedData.union_local_id = projectData.unionLocalId;
+  if (projectData.apprenticeRatio !== undefined) transformedData.apprentice_ratio = projectData.apprenticeRatio;
+  if (projectData.latitude !== undefined) transformedData.latitude = projectData.latitude;
+  if (projectData.longitude !== undefined) transformedData.longitude = projectData.longitude;
+  if (projectData.geofenceRadius !== undefined) transformedData.geofence_radius = projectData.geofenceRadius;
 
   const response = await api.put(`/projects/${id}`, transformedData);
   const apiResponse = response as unknown as {
@@ -427,6 +583,39 @@ export const getProjectMembers = async (projectId: string): Promise<ProjectMembe
   return response as unknown as ProjectMembersResponse;
 };
 
+/**
+ * Get budget vs actual vs committed job cost for a project
+ */
+export const getProjectJobCost = async (projectId: string): Promise<JobCostResponse> => {
+  const response = await api.get(`/projects/${projectId}/job-cost`);
+  return response as unknown as JobCostResponse;
+};
+
+/**
+ * Store the computed job cost actuals as the project's actual cost
+ */
+export const recalculateProjectActualCost = async (projectId: string): Promise<JobCostResponse> => {
+  const response = await api.post(`/projects/${projectId}/job-cost/recalculate`);
+  return response as unknown as JobCostResponse;
+};
+
+/**
+ * Update percent complete for a project and/or its budget items
+ */
+export const updateProjectProgress = async (
+  projectId: string,
+  data: ProjectProgressData
+): Promise<JobCostResponse> => {
+  const response = await api.put(`/projects/${projectId}/progress`, {
+    percent_complete: data.percentComplete,
+    items: data.items?.map((item) => ({
+      id: item.id,
+      percent_complete: item.percentComplete,
+    })),
+  });
+  return response as unknown as JobCostResponse;
+};
+
 // Export all functions as a service object
 export const projectService = {
   getAll: getAllProjects,
@@ -437,6 +626,9 @@ export const projectService = {
   assignMember: assignProjectMember,
   removeMember: removeProjectMember,
   getMembers: getProjectMembers,
+  getJobCost: getProjectJobCost,
+  recalculateActualCost: recalculateProjectActualCost,
+  updateProgress: updateProjectProgress,
 };
 
 export default projectService;
@@ -17,6 +17,23 @@ export interface LineItem {
   total: number;
   category?: string;
   notes?: string;
+  // Labor-unit estimating (optional). When set, unit_price is derived as
+  // (material_cost + labor_hours * labor_rate) * (1 + markup / 100)
+  material_cost?: number;
+  labor_hours?: number;
+  labor_rate?: number;
+  markup?: number;
+}
+
+export interface LineItemTotals {
+  subtotal: number;
+  tax: number;
+  total: number;
+  material_subtotal: number;
+  labor_subtotal: number;
+  overhead_profit: number;
+  other_subtotal: number; // Items priced directly without a cost breakdown
+  labor_hours: number;
 }
 
 export interface Quote {
@@ -31,6 +48,10 @@ export interface Quote {
   total: number;
   notes?: string;
   valid_until?: string;
+  project_id?: string | null;
+  converted_at?: string | null;
+  current_revision: number;
+  accepted_revision?: number | null;
   created_by: string;
   updated_by: string;
   created_at: string;
@@ -40,6 +61,11 @@ export interface Quote {
     name: string;
     type: string;
   };
+  project?: {
+    id: string;
+    name: string;
+    project_number: string;
+  } | null;
   creator: {
     id: string;
     first_name: string;
@@ -83,6 +109,68 @@ export interface UpdateQuoteData {
   status?: QuoteStatus;
 }
 
+export interface ConvertQuoteData {
+  project_number?: string;
+  name?: string;
+  type?: 'COMMERCIAL' | 'RESIDENTIAL' | 'INDUSTRIAL' | 'MAINTENANCE' | 'OTHER';
+  billing_type?: 'TIME_AND_MATERIALS' | 'LUMP_SUM' | 'SERVICE_CALL';
+  start_date?: string;
+  location?: string;
+  description?: string;
+}
+
+export interface ConvertQuoteResult {
+  quote: Quote;
+  project: {
+    id: string;
+    name: string;
+    project_number: string;
+  };
+}
+
+export interface QuoteRevision {
+  id: string;
+  quote_id: string;
+  revision_number: number;
+  project_name: string;
+  line_items: LineItem[];
+  subtotal: number;
+  tax?: number | null;
+  total: number;
+  notes?: string | null;
+  valid_until?: string | null;
+  change_summary?: string | null;
+  created_by: string;
+  created_at: string;
+  creator: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  };
+}
+
+export interface QuoteRevisionLineDiff {
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  from: LineItem | null;
+  to: LineItem | null;
+  changed_fields: string[];
+}
+
+export interface QuoteRevisionComparison {
+  quote_id: string;
+  quote_number: string;
+  from_revision: number;
+  to_revision: number;
+  lines: QuoteRevisionLineDiff[];
+  totals: {
+    subtotal: { from: number; to: number };
+    tax: { from: number; to: number };
+    total: { from: number; to: number };
+  };
+  project_name: { from: string; to: string };
+  notes: { from: string | null; to: string | null };
+}
+
 export interface QuoteFilters {
   client_id?: string;
   status?: QuoteStatus;
@@ -203,13 +291,123 @@ class QuoteService {
   }
 
   /**
-   * Calculate line item totals
+   * Convert an accepted quote to a project
    */
-  calculateLineItemTotals(lineItems: LineItem[]): {
-    subtotal: number;
-    tax: number;
-    total: number;
-  } {
+  async convertToProject(id: string, data: ConvertQuoteData = {}): Promise<ConvertQuoteResult> {
+    const response: ApiResponse<ConvertQuoteResult> = await api.post(`/quotes/${id}/convert`, data);
+    return response.data!;
+  }
+
+  /**
+   * List revision history for a quote (newest first)
+   */
+  async listRevisions(id: string): Promise<QuoteRevision[]> {
+    const response: ApiResponse<QuoteRevision[]> = await api.get(`/quotes/${id}/revisions`);
+    return response.data!;
+  }
+
+  /**
+   * Get a single quote revision snapshot
+   */
+  async getRevision(id: string, revisionNumber: number): Promise<QuoteRevision> {
+    const response: ApiResponse<QuoteRevision> = await api.get(`/quotes/${id}/revisions/${revisionNumber}`);
+    return response.data!;
+  }
+
+  /**
+   * Issue a new revision from the quote's current content
+   */
+  async createRevision(id: string, changeSummary?: string): Promise<QuoteRevision> {
+    const response: ApiResponse<QuoteRevision> = await api.post(`/quotes/${id}/revisions`, {
+      change_summary: changeSummary
+    });
+    return response.data!;
+  }
+
+  /**
+   * Mark a revision as accepted by the client
+   */
+  async acceptRevision(id: string, revisionNumber: number): Promise<Quote> {
+    const response: ApiResponse<Quote> = await api.post(`/quotes/${id}/revisions/${revisionNumber}/accept`);
+    return response.data!;
+  }
+
+  /**
+   * Compare two revisions line by line
+   */
+  async compareRevisions(id: string, from: number, to: number): Promise<QuoteRevisionComparison> {
+    const response: ApiResponse<QuoteRevisionComparison> = await api.get(`/quotes/${id}/revisions/compare`, {
+      params: { from, to }
+    });
+    return response.data!;
+  }
+
+  /**
+   * Download quote as a proposal PDF
+   */
+  async downloadQuotePDF(id: string, quoteNumber: string): Promise<void> {
+    // Note: axios interceptor returns response.data, so for blob responses,
+    // we get the Blob directly (not wrapped in response.data)
+    const blob = await api.get(`/quotes/${id}/pdf`, {
+      responseType: 'blob'
+    }) as Blob;
+
+    // Create a blob URL and trigger download
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `quote-${quoteNumber}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Check whether a line item is priced from labor units and material cost
+   */
+  isEstimatedLineItem(item: LineItem): boolean {
+    return item.material_cost != null || item.labor_hours != null;
+  }
+
+  /**
+   * Calculate the sell price per unit for an estimated line item
+   */
+  calculateEstimatedUnitPrice(item: LineItem): number {
+    const cost = (Number(item.material_cost) || 0) +
+      (Number(item.labor_hours) || 0) * (Number(item.labor_rate) || 0);
+    const unitPrice = cost * (1 + (Number(item.markup) || 0) / 100);
+
+    return Math.round(unitPrice * 100) / 100;
+  }
+
+  /**
+   * Calculate line item totals with the material/labor/overhead breakdown
+   * (mirrors the backend calculation)
+   */
+  calculateLineItemTotals(lineItems: LineItem[]): LineItemTotals {
+    let materialSubtotal = 0;
+    let laborSubtotal = 0;
+    let overheadProfit = 0;
+    let otherSubtotal = 0;
+    let laborHours = 0;
+
+    lineItems.forEach((item) => {
+      if (!this.isEstimatedLineItem(item)) {
+        otherSubtotal += item.total;
+        return;
+      }
+
+      const material = item.quantity * (Number(item.material_cost) || 0);
+      const hours = item.quantity * (Number(item.labor_hours) || 0);
+      const labor = hours * (Number(item.labor_rate) || 0);
+
+      materialSubtotal += material;
+      laborSubtotal += labor;
+      overheadProfit += item.total - material - labor;
+      laborHours += hours;
+    });
+
     const subtotal = lineItems.reduce((sum, item) => sum + item.total, 0);
     const tax = subtotal * 0.08; // 8% tax rate
     const total = subtotal + tax;
@@ -217,7 +415,12 @@ class QuoteService {
     return {
       subtotal: Math.round(subtotal * 100) / 100,
       tax: Math.round(tax * 100) / 100,
-      total: Math.round(total * 100) / 100
+      total: Math.round(total * 100) / 100,
+      material_subtotal: Math.round(materialSubtotal * 100) / 100,
+      labor_subtotal: Math.round(laborSubtotal * 100) / 100,
+      overhead_profit: Math.round(overheadProfit * 100) / 100,
+      other_subtotal: Math.round(otherSubtotal * 100) / 100,
+      labor_hours: Math.round(laborHours * 100) / 100
     };
   }
 
@@ -291,6 +494,15 @@ class QuoteService {
     };
   }
 
+  /**
+   * Format quote number with its revision suffix (e.g. Q20250001 R2)
+   */
+  formatQuoteNumber(quote: Pick<Quote, 'quote_number' | 'current_revision'>): string {
+    return quote.current_revision > 0
+      ? `${quote.quote_number} R${quote.current_revision}`
+      : quote.quote_number;
+  }
+
   /**
    * Format currency
    */
@@ -1,7 +1,11 @@
 import api from './api';
 import {
   DailySignIn,
+  GpsCoordinates,
   SignInFormData,
+  SignInBreak,
+  SignInBreakFormData,
+  SignInBreakResponse,
   BulkSignInResult,
   SignInResponse,
   SignInsResponse,
@@ -12,6 +16,30 @@ import {
  * Frontend API client for employee sign-in/sign-out operations
  */
 
+/**
+ * Get the device's current position for a sign-in/sign-out punch.
+ * Resolves undefined when location is unavailable or permission is denied,
+ * so the punch is still recorded (without a geofence check).
+ */
+export const getCurrentPosition = (): Promise<GpsCoordinates | undefined> =>
+  new Promise((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(undefined);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: Math.round(position.coords.accuracy),
+        }),
+      () => resolve(undefined),
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 }
+    );
+  });
+
 /**
  * Get today's sign-ins
  */
@@ -76,13 +104,41 @@ export const bulkSignIn = async (data: SignInFormData): Promise<BulkSignInResult
 /**
  * Sign out an employee
  */
-export const signOut = async (signInId: string, signOutTime: string): Promise<DailySignIn> => {
+export const signOut = async (
+  signInId: string,
+  signOutTime: string,
+  gps?: GpsCoordinates
+): Promise<DailySignIn> => {
   const response = await api.put(`/sign-ins/${signInId}/sign-out`, {
     signOutTime,
+    ...gps,
   }) as SignInResponse;
   return response.data;
 };
 
+/**
+ * Record a meal or rest break on a sign-in (omit endTime to start a break now)
+ */
+export const startBreak = async (signInId: string, data: SignInBreakFormData): Promise<SignInBreak> => {
+  const response = await api.post(`/sign-ins/${signInId}/breaks`, data) as SignInBreakResponse;
+  return response.data;
+};
+
+/**
+ * End a break in progress
+ */
+export const endBreak = async (breakId: string, endTime: string): Promise<SignInBreak> => {
+  const response = await api.put(`/sign-ins/breaks/${breakId}/end`, { endTime }) as SignInBreakResponse;
+  return response.data;
+};
+
+/**
+ * Delete a break recorded in error
+ */
+export const deleteBreak = async (breakId: string): Promise<void> => {
+  await api.delete(`/sign-ins/breaks/${breakId}`);
+};
+
 /**
  * Check if employee is signed in for a date
  */
@@ -99,6 +155,7 @@ export const isEmployeeSignedIn = async (
 };
 
 export default {
+  getCurrentPosition,
   getTodaySignIns,
   getSignInsForDate,
   getActiveSignIns,
@@ -106,6 +163,9 @@ export default {
   signIn,
   bulkSignIn,
   signOut,
+  startBreak,
+  endBreak,
+  deleteBreak,
   isEmployeeSignedIn,
 };
 
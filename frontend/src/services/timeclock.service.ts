@@ -0,0 +1,160 @@
+import api from './api';
+import {
+  BreakType,
+  GpsCoordinates,
+  SignInBreak,
+  SignInBreakResponse,
+  TimeClockPolicy,
+  TimeClockPolicyFormData,
+  TimeClockPolicyResponse,
+  TimeClockPoliciesResponse,
+  TimeClockStatus,
+  TimeClockStatusResponse,
+  TimeClockPunchResult,
+  TimeClockPunchResponse,
+  TimeClockWeek,
+  TimeClockWeekResponse,
+} from '../types/timekeeping.types';
+
+/**
+ * Time Clock Service
+ * Frontend API client for employee self-service punches and time clock policies
+ */
+
+/**
+ * Today's date on the device's calendar (YYYY-MM-DD), so late-evening punches
+ * land on the employee's local work date rather than the UTC one
+ */
+export const getLocalDate = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Get the signed-in user's time clock status
+ */
+export const getClockStatus = async (): Promise<TimeClockStatus> => {
+  const response = await api.get('/time-clock/me') as TimeClockStatusResponse;
+  return response.data;
+};
+
+/**
+ * Clock in on a project and cost code
+ */
+export const clockIn = async (
+  projectId: string,
+  costCodeId: string,
+  gps?: GpsCoordinates,
+  notes?: string
+): Promise<TimeClockPunchResult> => {
+  const response = await api.post('/time-clock/clock-in', {
+    projectId,
+    costCodeId,
+    date: getLocalDate(),
+    notes,
+    ...gps,
+  }) as TimeClockPunchResponse;
+  return response.data;
+};
+
+/**
+ * Switch to another project or cost code without clocking out
+ */
+export const switchProject = async (
+  projectId: string,
+  costCodeId: string,
+  gps?: GpsCoordinates,
+  notes?: string
+): Promise<TimeClockPunchResult> => {
+  const response = await api.post('/time-clock/switch-project', {
+    projectId,
+    costCodeId,
+    notes,
+    ...gps,
+  }) as TimeClockPunchResponse;
+  return response.data;
+};
+
+/**
+ * Clock out
+ */
+export const clockOut = async (gps?: GpsCoordinates): Promise<TimeClockPunchResult> => {
+  const response = await api.post('/time-clock/clock-out', { ...gps }) as TimeClockPunchResponse;
+  return response.data;
+};
+
+/**
+ * Start a meal or rest break
+ */
+export const startBreak = async (breakType: BreakType, gps?: GpsCoordinates): Promise<SignInBreak> => {
+  const response = await api.post('/time-clock/break/start', { breakType, ...gps }) as SignInBreakResponse;
+  return response.data;
+};
+
+/**
+ * End the current break
+ */
+export const endBreak = async (gps?: GpsCoordinates): Promise<SignInBreak> => {
+  const response = await api.post('/time-clock/break/end', { ...gps }) as SignInBreakResponse;
+  return response.data;
+};
+
+/**
+ * Get the signed-in user's hours for the workweek containing a date
+ */
+export const getMyWeek = async (date?: string): Promise<TimeClockWeek> => {
+  const response = await api.get(
+    `/time-clock/me/week${date ? `?date=${date}` : ''}`
+  ) as TimeClockWeekResponse;
+  return response.data;
+};
+
+/**
+ * Get all time clock policies
+ */
+export const getTimeClockPolicies = async (): Promise<TimeClockPolicy[]> => {
+  const response = await api.get('/time-clock/policies') as TimeClockPoliciesResponse;
+  return response.data;
+};
+
+/**
+ * Create a time clock policy
+ */
+export const createTimeClockPolicy = async (data: TimeClockPolicyFormData): Promise<TimeClockPolicy> => {
+  const response = await api.post('/time-clock/policies', data) as TimeClockPolicyResponse;
+  return response.data;
+};
+
+/**
+ * Update a time clock policy
+ */
+export const updateTimeClockPolicy = async (
+  id: string,
+  data: Partial<TimeClockPolicyFormData>
+): Promise<TimeClockPolicy> => {
+  const response = await api.put(`/time-clock/policies/${id}`, data) as TimeClockPolicyResponse;
+  return response.data;
+};
+
+/**
+ * Delete a time clock policy
+ */
+export const deleteTimeClockPolicy = async (id: string): Promise<void> => {
+  await api.delete(`/time-clock/policies/${id}`);
+};
+
+export default {
+  getLocalDate,
+  getClockStatus,
+  clockIn,
+  switchProject,
+  clockOut,
+  startBreak,
+  endBreak,
+  getMyWeek,
+  getTimeClockPolicies,
+  createTimeClockPolicy,
+  updateTimeClockPolicy,
+  deleteTimeClockPolicy,
+};
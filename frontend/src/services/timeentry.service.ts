@@ -143,11 +143,13 @@ export const rejectTimeEntry = async (id: string, reason: string): Promise<TimeE
  */
 export const autoCreateFromSignIn = async (
   signInId: string,
-  projectId: string
+  projectId: string,
+  costCodeId: string
 ): Promise<TimeEntry> => {
   const response = await api.post('/time-entries/auto-create', {
     signInId,
     projectId,
+    costCodeId,
   }) as TimeEntryResponse;
   return response.data;
 };
@@ -59,6 +59,13 @@ export interface TimeEntry {
   workType?: string;
   description?: string;
   taskPerformed?: string;
+  ojtCategoryId?: string | null;
+  costCodeId?: string | null;
+  costCode?: {
+    id: string;
+    code: string;
+    name: string;
+  };
   startTime?: string;
   endTime?: string;
   status?: string;
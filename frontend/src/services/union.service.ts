@@ -0,0 +1,139 @@
+import api from './api';
+import {
+  UnionLocal,
+  UnionLocalFormData,
+  UnionLocalResponse,
+  UnionLocalsResponse,
+  UnionRate,
+  UnionRateFormData,
+  UnionRateResponse,
+  UnionRatesResponse,
+  UnionRemittanceReport,
+  UnionRemittanceReportResponse,
+} from '../types/timekeeping.types';
+
+/**
+ * Union Service
+ * Frontend API client for union locals, their wage and fringe packages,
+ * and the monthly fringe benefit remittance report
+ */
+
+/**
+ * Get union locals
+ */
+export const getUnionLocals = async (includeInactive: boolean = false): Promise<UnionLocal[]> => {
+  const response = await api.get(
+    `/union-locals${includeInactive ? '?includeInactive=true' : ''}`
+  ) as UnionLocalsResponse;
+  return response.data;
+};
+
+/**
+ * Create a union local
+ */
+export const createUnionLocal = async (data: UnionLocalFormData): Promise<UnionLocal> => {
+  const response = await api.post('/union-locals', data) as UnionLocalResponse;
+  return response.data;
+};
+
+/**
+ * Update a union local
+ */
+export const updateUnionLocal = async (id: string, data: Partial<UnionLocalFormData>): Promise<UnionLocal> => {
+  const response = await api.put(`/union-locals/${id}`, data) as UnionLocalResponse;
+  return response.data;
+};
+
+/**
+ * Delete a union local
+ */
+export const deleteUnionLocal = async (id: string): Promise<void> => {
+  await api.delete(`/union-locals/${id}`);
+};
+
+/**
+ * Get a local's wage and fringe packages
+ */
+export const getUnionRates = async (unionLocalId: string): Promise<UnionRate[]> => {
+  const response = await api.get(`/union-locals/${unionLocalId}/rates`) as UnionRatesResponse;
+  return response.data;
+};
+
+/**
+ * Add a wage and fringe package to a local
+ */
+export const createUnionRate = async (unionLocalId: string, data: UnionRateFormData): Promise<UnionRate> => {
+  const response = await api.post(`/union-locals/${unionLocalId}/rates`, data) as UnionRateResponse;
+  return response.data;
+};
+
+/**
+ * Update a wage and fringe package
+ */
+export const updateUnionRate = async (
+  unionLocalId: string,
+  id: string,
+  data: Partial<UnionRateFormData>
+): Promise<UnionRate> => {
+  const response = await api.put(`/union-locals/${unionLocalId}/rates/${id}`, data) as UnionRateResponse;
+  return response.data;
+};
+
+/**
+ * Delete a wage and fringe package
+ */
+export const deleteUnionRate = async (unionLocalId: string, id: string): Promise<void> => {
+  await api.delete(`/union-locals/${unionLocalId}/rates/${id}`);
+};
+
+const buildRemittanceQuery = (month: string, unionLocalId?: string): string => {
+  const params = new URLSearchParams({ month });
+  if (unionLocalId) params.append('unionLocalId', unionLocalId);
+  return params.toString();
+};
+
+/**
+ * Get the fringe benefit remittance report for a month (YYYY-MM)
+ */
+export const getRemittanceReport = async (month: string, unionLocalId?: string): Promise<UnionRemittanceReport> => {
+  const response = await api.get(
+    `/union-locals/remittance?${buildRemittanceQuery(month, unionLocalId)}`
+  ) as UnionRemittanceReportResponse;
+  return response.data;
+};
+
+/**
+ * Download the fringe benefit remittance report as CSV
+ * Triggers browser download
+ */
+export const downloadRemittanceCSV = async (month: string, unionLocalId?: string): Promise<void> => {
+  const response = await api.get(`/union-locals/remittance/export?${buildRemittanceQuery(month, unionLocalId)}`, {
+    responseType: 'blob',
+  });
+
+  // Create blob and trigger download
+  const blob = new Blob([response.data], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', `union-remittance-${month}.csv`);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.URL.revokeObjectURL(url);
+};
+
+const unionService = {
+  getUnionLocals,
+  createUnionLocal,
+  updateUnionLocal,
+  deleteUnionLocal,
+  getUnionRates,
+  createUnionRate,
+  updateUnionRate,
+  deleteUnionRate,
+  getRemittanceReport,
+  downloadRemittanceCSV,
+};
+
+export default unionService;
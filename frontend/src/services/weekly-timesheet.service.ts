@@ -0,0 +1,99 @@
+import api from './api';
+import {
+  WeeklyTimesheet,
+  WeeklyTimesheetStatus,
+  WeeklyTimesheetResponse,
+  WeeklyTimesheetsResponse,
+  MyWeeklyTimesheetResponse,
+  WeeklyTimesheetGenerateResult,
+  WeeklyTimesheetGenerateResponse,
+} from '../types/timekeeping.types';
+
+/**
+ * Weekly Timesheet Service
+ * Frontend API client for the weekly timesheet roll-up and approval workflow
+ */
+
+/**
+ * Get weekly timesheets, optionally for one week, employee or status
+ */
+export const getWeeklyTimesheets = async (filters?: {
+  weekStart?: string;
+  employeeId?: string;
+  status?: WeeklyTimesheetStatus;
+}): Promise<WeeklyTimesheet[]> => {
+  const params = new URLSearchParams();
+  if (filters?.weekStart) params.append('weekStart', filters.weekStart);
+  if (filters?.employeeId) params.append('employeeId', filters.employeeId);
+  if (filters?.status) params.append('status', filters.status);
+
+  const response = await api.get(`/weekly-timesheets?${params.toString()}`) as WeeklyTimesheetsResponse;
+  return response.data;
+};
+
+/**
+ * Get the signed-in user's weekly timesheet for the week containing a date
+ * (null when they have no time that week)
+ */
+export const getMyWeeklyTimesheet = async (date?: string): Promise<WeeklyTimesheet | null> => {
+  const response = await api.get(
+    `/weekly-timesheets/me${date ? `?date=${date}` : ''}`
+  ) as MyWeeklyTimesheetResponse;
+  return response.data;
+};
+
+/**
+ * Get a weekly timesheet with its time entries
+ */
+export const getWeeklyTimesheetById = async (id: string): Promise<WeeklyTimesheet> => {
+  const response = await api.get(`/weekly-timesheets/${id}`) as WeeklyTimesheetResponse;
+  return response.data;
+};
+
+/**
+ * Generate or refresh weekly timesheets from time entries
+ */
+export const generateWeeklyTimesheets = async (
+  weekStart: string,
+  employeeId?: string
+): Promise<WeeklyTimesheetGenerateResult> => {
+  const response = await api.post('/weekly-timesheets/generate', {
+    weekStart,
+    employeeId,
+  }) as WeeklyTimesheetGenerateResponse;
+  return response.data;
+};
+
+/**
+ * Submit a weekly timesheet for approval
+ */
+export const submitWeeklyTimesheet = async (id: string, notes?: string): Promise<WeeklyTimesheet> => {
+  const response = await api.put(`/weekly-timesheets/${id}/submit`, { notes }) as WeeklyTimesheetResponse;
+  return response.data;
+};
+
+/**
+ * Approve a submitted weekly timesheet (locks its time entries)
+ */
+export const approveWeeklyTimesheet = async (id: string, comments?: string): Promise<WeeklyTimesheet> => {
+  const response = await api.put(`/weekly-timesheets/${id}/approve`, { comments }) as WeeklyTimesheetResponse;
+  return response.data;
+};
+
+/**
+ * Reject a weekly timesheet back to the employee
+ */
+export const rejectWeeklyTimesheet = async (id: string, comments: string): Promise<WeeklyTimesheet> => {
+  const response = await api.put(`/weekly-timesheets/${id}/reject`, { comments }) as WeeklyTimesheetResponse;
+  return response.data;
+};
+
+export default {
+  getWeeklyTimesheets,
+  getMyWeeklyTimesheet,
+  getWeeklyTimesheetById,
+  generateWeeklyTimesheets,
+  submitWeeklyTimesheet,
+  approveWeeklyTimesheet,
+  rejectWeeklyTimesheet,
+};
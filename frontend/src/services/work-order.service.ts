@@ -0,0 +1,207 @@
+/**
+ * Work Order Service
+ *
+ * Handles API communication for service call work orders, the dispatch
+ * workflow and customer signature capture.
+ */
+
+import api, { ApiResponse } from './api';
+import { LineItem } from './quote.service';
+
+export type WorkOrderStatus = 'OPEN' | 'DISPATCHED' | 'ON_SITE' | 'COMPLETED' | 'INVOICED';
+export type WorkOrderPriority = 'LOW' | 'NORMAL' | 'HIGH' | 'EMERGENCY';
+
+export interface WorkOrder {
+  id: string;
+  wo_number: string;
+  client_id: string;
+  project_id: string | null;
+  site_address: string;
+  site_contact_name: string | null;
+  site_contact_phone: string | null;
+  problem_description: string;
+  priority: WorkOrderPriority;
+  status: WorkOrderStatus;
+  assigned_employee_id: string | null;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  materials_used: LineItem[];
+  materials_total: number;
+  technician_notes: string | null;
+  customer_signature: string | null; // Only included when fetching a single work order
+  has_signature: boolean;
+  signed_by_name: string | null;
+  signed_at: string | null;
+  dispatched_at: string | null;
+  arrived_at: string | null;
+  completed_at: string | null;
+  invoiced_at: string | null;
+  created_at: string;
+  updated_at: string;
+  client: {
+    id: string;
+    name: string;
+    phone: string | null;
+  };
+  project: {
+    id: string;
+    name: string;
+    project_number: string;
+  } | null;
+  technician: {
+    id: string;
+    first_name: string;
+    last_name: string;
+    phone: string | null;
+    mobile_phone: string | null;
+  } | null;
+  creator: {
+    id: string;
+    first_name: string;
+    last_name: string;
+  };
+}
+
+export interface WorkOrderFormData {
+  client_id: string;
+  project_id?: string | null;
+  site_address: string;
+  site_contact_name?: string;
+  site_contact_phone?: string;
+  problem_description: string;
+  priority: WorkOrderPriority;
+  assigned_employee_id?: string | null;
+  scheduled_start?: string | null;
+  scheduled_end?: string | null;
+  materials_used?: LineItem[];
+  technician_notes?: string;
+}
+
+export interface WorkOrderFilters {
+  status?: WorkOrderStatus[];
+  priority?: WorkOrderPriority;
+  assigned_employee_id?: string;
+  client_id?: string;
+  scheduled_from?: string;
+  scheduled_to?: string;
+  search?: string;
+}
+
+// Dispatch board columns, in workflow order
+export const WORK_ORDER_STATUSES: { value: WorkOrderStatus; label: string }[] = [
+  { value: 'OPEN', label: 'Open' },
+  { value: 'DISPATCHED', label: 'Dispatched' },
+  { value: 'ON_SITE', label: 'On Site' },
+  { value: 'COMPLETED', label: 'Completed' },
+  { value: 'INVOICED', label: 'Invoiced' }
+];
+
+export const WORK_ORDER_PRIORITIES: { value: WorkOrderPriority; label: string }[] = [
+  { value: 'LOW', label: 'Low' },
+  { value: 'NORMAL', label: 'Normal' },
+  { value: 'HIGH', label: 'High' },
+  { value: 'EMERGENCY', label: 'Emergency' }
+];
+
+// Roles that create, assign and schedule work orders (matches the API)
+export const DISPATCHER_ROLES = ['PROJECT_MANAGER', 'OFFICE_ADMIN', 'SUPER_ADMIN'];
+
+class WorkOrderService {
+  /**
+   * List work orders for the dispatch board (technicians get their own)
+   */
+  async getWorkOrders(filters: WorkOrderFilters = {}): Promise<WorkOrder[]> {
+    const { status, ...rest } = filters;
+    const response: ApiResponse<WorkOrder[]> = await api.get('/work-orders', {
+      params: { ...rest, ...(status && status.length > 0 ? { status: status.join(',') } : {}) }
+    });
+    return response.data!;
+  }
+
+  /**
+   * Get a single work order, including the customer signature
+   */
+  async getWorkOrder(id: string): Promise<WorkOrder> {
+    const response: ApiResponse<WorkOrder> = await api.get(`/work-orders/${id}`);
+    return response.data!;
+  }
+
+  /**
+   * Create work order (starts open)
+   */
+  async createWorkOrder(data: WorkOrderFormData): Promise<WorkOrder> {
+    const response: ApiResponse<WorkOrder> = await api.post('/work-orders', data);
+    return response.data!;
+  }
+
+  /**
+   * Update work order (technicians may only send materials and notes)
+   */
+  async updateWorkOrder(id: string, data: Partial<WorkOrderFormData>): Promise<WorkOrder> {
+    const response: ApiResponse<WorkOrder> = await api.put(`/work-orders/${id}`, data);
+    return response.data!;
+  }
+
+  /**
+   * Move work order through the dispatch workflow
+   */
+  async updateStatus(id: string, status: WorkOrderStatus): Promise<WorkOrder> {
+    const response: ApiResponse<WorkOrder> = await api.patch(`/work-orders/${id}/status`, { status });
+    return response.data!;
+  }
+
+  /**
+   * Save the customer's signature (PNG data URL)
+   */
+  async saveSignature(id: string, signature: string, signedByName: string): Promise<WorkOrder> {
+    const response: ApiResponse<WorkOrder> = await api.put(`/work-orders/${id}/signature`, {
+      signature,
+      signed_by_name: signedByName
+    });
+    return response.data!;
+  }
+
+  /**
+   * Delete work order
+   */
+  async deleteWorkOrder(id: string): Promise<void> {
+    await api.delete(`/work-orders/${id}`);
+  }
+
+  /**
+   * Get the chip color for a work order status
+   */
+  getStatusColor(status: WorkOrderStatus): 'default' | 'primary' | 'warning' | 'success' | 'info' {
+    switch (status) {
+      case 'DISPATCHED':
+        return 'primary';
+      case 'ON_SITE':
+        return 'warning';
+      case 'COMPLETED':
+        return 'success';
+      case 'INVOICED':
+        return 'info';
+      default:
+        return 'default';
+    }
+  }
+
+  /**
+   * Get the chip color for a work order priority
+   */
+  getPriorityColor(priority: WorkOrderPriority): 'default' | 'info' | 'warning' | 'error' {
+    switch (priority) {
+      case 'LOW':
+        return 'default';
+      case 'HIGH':
+        return 'warning';
+      case 'EMERGENCY':
+        return 'error';
+      default:
+        return 'info';
+    }
+  }
+}
+
+export const workOrderService = new WorkOrderService();
+export default workOrderService;
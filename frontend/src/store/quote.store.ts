@@ -16,7 +16,9 @@ import {
   QuoteListResponse, 
   QuoteStats,
   QuotePaginationOptions,
-  LineItem
+  LineItem,
+  ConvertQuoteData,
+  ConvertQuoteResult
 } from '../services/quote.service';
 
 interface QuoteState {
@@ -59,6 +61,9 @@ interface QuoteState {
   updateQuoteStatus: (id: string, status: string) => Promise<Quote>;
   deleteQuote: (id: string) => Promise<void>;
   duplicateQuote: (id: string, projectName: string) => Promise<Quote>;
+  convertQuoteToProject: (id: string, data?: ConvertQuoteData) => Promise<ConvertQuoteResult>;
+  createQuoteRevision: (id: string, changeSummary?: string) => Promise<Quote>;
+  acceptQuoteRevision: (id: string, revisionNumber: number) => Promise<Quote>;
   
   // Utility Actions
   clearError: () => void;
@@ -245,6 +250,64 @@ const useQuoteStore = create<QuoteState>()(
         }
       },
       
+      convertQuoteToProject: async (id, data) => {
+        try {
+          set({ loading: true, error: null });
+          
+          const result = await quoteService.convertToProject(id, data);
+          
+          // Update in quotes list
+          const { quotes } = get();
+          const updatedQuotes = quotes.map(q => q.id === id ? result.quote : q);
+          set({ quotes: updatedQuotes, currentQuote: result.quote, loading: false });
+          
+          return result;
+        } catch (error: any) {
+          const errorMessage = error?.error?.message || error.message || 'Failed to convert quote to project';
+          set({ error: errorMessage, loading: false });
+          throw error;
+        }
+      },
+      
+      createQuoteRevision: async (id, changeSummary) => {
+        try {
+          set({ loading: true, error: null });
+          
+          await quoteService.createRevision(id, changeSummary);
+          const quote = await quoteService.getQuoteById(id);
+          
+          // Update in quotes list
+          const { quotes } = get();
+          const updatedQuotes = quotes.map(q => q.id === id ? quote : q);
+          set({ quotes: updatedQuotes, currentQuote: quote, loading: false });
+          
+          return quote;
+        } catch (error: any) {
+          const errorMessage = error?.error?.message || error.message || 'Failed to create quote revision';
+          set({ error: errorMessage, loading: false });
+          throw error;
+        }
+      },
+      
+      acceptQuoteRevision: async (id, revisionNumber) => {
+        try {
+          set({ loading: true, error: null });
+          
+          const quote = await quoteService.acceptRevision(id, revisionNumber);
+          
+          // Update in quotes list
+          const { quotes } = get();
+          const updatedQuotes = quotes.map(q => q.id === id ? quote : q);
+          set({ quotes: updatedQuotes, currentQuote: quote, loading: false });
+          
+          return quote;
+        } catch (error: any) {
+          const errorMessage = error?.error?.message || error.message || 'Failed to accept quote revision';
+          set({ error: errorMessage, loading: false });
+          throw error;
+        }
+      },
+      
       // Utility Actions
       clearError: () => set({ error: null }),
       clearCurrentQuote: () => set({ currentQuote: null }),
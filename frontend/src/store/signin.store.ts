@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import {
   DailySignIn,
+  GpsCoordinates,
   SignInFormData,
   BulkSignInResult,
 } from '../types/timekeeping.types';
@@ -20,7 +21,7 @@ interface SignInState {
   fetchActiveSignIns: () => Promise<void>;
   signIn: (data: Omit<SignInFormData, 'employeeIds'> & { employeeId: string }) => Promise<DailySignIn>;
   bulkSignIn: (data: SignInFormData) => Promise<BulkSignInResult>;
-  signOut: (signInId: string, signOutTime: string) => Promise<DailySignIn>;
+  signOut: (signInId: string, signOutTime: string, gps?: GpsCoordinates) => Promise<DailySignIn>;
   setSelectedDate: (date: string) => void;
   clearError: () => void;
 }
@@ -112,10 +113,10 @@ export const useSignInStore = create<SignInState>((set, get) => ({
   },
 
   // Sign out an employee
-  signOut: async (signInId, signOutTime) => {
+  signOut: async (signInId, signOutTime, gps) => {
     set({ isLoading: true, error: null });
     try {
-      const updatedSignIn = await signInService.signOut(signInId, signOutTime);
+      const updatedSignIn = await signInService.signOut(signInId, signOutTime, gps);
       
       // Update in signIns array
       set((state) => ({
@@ -27,6 +27,22 @@ export interface DailySignIn {
     projectNumber: string;
   };
   notes?: string;
+  // Meal and rest breaks, unpaid minutes so far and any meal period problem
+  breaks?: SignInBreak[];
+  unpaidBreakMinutes?: number;
+  mealPeriodException?: MealPeriodException | null;
+  // Device GPS at each punch and distance (meters) from the project site;
+  // outside-geofence flags are null when the punch could not be checked
+  signInLatitude?: number | null;
+  signInLongitude?: number | null;
+  signInAccuracy?: number | null;
+  signInDistance?: number | null;
+  signInOutsideGeofence?: boolean | null;
+  signOutLatitude?: number | null;
+  signOutLongitude?: number | null;
+  signOutAccuracy?: number | null;
+  signOutDistance?: number | null;
+  signOutOutsideGeofence?: boolean | null;
   signedInBy: string;
   signedInByUser?: {
     id: string;
@@ -43,7 +59,40 @@ export interface DailySignIn {
   updatedAt: string;
 }
 
-export interface SignInFormData {
+export type BreakType = 'MEAL' | 'REST';
+
+export interface SignInBreak {
+  id: string;
+  signInId: string;
+  breakType: BreakType;
+  isPaid: boolean;
+  startTime: string;
+  endTime: string | null; // null = break in progress
+  notes?: string | null;
+}
+
+export interface SignInBreakFormData {
+  breakType: BreakType;
+  startTime: string;
+  endTime?: string;
+  isPaid?: boolean;
+  notes?: string;
+}
+
+export type MealPeriodExceptionType = 'MISSED_MEAL' | 'SHORT_MEAL' | 'LATE_MEAL';
+
+export interface MealPeriodException {
+  type: MealPeriodExceptionType;
+  message: string;
+}
+
+export interface GpsCoordinates {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+export interface SignInFormData extends Partial<GpsCoordinates> {
   employeeIds: string[];
   date: string;
   signInTime: string;
@@ -82,6 +131,7 @@ export interface TimeEntry {
     projectNumber: string;
   };
   hoursWorked: number;
+  breakMinutes?: number; // Unpaid break time already deducted from hoursWorked
   workType?: WorkType;
   description?: string;
   taskPerformed?: string;
@@ -91,6 +141,9 @@ export interface TimeEntry {
   totalCost?: number;
   status: TimeEntryStatus;
   signInId?: string;
+  ojtCategoryId?: string | null; // Apprentice OJT work category
+  costCodeId?: string | null; // Job cost phase (null on entries recorded before cost codes)
+  costCode?: CostCodeSummary;
   createdBy: string;
   createdByUser?: {
     id: string;
@@ -120,6 +173,8 @@ export interface TimeEntryFormData {
   endTime?: string;
   hourlyRate?: number;
   signInId?: string;
+  ojtCategoryId?: string | null;
+  costCodeId: string;
 }
 
 export interface BulkTimeEntryData extends TimeEntryFormData {
@@ -134,6 +189,9 @@ export interface ProjectHours {
   projectId: string;
   projectName: string;
   hoursWorked: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
 }
 
 export interface DailyReportEmployee {
@@ -141,23 +199,44 @@ export interface DailyReportEmployee {
   firstName: string;
   lastName: string;
   classification: string;
+  overtimePolicy: string;
   totalHours: number;
   regularHours: number;
   overtimeHours: number;
+  doubleTimeHours: number;
   projects: ProjectHours[];
   signInTime?: string;
   signOutTime?: string;
+  maxPunchDistance: number | null;
+  outsideGeofence: boolean;
+  mealPeriodException: string | null;
+}
+
+// Completed sign-in without a compliant meal period
+export interface ComplianceException extends MealPeriodException {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  classification: string;
+  date: string;
+  signInId: string;
+  signInTime: string;
+  signOutTime: string | null;
 }
 
 export interface DailyReport {
   date: string;
   employees: DailyReportEmployee[];
   grandTotalHours: number;
+  complianceExceptions: ComplianceException[];
 }
 
 export interface DailyHours {
   date: string;
   hours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
   projects: ProjectHours[];
 }
 
@@ -166,9 +245,12 @@ export interface WeeklyReportEmployee {
   firstName: string;
   lastName: string;
   classification: string;
+  overtimePolicy: string;
   totalHours: number;
   regularHours: number;
   overtimeHours: number;
+  doubleTimeHours: number;
+  mealPeriodExceptions: number;
   dailyHours: DailyHours[];
 }
 
@@ -177,6 +259,7 @@ export interface WeeklyReport {
   endDate: string;
   employees: WeeklyReportEmployee[];
   grandTotalHours: number;
+  complianceExceptions: ComplianceException[];
 }
 
 export interface ProjectCostBreakdown {
@@ -184,8 +267,23 @@ export interface ProjectCostBreakdown {
   name: string;
   classification: string;
   hours: number;
-  rate: number | null;
-  cost: number;
+  rate: number | null; // Wage in effect on the first day worked
+  cost: number; // Wages only
+  burdenedCost: number; // Wages plus taxes, workers comp, benefits and fringes
+}
+
+export interface ProjectCostCodeBreakdown {
+  costCodeId: string | null; // null for the "Uncoded" bucket
+  code: string;
+  name: string;
+  hours: number;
+  laborCost: number; // Fully burdened
+  expenseCost: number;
+  totalCost: number;
+  budgetHours: number | null;
+  budgetAmount: number | null;
+  remainingHours: number | null;
+  remainingAmount: number | null;
 }
 
 export interface ProjectCostReport {
@@ -195,15 +293,22 @@ export interface ProjectCostReport {
   startDate: string;
   endDate: string;
   totalHours: number;
-  totalCost: number;
+  totalCost: number; // Labor wages only
+  totalBurdenedCost: number; // Labor wages plus burden
+  totalExpenseCost: number;
   breakdown: ProjectCostBreakdown[];
+  costCodes: ProjectCostCodeBreakdown[];
 }
 
 export interface PayrollSummary {
   totalLaborHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
   totalLaborCost: number;
   employeeCount: number;
   projectCount: number;
+  mealPeriodExceptionCount: number;
   topProjects: Array<{
     projectId: string;
     name: string;
@@ -211,6 +316,559 @@ export interface PayrollSummary {
   }>;
 }
 
+// ========================================
+// Overtime Policy Types
+// ========================================
+
+export interface OvertimePolicy {
+  id: string;
+  name: string;
+  classification: string | null; // null = company-wide
+  isDefault: boolean;
+  dailyOvertimeAfter: number | null;
+  dailyDoubleTimeAfter: number | null;
+  weeklyOvertimeAfter: number | null;
+  seventhDayRule: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OvertimePolicyFormData {
+  name: string;
+  classification?: string | null;
+  isDefault?: boolean;
+  dailyOvertimeAfter?: number | null;
+  dailyDoubleTimeAfter?: number | null;
+  weeklyOvertimeAfter?: number | null;
+  seventhDayRule?: boolean;
+  isActive?: boolean;
+}
+
+// ========================================
+// Cost Code Types
+// ========================================
+
+export interface CostCodeSummary {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export interface CostCode extends CostCodeSummary {
+  description: string | null;
+  sortOrder: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CostCodeFormData {
+  code: string;
+  name: string;
+  description?: string | null;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+export interface ProjectCostCode {
+  id: string;
+  projectId: string;
+  costCodeId: string;
+  budgetHours: number | null;
+  budgetAmount: number | null;
+  costCode: CostCode;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectCostCodeFormData {
+  budgetHours?: number | null;
+  budgetAmount?: number | null;
+}
+
+// ========================================
+// Apprenticeship Types
+// ========================================
+
+export interface ApprenticeWorkCategory {
+  id: string;
+  name: string;
+  description: string | null;
+  requiredHours: number;
+  sortOrder: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApprenticeWorkCategoryFormData {
+  name: string;
+  description?: string | null;
+  requiredHours: number;
+  sortOrder?: number;
+  isActive?: boolean;
+}
+
+export interface ApprenticeCategoryProgress {
+  categoryId: string;
+  name: string;
+  requiredHours: number;
+  approvedHours: number;
+  pendingHours: number;
+  percentComplete: number;
+}
+
+export interface ApprenticeProgress {
+  employee: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    classification: string;
+    hireDate: string | null;
+  };
+  categories: ApprenticeCategoryProgress[];
+  totalApprovedHours: number;
+  totalPendingHours: number;
+  uncategorizedHours: number; // Logged without an OJT category
+  totalRequiredHours: number;
+  percentComplete: number;
+}
+
+export interface RatioCheckPerson {
+  id: string;
+  name: string;
+  classification: string;
+}
+
+export interface ApprenticeRatioCheck {
+  date: string; // YYYY-MM-DD
+  project: {
+    id: string;
+    name: string;
+    projectNumber: string;
+  };
+  ratio: number; // Max apprentices per journeyman
+  journeymen: RatioCheckPerson[];
+  apprentices: RatioCheckPerson[];
+  journeymanCount: number;
+  apprenticeCount: number;
+  allowedApprentices: number;
+  compliant: boolean;
+  message: string | null;
+}
+
+// ========================================
+// Time Clock Types
+// ========================================
+
+export interface TimeClockPolicy {
+  id: string;
+  name: string;
+  classification: string | null; // null = company-wide
+  isDefault: boolean;
+  selfPunchEnabled: boolean;
+  requiresApproval: boolean;
+  requireGps: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TimeClockPolicyFormData {
+  name: string;
+  classification?: string | null;
+  isDefault?: boolean;
+  selfPunchEnabled?: boolean;
+  requiresApproval?: boolean;
+  requireGps?: boolean;
+  isActive?: boolean;
+}
+
+// Policy applied to the signed-in employee (policyId is null for the built-in standard)
+export interface ResolvedTimeClockPolicy {
+  policyId: string | null;
+  policyName: string;
+  selfPunchEnabled: boolean;
+  requiresApproval: boolean;
+  requireGps: boolean;
+}
+
+export interface PunchEntry {
+  id: string;
+  date: string;
+  projectId: string;
+  project?: {
+    id: string;
+    name: string;
+    projectNumber: string;
+  };
+  costCodeId: string | null;
+  costCode?: CostCodeSummary;
+  startTime: string | null;
+  endTime: string | null;
+  hoursWorked: number; // hours elapsed so far while the punch is open
+  isOpen: boolean;
+  selfPunched: boolean;
+  status: TimeEntryStatus;
+  description?: string | null;
+}
+
+export interface TimeClockStatus {
+  employee: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    classification: string;
+  };
+  policy: ResolvedTimeClockPolicy;
+  clockedIn: boolean;
+  signInId: string | null;
+  signInTime: string | null;
+  openEntry: PunchEntry | null;
+  activeBreak: {
+    id: string;
+    breakType: BreakType;
+    isPaid: boolean;
+    startTime: string;
+  } | null;
+}
+
+export interface TimeClockPunchResult {
+  signIn?: DailySignIn;
+  closedEntry?: PunchEntry | null;
+  openEntry?: PunchEntry | null;
+}
+
+export interface TimeClockDay {
+  date: string;
+  hours: number;
+  entries: PunchEntry[];
+}
+
+export interface TimeClockWeek {
+  weekStart: string;
+  weekEnd: string;
+  days: TimeClockDay[];
+  totalHours: number;
+  approvedHours: number;
+  pendingHours: number;
+}
+
+// ========================================
+// Weekly Timesheet Types
+// ========================================
+
+export type WeeklyTimesheetStatus = 'DRAFT' | 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
+export interface WeeklyTimesheetUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface WeeklyTimesheetEntry {
+  id: string;
+  date: string;
+  projectId: string;
+  project?: {
+    id: string;
+    name: string;
+    projectNumber: string;
+  };
+  hoursWorked: number;
+  breakMinutes: number;
+  workType: string;
+  description?: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  status: TimeEntryStatus;
+  selfPunched: boolean;
+}
+
+export interface WeeklyTimesheet {
+  id: string;
+  employeeId: string;
+  employee?: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    employeeNumber: string | null;
+    classification: string;
+  };
+  weekStartDate: string;
+  weekEndDate: string;
+  totalHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+  status: WeeklyTimesheetStatus;
+  submittedAt: string | null;
+  submittedBy: WeeklyTimesheetUser | null;
+  approvedAt: string | null;
+  approvedBy: WeeklyTimesheetUser | null;
+  rejectedAt: string | null;
+  rejectedBy: WeeklyTimesheetUser | null;
+  notes: string | null;
+  reviewComments: string | null;
+  isLocked: boolean; // Approved weeks lock their time entries
+  timeEntries?: WeeklyTimesheetEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WeeklyTimesheetGenerateResult {
+  weekStartDate: string;
+  weekEndDate: string;
+  generated: number;
+  skipped: number; // Submitted or approved weeks are not regenerated
+  timesheets: WeeklyTimesheet[];
+}
+
+// ========================================
+// Payroll Period Types
+// ========================================
+
+export type PayrollPeriodType = 'WEEKLY' | 'BIWEEKLY';
+
+export type PayrollPeriodStatus = 'OPEN' | 'CLOSED';
+
+export interface PayrollPeriodHours {
+  totalHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  doubleTimeHours: number;
+}
+
+export interface PayrollPeriodSnapshotEmployee extends PayrollPeriodHours {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  classification: string;
+}
+
+export interface PayrollPeriodSnapshot extends PayrollPeriodHours {
+  id: string;
+  payrollPeriodId: string;
+  employeeCount: number;
+  employees: PayrollPeriodSnapshotEmployee[];
+  createdAt: string;
+  createdBy: string | null;
+}
+
+export interface PayrollPeriod {
+  id: string;
+  periodType: PayrollPeriodType;
+  startDate: string;
+  endDate: string;
+  status: PayrollPeriodStatus;
+  isClosed: boolean;
+  notes: string | null;
+  closedAt: string | null;
+  closedBy: WeeklyTimesheetUser | null;
+  reopenedAt: string | null;
+  reopenedBy: WeeklyTimesheetUser | null;
+  reopenReason: string | null;
+  snapshots?: PayrollPeriodSnapshot[]; // Latest only in lists; all on detail
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PayrollPeriodFormData {
+  periodType: PayrollPeriodType;
+  startDate?: string; // Defaults to the day after the latest period
+  notes?: string;
+}
+
+export interface PayrollPeriodComparisonEmployee {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  classification: string;
+  snapshot: PayrollPeriodSnapshotEmployee | null;
+  current: PayrollPeriodSnapshotEmployee | null;
+  difference: PayrollPeriodHours;
+}
+
+export interface PayrollPeriodComparison {
+  payrollPeriodId: string;
+  startDate: string;
+  endDate: string;
+  snapshotAt: string;
+  snapshot: PayrollPeriodHours & { employeeCount: number };
+  current: PayrollPeriodHours & { employeeCount: number };
+  hasChanges: boolean;
+  changedEmployeeCount: number;
+  employees: PayrollPeriodComparisonEmployee[];
+}
+
+// ========================================
+// Payroll Export Types
+// ========================================
+
+export type PayrollExportFormat = 'QUICKBOOKS_IIF' | 'QUICKBOOKS_ONLINE' | 'ADP' | 'GUSTO';
+
+export interface PayrollExportFormatOption {
+  format: PayrollExportFormat;
+  label: string;
+  description: string;
+  fileExtension: string;
+  requiresPayrollId: boolean; // Employees must have a payroll ID to export
+}
+
+// ========================================
+// Certified Payroll Types
+// ========================================
+
+export interface ProjectWageRate {
+  id: string;
+  projectId: string;
+  classification: string;
+  wageDecision: string | null;
+  baseRate: number;
+  fringeRate: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectWageRateFormData {
+  projectId: string;
+  classification: string;
+  wageDecision?: string | null;
+  baseRate: number;
+  fringeRate?: number;
+}
+
+export interface CertifiedPayrollEmployee {
+  employeeId: string;
+  name: string;
+  employeeNumber: string | null;
+  classification: string;
+  wageDecision: string | null;
+  straightTimeHours: number[];
+  overtimeHours: number[]; // Overtime + double time, per day
+  totalStraightTimeHours: number;
+  totalOvertimeHours: number;
+  totalDoubleTimeHours: number;
+  rate: number;
+  overtimeRate: number;
+  doubleTimeRate: number;
+  prevailingRate: number | null;
+  fringeRate: number;
+  belowPrevailingWage: boolean;
+  grossThisProject: number;
+  grossAllWork: number;
+  fringeBenefits: number;
+  deductions: {
+    fica: number | null;
+    withholding: number | null;
+    other: number | null;
+    total: number | null;
+  };
+  netWages: number | null;
+}
+
+export interface CertifiedPayrollReport {
+  project: {
+    id: string;
+    name: string;
+    projectNumber: string;
+    location: string | null;
+    address: string | null;
+  };
+  weekStart: string;
+  weekEnding: string;
+  days: string[];
+  employees: CertifiedPayrollEmployee[];
+  totals: {
+    straightTimeHours: number;
+    overtimeHours: number;
+    grossThisProject: number;
+    fringeBenefits: number;
+  };
+}
+
+// ========================================
+// Union Types
+// ========================================
+
+export interface UnionLocal {
+  id: string;
+  number: string; // e.g. "46"
+  name: string; // e.g. "IBEW Local 46"
+  notes: string | null;
+  isActive: boolean;
+  employeeCount?: number;
+  projectCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UnionLocalFormData {
+  number: string;
+  name: string;
+  notes?: string | null;
+  isActive?: boolean;
+}
+
+export interface UnionRate {
+  id: string;
+  unionLocalId: string;
+  classification: string;
+  effectiveDate: string;
+  wage: number;
+  healthPerHour: number;
+  pensionPerHour: number;
+  nebfPercent: number; // % of gross wages
+  apprenticeshipPerHour: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UnionRateFormData {
+  classification: string;
+  effectiveDate: string; // YYYY-MM-DD
+  wage: number;
+  healthPerHour?: number;
+  pensionPerHour?: number;
+  nebfPercent?: number;
+  apprenticeshipPerHour?: number;
+}
+
+export interface UnionRemittanceAmounts {
+  hours: number;
+  unratedHours: number; // Hours with no package on file for the classification and date
+  grossWages: number;
+  health: number;
+  pension: number;
+  nebf: number;
+  apprenticeship: number;
+  totalFringes: number;
+}
+
+export interface UnionRemittanceEmployee extends UnionRemittanceAmounts {
+  employeeId: string;
+  name: string;
+  employeeNumber: string | null;
+  classification: string;
+  homeLocalNumber: string | null;
+}
+
+export interface UnionRemittanceLocal {
+  unionLocalId: string;
+  number: string;
+  name: string;
+  employees: UnionRemittanceEmployee[];
+  totals: UnionRemittanceAmounts;
+}
+
+export interface UnionRemittanceReport {
+  month: string; // YYYY-MM
+  startDate: string;
+  endDate: string;
+  locals: UnionRemittanceLocal[];
+}
+
 // ========================================
 // Filter & Query Types
 // ========================================
@@ -261,6 +919,12 @@ export interface SignInResponse {
   message?: string;
 }
 
+export interface SignInBreakResponse {
+  success: boolean;
+  data: SignInBreak;
+  message?: string;
+}
+
 export interface SignInsResponse {
   success: boolean;
   data: DailySignIn[];
@@ -303,6 +967,192 @@ export interface PayrollSummaryResponse {
   message?: string;
 }
 
+export interface OvertimePolicyResponse {
+  success: boolean;
+  data: OvertimePolicy;
+  message?: string;
+}
+
+export interface OvertimePoliciesResponse {
+  success: boolean;
+  data: OvertimePolicy[];
+  message?: string;
+}
+
+export interface CostCodeResponse {
+  success: boolean;
+  data: CostCode;
+  message?: string;
+}
+
+export interface CostCodesResponse {
+  success: boolean;
+  data: CostCode[];
+  message?: string;
+}
+
+export interface ProjectCostCodeResponse {
+  success: boolean;
+  data: ProjectCostCode;
+  message?: string;
+}
+
+export interface ProjectCostCodesResponse {
+  success: boolean;
+  data: ProjectCostCode[];
+  message?: string;
+}
+
+export interface ApprenticeWorkCategoryResponse {
+  success: boolean;
+  data: ApprenticeWorkCategory;
+  message?: string;
+}
+
+export interface ApprenticeWorkCategoriesResponse {
+  success: boolean;
+  data: ApprenticeWorkCategory[];
+  message?: string;
+}
+
+export interface ApprenticeProgressResponse {
+  success: boolean;
+  data: ApprenticeProgress[];
+  message?: string;
+}
+
+export interface ApprenticeRatioCheckResponse {
+  success: boolean;
+  data: ApprenticeRatioCheck[];
+  message?: string;
+}
+
+export interface ProjectWageRateResponse {
+  success: boolean;
+  data: ProjectWageRate;
+  message?: string;
+}
+
+export interface ProjectWageRatesResponse {
+  success: boolean;
+  data: ProjectWageRate[];
+  message?: string;
+}
+
+export interface CertifiedPayrollResponse {
+  success: boolean;
+  data: CertifiedPayrollReport;
+  message?: string;
+}
+
+export interface TimeClockPolicyResponse {
+  success: boolean;
+  data: TimeClockPolicy;
+  message?: string;
+}
+
+export interface TimeClockPoliciesResponse {
+  success: boolean;
+  data: TimeClockPolicy[];
+  message?: string;
+}
+
+export interface TimeClockStatusResponse {
+  success: boolean;
+  data: TimeClockStatus;
+  message?: string;
+}
+
+export interface TimeClockPunchResponse {
+  success: boolean;
+  data: TimeClockPunchResult;
+  message?: string;
+}
+
+export interface TimeClockWeekResponse {
+  success: boolean;
+  data: TimeClockWeek;
+  message?: string;
+}
+
+export interface WeeklyTimesheetResponse {
+  success: boolean;
+  data: WeeklyTimesheet;
+  message?: string;
+}
+
+export interface WeeklyTimesheetsResponse {
+  success: boolean;
+  data: WeeklyTimesheet[];
+  message?: string;
+}
+
+export interface MyWeeklyTimesheetResponse {
+  success: boolean;
+  data: WeeklyTimesheet | null;
+  message?: string;
+}
+
+export interface WeeklyTimesheetGenerateResponse {
+  success: boolean;
+  data: WeeklyTimesheetGenerateResult;
+  message?: string;
+}
+
+export interface PayrollPeriodResponse {
+  success: boolean;
+  data: PayrollPeriod;
+  message?: string;
+}
+
+export interface PayrollPeriodsResponse {
+  success: boolean;
+  data: PayrollPeriod[];
+  message?: string;
+}
+
+export interface PayrollPeriodComparisonResponse {
+  success: boolean;
+  data: PayrollPeriodComparison;
+  message?: string;
+}
+
+export interface PayrollExportFormatsResponse {
+  success: boolean;
+  data: PayrollExportFormatOption[];
+  message?: string;
+}
+
+export interface UnionLocalResponse {
+  success: boolean;
+  data: UnionLocal;
+  message?: string;
+}
+
+export interface UnionLocalsResponse {
+  success: boolean;
+  data: UnionLocal[];
+  message?: string;
+}
+
+export interface UnionRateResponse {
+  success: boolean;
+  data: UnionRate;
+  message?: string;
+}
+
+export interface UnionRatesResponse {
+  success: boolean;
+  data: UnionRate[];
+  message?: string;
+}
+
+export interface UnionRemittanceReportResponse {
+  success: boolean;
+  data: UnionRemittanceReport;
+  message?: string;
+}
+
 // ========================================
 // Component Props Types
 // ========================================
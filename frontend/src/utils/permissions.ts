@@ -21,9 +21,14 @@ export type Feature =
   | 'photos'
   | 'daily-logs'
   | 'quotes'
+  | 'price-book'
+  | 'dispatch'
+  | 'crew-schedule'
+  | 'time-clock'
   | 'employees'
   | 'timekeeping'
   | 'users'
+  | 'audit-logs'
   | 'settings';
 
 /**
@@ -39,9 +44,14 @@ const FEATURE_PERMISSIONS: Record<Feature, UserRole[]> = {
   photos: ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR', 'FIELD_WORKER', 'CLIENT_READ_ONLY'],
   'daily-logs': ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR', 'FIELD_WORKER', 'CLIENT_READ_ONLY'],
   quotes: ['SUPER_ADMIN', 'OFFICE_ADMIN'],
+  'price-book': ['SUPER_ADMIN', 'OFFICE_ADMIN'],
+  dispatch: ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR', 'FIELD_WORKER'],
+  'crew-schedule': ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR'],
+  'time-clock': ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR', 'FIELD_WORKER'],
   employees: ['SUPER_ADMIN', 'OFFICE_ADMIN'],
   timekeeping: ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR'],
   users: ['SUPER_ADMIN'],
+  'audit-logs': ['SUPER_ADMIN'],
   settings: ['SUPER_ADMIN', 'OFFICE_ADMIN', 'PROJECT_MANAGER', 'FIELD_SUPERVISOR', 'FIELD_WORKER', 'CLIENT_READ_ONLY'],
 };
 